@@ -0,0 +1,228 @@
+/**
+ * Backup files and schedule of the main process
+ *
+ * A backup is a gzip-compressed JSON document { manifest, tables } named
+ * mdh-backup-<timestamp>.json.gz in the user data folder. The manifest carries
+ * the format version and a sha256 checksum of the tables, verified before a
+ * file is previewed or restored. Listing only reads the manifests, and the
+ * scheduler goes by the file names.
+ */
+
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import crypto from 'node:crypto'
+import zlib from 'node:zlib'
+import { BACKUP_CONFIG } from '../renderer/constants'
+import { BackupInfo, BackupManifest } from '../renderer/types'
+import { BackupService, BackupSnapshot, BackupSchedule, nextBackupAt, selectExpiredBackups } from '../renderer/services/backupService'
+
+function checksum(tables: BackupSnapshot['tables']): string {
+  return crypto.createHash('sha256').update(JSON.stringify(tables)).digest('hex')
+}
+
+export function encodeBackup(snapshot: BackupSnapshot): Buffer {
+  const manifest: BackupManifest = { ...snapshot.manifest, checksum: checksum(snapshot.tables) }
+  return zlib.gzipSync(JSON.stringify({ manifest, tables: snapshot.tables }))
+}
+
+/**
+ * Parse a backup file and check its format and version, not the checksum
+ */
+function parseBackup(data: Buffer): BackupSnapshot {
+  let snapshot: BackupSnapshot
+  try {
+    snapshot = JSON.parse(zlib.gunzipSync(data).toString('utf8'))
+  } catch {
+    throw new Error('Backup file is damaged or not a backup')
+  }
+
+  const { manifest, tables } = snapshot
+  if (manifest?.format !== 'mdh-backup' || typeof tables !== 'object' || tables === null) {
+    throw new Error('Backup file is damaged or not a backup')
+  }
+  if (manifest.version > BACKUP_CONFIG.FORMAT_VERSION) {
+    throw new Error(`Backup format version ${manifest.version} is newer than this app supports`)
+  }
+
+  return snapshot
+}
+
+/**
+ * Parse a backup file and check its format, version and checksum
+ */
+export function decodeBackup(data: Buffer): BackupSnapshot {
+  const snapshot = parseBackup(data)
+  if (snapshot.manifest.checksum !== checksum(snapshot.tables)) {
+    throw new Error('Backup checksum does not match; the file was modified or is incomplete')
+  }
+
+  return snapshot
+}
+
+export function backupFileName(createdAt: string): string {
+  return `${BACKUP_CONFIG.FILE_PREFIX}${createdAt.replace(/[-:]/g, '').replace('T', '-').slice(0, 15)}${BACKUP_CONFIG.FILE_EXTENSION}`
+}
+
+/**
+ * Creation time (to the second) from a name written by backupFileName, or null
+ */
+export function backupFileTime(file: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})$/.exec(
+    file.slice(BACKUP_CONFIG.FILE_PREFIX.length, file.length - BACKUP_CONFIG.FILE_EXTENSION.length)
+  )
+  if (!file.startsWith(BACKUP_CONFIG.FILE_PREFIX) || !file.endsWith(BACKUP_CONFIG.FILE_EXTENSION) || !match) return null
+  const [, year, month, day, hour, minute, second] = match
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`
+}
+
+export class BackupStore {
+  // Manifests by file name; a backup file is not changed after it is written
+  private manifests = new Map<string, { size: number; mtimeMs: number; manifest: BackupManifest }>()
+
+  constructor(private dir: string) {}
+
+  /**
+   * Backups on disk, newest first; unreadable files are skipped. Checksums
+   * are verified by read(), before a preview or restore.
+   */
+  public async list(): Promise<BackupInfo[]> {
+    const backups: BackupInfo[] = []
+    for (const file of await this.files()) {
+      try {
+        const stat = await fs.stat(path.join(this.dir, file))
+        let cached = this.manifests.get(file)
+        if (!cached || cached.size !== stat.size || cached.mtimeMs !== stat.mtimeMs) {
+          const { manifest } = parseBackup(await fs.readFile(path.join(this.dir, file)))
+          cached = { size: stat.size, mtimeMs: stat.mtimeMs, manifest }
+          this.manifests.set(file, cached)
+        }
+        backups.push({ file, size: cached.size, manifest: cached.manifest })
+      } catch (error) {
+        console.error(`[backup] skipping ${file}:`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    return backups.sort((a, b) => b.manifest.created_at.localeCompare(a.manifest.created_at))
+  }
+
+  /**
+   * Time of the newest backup, from the file names alone
+   */
+  public async latestTime(): Promise<string | null> {
+    const times = (await this.files()).map(backupFileTime).filter((time): time is string => time !== null)
+    return times.sort().pop() || null
+  }
+
+  public async write(snapshot: BackupSnapshot): Promise<BackupInfo> {
+    await fs.mkdir(this.dir, { recursive: true })
+    const file = backupFileName(snapshot.manifest.created_at)
+    const data = encodeBackup(snapshot)
+
+    // Write then rename so an interrupted backup never leaves a half file under the final name
+    const target = path.join(this.dir, file)
+    await fs.writeFile(`${target}.tmp`, data)
+    await fs.rename(`${target}.tmp`, target)
+
+    return { file, size: data.length, manifest: decodeBackup(data).manifest }
+  }
+
+  public async read(file: string): Promise<BackupSnapshot> {
+    return decodeBackup(await fs.readFile(this.resolve(file)))
+  }
+
+  /**
+   * Delete backups beyond the newest `keepLast`, dated by file name; returns the deleted file names
+   */
+  public async prune(keepLast: number): Promise<string[]> {
+    const backups = (await this.files())
+      .map(file => ({ file, manifest: { created_at: backupFileTime(file) } }))
+      .filter((backup): backup is { file: string; manifest: { created_at: string } } => backup.manifest.created_at !== null)
+    const expired = selectExpiredBackups(backups, keepLast)
+    for (const backup of expired) {
+      await fs.unlink(this.resolve(backup.file))
+      this.manifests.delete(backup.file)
+    }
+    return expired.map(backup => backup.file)
+  }
+
+  private async files(): Promise<string[]> {
+    await fs.mkdir(this.dir, { recursive: true })
+    return (await fs.readdir(this.dir))
+      .filter(file => file.startsWith(BACKUP_CONFIG.FILE_PREFIX) && file.endsWith(BACKUP_CONFIG.FILE_EXTENSION))
+  }
+
+  // Only plain file names inside the backup folder are accepted
+  private resolve(file: string): string {
+    if (path.basename(file) !== file || !file.endsWith(BACKUP_CONFIG.FILE_EXTENSION)) {
+      throw new Error(`Invalid backup file name: ${file}`)
+    }
+    return path.join(this.dir, file)
+  }
+}
+
+export interface BackupSettings extends BackupSchedule {
+  keepLast: number
+}
+
+/**
+ * Take a snapshot, write it and apply the retention policy
+ */
+export async function createBackup(client: any, store: BackupStore, keepLast: number, now: Date = new Date()): Promise<BackupInfo> {
+  const info = await store.write(await new BackupService(client).collect(now))
+  const pruned = await store.prune(keepLast)
+  console.info(`[backup] wrote ${info.file} (${info.size} bytes)${pruned.length ? `, deleted ${pruned.join(', ')}` : ''}`)
+  return info
+}
+
+/**
+ * Checks once a minute whether a scheduled backup is due. The renderer sends
+ * AppSettings.autoBackup with configure(); the newest file name on disk
+ * gives the last backup, so a check does not open any backup.
+ */
+export class BackupScheduler {
+  private settings: BackupSettings | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private running = false
+
+  constructor(private client: any, public readonly store: BackupStore, private intervalMs: number = 60000) {}
+
+  public get keepLast(): number {
+    return this.settings?.keepLast || BACKUP_CONFIG.DEFAULT_KEEP_LAST
+  }
+
+  public createNow(now: Date = new Date()): Promise<BackupInfo> {
+    return createBackup(this.client, this.store, this.keepLast, now)
+  }
+
+  public async configure(settings: BackupSettings): Promise<string | null> {
+    this.settings = settings
+    if (settings.enabled && !this.timer) {
+      this.timer = setInterval(() => void this.tick(), this.intervalMs)
+    } else if (!settings.enabled && this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    return (await this.nextRun())?.toISOString() || null
+  }
+
+  public async nextRun(): Promise<Date | null> {
+    if (!this.settings) return null
+    return nextBackupAt(this.settings, await this.store.latestTime())
+  }
+
+  public async tick(now: Date = new Date()): Promise<BackupInfo | null> {
+    if (!this.settings || this.running) return null
+    const next = await this.nextRun()
+    if (!next || next > now) return null
+
+    this.running = true
+    try {
+      return await this.createNow(now)
+    } catch (error) {
+      console.error('[backup] scheduled backup failed:', error instanceof Error ? error.message : error)
+      return null
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -1,7 +1,28 @@
-const { app, BrowserWindow } = require('electron')
+const { app, BrowserWindow, ipcMain, dialog } = require('electron')
 const path = require('node:path')
+const fs = require('node:fs')
+const os = require('node:os')
+const dotenv = require('dotenv')
+const { registerLocalStore } = require('./localStore.cjs')
 // CommonJS ortamında Node zaten __dirname ve __filename sağlar
 
+// Ana süreç de Supabase anahtarlarını .env'den okur (servis anahtarı yalnızca burada kullanılır)
+try {
+  const envPath = path.join(__dirname, '..', '..', '.env')
+  if (fs.existsSync(envPath)) {
+    dotenv.config({ path: envPath })
+  }
+} catch {}
+
+// Sipariş, stok, tedarikçi ve rapor kanalları: npm run bundle:main ile dist/main/ipc.cjs olarak derlenir.
+// Hata fırlatır; preload bu kanalları her zaman açtığı için kanalsız pencere açılmamalı
+function registerMainIpc() {
+  const { registerIpcHandlers, createMainClient, BackupStore, BackupScheduler } = require(path.join(__dirname, '..', '..', 'dist', 'main', 'ipc.cjs'))
+  const client = createMainClient()
+  const backups = new BackupScheduler(client, new BackupStore(path.join(app.getPath('userData'), 'backups')))
+  registerIpcHandlers(ipcMain, { client, user: os.userInfo().username, backups })
+}
+
 async function createWindow() {
   const win = new BrowserWindow({
     width: 1200,
@@ -27,5 +48,17 @@ async function createWindow() {
 }
 
 app.whenReady().then(async () => {
+  registerLocalStore(ipcMain, app.getPath('userData'))
+  try {
+    registerMainIpc()
+  } catch (error) {
+    console.error('IPC handlers could not be registered:', error)
+    dialog.showErrorBox(
+      'Uygulama başlatılamadı',
+      `Sipariş, stok ve rapor işlemleri yüklenemedi (npm run bundle:main çalıştırıldı mı, .env içinde SUPABASE_SERVICE_ROLE_KEY var mı?).\n\n${error instanceof Error ? error.message : error}`
+    )
+    app.exit(1)
+    return
+  }
   await createWindow()
 })
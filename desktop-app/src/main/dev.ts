@@ -1,8 +1,16 @@
 import { app, BrowserWindow, ipcMain, Notification } from 'electron'
 import path from 'node:path'
+import os from 'node:os'
+import { createRequire } from 'node:module'
 import { fileURLToPath } from 'node:url'
+import dotenv from 'dotenv'
+import { registerIpcHandlers, createMainClient, BackupStore, BackupScheduler } from './ipc'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const require = createRequire(import.meta.url)
+const { registerLocalStore } = require('./localStore.cjs')
+
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
 
 async function createWindow() {
   const win = new BrowserWindow({
@@ -28,6 +36,10 @@ async function createWindow() {
 }
 
 app.whenReady().then(async () => {
+  registerLocalStore(ipcMain, app.getPath('userData'))
+  const client = createMainClient()
+  const backups = new BackupScheduler(client, new BackupStore(path.join(app.getPath('userData'), 'backups')))
+  registerIpcHandlers(ipcMain, { client, user: os.userInfo().username, backups })
   await createWindow()
 
   // Notification permission
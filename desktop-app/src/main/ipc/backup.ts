@@ -0,0 +1,83 @@
+/**
+ * Backup channels: snapshots on disk, restore preview and restore, schedule
+ */
+
+import { BACKUP_CONFIG, BACKUP_FREQUENCIES } from '../../renderer/constants'
+import { BackupService } from '../../renderer/services/backupService'
+import { BackupScheduler } from '../backup'
+import { IpcContext, IpcHandlerMap } from './contract'
+import { requireObject, requireString, requireNumber, requireOneOf, requireArray, IpcValidationError } from './validation'
+
+type BackupChannel = 'backup:create' | 'backup:list' | 'backup:preview' | 'backup:restore' | 'backup:configure'
+
+function requireBackups(context: IpcContext): BackupScheduler {
+  if (!context.backups) {
+    throw new Error('Backups are not available in this environment')
+  }
+  return context.backups
+}
+
+export const backupHandlers: IpcHandlerMap<BackupChannel> = {
+  'backup:create': {
+    validate: () => undefined,
+    run: (_request, context) => requireBackups(context).createNow()
+  },
+
+  'backup:list': {
+    validate: () => undefined,
+    run: (_request, context) => requireBackups(context).store.list()
+  },
+
+  'backup:preview': {
+    validate: payload => ({ file: requireString(requireObject(payload).file, 'file') }),
+    run: async ({ file }, context) => {
+      const snapshot = await requireBackups(context).store.read(file)
+      return { file, manifest: snapshot.manifest, tables: await new BackupService(context.client).preview(snapshot) }
+    }
+  },
+
+  'backup:restore': {
+    validate: payload => {
+      const request = requireObject(payload)
+      if (request.deleteMissing !== undefined && typeof request.deleteMissing !== 'boolean') {
+        throw new IpcValidationError('deleteMissing must be a boolean')
+      }
+      return {
+        file: requireString(request.file, 'file'),
+        tables: request.tables === undefined
+          ? undefined
+          : requireArray(request.tables, 'tables', (entry, field) => requireOneOf(entry, BACKUP_CONFIG.TABLES, field)),
+        deleteMissing: request.deleteMissing === true
+      }
+    },
+    run: async ({ file, tables, deleteMissing }, context) => {
+      const backups = requireBackups(context)
+      const snapshot = await backups.store.read(file)
+      // Current data is kept as a backup first so a restore can itself be undone
+      await backups.createNow()
+      return new BackupService(context.client).restore(snapshot, { tables, deleteMissing })
+    }
+  },
+
+  'backup:configure': {
+    validate: payload => {
+      const settings = requireObject(requireObject(payload).settings, 'settings')
+      if (typeof settings.enabled !== 'boolean') {
+        throw new IpcValidationError('settings.enabled must be a boolean')
+      }
+      const time = requireString(settings.time, 'settings.time')
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+        throw new IpcValidationError('settings.time must be HH:mm')
+      }
+      return {
+        settings: {
+          enabled: settings.enabled,
+          frequency: requireOneOf(settings.frequency, Object.values(BACKUP_FREQUENCIES), 'settings.frequency'),
+          time,
+          keepLast: requireNumber(settings.keepLast, 'settings.keepLast', { min: 1, max: 365 })
+        }
+      }
+    },
+    run: async ({ settings }, context) => ({ nextBackupAt: await requireBackups(context).configure(settings) })
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * IPC contract between the renderer and the main process
+ *
+ * Channel names, request payloads and results shared by the handlers in
+ * src/main/ipc, the bridge in preload.cjs and window.electronAPI typings.
+ */
+
+import type { OrderStatusType, SupplierOrderStatus, ImportTarget } from '../../renderer/constants'
+import type {
+  Order,
+  Customer,
+  PaymentSummary,
+  MaterialPriceChange,
+  SupplierOrder,
+  SupplierOrderReceiptLine,
+  ReceivablesAging,
+  SupplierScorecard,
+  BackupInfo,
+  RestorePreview,
+  RestoreResult,
+  ImportCommitResult
+} from '../../renderer/types'
+import type { StatusTransitionResult } from '../../renderer/services/orderStatusEngine'
+import type { NewOrder, OrderDetailsUpdate } from '../../renderer/services/orderEntryService'
+import type { NewPayment } from '../../renderer/services/paymentService'
+import type { NewSupplierOrder, GoodsReceiptResult } from '../../renderer/services/purchaseOrderService'
+import type { DraftOrderGroup } from '../../renderer/services/reorderService'
+import type { LedgerFixResult } from '../../renderer/services/ledgerService'
+import type { StockCountPostResult } from '../../renderer/services/stockCountService'
+import type { AcceptedPriceProposal, PriceApplyResult } from '../../renderer/services/pricingService'
+import type { NewMaterialPrice } from '../../renderer/services/materialPriceService'
+import type { ImportSheet, ImportMapping } from '../../renderer/services/importService'
+import type { BackupScheduler, BackupSettings } from '../backup'
+
+export const IPC_CHANNELS = {
+  ORDERS_UPDATE_STATUS: 'orders:update-status',
+  ORDERS_UNDO_STATUS: 'orders:undo-status',
+  ORDERS_CREATE: 'orders:create',
+  ORDERS_UPDATE: 'orders:update',
+  ORDERS_UPDATE_DETAILS: 'orders:update-details',
+  PAYMENTS_RECORD: 'payments:record',
+  PAYMENTS_REFUND: 'payments:refund',
+  PAYMENTS_DELETE: 'payments:delete',
+  CUSTOMERS_MERGE: 'customers:merge',
+  STOCK_SET_QUANTITY: 'stock:set-quantity',
+  STOCK_FIX_LEDGER: 'stock:fix-ledger',
+  STOCK_POST_COUNT: 'stock:post-count',
+  PRICING_APPLY_PROPOSALS: 'pricing:apply-proposals',
+  PRICING_CHANGE_MATERIAL_PRICE: 'pricing:change-material-price',
+  SUPPLIERS_CREATE_ORDER: 'suppliers:create-order',
+  SUPPLIERS_CREATE_DRAFT_ORDERS: 'suppliers:create-draft-orders',
+  SUPPLIERS_UPDATE_ORDER_STATUS: 'suppliers:update-order-status',
+  SUPPLIERS_RECEIVE_ORDER: 'suppliers:receive-order',
+  REPORTS_RECEIVABLES_AGING: 'reports:receivables-aging',
+  REPORTS_SUPPLIER_SCORECARDS: 'reports:supplier-scorecards',
+  BACKUP_CREATE: 'backup:create',
+  BACKUP_LIST: 'backup:list',
+  BACKUP_PREVIEW: 'backup:preview',
+  BACKUP_RESTORE: 'backup:restore',
+  BACKUP_CONFIGURE: 'backup:configure',
+  IMPORT_COMMIT: 'import:commit'
+} as const
+
+export type IpcChannel = typeof IPC_CHANNELS[keyof typeof IPC_CHANNELS]
+
+// Handlers never throw across the bridge; failures come back as { success: false }
+export type IpcResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; code?: string }
+
+export interface UpdateOrderStatusRequest {
+  orderId: string
+  status: OrderStatusType
+  adminNotes?: string
+  fields?: Record<string, any> // Values the transition requires, e.g. trackingNumber
+}
+
+export interface SaveOrderRequest {
+  order: NewOrder
+}
+
+export interface UpdateOrderDetailsRequest {
+  orderId: string
+  details: OrderDetailsUpdate
+}
+
+export interface RecordPaymentRequest {
+  orderId: string
+  payment: NewPayment
+}
+
+export interface MergeCustomersRequest {
+  keepId: string
+  mergeIds: string[]
+}
+
+export interface SetStockQuantityRequest {
+  materialId: string
+  quantity: number
+  reason: string
+}
+
+export interface FixLedgerRequest {
+  materialIds: string[]
+  mode: 'rebuild' | 'adjust'
+}
+
+export interface ChangeMaterialPriceRequest {
+  materialId: string
+  change: NewMaterialPrice
+}
+
+export interface UpdateSupplierOrderStatusRequest {
+  orderId: string
+  status: SupplierOrderStatus
+}
+
+export interface ReceiveSupplierOrderRequest {
+  orderId: string
+  lines: SupplierOrderReceiptLine[]
+}
+
+export interface RestoreBackupRequest {
+  file: string
+  tables?: string[] // Defaults to every table in the backup
+  deleteMissing?: boolean
+}
+
+export interface CommitImportRequest {
+  target: ImportTarget
+  sheet: ImportSheet
+  mapping: ImportMapping
+}
+
+export type SavedOrder = Pick<Order, 'id' | 'orderNumber'>
+
+// Request and result types per channel
+export interface IpcContract {
+  'orders:update-status': { request: UpdateOrderStatusRequest; response: StatusTransitionResult }
+  'orders:undo-status': { request: { orderId: string }; response: StatusTransitionResult }
+  'orders:create': { request: SaveOrderRequest; response: SavedOrder }
+  'orders:update': { request: SaveOrderRequest & { orderId: string }; response: SavedOrder }
+  'orders:update-details': { request: UpdateOrderDetailsRequest; response: void }
+  'payments:record': { request: RecordPaymentRequest; response: PaymentSummary }
+  'payments:refund': { request: RecordPaymentRequest; response: PaymentSummary }
+  'payments:delete': { request: { paymentId: string }; response: PaymentSummary }
+  'customers:merge': { request: MergeCustomersRequest; response: Customer }
+  'stock:set-quantity': { request: SetStockQuantityRequest; response: void }
+  'stock:fix-ledger': { request: FixLedgerRequest; response: LedgerFixResult }
+  'stock:post-count': { request: { sessionId: string }; response: StockCountPostResult }
+  'pricing:apply-proposals': { request: { proposals: AcceptedPriceProposal[] }; response: PriceApplyResult }
+  'pricing:change-material-price': { request: ChangeMaterialPriceRequest; response: MaterialPriceChange | null }
+  'suppliers:create-order': { request: { order: NewSupplierOrder }; response: SupplierOrder }
+  'suppliers:create-draft-orders': { request: { groups: DraftOrderGroup[] }; response: SupplierOrder[] }
+  'suppliers:update-order-status': { request: UpdateSupplierOrderStatusRequest; response: SupplierOrder }
+  'suppliers:receive-order': { request: ReceiveSupplierOrderRequest; response: GoodsReceiptResult }
+  'reports:receivables-aging': { request: void; response: ReceivablesAging }
+  'reports:supplier-scorecards': { request: void; response: SupplierScorecard[] }
+  'backup:create': { request: void; response: BackupInfo }
+  'backup:list': { request: void; response: BackupInfo[] }
+  'backup:preview': { request: { file: string }; response: RestorePreview }
+  'backup:restore': { request: RestoreBackupRequest; response: RestoreResult }
+  'backup:configure': { request: { settings: BackupSettings }; response: { nextBackupAt: string | null } }
+  'import:commit': { request: CommitImportRequest; response: ImportCommitResult }
+}
+
+export type IpcRequest<C extends IpcChannel> = IpcContract[C]['request']
+export type IpcResponse<C extends IpcChannel> = IpcContract[C]['response']
+
+type Invoke<C extends IpcChannel> = IpcRequest<C> extends void
+  ? () => Promise<IpcResult<IpcResponse<C>>>
+  : (request: IpcRequest<C>) => Promise<IpcResult<IpcResponse<C>>>
+
+// Shape exposed on window.electronAPI by preload.cjs
+export interface MainProcessAPI {
+  orders: {
+    updateStatus: Invoke<'orders:update-status'>
+    undoStatus: Invoke<'orders:undo-status'>
+    create: Invoke<'orders:create'>
+    update: Invoke<'orders:update'>
+    updateDetails: Invoke<'orders:update-details'>
+  }
+  payments: {
+    record: Invoke<'payments:record'>
+    refund: Invoke<'payments:refund'>
+    delete: Invoke<'payments:delete'>
+  }
+  customers: {
+    merge: Invoke<'customers:merge'>
+  }
+  stock: {
+    setQuantity: Invoke<'stock:set-quantity'>
+    fixLedger: Invoke<'stock:fix-ledger'>
+    postCount: Invoke<'stock:post-count'>
+  }
+  pricing: {
+    applyProposals: Invoke<'pricing:apply-proposals'>
+    changeMaterialPrice: Invoke<'pricing:change-material-price'>
+  }
+  suppliers: {
+    createOrder: Invoke<'suppliers:create-order'>
+    createDraftOrders: Invoke<'suppliers:create-draft-orders'>
+    updateOrderStatus: Invoke<'suppliers:update-order-status'>
+    receiveOrder: Invoke<'suppliers:receive-order'>
+  }
+  reports: {
+    receivablesAging: Invoke<'reports:receivables-aging'>
+    supplierScorecards: Invoke<'reports:supplier-scorecards'>
+  }
+  backup: {
+    create: Invoke<'backup:create'>
+    list: Invoke<'backup:list'>
+    preview: Invoke<'backup:preview'>
+    restore: Invoke<'backup:restore'>
+    configure: Invoke<'backup:configure'>
+  }
+  import: {
+    commit: Invoke<'import:commit'>
+  }
+}
+
+// Main-process side of a channel: payload check, then the privileged work
+export interface IpcContext {
+  client: any // Supabase client owned by the main process
+  user: string | null // OS user recorded as changedBy
+  backups?: BackupScheduler // Backup folder and schedule; absent where there is no user data folder
+}
+
+export interface IpcHandler<C extends IpcChannel> {
+  validate: (payload: unknown) => IpcRequest<C>
+  run: (request: IpcRequest<C>, context: IpcContext) => Promise<IpcResponse<C>>
+}
+
+export type IpcHandlerMap<C extends IpcChannel = IpcChannel> = { [K in C]: IpcHandler<K> }
@@ -0,0 +1,22 @@
+/**
+ * Customer channels: merging duplicate customer records
+ */
+
+import { CustomerService } from '../../renderer/services/customerService'
+import { IpcHandlerMap } from './contract'
+import { requireObject, requireString, requireArray } from './validation'
+
+type CustomerChannel = 'customers:merge'
+
+export const customerHandlers: IpcHandlerMap<CustomerChannel> = {
+  'customers:merge': {
+    validate: payload => {
+      const request = requireObject(payload)
+      return {
+        keepId: requireString(request.keepId, 'keepId'),
+        mergeIds: requireArray(request.mergeIds, 'mergeIds', requireString)
+      }
+    },
+    run: ({ keepId, mergeIds }, { client }) => new CustomerService(client).merge(keepId, mergeIds)
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Import channel: writes a mapped CSV sheet after a fresh dry run
+ */
+
+import { IMPORT_TARGETS, IMPORT_CONFIG } from '../../renderer/constants'
+import { ImportService, ImportSheet, ImportMapping } from '../../renderer/services/importService'
+import { IpcHandlerMap } from './contract'
+import { requireObject, requireString, requireNumber, requireOneOf, requireArray, IpcValidationError } from './validation'
+
+type ImportChannel = 'import:commit'
+
+// Empty cells are valid, so cells are only checked to be strings
+function requireCell(value: unknown, field: string): string {
+  if (typeof value !== 'string') {
+    throw new IpcValidationError(`${field} must be a string`)
+  }
+  return value
+}
+
+function requireSheet(value: unknown): ImportSheet {
+  const sheet = requireObject(value, 'sheet')
+  return {
+    headers: requireArray(sheet.headers, 'sheet.headers', requireCell),
+    rows: requireArray(sheet.rows, 'sheet.rows', (entry, field) => {
+      const row = requireObject(entry, field)
+      return {
+        line: requireNumber(row.line, `${field}.line`, { min: 1 }),
+        cells: requireArray(row.cells, `${field}.cells`, requireCell)
+      }
+    }),
+    delimiter: requireOneOf(sheet.delimiter, IMPORT_CONFIG.DELIMITERS, 'sheet.delimiter')
+  }
+}
+
+function requireMapping(value: unknown, columns: number): ImportMapping {
+  const mapping: ImportMapping = {}
+  for (const [field, index] of Object.entries(requireObject(value, 'mapping'))) {
+    mapping[field] = index === null ? null : requireNumber(index, `mapping.${field}`, { min: 0, max: columns - 1 })
+  }
+  return mapping
+}
+
+export const importHandlers: IpcHandlerMap<ImportChannel> = {
+  'import:commit': {
+    validate: payload => {
+      const request = requireObject(payload)
+      const sheet = requireSheet(request.sheet)
+      return {
+        target: requireOneOf(requireString(request.target, 'target'), Object.values(IMPORT_TARGETS), 'target'),
+        sheet,
+        mapping: requireMapping(request.mapping, sheet.headers.length)
+      }
+    },
+    run: ({ target, sheet, mapping }, { client }) => new ImportService(client).commit(target, sheet, mapping)
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Typed IPC layer of the main process
+ *
+ * Privileged writes and reports run here with the main process' own Supabase
+ * client, so the service role key never reaches the renderer. Each channel
+ * validates its payload, runs the same services the renderer uses (their
+ * transactions included) and logs the outcome; errors come back as
+ * { success: false, error } instead of crossing the bridge as exceptions.
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { IpcChannel, IpcContext, IpcHandler, IpcHandlerMap, IpcResult, IpcResponse } from './contract'
+import { orderHandlers } from './orders'
+import { paymentHandlers } from './payments'
+import { customerHandlers } from './customers'
+import { stockHandlers } from './stock'
+import { pricingHandlers } from './pricing'
+import { supplierHandlers } from './suppliers'
+import { reportHandlers } from './reports'
+import { backupHandlers } from './backup'
+import { importHandlers } from './import'
+
+export * from './contract'
+export { IpcValidationError } from './validation'
+export { BackupStore, BackupScheduler } from '../backup'
+
+export const ipcHandlers: IpcHandlerMap = {
+  ...orderHandlers,
+  ...paymentHandlers,
+  ...customerHandlers,
+  ...stockHandlers,
+  ...pricingHandlers,
+  ...supplierHandlers,
+  ...reportHandlers,
+  ...backupHandlers,
+  ...importHandlers
+}
+
+interface IpcMainLike {
+  handle: (channel: string, listener: (event: unknown, payload: unknown) => Promise<unknown>) => void
+}
+
+type Env = Record<string, string | undefined>
+
+/**
+ * Supabase client for the main process; prefers the service role key
+ */
+export function createMainClient(env: Env = process.env): any {
+  const url = env.VITE_SUPABASE_URL
+  const key = env.SUPABASE_SERVICE_ROLE_KEY || env.VITE_SUPABASE_ANON_KEY
+
+  if (!url || !key) {
+    throw new Error('Missing Supabase environment variables for the main process (VITE_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY).')
+  }
+
+  return createClient(url, key, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+      detectSessionInUrl: false
+    },
+    global: {
+      headers: {
+        'X-Client-Info': 'meri-design-house-desktop-main@1.0.0'
+      }
+    }
+  })
+}
+
+/**
+ * Validate, run and log one request
+ */
+export async function handleIpcRequest<C extends IpcChannel>(
+  channel: C,
+  handler: IpcHandler<C>,
+  payload: unknown,
+  context: IpcContext
+): Promise<IpcResult<IpcResponse<C>>> {
+  const startedAt = Date.now()
+
+  try {
+    const request = handler.validate(payload)
+    const data = await handler.run(request, context)
+    console.info(`[ipc] ${channel} ok (${Date.now() - startedAt} ms)`)
+    return { success: true, data }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const code = (error as { code?: string } | null)?.code
+    console.error(`[ipc] ${channel} failed (${Date.now() - startedAt} ms): ${message}`)
+    return code ? { success: false, error: message, code } : { success: false, error: message }
+  }
+}
+
+/**
+ * Register every channel on ipcMain
+ */
+export function registerIpcHandlers(ipcMain: IpcMainLike, context: IpcContext): void {
+  for (const channel of Object.keys(ipcHandlers) as IpcChannel[]) {
+    const handler = ipcHandlers[channel] as IpcHandler<IpcChannel>
+    ipcMain.handle(channel, (_event, payload) => handleIpcRequest(channel, handler, payload, context))
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Order channels: status transitions and desktop order entry
+ */
+
+import { ORDER_STATUS, ORDER_SOURCES, SHIPPING_METHODS } from '../../renderer/constants'
+import { OrderStatusEngine } from '../../renderer/services/orderStatusEngine'
+import { OrderEntryService, NewOrder, OrderDetailsUpdate, affectsCosting } from '../../renderer/services/orderEntryService'
+import { CostingService } from '../../renderer/services/costingService'
+import { IpcHandlerMap } from './contract'
+import { requireObject, requireString, optionalString, optionalObject, requireNumber, requireOneOf, requireArray } from './validation'
+
+type OrderChannel = 'orders:update-status' | 'orders:undo-status' | 'orders:create' | 'orders:update' | 'orders:update-details'
+
+function validateNewOrder(value: unknown): NewOrder {
+  const order = requireObject(value, 'order')
+  const optionalAmount = (field: 'discount_amount' | 'shipping_cost') =>
+    order[field] === undefined || order[field] === null ? undefined : requireNumber(order[field], `order.${field}`, { min: 0 })
+
+  // Only the fields below reach the service; anything else in the payload is dropped
+  return {
+    customer_id: optionalString(order.customer_id, 'order.customer_id'),
+    customerName: requireString(order.customerName, 'order.customerName'),
+    customerEmail: optionalString(order.customerEmail, 'order.customerEmail'),
+    customerPhone: optionalString(order.customerPhone, 'order.customerPhone'),
+    shippingAddress: optionalString(order.shippingAddress, 'order.shippingAddress'),
+    shippingCity: optionalString(order.shippingCity, 'order.shippingCity'),
+    order_source: requireOneOf(order.order_source, Object.values(ORDER_SOURCES), 'order.order_source'),
+    shipping_method: requireOneOf(order.shipping_method, Object.values(SHIPPING_METHODS), 'order.shipping_method'),
+    deadline_date: optionalString(order.deadline_date, 'order.deadline_date'),
+    discount_amount: optionalAmount('discount_amount'),
+    shipping_cost: optionalAmount('shipping_cost'),
+    admin_notes: optionalString(order.admin_notes, 'order.admin_notes'),
+    items: requireArray(order.items, 'order.items', (entry, field) => {
+      const item = requireObject(entry, field)
+      return {
+        productId: requireString(item.productId, `${field}.productId`),
+        quantity: requireNumber(item.quantity, `${field}.quantity`, { min: 1 }),
+        price: requireNumber(item.price, `${field}.price`, { min: 0 }),
+        personalization: optionalObject(item.personalization, `${field}.personalization`)
+      }
+    })
+  }
+}
+
+function validateOrderDetails(value: unknown): OrderDetailsUpdate {
+  const details = requireObject(value, 'details')
+  const update: OrderDetailsUpdate = {}
+
+  // Only the keys present are written; null clears notes and the customer link
+  if ('admin_notes' in details) update.admin_notes = optionalString(details.admin_notes, 'details.admin_notes') ?? null
+  if ('customer_id' in details) update.customer_id = optionalString(details.customer_id, 'details.customer_id') ?? null
+  if ('discount_amount' in details) {
+    update.discount_amount = requireNumber(details.discount_amount, 'details.discount_amount', { min: 0 })
+  }
+  if ('shipping_cost' in details) {
+    update.shipping_cost = requireNumber(details.shipping_cost, 'details.shipping_cost', { min: 0 })
+  }
+
+  return update
+}
+
+export const orderHandlers: IpcHandlerMap<OrderChannel> = {
+  'orders:update-status': {
+    validate: payload => {
+      const request = requireObject(payload)
+      return {
+        orderId: requireString(request.orderId, 'orderId'),
+        status: requireOneOf(request.status, Object.values(ORDER_STATUS), 'status'),
+        adminNotes: optionalString(request.adminNotes, 'adminNotes'),
+        fields: optionalObject(request.fields, 'fields')
+      }
+    },
+    run: ({ orderId, status, adminNotes, fields }, { client, user }) =>
+      new OrderStatusEngine(client).transition(orderId, status, adminNotes, { changedBy: user, fields })
+  },
+
+  'orders:undo-status': {
+    validate: payload => ({ orderId: requireString(requireObject(payload).orderId, 'orderId') }),
+    run: ({ orderId }, { client, user }) => new OrderStatusEngine(client).undoLastTransition(orderId, user)
+  },
+
+  'orders:create': {
+    validate: payload => ({ order: validateNewOrder(requireObject(payload).order) }),
+    run: async ({ order }, { client }) => {
+      const created = await new OrderEntryService(client).createOrder(order)
+      await new CostingService(client).updateOrderCosts(created.id)
+      return { id: created.id, orderNumber: created.orderNumber }
+    }
+  },
+
+  'orders:update': {
+    validate: payload => {
+      const request = requireObject(payload)
+      return { orderId: requireString(request.orderId, 'orderId'), order: validateNewOrder(request.order) }
+    },
+    run: async ({ orderId, order }, { client }) => {
+      const updated = await new OrderEntryService(client).updateOrder(orderId, order)
+      await new CostingService(client).updateOrderCosts(orderId)
+      return { id: updated.id, orderNumber: updated.orderNumber }
+    }
+  },
+
+  'orders:update-details': {
+    validate: payload => {
+      const request = requireObject(payload)
+      return { orderId: requireString(request.orderId, 'orderId'), details: validateOrderDetails(request.details) }
+    },
+    run: async ({ orderId, details }, { client }) => {
+      await new OrderEntryService(client).updateDetails(orderId, details)
+      if (affectsCosting(details)) {
+        await new CostingService(client).updateOrderCosts(orderId)
+      }
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Payment channels: payments, refunds and their removal
+ */
+
+import { PAYMENT_METHODS } from '../../renderer/constants'
+import { PaymentService, NewPayment } from '../../renderer/services/paymentService'
+import { IpcHandlerMap, RecordPaymentRequest } from './contract'
+import { requireObject, requireString, optionalString, requireNumber, requireOneOf } from './validation'
+
+type PaymentChannel = 'payments:record' | 'payments:refund' | 'payments:delete'
+
+function validatePaymentRequest(payload: unknown): RecordPaymentRequest {
+  const request = requireObject(payload)
+  const payment = requireObject(request.payment, 'payment')
+
+  // The service checks the amount against the order's balance
+  const validated: NewPayment = {
+    amount: requireNumber(payment.amount, 'payment.amount', { min: 0 }),
+    method: requireOneOf(payment.method, Object.values(PAYMENT_METHODS), 'payment.method'),
+    paid_at: optionalString(payment.paid_at, 'payment.paid_at'),
+    notes: optionalString(payment.notes, 'payment.notes')
+  }
+
+  return { orderId: requireString(request.orderId, 'orderId'), payment: validated }
+}
+
+export const paymentHandlers: IpcHandlerMap<PaymentChannel> = {
+  'payments:record': {
+    validate: validatePaymentRequest,
+    run: ({ orderId, payment }, { client }) => new PaymentService(client).recordPayment(orderId, payment)
+  },
+
+  'payments:refund': {
+    validate: validatePaymentRequest,
+    run: ({ orderId, payment }, { client }) => new PaymentService(client).recordRefund(orderId, payment)
+  },
+
+  'payments:delete': {
+    validate: payload => ({ paymentId: requireString(requireObject(payload).paymentId, 'paymentId') }),
+    run: ({ paymentId }, { client }) => new PaymentService(client).deletePayment(paymentId)
+  }
+}
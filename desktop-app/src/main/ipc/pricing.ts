@@ -0,0 +1,50 @@
+/**
+ * Pricing channels: product price proposals and raw material prices
+ */
+
+import { MATERIAL_PRICE_SOURCES } from '../../renderer/constants'
+import { PricingService } from '../../renderer/services/pricingService'
+import { MaterialPriceService } from '../../renderer/services/materialPriceService'
+import { IpcHandlerMap } from './contract'
+import { requireObject, requireString, optionalString, requireNumber, requireOneOf, requireArray } from './validation'
+
+type PricingChannel = 'pricing:apply-proposals' | 'pricing:change-material-price'
+
+export const pricingHandlers: IpcHandlerMap<PricingChannel> = {
+  'pricing:apply-proposals': {
+    validate: payload => ({
+      proposals: requireArray(requireObject(payload).proposals, 'proposals', (entry, field) => {
+        const proposal = requireObject(entry, field)
+        return {
+          product_id: requireString(proposal.product_id, `${field}.product_id`),
+          product_name: requireString(proposal.product_name, `${field}.product_name`),
+          recipe_cost: requireNumber(proposal.recipe_cost, `${field}.recipe_cost`, { min: 0 }),
+          // The service only applies a proposal while the product still has this price
+          current_price: requireNumber(proposal.current_price, `${field}.current_price`, { min: 0 }),
+          suggested_price: requireNumber(proposal.suggested_price, `${field}.suggested_price`, { min: 0 }),
+          rule_id: requireString(proposal.rule_id, `${field}.rule_id`)
+        }
+      })
+    }),
+    run: ({ proposals }, { client, user }) => new PricingService(client).applyProposals(proposals, user)
+  },
+
+  'pricing:change-material-price': {
+    validate: payload => {
+      const request = requireObject(payload)
+      const change = requireObject(request.change, 'change')
+      return {
+        materialId: requireString(request.materialId, 'materialId'),
+        change: {
+          price: requireNumber(change.price, 'change.price', { min: 0 }),
+          supplier_id: optionalString(change.supplier_id, 'change.supplier_id') ?? null,
+          source: change.source === undefined || change.source === null
+            ? undefined
+            : requireOneOf(change.source, Object.values(MATERIAL_PRICE_SOURCES), 'change.source'),
+          reference_id: optionalString(change.reference_id, 'change.reference_id') ?? null
+        }
+      }
+    },
+    run: ({ materialId, change }, { client, user }) => new MaterialPriceService(client).changePrice(materialId, change, user)
+  }
+}
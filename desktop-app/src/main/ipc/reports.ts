@@ -0,0 +1,21 @@
+/**
+ * Report channels: read-only summaries computed in the main process
+ */
+
+import { PaymentService } from '../../renderer/services/paymentService'
+import { SupplierScorecardService } from '../../renderer/services/supplierScorecardService'
+import { IpcHandlerMap } from './contract'
+
+type ReportChannel = 'reports:receivables-aging' | 'reports:supplier-scorecards'
+
+export const reportHandlers: IpcHandlerMap<ReportChannel> = {
+  'reports:receivables-aging': {
+    validate: () => undefined,
+    run: (_request, { client }) => new PaymentService(client).getReceivablesAging()
+  },
+
+  'reports:supplier-scorecards': {
+    validate: () => undefined,
+    run: (_request, { client }) => new SupplierScorecardService(client).getScorecards()
+  }
+}
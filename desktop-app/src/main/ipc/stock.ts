@@ -0,0 +1,44 @@
+/**
+ * Stock channels: manual quantity changes, ledger repairs and posting stock counts
+ */
+
+import { LedgerService } from '../../renderer/services/ledgerService'
+import { StockCountService } from '../../renderer/services/stockCountService'
+import { IpcHandlerMap } from './contract'
+import { requireObject, requireString, requireNumber, requireOneOf, requireArray } from './validation'
+
+type StockChannel = 'stock:set-quantity' | 'stock:fix-ledger' | 'stock:post-count'
+
+export const stockHandlers: IpcHandlerMap<StockChannel> = {
+  'stock:set-quantity': {
+    validate: payload => {
+      const request = requireObject(payload)
+      return {
+        materialId: requireString(request.materialId, 'materialId'),
+        quantity: requireNumber(request.quantity, 'quantity', { min: 0, max: 999999 }),
+        reason: requireString(request.reason, 'reason')
+      }
+    },
+    run: ({ materialId, quantity, reason }, { client }) =>
+      new LedgerService(client).setQuantity(materialId, quantity, reason)
+  },
+
+  'stock:fix-ledger': {
+    validate: payload => {
+      const request = requireObject(payload)
+      return {
+        materialIds: requireArray(request.materialIds, 'materialIds', requireString),
+        mode: requireOneOf(request.mode, ['rebuild', 'adjust'] as const, 'mode')
+      }
+    },
+    run: ({ materialIds, mode }, { client }) => {
+      const ledger = new LedgerService(client)
+      return mode === 'rebuild' ? ledger.rebuildCache(materialIds) : ledger.createCorrections(materialIds)
+    }
+  },
+
+  'stock:post-count': {
+    validate: payload => ({ sessionId: requireString(requireObject(payload).sessionId, 'sessionId') }),
+    run: ({ sessionId }, { client }) => new StockCountService(client).postSession(sessionId)
+  }
+}
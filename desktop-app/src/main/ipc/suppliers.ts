@@ -0,0 +1,96 @@
+/**
+ * Supplier channels: purchase orders, reorder drafts and goods receipts
+ */
+
+import { SUPPLIER_ORDER_STATUS } from '../../renderer/constants'
+import { PurchaseOrderService } from '../../renderer/services/purchaseOrderService'
+import { ReorderService } from '../../renderer/services/reorderService'
+import { IpcHandlerMap } from './contract'
+import { requireObject, requireString, optionalString, requireNumber, requireOneOf, requireArray } from './validation'
+
+type SupplierChannel =
+  | 'suppliers:create-order'
+  | 'suppliers:create-draft-orders'
+  | 'suppliers:update-order-status'
+  | 'suppliers:receive-order'
+
+export const supplierHandlers: IpcHandlerMap<SupplierChannel> = {
+  'suppliers:create-order': {
+    validate: payload => {
+      const order = requireObject(requireObject(payload).order, 'order')
+      return {
+        order: {
+          supplier_id: requireString(order.supplier_id, 'order.supplier_id'),
+          items: requireArray(order.items, 'order.items', (entry, field) => {
+            const item = requireObject(entry, field)
+            return {
+              ...item,
+              material_id: requireString(item.material_id, `${field}.material_id`),
+              material_name: requireString(item.material_name, `${field}.material_name`),
+              quantity: requireNumber(item.quantity, `${field}.quantity`, { min: 0 })
+            }
+          }),
+          expected_date: optionalString(order.expected_date, 'order.expected_date') || null,
+          notes: optionalString(order.notes, 'order.notes') || null
+        }
+      }
+    },
+    run: ({ order }, { client }) => new PurchaseOrderService(client).createOrder(order)
+  },
+
+  'suppliers:create-draft-orders': {
+    validate: payload => ({
+      groups: requireArray(requireObject(payload).groups, 'groups', (entry, field) => {
+        const group = requireObject(entry, field)
+        return {
+          supplier_id: optionalString(group.supplier_id, `${field}.supplier_id`) ?? null,
+          items: requireArray(group.items, `${field}.items`, (itemEntry, itemField) => {
+            const item = requireObject(itemEntry, itemField)
+            return {
+              material_id: requireString(item.material_id, `${itemField}.material_id`),
+              material_name: requireString(item.material_name, `${itemField}.material_name`),
+              unit: optionalString(item.unit, `${itemField}.unit`) ?? null,
+              unit_price: item.unit_price === undefined || item.unit_price === null
+                ? null
+                : requireNumber(item.unit_price, `${itemField}.unit_price`, { min: 0 }),
+              suggested_qty: requireNumber(item.suggested_qty, `${itemField}.suggested_qty`, { min: 0 }),
+              lead_time_days: requireNumber(item.lead_time_days, `${itemField}.lead_time_days`, { min: 0 })
+            }
+          })
+        }
+      })
+    }),
+    run: ({ groups }, { client }) => new ReorderService(client).createDraftOrders(groups)
+  },
+
+  'suppliers:update-order-status': {
+    validate: payload => {
+      const request = requireObject(payload)
+      return {
+        orderId: requireString(request.orderId, 'orderId'),
+        status: requireOneOf(request.status, Object.values(SUPPLIER_ORDER_STATUS), 'status')
+      }
+    },
+    run: ({ orderId, status }, { client }) => new PurchaseOrderService(client).transition(orderId, status)
+  },
+
+  'suppliers:receive-order': {
+    validate: payload => {
+      const request = requireObject(payload)
+      return {
+        orderId: requireString(request.orderId, 'orderId'),
+        lines: requireArray(request.lines, 'lines', (entry, field) => {
+          const line = requireObject(entry, field)
+          return {
+            material_id: requireString(line.material_id, `${field}.material_id`),
+            quantity: requireNumber(line.quantity, `${field}.quantity`, { min: 0 }),
+            unit_price: line.unit_price === undefined || line.unit_price === null
+              ? null
+              : requireNumber(line.unit_price, `${field}.unit_price`, { min: 0 })
+          }
+        })
+      }
+    },
+    run: ({ orderId, lines }, { client }) => new PurchaseOrderService(client).receive(orderId, lines)
+  }
+}
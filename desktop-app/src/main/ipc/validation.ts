@@ -0,0 +1,71 @@
+/**
+ * Request validation for IPC handlers
+ *
+ * The renderer is not trusted: every payload is checked for shape and types
+ * before it reaches a service. Business rules (valid transitions, stock
+ * limits) stay in the services.
+ */
+
+export class IpcValidationError extends Error {
+  public readonly code = 'IPC_VALIDATION'
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'IpcValidationError'
+  }
+}
+
+type Payload = Record<string, unknown>
+
+export function requireObject(value: unknown, field: string = 'request'): Payload {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new IpcValidationError(`${field} must be an object`)
+  }
+  return value as Payload
+}
+
+export function requireString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new IpcValidationError(`${field} is required`)
+  }
+  return value
+}
+
+export function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'string') {
+    throw new IpcValidationError(`${field} must be a string`)
+  }
+  return value
+}
+
+export function requireNumber(value: unknown, field: string, range: { min?: number; max?: number } = {}): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new IpcValidationError(`${field} must be a number`)
+  }
+  if (range.min !== undefined && value < range.min) {
+    throw new IpcValidationError(`${field} must be at least ${range.min}`)
+  }
+  if (range.max !== undefined && value > range.max) {
+    throw new IpcValidationError(`${field} must be at most ${range.max}`)
+  }
+  return value
+}
+
+export function requireOneOf<T extends string>(value: unknown, allowed: readonly T[], field: string): T {
+  if (!allowed.includes(value as T)) {
+    throw new IpcValidationError(`${field} must be one of ${allowed.join(', ')}`)
+  }
+  return value as T
+}
+
+export function requireArray<T>(value: unknown, field: string, item: (entry: unknown, field: string) => T): T[] {
+  if (!Array.isArray(value)) {
+    throw new IpcValidationError(`${field} must be an array`)
+  }
+  return value.map((entry, index) => item(entry, `${field}[${index}]`))
+}
+
+export function optionalObject(value: unknown, field: string): Payload | undefined {
+  return value === undefined || value === null ? undefined : requireObject(value, field)
+}
@@ -0,0 +1,290 @@
+const path = require('node:path')
+const sqlite3 = require('sqlite3')
+
+// Yerel SQLite kopyası: çevrimdışıyken okumalar buradan yapılır,
+// yazmalar outbox tablosunda bekler ve renderer'daki SyncService tarafından Supabase'e aktarılır.
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    table_name TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT,
+    PRIMARY KEY (table_name, id)
+  );
+  CREATE TABLE IF NOT EXISTS outbox (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    table_name TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    payload TEXT,
+    base_updated_at TEXT,
+    created_at TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT
+  );
+  CREATE TABLE IF NOT EXISTS conflicts (
+    id INTEGER PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    payload TEXT,
+    base_updated_at TEXT,
+    remote TEXT,
+    detected_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS pull_state (
+    table_name TEXT PRIMARY KEY,
+    cursor TEXT,
+    pulled_at TEXT NOT NULL,
+    full_pulled_at TEXT
+  );
+  DROP TABLE IF EXISTS sync_state;
+`
+
+function openDatabase(file) {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(file, error => (error ? reject(error) : resolve(db)))
+  })
+}
+
+function createLocalStore(file) {
+  const ready = openDatabase(file).then(db => new Promise((resolve, reject) => {
+    db.exec(SCHEMA, error => (error ? reject(error) : resolve(db)))
+  }))
+
+  const run = (sql, params = []) => ready.then(db => new Promise((resolve, reject) => {
+    db.run(sql, params, function (error) {
+      if (error) reject(error)
+      else resolve({ lastID: this.lastID, changes: this.changes })
+    })
+  }))
+
+  const all = (sql, params = []) => ready.then(db => new Promise((resolve, reject) => {
+    db.all(sql, params, (error, rows) => (error ? reject(error) : resolve(rows)))
+  }))
+
+  // sqlite3 tek bağlantıda sıralı çalışır; BEGIN/COMMIT arasına başka çağrı girmesin diye kuyruğa alınır
+  let queue = Promise.resolve()
+  const transaction = work => {
+    const next = queue.then(async () => {
+      await run('BEGIN')
+      try {
+        const result = await work()
+        await run('COMMIT')
+        return result
+      } catch (error) {
+        await run('ROLLBACK')
+        throw error
+      }
+    })
+    queue = next.catch(() => undefined)
+    return next
+  }
+
+  const parse = value => (value === null || value === undefined ? null : JSON.parse(value))
+
+  const toEntry = row => ({
+    id: row.id,
+    table: row.table_name,
+    operation: row.operation,
+    record_id: row.record_id,
+    payload: parse(row.payload),
+    base_updated_at: row.base_updated_at,
+    created_at: row.created_at,
+    attempts: row.attempts,
+    last_error: row.last_error
+  })
+
+  const toConflict = row => ({
+    id: row.id,
+    table: row.table_name,
+    operation: row.operation,
+    record_id: row.record_id,
+    payload: parse(row.payload),
+    base_updated_at: row.base_updated_at,
+    remote: parse(row.remote),
+    detected_at: row.detected_at
+  })
+
+  const pendingIds = async table => new Set(
+    (await all('SELECT record_id FROM outbox WHERE table_name = ?', [table])).map(row => row.record_id)
+  )
+
+  // Web sitesi tabloları (orders, products) sürümü "updatedAt" kolonunda tutar
+  const putRecord = (table, row) => run(
+    'INSERT OR REPLACE INTO records (table_name, id, data, updated_at) VALUES (?, ?, ?, ?)',
+    [table, String(row.id), JSON.stringify(row), row.updated_at || row.updatedAt || null]
+  )
+
+  return {
+    async select(table, filter = {}) {
+      const rows = await all('SELECT data FROM records WHERE table_name = ?', [table])
+      return rows
+        .map(row => JSON.parse(row.data))
+        .filter(row => Object.entries(filter).every(([key, value]) => row[key] === value))
+    },
+
+    // Sunucudan gelen tablonun tamamını yazar; sunucuda silinen kayıtlar burada düşer.
+    // outbox'ta bekleyen kayıtların yerel hali korunur
+    replaceTable(table, rows, cursor = null) {
+      return transaction(async () => {
+        const pending = await pendingIds(table)
+        await run(
+          'DELETE FROM records WHERE table_name = ? AND id NOT IN (SELECT record_id FROM outbox WHERE table_name = ?)',
+          [table, table]
+        )
+        for (const row of rows) {
+          if (!pending.has(String(row.id))) await putRecord(table, row)
+        }
+        const now = new Date().toISOString()
+        await run(
+          'INSERT OR REPLACE INTO pull_state (table_name, cursor, pulled_at, full_pulled_at) VALUES (?, ?, ?, ?)',
+          [table, cursor, now, now]
+        )
+        return rows.length
+      })
+    },
+
+    // Sunucuda değişen kayıtları yazar, diğerlerine dokunmaz; cursor bir sonraki çekmenin başlangıcıdır
+    mergeRows(table, rows, cursor) {
+      return transaction(async () => {
+        const pending = await pendingIds(table)
+        for (const row of rows) {
+          if (!pending.has(String(row.id))) await putRecord(table, row)
+        }
+        await run(
+          `INSERT INTO pull_state (table_name, cursor, pulled_at) VALUES (?, ?, ?)
+           ON CONFLICT (table_name) DO UPDATE SET cursor = excluded.cursor, pulled_at = excluded.pulled_at`,
+          [table, cursor, new Date().toISOString()]
+        )
+        return rows.length
+      })
+    },
+
+    // Değişen üst kayıtların alt kayıtlarını (ör. siparişin satırları) sunucudakilerle değiştirir
+    replaceChildren(table, column, parentIds, rows) {
+      return transaction(async () => {
+        const pending = await pendingIds(table)
+        if (parentIds.length > 0) {
+          await run(
+            `DELETE FROM records WHERE table_name = ? AND json_extract(data, '$.' || ?) IN (${parentIds.map(() => '?').join(', ')})
+             AND id NOT IN (SELECT record_id FROM outbox WHERE table_name = ?)`,
+            [table, column, ...parentIds.map(String), table]
+          )
+        }
+        for (const row of rows) {
+          if (!pending.has(String(row.id))) await putRecord(table, row)
+        }
+        await run(
+          `INSERT INTO pull_state (table_name, pulled_at) VALUES (?, ?)
+           ON CONFLICT (table_name) DO UPDATE SET pulled_at = excluded.pulled_at`,
+          [table, new Date().toISOString()]
+        )
+        return rows.length
+      })
+    },
+
+    async pullState() {
+      const rows = await all('SELECT * FROM pull_state')
+      return Object.fromEntries(rows.map(row => [row.table_name, {
+        cursor: row.cursor,
+        pulled_at: row.pulled_at,
+        full_pulled_at: row.full_pulled_at
+      }]))
+    },
+
+    // Yazmayı yerel kopyaya uygular ve outbox'a ekler
+    enqueue(write) {
+      return transaction(async () => {
+        const recordId = String(write.record_id)
+        if (write.operation === 'delete') {
+          await run('DELETE FROM records WHERE table_name = ? AND id = ?', [write.table, recordId])
+        } else {
+          const [current] = await all('SELECT data FROM records WHERE table_name = ? AND id = ?', [write.table, recordId])
+          await putRecord(write.table, { ...(current ? JSON.parse(current.data) : {}), ...write.payload, id: write.record_id })
+        }
+        const { lastID } = await run(
+          'INSERT INTO outbox (table_name, operation, record_id, payload, base_updated_at, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+          [write.table, write.operation, recordId, write.payload ? JSON.stringify(write.payload) : null, write.base_updated_at || null, new Date().toISOString()]
+        )
+        return lastID
+      })
+    },
+
+    async outbox() {
+      return (await all('SELECT * FROM outbox ORDER BY id')).map(toEntry)
+    },
+
+    // Sunucuya aktarılan girdiyi siler; dönen satır yerel kopyaya yazılır.
+    // Aynı kayda sonradan eklenen girdiler bu yazmanın üzerine yapıldığından yeni sürümü temel alır
+    complete(entryId, row, version) {
+      return transaction(async () => {
+        const [entry] = await all('SELECT table_name, record_id FROM outbox WHERE id = ?', [entryId])
+        await run('DELETE FROM outbox WHERE id = ?', [entryId])
+        if (entry && row) await putRecord(entry.table_name, row)
+        if (entry && version) {
+          await run(
+            'UPDATE outbox SET base_updated_at = ? WHERE table_name = ? AND record_id = ? AND id > ?',
+            [version, entry.table_name, entry.record_id, entryId]
+          )
+        }
+      })
+    },
+
+    fail(entryId, message) {
+      return transaction(() =>
+        run('UPDATE outbox SET attempts = attempts + 1, last_error = ? WHERE id = ?', [message, entryId])
+      )
+    },
+
+    // Girdiyi outbox'tan çatışmalar tablosuna taşır
+    conflict(entryId, remote) {
+      return transaction(async () => {
+        await run(
+          `INSERT INTO conflicts (id, table_name, operation, record_id, payload, base_updated_at, remote, detected_at)
+           SELECT id, table_name, operation, record_id, payload, base_updated_at, ?, ? FROM outbox WHERE id = ?`,
+          [remote ? JSON.stringify(remote) : null, new Date().toISOString(), entryId]
+        )
+        await run('DELETE FROM outbox WHERE id = ?', [entryId])
+      })
+    },
+
+    async conflicts() {
+      return (await all('SELECT * FROM conflicts ORDER BY id')).map(toConflict)
+    },
+
+    // Çatışmayı kapatır; sunucu sürümü seçildiyse yerel kopyaya yazılır
+    resolveConflict(conflictId, row) {
+      return transaction(async () => {
+        const [conflict] = await all('SELECT table_name, record_id FROM conflicts WHERE id = ?', [conflictId])
+        await run('DELETE FROM conflicts WHERE id = ?', [conflictId])
+        if (!conflict) return
+        if (row) await putRecord(conflict.table_name, row)
+        else if (row === null) await run('DELETE FROM records WHERE table_name = ? AND id = ?', [conflict.table_name, conflict.record_id])
+      })
+    },
+
+    async status() {
+      const [[pending], [conflicts], [pulled]] = await Promise.all([
+        all('SELECT COUNT(*) AS count FROM outbox'),
+        all('SELECT COUNT(*) AS count FROM conflicts'),
+        all('SELECT MIN(pulled_at) AS pulled_at FROM pull_state')
+      ])
+      return { pending: pending.count, conflicts: conflicts.count, last_pulled_at: pulled.pulled_at || null }
+    }
+  }
+}
+
+// Renderer'a açılan kanallar: local-store:<metot>
+function registerLocalStore(ipcMain, userDataPath) {
+  const store = createLocalStore(path.join(userDataPath, 'mdh-local.sqlite'))
+
+  for (const method of Object.keys(store)) {
+    ipcMain.handle(`local-store:${method}`, (_event, ...args) => store[method](...args))
+  }
+
+  return store
+}
+
+module.exports = { createLocalStore, registerLocalStore }
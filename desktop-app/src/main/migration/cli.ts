@@ -0,0 +1,150 @@
+/**
+ * Command line of the legacy migration
+ *
+ *   npm run migrate:sqlite                     migrate, resuming from the last checkpoint
+ *   npm run migrate:sqlite:verify              compare source and target
+ *   npm run migrate:sqlite:status              show the checkpoints
+ *
+ * Options: --only customers,orders  --batch 200  --sample 50  --reset (with --only)
+ *
+ * The source is MIGRATION_SOURCE_DB (default takip_programi.db) and progress
+ * is kept in MIGRATION_STATE_DB (default migration-state.db); keep that file
+ * until the migration is verified. The target is MIGRATION_SUPABASE_URL and
+ * MIGRATION_SUPABASE_KEY, falling back to VITE_SUPABASE_URL and
+ * SUPABASE_SERVICE_ROLE_KEY. To try the migration on a local Postgres, run
+ * `supabase start` and use its API URL (http://127.0.0.1:54321) and
+ * service_role key.
+ */
+
+// Loaded first: the renderer modules pulled in by the mappers read the environment on import
+import 'dotenv/config'
+import { createMainClient } from '../ipc'
+import { LegacyMigration, MigrationCheckpoint, VerificationResult } from './index'
+import { SqliteSource, SqliteMigrationState } from './sqlite'
+
+type Command = 'run' | 'verify' | 'status'
+
+interface CliOptions {
+  command: Command
+  only: string[]
+  batchSize?: number
+  sampleSize?: number
+  reset: boolean
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { command: 'run', only: [], reset: false }
+  const valueOf = (index: number, flag: string) => {
+    const value = argv[index + 1]
+    if (value === undefined || value.startsWith('--')) throw new Error(`${flag} needs a value`)
+    return value
+  }
+  const positive = (value: string, flag: string) => {
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < 1) throw new Error(`${flag} must be a positive whole number`)
+    return number
+  }
+
+  for (let index = 0; index < argv.length; index++) {
+    const flag = argv[index]
+    switch (flag) {
+      case '--run':
+      case '--verify':
+      case '--status':
+        options.command = flag.slice(2) as Command
+        break
+      case '--reset':
+        options.reset = true
+        break
+      case '--only':
+        options.only = valueOf(index++, flag).split(',').map(name => name.trim()).filter(Boolean)
+        break
+      case '--batch':
+        options.batchSize = positive(valueOf(index++, flag), flag)
+        break
+      case '--sample':
+        options.sampleSize = positive(valueOf(index++, flag), flag)
+        break
+      default:
+        throw new Error(`Unknown option: ${flag}`)
+    }
+  }
+
+  if (options.reset && options.only.length === 0) {
+    throw new Error('--reset needs --only with the tables to start over')
+  }
+  return options
+}
+
+function printCheckpoints(checkpoints: MigrationCheckpoint[]) {
+  console.table(checkpoints.map(checkpoint => ({
+    table: checkpoint.mapper,
+    last_rowid: checkpoint.last_rowid,
+    migrated: checkpoint.migrated,
+    skipped: checkpoint.skipped,
+    completed: checkpoint.completed_at || '-',
+    error: checkpoint.last_error || ''
+  })))
+}
+
+function printVerification(results: VerificationResult[]) {
+  console.table(results.map(result => ({
+    table: result.mapper,
+    source: result.source_rows,
+    target: result.target_rows,
+    missing: result.missing.length,
+    sampled: result.sampled,
+    mismatches: result.mismatches.length,
+    ok: result.ok ? 'yes' : 'NO'
+  })))
+
+  for (const result of results) {
+    if (result.missing.length > 0) {
+      console.log(`${result.mapper}: missing legacy rows ${result.missing.slice(0, 20).join(', ')}${result.missing.length > 20 ? ', ...' : ''}`)
+    }
+    for (const mismatch of result.mismatches.slice(0, 20)) {
+      console.log(`${result.mapper} #${mismatch.legacy_id} ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, found ${JSON.stringify(mismatch.actual)}`)
+    }
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const env = process.env
+  const url = env.MIGRATION_SUPABASE_URL || env.VITE_SUPABASE_URL
+  const key = env.MIGRATION_SUPABASE_KEY || env.SUPABASE_SERVICE_ROLE_KEY
+  if (options.command !== 'status' && (!url || !key)) {
+    throw new Error('Missing migration target (MIGRATION_SUPABASE_URL and MIGRATION_SUPABASE_KEY, or VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY).')
+  }
+
+  const source = await SqliteSource.open(env.MIGRATION_SOURCE_DB || 'takip_programi.db')
+  const state = await SqliteMigrationState.open(env.MIGRATION_STATE_DB || 'migration-state.db')
+  const client = options.command === 'status' ? null : createMainClient({ VITE_SUPABASE_URL: url, SUPABASE_SERVICE_ROLE_KEY: key })
+  const migration = new LegacyMigration(source, state, client)
+
+  try {
+    switch (options.command) {
+      case 'run':
+        if (options.reset) await migration.reset(options.only)
+        printCheckpoints(await migration.run({ only: options.only, batchSize: options.batchSize }))
+        break
+      case 'verify': {
+        const results = await migration.verify({ only: options.only, sampleSize: options.sampleSize })
+        printVerification(results)
+        if (results.some(result => !result.ok)) process.exitCode = 1
+        break
+      }
+      case 'status':
+        printCheckpoints(await migration.status())
+        break
+    }
+  } finally {
+    await source.close()
+    await state.close()
+  }
+}
+
+main().catch(error => {
+  console.error(`[migration] ${error instanceof Error ? error.message : error}`)
+  process.exit(1)
+})
@@ -0,0 +1,238 @@
+/**
+ * Resumable migration of the legacy SQLite database into Supabase
+ *
+ * Each mapper copies one source table in rowid order, one batch at a time.
+ * Target UUIDs are assigned per legacy id and saved in the id map before the
+ * batch is upserted, so a batch interrupted half-way is rewritten onto the
+ * same rows instead of duplicating them. The checkpoint (last source rowid)
+ * moves only after the batch is written; a failed run resumes from there.
+ *
+ * verify() reads the source again and compares it with the target: every
+ * mapped legacy row must exist under its UUID, and an evenly spaced sample
+ * must carry the mapped values.
+ */
+
+import crypto from 'node:crypto'
+import { unwrap } from '../../renderer/services/transaction'
+import { LEGACY_MAPPERS } from './mappers'
+import {
+  Row,
+  SourceRow,
+  MigrationSource,
+  MigrationState,
+  MigrationCheckpoint,
+  MigrationMismatch,
+  TableMapper,
+  VerificationResult
+} from './types'
+
+export * from './types'
+export { LEGACY_MAPPERS } from './mappers'
+
+export interface MigrationOptions {
+  only?: string[] // Mapper names; all mappers when empty
+  batchSize?: number
+  now?: Date
+}
+
+const DEFAULT_BATCH_SIZE = 200
+const DEFAULT_SAMPLE_SIZE = 50
+// Ids per .in() filter, kept well below the URL length limit of PostgREST
+const ID_CHUNK_SIZE = 100
+
+export const legacyIdOf = (mapper: TableMapper, row: SourceRow): string =>
+  mapper.legacyId ? mapper.legacyId(row) : String(row._rowid)
+
+export function emptyCheckpoint(mapper: string, now: string): MigrationCheckpoint {
+  return { mapper, last_rowid: 0, migrated: 0, skipped: 0, completed_at: null, last_error: null, updated_at: now }
+}
+
+// Loose comparison: the target may return numbers as strings and '' as null
+export function sameMigratedValue(expected: unknown, actual: unknown): boolean {
+  if (Array.isArray(expected) || (expected !== null && typeof expected === 'object')) {
+    return JSON.stringify(expected) === JSON.stringify(actual)
+  }
+  return String(expected ?? '') === String(actual ?? '')
+}
+
+// Evenly spaced picks so the sample covers the whole table, not only its start
+export function sampleEvenly<T>(items: T[], size: number): T[] {
+  if (items.length <= size) return items
+  const step = items.length / size
+  return Array.from({ length: size }, (_, index) => items[Math.floor(index * step)])
+}
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size))
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+export class LegacyMigration {
+  constructor(
+    private source: MigrationSource,
+    private state: MigrationState,
+    private client: any,
+    private mappers: TableMapper[] = LEGACY_MAPPERS
+  ) {}
+
+  /**
+   * Migrate the selected tables, skipping those already completed
+   */
+  public async run(options: MigrationOptions = {}): Promise<MigrationCheckpoint[]> {
+    const checkpoints: MigrationCheckpoint[] = []
+    for (const mapper of this.select(options.only)) {
+      checkpoints.push(await this.migrateTable(mapper, options.batchSize || DEFAULT_BATCH_SIZE, (options.now || new Date()).toISOString()))
+    }
+    return checkpoints
+  }
+
+  public async status(): Promise<MigrationCheckpoint[]> {
+    const now = new Date().toISOString()
+    return Promise.all(this.mappers.map(async mapper => (await this.state.getCheckpoint(mapper.name)) || emptyCheckpoint(mapper.name, now)))
+  }
+
+  /**
+   * Start a table over on the next run; the id map is kept, so its rows are
+   * rewritten in place
+   */
+  public async reset(only: string[]): Promise<void> {
+    for (const mapper of this.select(only)) {
+      await this.state.resetCheckpoint(mapper.name)
+    }
+  }
+
+  public async verify(options: { only?: string[]; sampleSize?: number } = {}): Promise<VerificationResult[]> {
+    const results: VerificationResult[] = []
+    for (const mapper of this.select(options.only)) {
+      results.push(await this.verifyTable(mapper, options.sampleSize ?? DEFAULT_SAMPLE_SIZE))
+    }
+    return results
+  }
+
+  private select(only: string[] = []): TableMapper[] {
+    const unknown = only.filter(name => !this.mappers.some(mapper => mapper.name === name))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown migration table: ${unknown.join(', ')}`)
+    }
+    return only.length === 0 ? this.mappers : this.mappers.filter(mapper => only.includes(mapper.name))
+  }
+
+  private async migrateTable(mapper: TableMapper, batchSize: number, now: string): Promise<MigrationCheckpoint> {
+    let checkpoint = (await this.state.getCheckpoint(mapper.name)) || emptyCheckpoint(mapper.name, now)
+    if (checkpoint.completed_at) return checkpoint
+    if (checkpoint.last_rowid > 0) {
+      console.info(`[migration] ${mapper.name}: resuming after source row ${checkpoint.last_rowid}`)
+    }
+
+    for (;;) {
+      const rows = await this.source.read(mapper.source, { where: mapper.where, afterRowid: checkpoint.last_rowid, limit: batchSize })
+      if (rows.length === 0) break
+
+      const records = await this.mapBatch(mapper, rows, now)
+      try {
+        if (records.length > 0) {
+          unwrap(await this.client.from(mapper.target).upsert(records, { onConflict: 'id' }))
+        }
+      } catch (error) {
+        await this.state.saveCheckpoint({ ...checkpoint, last_error: errorMessage(error), updated_at: new Date().toISOString() })
+        throw new Error(`Migration of ${mapper.name} stopped after source row ${checkpoint.last_rowid}: ${errorMessage(error)}. Run again to resume.`)
+      }
+
+      checkpoint = {
+        ...checkpoint,
+        last_rowid: rows[rows.length - 1]._rowid,
+        migrated: checkpoint.migrated + records.length,
+        skipped: checkpoint.skipped + rows.length - records.length,
+        last_error: null,
+        updated_at: new Date().toISOString()
+      }
+      await this.state.saveCheckpoint(checkpoint)
+    }
+
+    checkpoint = { ...checkpoint, completed_at: new Date().toISOString(), updated_at: new Date().toISOString() }
+    await this.state.saveCheckpoint(checkpoint)
+    console.info(`[migration] ${mapper.name}: ${checkpoint.migrated} rows migrated, ${checkpoint.skipped} skipped`)
+    return checkpoint
+  }
+
+  // Rows of a batch with their target ids; new ids are saved before anything is written
+  private async mapBatch(mapper: TableMapper, rows: SourceRow[], now: string): Promise<Row[]> {
+    const ids = await this.state.getIds(mapper.name, rows.map(row => legacyIdOf(mapper, row)))
+    const assigned = new Map<string, string>()
+    const records: Row[] = []
+
+    for (const row of rows) {
+      const legacyId = legacyIdOf(mapper, row)
+      const id = ids.get(legacyId) || assigned.get(legacyId) || crypto.randomUUID()
+      const record = mapper.map(row, id, now)
+      if (!record) continue
+      if (!ids.has(legacyId)) assigned.set(legacyId, id)
+      records.push(record)
+    }
+
+    if (assigned.size > 0) {
+      await this.state.saveIds(mapper.name, assigned)
+    }
+    return records
+  }
+
+  private async verifyTable(mapper: TableMapper, sampleSize: number): Promise<VerificationResult> {
+    const ids = await this.state.allIds(mapper.name)
+    const now = new Date().toISOString()
+    const expected: Array<{ legacyId: string; record: Row }> = []
+    const missing: string[] = []
+    let sourceRows = 0
+
+    for (let afterRowid = 0; ;) {
+      const rows = await this.source.read(mapper.source, { where: mapper.where, afterRowid, limit: DEFAULT_BATCH_SIZE })
+      if (rows.length === 0) break
+      afterRowid = rows[rows.length - 1]._rowid
+
+      for (const row of rows) {
+        const legacyId = legacyIdOf(mapper, row)
+        const id = ids.get(legacyId)
+        const record = mapper.map(row, id || '', now)
+        if (!record) continue
+        sourceRows++
+        if (id) expected.push({ legacyId, record })
+        else missing.push(legacyId)
+      }
+    }
+
+    const found = new Set<string>()
+    for (const part of chunk(expected.map(entry => entry.record.id as string), ID_CHUNK_SIZE)) {
+      const rows = unwrap<Row[]>(await this.client.from(mapper.target).select('id').in('id', part)) || []
+      rows.forEach(row => found.add(row.id))
+    }
+    missing.push(...expected.filter(entry => !found.has(entry.record.id)).map(entry => entry.legacyId))
+
+    const sample = sampleEvenly(expected.filter(entry => found.has(entry.record.id)), sampleSize)
+    const mismatches: MigrationMismatch[] = []
+    for (const part of chunk(sample, ID_CHUNK_SIZE)) {
+      const rows = unwrap<Row[]>(await this.client
+        .from(mapper.target)
+        .select(['id', ...mapper.verifyFields].join(', '))
+        .in('id', part.map(entry => entry.record.id))) || []
+      const targetById = new Map(rows.map(row => [row.id, row]))
+
+      for (const { legacyId, record } of part) {
+        const target = targetById.get(record.id) || {}
+        for (const field of mapper.verifyFields) {
+          if (!sameMigratedValue(record[field], target[field])) {
+            mismatches.push({ legacy_id: legacyId, id: record.id, field, expected: record[field], actual: target[field] })
+          }
+        }
+      }
+    }
+
+    return {
+      mapper: mapper.name,
+      source_rows: sourceRows,
+      target_rows: found.size,
+      missing,
+      sampled: sample.length,
+      mismatches,
+      ok: missing.length === 0 && mismatches.length === 0 && found.size === sourceRows
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Table mappers of takip_programi.db
+ *
+ * The legacy database is an Excel workbook imported sheet by sheet, so
+ * columns are named "Unnamed: N" and the title and header lines of each sheet
+ * are ordinary rows; mappers skip them. The SQLite rowid is the legacy id.
+ */
+
+import { TABLE_NAMES, ORDER_STATUS } from '../../renderer/constants'
+import { normalizePhone } from '../../renderer/services/customerService'
+import { normalizeText } from '../../renderer/services/importService'
+import { SourceRow, TableMapper } from './types'
+
+// Trimmed cell text; numbers stored by the sheet import come back as text too
+export function cell(row: SourceRow, column: string): string | null {
+  const value = row[column]
+  if (value === null || value === undefined) return null
+  const text = String(value).trim()
+  return text === '' ? null : text
+}
+
+export function slugify(value: string): string {
+  return value.split(/[\s\-_/]+/).map(normalizeText).filter(Boolean).join('-')
+}
+
+const isHeader = (value: string | null, headers: string[]) => value === null || headers.includes(value)
+
+export const customersMapper: TableMapper = {
+  name: 'customers',
+  source: 'V_Müşteriler',
+  target: TABLE_NAMES.CUSTOMERS,
+  where: '"Unnamed: 3" IS NOT NULL',
+  map: (row, id, now) => {
+    const name = cell(row, 'Unnamed: 3')
+    if (isHeader(name, ['MÜŞTERİLER', 'Ad Soyadı'])) return null
+
+    // The customer table has no address columns, so the address is kept in the notes
+    const address = [cell(row, 'Unnamed: 5'), cell(row, 'Unnamed: 7'), cell(row, 'Unnamed: 6')].filter(Boolean).join(', ')
+    return {
+      id,
+      name,
+      email: null,
+      phone: normalizePhone(cell(row, 'Unnamed: 4')),
+      notes: address ? `Adres: ${address}` : null,
+      tags: [],
+      created_at: now,
+      updated_at: now
+    }
+  },
+  verifyFields: ['name', 'phone', 'notes']
+}
+
+export const productsMapper: TableMapper = {
+  name: 'products',
+  source: 'V_Ürünler',
+  target: TABLE_NAMES.PRODUCTS,
+  where: '"Unnamed: 4" IS NOT NULL',
+  map: (row, id, now) => {
+    const name = cell(row, 'Unnamed: 4')
+    if (isHeader(name, ['ÜRÜNLER', 'Ürün Adı'])) return null
+
+    // The rowid keeps slug and SKU unique when product names repeat
+    const legacyId = String(row._rowid)
+    return {
+      id,
+      name,
+      slug: `${slugify(name!)}-${legacyId}`,
+      sku: `LEGACY-${legacyId}`,
+      price: 0, // The sheet has no sales price; set it in the product catalog
+      isActive: true,
+      isFeatured: false,
+      createdAt: now,
+      updatedAt: now
+    }
+  },
+  verifyFields: ['name', 'slug', 'sku']
+}
+
+export const ordersMapper: TableMapper = {
+  name: 'orders',
+  source: 'G_Siparişler',
+  target: TABLE_NAMES.ORDERS,
+  where: '"Unnamed: 1" IS NOT NULL',
+  map: (row, id, now) => {
+    if (cell(row, 'Unnamed: 1') === null) return null
+
+    const phone = cell(row, 'Unnamed: 3')
+    return {
+      id,
+      orderNumber: `LEGACY-${row._rowid}`,
+      status: ORDER_STATUS.PENDING,
+      totalAmount: 0,
+      customerName: cell(row, 'Unnamed: 2') || 'Bilinmeyen Müşteri',
+      // Left empty so customer sync matches on the phone instead of a placeholder address
+      customerEmail: '',
+      customerPhone: normalizePhone(phone) || phone,
+      shippingAddress: cell(row, 'Unnamed: 4'),
+      shippingCity: cell(row, 'Unnamed: 5'),
+      shippingState: cell(row, 'Unnamed: 6'),
+      shippingZip: cell(row, 'Unnamed: 7'),
+      shippingCountry: 'Turkey',
+      createdAt: now,
+      updatedAt: now
+    }
+  },
+  verifyFields: ['orderNumber', 'customerName', 'customerPhone', 'shippingAddress', 'shippingCity']
+}
+
+// In dependency order
+export const LEGACY_MAPPERS: TableMapper[] = [customersMapper, productsMapper, ordersMapper]
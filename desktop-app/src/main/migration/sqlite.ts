@@ -0,0 +1,130 @@
+/**
+ * SQLite side of the legacy migration: the source database, opened read-only,
+ * and the state file holding checkpoints and the legacy id map
+ */
+
+import sqlite3 from 'sqlite3'
+import { MigrationSource, MigrationState, MigrationCheckpoint, SourceRow } from './types'
+
+class SqliteFile {
+  private constructor(private db: sqlite3.Database) {}
+
+  static open(file: string, mode: number): Promise<SqliteFile> {
+    return new Promise((resolve, reject) => {
+      const db = new sqlite3.Database(file, mode, error => error ? reject(error) : resolve(new SqliteFile(db)))
+    })
+  }
+
+  all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (error, rows) => error ? reject(error) : resolve(rows as T[]))
+    })
+  }
+
+  run(sql: string, params: unknown[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, error => error ? reject(error) : resolve())
+    })
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.close(error => error ? reject(error) : resolve())
+    })
+  }
+}
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`
+
+export class SqliteSource implements MigrationSource {
+  private constructor(private file: SqliteFile) {}
+
+  static async open(file: string): Promise<SqliteSource> {
+    return new SqliteSource(await SqliteFile.open(file, sqlite3.OPEN_READONLY))
+  }
+
+  public read(table: string, options: { where?: string; afterRowid: number; limit: number }): Promise<SourceRow[]> {
+    return this.file.all<SourceRow>(
+      `SELECT rowid AS _rowid, * FROM ${quote(table)} WHERE ${options.where ? `(${options.where}) AND ` : ''}rowid > ? ORDER BY rowid LIMIT ?`,
+      [options.afterRowid, options.limit]
+    )
+  }
+
+  public close(): Promise<void> {
+    return this.file.close()
+  }
+}
+
+export class SqliteMigrationState implements MigrationState {
+  private constructor(private file: SqliteFile) {}
+
+  static async open(file: string): Promise<SqliteMigrationState> {
+    const state = new SqliteMigrationState(await SqliteFile.open(file, sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE))
+    await state.file.run(`CREATE TABLE IF NOT EXISTS id_map (
+      mapper TEXT NOT NULL,
+      legacy_id TEXT NOT NULL,
+      target_id TEXT NOT NULL,
+      PRIMARY KEY (mapper, legacy_id)
+    )`)
+    await state.file.run(`CREATE TABLE IF NOT EXISTS checkpoints (
+      mapper TEXT PRIMARY KEY,
+      last_rowid INTEGER NOT NULL,
+      migrated INTEGER NOT NULL,
+      skipped INTEGER NOT NULL,
+      completed_at TEXT,
+      last_error TEXT,
+      updated_at TEXT NOT NULL
+    )`)
+    return state
+  }
+
+  public async getCheckpoint(mapper: string): Promise<MigrationCheckpoint | null> {
+    const [row] = await this.file.all<MigrationCheckpoint>('SELECT * FROM checkpoints WHERE mapper = ?', [mapper])
+    return row || null
+  }
+
+  public saveCheckpoint(checkpoint: MigrationCheckpoint): Promise<void> {
+    return this.file.run(
+      'INSERT OR REPLACE INTO checkpoints (mapper, last_rowid, migrated, skipped, completed_at, last_error, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [checkpoint.mapper, checkpoint.last_rowid, checkpoint.migrated, checkpoint.skipped, checkpoint.completed_at, checkpoint.last_error, checkpoint.updated_at]
+    )
+  }
+
+  public resetCheckpoint(mapper: string): Promise<void> {
+    return this.file.run('DELETE FROM checkpoints WHERE mapper = ?', [mapper])
+  }
+
+  public async getIds(mapper: string, legacyIds: string[]): Promise<Map<string, string>> {
+    if (legacyIds.length === 0) return new Map()
+    const rows = await this.file.all<{ legacy_id: string; target_id: string }>(
+      `SELECT legacy_id, target_id FROM id_map WHERE mapper = ? AND legacy_id IN (${legacyIds.map(() => '?').join(', ')})`,
+      [mapper, ...legacyIds]
+    )
+    return new Map(rows.map(row => [row.legacy_id, row.target_id]))
+  }
+
+  public async saveIds(mapper: string, ids: Map<string, string>): Promise<void> {
+    await this.file.run('BEGIN')
+    try {
+      for (const [legacyId, targetId] of ids) {
+        await this.file.run('INSERT INTO id_map (mapper, legacy_id, target_id) VALUES (?, ?, ?)', [mapper, legacyId, targetId])
+      }
+      await this.file.run('COMMIT')
+    } catch (error) {
+      await this.file.run('ROLLBACK')
+      throw error
+    }
+  }
+
+  public async allIds(mapper: string): Promise<Map<string, string>> {
+    const rows = await this.file.all<{ legacy_id: string; target_id: string }>(
+      'SELECT legacy_id, target_id FROM id_map WHERE mapper = ?',
+      [mapper]
+    )
+    return new Map(rows.map(row => [row.legacy_id, row.target_id]))
+  }
+
+  public close(): Promise<void> {
+    return this.file.close()
+  }
+}
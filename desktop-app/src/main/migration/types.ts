@@ -0,0 +1,66 @@
+/**
+ * Types of the legacy SQLite migration
+ */
+
+export type Row = Record<string, any>
+
+// A source row carries the SQLite rowid, which orders the reads and anchors checkpoints
+export type SourceRow = Row & { _rowid: number }
+
+export interface MigrationSource {
+  // Rows after `afterRowid` in rowid order
+  read(table: string, options: { where?: string; afterRowid: number; limit: number }): Promise<SourceRow[]>
+}
+
+export interface MigrationCheckpoint {
+  mapper: string
+  last_rowid: number
+  migrated: number
+  skipped: number
+  completed_at: string | null
+  last_error: string | null
+  updated_at: string
+}
+
+/**
+ * Where progress is kept between runs: a checkpoint per mapper and the
+ * legacy id → target UUID map
+ */
+export interface MigrationState {
+  getCheckpoint(mapper: string): Promise<MigrationCheckpoint | null>
+  saveCheckpoint(checkpoint: MigrationCheckpoint): Promise<void>
+  resetCheckpoint(mapper: string): Promise<void>
+  getIds(mapper: string, legacyIds: string[]): Promise<Map<string, string>>
+  saveIds(mapper: string, ids: Map<string, string>): Promise<void>
+  allIds(mapper: string): Promise<Map<string, string>>
+}
+
+export interface TableMapper {
+  name: string
+  source: string
+  target: string
+  where?: string
+  legacyId?(row: SourceRow): string
+  // null skips the row (blank or repeated header lines of the sheet export)
+  map(row: SourceRow, id: string, now: string): Row | null
+  // Columns compared by verify(); timestamps set at migration time are left out
+  verifyFields: string[]
+}
+
+export interface MigrationMismatch {
+  legacy_id: string
+  id: string
+  field: string
+  expected: unknown
+  actual: unknown
+}
+
+export interface VerificationResult {
+  mapper: string
+  source_rows: number
+  target_rows: number
+  missing: string[] // Legacy ids without a row in the target
+  sampled: number
+  mismatches: MigrationMismatch[]
+  ok: boolean
+}
@@ -1,6 +1,7 @@
 const { contextBridge, ipcRenderer } = require('electron')
 const path = require('node:path')
 const fs = require('node:fs')
+const os = require('node:os')
 const dotenv = require('dotenv')
 
 // Load .env from project root of desktop-app
@@ -13,6 +14,13 @@ try {
 
 contextBridge.exposeInMainWorld('mdh', {
   ping: () => 'pong',
+  user: (() => {
+    try {
+      return os.userInfo().username
+    } catch {
+      return undefined
+    }
+  })(),
   env: {
     VITE_SUPABASE_URL: process.env.VITE_SUPABASE_URL,
     VITE_SUPABASE_ANON_KEY: process.env.VITE_SUPABASE_ANON_KEY,
@@ -20,6 +28,61 @@ contextBridge.exposeInMainWorld('mdh', {
   }
 })
 
+const localStoreMethods = [
+  'select', 'replaceTable', 'mergeRows', 'replaceChildren', 'pullState',
+  'enqueue', 'outbox', 'complete', 'fail', 'conflict', 'conflicts', 'resolveConflict', 'status'
+]
+
+// Ana süreç kanalları; isimler src/main/ipc/contract.ts içindeki IPC_CHANNELS ile aynı olmalı
+const invoke = channel => request => ipcRenderer.invoke(channel, request)
+
 contextBridge.exposeInMainWorld('electronAPI', {
-  showNotification: (options) => ipcRenderer.invoke('show-notification', options)
+  showNotification: (options) => ipcRenderer.invoke('show-notification', options),
+  localStore: Object.fromEntries(
+    localStoreMethods.map(method => [method, (...args) => ipcRenderer.invoke(`local-store:${method}`, ...args)])
+  ),
+  orders: {
+    updateStatus: invoke('orders:update-status'),
+    undoStatus: invoke('orders:undo-status'),
+    create: invoke('orders:create'),
+    update: invoke('orders:update'),
+    updateDetails: invoke('orders:update-details')
+  },
+  payments: {
+    record: invoke('payments:record'),
+    refund: invoke('payments:refund'),
+    delete: invoke('payments:delete')
+  },
+  customers: {
+    merge: invoke('customers:merge')
+  },
+  stock: {
+    setQuantity: invoke('stock:set-quantity'),
+    fixLedger: invoke('stock:fix-ledger'),
+    postCount: invoke('stock:post-count')
+  },
+  pricing: {
+    applyProposals: invoke('pricing:apply-proposals'),
+    changeMaterialPrice: invoke('pricing:change-material-price')
+  },
+  suppliers: {
+    createOrder: invoke('suppliers:create-order'),
+    createDraftOrders: invoke('suppliers:create-draft-orders'),
+    updateOrderStatus: invoke('suppliers:update-order-status'),
+    receiveOrder: invoke('suppliers:receive-order')
+  },
+  reports: {
+    receivablesAging: invoke('reports:receivables-aging'),
+    supplierScorecards: invoke('reports:supplier-scorecards')
+  },
+  backup: {
+    create: invoke('backup:create'),
+    list: invoke('backup:list'),
+    preview: invoke('backup:preview'),
+    restore: invoke('backup:restore'),
+    configure: invoke('backup:configure')
+  },
+  import: {
+    commit: invoke('import:commit')
+  }
 })
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { ErrorHandler } from './utils/errorHandler'
 import { ReactQueryProvider } from './providers/ReactQueryProvider'
-import { Dashboard, StockManager, OrderManager, ReportsManager } from './components'
+import { Dashboard, StockManager, OrderManager, ReportsManager, MrpManager, StockCountManager, PricingManager, CustomerManager } from './components'
 import ProductsManager from './components/ProductsManager'
 import SemiFinishedManager from './components/SemiFinishedManager'
 import SupplierManager from './SupplierManager'
@@ -10,8 +10,13 @@ import SettingsManager from './SettingsManager'
 import SystemTest from './SystemTest'
 import { notificationService } from './services/NotificationService'
 import { NotificationIcon } from './components/NotificationIcon'
+import { SyncStatusIndicator } from './components/SyncStatusIndicator'
+import { SupplierAPI, BackupAPI } from './services/api'
+import { getMainProcessApi } from './services/mainProcess'
+import { useAppStore } from './stores/appStore'
+import { OFFLINE_SYNC_CONFIG } from './constants'
 
-type ActiveView = 'dashboard' | 'stock' | 'orders' | 'suppliers' | 'products' | 'semi-finished' | 'reports' | 'settings' | 'test'
+type ActiveView = 'dashboard' | 'stock' | 'orders' | 'customers' | 'suppliers' | 'products' | 'semi-finished' | 'pricing' | 'mrp' | 'stock-count' | 'reports' | 'settings' | 'test'
 
 function AppContent() {
   const [activeView, setActiveView] = useState<ActiveView>('dashboard')
@@ -22,9 +27,13 @@ function AppContent() {
     { id: 'dashboard' as const, name: 'Dashboard', icon: '📊' },
     { id: 'stock' as const, name: 'Stok Yönetimi', icon: '📦' },
     { id: 'orders' as const, name: 'Siparişler', icon: '📋' },
+    { id: 'customers' as const, name: 'Müşteriler', icon: '👥' },
     { id: 'suppliers' as const, name: 'Tedarikçiler', icon: '🏪' },
     { id: 'products' as const, name: 'Ürünler', icon: '🛍️' },
     { id: 'semi-finished' as const, name: 'Yarı Mamuller', icon: '🔧' },
+    { id: 'pricing' as const, name: 'Fiyatlandırma', icon: '🏷️' },
+    { id: 'mrp' as const, name: 'MRP', icon: '🧮' },
+    { id: 'stock-count' as const, name: 'Stok Sayımı', icon: '📝' },
     { id: 'reports' as const, name: 'Raporlar', icon: '📈' },
     { id: 'settings' as const, name: 'Ayarlar', icon: '⚙️' },
     { id: 'test' as const, name: 'Sistem Testi', icon: '🧪' }
@@ -56,6 +65,36 @@ function AppContent() {
     // No continuous polling - better for free plan
   }, [])
 
+  // Draft purchase orders for materials at their reorder point - only on app start
+  useEffect(() => {
+    const { autoReorderEnabled } = useAppStore.getState().preferences.stock
+    SupplierAPI.runAutoReorder(autoReorderEnabled).catch(error => {
+      ErrorHandler.handle(error, 'App autoReorder')
+    })
+  }, [])
+
+  // Hand the backup schedule to the main process, which takes the snapshots
+  useEffect(() => {
+    if (!getMainProcessApi()) return
+    BackupAPI.configureSchedule(useAppStore.getState().settings.autoBackup).catch(error => {
+      ErrorHandler.handle(error, 'App backupSchedule')
+    })
+  }, [])
+
+  // Health check and offline replica sync; replays queued writes as soon as the connection is back
+  useEffect(() => {
+    const { syncNow } = useAppStore.getState()
+    syncNow()
+
+    const interval = setInterval(syncNow, OFFLINE_SYNC_CONFIG.INTERVAL_MS)
+    window.addEventListener('online', syncNow)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('online', syncNow)
+    }
+  }, [])
+
   // Global error handler
   const handleError = (error: Error, errorInfo: any) => {
     ErrorHandler.handle(error, 'App Component')
@@ -82,7 +121,7 @@ function AppContent() {
               <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
               </svg>
-              İnternet bağlantısı yok. Bazı özellikler çalışmayabilir.
+              İnternet bağlantısı yok. Değişiklikler bu bilgisayarda saklanıyor, bağlantı gelince eşitlenecek.
             </span>
           </div>
         )}
@@ -94,11 +133,7 @@ function AppContent() {
               <div className="flex items-center space-x-3 flex-shrink-0">
                 <h1 className="text-xl font-bold text-gray-900 truncate">Meri Design House</h1>
                 <span className="hidden sm:inline text-sm text-gray-500">Desktop</span>
-                <span className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${
-                  isOnline ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                }`}>
-                  {isOnline ? 'Çevrimiçi' : 'Çevrimdışı'}
-                </span>
+                <SyncStatusIndicator />
               </div>
               
               {/* Orta - Navigasyon */}
@@ -152,9 +187,13 @@ function AppContent() {
             {activeView === 'dashboard' && <Dashboard />}
             {activeView === 'stock' && <StockManager onNavigate={setActiveView} />}
             {activeView === 'orders' && <OrderManager />}
+            {activeView === 'customers' && <CustomerManager />}
             {activeView === 'suppliers' && <SupplierManager />}
             {activeView === 'products' && <ProductsManager />}
             {activeView === 'semi-finished' && <SemiFinishedManager />}
+            {activeView === 'pricing' && <PricingManager />}
+            {activeView === 'mrp' && <MrpManager />}
+            {activeView === 'stock-count' && <StockCountManager />}
             {activeView === 'reports' && <ReportsManager />}
             {activeView === 'settings' && <SettingsManager />}
             {activeView === 'test' && <SystemTest />}
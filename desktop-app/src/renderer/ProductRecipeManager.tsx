@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import supabase from './SupabaseClient'
+import { getUnitService, UnitConversionError } from './services/unitService'
 
 interface Product {
   id: string
@@ -159,6 +160,11 @@ export default function ProductRecipeManager() {
   const createRecipe = async (e: React.FormEvent) => {
     e.preventDefault()
     try {
+      // Dönüştürülemeyen birimi kaydetmeden önce reddet
+      if (newRecipe.raw_material_id) {
+        await getUnitService().assertConvertible(newRecipe.raw_material_id, newRecipe.unit || null)
+      }
+
       const { error } = await supabase
         .from('product_recipes')
         .insert([{
@@ -185,6 +191,10 @@ export default function ProductRecipeManager() {
       })
       loadProductRecipes()
     } catch (error) {
+      if (error instanceof UnitConversionError) {
+        alert(`"${error.fromUnit}" birimi "${error.toUnit}" birimine dönüştürülemiyor. Önce malzeme için birim dönüşümü ekleyin.`)
+        return
+      }
       console.error('Reçete oluşturulurken hata:', error)
       alert('Reçete oluşturulurken hata oluştu!')
     }
@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react'
+import { useAppStore, AppSettings } from './stores/appStore'
+import { BackupAPI } from './services/api'
+import { getMainProcessApi } from './services/mainProcess'
+import { BackupManager } from './components/BackupManager'
+import { ImportWizard } from './components/ImportWizard'
 
 interface Settings {
-  backupFrequency: 'daily' | 'weekly' | 'monthly'
-  backupEnabled: boolean
   exportFormat: 'csv' | 'json' | 'both'
   lowStockThreshold: number
   autoReorderEnabled: boolean
@@ -13,8 +16,6 @@ interface Settings {
 
 export default function SettingsManager() {
   const [settings, setSettings] = useState<Settings>({
-    backupFrequency: 'weekly',
-    backupEnabled: true,
     exportFormat: 'both',
     lowStockThreshold: 20,
     autoReorderEnabled: false,
@@ -23,6 +24,10 @@ export default function SettingsManager() {
     theme: 'system'
   })
 
+  // Backup schedule lives in the app store; the main process runs it
+  const [autoBackup, setAutoBackup] = useState<AppSettings['autoBackup']>(useAppStore.getState().settings.autoBackup)
+  const [nextBackupAt, setNextBackupAt] = useState<string | null>(null)
+
   const [loading, setLoading] = useState(false)
   const [backupRunning, setBackupRunning] = useState(false)
 
@@ -46,6 +51,17 @@ export default function SettingsManager() {
     try {
       setLoading(true)
       localStorage.setItem('app-settings', JSON.stringify(settings))
+
+      // Reorder engine reads the preference from the app store
+      const { preferences, updatePreferences } = useAppStore.getState()
+      updatePreferences({ stock: { ...preferences.stock, autoReorderEnabled: settings.autoReorderEnabled } })
+
+      const { settings: appSettings, updateSettings } = useAppStore.getState()
+      const backupSettings = { ...autoBackup, lastBackup: appSettings.autoBackup.lastBackup }
+      updateSettings({ autoBackup: backupSettings })
+      if (getMainProcessApi()) {
+        setNextBackupAt(await BackupAPI.configureSchedule(backupSettings))
+      }
       // You could also save to a remote API here
 
       // Simulate API call
@@ -66,6 +82,7 @@ export default function SettingsManager() {
 
       const exportData = {
         settings: settings,
+        autoBackup: autoBackup,
         exportDate: new Date().toISOString(),
         version: '1.0.0'
       }
@@ -74,8 +91,10 @@ export default function SettingsManager() {
         // Create CSV content
         const csvContent = [
           ['Anahtar', 'Değer'],
-          ['Backup Sıklığı', settings.backupFrequency],
-          ['Backup Aktif', settings.backupEnabled ? 'Evet' : 'Hayır'],
+          ['Backup Sıklığı', autoBackup.frequency],
+          ['Backup Aktif', autoBackup.enabled ? 'Evet' : 'Hayır'],
+          ['Backup Saati', autoBackup.time],
+          ['Saklanan Yedek', autoBackup.keepLast.toString()],
           ['Export Formatı', settings.exportFormat],
           ['Düşük Stok Eşiği (%)', settings.lowStockThreshold.toString()],
           ['Otomatik Sipariş', settings.autoReorderEnabled ? 'Aktif' : 'Kapalı'],
@@ -144,6 +163,9 @@ export default function SettingsManager() {
           if (importedData.settings) {
             // Legacy format: direct settings object
             newSettings = { ...importedData.settings }
+            if (importedData.autoBackup) {
+              setAutoBackup({ ...autoBackup, ...importedData.autoBackup })
+            }
           } else if (importedData.orderStatuses || importedData.shippingCompanies || importedData.paymentMethods) {
             // New format: extended settings with arrays
             // Keep existing settings and merge new data
@@ -184,8 +206,6 @@ export default function SettingsManager() {
   const resetSettings = () => {
     if (confirm('Tüm ayarları sıfırlamak istediğinizden emin misiniz?')) {
       const defaultSettings: Settings = {
-        backupFrequency: 'weekly',
-        backupEnabled: true,
         exportFormat: 'both',
         lowStockThreshold: 20,
         autoReorderEnabled: false,
@@ -221,27 +241,57 @@ export default function SettingsManager() {
               <label className="flex items-center">
                 <input
                   type="checkbox"
-                  checked={settings.backupEnabled}
-                  onChange={(e) => setSettings({...settings, backupEnabled: e.target.checked})}
+                  checked={autoBackup.enabled}
+                  onChange={(e) => setAutoBackup({...autoBackup, enabled: e.target.checked})}
                   className="mr-2"
                 />
                 <span className="text-sm font-medium">Otomatik yedekleme aktif</span>
               </label>
             </div>
 
-            {settings.backupEnabled && (
-              <div>
-                <label className="block text-sm font-medium mb-1">Yedekleme Sıklığı</label>
-                <select
-                  value={settings.backupFrequency}
-                  onChange={(e) => setSettings({...settings, backupFrequency: e.target.value as any})}
-                  className="w-full px-3 py-2 border rounded-lg"
-                >
-                  <option value="daily">Günlük</option>
-                  <option value="weekly">Haftalık</option>
-                  <option value="monthly">Aylık</option>
-                </select>
-              </div>
+            {autoBackup.enabled && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Yedekleme Sıklığı</label>
+                    <select
+                      value={autoBackup.frequency}
+                      onChange={(e) => setAutoBackup({...autoBackup, frequency: e.target.value as any})}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    >
+                      <option value="daily">Günlük</option>
+                      <option value="weekly">Haftalık</option>
+                      <option value="monthly">Aylık</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Saat</label>
+                    <input
+                      type="time"
+                      value={autoBackup.time}
+                      onChange={(e) => setAutoBackup({...autoBackup, time: e.target.value})}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Saklanacak Yedek Sayısı</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="365"
+                    value={autoBackup.keepLast}
+                    onChange={(e) => setAutoBackup({...autoBackup, keepLast: Math.min(365, Math.max(1, Number(e.target.value) || 1))})}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Daha eski yedekler otomatik silinir.</p>
+                </div>
+                {nextBackupAt && (
+                  <p className="text-xs text-gray-500">
+                    Sonraki yedek: {new Date(nextBackupAt).toLocaleString('tr-TR')}
+                  </p>
+                )}
+              </>
             )}
 
             <div>
@@ -263,7 +313,7 @@ export default function SettingsManager() {
                 disabled={backupRunning}
                 className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
               >
-                {backupRunning ? '⏳' : '💾'} Manuel Export
+                {backupRunning ? '⏳' : '💾'} Ayarları Export Et
               </button>
               <label className="flex-1 px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 cursor-pointer text-center">
                 📁 Import
@@ -376,6 +426,26 @@ export default function SettingsManager() {
         </div>
       </div>
 
+      {/* Data Backups */}
+      <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-bold mb-1">Veri Yedekleri</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Tüm işletme verileri (stok, ürün, reçete, sipariş, tedarikçi) sıkıştırılmış dosyalara yedeklenir.
+          Geri yüklemeden önce yedek ile mevcut veriler karşılaştırılır.
+        </p>
+        <BackupManager />
+      </div>
+
+      {/* Data Import */}
+      <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-bold mb-1">Veri İçe Aktarma</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Hammadde, ürün, reçete, tedarikçi ve sipariş listelerini CSV dosyasından aktarın. Aynı dosya
+          tekrar aktarıldığında mevcut kayıtlar adı veya stok koduyla eşleştirilir, çift kayıt oluşmaz.
+        </p>
+        <ImportWizard />
+      </div>
+
       {/* System Info */}
       <div className="mt-8 bg-white rounded-lg shadow-md p-6">
         <h2 className="text-xl font-bold mb-4">Sistem Bilgileri</h2>
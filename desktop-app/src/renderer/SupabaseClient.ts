@@ -4,7 +4,11 @@ class SupabaseManager {
   private static instance: SupabaseManager
   private client: any
 
-  private constructor() {
+  // The client is created on first use: the main process bundles the same
+  // services but passes its own client, and must start without the anon key
+  private constructor() {}
+
+  private connect(): any {
     // Never hardcode keys. Use environment variables injected at build/runtime.
     const env = (globalThis as any)?.mdh?.env || (import.meta as any)?.env || process.env || {}
     const supabaseUrl = env.VITE_SUPABASE_URL
@@ -15,8 +19,8 @@ class SupabaseManager {
       throw new Error('Missing Supabase environment variables. Please check your .env file (VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY).')
     }
 
-    // Create client with anon key. Admin ops must go through a trusted backend/main process.
-    this.client = createClient(supabaseUrl, supabaseAnonKey, {
+    // Create client with anon key. Admin ops must go through a trusted backend/main process (src/main/ipc).
+    return createClient(supabaseUrl, supabaseAnonKey, {
       auth: {
         autoRefreshToken: false,
         persistSession: false,
@@ -44,7 +48,7 @@ class SupabaseManager {
 
   public getClient(): any {
     if (!this.client) {
-      throw new Error('Supabase client not initialized yet')
+      this.client = this.connect()
     }
     return this.client
   }
@@ -61,5 +65,13 @@ class SupabaseManager {
 }
 
 export const supabaseManager = SupabaseManager.getInstance()
-export const supabase = supabaseManager.getClient()
+
+// Resolves the client on first property access, so importing this module never throws
+export const supabase: any = new Proxy({}, {
+  get: (_target, property) => {
+    const client = supabaseManager.getClient()
+    const value = client[property]
+    return typeof value === 'function' ? value.bind(client) : value
+  }
+})
 export default supabase
\ No newline at end of file
@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react'
 import supabase from './SupabaseClient'
+import { SupplierAPI } from './services/api'
+import { SUPPLIER_ORDER_STATUS, SupplierOrderStatus } from './constants'
+import { SupplierOrder, OutstandingSupplierLine, SupplierReorderGroup, MaterialSourcingComparison, SupplierScorecard } from './types'
 
 interface Supplier {
   id: string
@@ -14,26 +17,48 @@ interface Supplier {
 interface RawMaterial {
   id: string
   name: string
+  stock_unit: string | null
+  unit_price_try: number | null
   stock_quantity: number | null
   min_stock_quantity: number | null
   lead_time_days: number | null
   supplier_id: string | null
 }
 
-interface SupplierOrder {
-  id: string
-  supplier_id: string
-  status: string
-  items_json: any
-  notes: string | null
-  created_at: string
-  updated_at: string
+const formatRate = (value: number | null) => (value === null ? '-' : `%${(value * 100).toFixed(0)}`)
+const formatDays = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)} gün`)
+
+const scoreClass = (score: number | null) => {
+  if (score === null) return 'bg-gray-100 text-gray-600'
+  if (score >= 80) return 'bg-green-100 text-green-800'
+  if (score >= 60) return 'bg-yellow-100 text-yellow-800'
+  return 'bg-red-100 text-red-800'
+}
+
+const EMPTY_OFFER = {
+  raw_material_id: '',
+  supplier_id: '',
+  unit_price_try: null as number | null,
+  lead_time_days: null as number | null,
+  min_order_quantity: null as number | null,
+  is_preferred: false
+}
+
+const ORDER_STATUS_LABELS: Record<SupplierOrderStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Taslak', className: 'bg-gray-100 text-gray-800' },
+  ORDERED: { label: 'Sipariş Verildi', className: 'bg-blue-100 text-blue-800' },
+  PARTIALLY_RECEIVED: { label: 'Kısmen Teslim Alındı', className: 'bg-yellow-100 text-yellow-800' },
+  RECEIVED: { label: 'Teslim Alındı', className: 'bg-green-100 text-green-800' },
+  CANCELLED: { label: 'İptal', className: 'bg-red-100 text-red-800' }
 }
 
 export default function SupplierManager() {
   const [suppliers, setSuppliers] = useState<Supplier[]>([])
   const [materials, setMaterials] = useState<RawMaterial[]>([])
   const [supplierOrders, setSupplierOrders] = useState<SupplierOrder[]>([])
+  const [outstanding, setOutstanding] = useState<OutstandingSupplierLine[]>([])
+  const [receivingOrder, setReceivingOrder] = useState<SupplierOrder | null>(null)
+  const [receiptLines, setReceiptLines] = useState<{ material_id: string; quantity: number; unit_price: number | null }[]>([])
   const [loading, setLoading] = useState(true)
   const [showAddSupplier, setShowAddSupplier] = useState(false)
   const [showOrderSuggestion, setShowOrderSuggestion] = useState(false)
@@ -48,7 +73,12 @@ export default function SupplierManager() {
   })
 
   const [selectedSupplier, setSelectedSupplier] = useState<string>('')
-  const [orderItems, setOrderItems] = useState<any[]>([])
+  const [reorderGroups, setReorderGroups] = useState<SupplierReorderGroup[]>([])
+  const [comparison, setComparison] = useState<MaterialSourcingComparison[]>([])
+  const [offerForm, setOfferForm] = useState<typeof EMPTY_OFFER | null>(null)
+  const [editingOfferId, setEditingOfferId] = useState<string | null>(null)
+  const [scorecards, setScorecards] = useState<SupplierScorecard[]>([])
+  const [expandedScorecard, setExpandedScorecard] = useState<string | null>(null)
 
   useEffect(() => {
     loadData()
@@ -60,7 +90,9 @@ export default function SupplierManager() {
       await Promise.all([
         loadSuppliers(),
         loadMaterials(),
-        loadSupplierOrders()
+        loadSupplierOrders(),
+        loadComparison(),
+        loadScorecards()
       ])
     } catch (error) {
       console.error('Tedarikçi veri yüklenirken hata:', error)
@@ -99,18 +131,86 @@ export default function SupplierManager() {
 
   const loadSupplierOrders = async () => {
     try {
-      const { data, error } = await supabase
-        .from('supplier_orders')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-      setSupplierOrders(data || [])
+      const [orders, outstandingLines] = await Promise.all([
+        SupplierAPI.getSupplierOrders(),
+        SupplierAPI.getOutstandingQuantities()
+      ])
+      setSupplierOrders(orders)
+      setOutstanding(outstandingLines)
     } catch (error) {
       console.error('Tedarikçi siparişleri yüklenirken hata:', error)
     }
   }
 
+  const loadComparison = async () => {
+    try {
+      setComparison(await SupplierAPI.getSourcingComparison())
+    } catch (error) {
+      console.error('Tedarikçi karşılaştırması yüklenirken hata:', error)
+    }
+  }
+
+  const loadScorecards = async () => {
+    try {
+      setScorecards(await SupplierAPI.getSupplierScorecards())
+    } catch (error) {
+      console.error('Tedarikçi performansı yüklenirken hata:', error)
+    }
+  }
+
+  const openOfferForm = (offer?: MaterialSourcingComparison['offers'][number]) => {
+    setEditingOfferId(offer?.id || null)
+    setOfferForm(offer
+      ? {
+          raw_material_id: offer.raw_material_id,
+          supplier_id: offer.supplier_id,
+          unit_price_try: offer.unit_price_try,
+          lead_time_days: offer.lead_time_days,
+          min_order_quantity: offer.min_order_quantity,
+          is_preferred: offer.is_preferred
+        }
+      : { ...EMPTY_OFFER })
+  }
+
+  const saveOffer = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!offerForm) return
+
+    try {
+      await SupplierAPI.saveMaterialSupplier(offerForm, editingOfferId || undefined)
+      setOfferForm(null)
+      setEditingOfferId(null)
+      await Promise.all([loadComparison(), loadMaterials()])
+    } catch (error) {
+      console.error('Tedarikçi koşulları kaydedilirken hata:', error)
+      alert(`Kaydedilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    }
+  }
+
+  const deleteOffer = async (offerId: string) => {
+    if (!confirm('Bu tedarikçi bu malzemeden kaldırılsın mı?')) return
+
+    try {
+      await SupplierAPI.deleteMaterialSupplier(offerId)
+      loadComparison()
+    } catch (error) {
+      console.error('Tedarikçi koşulları silinirken hata:', error)
+      alert('Tedarikçi koşulları silinemedi!')
+    }
+  }
+
+  const preferSupplier = async (materialId: string, supplierId: string) => {
+    try {
+      await SupplierAPI.setPreferredSupplier(materialId, supplierId)
+      await Promise.all([loadComparison(), loadMaterials()])
+    } catch (error) {
+      console.error('Tercihli tedarikçi ayarlanırken hata:', error)
+      alert('Tercihli tedarikçi ayarlanamadı!')
+    }
+  }
+
+  const parseOptionalNumber = (value: string): number | null => (value === '' ? null : Number(value))
+
   const createSupplier = async (e: React.FormEvent) => {
     e.preventDefault()
     try {
@@ -135,47 +235,47 @@ export default function SupplierManager() {
     }
   }
 
-  const generateOrderSuggestions = () => {
-    const suggestions = materials
-      .filter(material =>
-        material.stock_quantity !== null &&
-        material.min_stock_quantity !== null &&
-        material.stock_quantity <= material.min_stock_quantity
-      )
-      .map(material => ({
-        material_id: material.id,
-        material_name: material.name,
-        current_stock: material.stock_quantity,
-        min_stock: material.min_stock_quantity,
-        suggested_qty: (material.min_stock_quantity || 0) * 2 - (material.stock_quantity || 0)
-      }))
-
-    setOrderItems(suggestions)
-    setShowOrderSuggestion(true)
+  const generateOrderSuggestions = async () => {
+    try {
+      const groups = await SupplierAPI.getReorderSuggestions()
+      if (groups.length === 0) {
+        alert('Sipariş noktasına ulaşan malzeme yok.')
+        return
+      }
+      setReorderGroups(groups)
+      setShowOrderSuggestion(true)
+    } catch (error) {
+      console.error('Sipariş önerileri hesaplanırken hata:', error)
+      alert('Sipariş önerileri hesaplanırken hata oluştu!')
+    }
+  }
+
+  const updateSuggestedQty = (groupIndex: number, itemIndex: number, quantity: number) => {
+    setReorderGroups(groups => groups.map((group, g) => g !== groupIndex ? group : {
+      ...group,
+      items: group.items.map((item, i) => i !== itemIndex ? item : { ...item, suggested_qty: quantity })
+    }))
   }
 
   const createSupplierOrder = async () => {
-    if (!selectedSupplier || orderItems.length === 0) {
-      alert('Tedarikçi seçin ve sipariş öğeleri ekleyin!')
+    if (reorderGroups.some(group => !group.supplier_id) && !selectedSupplier) {
+      alert('Tedarikçisi olmayan malzemeler için tedarikçi seçin!')
       return
     }
 
     try {
-      const { error } = await supabase
-        .from('supplier_orders')
-        .insert([{
-          supplier_id: selectedSupplier,
-          items_json: orderItems,
-          status: 'PENDING',
-          notes: `Otomatik oluşturuldu - ${new Date().toLocaleDateString('tr-TR')}`
-        }])
-
-      if (error) throw error
+      let created = 0
+      for (const group of reorderGroups) {
+        const supplierId = group.supplier_id || selectedSupplier
+        if (group.items.every(item => item.suggested_qty <= 0)) continue
+        await SupplierAPI.createSupplierOrderSuggestion(supplierId, group.items)
+        created++
+      }
 
-      alert('Tedarikçi siparişi oluşturuldu!')
+      alert(`${created} taslak tedarikçi siparişi oluşturuldu!`)
       setShowOrderSuggestion(false)
       setSelectedSupplier('')
-      setOrderItems([])
+      setReorderGroups([])
       loadSupplierOrders()
     } catch (error) {
       console.error('Tedarikçi siparişi oluşturulurken hata:', error)
@@ -183,6 +283,45 @@ export default function SupplierManager() {
     }
   }
 
+  const updateOrderStatus = async (order: SupplierOrder, status: SupplierOrderStatus) => {
+    if (status === SUPPLIER_ORDER_STATUS.CANCELLED && !confirm('Bu siparişi iptal etmek istediğinizden emin misiniz?')) return
+
+    try {
+      await SupplierAPI.updateSupplierOrderStatus(order.id, status)
+      loadSupplierOrders()
+      loadScorecards()
+    } catch (error) {
+      console.error('Sipariş durumu güncellenirken hata:', error)
+      alert('Sipariş durumu güncellenirken hata oluştu!')
+    }
+  }
+
+  const openReceipt = (order: SupplierOrder) => {
+    setReceivingOrder(order)
+    setReceiptLines(order.items_json
+      .filter(item => item.quantity > item.received_quantity)
+      .map(item => ({
+        material_id: item.material_id,
+        quantity: item.quantity - item.received_quantity,
+        unit_price: item.unit_price ?? materials.find(m => m.id === item.material_id)?.unit_price_try ?? null
+      })))
+  }
+
+  const receiveGoods = async () => {
+    if (!receivingOrder) return
+
+    try {
+      await SupplierAPI.receiveSupplierOrder(receivingOrder.id, receiptLines)
+      alert('Teslimat kaydedildi, stoklar güncellendi!')
+      setReceivingOrder(null)
+      setReceiptLines([])
+      await Promise.all([loadSupplierOrders(), loadMaterials(), loadScorecards()])
+    } catch (error) {
+      console.error('Teslimat kaydedilirken hata:', error)
+      alert(`Teslimat kaydedilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    }
+  }
+
   const filteredSuppliers = suppliers.filter(supplier =>
     supplier.name.toLowerCase().includes(searchTerm.toLowerCase())
   )
@@ -316,57 +455,81 @@ export default function SupplierManager() {
       {/* Order Suggestion Modal */}
       {showOrderSuggestion && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-lg max-w-2xl w-full max-h-96 overflow-y-auto">
+          <div className="bg-white p-6 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-bold mb-4">Otomatik Sipariş Önerileri</h2>
-            <div className="space-y-3 mb-4">
-              {orderItems.map((item, index) => (
-                <div key={index} className="flex justify-between items-center p-3 bg-red-50 rounded">
-                  <div>
-                    <p className="font-medium">{item.material_name}</p>
-                    <p className="text-sm text-gray-600">
-                      Mevcut: {item.current_stock} → Önerilen: {item.suggested_qty}
-                    </p>
+            <div className="space-y-4 mb-4">
+              {reorderGroups.map((group, groupIndex) => (
+                <div key={group.supplier_id || 'none'}>
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="font-semibold">
+                      {group.supplier_id
+                        ? suppliers.find(s => s.id === group.supplier_id)?.name || 'Bilinmeyen tedarikçi'
+                        : 'Tedarikçisi olmayan malzemeler'}
+                    </h3>
+                    {group.total_value > 0 && (
+                      <span className="text-sm text-gray-600">₺{group.total_value.toFixed(2)}</span>
+                    )}
                   </div>
-                  <div className="text-right">
-                    <input
-                      type="number"
-                      min="0"
-                      value={item.suggested_qty}
-                      onChange={(e) => {
-                        const newItems = [...orderItems]
-                        newItems[index].suggested_qty = parseInt(e.target.value)
-                        setOrderItems(newItems)
-                      }}
-                      className="w-20 px-2 py-1 border rounded text-center"
-                    />
+                  <div className="space-y-2">
+                    {group.items.map((item, itemIndex) => (
+                      <div key={item.material_id} className="flex justify-between items-center p-3 bg-red-50 rounded">
+                        <div>
+                          <p className="font-medium">{item.material_name}</p>
+                          <p className="text-sm text-gray-600">
+                            Mevcut: {item.current_stock}
+                            {item.on_order > 0 && ` + yolda ${item.on_order}`}
+                            {' '}• Sipariş noktası: {Math.ceil(item.reorder_point)}
+                            {' '}• Günlük: {item.daily_usage.toFixed(2)} • {item.lead_time_days} gün
+                          </p>
+                          {(item.need_date || item.min_order_quantity) && (
+                            <p className={`text-xs ${item.delivers_in_time ? 'text-gray-500' : 'text-red-600 font-medium'}`}>
+                              {item.need_date && `İhtiyaç: ${new Date(item.need_date).toLocaleDateString('tr-TR')}`}
+                              {!item.delivers_in_time && ' • Hiçbir tedarikçi zamanında teslim edemiyor, en hızlısı seçildi'}
+                              {item.min_order_quantity ? ` • Min. sipariş: ${item.min_order_quantity}` : ''}
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            value={item.suggested_qty}
+                            onChange={(e) => updateSuggestedQty(groupIndex, itemIndex, parseInt(e.target.value) || 0)}
+                            className="w-20 px-2 py-1 border rounded text-center"
+                          />
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
               ))}
             </div>
 
-            <div className="mb-4">
-              <label className="block text-sm font-medium mb-1">Tedarikçi Seç *</label>
-              <select
-                value={selectedSupplier}
-                onChange={(e) => setSelectedSupplier(e.target.value)}
-                className="w-full px-3 py-2 border rounded-lg"
-                required
-              >
-                <option value="">Tedarikçi seçin</option>
-                {suppliers.map(supplier => (
-                  <option key={supplier.id} value={supplier.id}>
-                    {supplier.name}
-                  </option>
-                ))}
-              </select>
-            </div>
+            {reorderGroups.some(group => !group.supplier_id) && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-1">Tedarikçisiz malzemeler için tedarikçi *</label>
+                <select
+                  value={selectedSupplier}
+                  onChange={(e) => setSelectedSupplier(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg"
+                  required
+                >
+                  <option value="">Tedarikçi seçin</option>
+                  {suppliers.map(supplier => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
 
             <div className="flex gap-2">
               <button
                 onClick={createSupplierOrder}
                 className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600"
               >
-                Sipariş Oluştur
+                Taslak Siparişleri Oluştur
               </button>
               <button
                 onClick={() => setShowOrderSuggestion(false)}
@@ -415,10 +578,28 @@ export default function SupplierManager() {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Malzeme Sayısı:</span>
                   <span className="font-medium">
-                    {materials.filter(m => m.supplier_id === supplier.id).length}
+                    {materials.filter(m =>
+                      m.supplier_id === supplier.id ||
+                      comparison.some(row => row.raw_material_id === m.id && row.offers.some(offer => offer.supplier_id === supplier.id))
+                    ).length}
                   </span>
                 </div>
 
+                {outstanding.some(line => line.supplier_id === supplier.id) && (
+                  <div className="pt-2 border-t">
+                    <span className="text-gray-600">Bekleyen Teslimat:</span>
+                    {outstanding.filter(line => line.supplier_id === supplier.id).map(line => (
+                      <div key={line.material_id} className="flex justify-between text-xs mt-1">
+                        <span>{line.material_name}</span>
+                        <span className="font-medium">
+                          {line.outstanding_quantity} {line.unit || ''}
+                          {line.expected_date && ` • ${new Date(line.expected_date).toLocaleDateString('tr-TR')}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex justify-between">
                   <span className="text-gray-600">Son Güncelleme:</span>
                   <span className="font-medium">
@@ -446,6 +627,425 @@ export default function SupplierManager() {
         )}
       </div>
 
+      {/* Supplier Scorecard */}
+      <div className="mt-8">
+        <h2 className="text-xl font-bold mb-4">Tedarikçi Performansı</h2>
+        {scorecards.length === 0 ? (
+          <p className="text-gray-600">Henüz verilmiş tedarikçi siparişi yok</p>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md border overflow-hidden">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="px-4 py-2 text-left">#</th>
+                  <th className="px-4 py-2 text-left">Tedarikçi</th>
+                  <th className="px-4 py-2 text-right">Puan</th>
+                  <th className="px-4 py-2 text-right">Sipariş</th>
+                  <th className="px-4 py-2 text-right">Zamanında</th>
+                  <th className="px-4 py-2 text-right">Karşılama</th>
+                  <th className="px-4 py-2 text-right">Teslim Süresi</th>
+                  <th className="px-4 py-2 text-right">Fiyat Oynaklığı</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {scorecards.map(card => (
+                  <React.Fragment key={card.supplier_id}>
+                    <tr
+                      onClick={() => setExpandedScorecard(expandedScorecard === card.supplier_id ? null : card.supplier_id)}
+                      className="cursor-pointer hover:bg-gray-50"
+                    >
+                      <td className="px-4 py-2 text-gray-500">{card.rank}</td>
+                      <td className="px-4 py-2 font-medium">{card.supplier_name}</td>
+                      <td className="px-4 py-2 text-right">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${scoreClass(card.score)}`}>
+                          {card.score === null ? '-' : card.score.toFixed(0)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-right">{card.order_count}</td>
+                      <td className="px-4 py-2 text-right">{formatRate(card.on_time_rate)}</td>
+                      <td className="px-4 py-2 text-right">{formatRate(card.fill_rate)}</td>
+                      <td className="px-4 py-2 text-right">
+                        {formatDays(card.avg_lead_time_days)}
+                        {card.promised_lead_time_days !== null && (
+                          <span className="text-xs text-gray-500"> / söz {formatDays(card.promised_lead_time_days)}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {card.price_volatility_percent === null ? '-' : `%${card.price_volatility_percent.toFixed(1)}`}
+                      </td>
+                    </tr>
+                    {expandedScorecard === card.supplier_id && (
+                      <tr>
+                        <td colSpan={8} className="px-4 py-3 bg-gray-50">
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                            <div>
+                              <h4 className="font-semibold mb-2">Siparişler</h4>
+                              <div className="space-y-1">
+                                {card.orders.map(order => (
+                                  <div key={order.order_id} className="flex justify-between text-xs bg-white p-2 rounded border">
+                                    <span>
+                                      {new Date(order.ordered_at).toLocaleDateString('tr-TR')}
+                                      {' • '}{ORDER_STATUS_LABELS[order.status]?.label || order.status}
+                                    </span>
+                                    <span className="space-x-2">
+                                      {order.expected_date && <span>Beklenen: {new Date(order.expected_date).toLocaleDateString('tr-TR')}</span>}
+                                      {order.lead_time_days !== null && <span>{formatDays(order.lead_time_days)}</span>}
+                                      {order.fill_rate !== null && <span>Karşılama {formatRate(order.fill_rate)}</span>}
+                                      {order.on_time !== null && (
+                                        <span className={order.on_time ? 'text-green-700' : 'text-red-600 font-medium'}>
+                                          {order.on_time ? 'Zamanında' : 'Gecikti'}
+                                        </span>
+                                      )}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                            <div>
+                              <h4 className="font-semibold mb-2">Ödenen Fiyatlar</h4>
+                              {card.prices.length === 0 ? (
+                                <p className="text-xs text-gray-500">Fiyat bilgisi yok</p>
+                              ) : (
+                                <div className="space-y-1">
+                                  {card.prices.map((point, index) => (
+                                    <div key={`${point.material_id}-${index}`} className="flex justify-between text-xs bg-white p-2 rounded border">
+                                      <span>{point.material_name}</span>
+                                      <span>
+                                        {new Date(point.ordered_at).toLocaleDateString('tr-TR')} • ₺{point.unit_price.toFixed(2)}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Supplier Comparison */}
+      <div className="mt-8">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Malzeme Bazında Tedarikçi Karşılaştırması</h2>
+          <button
+            onClick={() => openOfferForm()}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+          >
+            + Tedarikçi Koşulu Ekle
+          </button>
+        </div>
+        {comparison.length === 0 ? (
+          <p className="text-gray-600">Henüz malzeme için tedarikçi koşulu girilmedi</p>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md border divide-y">
+            {comparison.map(row => (
+              <div key={row.raw_material_id} className="p-4">
+                <h3 className="font-semibold mb-2">{row.material_name}</h3>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="text-left py-1">Tedarikçi</th>
+                      <th className="text-right py-1">Birim Fiyat</th>
+                      <th className="text-right py-1">Teslim Süresi</th>
+                      <th className="text-right py-1">Min. Sipariş</th>
+                      <th className="py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {row.offers.map(offer => (
+                      <tr key={offer.id} className="border-t">
+                        <td className="py-2">
+                          {offer.supplier_name}
+                          {offer.is_preferred && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">Tercihli</span>
+                          )}
+                        </td>
+                        <td className={`py-2 text-right ${offer.is_cheapest ? 'text-green-700 font-semibold' : ''}`}>
+                          {offer.unit_price_try !== null ? `₺${offer.unit_price_try.toFixed(2)}` : '-'}
+                          {row.unit && offer.unit_price_try !== null && <span className="text-xs text-gray-500"> / {row.unit}</span>}
+                        </td>
+                        <td className={`py-2 text-right ${offer.is_fastest ? 'text-green-700 font-semibold' : ''}`}>
+                          {offer.lead_time_days !== null ? `${offer.lead_time_days} gün` : '-'}
+                        </td>
+                        <td className="py-2 text-right">
+                          {offer.min_order_quantity !== null ? `${offer.min_order_quantity} ${row.unit || ''}` : '-'}
+                        </td>
+                        <td className="py-2 text-right space-x-2 whitespace-nowrap">
+                          {!offer.is_preferred && (
+                            <button
+                              onClick={() => preferSupplier(row.raw_material_id, offer.supplier_id)}
+                              className="text-xs text-blue-600 hover:underline"
+                            >
+                              Tercih Et
+                            </button>
+                          )}
+                          <button
+                            onClick={() => openOfferForm(offer)}
+                            className="text-xs text-gray-600 hover:underline"
+                          >
+                            Düzenle
+                          </button>
+                          <button
+                            onClick={() => deleteOffer(offer.id)}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Kaldır
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Supplier Terms Modal */}
+      {offerForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full">
+            <h2 className="text-xl font-bold mb-4">{editingOfferId ? 'Tedarikçi Koşullarını Düzenle' : 'Tedarikçi Koşulu Ekle'}</h2>
+            <form onSubmit={saveOffer}>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Malzeme *</label>
+                  <select
+                    required
+                    disabled={!!editingOfferId}
+                    value={offerForm.raw_material_id}
+                    onChange={(e) => setOfferForm({ ...offerForm, raw_material_id: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="">Malzeme seçin</option>
+                    {materials.map(material => (
+                      <option key={material.id} value={material.id}>{material.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Tedarikçi *</label>
+                  <select
+                    required
+                    disabled={!!editingOfferId}
+                    value={offerForm.supplier_id}
+                    onChange={(e) => setOfferForm({ ...offerForm, supplier_id: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="">Tedarikçi seçin</option>
+                    {suppliers.map(supplier => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Birim Fiyat (₺)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={offerForm.unit_price_try ?? ''}
+                      onChange={(e) => setOfferForm({ ...offerForm, unit_price_try: parseOptionalNumber(e.target.value) })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Teslim (gün)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={offerForm.lead_time_days ?? ''}
+                      onChange={(e) => setOfferForm({ ...offerForm, lead_time_days: parseOptionalNumber(e.target.value) })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Min. Sipariş</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={offerForm.min_order_quantity ?? ''}
+                      onChange={(e) => setOfferForm({ ...offerForm, min_order_quantity: parseOptionalNumber(e.target.value) })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={offerForm.is_preferred}
+                    onChange={(e) => setOfferForm({ ...offerForm, is_preferred: e.target.checked })}
+                  />
+                  Tercihli tedarikçi
+                </label>
+              </div>
+              <div className="flex gap-2 mt-6">
+                <button
+                  type="submit"
+                  className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600"
+                >
+                  Kaydet
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setOfferForm(null)
+                    setEditingOfferId(null)
+                  }}
+                  className="flex-1 bg-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-400"
+                >
+                  İptal
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase Orders */}
+      {supplierOrders.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-xl font-bold mb-4">Tedarikçi Siparişleri</h2>
+          <div className="bg-white rounded-lg shadow-md border divide-y">
+            {supplierOrders.map(order => {
+              const statusConfig = ORDER_STATUS_LABELS[order.status] || ORDER_STATUS_LABELS.PENDING
+              return (
+                <div key={order.id} className="p-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="font-semibold">
+                        {suppliers.find(s => s.id === order.supplier_id)?.name || 'Bilinmeyen tedarikçi'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(order.created_at).toLocaleDateString('tr-TR')}
+                        {order.expected_date && ` • Beklenen: ${new Date(order.expected_date).toLocaleDateString('tr-TR')}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusConfig.className}`}>
+                        {statusConfig.label}
+                      </span>
+                      {order.status === SUPPLIER_ORDER_STATUS.PENDING && (
+                        <button
+                          onClick={() => updateOrderStatus(order, SUPPLIER_ORDER_STATUS.ORDERED)}
+                          className="px-3 py-1 bg-blue-500 text-white text-xs rounded hover:bg-blue-600"
+                        >
+                          Sipariş Verildi
+                        </button>
+                      )}
+                      {(order.status === SUPPLIER_ORDER_STATUS.ORDERED || order.status === SUPPLIER_ORDER_STATUS.PARTIALLY_RECEIVED) && (
+                        <button
+                          onClick={() => openReceipt(order)}
+                          className="px-3 py-1 bg-green-500 text-white text-xs rounded hover:bg-green-600"
+                        >
+                          Teslim Al
+                        </button>
+                      )}
+                      {order.status !== SUPPLIER_ORDER_STATUS.RECEIVED && order.status !== SUPPLIER_ORDER_STATUS.CANCELLED && (
+                        <button
+                          onClick={() => updateOrderStatus(order, SUPPLIER_ORDER_STATUS.CANCELLED)}
+                          className="px-3 py-1 bg-gray-300 text-gray-700 text-xs rounded hover:bg-gray-400"
+                        >
+                          İptal
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-2 space-y-1">
+                    {order.items_json.map(item => (
+                      <div key={item.material_id} className="flex justify-between text-sm text-gray-700">
+                        <span>{item.material_name}</span>
+                        <span>
+                          {item.received_quantity} / {item.quantity} {item.unit || ''}
+                          {item.unit_price != null && ` • ₺${item.unit_price.toFixed(2)}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Goods Receipt Modal */}
+      {receivingOrder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-bold mb-4">Teslimat Kaydı</h2>
+            <div className="space-y-3 mb-4">
+              {receiptLines.map((line, index) => {
+                const item = receivingOrder.items_json.find(i => i.material_id === line.material_id)
+                return (
+                  <div key={line.material_id} className="flex justify-between items-center p-3 bg-gray-50 rounded">
+                    <div>
+                      <p className="font-medium">{item?.material_name}</p>
+                      <p className="text-sm text-gray-600">
+                        Bekleyen: {item ? item.quantity - item.received_quantity : 0} {item?.unit || ''}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 items-center">
+                      <label className="text-xs text-gray-600">Miktar</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.quantity}
+                        onChange={(e) => {
+                          const newLines = [...receiptLines]
+                          newLines[index] = { ...line, quantity: parseFloat(e.target.value) || 0 }
+                          setReceiptLines(newLines)
+                        }}
+                        className="w-20 px-2 py-1 border rounded text-center"
+                      />
+                      <label className="text-xs text-gray-600">Birim ₺</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unit_price ?? ''}
+                        onChange={(e) => {
+                          const newLines = [...receiptLines]
+                          newLines[index] = { ...line, unit_price: e.target.value === '' ? null : parseFloat(e.target.value) }
+                          setReceiptLines(newLines)
+                        }}
+                        className="w-24 px-2 py-1 border rounded text-center"
+                      />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={receiveGoods}
+                disabled={receiptLines.every(line => line.quantity <= 0)}
+                className="flex-1 bg-green-500 text-white py-2 rounded-lg hover:bg-green-600 disabled:opacity-50"
+              >
+                Teslim Al
+              </button>
+              <button
+                onClick={() => setReceivingOrder(null)}
+                className="flex-1 bg-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-400"
+              >
+                İptal
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Summary */}
       <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-blue-50 p-4 rounded-lg">
@@ -461,7 +1061,11 @@ export default function SupplierManager() {
         <div className="bg-green-50 p-4 rounded-lg">
           <h4 className="font-semibold text-green-800">Aktif Sipariş</h4>
           <p className="text-2xl font-bold text-green-600">
-            {supplierOrders.filter(o => o.status === 'PENDING').length}
+            {supplierOrders.filter(o =>
+              o.status === SUPPLIER_ORDER_STATUS.PENDING ||
+              o.status === SUPPLIER_ORDER_STATUS.ORDERED ||
+              o.status === SUPPLIER_ORDER_STATUS.PARTIALLY_RECEIVED
+            ).length}
           </p>
         </div>
       </div>
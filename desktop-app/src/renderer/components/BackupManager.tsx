@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react'
+import { BackupAPI } from '../services/api'
+import { getMainProcessApi } from '../services/mainProcess'
+import { useAppStore } from '../stores/appStore'
+import { BackupInfo, RestorePreview, RestoreResult } from '../types'
+
+const TABLE_LABELS: Record<string, string> = {
+  suppliers: 'Tedarikçiler',
+  raw_materials: 'Hammaddeler',
+  products: 'Ürünler',
+  product_recipes: 'Reçeteler',
+  orders: 'Siparişler',
+  order_items: 'Sipariş Kalemleri',
+  stock_movements: 'Stok Hareketleri',
+  supplier_orders: 'Tedarikçi Siparişleri'
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+const formatDate = (value: string) => new Date(value).toLocaleString('tr-TR')
+
+export const BackupManager: React.FC = () => {
+  const [backups, setBackups] = useState<BackupInfo[]>([])
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [preview, setPreview] = useState<RestorePreview | null>(null)
+  const [selectedTables, setSelectedTables] = useState<string[]>([])
+  const [deleteMissing, setDeleteMissing] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [result, setResult] = useState<RestoreResult | null>(null)
+  const available = getMainProcessApi() !== null
+
+  useEffect(() => {
+    if (available) loadBackups()
+  }, [])
+
+  // Son yedek tarihini ayarlara yaz
+  const rememberLatest = (list: BackupInfo[]) => {
+    const { settings, updateSettings } = useAppStore.getState()
+    const latest = list[0]?.manifest.created_at || null
+    if (latest !== settings.autoBackup.lastBackup) {
+      updateSettings({ autoBackup: { ...settings.autoBackup, lastBackup: latest } })
+    }
+  }
+
+  const loadBackups = async () => {
+    try {
+      setLoading(true)
+      const list = await BackupAPI.getBackups()
+      setBackups(list)
+      rememberLatest(list)
+    } catch (error) {
+      console.error('Yedekler yüklenirken hata:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const createBackup = async () => {
+    try {
+      setCreating(true)
+      await BackupAPI.createBackup()
+      await loadBackups()
+    } catch (error) {
+      alert(`Yedek alınamadı: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const openPreview = async (file: string) => {
+    try {
+      setLoading(true)
+      setResult(null)
+      const restorePreview = await BackupAPI.previewRestore(file)
+      setPreview(restorePreview)
+      // Varsayılan olarak yalnızca farkı olan tablolar seçilir
+      setSelectedTables(restorePreview.tables
+        .filter(t => t.added_ids.length + t.changed_ids.length + t.removed_ids.length > 0)
+        .map(t => t.table))
+      setDeleteMissing(false)
+    } catch (error) {
+      alert(`Yedek okunamadı: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleTable = (table: string) => {
+    setSelectedTables(prev => prev.includes(table) ? prev.filter(t => t !== table) : [...prev, table])
+  }
+
+  const restore = async () => {
+    if (!preview || selectedTables.length === 0) return
+    const message = deleteMissing
+      ? 'Seçilen tablolar yedekteki haline döndürülecek ve yedekte olmayan kayıtlar SİLİNECEK. Devam edilsin mi?'
+      : 'Seçilen tablolar yedekteki haline döndürülecek. Devam edilsin mi?'
+    if (!confirm(message)) return
+
+    try {
+      setRestoring(true)
+      setResult(await BackupAPI.restore(preview.file, selectedTables, deleteMissing))
+      setPreview(null)
+      await loadBackups()
+    } catch (error) {
+      alert(`Geri yükleme başarısız, değişiklikler geri alındı: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  if (!available) {
+    return (
+      <p className="text-sm text-gray-500">Yedekleme yalnızca masaüstü uygulamasında kullanılabilir.</p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Yedekler</h3>
+        <button
+          onClick={createBackup}
+          disabled={creating}
+          className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+        >
+          {creating ? '⏳ Yedekleniyor...' : '💾 Şimdi Yedekle'}
+        </button>
+      </div>
+
+      {result && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          <p className="font-medium mb-1">Geri yükleme tamamlandı. Önceki veriler ayrıca yedeklendi.</p>
+          {result.tables.map(t => (
+            <p key={t.table}>
+              {TABLE_LABELS[t.table] || t.table}: {t.written} kayıt yazıldı{t.deleted > 0 ? `, ${t.deleted} kayıt silindi` : ''}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {!preview && (
+        <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+          {loading && backups.length === 0 && <p className="p-3 text-sm text-gray-500">Yükleniyor...</p>}
+          {!loading && backups.length === 0 && <p className="p-3 text-sm text-gray-500">Henüz yedek yok.</p>}
+          {backups.map(backup => (
+            <div key={backup.file} className="p-3 flex items-center justify-between text-sm">
+              <div>
+                <p className="font-medium">{formatDate(backup.manifest.created_at)}</p>
+                <p className="text-xs text-gray-500">
+                  {formatSize(backup.size)} · {Object.values(backup.manifest.tables).reduce((sum, n) => sum + n, 0)} kayıt
+                </p>
+              </div>
+              <button
+                onClick={() => openPreview(backup.file)}
+                disabled={loading}
+                className="px-3 py-1 text-xs border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Geri Yükle...
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview && (
+        <div className="border rounded-lg p-4 space-y-3">
+          <div>
+            <h4 className="font-medium">Geri Yükleme Önizlemesi</h4>
+            <p className="text-xs text-gray-500">
+              {formatDate(preview.manifest.created_at)} tarihli yedek, bugünkü verilerle karşılaştırıldı.
+            </p>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="py-1"></th>
+                <th className="py-1">Tablo</th>
+                <th className="py-1 text-right">Eklenecek</th>
+                <th className="py-1 text-right">Değişecek</th>
+                <th className="py-1 text-right">Yedekte Yok</th>
+                <th className="py-1 text-right">Aynı</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.tables.map(diff => (
+                <tr key={diff.table} className="border-t">
+                  <td className="py-1">
+                    <input
+                      type="checkbox"
+                      checked={selectedTables.includes(diff.table)}
+                      onChange={() => toggleTable(diff.table)}
+                    />
+                  </td>
+                  <td className="py-1">{TABLE_LABELS[diff.table] || diff.table}</td>
+                  <td className="py-1 text-right text-green-700">{diff.added_ids.length}</td>
+                  <td className="py-1 text-right text-orange-700">{diff.changed_ids.length}</td>
+                  <td className="py-1 text-right text-red-700">{diff.removed_ids.length}</td>
+                  <td className="py-1 text-right text-gray-500">{diff.unchanged}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={deleteMissing}
+              onChange={(e) => setDeleteMissing(e.target.checked)}
+              className="mr-2"
+            />
+            Yedekte olmayan kayıtları da sil
+          </label>
+
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => setPreview(null)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Vazgeç
+            </button>
+            <button
+              onClick={restore}
+              disabled={restoring || selectedTables.length === 0}
+              className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              {restoring ? '⏳ Geri yükleniyor...' : 'Geri Yükle'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BackupManager
@@ -0,0 +1,493 @@
+import React, { useState, useEffect } from 'react'
+import { CustomerAPI } from '../services/api'
+import { CustomerOrderInput, normalizeName } from '../services/customerService'
+import { CustomerSummary, CustomerDuplicateGroup } from '../types'
+import {
+  RefreshIcon,
+  PlusIcon,
+  EditIcon,
+  SearchIcon,
+  UsersIcon,
+  LinkIcon,
+  XIcon
+} from './icons'
+
+const MATCH_LABELS: Record<'PHONE' | 'EMAIL' | 'NAME', string> = {
+  PHONE: 'Telefon',
+  EMAIL: 'E-posta',
+  NAME: 'Ad'
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Beklemede',
+  CONFIRMED: 'Onaylandı',
+  PROCESSING: 'Hazırlanıyor',
+  READY_TO_SHIP: 'Kargoya Hazır',
+  SHIPPED: 'Kargoda',
+  DELIVERED: 'Teslim Edildi',
+  CANCELLED: 'İptal',
+  REFUNDED: 'İade'
+}
+
+const formatMoney = (value: number) => `₺${value.toLocaleString('tr-TR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date?: string | null) =>
+  date ? new Date(date).toLocaleDateString('tr-TR') : '-'
+
+interface CustomerForm {
+  name: string
+  phone: string
+  email: string
+  notes: string
+  tags: string
+}
+
+const EMPTY_FORM: CustomerForm = { name: '', phone: '', email: '', notes: '', tags: '' }
+
+const parseTags = (value: string) => value.split(',').map(tag => tag.trim()).filter(Boolean)
+
+export const CustomerManager: React.FC = () => {
+  const [customers, setCustomers] = useState<CustomerSummary[]>([])
+  const [duplicates, setDuplicates] = useState<CustomerDuplicateGroup[]>([])
+  const [search, setSearch] = useState('')
+  const [tagFilter, setTagFilter] = useState('')
+  const [selected, setSelected] = useState<CustomerSummary | null>(null)
+  const [history, setHistory] = useState<CustomerOrderInput[]>([])
+  const [editing, setEditing] = useState<CustomerSummary | null>(null)
+  const [showModal, setShowModal] = useState(false)
+  const [form, setForm] = useState<CustomerForm>(EMPTY_FORM)
+  const [keepIds, setKeepIds] = useState<Record<number, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const list = await CustomerAPI.getCustomers()
+      setCustomers(list)
+      setDuplicates(await CustomerAPI.findDuplicates())
+      setSelected(current => (current ? list.find(customer => customer.id === current.id) || null : null))
+    } catch (error) {
+      console.error('Müşteriler yüklenirken hata:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCustomer = async (customer: CustomerSummary) => {
+    setSelected(customer)
+    setHistory([])
+    try {
+      setHistory(await CustomerAPI.getOrderHistory(customer.id))
+    } catch (error) {
+      console.error('Sipariş geçmişi yüklenirken hata:', error)
+    }
+  }
+
+  const openModal = (customer?: CustomerSummary) => {
+    setEditing(customer || null)
+    setForm(customer
+      ? {
+          name: customer.name,
+          phone: customer.phone || '',
+          email: customer.email || '',
+          notes: customer.notes || '',
+          tags: customer.tags.join(', ')
+        }
+      : EMPTY_FORM)
+    setShowModal(true)
+  }
+
+  const handleSave = async () => {
+    const input = { ...form, tags: parseTags(form.tags) }
+
+    try {
+      setWorking(true)
+      if (editing) {
+        await CustomerAPI.updateCustomer(editing.id, input)
+      } else {
+        const { customer, created } = await CustomerAPI.findOrCreate(input)
+        if (!created) {
+          alert(`Bu telefon veya e-posta zaten kayıtlı: ${customer.name}`)
+          return
+        }
+      }
+      setShowModal(false)
+      await loadData()
+    } catch (error) {
+      alert(`Müşteri kaydedilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleSync = async () => {
+    try {
+      setWorking(true)
+      const result = await CustomerAPI.syncFromOrders()
+      alert(
+        `${result.created} yeni müşteri oluşturuldu, ${result.linked} sipariş bağlandı` +
+        (result.skipped > 0 ? `\n${result.skipped} siparişte geçerli telefon veya e-posta yok` : '')
+      )
+      await loadData()
+    } catch (error) {
+      alert(`Siparişler aktarılamadı: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleMerge = async (group: CustomerDuplicateGroup, index: number) => {
+    const keepId = keepIds[index] || group.customers[0].id
+    const kept = group.customers.find(customer => customer.id === keepId)
+    const others = group.customers.filter(customer => customer.id !== keepId)
+    if (!kept || !confirm(`${others.map(c => c.name).join(', ')} kayıtları "${kept.name}" ile birleştirilsin mi?\nSiparişleri bu müşteriye taşınır.`)) {
+      return
+    }
+
+    try {
+      setWorking(true)
+      await CustomerAPI.merge(keepId, others.map(customer => customer.id))
+      setKeepIds({})
+      await loadData()
+    } catch (error) {
+      alert(`Müşteriler birleştirilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const allTags = Array.from(new Set(customers.flatMap(customer => customer.tags))).sort((a, b) => a.localeCompare(b, 'tr'))
+  const query = normalizeName(search)
+  const digits = search.replace(/\D/g, '')
+  const visible = customers
+    .filter(customer => !tagFilter || customer.tags.includes(tagFilter))
+    .filter(customer =>
+      !query ||
+      normalizeName(customer.name).includes(query) ||
+      (customer.email || '').includes(query) ||
+      (digits.length >= 3 && (customer.phone || '').includes(digits)))
+    .sort((a, b) => b.lifetime_value - a.lifetime_value || a.name.localeCompare(b.name, 'tr'))
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Müşteriler</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Müşteri kayıtları telefon ve e-postaya göre siparişlerden oluşturulur
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={loadData}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RefreshIcon className="h-4 w-4" />
+            Yenile
+          </button>
+          <button
+            onClick={handleSync}
+            disabled={working}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            <LinkIcon className="h-4 w-4" />
+            Siparişlerden Aktar
+          </button>
+          <button
+            onClick={() => openModal()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="h-4 w-4" />
+            Yeni Müşteri
+          </button>
+        </div>
+      </div>
+
+      {/* Duplicates */}
+      {duplicates.length > 0 && (
+        <div className="bg-white rounded-lg border border-yellow-300">
+          <div className="p-4 border-b border-yellow-200 bg-yellow-50 rounded-t-lg">
+            <h2 className="text-lg font-semibold text-gray-900">Olası Mükerrer Kayıtlar</h2>
+            <p className="text-xs text-gray-500">Korunacak kaydı seçin; diğerlerinin siparişleri, etiketleri ve notları ona taşınır</p>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {duplicates.map((group, index) => (
+              <div key={group.customers.map(c => c.id).join('-')} className="p-4 flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="text-xs text-gray-500">
+                    Eşleşme: {group.matched_on.map(reason => MATCH_LABELS[reason]).join(', ')}
+                  </p>
+                  {group.customers.map(customer => (
+                    <label key={customer.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="radio"
+                        name={`keep-${index}`}
+                        checked={(keepIds[index] || group.customers[0].id) === customer.id}
+                        onChange={() => setKeepIds({ ...keepIds, [index]: customer.id })}
+                      />
+                      <span className="font-medium text-gray-900">{customer.name}</span>
+                      <span className="text-gray-500">
+                        {[customer.phone, customer.email].filter(Boolean).join(' · ') || 'İletişim bilgisi yok'}
+                      </span>
+                      <span className="text-gray-400">{customer.order_count} sipariş</span>
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={() => handleMerge(group, index)}
+                  disabled={working}
+                  className="px-3 py-1.5 text-sm bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:opacity-50"
+                >
+                  Birleştir
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* List */}
+        <div className="lg:col-span-2 bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex gap-2">
+            <div className="relative flex-1">
+              <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Ad, telefon veya e-posta ile ara"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Tüm etiketler</option>
+              {allTags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          </div>
+          {visible.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 text-center">
+              {customers.length === 0 ? 'Henüz müşteri yok; siparişlerden aktarabilirsiniz' : 'Eşleşen müşteri yok'}
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Müşteri</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sipariş</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Toplam Değer</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Son Sipariş</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.map(customer => (
+                  <tr
+                    key={customer.id}
+                    onClick={() => openCustomer(customer)}
+                    className={`cursor-pointer hover:bg-blue-50 ${selected?.id === customer.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-4 py-2">
+                      <p className="font-medium text-gray-900">{customer.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {[customer.phone, customer.email].filter(Boolean).join(' · ')}
+                      </p>
+                      {customer.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {customer.tags.map(tag => (
+                            <span key={tag} className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-600">{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-700">{customer.order_count}</td>
+                    <td className="px-4 py-2 text-right font-medium text-gray-900">{formatMoney(customer.lifetime_value)}</td>
+                    <td className="px-4 py-2 text-right text-gray-500">{formatDate(customer.last_order_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Detail */}
+        <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+          {!selected ? (
+            <div className="text-center text-sm text-gray-500 py-12">
+              <UsersIcon className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+              Ayrıntılar için bir müşteri seçin
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+                  <p className="text-sm text-gray-500">{selected.phone || 'Telefon yok'}</p>
+                  <p className="text-sm text-gray-500">{selected.email || 'E-posta yok'}</p>
+                </div>
+                <div className="flex gap-1">
+                  <button onClick={() => openModal(selected)} className="p-1.5 text-gray-500 hover:text-blue-600" title="Düzenle">
+                    <EditIcon className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => setSelected(null)} className="p-1.5 text-gray-500 hover:text-gray-700" title="Kapat">
+                    <XIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="p-3 bg-blue-50 rounded-lg">
+                  <p className="text-xs text-blue-700">Toplam Değer</p>
+                  <p className="font-semibold text-gray-900">{formatMoney(selected.lifetime_value)}</p>
+                </div>
+                <div className="p-3 bg-green-50 rounded-lg">
+                  <p className="text-xs text-green-700">Ortalama Sipariş</p>
+                  <p className="font-semibold text-gray-900">{formatMoney(selected.average_order_value)}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-600">İlk Sipariş</p>
+                  <p className="font-semibold text-gray-900">{formatDate(selected.first_order_at)}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-600">Son Sipariş</p>
+                  <p className="font-semibold text-gray-900">{formatDate(selected.last_order_at)}</p>
+                </div>
+              </div>
+
+              {selected.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {selected.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-600">{tag}</span>
+                  ))}
+                </div>
+              )}
+
+              {selected.notes && (
+                <p className="text-sm text-gray-700 whitespace-pre-line p-3 bg-yellow-50 rounded-lg">{selected.notes}</p>
+              )}
+
+              <div>
+                <h3 className="font-medium text-gray-900 mb-2">Sipariş Geçmişi</h3>
+                {history.length === 0 ? (
+                  <p className="text-sm text-gray-500">Sipariş yok</p>
+                ) : (
+                  <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+                    {history.map(order => (
+                      <div key={order.id} className="py-2 flex items-center justify-between text-sm">
+                        <div>
+                          <p className="text-gray-900">#{order.orderNumber || order.id.slice(0, 8)}</p>
+                          <p className="text-xs text-gray-500">
+                            {formatDate(order.createdAt)} · {STATUS_LABELS[order.status || ''] || order.status}
+                          </p>
+                        </div>
+                        <span className="font-medium text-gray-900">
+                          {formatMoney((Number(order.totalAmount) || 0) - (Number(order.discount_amount) || 0))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Customer Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+            <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+              <h2 className="text-xl font-semibold">{editing ? 'Müşteriyi Düzenle' : 'Yeni Müşteri'}</h2>
+              <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
+                <XIcon className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ad Soyad *</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Telefon</label>
+                  <input
+                    value={form.phone}
+                    onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                    placeholder="05xx xxx xx xx"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">E-posta</label>
+                  <input
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Etiketler</label>
+                <input
+                  value={form.tags}
+                  onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                  placeholder="Virgülle ayırın, ör. toptan, kurumsal"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notlar</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-2">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                İptal
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={working || !form.name.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Kaydet
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CustomerManager
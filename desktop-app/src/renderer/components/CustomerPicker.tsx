@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react'
+import { CustomerAPI } from '../services/api'
+import { normalizeName } from '../services/customerService'
+import { Customer, CustomerSummary } from '../types'
+import { SearchIcon, PlusIcon, XIcon } from './icons'
+
+interface CustomerPickerProps {
+  value: string | null
+  onChange: (customer: Customer | null) => void
+  // Prefills the new customer form, e.g. with the details typed on an order
+  suggestion?: { name?: string; phone?: string; email?: string }
+}
+
+const EMPTY_FORM = { name: '', phone: '', email: '' }
+
+export const CustomerPicker: React.FC<CustomerPickerProps> = ({ value, onChange, suggestion }) => {
+  const [customers, setCustomers] = useState<CustomerSummary[]>([])
+  const [search, setSearch] = useState('')
+  const [open, setOpen] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadCustomers()
+  }, [])
+
+  const loadCustomers = async () => {
+    try {
+      setCustomers(await CustomerAPI.getCustomers())
+    } catch (error) {
+      console.error('Müşteriler yüklenirken hata:', error)
+    }
+  }
+
+  const selected = customers.find(customer => customer.id === value) || null
+  const query = normalizeName(search)
+  const digits = search.replace(/\D/g, '')
+  const matches = customers
+    .filter(customer =>
+      !query ||
+      normalizeName(customer.name).includes(query) ||
+      (customer.email || '').includes(query) ||
+      (digits.length >= 3 && (customer.phone || '').includes(digits)))
+    .slice(0, 8)
+
+  const startCreating = () => {
+    setForm({
+      name: suggestion?.name || search,
+      phone: suggestion?.phone || '',
+      email: suggestion?.email || ''
+    })
+    setCreating(true)
+    setOpen(false)
+  }
+
+  const handleCreate = async () => {
+    try {
+      setSaving(true)
+      const { customer, created } = await CustomerAPI.findOrCreate(form)
+      if (!created) {
+        alert(`Bu telefon veya e-posta ile kayıtlı müşteri seçildi: ${customer.name}`)
+      }
+      await loadCustomers()
+      onChange(customer)
+      setCreating(false)
+      setSearch('')
+    } catch (error) {
+      alert(`Müşteri kaydedilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (creating) {
+    return (
+      <div className="space-y-2 rounded-lg border border-gray-200 p-3 bg-white">
+        <input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Ad Soyad"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            value={form.phone}
+            onChange={(e) => setForm({ ...form, phone: e.target.value })}
+            placeholder="05xx xxx xx xx"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            placeholder="E-posta"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setCreating(false)}
+            className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            İptal
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={saving || !form.name.trim()}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Müşteriyi Kaydet
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (selected) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-2 bg-white text-sm">
+        <div>
+          <p className="font-medium text-gray-900">{selected.name}</p>
+          <p className="text-xs text-gray-500">
+            {[selected.phone, selected.email].filter(Boolean).join(' · ') || 'İletişim bilgisi yok'}
+            {' · '}{selected.order_count} sipariş
+          </p>
+        </div>
+        <button onClick={() => onChange(null)} className="text-gray-400 hover:text-gray-600" title="Müşteri bağlantısını kaldır">
+          <XIcon className="h-4 w-4" />
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setOpen(true) }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setTimeout(() => setOpen(false), 150)}
+            placeholder="Ad, telefon veya e-posta ile ara"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          onClick={startCreating}
+          className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+        >
+          <PlusIcon className="h-4 w-4" />
+          Yeni
+        </button>
+      </div>
+
+      {open && (
+        <div className="absolute z-10 mt-1 w-full max-h-60 overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg">
+          {matches.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500">Eşleşen müşteri yok</p>
+          ) : matches.map(customer => (
+            <button
+              key={customer.id}
+              onMouseDown={() => { onChange(customer); setSearch(''); setOpen(false) }}
+              className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+            >
+              <span className="font-medium text-gray-900">{customer.name}</span>
+              <span className="ml-2 text-xs text-gray-500">
+                {[customer.phone, customer.email].filter(Boolean).join(' · ')}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CustomerPicker
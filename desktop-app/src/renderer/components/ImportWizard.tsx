@@ -0,0 +1,274 @@
+import React, { useState } from 'react'
+import { ImportAPI } from '../services/api'
+import { IMPORT_DEFINITIONS, suggestMapping, ImportEncoding, ImportSheet, ImportMapping } from '../services/importService'
+import { IMPORT_TARGETS, IMPORT_CONFIG, ImportTarget } from '../constants'
+import { ImportReport, ImportCommitResult } from '../types'
+
+type Step = 'file' | 'mapping' | 'report' | 'done'
+
+const ENCODING_LABELS: Record<ImportEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1254': 'Windows-1254 (Türkçe)',
+  'utf-16le': 'UTF-16 (Unicode Metin)'
+}
+
+const ACTION_LABELS: Record<string, { label: string; className: string }> = {
+  insert: { label: 'Eklenecek', className: 'text-green-700' },
+  update: { label: 'Güncellenecek', className: 'text-orange-700' },
+  unchanged: { label: 'Aynı', className: 'text-gray-500' },
+  error: { label: 'Hatalı', className: 'text-red-700' }
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+export const ImportWizard: React.FC = () => {
+  const [step, setStep] = useState<Step>('file')
+  const [target, setTarget] = useState<ImportTarget>(IMPORT_TARGETS.MATERIALS)
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<ImportSheet | null>(null)
+  const [encoding, setEncoding] = useState<ImportEncoding | null>(null)
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [result, setResult] = useState<ImportCommitResult | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const definition = IMPORT_DEFINITIONS[target]
+
+  const reset = () => {
+    setStep('file')
+    setFileName('')
+    setSheet(null)
+    setEncoding(null)
+    setMapping({})
+    setReport(null)
+    setResult(null)
+    setError(null)
+  }
+
+  const readFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      setBusy(true)
+      setError(null)
+      const read = await ImportAPI.readFile(file)
+      if (read.sheet.rows.length === 0) {
+        throw new Error('Dosyada başlık satırından sonra veri yok')
+      }
+      setFileName(file.name)
+      setSheet(read.sheet)
+      setEncoding(read.encoding)
+      setMapping(suggestMapping(definition, read.sheet.headers))
+      setStep('mapping')
+    } catch (readError) {
+      setError(errorMessage(readError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const runDryRun = async () => {
+    if (!sheet) return
+    try {
+      setBusy(true)
+      setError(null)
+      setReport(await ImportAPI.dryRun(target, sheet, mapping))
+      setStep('report')
+    } catch (dryRunError) {
+      setError(errorMessage(dryRunError))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const commit = async () => {
+    if (!sheet || !report) return
+    if (!confirm(`${report.inserts} kayıt eklenecek, ${report.updates} kayıt güncellenecek. Devam edilsin mi?`)) return
+
+    try {
+      setBusy(true)
+      setError(null)
+      setResult(await ImportAPI.commit(target, sheet, mapping))
+      setStep('done')
+    } catch (commitError) {
+      setError(`İçe aktarma başarısız, değişiklikler geri alındı: ${errorMessage(commitError)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const mappedRequired = definition.fields.every(field => !field.required || (mapping[field.field] ?? null) !== null)
+  const changedRows = report?.rows.filter(row => row.action !== 'unchanged') || []
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {step === 'file' && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Ne içe aktarılacak?</label>
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value as ImportTarget)}
+              className="w-full px-3 py-2 border rounded-lg"
+            >
+              {Object.values(IMPORT_DEFINITIONS).map(entry => (
+                <option key={entry.target} value={entry.target}>{entry.label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="block px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg text-center cursor-pointer hover:bg-gray-50">
+            <span className="text-sm font-medium">{busy ? '⏳ Dosya okunuyor...' : '📁 CSV dosyası seçin'}</span>
+            <span className="block text-xs text-gray-500 mt-1">
+              Excel dosyalarını "CSV" veya "Unicode Metin" olarak kaydedin. Türkçe karakterler otomatik tanınır.
+            </span>
+            <input type="file" accept=".csv,.txt,.tsv" onChange={readFile} disabled={busy} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      {step === 'mapping' && sheet && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            <strong>{fileName}</strong> · {sheet.rows.length} satır · {encoding && ENCODING_LABELS[encoding]}
+          </p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="py-1">Alan</th>
+                <th className="py-1">Dosyadaki Sütun</th>
+                <th className="py-1">Örnek</th>
+              </tr>
+            </thead>
+            <tbody>
+              {definition.fields.map(field => {
+                const column = mapping[field.field] ?? null
+                const samples = column === null
+                  ? []
+                  : sheet.rows.slice(0, IMPORT_CONFIG.PREVIEW_ROWS).map(row => row.cells[column] || '').filter(Boolean)
+                return (
+                  <tr key={field.field} className="border-t">
+                    <td className="py-1 pr-2">
+                      {field.label}{field.required && <span className="text-red-600"> *</span>}
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={column === null ? '' : String(column)}
+                        onChange={(e) => setMapping({ ...mapping, [field.field]: e.target.value === '' ? null : Number(e.target.value) })}
+                        className="w-full px-2 py-1 border rounded"
+                      >
+                        <option value="">— Aktarılmasın —</option>
+                        {sheet.headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Sütun ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1 text-xs text-gray-500 truncate max-w-xs">{samples.join(', ')}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex gap-2 justify-end">
+            <button onClick={reset} className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+              Vazgeç
+            </button>
+            <button
+              onClick={runDryRun}
+              disabled={busy || !mappedRequired}
+              className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              {busy ? '⏳ Kontrol ediliyor...' : 'Deneme Çalıştır'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'report' && report && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-4 gap-2 text-center text-sm">
+            <div className="p-2 bg-green-50 rounded-lg"><p className="text-lg font-bold text-green-700">{report.inserts}</p>Eklenecek</div>
+            <div className="p-2 bg-orange-50 rounded-lg"><p className="text-lg font-bold text-orange-700">{report.updates}</p>Güncellenecek</div>
+            <div className="p-2 bg-gray-50 rounded-lg"><p className="text-lg font-bold text-gray-600">{report.unchanged}</p>Aynı</div>
+            <div className="p-2 bg-red-50 rounded-lg"><p className="text-lg font-bold text-red-700">{report.errors}</p>Hatalı</div>
+          </div>
+
+          {changedRows.length > 0 && (
+            <div className="border rounded-lg max-h-72 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="p-2">Satır</th>
+                    <th className="p-2">İşlem</th>
+                    <th className="p-2">Kayıt</th>
+                    <th className="p-2">Ayrıntı</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changedRows.map(row => (
+                    <tr key={row.line} className="border-t align-top">
+                      <td className="p-2 text-gray-500">{row.line}</td>
+                      <td className={`p-2 ${ACTION_LABELS[row.action].className}`}>{ACTION_LABELS[row.action].label}</td>
+                      <td className="p-2">{row.key || '—'}</td>
+                      <td className="p-2 text-xs">
+                        {row.action === 'error'
+                          ? row.errors.join('; ')
+                          : row.action === 'update'
+                            ? Object.keys(row.values).map(column => `${column}: ${row.previous[column] ?? '—'} → ${row.values[column]}`).join('; ')
+                            : ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {report.errors > 0 && (
+            <p className="text-xs text-gray-500">Hatalı satırlar aktarılmaz; dosyayı düzeltip yeniden yükleyebilirsiniz.</p>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setStep('mapping')} className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+              Geri
+            </button>
+            <button
+              onClick={commit}
+              disabled={busy || report.inserts + report.updates === 0}
+              className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {busy ? '⏳ Aktarılıyor...' : 'İçe Aktar'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="space-y-3">
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            <p className="font-medium">İçe aktarma tamamlandı.</p>
+            <p>
+              {result.inserted} kayıt eklendi, {result.updated} kayıt güncellendi, {result.unchanged} kayıt zaten günceldi
+              {result.skipped > 0 ? `, ${result.skipped} hatalı satır atlandı` : ''}.
+            </p>
+          </div>
+          <div className="flex justify-end">
+            <button onClick={reset} className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+              Yeni İçe Aktarma
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ImportWizard
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react'
+import { StockAPI } from '../services/api'
+import { LedgerDiscrepancy } from '../types'
+import { XIcon, CheckIcon, SpinnerIcon, ExclamationTriangleIcon } from './icons'
+
+interface LedgerCheckModalProps {
+  onClose: () => void
+  onFixed?: () => void
+}
+
+const formatQuantity = (value: number) => Number(value.toFixed(3)).toLocaleString('tr-TR')
+
+export const LedgerCheckModal: React.FC<LedgerCheckModalProps> = ({ onClose, onFixed }) => {
+  const [discrepancies, setDiscrepancies] = useState<LedgerDiscrepancy[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [fixing, setFixing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    runCheck()
+  }, [])
+
+  const runCheck = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await StockAPI.checkLedger()
+      setDiscrepancies(data)
+      setSelected(new Set(data.map(line => line.raw_material_id)))
+    } catch (error) {
+      console.error('Stok defteri kontrol edilirken hata:', error)
+      setError('Stok defteri kontrol edilemedi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggle = (materialId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(materialId)) {
+        next.delete(materialId)
+      } else {
+        next.add(materialId)
+      }
+      return next
+    })
+  }
+
+  const handleFix = async (mode: 'rebuild' | 'adjust') => {
+    const message = mode === 'rebuild'
+      ? `${selected.size} malzemenin stok miktarı hareket geçmişine göre yeniden hesaplanacak. Devam edilsin mi?`
+      : `${selected.size} malzeme için mevcut stoku koruyan düzeltme hareketi oluşturulacak. Devam edilsin mi?`
+    if (!confirm(message)) return
+
+    try {
+      setFixing(true)
+      await StockAPI.fixLedger(Array.from(selected), mode)
+      onFixed?.()
+      await runCheck()
+    } catch (error) {
+      console.error('Stok defteri düzeltilirken hata:', error)
+      alert('Düzeltme sırasında hata oluştu! Hiçbir değişiklik yapılmadı.')
+    } finally {
+      setFixing(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Stok Defteri Kontrolü</h3>
+            <p className="text-sm text-gray-500">Kayıtlı stok ile stok hareketlerinin toplamı karşılaştırılır</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <SpinnerIcon className="animate-spin h-6 w-6 text-blue-500" />
+            </div>
+          ) : discrepancies.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              <CheckIcon className="h-8 w-8 mx-auto mb-2 text-green-500" />
+              <p className="text-sm">Tüm malzemelerin stoku hareket geçmişiyle uyumlu</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2"></th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Malzeme</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Kayıtlı Stok</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Hareketlere Göre</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fark</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Hareket</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {discrepancies.map(line => (
+                  <tr key={line.raw_material_id} className="hover:bg-gray-50">
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(line.raw_material_id)}
+                        onChange={() => toggle(line.raw_material_id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{line.name}</td>
+                    <td className="px-4 py-2 text-right text-sm text-gray-900">
+                      {formatQuantity(line.cached_quantity)} {line.unit || ''}
+                    </td>
+                    <td className="px-4 py-2 text-right text-sm text-gray-900">{formatQuantity(line.ledger_quantity)}</td>
+                    <td className={`px-4 py-2 text-right text-sm font-semibold ${line.difference < 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                      {line.difference > 0 ? '+' : ''}{formatQuantity(line.difference)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-sm text-gray-500">{line.movement_count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {discrepancies.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-200">
+            <div className="flex items-start gap-2 mb-3 text-xs text-gray-600">
+              <ExclamationTriangleIcon className="h-4 w-4 text-yellow-500 flex-shrink-0" />
+              <span>
+                Yeniden hesaplama kayıtlı stoku hareketlerin toplamına eşitler. Düzeltme hareketi ise kayıtlı stoku
+                korur ve farkı ADJUSTMENT hareketi olarak deftere ekler.
+              </span>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => handleFix('rebuild')}
+                disabled={fixing || selected.size === 0}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Stoku Yeniden Hesapla
+              </button>
+              <button
+                onClick={() => handleFix('adjust')}
+                disabled={fixing || selected.size === 0}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                Düzeltme Hareketi Oluştur
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LedgerCheckModal
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { MaterialPriceAPI, StockAPI } from '../services/api'
+import { MATERIAL_PRICE_SOURCES, MaterialPriceSource } from '../constants'
+import { MaterialPriceChange, PriceImpactReport } from '../types'
+import { AlertTriangleIcon, TrendingUpIcon } from './icons'
+
+interface MaterialPricePanelProps {
+  materialId: string
+  unit: string
+  currentPrice: number
+  onChanged?: (price: number) => void
+}
+
+const SOURCE_LABELS: Record<MaterialPriceSource, string> = {
+  MANUAL: 'Elle',
+  GOODS_RECEIPT: 'Mal kabul',
+  IMPORT: 'İçe aktarma'
+}
+
+const formatMoney = (value: number) => `₺${value.toFixed(2)}`
+const formatPercent = (value: number | null) => (value === null ? '-' : `%${value.toFixed(1)}`)
+
+export const MaterialPricePanel: React.FC<MaterialPricePanelProps> = ({ materialId, unit, currentPrice, onChanged }) => {
+  const [history, setHistory] = useState<MaterialPriceChange[]>([])
+  const [suppliers, setSuppliers] = useState<Array<{ id: string; name: string }>>([])
+  const [newPrice, setNewPrice] = useState(currentPrice)
+  const [supplierId, setSupplierId] = useState('')
+  const [impact, setImpact] = useState<PriceImpactReport | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setNewPrice(currentPrice)
+    setImpact(null)
+    loadHistory()
+    loadSuppliers()
+  }, [materialId])
+
+  const loadHistory = async () => {
+    try {
+      setHistory(await MaterialPriceAPI.getHistory(materialId))
+    } catch (error) {
+      console.error('Fiyat geçmişi yüklenirken hata:', error)
+    }
+  }
+
+  const loadSuppliers = async () => {
+    try {
+      setSuppliers(await StockAPI.getSuppliers())
+    } catch (error) {
+      console.error('Tedarikçiler yüklenirken hata:', error)
+    }
+  }
+
+  const showImpact = async (oldPrice: number, price: number) => {
+    try {
+      setImpact(await MaterialPriceAPI.getImpact(materialId, oldPrice, price))
+    } catch (error) {
+      console.error('Fiyat etkisi hesaplanırken hata:', error)
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const change = await MaterialPriceAPI.changePrice(materialId, {
+        price: newPrice,
+        supplier_id: supplierId || null,
+        source: MATERIAL_PRICE_SOURCES.MANUAL
+      })
+      if (!change) {
+        alert('Fiyat değişmedi')
+        return
+      }
+      await loadHistory()
+      await showImpact(change.old_price ?? 0, change.new_price)
+      onChanged?.(change.new_price)
+    } catch (error) {
+      console.error('Fiyat kaydedilirken hata:', error)
+      alert(`Fiyat kaydedilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const supplierName = (id: string | null) => suppliers.find(s => s.id === id)?.name || '-'
+
+  const chartData = history.map(entry => ({
+    date: new Date(entry.changed_at).toLocaleDateString('tr-TR'),
+    price: entry.new_price
+  }))
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-3 text-sm space-y-3">
+      <div className="font-medium text-gray-900 flex items-center gap-2">
+        <TrendingUpIcon className="h-4 w-4" />
+        Fiyat Geçmişi
+        <span className="text-xs font-normal text-gray-500">(güncel {formatMoney(currentPrice)} / {unit})</span>
+      </div>
+
+      {chartData.length > 0 ? (
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="date" tick={{ fontSize: 11 }} stroke="#666" />
+              <YAxis tick={{ fontSize: 11 }} stroke="#666" tickFormatter={(value) => `₺${value}`} />
+              <Tooltip formatter={(value: number) => [formatMoney(value), 'Fiyat']} />
+              <Line type="stepAfter" dataKey="price" stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-gray-500">Henüz fiyat kaydı yok</p>
+      )}
+
+      {history.length > 0 && (
+        <div className="max-h-32 overflow-y-auto space-y-1">
+          {[...history].reverse().map(entry => (
+            <div key={entry.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+              <div>
+                <span className="text-gray-900">{new Date(entry.changed_at).toLocaleDateString('tr-TR')}</span>
+                <span className="ml-2 text-gray-500">{supplierName(entry.supplier_id)}</span>
+                <span className="ml-2 text-xs text-gray-400">{SOURCE_LABELS[entry.source] || entry.source}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-700">
+                  {entry.old_price === null ? '-' : formatMoney(entry.old_price)} → {formatMoney(entry.new_price)}
+                </span>
+                {entry.old_price !== null && (
+                  <button
+                    onClick={() => showImpact(entry.old_price as number, entry.new_price)}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    Etki
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={newPrice || ''}
+          onChange={(e) => setNewPrice(parseFloat(e.target.value) || 0)}
+          placeholder="Yeni fiyat"
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={supplierId}
+          onChange={(e) => setSupplierId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Tedarikçi seçin</option>
+          {suppliers.map(supplier => (
+            <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => showImpact(currentPrice, newPrice)}
+          disabled={newPrice === currentPrice}
+          className="flex-1 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          Etkiyi Gör
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || newPrice === currentPrice}
+          className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          Fiyatı Kaydet
+        </button>
+      </div>
+
+      {impact && (
+        <div className="border-t border-gray-200 pt-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-gray-900">
+              Etki Raporu: {formatMoney(impact.old_price)} → {formatMoney(impact.new_price)}
+            </span>
+            {impact.below_target_count > 0 && (
+              <span className="flex items-center gap-1 text-red-700">
+                <AlertTriangleIcon className="h-4 w-4" />
+                {impact.below_target_count} ürün hedef marjın altında
+              </span>
+            )}
+          </div>
+          {impact.lines.length === 0 ? (
+            <p className="text-gray-500">Bu malzemeyi kullanan ürün yok</p>
+          ) : (
+            <div className="max-h-48 overflow-y-auto">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium text-gray-500 uppercase">Ürün</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500 uppercase">Maliyet</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500 uppercase">Artış</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500 uppercase">Marj</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500 uppercase">Hedef</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {impact.lines.map(line => (
+                    <tr key={line.product_id} className={line.below_target ? 'bg-red-50' : ''}>
+                      <td className="px-2 py-1 text-gray-900">{line.product_name}</td>
+                      <td className="px-2 py-1 text-right text-gray-700">
+                        {formatMoney(line.old_cost)} → {formatMoney(line.new_cost)}
+                      </td>
+                      <td className={`px-2 py-1 text-right font-medium ${line.cost_increase > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {line.cost_increase > 0 ? '+' : ''}{formatMoney(line.cost_increase)}
+                      </td>
+                      <td className="px-2 py-1 text-right text-gray-700">
+                        {formatPercent(line.old_margin_percent)} → {formatPercent(line.new_margin_percent)}
+                      </td>
+                      <td className={`px-2 py-1 text-right ${line.below_target ? 'text-red-700 font-medium' : 'text-gray-500'}`}>
+                        {formatPercent(line.target_margin_percent)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default MaterialPricePanel
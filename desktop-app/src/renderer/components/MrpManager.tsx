@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react'
+import { MrpAPI, StockAPI, Supplier } from '../services/api'
+import { MrpLine } from '../types'
+import {
+  RefreshIcon,
+  ExclamationTriangleIcon,
+  CheckIcon,
+  ShoppingCartIcon,
+  ChevronDownIcon,
+  ChevronRightIcon
+} from './icons'
+
+const formatQuantity = (value: number) => Number(value.toFixed(3)).toLocaleString('tr-TR')
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('tr-TR') : '-'
+
+export const MrpManager: React.FC = () => {
+  const [lines, setLines] = useState<MrpLine[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [onlyShortfalls, setOnlyShortfalls] = useState(false)
+  const [creating, setCreating] = useState<string | null>(null)
+  const [ordered, setOrdered] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [plan, supplierList] = await Promise.all([
+        MrpAPI.getPlan(),
+        StockAPI.getSuppliers()
+      ])
+      setLines(plan)
+      setSuppliers(supplierList)
+    } catch (error) {
+      console.error('MRP planı yüklenirken hata:', error)
+      setError('MRP planı yüklenemedi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleExpanded = (materialId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(materialId)) {
+        next.delete(materialId)
+      } else {
+        next.add(materialId)
+      }
+      return next
+    })
+  }
+
+  const handleCreateSupplierOrder = async (line: MrpLine) => {
+    try {
+      setCreating(line.raw_material_id)
+      await MrpAPI.createSupplierOrderForShortfall(line)
+      setOrdered(prev => new Set(prev).add(line.raw_material_id))
+    } catch (error) {
+      console.error('Tedarikçi siparişi oluşturulurken hata:', error)
+      alert('Tedarikçi siparişi oluşturulurken hata oluştu!')
+    } finally {
+      setCreating(null)
+    }
+  }
+
+  const supplierName = (supplierId: string | null) =>
+    suppliers.find(supplier => supplier.id === supplierId)?.name
+
+  const today = new Date().toISOString().slice(0, 10)
+  const visibleLines = onlyShortfalls ? lines.filter(line => line.shortfall > 0) : lines
+  const shortfallCount = lines.filter(line => line.shortfall > 0).length
+  const overdueCount = lines.filter(line => line.latest_order_date && line.latest_order_date < today).length
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Malzeme İhtiyaç Planı</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Bekleyen, onaylanan ve hazırlanan siparişlerin malzeme ihtiyacı
+          </p>
+        </div>
+        <button
+          onClick={loadData}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <RefreshIcon className="h-4 w-4" />
+          Yenile
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-4 rounded-lg border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Gereken Malzeme</p>
+          <p className="text-2xl font-bold text-gray-900">{lines.length}</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Eksik Malzeme</p>
+          <p className="text-2xl font-bold text-red-600">{shortfallCount}</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg border border-gray-200">
+          <p className="text-sm font-medium text-gray-600">Sipariş Tarihi Geçmiş</p>
+          <p className="text-2xl font-bold text-orange-600">{overdueCount}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">Malzemeler</h2>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={onlyShortfalls}
+              onChange={(e) => setOnlyShortfalls(e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            Sadece eksikler
+          </label>
+        </div>
+
+        {visibleLines.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            <CheckIcon className="h-8 w-8 mx-auto mb-2 text-green-500" />
+            <p className="text-sm">Açık siparişler için malzeme ihtiyacı yok</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Malzeme</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Brüt İhtiyaç</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Düşülen</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Eldeki</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Eksik</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Son Sipariş Tarihi</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">İşlemler</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleLines.map(line => {
+                  const isExpanded = expanded.has(line.raw_material_id)
+                  const isOverdue = !!line.latest_order_date && line.latest_order_date < today
+
+                  return (
+                    <React.Fragment key={line.raw_material_id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <button
+                            onClick={() => toggleExpanded(line.raw_material_id)}
+                            className="flex items-center gap-2 text-left"
+                          >
+                            {isExpanded
+                              ? <ChevronDownIcon className="h-4 w-4 text-gray-400" />
+                              : <ChevronRightIcon className="h-4 w-4 text-gray-400" />}
+                            <div>
+                              <div className="text-sm font-medium text-gray-900">{line.name}</div>
+                              <div className="text-xs text-gray-500">
+                                {supplierName(line.supplier_id) || 'Tedarikçi yok'} • {line.lead_time_days} gün tedarik
+                              </div>
+                            </div>
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                          {formatQuantity(line.gross_requirement)} {line.unit || ''}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
+                          {formatQuantity(line.issued)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                          {formatQuantity(line.on_hand)}
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-right text-sm font-semibold ${
+                          line.shortfall > 0 ? 'text-red-600' : 'text-green-600'
+                        }`}>
+                          {line.shortfall > 0 ? formatQuantity(line.shortfall) : '-'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {line.latest_order_date ? (
+                            <span className={`inline-flex items-center gap-1 ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                              {isOverdue && <ExclamationTriangleIcon className="h-4 w-4" />}
+                              {formatDate(line.latest_order_date)}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {line.shortfall > 0 && (
+                            ordered.has(line.raw_material_id) ? (
+                              <span className="text-green-600 text-xs font-medium">Sipariş oluşturuldu</span>
+                            ) : (
+                              <button
+                                onClick={() => handleCreateSupplierOrder(line)}
+                                disabled={!line.supplier_id || creating === line.raw_material_id}
+                                title={line.supplier_id ? 'Eksik miktar için tedarikçi siparişi oluştur' : 'Malzemenin tedarikçisi yok'}
+                                className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white text-xs rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                              >
+                                <ShoppingCartIcon className="h-3 w-3" />
+                                Sipariş Ver
+                              </button>
+                            )
+                          )}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={7} className="px-12 py-3">
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-gray-500">
+                                  <th className="text-left py-1">Sipariş</th>
+                                  <th className="text-left py-1">Durum</th>
+                                  <th className="text-right py-1">Miktar</th>
+                                  <th className="text-left py-1 pl-6">Teslim Tarihi</th>
+                                  <th className="text-left py-1">Sipariş Verilmeli</th>
+                                  <th className="text-left py-1">Karşılanıyor</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {line.demands.map(demand => (
+                                  <tr key={demand.order_id} className="text-gray-700">
+                                    <td className="py-1">{demand.orderNumber}</td>
+                                    <td className="py-1">{demand.status}</td>
+                                    <td className="py-1 text-right">{formatQuantity(demand.quantity)}</td>
+                                    <td className="py-1 pl-6">{formatDate(demand.deadline_date)}</td>
+                                    <td className="py-1">{demand.issued ? '-' : formatDate(demand.order_by_date)}</td>
+                                    <td className="py-1">
+                                      {demand.issued ? (
+                                        <span className="text-gray-500">Stoktan düşüldü</span>
+                                      ) : demand.covered ? (
+                                        <span className="text-green-600">Evet</span>
+                                      ) : (
+                                        <span className="text-red-600 font-medium">Hayır</span>
+                                      )}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MrpManager
@@ -20,13 +20,19 @@ import {
   ShoppingCartIcon,
   TrendingUpIcon,
   ChevronDownIcon,
-  ChevronRightIcon
+  ChevronRightIcon,
+  EditIcon
 } from './icons/index'
+import { OrderAPI } from '../services/api'
+import { OrderStatusHistoryEntry } from '../types'
+import { getAllowedTransitions, getWorkflowState, ORDER_WORKFLOW_STATES } from '../services/orderWorkflow'
+import { OrderStatusType } from '../constants'
+import { OrderPaymentsPanel } from './OrderPaymentsPanel'
 
 interface Order {
   id: string
   orderNumber: string
-  status: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'READY_TO_SHIP' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED'
+  status: OrderStatusType
   totalAmount: number
   customerName: string
   customerEmail: string
@@ -50,6 +56,7 @@ interface Order {
   net_profit?: number
   profit_margin_percent?: number
   total_cost?: number
+  shipping_cost?: number
   
   // İlişkili veriler
   items?: OrderItem[]
@@ -76,14 +83,15 @@ interface OrderCardProps {
   orderItems: OrderItem[]
   isExpanded: boolean
   onToggleExpansion: () => void
-  onStatusUpdate: (orderId: string, newStatus: string, previousStatus?: string) => void
+  onStatusUpdate: (orderId: string, newStatus: string) => void
   onFieldUpdate: (orderId: string, field: string, value: any) => void
   onWhatsAppOpen: (phone: string, orderNumber: string, customerName: string) => void
   onUndoStatusChange: (orderId: string) => void
+  onEdit?: (orderId: string) => void
+  onPaymentsChanged?: () => void
   formatDate: (dateString: string) => string
   getStatusColor: (status: string) => string
   getStatusText: (status: string) => string
-  getNextStatus: (currentStatus: string) => string | null
 }
 
 export const OrderCard: React.FC<OrderCardProps> = ({
@@ -95,67 +103,37 @@ export const OrderCard: React.FC<OrderCardProps> = ({
   onFieldUpdate,
   onWhatsAppOpen,
   onUndoStatusChange,
+  onEdit,
+  onPaymentsChanged,
   formatDate,
   getStatusColor,
-  getStatusText,
-  getNextStatus
+  getStatusText
 }) => {
   const [isDetailsExpanded, setIsDetailsExpanded] = useState(false)
   const [isStatusDropdownOpen, setIsStatusDropdownOpen] = useState(false)
-  const nextStatus = getNextStatus(order.status)
-  
-  // Status-based styling
-  const getStatusConfig = (status: string) => {
-    switch (status) {
-      case 'PENDING':
-        return { bg: 'from-amber-50 to-orange-50', border: 'border-amber-200', accent: 'text-amber-600', icon: '⏳' }
-      case 'CONFIRMED':
-        return { bg: 'from-blue-50 to-cyan-50', border: 'border-blue-200', accent: 'text-blue-600', icon: '✅' }
-      case 'PROCESSING':
-        return { bg: 'from-indigo-50 to-purple-50', border: 'border-indigo-200', accent: 'text-indigo-600', icon: '⚙️' }
-      case 'READY_TO_SHIP':
-        return { bg: 'from-emerald-50 to-teal-50', border: 'border-emerald-200', accent: 'text-emerald-600', icon: '📦' }
-      case 'SHIPPED':
-        return { bg: 'from-violet-50 to-purple-50', border: 'border-violet-200', accent: 'text-violet-600', icon: '🚚' }
-      case 'DELIVERED':
-        return { bg: 'from-green-50 to-emerald-50', border: 'border-green-200', accent: 'text-green-600', icon: '🎉' }
-      case 'CANCELLED':
-        return { bg: 'from-red-50 to-rose-50', border: 'border-red-200', accent: 'text-red-600', icon: '❌' }
-      default:
-        return { bg: 'from-gray-50 to-slate-50', border: 'border-gray-200', accent: 'text-gray-600', icon: '📋' }
-    }
-  }
+  const [statusHistory, setStatusHistory] = useState<OrderStatusHistoryEntry[]>([])
 
-  const statusConfig = getStatusConfig(order.status)
+  const statusConfig = getWorkflowState(order.status)
 
   const toggleDetails = () => {
     setIsDetailsExpanded(!isDetailsExpanded)
   }
 
-  // Tüm olası durum adımları
-  const getAllPossibleStatuses = (currentStatus: string) => {
-    const allStatuses = [
-      { value: 'PENDING', label: 'Onay Sürecinde', icon: '⏳' },
-      { value: 'CONFIRMED', label: 'Onaylandı', icon: '✅' },
-      { value: 'PROCESSING', label: 'İşleniyor', icon: '⚙️' },
-      { value: 'READY_TO_SHIP', label: 'Kargoya Hazır', icon: '📦' },
-      { value: 'SHIPPED', label: 'Kargoda', icon: '🚚' },
-      { value: 'DELIVERED', label: 'Teslim Edildi', icon: '🎉' },
-      { value: 'CANCELLED', label: 'İptal Edildi', icon: '❌' }
-    ]
-    
-    // Mevcut durumdan sonraki tüm durumları döndür
-    const currentIndex = allStatuses.findIndex(s => s.value === currentStatus)
-    const result = currentIndex >= 0 ? allStatuses.slice(currentIndex + 1) : []
-    
-    console.log('Current status:', currentStatus)
-    console.log('Current index:', currentIndex)
-    console.log('Possible next statuses:', result)
-    
-    return result
-  }
+  // İş akışında mevcut durumdan gidilebilen durumlar
+  const possibleNextStatuses = getAllowedTransitions(order.status).map(transition => ({
+    value: transition.to,
+    label: ORDER_WORKFLOW_STATES[transition.to].label,
+    icon: ORDER_WORKFLOW_STATES[transition.to].icon
+  }))
+
+  // Detaylar açıkken durum geçmişini yükle (durum değişince yenilenir)
+  useEffect(() => {
+    if (!isDetailsExpanded) return
 
-  const possibleNextStatuses = getAllPossibleStatuses(order.status)
+    OrderAPI.getStatusHistory(order.id)
+      .then(setStatusHistory)
+      .catch(error => console.error('Durum geçmişi yüklenirken hata:', error))
+  }, [isDetailsExpanded, order.id, order.status])
 
   // Dropdown dışına tıklandığında kapat
   useEffect(() => {
@@ -178,7 +156,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({
     <div 
       className={`
         group relative overflow-hidden
-        bg-gradient-to-br ${statusConfig.bg}
+        bg-gradient-to-br ${statusConfig.surface}
         backdrop-blur-sm border ${statusConfig.border}
         rounded-2xl shadow-xl
         transition-all duration-300 ease-out
@@ -186,7 +164,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({
       `}
     >
       {/* Status Indicator Line */}
-      <div className={`absolute top-0 left-0 right-0 h-2 bg-gradient-to-r ${statusConfig.bg} ${statusConfig.border}`} />
+      <div className={`absolute top-0 left-0 right-0 h-2 bg-gradient-to-r ${statusConfig.surface} ${statusConfig.border}`} />
       
       {/* Main Content */}
       <div className="relative p-6">
@@ -284,6 +262,27 @@ export const OrderCard: React.FC<OrderCardProps> = ({
                 </button>
               )}
 
+              {/* Edit Button (pending orders only) */}
+              {onEdit && order.status === 'PENDING' && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onEdit(order.id)
+                  }}
+                  className="
+                    flex items-center space-x-1
+                    h-8 px-3 bg-blue-500 
+                    text-white rounded-lg shadow-sm
+                    transition-all duration-200
+                    text-xs font-medium
+                    border-0
+                  "
+                >
+                  <EditIcon className="w-3 h-3" />
+                  <span>Düzenle</span>
+                </button>
+              )}
+
               {/* Undo Button */}
               <button
                 onClick={(e) => {
@@ -337,7 +336,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({
                               e.stopPropagation()
                               console.log('Updating status to:', status.value, 'for order:', order.id)
                               if (status.value && status.value.trim() !== '') {
-                                onStatusUpdate(order.id, status.value, order.status)
+                                onStatusUpdate(order.id, status.value)
                                 setIsStatusDropdownOpen(false)
                               } else {
                                 console.error('Invalid status value:', status.value)
@@ -616,6 +615,38 @@ export const OrderCard: React.FC<OrderCardProps> = ({
               </div>
             )}
 
+            {/* Status History */}
+            <div className="bg-white/80 rounded-xl border border-gray-200/50 p-6 shadow-sm">
+              <div className="flex items-center space-x-2 mb-4">
+                <ClockIcon className="w-5 h-5 text-indigo-600" />
+                <h4 className="text-lg font-bold text-gray-800">Durum Geçmişi</h4>
+              </div>
+
+              {statusHistory.length > 0 ? (
+                <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                  {statusHistory.map((entry) => (
+                    <li key={entry.id} className="ml-4">
+                      <div className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${entry.undo_of ? 'bg-orange-400' : 'bg-indigo-500'}`} />
+                      <p className={`text-sm font-medium ${entry.undone_at ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                        {getStatusText(entry.from_status)} → {getStatusText(entry.to_status)}
+                        {entry.undo_of && <span className="ml-2 text-xs text-orange-600">(geri alma)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(entry.changed_at)}
+                        {entry.changed_by && ` · ${entry.changed_by}`}
+                        {entry.movement_ids?.length > 0 && ` · ${entry.movement_ids.length} stok hareketi`}
+                      </p>
+                      {entry.note && !entry.undo_of && (
+                        <p className="text-xs text-gray-600 mt-1">{entry.note}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-sm text-gray-500">Henüz kayıtlı durum değişikliği yok</p>
+              )}
+            </div>
+
             {/* Admin Notes and Quick Edit */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Admin Notes */}
@@ -644,16 +675,6 @@ export const OrderCard: React.FC<OrderCardProps> = ({
                   <h4 className="text-lg font-bold text-blue-800">Hızlı Düzenleme</h4>
                 </div>
                 <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <Label className="text-sm font-semibold text-blue-700 mb-2 block">Alınan (₺)</Label>
-                    <Input
-                      type="number"
-                      step="0.01"
-                      defaultValue={order.amount_received || 0}
-                      className="h-10 text-sm bg-white/60 border-blue-200/50 focus:ring-1 focus:ring-blue-500/20"
-                      onChange={(e) => onFieldUpdate(order.id, 'amount_received', parseFloat(e.target.value) || 0)}
-                    />
-                  </div>
                   <div>
                     <Label className="text-sm font-semibold text-blue-700 mb-2 block">İskonto (₺)</Label>
                     <Input
@@ -665,28 +686,21 @@ export const OrderCard: React.FC<OrderCardProps> = ({
                     />
                   </div>
                   <div>
-                    <Label className="text-sm font-semibold text-blue-700 mb-2 block">İşçilik (₺)</Label>
+                    <Label className="text-sm font-semibold text-blue-700 mb-2 block">Kargo Maliyeti (₺)</Label>
                     <Input
                       type="number"
                       step="0.01"
-                      defaultValue={order.labor_cost || 0}
+                      defaultValue={order.shipping_cost || 0}
                       className="h-10 text-sm bg-white/60 border-blue-200/50 focus:ring-1 focus:ring-blue-500/20"
-                      onChange={(e) => onFieldUpdate(order.id, 'labor_cost', parseFloat(e.target.value) || 0)}
-                    />
-                  </div>
-                  <div>
-                    <Label className="text-sm font-semibold text-blue-700 mb-2 block">Maliyet (₺)</Label>
-                    <Input
-                      type="number"
-                      step="0.01"
-                      defaultValue={order.total_cost || 0}
-                      className="h-10 text-sm bg-white/60 border-blue-200/50 focus:ring-1 focus:ring-blue-500/20"
-                      onChange={(e) => onFieldUpdate(order.id, 'total_cost', parseFloat(e.target.value) || 0)}
+                      onChange={(e) => onFieldUpdate(order.id, 'shipping_cost', parseFloat(e.target.value) || 0)}
                     />
                   </div>
                 </div>
               </div>
             </div>
+
+            {/* Payments */}
+            <OrderPaymentsPanel order={order} onChanged={onPaymentsChanged} />
           </div>
         )}
       </div>
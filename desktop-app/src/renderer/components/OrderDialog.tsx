@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/Dialog'
 import { Button } from './ui/Button'
 import { Badge } from './ui/Badge'
@@ -20,15 +20,22 @@ import {
   ChevronDownIcon,
   ChevronRightIcon
 } from './icons/index'
+import { OrderAPI } from '../services/api'
+import { MaterialShortage } from '../services/bomService'
+import { OrderCostBreakdown } from '../types'
+import { OrderPaymentsPanel } from './OrderPaymentsPanel'
+import { CustomerPicker } from './CustomerPicker'
+import { OrderStatusType } from '../constants'
 
 interface Order {
   id: string
   orderNumber: string
-  status: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'READY_TO_SHIP' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED'
+  status: OrderStatusType
   totalAmount: number
   customerName: string
   customerEmail: string
   customerPhone?: string
+  customer_id?: string | null
   shippingAddress?: string
   shippingCity?: string
   shippingCountry?: string
@@ -47,7 +54,10 @@ interface Order {
   labor_cost?: number
   net_profit?: number
   profit_margin_percent?: number
+  profit_margin_percent_2?: number
   total_cost?: number
+  shipping_cost?: number
+  cost_frozen_at?: string | null
 }
 
 interface OrderItem {
@@ -71,6 +81,7 @@ interface OrderDialogProps {
   orderItems: OrderItem[]
   trigger: React.ReactNode
   onFieldUpdate: (orderId: string, field: string, value: any) => void
+  onPaymentsChanged?: () => void
   formatDate: (dateString: string) => string
   getStatusText: (status: string) => string
 }
@@ -80,38 +91,45 @@ export const OrderDialog: React.FC<OrderDialogProps> = ({
   orderItems,
   trigger,
   onFieldUpdate,
+  onPaymentsChanged,
   formatDate,
   getStatusText
 }) => {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [shortages, setShortages] = useState<MaterialShortage[]>([])
+  const [costing, setCosting] = useState<OrderCostBreakdown | null>(null)
+
+  // Bekleyen siparişlerde yarı mamuller dahil stok yeterliliğini kontrol et
+  useEffect(() => {
+    if (!isExpanded || order.status !== 'PENDING') {
+      setShortages([])
+      return
+    }
+
+    let cancelled = false
+    OrderAPI.getOrderShortages(order.id)
+      .then(result => { if (!cancelled) setShortages(result) })
+      .catch(error => console.error('Stok kontrolü yapılırken hata:', error))
+
+    return () => { cancelled = true }
+  }, [isExpanded, order.id, order.status])
+
+  // Maliyet dökümü; onaylanan siparişlerde onay anındaki fiyatlar kullanılır
+  useEffect(() => {
+    if (!isExpanded) return
+
+    let cancelled = false
+    OrderAPI.getOrderCosting(order.id)
+      .then(result => { if (!cancelled) setCosting(result) })
+      .catch(error => console.error('Maliyet hesaplanırken hata:', error))
+
+    return () => { cancelled = true }
+  }, [isExpanded, order.id, order.status, order.discount_amount, order.shipping_cost, order.totalAmount])
 
   const toggleExpansion = () => {
     setIsExpanded(!isExpanded)
   }
 
-  const getStatusConfig = (status: string) => {
-    switch (status) {
-      case 'PENDING':
-        return { bg: 'bg-yellow-100', text: 'text-yellow-800', icon: '⏳' }
-      case 'CONFIRMED':
-        return { bg: 'bg-blue-100', text: 'text-blue-800', icon: '✅' }
-      case 'PROCESSING':
-        return { bg: 'bg-indigo-100', text: 'text-indigo-800', icon: '⚙️' }
-      case 'READY_TO_SHIP':
-        return { bg: 'bg-emerald-100', text: 'text-emerald-800', icon: '📦' }
-      case 'SHIPPED':
-        return { bg: 'bg-violet-100', text: 'text-violet-800', icon: '🚚' }
-      case 'DELIVERED':
-        return { bg: 'bg-green-100', text: 'text-green-800', icon: '🎉' }
-      case 'CANCELLED':
-        return { bg: 'bg-red-100', text: 'text-red-800', icon: '❌' }
-      default:
-        return { bg: 'bg-gray-100', text: 'text-gray-800', icon: '📋' }
-    }
-  }
-
-  const statusConfig = getStatusConfig(order.status)
-
   return (
     <Dialog>
       <DialogTrigger asChild>
@@ -203,6 +221,22 @@ export const OrderDialog: React.FC<OrderDialogProps> = ({
                 )}
               </div>
 
+              {/* Stock Shortages */}
+              {shortages.length > 0 && (
+                <div className="p-4 bg-red-50/80 rounded-xl border border-red-200/50">
+                  <p className="text-sm font-bold text-red-800 mb-2">
+                    Stok yetersiz ({shortages.length} malzeme)
+                  </p>
+                  <ul className="space-y-1 text-xs text-red-700">
+                    {shortages.map(shortage => (
+                      <li key={shortage.raw_material_id}>
+                        • {shortage.name}: gereken {Number(shortage.required.toFixed(3))}, kullanılabilir {Number(shortage.available.toFixed(3))}, eksik {Number(shortage.shortfall.toFixed(3))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Products and Shipping - Side by Side */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Products */}
@@ -329,40 +363,90 @@ export const OrderDialog: React.FC<OrderDialogProps> = ({
                 </div>
               )}
 
-              {/* Profit Analysis */}
-              {(order.net_profit || order.profit_margin_percent) && (
+              {/* Cost Breakdown */}
+              {costing && (
                 <div className="bg-white/80 rounded-xl border border-gray-200/50 p-6 shadow-sm">
-                  <div className="flex items-center space-x-2 mb-4">
-                    <TrendingUpIcon className="w-5 h-5 text-purple-600" />
-                    <h4 className="text-lg font-bold text-gray-800">Kar Analizi</h4>
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    {order.net_profit && (
-                      <div className="p-4 bg-emerald-50/80 rounded-lg border border-emerald-200/50 text-center">
-                        <p className="text-xs font-medium text-emerald-700 mb-1">Net Kar</p>
-                        <p className="text-xl font-bold text-emerald-800">
-                          ₺{(order.net_profit || 0).toFixed(2)}
-                        </p>
-                      </div>
-                    )}
-                    
-                    {order.profit_margin_percent && (
-                      <div className="p-4 bg-purple-50/80 rounded-lg border border-purple-200/50 text-center">
-                        <p className="text-xs font-medium text-purple-700 mb-1">Kar Marjı</p>
-                        <p className="text-xl font-bold text-purple-800">
-                          %{(order.profit_margin_percent || 0).toFixed(1)}
-                        </p>
-                      </div>
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center space-x-2">
+                      <TrendingUpIcon className="w-5 h-5 text-purple-600" />
+                      <h4 className="text-lg font-bold text-gray-800">Maliyet ve Kar Analizi</h4>
+                    </div>
+                    {costing.frozen_at ? (
+                      <Badge className="bg-blue-100 text-blue-800">
+                        Onay fiyatları ({formatDate(costing.frozen_at)})
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-gray-100 text-gray-700">Güncel fiyatlar</Badge>
                     )}
+                  </div>
 
-                    {order.total_cost && (
-                      <div className="p-4 bg-gray-50/80 rounded-lg border border-gray-200/50 text-center">
-                        <p className="text-xs font-medium text-gray-700 mb-1">Toplam Maliyet</p>
-                        <p className="text-xl font-bold text-gray-800">
-                          ₺{(order.total_cost || 0).toFixed(2)}
-                        </p>
-                      </div>
-                    )}
+                  {costing.items.length > 0 && (
+                    <table className="w-full text-sm mb-4">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                          <th className="py-2">Ürün</th>
+                          <th className="py-2 text-right">Adet</th>
+                          <th className="py-2 text-right">Malzeme</th>
+                          <th className="py-2 text-right">İşçilik</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {costing.items.map(item => (
+                          <tr key={item.product_id} className="border-b border-gray-100">
+                            <td className="py-2 text-gray-900">{item.product_name}</td>
+                            <td className="py-2 text-right">{item.quantity}</td>
+                            <td className="py-2 text-right">₺{item.material_cost.toFixed(2)}</td>
+                            <td className="py-2 text-right">
+                              ₺{item.labor_cost.toFixed(2)}
+                              {item.labor_hours > 0 && (
+                                <span className="text-xs text-gray-500 ml-1">({item.labor_hours.toFixed(1)} sa)</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Malzeme</p>
+                      <p className="font-semibold">₺{costing.material_cost.toFixed(2)}</p>
+                    </div>
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">İşçilik (₺{costing.labor_hourly_rate}/sa)</p>
+                      <p className="font-semibold">₺{costing.labor_cost.toFixed(2)}</p>
+                    </div>
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Kargo</p>
+                      <p className="font-semibold">₺{costing.shipping_cost.toFixed(2)}</p>
+                    </div>
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Toplam Maliyet</p>
+                      <p className="font-semibold">₺{costing.total_cost.toFixed(2)}</p>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="p-4 bg-blue-50/80 rounded-lg border border-blue-200/50 text-center">
+                      <p className="text-xs font-medium text-blue-700 mb-1">Net Gelir</p>
+                      <p className="text-xl font-bold text-blue-800">₺{costing.net_revenue.toFixed(2)}</p>
+                      {costing.discount_amount > 0 && (
+                        <p className="text-xs text-blue-600">İskonto: ₺{costing.discount_amount.toFixed(2)}</p>
+                      )}
+                    </div>
+                    <div className="p-4 bg-emerald-50/80 rounded-lg border border-emerald-200/50 text-center">
+                      <p className="text-xs font-medium text-emerald-700 mb-1">Net Kar</p>
+                      <p className={`text-xl font-bold ${costing.net_profit < 0 ? 'text-red-700' : 'text-emerald-800'}`}>
+                        ₺{costing.net_profit.toFixed(2)}
+                      </p>
+                    </div>
+                    <div className="p-4 bg-purple-50/80 rounded-lg border border-purple-200/50 text-center">
+                      <p className="text-xs font-medium text-purple-700 mb-1">Kar Marjı / Maliyet Üzeri</p>
+                      <p className="text-xl font-bold text-purple-800">
+                        %{costing.profit_margin_percent.toFixed(1)} / %{costing.profit_margin_percent_2.toFixed(1)}
+                      </p>
+                    </div>
                   </div>
                 </div>
               )}
@@ -395,16 +479,6 @@ export const OrderDialog: React.FC<OrderDialogProps> = ({
                     <h4 className="text-lg font-bold text-blue-800">Hızlı Düzenleme</h4>
                   </div>
                   <div className="grid grid-cols-2 gap-3">
-                    <div>
-                      <Label className="text-sm font-semibold text-blue-700 mb-2 block">Alınan (₺)</Label>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        defaultValue={order.amount_received || 0}
-                        className="h-10 text-sm bg-white/60 border-blue-200/50 focus:ring-1 focus:ring-blue-500/20"
-                        onChange={(e) => onFieldUpdate(order.id, 'amount_received', parseFloat(e.target.value) || 0)}
-                      />
-                    </div>
                     <div>
                       <Label className="text-sm font-semibold text-blue-700 mb-2 block">İskonto (₺)</Label>
                       <Input
@@ -416,28 +490,29 @@ export const OrderDialog: React.FC<OrderDialogProps> = ({
                       />
                     </div>
                     <div>
-                      <Label className="text-sm font-semibold text-blue-700 mb-2 block">İşçilik (₺)</Label>
+                      <Label className="text-sm font-semibold text-blue-700 mb-2 block">Kargo Maliyeti (₺)</Label>
                       <Input
                         type="number"
                         step="0.01"
-                        defaultValue={order.labor_cost || 0}
+                        defaultValue={order.shipping_cost || 0}
                         className="h-10 text-sm bg-white/60 border-blue-200/50 focus:ring-1 focus:ring-blue-500/20"
-                        onChange={(e) => onFieldUpdate(order.id, 'labor_cost', parseFloat(e.target.value) || 0)}
+                        onChange={(e) => onFieldUpdate(order.id, 'shipping_cost', parseFloat(e.target.value) || 0)}
                       />
                     </div>
-                    <div>
-                      <Label className="text-sm font-semibold text-blue-700 mb-2 block">Maliyet (₺)</Label>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        defaultValue={order.total_cost || 0}
-                        className="h-10 text-sm bg-white/60 border-blue-200/50 focus:ring-1 focus:ring-blue-500/20"
-                        onChange={(e) => onFieldUpdate(order.id, 'total_cost', parseFloat(e.target.value) || 0)}
+                    <div className="col-span-2">
+                      <Label className="text-sm font-semibold text-blue-700 mb-2 block">Müşteri Kaydı</Label>
+                      <CustomerPicker
+                        value={order.customer_id || null}
+                        onChange={(customer) => onFieldUpdate(order.id, 'customer_id', customer?.id ?? null)}
+                        suggestion={{ name: order.customerName, phone: order.customerPhone, email: order.customerEmail }}
                       />
                     </div>
                   </div>
                 </div>
               </div>
+
+              {/* Payments */}
+              <OrderPaymentsPanel order={order} onChanged={onPaymentsChanged} />
             </div>
           )}
         </div>
@@ -0,0 +1,431 @@
+import React, { useState, useEffect } from 'react'
+import { supabase } from '../SupabaseClient'
+import { OrderAPI } from '../services/api'
+import { calculateOrderTotals, NewOrder, NewOrderItem } from '../services/orderEntryService'
+import { MaterialShortage } from '../services/bomService'
+import { ORDER_SOURCES, SHIPPING_METHODS, TABLE_NAMES, OrderSource, ShippingMethod } from '../constants'
+import { Customer } from '../types'
+import { CustomerPicker } from './CustomerPicker'
+import { PlusIcon, TrashIcon, XIcon, AlertTriangleIcon, CheckIcon } from './icons'
+
+interface OrderEntryDialogProps {
+  orderId?: string | null // Edit this pending order; a new order otherwise
+  onClose: () => void
+  onSaved: (orderNumber: string) => void
+}
+
+// Web shop orders are not entered by hand
+const SOURCE_LABELS: Partial<Record<OrderSource, string>> = {
+  PHONE: 'Telefon',
+  INSTAGRAM: 'Instagram',
+  WHATSAPP: 'WhatsApp',
+  IN_STORE: 'Mağaza'
+}
+
+const SHIPPING_LABELS: Record<ShippingMethod, string> = {
+  CARGO: 'Kargo',
+  COURIER: 'Kurye',
+  PICKUP: 'Atölyeden teslim'
+}
+
+const formatMoney = (value: number) => `₺${value.toFixed(2)}`
+
+interface ItemRow extends NewOrderItem {
+  key: number
+}
+
+let nextRowKey = 1
+const emptyRow = (): ItemRow => ({ key: nextRowKey++, productId: '', quantity: 1, price: 0, personalization: null })
+
+export const OrderEntryDialog: React.FC<OrderEntryDialogProps> = ({ orderId, onClose, onSaved }) => {
+  const [products, setProducts] = useState<Array<{ id: string; name: string; price: number }>>([])
+  const [customerId, setCustomerId] = useState<string | null>(null)
+  const [customer, setCustomer] = useState({ name: '', phone: '', email: '', address: '', city: '' })
+  const [source, setSource] = useState<OrderSource>(ORDER_SOURCES.PHONE)
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>(SHIPPING_METHODS.CARGO)
+  const [shippingCost, setShippingCost] = useState(0)
+  const [deadline, setDeadline] = useState('')
+  const [discount, setDiscount] = useState(0)
+  const [notes, setNotes] = useState('')
+  const [items, setItems] = useState<ItemRow[]>([emptyRow()])
+  const [shortages, setShortages] = useState<MaterialShortage[] | null>(null)
+  const [orderNumber, setOrderNumber] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadData()
+  }, [orderId])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from(TABLE_NAMES.PRODUCTS)
+        .select('id, name, price, isActive')
+        .order('name')
+      if (error) throw error
+      setProducts((data || []).filter((product: any) => product.isActive !== false))
+
+      if (orderId) {
+        const { data: rows, error: orderError } = await supabase
+          .from(TABLE_NAMES.ORDERS)
+          .select('*')
+          .eq('id', orderId)
+        if (orderError) throw orderError
+        const order = rows?.[0]
+        if (!order) throw new Error('Sipariş bulunamadı')
+
+        setOrderNumber(order.orderNumber)
+        setCustomerId(order.customer_id || null)
+        setCustomer({
+          name: order.customerName || '',
+          phone: order.customerPhone || '',
+          email: order.customerEmail || '',
+          address: order.shippingAddress || '',
+          city: order.shippingCity || ''
+        })
+        if (order.order_source && SOURCE_LABELS[order.order_source as OrderSource]) setSource(order.order_source)
+        if (order.shipping_method && SHIPPING_LABELS[order.shipping_method as ShippingMethod]) setShippingMethod(order.shipping_method)
+        setShippingCost(Number(order.shipping_cost) || 0)
+        setDeadline(order.deadline_date ? String(order.deadline_date).slice(0, 10) : '')
+        setDiscount(Number(order.discount_amount) || 0)
+        setNotes(order.admin_notes || '')
+
+        const orderItems = await OrderAPI.getOrderItems(orderId)
+        setItems(orderItems.length > 0 ? orderItems.map(item => ({ ...item, key: nextRowKey++ })) : [emptyRow()])
+      }
+    } catch (error) {
+      console.error('Sipariş formu yüklenirken hata:', error)
+      alert(`Sipariş yüklenemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectCustomer = (picked: Customer | null) => {
+    setCustomerId(picked?.id || null)
+    if (picked) {
+      setCustomer(current => ({ ...current, name: picked.name, phone: picked.phone || '', email: picked.email || '' }))
+    }
+  }
+
+  const updateItem = (key: number, changes: Partial<ItemRow>) => {
+    setItems(current => current.map(item => (item.key === key ? { ...item, ...changes } : item)))
+    setShortages(null)
+  }
+
+  const selectProduct = (key: number, productId: string) => {
+    const product = products.find(p => p.id === productId)
+    updateItem(key, { productId, price: Number(product?.price) || 0 })
+  }
+
+  const personalizationNote = (item: ItemRow) => {
+    const value = item.personalization?.note
+    if (typeof value === 'string') return value
+    return item.personalization ? JSON.stringify(item.personalization) : ''
+  }
+
+  const setPersonalizationNote = (item: ItemRow, note: string) => {
+    const { note: _previous, ...rest } = item.personalization || {}
+    updateItem(item.key, { personalization: note ? { ...rest, note } : (Object.keys(rest).length > 0 ? rest : null) })
+  }
+
+  const lines = items.filter(item => item.productId)
+  const totals = calculateOrderTotals(lines, discount)
+
+  const buildOrder = (): NewOrder => ({
+    customer_id: customerId,
+    customerName: customer.name,
+    customerPhone: customer.phone,
+    customerEmail: customer.email,
+    shippingAddress: customer.address,
+    shippingCity: customer.city,
+    order_source: source,
+    shipping_method: shippingMethod,
+    deadline_date: deadline || null,
+    discount_amount: discount,
+    shipping_cost: shippingCost,
+    admin_notes: notes,
+    items: lines.map(({ key: _key, ...item }) => item)
+  })
+
+  const checkStock = async (): Promise<MaterialShortage[]> => {
+    const found = await OrderAPI.checkOrderStock(buildOrder().items, orderId || undefined)
+    setShortages(found)
+    return found
+  }
+
+  const handleCheckStock = async () => {
+    try {
+      await checkStock()
+    } catch (error) {
+      alert(`Stok kontrolü yapılamadı: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    }
+  }
+
+  const handleSave = async () => {
+    if (lines.length === 0) {
+      alert('En az bir ürün ekleyin')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const found = await checkStock()
+      if (found.length > 0 && !confirm(`${found.length} malzemede stok yetersiz. Sipariş yine de kaydedilsin mi?`)) {
+        return
+      }
+
+      const saved = orderId
+        ? await OrderAPI.updateOrder(orderId, buildOrder())
+        : await OrderAPI.createOrder(buildOrder())
+      onSaved(saved.orderNumber)
+    } catch (error) {
+      alert(`Sipariş kaydedilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-semibold">{orderId ? `Siparişi Düzenle - ${orderNumber}` : 'Yeni Sipariş'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6 overflow-y-auto">
+            {/* Customer */}
+            <section className="space-y-3">
+              <h3 className="font-medium text-gray-900">Müşteri</h3>
+              <CustomerPicker
+                value={customerId}
+                onChange={selectCustomer}
+                suggestion={{ name: customer.name, phone: customer.phone, email: customer.email }}
+              />
+              <div className="grid grid-cols-3 gap-3">
+                <input
+                  value={customer.name}
+                  onChange={(e) => setCustomer({ ...customer, name: e.target.value })}
+                  placeholder="Ad Soyad *"
+                  className={inputClass}
+                />
+                <input
+                  value={customer.phone}
+                  onChange={(e) => setCustomer({ ...customer, phone: e.target.value })}
+                  placeholder="Telefon"
+                  className={inputClass}
+                />
+                <input
+                  type="email"
+                  value={customer.email}
+                  onChange={(e) => setCustomer({ ...customer, email: e.target.value })}
+                  placeholder="E-posta"
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <input
+                  value={customer.address}
+                  onChange={(e) => setCustomer({ ...customer, address: e.target.value })}
+                  placeholder="Teslimat adresi"
+                  className={`${inputClass} col-span-2`}
+                />
+                <input
+                  value={customer.city}
+                  onChange={(e) => setCustomer({ ...customer, city: e.target.value })}
+                  placeholder="Şehir"
+                  className={inputClass}
+                />
+              </div>
+            </section>
+
+            {/* Order details */}
+            <section className="grid grid-cols-4 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Sipariş Kaynağı</label>
+                <select value={source} onChange={(e) => setSource(e.target.value as OrderSource)} className={inputClass}>
+                  {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Teslimat</label>
+                <select value={shippingMethod} onChange={(e) => setShippingMethod(e.target.value as ShippingMethod)} className={inputClass}>
+                  {Object.entries(SHIPPING_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Kargo Maliyeti (₺)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={shippingCost || ''}
+                  onChange={(e) => setShippingCost(parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Teslim Tarihi</label>
+                <input type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} className={inputClass} />
+              </div>
+            </section>
+
+            {/* Items */}
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium text-gray-900">Ürünler</h3>
+                <button
+                  onClick={() => setItems([...items, emptyRow()])}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  Ürün Ekle
+                </button>
+              </div>
+              {items.map(item => (
+                <div key={item.key} className="grid grid-cols-12 gap-2 items-start">
+                  <select
+                    value={item.productId}
+                    onChange={(e) => selectProduct(item.key, e.target.value)}
+                    className={`${inputClass} col-span-4`}
+                  >
+                    <option value="">Ürün seçin</option>
+                    {products.map(product => (
+                      <option key={product.id} value={product.id}>{product.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={item.quantity || ''}
+                    onChange={(e) => updateItem(item.key, { quantity: parseInt(e.target.value) || 0 })}
+                    placeholder="Adet"
+                    className={`${inputClass} col-span-1`}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={item.price || ''}
+                    onChange={(e) => updateItem(item.key, { price: parseFloat(e.target.value) || 0 })}
+                    placeholder="Birim fiyat"
+                    className={`${inputClass} col-span-2`}
+                  />
+                  <input
+                    value={personalizationNote(item)}
+                    onChange={(e) => setPersonalizationNote(item, e.target.value)}
+                    placeholder="Kişiselleştirme (isim, not...)"
+                    className={`${inputClass} col-span-3`}
+                  />
+                  <span className="col-span-1 py-2 text-sm text-right text-gray-700">
+                    {formatMoney(item.quantity * item.price)}
+                  </span>
+                  <button
+                    onClick={() => setItems(items.length > 1 ? items.filter(row => row.key !== item.key) : [emptyRow()])}
+                    className="col-span-1 p-2 text-gray-400 hover:text-red-600 justify-self-center"
+                    title="Satırı sil"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </section>
+
+            {/* Stock check */}
+            {shortages && (
+              shortages.length === 0 ? (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 text-sm text-green-800">
+                  <CheckIcon className="h-4 w-4" />
+                  Tüm malzemeler stokta mevcut
+                </div>
+              ) : (
+                <div className="p-3 rounded-lg bg-red-50 text-sm text-red-800 space-y-1">
+                  <div className="flex items-center gap-2 font-medium">
+                    <AlertTriangleIcon className="h-4 w-4" />
+                    Yetersiz stok
+                  </div>
+                  {shortages.map(shortage => (
+                    <p key={shortage.raw_material_id}>
+                      {shortage.name}: gerekli {shortage.required.toFixed(2)}, mevcut {shortage.available.toFixed(2)} (eksik {shortage.shortfall.toFixed(2)})
+                    </p>
+                  ))}
+                </div>
+              )
+            )}
+
+            {/* Totals */}
+            <section className="grid grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Not</label>
+                <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={inputClass} />
+              </div>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Ara Toplam</span>
+                  <span className="text-gray-900">{formatMoney(totals.subtotal)}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-600">İskonto (₺)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={discount || ''}
+                    onChange={(e) => setDiscount(parseFloat(e.target.value) || 0)}
+                    className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+                  <span className="text-gray-900">Ödenecek</span>
+                  <span className="text-gray-900">{formatMoney(totals.amount_due)}</span>
+                </div>
+                {discount > totals.subtotal && (
+                  <p className="text-xs text-red-600">İskonto ara toplamdan büyük olamaz</p>
+                )}
+              </div>
+            </section>
+          </div>
+        )}
+
+        <div className="p-6 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={handleCheckStock}
+            disabled={loading || lines.length === 0}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Stok Kontrolü
+          </button>
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50">
+            İptal
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={loading || saving || !customer.name.trim() || lines.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {orderId ? 'Değişiklikleri Kaydet' : 'Siparişi Oluştur'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default OrderEntryDialog
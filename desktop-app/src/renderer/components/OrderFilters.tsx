@@ -8,6 +8,7 @@ import {
   FilterIcon,
   XIcon
 } from './icons/index'
+import { ORDER_STATUSES, ORDER_WORKFLOW_STATES } from '../services/orderWorkflow'
 
 interface OrderFiltersProps {
   searchTerm: string
@@ -38,14 +39,12 @@ export const OrderFilters: React.FC<OrderFiltersProps> = ({
 
   const statusOptions = [
     { value: 'all', label: 'Tüm durumlar', icon: '🌟', color: 'text-gray-600' },
-    { value: 'PENDING', label: 'Onay Sürecinde', icon: '⏳', color: 'text-amber-600' },
-    { value: 'CONFIRMED', label: 'Onaylandı', icon: '✅', color: 'text-blue-600' },
-    { value: 'PROCESSING', label: 'İşleniyor', icon: '⚙️', color: 'text-indigo-600' },
-    { value: 'READY_TO_SHIP', label: 'Kargoya Hazır', icon: '📦', color: 'text-emerald-600' },
-    { value: 'SHIPPED', label: 'Kargoda', icon: '🚚', color: 'text-violet-600' },
-    { value: 'DELIVERED', label: 'Teslim Edildi', icon: '🎉', color: 'text-green-600' },
-    { value: 'CANCELLED', label: 'İptal Edildi', icon: '❌', color: 'text-red-600' },
-    { value: 'REFUNDED', label: 'İade Edildi', icon: '↩️', color: 'text-gray-600' }
+    ...ORDER_STATUSES.map(status => ({
+      value: status,
+      label: ORDER_WORKFLOW_STATES[status].label,
+      icon: ORDER_WORKFLOW_STATES[status].icon,
+      color: ORDER_WORKFLOW_STATES[status].accent
+    }))
   ]
 
   return (
@@ -200,7 +199,7 @@ export const OrderFilters: React.FC<OrderFiltersProps> = ({
         </div>
         
         <div className="flex flex-wrap gap-2">
-          {['PENDING', 'CONFIRMED', 'PROCESSING', 'DELIVERED'].map((status) => {
+          {ORDER_STATUSES.filter(status => ORDER_WORKFLOW_STATES[status].quickFilter).map((status) => {
             const option = statusOptions.find(s => s.value === status)
             if (!option) return null
             
@@ -4,6 +4,17 @@ import { Button } from './ui/Button'
 import { OrderCard } from './OrderCard'
 import { OrderTable } from './OrderTable'
 import { OrderFilters } from './OrderFilters'
+import { OrderEntryDialog } from './OrderEntryDialog'
+import { OrderAPI } from '../services/api'
+import type { OrderDetailsUpdate } from '../services/orderEntryService'
+import { OrderStatusType } from '../constants'
+import {
+  getMissingFields,
+  getNextStatus,
+  getStatusBadge,
+  getStatusLabel,
+  WorkflowRequiredField
+} from '../services/orderWorkflow'
 import { 
   SpinnerIcon, 
   RefreshIcon, 
@@ -12,13 +23,14 @@ import {
   LayoutGridIcon,
   TableIcon,
   SettingsIcon,
-  TrendingUpIcon
+  TrendingUpIcon,
+  PlusIcon
 } from './icons/index'
 
 interface Order {
   id: string
   orderNumber: string
-  status: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'READY_TO_SHIP' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED'
+  status: OrderStatusType
   totalAmount: number
   subtotal?: number
   tax?: number
@@ -51,6 +63,7 @@ interface Order {
   net_profit?: number
   profit_margin_percent_2?: number
   total_cost?: number
+  shipping_cost?: number
   
   // İlişkili veriler
   items?: OrderItem[]
@@ -86,6 +99,15 @@ export const OrderManager: React.FC = () => {
   const [filterStatus, setFilterStatus] = useState('all')
   const [viewMode, setViewMode] = useState<'cards' | 'table'>('cards')
   const [isStatusDropdownOpen, setIsStatusDropdownOpen] = useState(false)
+  // Durum geçişi için eksik alanlar girilene kadar bekleyen geçiş
+  const [pendingTransition, setPendingTransition] = useState<{
+    orderId: string
+    newStatus: OrderStatusType
+    fields: WorkflowRequiredField[]
+  } | null>(null)
+  const [transitionValues, setTransitionValues] = useState<Record<string, string>>({})
+  // Sipariş giriş formu: undefined kapalı, null yeni sipariş, id düzenlenen sipariş
+  const [entryOrderId, setEntryOrderId] = useState<string | null | undefined>(undefined)
 
   // Effects
   useEffect(() => {
@@ -207,7 +229,9 @@ export const OrderManager: React.FC = () => {
   }
 
   // Order Operations
-  const updateOrderStatus = async (orderId: string, newStatus: string, previousStatus?: string) => {
+  // Status changes go through the status engine, which records them in the
+  // order's status history together with their stock movements
+  const updateOrderStatus = async (orderId: string, newStatus: string, fields?: Record<string, string>) => {
     try {
       console.log('🔄 Updating order status:', {
         orderId,
@@ -220,57 +244,18 @@ export const OrderManager: React.FC = () => {
         throw new Error('Order ID and new status are required')
       }
 
-      // Check if status is valid
-      const validStatuses = ['PENDING', 'CONFIRMED', 'PROCESSING', 'READY_TO_SHIP', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'REFUNDED']
-      if (!validStatuses.includes(newStatus)) {
-        throw new Error(`Invalid status: ${newStatus}. Valid statuses are: ${validStatuses.join(', ')}`)
-      }
-
-      const { data, error } = await supabase
-        .from('orders')
-        .update({
-          status: newStatus,
-          updatedAt: new Date().toISOString()
-        })
-        .eq('id', orderId)
-        .select()
-
-      if (error) {
-        console.error('❌ Supabase error details:', {
-          code: error.code,
-          message: error.message,
-          details: error.details,
-          hint: error.hint,
-          orderId,
-          newStatus
-        })
-        throw error
+      // İş akışının istediği alanlar eksikse önce kullanıcıdan al
+      const order = orders.find(o => o.id === orderId)
+      const missing = order ? getMissingFields(order, newStatus as OrderStatusType, fields) : []
+      if (missing.length > 0) {
+        setTransitionValues({})
+        setPendingTransition({ orderId, newStatus: newStatus as OrderStatusType, fields: missing })
+        return
       }
 
-      console.log('✅ Order status updated successfully:', {
-        orderId,
-        newStatus,
-        affectedRows: data?.length || 0,
-        data
-      })
+      await OrderAPI.updateOrderStatus(orderId, newStatus as OrderStatusType, undefined, fields)
 
-      // Store previous status for undo functionality
-      if (previousStatus) {
-        // Store in localStorage for undo functionality
-        const undoKey = `undo_${orderId}_${Date.now()}`
-        localStorage.setItem(undoKey, JSON.stringify({
-          orderId,
-          previousStatus,
-          newStatus,
-          timestamp: new Date().toISOString()
-        }))
-        
-        // Clean up old undo entries (keep only last 10)
-        const undoKeys = Object.keys(localStorage).filter(key => key.startsWith(`undo_${orderId}_`))
-        if (undoKeys.length > 10) {
-          undoKeys.sort().slice(0, -10).forEach(key => localStorage.removeItem(key))
-        }
-      }
+      console.log('✅ Order status updated successfully:', { orderId, newStatus })
 
       await loadOrders()
     } catch (error) {
@@ -286,93 +271,52 @@ export const OrderManager: React.FC = () => {
     }
   }
 
-  // Undo functionality
+  // Undo functionality - validated against the stored status history
   const undoLastStatusChange = async (orderId: string) => {
     try {
-      // Find the most recent undo entry for this order
-      const undoKeys = Object.keys(localStorage)
-        .filter(key => key.startsWith(`undo_${orderId}_`))
-        .sort()
-        .reverse()
-      
-      if (undoKeys.length === 0) {
-        alert('Geri alınacak işlem bulunamadı')
-        return
-      }
-
-      const latestUndoKey = undoKeys[0]
-      const undoData = JSON.parse(localStorage.getItem(latestUndoKey) || '{}')
-      
-      if (!undoData.previousStatus) {
-        alert('Geri alınacak işlem bulunamadı')
-        return
-      }
-
-      console.log('🔄 Undoing status change:', undoData)
+      const result = await OrderAPI.undoLastStatusChange(orderId)
+      await loadOrders()
 
-      // Update back to previous status
-      await updateOrderStatus(orderId, undoData.previousStatus)
-      
-      // Remove the undo entry
-      localStorage.removeItem(latestUndoKey)
-      
-      alert(`Sipariş durumu "${getStatusText(undoData.previousStatus)}" olarak geri alındı`)
+      alert(`Sipariş durumu "${getStatusText(result.toStatus)}" olarak geri alındı`)
     } catch (error) {
       console.error('Error undoing status change:', error)
-      alert('Geri alma işlemi başarısız oldu')
+      alert(`Geri alma işlemi başarısız oldu: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
     }
   }
 
+  // Ana süreç yalnızca not, iskonto, kargo ve müşteri alanlarını yazar; tutar değişince maliyeti yeniden hesaplar
   const updateOrderField = async (orderId: string, field: string, value: any) => {
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          [field]: value,
-          updatedAt: new Date().toISOString()
-        })
-        .eq('id', orderId)
-
-      if (error) {
-        console.error('Error updating order field:', error)
-        throw error
-      }
-
+      await OrderAPI.updateOrderDetails(orderId, { [field]: value } as OrderDetailsUpdate)
       await loadOrders()
     } catch (error) {
       console.error('Error updating order field:', error)
     }
   }
 
-  // Utility Functions
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'PENDING': return 'bg-yellow-100 text-yellow-800'
-      case 'CONFIRMED': return 'bg-blue-100 text-blue-800'
-      case 'PROCESSING': return 'bg-blue-100 text-blue-800'
-      case 'READY_TO_SHIP': return 'bg-indigo-100 text-indigo-800'
-      case 'SHIPPED': return 'bg-purple-100 text-purple-800'
-      case 'DELIVERED': return 'bg-green-100 text-green-800'
-      case 'CANCELLED': return 'bg-red-100 text-red-800'
-      case 'REFUNDED': return 'bg-gray-100 text-gray-800'
-      default: return 'bg-gray-100 text-gray-800'
+  const recalculatePendingCosts = async () => {
+    try {
+      const count = await OrderAPI.recalculatePendingOrderCosts()
+      await loadOrders()
+      alert(`${count} bekleyen siparişin maliyeti güncel fiyatlarla yeniden hesaplandı`)
+    } catch (error) {
+      console.error('Error recalculating order costs:', error)
+      alert('Maliyetler hesaplanırken hata oluştu')
     }
   }
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'PENDING': return 'Onay Sürecinde'
-      case 'CONFIRMED': return 'Onaylandı'
-      case 'PROCESSING': return 'İşleniyor'
-      case 'READY_TO_SHIP': return 'Kargoya Hazır'
-      case 'SHIPPED': return 'Kargoda'
-      case 'DELIVERED': return 'Teslim Edildi'
-      case 'CANCELLED': return 'İptal Edildi'
-      case 'REFUNDED': return 'İade Edildi'
-      default: return status
-    }
+  // Utility Functions
+  const submitPendingTransition = async () => {
+    if (!pendingTransition) return
+    const { orderId, newStatus } = pendingTransition
+    setPendingTransition(null)
+    await updateOrderStatus(orderId, newStatus, transitionValues)
   }
 
+  const getStatusColor = getStatusBadge
+
+  const getStatusText = getStatusLabel
+
   const getOrderItems = (orderId: string) => {
     return orderItems.filter(item => item.orderId === orderId)
   }
@@ -387,17 +331,6 @@ export const OrderManager: React.FC = () => {
     })
   }
 
-  const getNextStatus = (currentStatus: string) => {
-    const statusFlow: Record<string, string> = {
-      'PENDING': 'CONFIRMED',
-      'CONFIRMED': 'PROCESSING',
-      'PROCESSING': 'READY_TO_SHIP',
-      'READY_TO_SHIP': 'SHIPPED',
-      'SHIPPED': 'DELIVERED'
-    }
-    return statusFlow[currentStatus] || null
-  }
-
   const openWhatsApp = (phone: string, orderNumber: string, customerName: string) => {
     const message = `Merhaba ${customerName},\n\nSipariş No: ${orderNumber}\n\nSiparişiniz hakkında bilgi vermek istiyorum.`
     const whatsappUrl = `https://wa.me/${phone.replace(/[^0-9]/g, '')}?text=${encodeURIComponent(message)}`
@@ -406,18 +339,7 @@ export const OrderManager: React.FC = () => {
 
 
   const getStatusDisplayText = (status: string) => {
-    switch (status) {
-      case 'all': return 'Tüm durumlar'
-      case 'PENDING': return 'Onay Sürecinde'
-      case 'CONFIRMED': return 'Onaylandı'
-      case 'PROCESSING': return 'İşleniyor'
-      case 'READY_TO_SHIP': return 'Kargoya Hazır'
-      case 'SHIPPED': return 'Kargoda'
-      case 'DELIVERED': return 'Teslim Edildi'
-      case 'CANCELLED': return 'İptal Edildi'
-      case 'REFUNDED': return 'İade Edildi'
-      default: return 'Tüm durumlar'
-    }
+    return status === 'all' ? 'Tüm durumlar' : getStatusLabel(status)
   }
 
   // Event Handlers
@@ -503,6 +425,26 @@ export const OrderManager: React.FC = () => {
             </Button>
           </div>
 
+              {/* New Order Button */}
+              <Button
+                onClick={() => setEntryOrderId(null)}
+                className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg transition-all duration-300 px-6 py-3"
+              >
+                <PlusIcon className="h-5 w-5 mr-2" />
+                Yeni Sipariş
+              </Button>
+
+              {/* Recost Button */}
+              <Button
+                onClick={recalculatePendingCosts}
+                disabled={loading}
+                variant="secondary"
+                className="shadow-lg transition-all duration-300 px-6 py-3"
+              >
+                <TrendingUpIcon className="h-5 w-5 mr-2" />
+                Maliyetleri Güncelle
+              </Button>
+
               {/* Refresh Button */}
               <Button
                 onClick={loadOrders}
@@ -609,10 +551,11 @@ export const OrderManager: React.FC = () => {
                   onFieldUpdate={updateOrderField}
                   onWhatsAppOpen={openWhatsApp}
                   onUndoStatusChange={undoLastStatusChange}
+                  onEdit={setEntryOrderId}
+                  onPaymentsChanged={loadOrders}
                   formatDate={formatDate}
                   getStatusColor={getStatusColor}
                   getStatusText={getStatusText}
-                  getNextStatus={getNextStatus}
                 />
               )
             })}
@@ -625,6 +568,7 @@ export const OrderManager: React.FC = () => {
             onFieldUpdate={updateOrderField}
             onWhatsAppOpen={openWhatsApp}
             onUndoStatusChange={undoLastStatusChange}
+            onEdit={setEntryOrderId}
             formatDate={formatDate}
             getStatusColor={getStatusColor}
             getStatusText={getStatusText}
@@ -675,6 +619,58 @@ export const OrderManager: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Required fields for a status transition */}
+      {pendingTransition && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              {getStatusText(pendingTransition.newStatus)} durumuna geçiş
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">Bu geçiş için aşağıdaki bilgiler gerekli</p>
+            <div className="space-y-3">
+              {pendingTransition.fields.map(({ field, label }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type="text"
+                    value={transitionValues[field] || ''}
+                    onChange={(e) => setTransitionValues(prev => ({ ...prev, [field]: e.target.value }))}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3 mt-6">
+              <Button
+                onClick={() => setPendingTransition(null)}
+                className="flex-1 bg-gray-100 text-gray-700"
+              >
+                İptal
+              </Button>
+              <Button
+                onClick={submitPendingTransition}
+                disabled={pendingTransition.fields.some(({ field }) => !transitionValues[field]?.trim())}
+                className="flex-1 bg-blue-600 text-white disabled:opacity-50"
+              >
+                Kaydet
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {entryOrderId !== undefined && (
+        <OrderEntryDialog
+          orderId={entryOrderId}
+          onClose={() => setEntryOrderId(undefined)}
+          onSaved={async (orderNumber) => {
+            setEntryOrderId(undefined)
+            await loadOrders()
+            alert(`${orderNumber} numaralı sipariş kaydedildi`)
+          }}
+        />
+      )}
       </div>
     </div>
   )
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react'
+import { PaymentAPI } from '../services/api'
+import { summarizePayments, PaymentOrderInput } from '../services/paymentService'
+import { PAYMENT_KINDS, PAYMENT_METHODS, PaymentMethod } from '../constants'
+import { OrderPayment } from '../types'
+import { CurrencyDollarIcon, TrashIcon } from './icons'
+
+interface OrderPaymentsPanelProps {
+  order: PaymentOrderInput
+  onChanged?: () => void
+}
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Nakit',
+  BANK_TRANSFER: 'Havale/EFT',
+  CREDIT_CARD: 'Kredi Kartı',
+  OTHER: 'Diğer'
+}
+
+const formatMoney = (value: number) => `₺${value.toFixed(2)}`
+
+export const OrderPaymentsPanel: React.FC<OrderPaymentsPanelProps> = ({ order, onChanged }) => {
+  const [payments, setPayments] = useState<OrderPayment[]>([])
+  const [amount, setAmount] = useState(0)
+  const [method, setMethod] = useState<PaymentMethod>(PAYMENT_METHODS.CASH)
+  const [paidAt, setPaidAt] = useState(() => new Date().toISOString().split('T')[0])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadPayments()
+  }, [order.id])
+
+  const loadPayments = async () => {
+    try {
+      setPayments(await PaymentAPI.getPayments(order.id))
+    } catch (error) {
+      console.error('Ödemeler yüklenirken hata:', error)
+    }
+  }
+
+  const summary = summarizePayments(order, payments)
+
+  const handleSave = async (kind: OrderPayment['kind']) => {
+    try {
+      setSaving(true)
+      const entry = { amount, method, paid_at: new Date(paidAt).toISOString() }
+      if (kind === PAYMENT_KINDS.REFUND) {
+        await PaymentAPI.recordRefund(order.id, entry)
+      } else {
+        await PaymentAPI.recordPayment(order.id, entry)
+      }
+      setAmount(0)
+      await loadPayments()
+      onChanged?.()
+    } catch (error) {
+      console.error('Ödeme kaydedilirken hata:', error)
+      alert(`Ödeme kaydedilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (payment: OrderPayment) => {
+    if (!confirm(`${formatMoney(payment.amount)} tutarındaki kayıt silinsin mi?`)) return
+
+    try {
+      await PaymentAPI.deletePayment(payment.id)
+      await loadPayments()
+      onChanged?.()
+    } catch (error) {
+      console.error('Ödeme silinirken hata:', error)
+      alert('Ödeme kaydı silinemedi')
+    }
+  }
+
+  return (
+    <div className="bg-white/80 rounded-xl border border-gray-200/50 p-6 shadow-sm">
+      <div className="flex items-center space-x-2 mb-4">
+        <CurrencyDollarIcon className="w-5 h-5 text-green-600" />
+        <h4 className="text-lg font-bold text-gray-800">Ödemeler</h4>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-500">Tutar</p>
+          <p className="font-bold text-gray-900">{formatMoney(summary.amount_due)}</p>
+        </div>
+        <div className="p-3 bg-green-50 rounded-lg">
+          <p className="text-xs text-green-700">Alınan</p>
+          <p className="font-bold text-green-800">{formatMoney(summary.received - summary.refunded)}</p>
+        </div>
+        <div className="p-3 bg-orange-50 rounded-lg">
+          <p className="text-xs text-orange-700">Kalan</p>
+          <p className="font-bold text-orange-800">{formatMoney(summary.remaining)}</p>
+        </div>
+      </div>
+
+      {payments.length > 0 ? (
+        <div className="space-y-2 mb-4">
+          {payments.map(payment => (
+            <div key={payment.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+              <div>
+                <span className="text-gray-900">{new Date(payment.paid_at).toLocaleDateString('tr-TR')}</span>
+                <span className="ml-2 text-gray-500">{METHOD_LABELS[payment.method] || payment.method}</span>
+                {payment.notes && <span className="ml-2 text-xs text-gray-400">{payment.notes}</span>}
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className={`font-semibold ${payment.kind === PAYMENT_KINDS.REFUND ? 'text-red-600' : 'text-green-700'}`}>
+                  {payment.kind === PAYMENT_KINDS.REFUND ? '−' : '+'}{formatMoney(payment.amount)}
+                </span>
+                <button
+                  onClick={() => handleDelete(payment)}
+                  className="p-1 text-red-600 hover:bg-red-50 rounded"
+                  title="Kaydı Sil"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Henüz ödeme kaydı yok</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={amount || ''}
+          onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+          placeholder="Tutar"
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+        >
+          {Object.values(PAYMENT_METHODS).map(value => (
+            <option key={value} value={value}>{METHOD_LABELS[value]}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={paidAt}
+          onChange={(e) => setPaidAt(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={() => handleSave(PAYMENT_KINDS.PAYMENT)}
+          disabled={saving || amount <= 0}
+          className="flex-1 px-3 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+        >
+          Ödeme Ekle
+        </button>
+        <button
+          onClick={() => handleSave(PAYMENT_KINDS.REFUND)}
+          disabled={saving || amount <= 0}
+          className="flex-1 px-3 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+        >
+          İade Et
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default OrderPaymentsPanel
@@ -14,13 +14,16 @@ import {
   TrendingUpIcon,
   PhoneIcon,
   ChevronDownIcon,
-  ChevronRightIcon
+  ChevronRightIcon,
+  EditIcon
 } from './icons/index'
+import { getWorkflowState } from '../services/orderWorkflow'
+import { OrderStatusType } from '../constants'
 
 interface Order {
   id: string
   orderNumber: string
-  status: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'READY_TO_SHIP' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED'
+  status: OrderStatusType
   totalAmount: number
   customerName: string
   customerEmail: string
@@ -65,10 +68,11 @@ interface OrderItem {
 interface OrderTableProps {
   orders: Order[]
   orderItems: OrderItem[]
-  onStatusUpdate: (orderId: string, newStatus: string, previousStatus?: string) => void
+  onStatusUpdate: (orderId: string, newStatus: string) => void
   onFieldUpdate: (orderId: string, field: string, value: any) => void
   onWhatsAppOpen: (phone: string, orderNumber: string, customerName: string) => void
   onUndoStatusChange: (orderId: string) => void
+  onEdit?: (orderId: string) => void
   formatDate: (dateString: string) => string
   getStatusColor: (status: string) => string
   getStatusText: (status: string) => string
@@ -82,6 +86,7 @@ export const OrderTable: React.FC<OrderTableProps> = ({
   onFieldUpdate,
   onWhatsAppOpen,
   onUndoStatusChange,
+  onEdit,
   formatDate,
   getStatusColor,
   getStatusText,
@@ -105,27 +110,6 @@ export const OrderTable: React.FC<OrderTableProps> = ({
     })
   }
 
-  const getStatusConfig = (status: string) => {
-    switch (status) {
-      case 'PENDING':
-        return { bg: 'from-amber-50 to-orange-50', border: 'border-amber-200', accent: 'text-amber-600', icon: '⏳' }
-      case 'CONFIRMED':
-        return { bg: 'from-blue-50 to-cyan-50', border: 'border-blue-200', accent: 'text-blue-600', icon: '✅' }
-      case 'PROCESSING':
-        return { bg: 'from-indigo-50 to-purple-50', border: 'border-indigo-200', accent: 'text-indigo-600', icon: '⚙️' }
-      case 'READY_TO_SHIP':
-        return { bg: 'from-emerald-50 to-teal-50', border: 'border-emerald-200', accent: 'text-emerald-600', icon: '📦' }
-      case 'SHIPPED':
-        return { bg: 'from-violet-50 to-purple-50', border: 'border-violet-200', accent: 'text-violet-600', icon: '🚚' }
-      case 'DELIVERED':
-        return { bg: 'from-green-50 to-emerald-50', border: 'border-green-200', accent: 'text-green-600', icon: '🎉' }
-      case 'CANCELLED':
-        return { bg: 'from-red-50 to-rose-50', border: 'border-red-200', accent: 'text-red-600', icon: '❌' }
-      default:
-        return { bg: 'from-gray-50 to-slate-50', border: 'border-gray-200', accent: 'text-gray-600', icon: '📋' }
-    }
-  }
-
   return (
     <div className="bg-white/80 backdrop-blur-xl rounded-2xl shadow-xl border border-white/20 overflow-hidden">
       {/* Table Header - Compact */}
@@ -162,7 +146,7 @@ export const OrderTable: React.FC<OrderTableProps> = ({
           const orderItemsData = getOrderItems(order.id)
           const nextStatus = getNextStatus(order.status)
           const isExpanded = expandedRows.has(order.id)
-          const statusConfig = getStatusConfig(order.status)
+          const statusConfig = getWorkflowState(order.status)
 
           return (
             <div key={order.id} className="group">
@@ -170,7 +154,7 @@ export const OrderTable: React.FC<OrderTableProps> = ({
               <div 
                 className={`
                   grid grid-cols-12 gap-3 p-4
-                  bg-gradient-to-r ${statusConfig.bg}
+                  bg-gradient-to-r ${statusConfig.surface}
                   transition-all duration-300
                   cursor-pointer border-l-4 ${statusConfig.border}
                 `}
@@ -282,6 +266,19 @@ export const OrderTable: React.FC<OrderTableProps> = ({
                     <EyeIcon className="w-2 h-2" />
                   </Button>
 
+                  {/* Edit (pending orders only) */}
+                  {onEdit && order.status === 'PENDING' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onEdit(order.id)}
+                      className="h-6 w-6 p-0 bg-indigo-500 text-white border-0 shadow-sm transition-all duration-200"
+                      title="Siparişi düzenle"
+                    >
+                      <EditIcon className="w-2 h-2" />
+                    </Button>
+                  )}
+
                   {/* Undo Button */}
                   <Button
                     size="sm"
@@ -298,7 +295,7 @@ export const OrderTable: React.FC<OrderTableProps> = ({
                     <Button
                       size="sm"
                       variant="outline"
-                      onClick={() => onStatusUpdate(order.id, nextStatus, order.status)}
+                      onClick={() => onStatusUpdate(order.id, nextStatus)}
                       className="h-6 w-6 p-0 bg-purple-500 text-white border-0 shadow-sm transition-all duration-200"
                     >
                       <ArrowRightIcon className="w-2 h-2" />
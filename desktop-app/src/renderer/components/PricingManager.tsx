@@ -0,0 +1,522 @@
+import React, { useState, useEffect } from 'react'
+import { supabase } from '../SupabaseClient'
+import { PricingAPI } from '../services/api'
+import { PriceProposal, PriceRule, ProductPriceChange } from '../types'
+import { PRICE_RULE_TYPES, PriceRuleType, TABLE_NAMES } from '../constants'
+import {
+  RefreshIcon,
+  PlusIcon,
+  EditIcon,
+  TrashIcon,
+  CheckIcon,
+  XIcon
+} from './icons'
+
+const RULE_TYPE_LABELS: Record<PriceRuleType, string> = {
+  markup: 'Maliyet üzeri %',
+  margin: 'Kar marjı %',
+  fixed: 'Maliyet + sabit tutar (₺)'
+}
+
+const formatMoney = (value: number) => `₺${value.toFixed(2)}`
+
+const formatDate = (date?: string | null) =>
+  date ? new Date(date).toLocaleString('tr-TR') : '-'
+
+interface RuleForm {
+  name: string
+  rule_type: PriceRuleType
+  value: string
+  product_id: string
+  category_id: string
+  min_cost: string
+  max_cost: string
+  is_active: boolean
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  rule_type: PRICE_RULE_TYPES.MARGIN,
+  value: '',
+  product_id: '',
+  category_id: '',
+  min_cost: '',
+  max_cost: '',
+  is_active: true
+}
+
+const toNumber = (value: string) => value.trim() === '' ? undefined : Number(value.replace(',', '.'))
+
+export const PricingManager: React.FC = () => {
+  const [rules, setRules] = useState<PriceRule[]>([])
+  const [proposals, setProposals] = useState<PriceProposal[] | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [history, setHistory] = useState<ProductPriceChange[]>([])
+  const [products, setProducts] = useState<Array<{ id: string; name: string }>>([])
+  const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [editingRule, setEditingRule] = useState<PriceRule | null>(null)
+  const [showRuleModal, setShowRuleModal] = useState(false)
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [ruleList, changes, productRows, categoryRows] = await Promise.all([
+        PricingAPI.getRules(),
+        PricingAPI.getPriceHistory(),
+        supabase.from(TABLE_NAMES.PRODUCTS).select('id, name').order('name'),
+        supabase.from(TABLE_NAMES.CATEGORIES).select('id, name').order('name')
+      ])
+      setRules(ruleList)
+      setHistory(changes.slice(0, 50))
+      setProducts(productRows.data || [])
+      setCategories(categoryRows.data || [])
+    } catch (error) {
+      console.error('Fiyat kuralları yüklenirken hata:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openRuleModal = (rule?: PriceRule) => {
+    setEditingRule(rule || null)
+    setForm(rule ? {
+      name: rule.name,
+      rule_type: rule.rule_type,
+      value: String(rule.value),
+      product_id: rule.conditions?.product_id || '',
+      category_id: rule.conditions?.category_id || '',
+      min_cost: rule.conditions?.min_cost !== undefined ? String(rule.conditions.min_cost) : '',
+      max_cost: rule.conditions?.max_cost !== undefined ? String(rule.conditions.max_cost) : '',
+      is_active: rule.is_active
+    } : EMPTY_FORM)
+    setShowRuleModal(true)
+  }
+
+  const handleSaveRule = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const conditions = {
+      ...(form.product_id && { product_id: form.product_id }),
+      ...(form.category_id && { category_id: form.category_id }),
+      ...(toNumber(form.min_cost) !== undefined && { min_cost: toNumber(form.min_cost) }),
+      ...(toNumber(form.max_cost) !== undefined && { max_cost: toNumber(form.max_cost) })
+    }
+
+    try {
+      setWorking(true)
+      await PricingAPI.saveRule({
+        name: form.name,
+        rule_type: form.rule_type,
+        value: toNumber(form.value) ?? 0,
+        is_active: form.is_active,
+        conditions
+      }, editingRule?.id)
+      setShowRuleModal(false)
+      setProposals(null)
+      await loadData()
+    } catch (error) {
+      console.error('Fiyat kuralı kaydedilirken hata:', error)
+      alert(`Fiyat kuralı kaydedilemedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleDeleteRule = async (rule: PriceRule) => {
+    if (!confirm(`"${rule.name}" kuralı silinsin mi?`)) return
+    try {
+      await PricingAPI.deleteRule(rule.id)
+      setProposals(null)
+      await loadData()
+    } catch (error) {
+      console.error('Fiyat kuralı silinirken hata:', error)
+    }
+  }
+
+  const handleCalculate = async () => {
+    try {
+      setWorking(true)
+      const result = await PricingAPI.getProposals()
+      setProposals(result)
+      setSelected(new Set(result.map(p => p.product_id)))
+    } catch (error) {
+      console.error('Fiyat önerileri hesaplanırken hata:', error)
+      alert('Fiyat önerileri hesaplanamadı')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleApply = async () => {
+    const accepted = (proposals || []).filter(p => selected.has(p.product_id))
+    if (accepted.length === 0) return
+    if (!confirm(`${accepted.length} ürünün fiyatı güncellensin mi?`)) return
+
+    try {
+      setWorking(true)
+      const result = await PricingAPI.applyProposals(accepted)
+      alert(`${result.applied} ürünün fiyatı güncellendi`)
+      setProposals(null)
+      await loadData()
+    } catch (error) {
+      console.error('Fiyatlar uygulanırken hata:', error)
+      alert(`Fiyatlar uygulanamadı, hiçbir fiyat değişmedi: ${error instanceof Error ? error.message : 'Bilinmeyen hata'}`)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const toggleSelected = (productId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(productId)) {
+        next.delete(productId)
+      } else {
+        next.add(productId)
+      }
+      return next
+    })
+  }
+
+  const productName = (id?: string | null) => products.find(p => p.id === id)?.name || id || '-'
+  const categoryName = (id?: string | null) => categories.find(c => c.id === id)?.name || id || '-'
+
+  const describeConditions = (rule: PriceRule) => {
+    const parts: string[] = []
+    const { product_id, category_id, min_cost, max_cost } = rule.conditions || {}
+    if (product_id) parts.push(`Ürün: ${productName(product_id)}`)
+    if (category_id) parts.push(`Kategori: ${categoryName(category_id)}`)
+    if (min_cost !== undefined) parts.push(`Maliyet ≥ ₺${min_cost}`)
+    if (max_cost !== undefined) parts.push(`Maliyet ≤ ₺${max_cost}`)
+    return parts.length > 0 ? parts.join(' • ') : 'Tüm ürünler'
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Fiyatlandırma</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Fiyat kuralları reçete maliyetinden ürün fiyatı önerir; onaylanan öneriler toplu uygulanır
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={loadData}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RefreshIcon className="h-4 w-4" />
+            Yenile
+          </button>
+          <button
+            onClick={() => openRuleModal()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="h-4 w-4" />
+            Yeni Kural
+          </button>
+        </div>
+      </div>
+
+      {/* Rules */}
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Fiyat Kuralları</h2>
+          <p className="text-xs text-gray-500">Bir ürüne birden çok kural uyarsa ürün kuralı, sonra kategori kuralı, sonra genel kural geçerlidir</p>
+        </div>
+        {rules.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">Henüz fiyat kuralı yok</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {rules.map(rule => (
+              <div key={rule.id} className="p-4 flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {rule.name}
+                    {!rule.is_active && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-600">Pasif</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {RULE_TYPE_LABELS[rule.rule_type]}: {rule.value} • {describeConditions(rule)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => openRuleModal(rule)}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                    title="Düzenle"
+                  >
+                    <EditIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteRule(rule)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                    title="Sil"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Proposals */}
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Fiyat Önerileri</h2>
+            <p className="text-xs text-gray-500">Güncel hammadde fiyatları ve işçilik ile hesaplanır</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCalculate}
+              disabled={working}
+              className="px-3 py-2 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              Önerileri Hesapla
+            </button>
+            {proposals && proposals.length > 0 && (
+              <button
+                onClick={handleApply}
+                disabled={working || selected.size === 0}
+                className="flex items-center gap-1 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                <CheckIcon className="h-4 w-4" />
+                Seçilenleri Uygula ({selected.size})
+              </button>
+            )}
+          </div>
+        </div>
+
+        {proposals === null ? (
+          <p className="p-6 text-sm text-gray-500 text-center">Önerileri görmek için hesaplayın</p>
+        ) : proposals.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">Tüm fiyatlar kurallarla uyumlu</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.size === proposals.length}
+                      onChange={(e) => setSelected(e.target.checked ? new Set(proposals.map(p => p.product_id)) : new Set())}
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ürün</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kural</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Maliyet</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Mevcut Fiyat</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Önerilen</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fark</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Marj</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {proposals.map(proposal => (
+                  <tr key={proposal.product_id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(proposal.product_id)}
+                        onChange={() => toggleSelected(proposal.product_id)}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{proposal.product_name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{proposal.rule_name}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">{formatMoney(proposal.recipe_cost)}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">{formatMoney(proposal.current_price)}</td>
+                    <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900">{formatMoney(proposal.suggested_price)}</td>
+                    <td className={`px-4 py-3 text-right text-sm font-semibold ${proposal.difference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {proposal.difference > 0 ? '+' : ''}{formatMoney(proposal.difference)}
+                      {proposal.difference_percent !== null && (
+                        <span className="text-xs font-normal ml-1">(%{proposal.difference_percent.toFixed(1)})</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-500">
+                      {proposal.current_margin_percent !== null ? `%${proposal.current_margin_percent.toFixed(1)}` : '-'}
+                      {' → '}%{proposal.suggested_margin_percent.toFixed(1)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Fiyat Geçmişi</h2>
+        </div>
+        {history.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">Henüz fiyat değişikliği yok</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {history.map(change => (
+              <div key={change.id} className="px-4 py-3 flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{productName(change.product_id)}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(change.changed_at)}
+                    {change.changed_by && ` • ${change.changed_by}`}
+                    {change.price_rule_id && ` • ${rules.find(r => r.id === change.price_rule_id)?.name || 'Silinmiş kural'}`}
+                  </p>
+                </div>
+                <p className="text-gray-700">
+                  {formatMoney(change.old_price)} → <span className="font-semibold">{formatMoney(change.new_price)}</span>
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Rule Modal */}
+      {showRuleModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">{editingRule ? 'Kuralı Düzenle' : 'Yeni Fiyat Kuralı'}</h2>
+              <button onClick={() => setShowRuleModal(false)} className="text-gray-500 hover:text-gray-700">
+                <XIcon className="h-5 w-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSaveRule} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Kural Adı</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Kural Tipi</label>
+                  <select
+                    value={form.rule_type}
+                    onChange={(e) => setForm({ ...form, rule_type: e.target.value as PriceRuleType })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.values(PRICE_RULE_TYPES).map(type => (
+                      <option key={type} value={type}>{RULE_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Değer</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={form.value}
+                    onChange={(e) => setForm({ ...form, value: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Ürün</label>
+                  <select
+                    value={form.product_id}
+                    onChange={(e) => setForm({ ...form, product_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Tümü</option>
+                    {products.map(product => (
+                      <option key={product.id} value={product.id}>{product.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Kategori</label>
+                  <select
+                    value={form.category_id}
+                    onChange={(e) => setForm({ ...form, category_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Tümü</option>
+                    {categories.map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">En Düşük Maliyet (₺)</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={form.min_cost}
+                    onChange={(e) => setForm({ ...form, min_cost: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">En Yüksek Maliyet (₺)</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={form.max_cost}
+                    onChange={(e) => setForm({ ...form, max_cost: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                />
+                Aktif
+              </label>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowRuleModal(false)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  İptal
+                </button>
+                <button
+                  type="submit"
+                  disabled={working}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  Kaydet
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PricingManager
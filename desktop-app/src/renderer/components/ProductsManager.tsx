@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { DatabaseService } from '../services/database'
 import { supabase } from '../SupabaseClient'
 import { SearchIcon, FilterIcon, EyeIcon } from '../components/icons'
+import { getBomService, BomCost } from '../services/bomService'
 
 interface Product {
   id: string
@@ -50,6 +51,8 @@ export default function ProductsManager() {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set())
   const [showProductDetail, setShowProductDetail] = useState(false)
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
+  const [bomCost, setBomCost] = useState<BomCost | null>(null)
+  const [bomError, setBomError] = useState<string | null>(null)
 
   const db = new DatabaseService()
 
@@ -58,6 +61,23 @@ export default function ProductsManager() {
     loadCategories()
   }, [])
 
+  // Seçili ürünün yarı mamuller üzerinden hammadde açılımı
+  useEffect(() => {
+    setBomCost(null)
+    setBomError(null)
+    if (!selectedProduct) return
+
+    let cancelled = false
+    getBomService().getProductCost(selectedProduct.id)
+      .then(cost => { if (!cancelled) setBomCost(cost) })
+      .catch(error => {
+        console.error('Hammadde açılımı hesaplanırken hata:', error)
+        if (!cancelled) setBomError(error instanceof Error ? error.message : 'Hammadde açılımı hesaplanamadı')
+      })
+
+    return () => { cancelled = true }
+  }, [selectedProduct])
+
   const loadProducts = async () => {
     try {
       setLoading(true)
@@ -514,6 +534,37 @@ export default function ProductsManager() {
                   </div>
                 )}
 
+                {/* Hammadde Açılımı */}
+                {bomError && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    Hammadde açılımı hesaplanamadı: {bomError}
+                  </div>
+                )}
+                {bomCost && bomCost.lines.length > 0 && (
+                  <div>
+                    <h4 className="text-lg font-semibold text-gray-900 mb-3">
+                      Hammadde Açılımı ({bomCost.lines.length})
+                    </h4>
+                    <div className="bg-gray-50 rounded-lg p-4 space-y-2 max-h-64 overflow-y-auto">
+                      {bomCost.lines.map(line => (
+                        <div key={line.raw_material_id} className="flex justify-between text-sm">
+                          <span className="text-gray-900">{line.name}</span>
+                          <span className="text-gray-600">
+                            {Number(line.quantity.toFixed(3))} {line.unit || ''} × ₺{line.unit_price.toFixed(2)} =
+                            <span className="font-medium text-green-600 ml-1">₺{line.cost.toFixed(2)}</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="mt-3 p-3 bg-blue-50 rounded-lg">
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium text-blue-900">Toplam Malzeme Maliyeti:</span>
+                        <span className="text-lg font-bold text-blue-900">₺{bomCost.material_cost.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Ürün Resmi */}
                 {selectedProduct.image && (
                   <div>
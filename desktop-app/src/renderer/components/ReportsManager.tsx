@@ -13,6 +13,8 @@ import {
   ShoppingCartIcon, 
   BarChartIcon 
 } from './icons/index'
+import { PaymentAPI, CustomerAPI } from '../services/api'
+import { ReceivablesAging } from '../types'
 
 // Recharts imports
 import {
@@ -89,6 +91,7 @@ export const ReportsManager: React.FC = () => {
   const [loading, setLoading] = useState(true)
   const [reportType, setReportType] = useState('summary')
   const [dateRange, setDateRange] = useState('week') // week, month, year
+  const [receivables, setReceivables] = useState<ReceivablesAging | null>(null)
 
   useEffect(() => {
     loadReportData()
@@ -217,18 +220,12 @@ export const ReportsManager: React.FC = () => {
         .select('*')
         .order('createdAt', { ascending: false })
 
-      const { data: users, error: usersError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('role', 'CUSTOMER')
-
       const { data: rawMaterials, error: materialsError } = await supabase
         .from('raw_materials')
         .select('stock_quantity, min_stock_quantity, name')
 
       if (ordersError) throw ordersError
       if (productsError) throw productsError
-      if (usersError) throw usersError
       if (materialsError) throw materialsError
 
       // Calculate totals
@@ -248,15 +245,12 @@ export const ReportsManager: React.FC = () => {
       // Process monthly revenue data
       const monthlyRevenue = processMonthlyRevenueData(orders || [])
 
-      // Top customers by order count
-      const customerOrderCounts = (users || []).map((user: any) => ({
-        ...user,
-        orderCount: (orders || []).filter((order: any) => order.userId === user.id).length
-      })).filter((user: any) => user.orderCount > 0)
-
-      const topCustomers = customerOrderCounts
-        .sort((a: any, b: any) => b.orderCount - a.orderCount)
+      // Top customers by lifetime value
+      const topCustomers = (await CustomerAPI.getCustomers())
+        .filter(customer => customer.order_count > 0)
+        .sort((a, b) => b.lifetime_value - a.lifetime_value)
         .slice(0, 5)
+        .map(customer => ({ ...customer, orderCount: customer.order_count }))
 
       // Top products by stock
       const topProducts = (products || [])
@@ -288,6 +282,10 @@ export const ReportsManager: React.FC = () => {
         monthlySales,
         stockAlerts
       })
+
+      if (reportType === 'receivables') {
+        setReceivables(await PaymentAPI.getReceivablesAging())
+      }
     } catch (error) {
       console.error('Error loading report data:', error)
     } finally {
@@ -349,6 +347,7 @@ export const ReportsManager: React.FC = () => {
               <SelectItem value="sales">Satış Raporu</SelectItem>
               <SelectItem value="stock">Stok Raporu</SelectItem>
               <SelectItem value="customers">Müşteri Raporu</SelectItem>
+              <SelectItem value="receivables">Alacak Yaşlandırma</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -427,8 +426,8 @@ export const ReportsManager: React.FC = () => {
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm font-medium">{customer.orderCount}</p>
-                        <p className="text-xs text-gray-500">sipariş</p>
+                        <p className="text-sm font-medium">₺{customer.lifetime_value.toLocaleString('tr-TR')}</p>
+                        <p className="text-xs text-gray-500">{customer.orderCount} sipariş</p>
                       </div>
                     </div>
                   ))}
@@ -744,8 +743,10 @@ export const ReportsManager: React.FC = () => {
                     </div>
                   </div>
                   <div className="text-right">
-                    <p className="font-medium">{customer.orderCount} sipariş</p>
-                    <p className="text-sm text-gray-500">toplam sipariş</p>
+                    <p className="font-medium">₺{customer.lifetime_value.toLocaleString('tr-TR')}</p>
+                    <p className="text-sm text-gray-500">
+                      {customer.orderCount} sipariş · ort. ₺{customer.average_order_value.toLocaleString('tr-TR')}
+                    </p>
                   </div>
                 </div>
               ))}
@@ -758,6 +759,50 @@ export const ReportsManager: React.FC = () => {
           </CardContent>
         </Card>
       )}
+
+      {/* Receivables Aging Report */}
+      {reportType === 'receivables' && receivables && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {receivables.buckets.map(bucket => (
+              <Card key={bucket.key}>
+                <CardContent className="p-6">
+                  <p className="text-sm font-medium text-gray-600">{bucket.label}</p>
+                  <p className="text-2xl font-bold text-gray-900">₺{bucket.amount.toLocaleString('tr-TR', { minimumFractionDigits: 2 })}</p>
+                  <p className="text-sm text-gray-500">{bucket.count} sipariş</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Açık Alacaklar (Toplam ₺{receivables.total.toLocaleString('tr-TR', { minimumFractionDigits: 2 })})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {receivables.lines.map(line => (
+                  <div key={line.order_id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <p className="font-medium">{line.orderNumber || line.order_id}</p>
+                      <p className="text-sm text-gray-500">{line.customerName}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium">₺{line.outstanding.toFixed(2)}</p>
+                      <p className="text-sm text-gray-500">{line.days_outstanding} gün</p>
+                    </div>
+                  </div>
+                ))}
+                {receivables.lines.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-8">
+                    Açık alacak bulunmuyor
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   )
 }
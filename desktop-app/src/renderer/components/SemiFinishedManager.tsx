@@ -2,6 +2,10 @@ import React, { useState, useEffect } from 'react'
 import { DatabaseService } from '../services/database'
 import { supabase } from '../SupabaseClient'
 import { SearchIcon, PlusIcon, LinkIcon, EyeIcon, EditIcon, TrashIcon } from '../components/icons'
+import { getBomService } from '../services/bomService'
+import { MaterialPriceAPI } from '../services/api'
+import { getUnitService, compatibleUnits, UnitConversionError } from '../services/unitService'
+import { MaterialUnitConversion } from '../types'
 
 interface SemiFinished {
   id: string
@@ -35,12 +39,28 @@ interface ProductRelation {
   product?: Product
 }
 
+interface SemiFinishedComponent {
+  id: string
+  semi_finished_id: string
+  raw_material_id: string
+  quantity: number
+  unit: string
+  raw_material?: { id: string; name: string; stock_unit: string }
+}
+
 export default function SemiFinishedManager() {
   const [semiFinished, setSemiFinished] = useState<SemiFinished[]>([])
   const [products, setProducts] = useState<Product[]>([])
   const [suppliers, setSuppliers] = useState<any[]>([])
   const [supplierRelations, setSupplierRelations] = useState<any[]>([])
   const [relations, setRelations] = useState<ProductRelation[]>([])
+  const [components, setComponents] = useState<SemiFinishedComponent[]>([])
+  const [materials, setMaterials] = useState<{ id: string; name: string; stock_unit: string }[]>([])
+  const [componentsFor, setComponentsFor] = useState<SemiFinished | null>(null)
+  const [componentMaterialId, setComponentMaterialId] = useState('')
+  const [componentQuantity, setComponentQuantity] = useState(1)
+  const [componentUnit, setComponentUnit] = useState('')
+  const [conversions, setConversions] = useState<Map<string, MaterialUnitConversion[]>>(new Map())
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [showAddModal, setShowAddModal] = useState(false)
@@ -75,7 +95,10 @@ export default function SemiFinishedManager() {
         loadProducts(),
         loadSuppliers(),
         loadSupplierRelations(),
-        loadRelations()
+        loadRelations(),
+        loadComponents(),
+        loadMaterials(),
+        loadConversions()
       ])
     } catch (error) {
       console.error('Veri yüklenirken hata:', error)
@@ -165,6 +188,116 @@ export default function SemiFinishedManager() {
     }
   }
 
+  const loadComponents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('semi_finished_components')
+        .select(`
+          *,
+          raw_material:raw_materials!semi_finished_components_raw_material_id_fkey(id, name, stock_unit)
+        `)
+
+      if (error) throw error
+      setComponents(data || [])
+    } catch (error) {
+      console.error('Yarı mamul bileşenleri yüklenirken hata:', error)
+    }
+  }
+
+  const loadMaterials = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('raw_materials')
+        .select('id, name, stock_unit')
+        .order('name')
+
+      if (error) throw error
+      setMaterials(data || [])
+    } catch (error) {
+      console.error('Hammaddeler yüklenirken hata:', error)
+    }
+  }
+
+  const loadConversions = async () => {
+    try {
+      setConversions(await getUnitService().getAllConversions())
+    } catch (error) {
+      console.error('Birim dönüşümleri yüklenirken hata:', error)
+    }
+  }
+
+  const unitOptions = (materialId: string | null) => {
+    const material = materials.find(m => m.id === materialId)
+    return compatibleUnits(material?.stock_unit, materialId ? conversions.get(materialId) : [])
+  }
+
+  // Dönüştürülemeyen birimi kaydetmeden önce reddet
+  const checkUnit = async (materialId: string, unit: string): Promise<boolean> => {
+    try {
+      await getUnitService().assertConvertible(materialId, unit)
+      return true
+    } catch (error) {
+      if (error instanceof UnitConversionError) {
+        alert(`"${error.fromUnit}" birimi "${error.toUnit}" birimine dönüştürülemiyor. Önce malzeme için birim dönüşümü ekleyin.`)
+        return false
+      }
+      throw error
+    }
+  }
+
+  const openLinkModal = (materialId: string) => {
+    setSelectedSemiFinished(materialId)
+    setLinkUnit(materials.find(m => m.id === materialId)?.stock_unit || 'adet')
+    setShowLinkModal(true)
+  }
+
+  const handleAddComponent = async () => {
+    if (!componentsFor || !componentMaterialId || componentQuantity <= 0) return
+
+    try {
+      // Döngüsel reçeteyi engelle (A → B → A)
+      if (await getBomService().wouldCreateCycle(componentsFor.id, componentMaterialId)) {
+        alert('Bu bileşen döngüsel bir reçete oluşturur. Yarı mamul kendi bileşeni olamaz.')
+        return
+      }
+
+      const material = materials.find(m => m.id === componentMaterialId)
+      const unit = componentUnit || material?.stock_unit || 'adet'
+      if (!(await checkUnit(componentMaterialId, unit))) return
+
+      const { error } = await supabase
+        .from('semi_finished_components')
+        .insert([{
+          semi_finished_id: componentsFor.id,
+          raw_material_id: componentMaterialId,
+          quantity: componentQuantity,
+          unit
+        }])
+
+      if (error) throw error
+      await loadComponents()
+      setComponentMaterialId('')
+      setComponentQuantity(1)
+      setComponentUnit('')
+    } catch (error) {
+      console.error('Bileşen eklenirken hata:', error)
+    }
+  }
+
+  const handleDeleteComponent = async (componentId: string) => {
+    try {
+      const { error } = await supabase
+        .from('semi_finished_components')
+        .delete()
+        .eq('id', componentId)
+
+      if (error) throw error
+      await loadComponents()
+    } catch (error) {
+      console.error('Bileşen silinirken hata:', error)
+    }
+  }
+
   const handleAddSemiFinished = async (formData: any) => {
     try {
       const { supplier_ids, ...semiFinishedData } = formData
@@ -205,7 +338,7 @@ export default function SemiFinishedManager() {
     if (!editingItem) return
 
     try {
-      const { supplier_ids, ...semiFinishedData } = formData
+      const { supplier_ids, unit_price_try, ...semiFinishedData } = formData
       
       // Yarı mamul güncelle
       const { error } = await supabase
@@ -215,24 +348,42 @@ export default function SemiFinishedManager() {
 
       if (error) throw error
 
-      // Mevcut tedarikçi ilişkilerini sil
-      const { error: deleteError } = await supabase
-        .from('raw_materials_suppliers')
-        .delete()
-        .eq('raw_material_id', editingItem.id)
+      // Fiyat değiştiyse fiyat geçmişine kaydederek güncelle
+      if (unit_price_try !== editingItem.unit_price_try) {
+        await MaterialPriceAPI.changePrice(editingItem.id, {
+          price: unit_price_try,
+          supplier_id: supplier_ids?.length === 1 ? supplier_ids[0] : null
+        })
+      }
 
-      if (deleteError) throw deleteError
+      // Sadece kaldırılan tedarikçileri sil; kalanların fiyat ve teslim koşulları korunur
+      const currentSupplierIds = supplierRelations
+        .filter(rel => rel.raw_material_id === editingItem.id)
+        .map(rel => rel.supplier_id as string)
+      const selectedSupplierIds: string[] = supplier_ids || []
+      const removedSupplierIds = currentSupplierIds.filter(id => !selectedSupplierIds.includes(id))
+      const addedSupplierIds = selectedSupplierIds.filter(id => !currentSupplierIds.includes(id))
+
+      if (removedSupplierIds.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('raw_materials_suppliers')
+          .delete()
+          .eq('raw_material_id', editingItem.id)
+          .in('supplier_id', removedSupplierIds)
+
+        if (deleteError) throw deleteError
+      }
 
       // Yeni tedarikçi ilişkilerini ekle
-      if (supplier_ids && supplier_ids.length > 0) {
-        const supplierRelations = supplier_ids.map((supplierId: string) => ({
+      if (addedSupplierIds.length > 0) {
+        const newRelations = addedSupplierIds.map((supplierId: string) => ({
           raw_material_id: editingItem.id,
           supplier_id: supplierId
         }))
 
         const { error: relationError } = await supabase
           .from('raw_materials_suppliers')
-          .insert(supplierRelations)
+          .insert(newRelations)
 
         if (relationError) throw relationError
       }
@@ -270,6 +421,8 @@ export default function SemiFinishedManager() {
     if (!selectedSemiFinished || selectedProducts.length === 0) return
 
     try {
+      if (!(await checkUnit(selectedSemiFinished, linkUnit))) return
+
       // Seçilen tüm ürünler için ayrı ayrı bağlantı oluştur
       const relations = selectedProducts.map(productId => ({
         product_id: productId,
@@ -512,15 +665,19 @@ export default function SemiFinishedManager() {
                 {!bulkDeleteMode && (
                   <div className="flex gap-2">
                     <button
-                      onClick={() => {
-                        setSelectedSemiFinished(item.id)
-                        setShowLinkModal(true)
-                      }}
+                      onClick={() => openLinkModal(item.id)}
                       className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
                       title="Ürün Bağla"
                     >
                       <LinkIcon className="h-4 w-4" />
                     </button>
+                    <button
+                      onClick={() => setComponentsFor(item)}
+                      className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                      title="Bileşenler"
+                    >
+                      <PlusIcon className="h-4 w-4" />
+                    </button>
                     <button 
                       onClick={() => handleEditClick(item)}
                       className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
@@ -577,6 +734,23 @@ export default function SemiFinishedManager() {
                 </div>
               </div>
 
+              {/* Components */}
+              {(() => {
+                const itemComponents = components.filter(c => c.semi_finished_id === item.id)
+                return itemComponents.length > 0 && (
+                  <div className="mb-4">
+                    <p className="text-sm font-medium text-gray-700 mb-1">Bileşenler:</p>
+                    <div className="flex flex-wrap gap-1">
+                      {itemComponents.map(component => (
+                        <span key={component.id} className="px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded-full">
+                          {component.raw_material?.name} × {component.quantity} {component.unit}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })()}
+
               {/* Supplier Info */}
               {(() => {
                 const itemSupplierRelations = supplierRelations.filter(rel => rel.raw_material_id === item.id)
@@ -678,10 +852,7 @@ export default function SemiFinishedManager() {
                 <div className="flex items-center justify-between mb-3">
                   <h4 className="font-medium text-gray-900">Bağlı Ürünler</h4>
                   <button
-                    onClick={() => {
-                      setSelectedSemiFinished(editingItem.id)
-                      setShowLinkModal(true)
-                    }}
+                    onClick={() => openLinkModal(editingItem.id)}
                     className="text-xs bg-blue-100 text-blue-700 px-3 py-1 rounded hover:bg-blue-200 transition-colors"
                   >
                     + Ürün Bağla
@@ -721,12 +892,98 @@ export default function SemiFinishedManager() {
                     )
                   })()}
                 </div>
+
+                <UnitConversionsSection
+                  material={editingItem}
+                  conversions={conversions.get(editingItem.id) || []}
+                  onChanged={loadConversions}
+                />
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {/* Components Modal */}
+      {componentsFor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-1">Bileşenler - {componentsFor.name}</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              1 {componentsFor.stock_unit || 'adet'} üretmek için gereken hammadde ve yarı mamuller
+            </p>
+
+            <div className="space-y-2 mb-4">
+              {components.filter(c => c.semi_finished_id === componentsFor.id).map(component => (
+                <div key={component.id} className="flex items-center justify-between bg-gray-50 p-2 rounded">
+                  <span className="text-sm">
+                    {component.raw_material?.name} — {component.quantity} {component.unit}
+                  </span>
+                  <button
+                    onClick={() => handleDeleteComponent(component.id)}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    title="Bileşeni Kaldır"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              {components.every(c => c.semi_finished_id !== componentsFor.id) && (
+                <p className="text-sm text-gray-500">Bileşen yok; stoktan doğrudan düşülür.</p>
+              )}
+            </div>
+
+            <div className="flex gap-2 mb-6">
+              <select
+                value={componentMaterialId}
+                onChange={(e) => {
+                  setComponentMaterialId(e.target.value)
+                  setComponentUnit(materials.find(m => m.id === e.target.value)?.stock_unit || '')
+                }}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Malzeme seçin...</option>
+                {materials.filter(m => m.id !== componentsFor.id).map(material => (
+                  <option key={material.id} value={material.id}>{material.name}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={componentQuantity}
+                onChange={(e) => setComponentQuantity(parseFloat(e.target.value) || 0)}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <select
+                value={componentUnit}
+                onChange={(e) => setComponentUnit(e.target.value)}
+                disabled={!componentMaterialId}
+                className="w-24 px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {unitOptions(componentMaterialId || null).map(unit => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddComponent}
+                disabled={!componentMaterialId || componentQuantity <= 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Ekle
+              </button>
+            </div>
+
+            <button
+              onClick={() => setComponentsFor(null)}
+              className="w-full px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors"
+            >
+              Kapat
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Link Products Modal */}
       {showLinkModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -900,13 +1157,15 @@ export default function SemiFinishedManager() {
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Birim
                   </label>
-                  <input
-                    type="text"
+                  <select
                     value={linkUnit}
                     onChange={(e) => setLinkUnit(e.target.value)}
                     className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="adet"
-                  />
+                  >
+                    {unitOptions(selectedSemiFinished).map(unit => (
+                      <option key={unit} value={unit}>{unit}</option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -1216,3 +1475,84 @@ function AddSemiFinishedForm({ onSubmit, onCancel, initialData, suppliers, suppl
     </form>
   )
 }
+
+// Malzemeye özel birimler (ör. 1 rulo = 25 m)
+function UnitConversionsSection({ material, conversions, onChanged }: {
+  material: SemiFinished
+  conversions: MaterialUnitConversion[]
+  onChanged: () => Promise<void>
+}) {
+  const [unit, setUnit] = useState('')
+  const [factor, setFactor] = useState(1)
+
+  const handleAdd = async () => {
+    try {
+      await getUnitService().saveConversion(material.id, unit, factor)
+      setUnit('')
+      setFactor(1)
+      await onChanged()
+    } catch (error) {
+      console.error('Birim dönüşümü kaydedilirken hata:', error)
+      alert(error instanceof Error ? error.message : 'Birim dönüşümü kaydedilemedi')
+    }
+  }
+
+  const handleDelete = async (conversionId: string) => {
+    try {
+      await getUnitService().deleteConversion(conversionId)
+      await onChanged()
+    } catch (error) {
+      console.error('Birim dönüşümü silinirken hata:', error)
+    }
+  }
+
+  return (
+    <div className="mt-6">
+      <h4 className="font-medium text-gray-900 mb-1">Birim Dönüşümleri</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        kg/g, m/cm gibi birimler otomatik dönüştürülür. Rulo, paket gibi birimler için 1 birimin kaç {material.stock_unit || 'adet'} olduğunu girin.
+      </p>
+      <div className="space-y-2 mb-3">
+        {conversions.map(conversion => (
+          <div key={conversion.id} className="flex items-center justify-between bg-gray-50 p-2 rounded">
+            <span className="text-sm">1 {conversion.unit} = {conversion.factor} {material.stock_unit || 'adet'}</span>
+            <button
+              onClick={() => handleDelete(conversion.id)}
+              className="p-1 text-red-600 hover:bg-red-50 rounded"
+              title="Dönüşümü Kaldır"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-600">1</span>
+        <input
+          type="text"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value)}
+          placeholder="rulo"
+          className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-600">=</span>
+        <input
+          type="number"
+          min="0"
+          step="0.001"
+          value={factor}
+          onChange={(e) => setFactor(parseFloat(e.target.value) || 0)}
+          className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-600">{material.stock_unit || 'adet'}</span>
+        <button
+          onClick={handleAdd}
+          disabled={!unit.trim() || factor <= 0}
+          className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          Ekle
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,467 @@
+import React, { useState, useEffect } from 'react'
+import { StockCountAPI, StockAPI, Supplier } from '../services/api'
+import { stockCountToCsv } from '../services/stockCountService'
+import { StockCountSession, StockCountVariance } from '../types'
+import { STOCK_COUNT_SCOPES, StockCountScope } from '../constants'
+import {
+  RefreshIcon,
+  PlusIcon,
+  DownloadIcon,
+  CheckIcon,
+  XIcon,
+  ClipboardDocumentListIcon
+} from './icons'
+
+const formatQuantity = (value: number) => Number(value.toFixed(3)).toLocaleString('tr-TR')
+
+const formatDate = (date?: string | null) =>
+  date ? new Date(date).toLocaleString('tr-TR') : '-'
+
+const SCOPE_LABELS: Record<StockCountScope, string> = {
+  ALL: 'Tüm malzemeler',
+  RAW: 'Hammaddeler',
+  SEMI_FINISHED: 'Yarı mamuller'
+}
+
+const STATUS_LABELS: Record<string, { text: string; className: string }> = {
+  OPEN: { text: 'Devam Ediyor', className: 'bg-blue-100 text-blue-800' },
+  POSTED: { text: 'İşlendi', className: 'bg-green-100 text-green-800' },
+  CANCELLED: { text: 'İptal', className: 'bg-gray-100 text-gray-800' }
+}
+
+export const StockCountManager: React.FC = () => {
+  const [sessions, setSessions] = useState<StockCountSession[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [activeSession, setActiveSession] = useState<StockCountSession | null>(null)
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [variances, setVariances] = useState<StockCountVariance[] | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [showNewModal, setShowNewModal] = useState(false)
+  const [newSession, setNewSession] = useState<{ name: string; scope: StockCountScope; supplier_id: string }>({
+    name: '',
+    scope: STOCK_COUNT_SCOPES.ALL,
+    supplier_id: ''
+  })
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [sessionList, supplierList] = await Promise.all([
+        StockCountAPI.getSessions(),
+        StockAPI.getSuppliers()
+      ])
+      setSessions(sessionList)
+      setSuppliers(supplierList)
+    } catch (error) {
+      console.error('Sayım oturumları yüklenirken hata:', error)
+      setError('Sayım oturumları yüklenemedi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openSession = (session: StockCountSession) => {
+    setActiveSession(session)
+    setVariances(null)
+    setCounts(Object.fromEntries(session.lines_json.map(line => [
+      line.raw_material_id,
+      line.counted_quantity === null ? '' : String(line.counted_quantity)
+    ])))
+  }
+
+  const countEntries = () =>
+    Object.entries(counts).map(([raw_material_id, value]) => ({
+      raw_material_id,
+      counted_quantity: value.trim() === '' ? null : Number(value.replace(',', '.'))
+    }))
+
+  const handleStart = async () => {
+    try {
+      setSaving(true)
+      const session = await StockCountAPI.startSession({
+        name: newSession.name,
+        scope: newSession.scope,
+        supplier_id: newSession.supplier_id || null
+      })
+      setShowNewModal(false)
+      setNewSession({ name: '', scope: STOCK_COUNT_SCOPES.ALL, supplier_id: '' })
+      openSession(session)
+      await loadData()
+    } catch (error) {
+      console.error('Sayım başlatılırken hata:', error)
+      alert('Sayım başlatılırken hata oluştu!')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async (): Promise<StockCountSession | null> => {
+    if (!activeSession) return null
+    try {
+      setSaving(true)
+      const session = await StockCountAPI.saveCounts(activeSession.id, countEntries())
+      setActiveSession(session)
+      setSessions(prev => prev.map(s => s.id === session.id ? session : s))
+      return session
+    } catch (error) {
+      console.error('Sayım kaydedilirken hata:', error)
+      alert('Sayım kaydedilirken hata oluştu! Miktarları kontrol edin.')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReview = async () => {
+    const session = await handleSave()
+    if (!session) return
+    try {
+      setVariances(await StockCountAPI.getVariances(session.id))
+    } catch (error) {
+      console.error('Sayım farkları hesaplanırken hata:', error)
+    }
+  }
+
+  const handlePost = async () => {
+    if (!activeSession) return
+    const session = await handleSave()
+    if (!session) return
+
+    const uncounted = session.lines_json.filter(line => line.counted_quantity === null).length
+    const message = uncounted > 0
+      ? `${uncounted} malzeme sayılmadı ve değiştirilmeyecek. Farklar stoka işlensin mi?`
+      : 'Farklar stoka işlensin mi?'
+    if (!confirm(message)) return
+
+    try {
+      setSaving(true)
+      const result = await StockCountAPI.postSession(session.id)
+      alert(`${result.variances.length} malzemede düzeltme yapıldı.`)
+      setActiveSession(null)
+      await loadData()
+    } catch (error) {
+      console.error('Sayım işlenirken hata:', error)
+      alert('Sayım işlenirken hata oluştu! Stok değiştirilmedi.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async (session: StockCountSession) => {
+    if (!confirm(`"${session.name}" sayımı iptal edilsin mi?`)) return
+    try {
+      await StockCountAPI.cancelSession(session.id)
+      if (activeSession?.id === session.id) {
+        setActiveSession(null)
+      }
+      await loadData()
+    } catch (error) {
+      console.error('Sayım iptal edilirken hata:', error)
+    }
+  }
+
+  const handleExport = async (session: StockCountSession) => {
+    try {
+      const sessionVariances = activeSession?.id === session.id && variances
+        ? variances
+        : await StockCountAPI.getVariances(session.id)
+      const blob = new Blob([stockCountToCsv(session, sessionVariances)], { type: 'text/csv;charset=utf-8' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `stok-sayimi-${session.name.replace(/\s+/g, '-')}-${session.created_at.split('T')[0]}.csv`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Sayım dışa aktarılırken hata:', error)
+    }
+  }
+
+  const supplierName = (supplierId: string | null) =>
+    suppliers.find(supplier => supplier.id === supplierId)?.name
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  const varianceById = new Map((variances || []).map(line => [line.raw_material_id, line]))
+  const countedCount = Object.values(counts).filter(value => value.trim() !== '').length
+  const totalVarianceValue = (variances || []).reduce((sum, line) => sum + line.variance_value, 0)
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Stok Sayımı</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Fiziksel sayım girin, farkları inceleyin ve düzeltme hareketi olarak işleyin
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={loadData}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RefreshIcon className="h-4 w-4" />
+            Yenile
+          </button>
+          <button
+            onClick={() => setShowNewModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="h-4 w-4" />
+            Yeni Sayım
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {activeSession ? (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{activeSession.name}</h2>
+              <p className="text-xs text-gray-500">
+                {SCOPE_LABELS[activeSession.scope]}
+                {activeSession.supplier_id && ` • ${supplierName(activeSession.supplier_id) || 'Tedarikçi'}`}
+                {' • '}{countedCount}/{activeSession.lines_json.length} sayıldı
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setActiveSession(null)}
+                className="px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Kapat
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-3 py-2 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                Kaydet
+              </button>
+              <button
+                onClick={handleReview}
+                disabled={saving}
+                className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Farkları İncele
+              </button>
+              <button
+                onClick={() => handleExport(activeSession)}
+                className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <DownloadIcon className="h-4 w-4" />
+                CSV
+              </button>
+              <button
+                onClick={handlePost}
+                disabled={saving || countedCount === 0}
+                className="flex items-center gap-1 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                <CheckIcon className="h-4 w-4" />
+                Farkları İşle
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Malzeme</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Başlangıç Stoku</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Sayılan</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fark</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fark Tutarı</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {activeSession.lines_json.map(line => {
+                  const variance = varianceById.get(line.raw_material_id)
+                  return (
+                    <tr key={line.raw_material_id} className="hover:bg-gray-50">
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{line.material_name}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-right text-sm text-gray-500">
+                        {formatQuantity(line.expected_quantity)} {line.unit || ''}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-right">
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={counts[line.raw_material_id] ?? ''}
+                          onChange={(e) => setCounts(prev => ({ ...prev, [line.raw_material_id]: e.target.value }))}
+                          placeholder="-"
+                          className="w-28 px-2 py-1 text-right border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </td>
+                      <td className={`px-6 py-3 whitespace-nowrap text-right text-sm font-semibold ${
+                        !variance || variance.variance === 0 ? 'text-gray-500' : variance.variance < 0 ? 'text-red-600' : 'text-green-600'
+                      }`}>
+                        {variance ? `${variance.variance > 0 ? '+' : ''}${formatQuantity(variance.variance)}` : '-'}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-right text-sm text-gray-700">
+                        {variance ? `₺${variance.variance_value.toFixed(2)}` : '-'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+              {variances && (
+                <tfoot className="bg-gray-50">
+                  <tr>
+                    <td colSpan={4} className="px-6 py-3 text-right text-sm font-medium text-gray-700">Toplam fark tutarı</td>
+                    <td className={`px-6 py-3 text-right text-sm font-semibold ${totalVarianceValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      ₺{totalVarianceValue.toFixed(2)}
+                    </td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Sayım Oturumları</h2>
+          </div>
+          {sessions.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              <ClipboardDocumentListIcon className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+              <p className="text-sm">Henüz stok sayımı yapılmadı</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {sessions.map(session => {
+                const status = STATUS_LABELS[session.status] || STATUS_LABELS.OPEN
+                const counted = session.lines_json.filter(line => line.counted_quantity !== null).length
+                return (
+                  <div key={session.id} className="p-4 flex justify-between items-center">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-900">{session.name}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{status.text}</span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {SCOPE_LABELS[session.scope]}
+                        {session.supplier_id && ` • ${supplierName(session.supplier_id) || 'Tedarikçi'}`}
+                        {' • '}{counted}/{session.lines_json.length} sayıldı
+                        {' • '}Başlangıç: {formatDate(session.created_at)}
+                        {session.posted_at && ` • İşlendi: ${formatDate(session.posted_at)}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleExport(session)}
+                        title="CSV olarak dışa aktar"
+                        className="p-2 text-gray-600 hover:text-gray-900 transition-colors"
+                      >
+                        <DownloadIcon className="h-4 w-4" />
+                      </button>
+                      {session.status === 'OPEN' && (
+                        <>
+                          <button
+                            onClick={() => handleCancel(session)}
+                            title="Sayımı iptal et"
+                            className="p-2 text-red-600 hover:text-red-800 transition-colors"
+                          >
+                            <XIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => openSession(session)}
+                            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            Devam Et
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showNewModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Yeni Stok Sayımı</h3>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Sayım Adı</label>
+                <input
+                  type="text"
+                  value={newSession.name}
+                  onChange={(e) => setNewSession(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Örn. Ay sonu sayımı"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Kapsam</label>
+                <select
+                  value={newSession.scope}
+                  onChange={(e) => setNewSession(prev => ({ ...prev, scope: e.target.value as StockCountScope }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {Object.values(STOCK_COUNT_SCOPES).map(scope => (
+                    <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Tedarikçi</label>
+                <select
+                  value={newSession.supplier_id}
+                  onChange={(e) => setNewSession(prev => ({ ...prev, supplier_id: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Tüm tedarikçiler</option>
+                  {suppliers.map(supplier => (
+                    <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={handleStart}
+                disabled={saving || !newSession.name.trim()}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Sayımı Başlat
+              </button>
+              <button
+                onClick={() => setShowNewModal(false)}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors"
+              >
+                İptal
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default StockCountManager
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react'
 import { DatabaseService } from '../services/database'
 import { supabase } from '../SupabaseClient'
+import { StockAPI } from '../services/api'
+import { MaterialAvailability, MaterialForecast } from '../types'
+import { LedgerCheckModal } from './LedgerCheckModal'
+import { MaterialPricePanel } from './MaterialPricePanel'
 import { 
   XIcon, 
   AlertTriangleIcon, 
@@ -44,6 +48,7 @@ interface SemiFinished {
   is_semi_finished: boolean
   description?: string
   supplier_id?: string
+  lead_time_days?: number | null
   supplier?: {
     id: string
     name: string
@@ -62,7 +67,7 @@ interface Category {
 type StockItem = Product | SemiFinished
 type StockItemType = 'product' | 'semi_finished'
 
-type ActiveView = 'dashboard' | 'stock' | 'orders' | 'suppliers' | 'products' | 'semi-finished' | 'reports' | 'settings' | 'test'
+type ActiveView = 'dashboard' | 'stock' | 'orders' | 'suppliers' | 'products' | 'semi-finished' | 'mrp' | 'stock-count' | 'reports' | 'settings' | 'test'
 
 interface StockManagerProps {
   onNavigate?: (view: ActiveView) => void
@@ -85,6 +90,9 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
   const [adjustmentAmount, setAdjustmentAmount] = useState<number>(0)
   const [stockMovements, setStockMovements] = useState<any[]>([])
   const [dashboardAlerts, setDashboardAlerts] = useState<any[]>([])
+  const [availability, setAvailability] = useState<Map<string, MaterialAvailability>>(new Map())
+  const [forecast, setForecast] = useState<MaterialForecast | null>(null)
+  const [showLedgerModal, setShowLedgerModal] = useState(false)
 
   useEffect(() => {
     loadData()
@@ -101,7 +109,8 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
         loadProducts(),
         loadSemiFinished(),
         loadCategories(),
-        loadDashboardAlerts()
+        loadDashboardAlerts(),
+        loadAvailability()
       ])
     } catch (error) {
       console.error('Veri yüklenirken hata:', error)
@@ -150,6 +159,31 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
     }
   }
 
+  // Eldeki / rezerve / kullanılabilir stok
+  const loadAvailability = async () => {
+    try {
+      const data = await StockAPI.getStockAvailability()
+      setAvailability(new Map(data.map(item => [item.raw_material_id, item])))
+    } catch (error) {
+      console.error('Stok rezervasyonları yüklenirken hata:', error)
+    }
+  }
+
+  // Tüketim tahmini yükle (sadece yarı mamuller için)
+  const loadForecast = async (item: SemiFinished) => {
+    setForecast(null)
+    try {
+      const [data] = await StockAPI.getStockForecasts([{
+        id: item.id,
+        stock_quantity: item.stock_quantity,
+        lead_time_days: item.lead_time_days ?? null
+      }])
+      setForecast(data || null)
+    } catch (error) {
+      console.error('Tüketim tahmini yüklenirken hata:', error)
+    }
+  }
+
   // Stok hareket geçmişi yükle
   const loadStockMovements = async (itemId: string) => {
     try {
@@ -304,7 +338,7 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
           .insert({
             raw_material_id: item.id,
             movement_type: movementType,
-            quantity: movementType === 'OUT' ? -Math.abs(adjustmentAmount) : Math.abs(adjustmentAmount),
+            quantity: Math.abs(adjustmentAmount),
             unit: (item as SemiFinished).stock_unit,
             reason: `Stok güncellemesi: ${movementType}`
           })
@@ -331,6 +365,11 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
   const handleStockAdjustment = (item: StockItem) => {
     setSelectedItem(item)
     setShowDetailModal(true)
+    if (selectedType === 'semi_finished') {
+      loadForecast(item as SemiFinished)
+    } else {
+      setForecast(null)
+    }
   }
 
   const getItemStock = (item: StockItem): number => {
@@ -373,6 +412,15 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
             <span className="hidden sm:inline">Tedarikçiler</span>
           </button>
 
+          <button
+            onClick={() => setShowLedgerModal(true)}
+            className="flex items-center gap-2 px-3 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            title="Stok Defteri Kontrolü"
+          >
+            <ClipboardDocumentListIcon className="h-4 w-4" />
+            <span className="hidden sm:inline">Defter Kontrolü</span>
+          </button>
+
           <button
             onClick={loadData}
             disabled={loading}
@@ -586,6 +634,14 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
                       <div className="text-sm text-gray-900">
                         {getItemStock(item)} {getItemUnit(item)}
                       </div>
+                      {selectedType === 'semi_finished' && (availability.get(item.id)?.reserved || 0) > 0 && (
+                        <div className="text-xs text-gray-500">
+                          Rezerve: {availability.get(item.id)!.reserved} • Kullanılabilir:{' '}
+                          <span className={availability.get(item.id)!.available < 0 ? 'text-red-600 font-medium' : 'text-green-700'}>
+                            {availability.get(item.id)!.available}
+                          </span>
+                        </div>
+                      )}
                       {selectedType === 'semi_finished' && (item as SemiFinished).max_stock_quantity && (
                         <div className="text-xs text-gray-500">
                           Max: {(item as SemiFinished).max_stock_quantity} {getItemUnit(item)}
@@ -657,10 +713,7 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
                           </button>
                         )}
                         <button
-                          onClick={() => {
-                            setSelectedItem(item)
-                            setShowDetailModal(true)
-                          }}
+                          onClick={() => handleStockAdjustment(item)}
                           className="text-gray-600 hover:text-gray-900 transition-colors"
                           title="Detaylar"
                         >
@@ -691,7 +744,7 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
       {/* Stok Düzenleme Modal */}
       {showDetailModal && selectedItem && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+          <div className={`bg-white rounded-lg p-6 w-full mx-4 max-h-[90vh] overflow-y-auto ${selectedType === 'semi_finished' ? 'max-w-2xl' : 'max-w-md'}`}>
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
               Stok Düzenle - {selectedItem.name}
             </h3>
@@ -721,6 +774,54 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
+
+              {selectedType === 'semi_finished' && forecast && (
+                <div className={`rounded-lg border p-3 text-sm ${forecast.runs_out_before_delivery ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'}`}>
+                  <div className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+                    <ChartBarIcon className="h-4 w-4" />
+                    Tüketim Tahmini
+                    <span className="text-xs font-normal text-gray-500">
+                      ({forecast.method === 'SEASONAL' ? 'Mevsimsel' : 'Hareketli ortalama'})
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-700">
+                    <span>Günlük tüketim (ort.)</span>
+                    <span className="text-right">{forecast.moving_average_daily.toFixed(2)} {getItemUnit(selectedItem)}</span>
+                    {forecast.seasonal_daily !== null && (
+                      <>
+                        <span>Günlük tüketim (mevsimsel)</span>
+                        <span className="text-right">{forecast.seasonal_daily.toFixed(2)} {getItemUnit(selectedItem)}</span>
+                      </>
+                    )}
+                    <span>Tükenmeye kalan</span>
+                    <span className="text-right">
+                      {forecast.days_until_stockout === null
+                        ? 'Öngörülmüyor'
+                        : `${Math.floor(forecast.days_until_stockout)} gün`}
+                    </span>
+                    <span>Sonraki teslimat</span>
+                    <span className="text-right">{new Date(forecast.next_delivery_date).toLocaleDateString('tr-TR')}</span>
+                  </div>
+                  {forecast.runs_out_before_delivery && forecast.stockout_date && (
+                    <div className="mt-2 flex items-center gap-1 text-red-700">
+                      <AlertTriangleIcon className="h-4 w-4" />
+                      Stok {new Date(forecast.stockout_date).toLocaleDateString('tr-TR')} tarihinde, teslimattan önce tükenecek
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {selectedType === 'semi_finished' && (
+                <MaterialPricePanel
+                  materialId={selectedItem.id}
+                  unit={getItemUnit(selectedItem)}
+                  currentPrice={getItemPrice(selectedItem)}
+                  onChanged={(price) => {
+                    setSelectedItem({ ...(selectedItem as SemiFinished), unit_price_try: price })
+                    loadSemiFinished()
+                  }}
+                />
+              )}
             </div>
 
             <div className="flex gap-3 mt-6">
@@ -735,6 +836,7 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
                   setShowDetailModal(false)
                   setSelectedItem(null)
                   setAdjustmentAmount(0)
+                  setForecast(null)
                 }}
                 className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors"
               >
@@ -745,6 +847,14 @@ export const StockManager: React.FC<StockManagerProps> = ({ onNavigate }) => {
         </div>
       )}
 
+      {/* Stok Defteri Kontrolü Modal */}
+      {showLedgerModal && (
+        <LedgerCheckModal
+          onClose={() => setShowLedgerModal(false)}
+          onFixed={loadData}
+        />
+      )}
+
       {/* Stok Hareket Geçmişi Modal */}
       {showMovementModal && selectedItem && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
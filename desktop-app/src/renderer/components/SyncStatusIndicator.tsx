@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { useConnectionStatus } from '../stores/appStore'
+import { getSyncService, changeColumn } from '../services/syncService'
+import { ErrorHandler } from '../utils/errorHandler'
+import type { SyncConflict } from '../types/electron'
+
+const STATUS_LABELS = {
+  connected: { text: 'Çevrimiçi', className: 'bg-green-100 text-green-800' },
+  connecting: { text: 'Eşitleniyor...', className: 'bg-blue-100 text-blue-800' },
+  disconnected: { text: 'Çevrimdışı', className: 'bg-red-100 text-red-800' },
+  error: { text: 'Eşitleme Hatası', className: 'bg-orange-100 text-orange-800' }
+} as const
+
+const OPERATION_LABELS = {
+  insert: 'Ekleme',
+  update: 'Güncelleme',
+  delete: 'Silme'
+} as const
+
+// Web sitesi tabloları sürümü "updatedAt" kolonunda tutar (bkz. changeColumn)
+function remoteLabel(conflict: SyncConflict): string {
+  if (!conflict.remote) return 'Kayıt sunucudan silinmiş'
+  const version = conflict.remote[changeColumn(conflict.table) || '']
+  return version ? `Sunucuda güncellendi: ${new Date(version).toLocaleString('tr-TR')}` : 'Kayıt sunucuda değiştirilmiş'
+}
+
+export const SyncStatusIndicator: React.FC = () => {
+  const { connectionStatus, syncStatus, syncNow } = useConnectionStatus()
+  const [isOpen, setIsOpen] = useState(false)
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const dropdownRef = useRef<HTMLDivElement>(null)
+  const syncService = getSyncService()
+
+  // Çatışmaları panel açıldığında ve her eşitlemeden sonra yükle
+  useEffect(() => {
+    if (!isOpen) return
+    syncService.getConflicts().then(setConflicts).catch(error => {
+      ErrorHandler.handle(error, 'SyncStatusIndicator.loadConflicts')
+    })
+  }, [isOpen, syncStatus.conflicts, syncStatus.lastSyncedAt])
+
+  // Dropdown dışına tıklama kontrolü
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [])
+
+  const resolve = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    try {
+      if (keep === 'local') await syncService.keepLocal(conflict)
+      else await syncService.keepRemote(conflict)
+      setConflicts(prev => prev.filter(c => c.id !== conflict.id))
+      await syncNow()
+    } catch (error) {
+      ErrorHandler.handle(error, 'SyncStatusIndicator.resolve')
+    }
+  }
+
+  const label = STATUS_LABELS[connectionStatus]
+  const badgeCount = syncStatus.pending + syncStatus.conflicts
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${label.className}`}
+        title="Eşitleme durumu"
+      >
+        {label.text}
+        {badgeCount > 0 && (
+          <span className="ml-1 font-semibold">
+            ({syncStatus.conflicts > 0 ? `${syncStatus.conflicts} çatışma` : `${syncStatus.pending} bekliyor`})
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50 p-4 space-y-3">
+          {!syncService.isAvailable() ? (
+            <p className="text-sm text-gray-600">Yerel veri deposu yalnızca masaüstü uygulamasında kullanılabilir.</p>
+          ) : (
+            <>
+              <div className="text-sm text-gray-700 space-y-1">
+                <div className="flex justify-between">
+                  <span>Gönderilmeyi bekleyen</span>
+                  <span className="font-medium">{syncStatus.pending}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Son eşitleme</span>
+                  <span className="font-medium">
+                    {syncStatus.lastSyncedAt ? new Date(syncStatus.lastSyncedAt).toLocaleString('tr-TR') : '-'}
+                  </span>
+                </div>
+              </div>
+
+              <button
+                onClick={() => syncNow()}
+                disabled={connectionStatus === 'connecting'}
+                className="w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Şimdi Eşitle
+              </button>
+
+              {conflicts.length > 0 && (
+                <div className="border-t pt-3 space-y-2 max-h-64 overflow-y-auto">
+                  <p className="text-sm font-medium text-orange-700">
+                    Bu kayıtlar siz çevrimdışıyken başka bir yerde değiştirildi:
+                  </p>
+                  {conflicts.map(conflict => (
+                    <div key={conflict.id} className="p-2 bg-orange-50 rounded text-xs space-y-1">
+                      <div className="font-medium text-gray-800">
+                        {conflict.table} · {OPERATION_LABELS[conflict.operation]}
+                      </div>
+                      <div className="text-gray-600">
+                        {remoteLabel(conflict)}
+                      </div>
+                      <div className="flex gap-2 pt-1">
+                        <button
+                          onClick={() => resolve(conflict, 'local')}
+                          className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                        >
+                          Benimkini Koru
+                        </button>
+                        <button
+                          onClick={() => resolve(conflict, 'remote')}
+                          className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                        >
+                          Sunucudakini Al
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SyncStatusIndicator
@@ -5,7 +5,13 @@ export * from './Dashboard'
 export * from './StockManager'
 export * from './OrderManager'
 export * from './ReportsManager'
-// BackupManager and ConflictManager removed
+export * from './MrpManager'
+export * from './StockCountManager'
+export * from './PricingManager'
+export * from './CustomerManager'
+export * from './BackupManager'
+export * from './ImportWizard'
+// ConflictManager removed
 export * from './GlobalSearch'
 export { default as ProductRecipeManager } from './ProductRecipeManager'
 export { default as ProductsManager } from './ProductsManager'
@@ -68,6 +68,191 @@ export const MOVEMENT_TYPES = {
   RETURN: 'RETURN'
 } as const
 
+export const SUPPLIER_ORDER_STATUS = {
+  PENDING: 'PENDING',
+  ORDERED: 'ORDERED',
+  PARTIALLY_RECEIVED: 'PARTIALLY_RECEIVED',
+  RECEIVED: 'RECEIVED',
+  CANCELLED: 'CANCELLED'
+} as const
+
+export const STOCK_COUNT_STATUS = {
+  OPEN: 'OPEN',
+  POSTED: 'POSTED',
+  CANCELLED: 'CANCELLED'
+} as const
+
+// Which raw materials a count session covers
+export const STOCK_COUNT_SCOPES = {
+  ALL: 'ALL',
+  RAW: 'RAW',
+  SEMI_FINISHED: 'SEMI_FINISHED'
+} as const
+
+export const PAYMENT_STATUS = {
+  PENDING: 'PENDING',
+  PAID: 'PAID',
+  FAILED: 'FAILED',
+  REFUNDED: 'REFUNDED'
+} as const
+
+// Ledger rows; amounts are positive, a REFUND pays money back
+export const PAYMENT_KINDS = {
+  PAYMENT: 'PAYMENT',
+  REFUND: 'REFUND'
+} as const
+
+export const PAYMENT_METHODS = {
+  CASH: 'CASH',
+  BANK_TRANSFER: 'BANK_TRANSFER',
+  CREDIT_CARD: 'CREDIT_CARD',
+  OTHER: 'OTHER'
+} as const
+
+// Where an order came in; website orders are written by the web shop
+export const ORDER_SOURCES = {
+  WEBSITE: 'WEBSITE',
+  PHONE: 'PHONE',
+  INSTAGRAM: 'INSTAGRAM',
+  WHATSAPP: 'WHATSAPP',
+  IN_STORE: 'IN_STORE'
+} as const
+
+export const SHIPPING_METHODS = {
+  CARGO: 'CARGO',
+  COURIER: 'COURIER',
+  PICKUP: 'PICKUP' // Collected from the workshop
+} as const
+
+export const ORDER_ENTRY_CONFIG = {
+  NUMBER_PREFIX: 'MDH', // Desktop order numbers: MDH-YYMMDD-NNN
+  NUMBER_SEQUENCE_DIGITS: 3,
+  NUMBER_ATTEMPTS: 5 // Inserts tried when another order takes the number meanwhile
+} as const
+
+// Receivables aging by days since the order was placed; the last bucket is open-ended
+export const RECEIVABLES_AGING_BUCKETS = [
+  { key: '0-30', label: '0–30 gün', maxDays: 30 },
+  { key: '31-60', label: '31–60 gün', maxDays: 60 },
+  { key: '61-90', label: '61–90 gün', maxDays: 90 },
+  { key: '90+', label: '90+ gün', maxDays: Infinity }
+] as const
+
+export const PAYMENT_CONFIG = {
+  PAGE_SIZE: 1000 // PostgREST returns at most 1000 rows per request
+} as const
+
+export const RESERVATION_STATUS = {
+  ACTIVE: 'ACTIVE',
+  CONVERTED: 'CONVERTED',
+  RELEASED: 'RELEASED',
+  EXPIRED: 'EXPIRED'
+} as const
+
+export const RESERVATION_CONFIG = {
+  EXPIRY_DAYS: 14, // Pending orders hold stock for two weeks
+  PAGE_SIZE: 1000 // PostgREST returns at most 1000 rows per request
+} as const
+
+export const COSTING_CONFIG = {
+  LABOR_HOURLY_RATE_TRY: 200, // Price of one hour of LABOR recipe time
+  // LABOR recipe units in hours; quantities in other units count as hours
+  LABOR_UNIT_HOURS: { saat: 1, sa: 1, dk: 1 / 60, dakika: 1 / 60 } as Record<string, number>
+} as const
+
+export const PRICE_RULE_TYPES = {
+  MARKUP: 'markup', // Cost plus a percentage of cost
+  MARGIN: 'margin', // Price whose margin over cost is the percentage
+  FIXED: 'fixed' // Cost plus a fixed amount in TRY
+} as const
+
+export const PRICING_CONFIG = {
+  ROUND_TO: 1, // Suggested prices are rounded up to whole lira
+  MIN_CHANGE: 0.01 // Smaller differences are not proposed
+} as const
+
+export const MATERIAL_PRICE_SOURCES = {
+  MANUAL: 'MANUAL', // Entered on the material
+  GOODS_RECEIPT: 'GOODS_RECEIPT', // Taken over from a purchase order receipt
+  IMPORT: 'IMPORT' // Set by a CSV import
+} as const
+
+export const MRP_CONFIG = {
+  OPEN_ORDER_STATUSES: ['PENDING', 'CONFIRMED', 'PROCESSING'] as const,
+  DEFAULT_LEAD_TIME_DAYS: 7 // Used when a material has no lead_time_days
+} as const
+
+export const REORDER_CONFIG = {
+  HISTORY_DAYS: 90, // Consumption window for average daily usage
+  COVERAGE_DAYS: 30, // Usage a reorder should cover beyond the reorder point
+  PAGE_SIZE: 1000 // PostgREST returns at most 1000 rows per request
+} as const
+
+export const SUPPLIER_SCORE_CONFIG = {
+  // Share of each metric in the 0-100 score; metrics without data are left out
+  WEIGHTS: { ON_TIME: 0.4, FILL_RATE: 0.3, LEAD_TIME: 0.15, PRICE_STABILITY: 0.15 },
+  PRICE_VOLATILITY_CAP: 20, // Price variation (%) at which price stability scores zero
+  PAGE_SIZE: 1000 // PostgREST returns at most 1000 rows per request
+} as const
+
+export const FORECAST_CONFIG = {
+  HISTORY_DAYS: 730, // Two years of OUT movements for the seasonal profile
+  MOVING_AVERAGE_DAYS: 28, // Window of the moving-average daily usage
+  SEASONAL_MIN_HISTORY_DAYS: 364, // Seasonal method needs a full year of history
+  HORIZON_DAYS: 365, // Stockouts further out are reported as none
+  PAGE_SIZE: 1000 // PostgREST returns at most 1000 rows per request
+} as const
+
+export const FORECAST_METHODS = {
+  MOVING_AVERAGE: 'MOVING_AVERAGE',
+  SEASONAL: 'SEASONAL'
+} as const
+
+export const LEDGER_CONFIG = {
+  PAGE_SIZE: 1000, // PostgREST returns at most 1000 rows per request
+  TOLERANCE: 0.0001 // Differences below this are rounding, not drift
+} as const
+
+// Units convertible without per-material factors; factor is relative to the
+// base unit of the dimension (g, m, lt, adet)
+export const UNIT_DEFINITIONS: Record<string, { dimension: string; factor: number }> = {
+  mg: { dimension: 'MASS', factor: 0.001 },
+  g: { dimension: 'MASS', factor: 1 },
+  kg: { dimension: 'MASS', factor: 1000 },
+  mm: { dimension: 'LENGTH', factor: 0.001 },
+  cm: { dimension: 'LENGTH', factor: 0.01 },
+  m: { dimension: 'LENGTH', factor: 1 },
+  ml: { dimension: 'VOLUME', factor: 0.001 },
+  lt: { dimension: 'VOLUME', factor: 1 },
+  cm2: { dimension: 'AREA', factor: 0.0001 },
+  m2: { dimension: 'AREA', factor: 1 },
+  adet: { dimension: 'COUNT', factor: 1 },
+  duzine: { dimension: 'COUNT', factor: 12 }
+}
+
+// Spellings accepted at entry, mapped to UNIT_DEFINITIONS keys
+export const UNIT_ALIASES: Record<string, string> = {
+  gr: 'g',
+  gram: 'g',
+  kilogram: 'kg',
+  kilo: 'kg',
+  miligram: 'mg',
+  metre: 'm',
+  mt: 'm',
+  santim: 'cm',
+  santimetre: 'cm',
+  milimetre: 'mm',
+  l: 'lt',
+  litre: 'lt',
+  mililitre: 'ml',
+  'm²': 'm2',
+  'cm²': 'cm2',
+  ad: 'adet',
+  tane: 'adet',
+  pcs: 'adet',
+  'düzine': 'duzine'
+}
+
 export const RECIPE_ITEM_TYPES = {
   MATERIAL: 'MATERIAL',
   LABOR: 'LABOR'
@@ -91,6 +276,43 @@ export const BACKUP_FREQUENCIES = {
   MONTHLY: 'monthly'
 } as const
 
+export const BACKUP_CONFIG = {
+  // Parents before children: restore writes in this order and deletes in reverse
+  TABLES: [
+    'suppliers',
+    'raw_materials',
+    'products',
+    'product_recipes',
+    'orders',
+    'order_items',
+    'stock_movements',
+    'supplier_orders'
+  ],
+  FORMAT_VERSION: 1,
+  FILE_PREFIX: 'mdh-backup-',
+  FILE_EXTENSION: '.json.gz',
+  PAGE_SIZE: 1000, // Rows per request when reading a table
+  WRITE_CHUNK_SIZE: 500, // Rows per upsert when restoring
+  DEFAULT_KEEP_LAST: 10, // Retention: newest backups kept, older ones deleted
+  PERIOD_DAYS: { daily: 1, weekly: 7, monthly: 30 }
+} as const
+
+export const IMPORT_TARGETS = {
+  MATERIALS: 'materials',
+  PRODUCTS: 'products',
+  RECIPES: 'recipes',
+  SUPPLIERS: 'suppliers',
+  ORDERS: 'orders'
+} as const
+
+export const IMPORT_CONFIG = {
+  MAX_FILE_SIZE: 10 * 1024 * 1024, // 10 MB
+  DELIMITERS: [',', ';', '\t'], // Excel saves ';' separated CSV on Turkish systems
+  PAGE_SIZE: 1000, // Rows per request when reading existing records
+  WRITE_CHUNK_SIZE: 200, // Rows per insert when committing
+  PREVIEW_ROWS: 5 // Sample rows shown next to the column mapping
+} as const
+
 export const CURRENCY = {
   CODE: 'TRY',
   SYMBOL: '₺',
@@ -142,9 +364,68 @@ export const TABLE_NAMES = {
   ORDER_ITEMS: 'order_items',
   PRODUCTS: 'products',
   PRODUCT_RECIPES: 'product_recipes',
+  PRODUCT_RAW_MATERIAL_RELATIONS: 'product_raw_material_relations',
+  SEMI_FINISHED_COMPONENTS: 'semi_finished_components',
   STOCK_MOVEMENTS: 'stock_movements',
   SUPPLIER_ORDERS: 'supplier_orders',
-  PRICE_RULES: 'price_rules'
+  PRICE_RULES: 'price_rules',
+  STOCK_RESERVATIONS: 'stock_reservations',
+  STOCK_COUNT_SESSIONS: 'stock_count_sessions',
+  MATERIAL_UNIT_CONVERSIONS: 'material_unit_conversions',
+  ORDER_STATUS_HISTORY: 'order_status_history',
+  ORDER_PAYMENTS: 'order_payments',
+  CATEGORIES: 'categories',
+  PRODUCT_PRICE_HISTORY: 'product_price_history',
+  MATERIAL_PRICE_HISTORY: 'material_price_history',
+  RAW_MATERIALS_SUPPLIERS: 'raw_materials_suppliers',
+  CUSTOMERS: 'customers'
+} as const
+
+// Tables replicated to the local SQLite store; reads fall back to it while offline
+export const OFFLINE_SYNC_CONFIG = {
+  TABLES: [
+    TABLE_NAMES.CUSTOMERS,
+    TABLE_NAMES.PRODUCTS,
+    TABLE_NAMES.PRODUCT_RECIPES,
+    TABLE_NAMES.RAW_MATERIALS,
+    TABLE_NAMES.SUPPLIERS,
+    TABLE_NAMES.ORDERS,
+    TABLE_NAMES.ORDER_ITEMS,
+    TABLE_NAMES.STOCK_MOVEMENTS,
+    TABLE_NAMES.STOCK_RESERVATIONS
+  ],
+  // How rows changed since the last pull are found: a change timestamp column
+  // (kept current by triggers, see the replica_change_tracking migration) or,
+  // for order lines, the orders changed in the same pull
+  CHANGES: {
+    [TABLE_NAMES.CUSTOMERS]: { column: 'updated_at' },
+    [TABLE_NAMES.PRODUCTS]: { column: 'updatedAt' },
+    [TABLE_NAMES.PRODUCT_RECIPES]: { column: 'updated_at' },
+    [TABLE_NAMES.RAW_MATERIALS]: { column: 'updated_at' },
+    [TABLE_NAMES.SUPPLIERS]: { column: 'updated_at' },
+    [TABLE_NAMES.ORDERS]: { column: 'updatedAt' },
+    [TABLE_NAMES.ORDER_ITEMS]: { parent: TABLE_NAMES.ORDERS, key: 'orderId' },
+    [TABLE_NAMES.STOCK_MOVEMENTS]: { column: 'created_at' }, // Never updated
+    [TABLE_NAMES.STOCK_RESERVATIONS]: { column: 'updated_at' }
+  },
+  // Foreign keys followed when an embedded select is answered from the replica
+  RELATIONS: [
+    { table: TABLE_NAMES.ORDERS, column: 'customer_id', references: TABLE_NAMES.CUSTOMERS },
+    { table: TABLE_NAMES.ORDER_ITEMS, column: 'orderId', references: TABLE_NAMES.ORDERS },
+    { table: TABLE_NAMES.ORDER_ITEMS, column: 'productId', references: TABLE_NAMES.PRODUCTS },
+    { table: TABLE_NAMES.PRODUCT_RECIPES, column: 'product_id', references: TABLE_NAMES.PRODUCTS },
+    { table: TABLE_NAMES.PRODUCT_RECIPES, column: 'raw_material_id', references: TABLE_NAMES.RAW_MATERIALS },
+    { table: TABLE_NAMES.RAW_MATERIALS, column: 'supplier_id', references: TABLE_NAMES.SUPPLIERS },
+    { table: TABLE_NAMES.STOCK_MOVEMENTS, column: 'raw_material_id', references: TABLE_NAMES.RAW_MATERIALS },
+    { table: TABLE_NAMES.STOCK_RESERVATIONS, column: 'raw_material_id', references: TABLE_NAMES.RAW_MATERIALS },
+    { table: TABLE_NAMES.STOCK_RESERVATIONS, column: 'order_id', references: TABLE_NAMES.ORDERS }
+  ],
+  INTERVAL_MS: 30000, // Health check, outbox replay and pull of changed rows
+  FULL_PULL_INTERVAL_MS: 6 * 60 * 60 * 1000, // Full refresh, which also drops rows deleted on the server
+  CURSOR_OVERLAP_MS: 60000, // Changes pulled again, for rows committed after a later timestamp was seen
+  PAGE_SIZE: 1000, // PostgREST returns at most 1000 rows per request
+  ID_BATCH_SIZE: 100, // Parent ids per request when pulling changed order lines
+  MAX_ATTEMPTS: 5 // Failed replays before an outbox entry stops blocking the ones after it
 } as const
 
 export const REALTIME_EVENTS = {
@@ -172,7 +453,20 @@ export const API_ENDPOINTS = {
 export type StockStatusType = typeof STOCK_STATUS[keyof typeof STOCK_STATUS]
 export type OrderStatusType = typeof ORDER_STATUS[keyof typeof ORDER_STATUS]
 export type MovementType = typeof MOVEMENT_TYPES[keyof typeof MOVEMENT_TYPES]
+export type SupplierOrderStatus = typeof SUPPLIER_ORDER_STATUS[keyof typeof SUPPLIER_ORDER_STATUS]
+export type ReservationStatus = typeof RESERVATION_STATUS[keyof typeof RESERVATION_STATUS]
+export type PaymentStatus = typeof PAYMENT_STATUS[keyof typeof PAYMENT_STATUS]
+export type PaymentKind = typeof PAYMENT_KINDS[keyof typeof PAYMENT_KINDS]
+export type PaymentMethod = typeof PAYMENT_METHODS[keyof typeof PAYMENT_METHODS]
+export type OrderSource = typeof ORDER_SOURCES[keyof typeof ORDER_SOURCES]
+export type ShippingMethod = typeof SHIPPING_METHODS[keyof typeof SHIPPING_METHODS]
+export type PriceRuleType = typeof PRICE_RULE_TYPES[keyof typeof PRICE_RULE_TYPES]
+export type MaterialPriceSource = typeof MATERIAL_PRICE_SOURCES[keyof typeof MATERIAL_PRICE_SOURCES]
+export type ForecastMethod = typeof FORECAST_METHODS[keyof typeof FORECAST_METHODS]
+export type StockCountStatus = typeof STOCK_COUNT_STATUS[keyof typeof STOCK_COUNT_STATUS]
+export type StockCountScope = typeof STOCK_COUNT_SCOPES[keyof typeof STOCK_COUNT_SCOPES]
 export type RecipeItemType = typeof RECIPE_ITEM_TYPES[keyof typeof RECIPE_ITEM_TYPES]
 export type ThemeType = typeof THEMES[keyof typeof THEMES]
 export type ExportFormat = typeof EXPORT_FORMATS[keyof typeof EXPORT_FORMATS]
 export type BackupFrequency = typeof BACKUP_FREQUENCIES[keyof typeof BACKUP_FREQUENCIES]
+export type ImportTarget = typeof IMPORT_TARGETS[keyof typeof IMPORT_TARGETS]
@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
 import { DashboardAPI } from '../services/api'
 import { ErrorHandler } from '../utils/errorHandler'
+import { MaterialAvailability } from '../types'
 
 // Query keys
 export const dashboardQueryKeys = {
@@ -17,6 +18,9 @@ export interface DashboardStats {
   confirmedOrders: number
   totalRevenue: number
   monthlyRevenue: number
+  reservedMaterialsCount: number
+  overReservedCount: number
+  stockAvailability: MaterialAvailability[]
 }
 
 export function useDashboardStats() {
@@ -105,6 +109,11 @@ export function useDashboardAlerts() {
           message: `${stats.criticalStockCount} malzeme kritik stok seviyesinde`,
           action: 'Stoka bak'
         }] : []),
+        ...(stats.overReservedCount > 0 ? [{
+          type: 'critical' as const,
+          message: `${stats.overReservedCount} malzemede rezerve miktar eldeki stoğu aşıyor`,
+          action: 'Stoka bak'
+        }] : []),
         ...(stats.lowStockCount > 0 ? [{
           type: 'warning' as const,
           message: `${stats.lowStockCount} malzeme düşük stok seviyesinde`,
@@ -8,6 +8,7 @@ export const stockQueryKeys = {
   materials: () => [...stockQueryKeys.all, 'materials'] as const,
   material: (id: string) => [...stockQueryKeys.all, 'materials', id] as const,
   lowStock: () => [...stockQueryKeys.all, 'low-stock'] as const,
+  availability: () => [...stockQueryKeys.all, 'availability'] as const,
   movements: (materialId: string) => [...stockQueryKeys.all, 'movements', materialId] as const,
 }
 
@@ -25,12 +26,21 @@ export function useRawMaterials() {
 export function useLowStockMaterials() {
   return useQuery({
     queryKey: stockQueryKeys.lowStock(),
-    queryFn: StockAPI.getLowStockMaterials,
+    queryFn: () => StockAPI.getLowStockMaterials(),
     staleTime: 30 * 1000, // 30 seconds - low stock should be fresh
     refetchInterval: 10 * 1000, // Check every 10 seconds for critical updates
   })
 }
 
+export function useStockAvailability() {
+  return useQuery({
+    queryKey: stockQueryKeys.availability(),
+    queryFn: () => StockAPI.getStockAvailability(),
+    staleTime: 30 * 1000, // 30 seconds - reservations change with pending orders
+    refetchInterval: 30 * 1000,
+  })
+}
+
 export function useStockMovements(materialId: string) {
   return useQuery({
     queryKey: stockQueryKeys.movements(materialId),
@@ -0,0 +1,150 @@
+/**
+ * Backup Service Tests
+ * Snapshot diffing, schedule and retention helpers, restore with rollback and the file checksum
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: { getClient: vi.fn(() => ({})) },
+}))
+
+import { BackupService, diffTable, nextBackupAt, selectExpiredBackups } from '../backupService'
+import { encodeBackup, decodeBackup, backupFileName, backupFileTime, BackupStore, BackupScheduler } from '../../../main/backup'
+
+const seed = () => ({
+  suppliers: [{ id: 's1', name: 'Kumaşçı' }],
+  raw_materials: [
+    { id: 'm1', name: 'Keten', current_stock: 10 },
+    { id: 'm2', name: 'Pamuk', current_stock: 5 }
+  ],
+  products: [{ id: 'p1', name: 'Masa Örtüsü' }]
+})
+
+describe('diffTable', () => {
+  it('splits rows into added, changed, removed and unchanged regardless of key order', () => {
+    const backup = [{ id: 'a', name: 'A', qty: 1 }, { id: 'b', qty: 2, name: 'B' }, { id: 'c', name: 'C' }]
+    const current = [{ name: 'A', id: 'a', qty: 1 }, { id: 'b', name: 'B', qty: 3 }, { id: 'd', name: 'D' }]
+
+    expect(diffTable('products', backup, current)).toEqual({
+      table: 'products',
+      added_ids: ['c'],
+      changed_ids: ['b'],
+      removed_ids: ['d'],
+      unchanged: 1
+    })
+  })
+})
+
+describe('schedule and retention', () => {
+  it('schedules the next backup a period after the last one at the configured time', () => {
+    const schedule = { enabled: true, frequency: 'weekly' as const, time: '02:30' }
+    const next = nextBackupAt(schedule, new Date(2024, 2, 1, 14, 0).toISOString())
+
+    expect(next).toEqual(new Date(2024, 2, 8, 2, 30))
+    expect(nextBackupAt(schedule, null)!.getTime()).toBe(0)
+    expect(nextBackupAt({ ...schedule, enabled: false }, null)).toBeNull()
+  })
+
+  it('expires everything beyond the newest backups, oldest first', () => {
+    const backups = ['2024-03-02', '2024-03-04', '2024-03-01', '2024-03-03'].map(created_at => ({ manifest: { created_at } }))
+
+    expect(selectExpiredBackups(backups, 2).map(b => b.manifest.created_at)).toEqual(['2024-03-01', '2024-03-02'])
+    expect(selectExpiredBackups(backups, 0)).toHaveLength(3)
+  })
+})
+
+describe('BackupService', () => {
+  it('collects every table with row counts in the manifest', async () => {
+    const db = new FakePostgrest(seed())
+    const snapshot = await new BackupService(db).collect(new Date('2024-03-01T10:00:00Z'))
+
+    expect(snapshot.manifest).toMatchObject({ format: 'mdh-backup', version: 1, created_at: '2024-03-01T10:00:00.000Z' })
+    expect(snapshot.manifest.tables).toMatchObject({ suppliers: 1, raw_materials: 2, products: 1, orders: 0 })
+    expect(snapshot.tables.raw_materials.map(row => row.id)).toEqual(['m1', 'm2'])
+  })
+
+  it('previews and restores selected tables, deleting rows missing from the backup on request', async () => {
+    const db = new FakePostgrest(seed())
+    const service = new BackupService(db)
+    const snapshot = await service.collect()
+
+    db.tables.raw_materials[0].current_stock = 99
+    db.tables.raw_materials.push({ id: 'm3', name: 'İpek', current_stock: 1 })
+    db.tables.raw_materials = db.tables.raw_materials.filter(row => row.id !== 'm2')
+    db.tables.products[0].name = 'Değişti'
+
+    const preview = await service.preview(snapshot)
+    expect(preview.find(diff => diff.table === 'raw_materials')).toMatchObject({
+      added_ids: ['m2'], changed_ids: ['m1'], removed_ids: ['m3']
+    })
+
+    const result = await service.restore(snapshot, { tables: ['raw_materials'], deleteMissing: true })
+
+    expect(result.tables).toEqual([{ table: 'raw_materials', written: 2, deleted: 1 }])
+    expect(db.rows('raw_materials').map(row => [row.id, row.current_stock]).sort()).toEqual([['m1', 10], ['m2', 5]])
+    expect(db.rows('products')[0].name).toBe('Değişti')
+  })
+
+  it('puts earlier tables back when a later table fails', async () => {
+    const db = new FakePostgrest(seed())
+    const service = new BackupService(db)
+    const snapshot = await service.collect()
+
+    db.tables.raw_materials[0].current_stock = 99
+    db.tables.products[0].name = 'Değişti'
+    db.failOn('products', 'upsert')
+
+    await expect(service.restore(snapshot)).rejects.toThrow('Injected upsert failure on products')
+    expect(db.rows('raw_materials').find(row => row.id === 'm1')!.current_stock).toBe(99)
+    expect(db.rows('products')[0].name).toBe('Değişti')
+  })
+})
+
+describe('backup file', () => {
+  it('round-trips through gzip and rejects a modified file', async () => {
+    const snapshot = await new BackupService(new FakePostgrest(seed())).collect()
+    const data = encodeBackup(snapshot)
+
+    expect(decodeBackup(data).tables).toEqual(snapshot.tables)
+
+    const zlib = await import('node:zlib')
+    const tampered = JSON.parse(zlib.gunzipSync(data).toString('utf8'))
+    tampered.tables.raw_materials[0].current_stock = 1000
+    expect(() => decodeBackup(zlib.gzipSync(JSON.stringify(tampered)))).toThrow('checksum')
+    expect(() => decodeBackup(Buffer.from('not a backup'))).toThrow('damaged')
+  })
+
+  it('dates backups by file name and verifies the checksum only when a backup is read', async () => {
+    expect(backupFileTime(backupFileName('2025-03-01T09:30:15.250Z'))).toBe('2025-03-01T09:30:15.000Z')
+    expect(backupFileTime('mdh-backup-latest.json.gz')).toBeNull()
+
+    const fs = await import('node:fs/promises')
+    const os = await import('node:os')
+    const path = await import('node:path')
+    const zlib = await import('node:zlib')
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdh-backup-test-'))
+    try {
+      const store = new BackupStore(dir)
+      const { file } = await store.write(await new BackupService(new FakePostgrest(seed())).collect(new Date('2025-03-01T09:30:00.000Z')))
+      const tampered = JSON.parse(zlib.gunzipSync(await fs.readFile(path.join(dir, file))).toString('utf8'))
+      tampered.tables.products[0].name = 'Değişti'
+      await fs.writeFile(path.join(dir, file), zlib.gzipSync(JSON.stringify(tampered)))
+
+      expect((await store.list()).map(backup => backup.file)).toEqual([file])
+      await expect(store.read(file)).rejects.toThrow('checksum')
+
+      // The scheduler's check does not open the backups
+      const list = vi.spyOn(store, 'list')
+      const schedule = { enabled: true, frequency: 'daily', time: '02:00' } as const
+      const scheduler = new BackupScheduler(null, store)
+      expect(await scheduler.configure({ ...schedule, keepLast: 3 })).toBe(nextBackupAt(schedule, '2025-03-01T09:30:00.000Z')!.toISOString())
+      expect(await scheduler.tick(new Date('2025-03-01T12:00:00.000Z'))).toBeNull()
+      expect(list).not.toHaveBeenCalled()
+      await scheduler.configure({ ...schedule, enabled: false, keepLast: 3 })
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * BOM Service Tests
+ * Multi-level explosion through semi-finished items
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { BomService, BomCycleError, findShortages } from '../bomService'
+import { OrderStatusEngine } from '../orderStatusEngine'
+
+// product-1 = 2 × box (semi) + 1 × ribbon
+// box = 0.5 × cardboard + 1 × lid (semi)
+// lid = 0.2 × cardboard
+const seed = () => ({
+  orders: [
+    { id: 'order-1', orderNumber: 'MDH-001', status: 'PENDING' }
+  ],
+  order_items: [
+    { id: 'item-1', orderId: 'order-1', productId: 'product-1', quantity: 3 }
+  ],
+  product_recipes: [
+    { id: 'recipe-1', product_id: 'product-1', raw_material_id: 'ribbon', quantity: 1, item_type: 'MATERIAL' }
+  ],
+  product_raw_material_relations: [
+    { id: 'rel-1', product_id: 'product-1', raw_material_id: 'box', quantity: 2, unit: 'adet' }
+  ],
+  semi_finished_components: [
+    { id: 'comp-1', semi_finished_id: 'box', raw_material_id: 'cardboard', quantity: 0.5 },
+    { id: 'comp-2', semi_finished_id: 'box', raw_material_id: 'lid', quantity: 1 },
+    { id: 'comp-3', semi_finished_id: 'lid', raw_material_id: 'cardboard', quantity: 0.2 }
+  ],
+  raw_materials: [
+    { id: 'ribbon', name: 'Kurdele', stock_quantity: 100, stock_unit: 'm', unit_price_try: 2 },
+    { id: 'cardboard', name: 'Karton', stock_quantity: 10, stock_unit: 'm2', unit_price_try: 10 },
+    { id: 'box', name: 'Kutu', stock_quantity: 0, stock_unit: 'adet', unit_price_try: 0, is_semi_finished: true },
+    { id: 'lid', name: 'Kapak', stock_quantity: 0, stock_unit: 'adet', unit_price_try: 0, is_semi_finished: true }
+  ],
+  stock_movements: [] as any[]
+})
+
+describe('BomService', () => {
+  let db: FakePostgrest
+  let bom: BomService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    bom = new BomService(db)
+  })
+
+  it('expands semi-finished items down to leaf materials', async () => {
+    const requirements = await bom.explodeProduct('product-1', 3)
+
+    expect(requirements.map(r => [r.raw_material_id, Number(r.quantity.toFixed(6)), r.via])).toEqual([
+      ['ribbon', 3, []],
+      ['cardboard', 3, ['box']],
+      ['cardboard', 1.2, ['box', 'lid']]
+    ])
+  })
+
+  it('prices a product at leaf level', async () => {
+    const cost = await bom.getProductCost('product-1')
+
+    // 1 m ribbon × 2 + (1 + 0.4) m2 cardboard × 10
+    expect(cost.material_cost).toBeCloseTo(16)
+    expect(cost.lines.map(line => line.raw_material_id)).toEqual(['ribbon', 'cardboard'])
+  })
+
+  it('treats a semi-finished item without components as a leaf', async () => {
+    db.tables.semi_finished_components = db.rows('semi_finished_components').filter(c => c.semi_finished_id !== 'lid')
+
+    const requirements = await bom.explodeProduct('product-1')
+
+    expect(requirements.find(r => r.raw_material_id === 'lid')).toMatchObject({ quantity: 2, via: ['box'] })
+  })
+
+  it('detects cycles and names the loop', async () => {
+    db.rows('semi_finished_components').push({ id: 'comp-4', semi_finished_id: 'lid', raw_material_id: 'box', quantity: 1 })
+
+    const error = await bom.explodeProduct('product-1').catch(e => e)
+
+    expect(error).toBeInstanceOf(BomCycleError)
+    expect(error.cycle).toEqual(['box', 'lid', 'box'])
+  })
+
+  it('rejects a component that would close a loop', async () => {
+    expect(await bom.wouldCreateCycle('lid', 'box')).toBe(true)
+    expect(await bom.wouldCreateCycle('box', 'ribbon')).toBe(false)
+  })
+
+  it('reports shortages against available stock', async () => {
+    const requirements = await bom.explodeProduct('product-1', 3)
+
+    const shortages = findShortages(requirements, [
+      { raw_material_id: 'ribbon', name: 'Kurdele', unit: 'm', on_hand: 100, reserved: 0, available: 100 },
+      { raw_material_id: 'cardboard', name: 'Karton', unit: 'm2', on_hand: 10, reserved: 8, available: 2 }
+    ])
+
+    expect(shortages).toHaveLength(1)
+    expect(shortages[0].raw_material_id).toBe('cardboard')
+    expect(shortages[0].shortfall).toBeCloseTo(2.2)
+  })
+
+  it('deducts leaf materials when an order is confirmed', async () => {
+    await new OrderStatusEngine(db).transition('order-1', 'CONFIRMED')
+
+    const stock = Object.fromEntries(db.rows('raw_materials').map(m => [m.id, m.stock_quantity]))
+    expect(stock.ribbon).toBe(97)
+    expect(stock.cardboard).toBeCloseTo(5.8)
+    expect(stock.box).toBe(0)
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Costing Service Tests
+ * Recipe-based order costs and the snapshot frozen at confirmation
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { CostingService, laborHours } from '../costingService'
+import { OrderStatusEngine } from '../orderStatusEngine'
+import { COSTING_CONFIG } from '../../constants'
+
+const rate = COSTING_CONFIG.LABOR_HOURLY_RATE_TRY
+
+const seed = () => ({
+  orders: [
+    {
+      id: 'order-1',
+      orderNumber: 'MDH-001',
+      status: 'PENDING',
+      totalAmount: 1000,
+      discount_amount: 100,
+      shipping_cost: 50,
+      updatedAt: '2025-01-01T00:00:00.000Z'
+    }
+  ],
+  order_items: [
+    { id: 'item-1', orderId: 'order-1', productId: 'product-1', quantity: 2, price: 500 }
+  ],
+  products: [
+    { id: 'product-1', name: 'Kurdeleli Kutu' }
+  ],
+  product_recipes: [
+    { id: 'recipe-1', product_id: 'product-1', raw_material_id: 'mat-1', quantity: 3, unit: 'adet', item_type: 'MATERIAL' },
+    { id: 'recipe-2', product_id: 'product-1', raw_material_id: 'mat-2', quantity: 50, unit: 'cm', item_type: 'MATERIAL' },
+    { id: 'recipe-3', product_id: 'product-1', raw_material_id: null, quantity: 30, unit: 'dk', item_type: 'LABOR' }
+  ],
+  raw_materials: [
+    { id: 'mat-1', name: 'Kutu', stock_quantity: 50, stock_unit: 'adet', unit_price_try: 20 },
+    { id: 'mat-2', name: 'Kurdele', stock_quantity: 10, stock_unit: 'm', unit_price_try: 40 }
+  ],
+  stock_movements: [] as any[]
+})
+
+describe('CostingService', () => {
+  let db: FakePostgrest
+  let service: CostingService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new CostingService(db)
+  })
+
+  it('costs materials, labor, shipping and discount from the recipes', async () => {
+    const breakdown = await service.updateOrderCosts('order-1')
+
+    // 2 x (3 x 20 + 0.5 m x 40) = 160; 2 x 0.5 h of labor
+    expect(breakdown.material_cost).toBe(160)
+    expect(breakdown.items[0].labor_hours).toBe(1)
+    expect(breakdown.labor_cost).toBe(rate)
+    expect(breakdown.total_cost).toBe(160 + rate + 50)
+    expect(breakdown.net_revenue).toBe(900)
+    expect(breakdown.net_profit).toBe(900 - (160 + rate + 50))
+
+    const order = db.rows('orders')[0]
+    expect(order.total_cost).toBe(breakdown.total_cost)
+    expect(order.labor_cost).toBe(rate)
+    expect(order.net_profit).toBe(breakdown.net_profit)
+    expect(order.profit_margin_percent).toBeCloseTo((breakdown.net_profit / 900) * 100, 2)
+    expect(order.profit_margin_percent_2).toBeCloseTo((breakdown.net_profit / breakdown.total_cost) * 100, 2)
+  })
+
+  it('reads labor time in hours unless the unit says minutes', () => {
+    expect(laborHours(2, 'saat')).toBe(2)
+    expect(laborHours(90, 'dk')).toBe(1.5)
+    expect(laborHours(3, null)).toBe(3)
+  })
+
+  it('keeps the confirmation prices after material prices change', async () => {
+    await new OrderStatusEngine(db).transition('order-1', 'CONFIRMED')
+    const frozen = db.rows('orders')[0]
+    expect(frozen.cost_frozen_at).toBeTruthy()
+    expect(frozen.cost_snapshot.material_cost).toBe(160)
+
+    db.rows('raw_materials')[0].unit_price_try = 100
+    db.rows('orders')[0].discount_amount = 200
+
+    const breakdown = await service.updateOrderCosts('order-1')
+
+    expect(breakdown.material_cost).toBe(160)
+    expect(breakdown.net_revenue).toBe(800)
+    expect(db.rows('orders')[0].net_profit).toBe(800 - (160 + rate + 50))
+  })
+
+  it('prices the order live again when the confirmation is undone', async () => {
+    const engine = new OrderStatusEngine(db)
+    await engine.transition('order-1', 'CONFIRMED')
+    await engine.undoLastTransition('order-1')
+
+    expect(db.rows('orders')[0].cost_snapshot).toBeNull()
+    db.rows('raw_materials')[0].unit_price_try = 100
+
+    expect((await service.getOrderCost('order-1')).material_cost).toBe(2 * (3 * 100 + 20))
+  })
+
+  it('reprices only pending orders without a snapshot', async () => {
+    db.rows('orders').push({ id: 'order-2', orderNumber: 'MDH-002', status: 'CONFIRMED', totalAmount: 100, cost_frozen_at: '2025-01-01T00:00:00.000Z' })
+
+    expect(await service.updatePendingOrderCosts()).toBe(1)
+    expect(db.rows('orders')[1].total_cost).toBeUndefined()
+  })
+})
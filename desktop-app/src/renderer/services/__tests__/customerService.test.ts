@@ -0,0 +1,126 @@
+/**
+ * Customer Service Tests
+ * Customer records from orders, deduplication, merging and lifetime value
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { CustomerService, normalizePhone, normalizeEmail } from '../customerService'
+
+describe('contact normalization', () => {
+  it('reduces phone numbers to 0 and ten digits', () => {
+    expect(normalizePhone('+90 532 111 22 33')).toBe('05321112233')
+    expect(normalizePhone('(0532) 111-22-33')).toBe('05321112233')
+    expect(normalizePhone('532 111 22 33')).toBe('05321112233')
+    expect(normalizePhone('0212 111 22 33')).toBeNull()
+    expect(normalizePhone('')).toBeNull()
+  })
+
+  it('lower-cases emails and drops invalid ones', () => {
+    expect(normalizeEmail(' Ayse@Example.com ')).toBe('ayse@example.com')
+    expect(normalizeEmail('not-an-email')).toBeNull()
+  })
+})
+
+describe('CustomerService', () => {
+  let db: FakePostgrest
+  let service: CustomerService
+
+  beforeEach(() => {
+    db = new FakePostgrest({
+      customers: [],
+      orders: [
+        { id: 'o1', customerName: 'Ayşe Yılmaz', customerPhone: '0532 111 22 33', customerEmail: null, totalAmount: 500, discount_amount: 50, status: 'DELIVERED', createdAt: '2024-01-10T10:00:00Z' },
+        { id: 'o2', customerName: 'Ayse Yilmaz', customerPhone: '+905321112233', customerEmail: 'AYSE@example.com', totalAmount: 300, discount_amount: 0, status: 'PENDING', createdAt: '2024-02-10T10:00:00Z' },
+        { id: 'o3', customerName: 'Ayşe Y.', customerPhone: null, customerEmail: 'ayse@example.com', totalAmount: 200, discount_amount: 0, status: 'CANCELLED', createdAt: '2024-03-10T10:00:00Z' },
+        { id: 'o4', customerName: 'Mehmet Kaya', customerPhone: null, customerEmail: 'mehmet@example.com', totalAmount: 100, discount_amount: 0, status: 'DELIVERED', createdAt: '2024-01-05T10:00:00Z' },
+        { id: 'o5', customerName: 'Bilinmeyen', customerPhone: '123', customerEmail: '', totalAmount: 80, discount_amount: 0, status: 'DELIVERED', createdAt: '2024-01-06T10:00:00Z' }
+      ]
+    })
+    service = new CustomerService(db)
+  })
+
+  it('creates one record per phone or email and links the orders idempotently', async () => {
+    const result = await service.syncFromOrders()
+
+    expect(result).toEqual({ created: 2, linked: 4, skipped: 1 })
+    const [ayse, mehmet] = db.rows('customers').sort((a, b) => a.name.localeCompare(b.name))
+    expect(ayse).toMatchObject({ name: 'Ayşe Yılmaz', phone: '05321112233', email: 'ayse@example.com' })
+    expect(mehmet).toMatchObject({ name: 'Mehmet Kaya', phone: null, email: 'mehmet@example.com' })
+    expect(db.rows('orders').filter(o => o.customer_id === ayse.id).map(o => o.id)).toEqual(['o1', 'o2', 'o3'])
+
+    expect(await service.syncFromOrders()).toEqual({ created: 0, linked: 0, skipped: 1 })
+    expect(db.rows('customers')).toHaveLength(2)
+  })
+
+  it('sums lifetime value net of discounts without cancelled orders', async () => {
+    await service.syncFromOrders()
+
+    const ayse = (await service.getCustomers()).find(c => c.phone === '05321112233')
+    expect(ayse).toMatchObject({
+      order_count: 2,
+      lifetime_value: 750,
+      average_order_value: 375,
+      first_order_at: '2024-01-10T10:00:00Z',
+      last_order_at: '2024-02-10T10:00:00Z'
+    })
+  })
+
+  it('finds an existing customer instead of creating a duplicate', async () => {
+    const first = await service.findOrCreate({ name: 'Ayşe', phone: '0532 111 22 33' })
+    const second = await service.findOrCreate({ name: 'Ayşe Yılmaz', phone: '+90 532 111 22 33' })
+
+    expect(first.created).toBe(true)
+    expect(second).toEqual({ customer: first.customer, created: false })
+    await expect(service.findOrCreate({ name: 'X', phone: '123' })).rejects.toThrow('Invalid phone number format')
+  })
+
+  it('merges duplicates, moving orders and keeping contact details, tags and notes', async () => {
+    db = new FakePostgrest({
+      customers: [
+        { id: 'c1', name: 'Ayşe Yılmaz', phone: '05321112233', email: null, notes: 'Kurdele sever', tags: ['sadık'] },
+        { id: 'c2', name: 'ayşe  yılmaz', phone: null, email: 'ayse@example.com', notes: null, tags: ['kurumsal', 'sadık'] }
+      ],
+      orders: [
+        { id: 'o1', customer_id: 'c1', totalAmount: 100, status: 'DELIVERED', createdAt: '2024-01-01T00:00:00Z' },
+        { id: 'o2', customer_id: 'c2', totalAmount: 200, status: 'DELIVERED', createdAt: '2024-02-01T00:00:00Z' }
+      ]
+    })
+    service = new CustomerService(db)
+
+    const [group] = await service.findDuplicates()
+    expect(group.matched_on).toEqual(['NAME'])
+    expect(group.customers.map(c => c.id).sort()).toEqual(['c1', 'c2'])
+
+    const merged = await service.merge('c1', ['c2'])
+
+    expect(merged).toMatchObject({ phone: '05321112233', email: 'ayse@example.com', tags: ['sadık', 'kurumsal'] })
+    expect(db.rows('customers')).toHaveLength(1)
+    expect(db.rows('orders').every(o => o.customer_id === 'c1')).toBe(true)
+    expect(await service.findDuplicates()).toEqual([])
+  })
+
+  it('rolls a failed merge back', async () => {
+    db = new FakePostgrest({
+      customers: [
+        { id: 'c1', name: 'A', phone: '05321112233', email: null, notes: null, tags: [] },
+        { id: 'c2', name: 'A', phone: null, email: 'a@example.com', notes: null, tags: [] }
+      ],
+      orders: [{ id: 'o2', customer_id: 'c2', totalAmount: 200, status: 'DELIVERED' }]
+    })
+    db.failOn('customers', 'update')
+    service = new CustomerService(db)
+
+    await expect(service.merge('c1', ['c2'])).rejects.toThrow()
+
+    expect(db.rows('customers').map(c => c.id).sort()).toEqual(['c1', 'c2'])
+    expect(db.rows('orders')[0].customer_id).toBe('c2')
+  })
+})
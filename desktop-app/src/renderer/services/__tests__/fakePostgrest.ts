@@ -0,0 +1,378 @@
+/**
+ * In-memory PostgREST stand-in for service tests
+ * Mimics the supabase-js query builder closely enough for the services,
+ * and lets tests inject failures on specific table operations. The database
+ * functions of supabase/migrations the services call are reimplemented on the
+ * in-memory tables (failures on them are injected with the 'rpc' operation).
+ */
+
+type Operation = 'select' | 'insert' | 'update' | 'delete' | 'upsert' | 'rpc'
+
+interface FailureRule {
+  table: string
+  operation: Operation
+  remaining: number
+  skip: number
+  message: string
+}
+
+type Row = Record<string, any>
+
+export class FakePostgrest {
+  public tables: Record<string, Row[]> = {}
+  public log: Array<{ table: string; operation: Operation }> = []
+  private failures: FailureRule[] = []
+  private nextId = 1
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      this.tables[table] = rows.map(row => ({ ...row }))
+    }
+  }
+
+  /**
+   * Make the (skip + 1)-th matching operation fail
+   */
+  failOn(table: string, operation: Operation, options: { skip?: number; times?: number; message?: string } = {}) {
+    this.failures.push({
+      table,
+      operation,
+      skip: options.skip || 0,
+      remaining: options.times || 1,
+      message: options.message || `Injected ${operation} failure on ${table}`
+    })
+    return this
+  }
+
+  rows(table: string): Row[] {
+    return this.tables[table] || []
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table)
+  }
+
+  rpc(fn: string, args: Record<string, any> = {}): Promise<{ data: any; error: { message: string; code: string } | null }> {
+    return Promise.resolve().then(() => {
+      const failure = this.checkFailure(fn, 'rpc')
+      if (failure) {
+        return { data: null, error: { message: failure, code: 'FAKE' } }
+      }
+      const implementation = FUNCTIONS[fn]
+      if (!implementation) {
+        return { data: null, error: { message: `Function ${fn} not supported by FakePostgrest`, code: 'PGRST202' } }
+      }
+      try {
+        return { data: implementation(this, args) ?? null, error: null }
+      } catch (error) {
+        return { data: null, error: { message: (error as Error).message, code: 'P0001' } }
+      }
+    })
+  }
+
+  /** @internal */
+  generateId(): string {
+    return `fake-${this.nextId++}`
+  }
+
+  /** @internal */
+  checkFailure(table: string, operation: Operation): string | null {
+    this.log.push({ table, operation })
+    const rule = this.failures.find(f => f.table === table && f.operation === operation && f.remaining > 0)
+    if (!rule) return null
+    if (rule.skip > 0) {
+      rule.skip--
+      return null
+    }
+    rule.remaining--
+    return rule.message
+  }
+}
+
+// Each function checks everything before it changes a row, so a failed call
+// leaves the tables as they were, like the database transaction would
+
+const stockDelta = (movementType: string, quantity: number) =>
+  movementType === 'OUT' ? -Math.abs(quantity) : movementType === 'ADJUSTMENT' ? quantity : Math.abs(quantity)
+
+function netStockChanges(movements: Row[]): Map<string, number> {
+  const changes = new Map<string, number>()
+  for (const movement of movements) {
+    const delta = stockDelta(movement.movement_type, Number(movement.quantity) || 0)
+    changes.set(movement.raw_material_id, (changes.get(movement.raw_material_id) || 0) + delta)
+  }
+  return changes
+}
+
+function lockOrder(db: FakePostgrest, orderId: string, status: string): Row {
+  const order = db.rows('orders').find(row => row.id === orderId && row.status === status)
+  if (!order) throw new Error(`Order ${orderId} is no longer ${status}`)
+  return order
+}
+
+function adjustStock(db: FakePostgrest, changes: Map<string, number>): () => void {
+  const materials = [...changes.keys()].map(id => {
+    const material = db.rows('raw_materials').find(row => row.id === id)
+    if (!material) throw new Error(`Raw material ${id} not found`)
+    return material
+  })
+  return () => materials.forEach(material => {
+    material.stock_quantity = (Number(material.stock_quantity) || 0) + changes.get(material.id)!
+  })
+}
+
+const FUNCTIONS: Record<string, (db: FakePostgrest, args: Record<string, any>) => any> = {
+  apply_order_status_change(db, args) {
+    const order = lockOrder(db, args.p_order_id, args.p_from_status)
+    const movements: Row[] = args.p_movements || []
+    const applyStock = adjustStock(db, netStockChanges(movements))
+
+    Object.assign(order, args.p_fields || {}, { status: args.p_to_status, updatedAt: new Date().toISOString() })
+    const rows = movements.map(movement => ({
+      id: db.generateId(),
+      created_at: new Date().toISOString(),
+      ...movement,
+      order_id: movement.order_id ?? args.p_order_id
+    }))
+    db.tables.stock_movements = [...db.rows('stock_movements'), ...rows]
+    applyStock()
+    return rows.map(row => row.id)
+  },
+
+  revert_order_status_change(db, args) {
+    const order = lockOrder(db, args.p_order_id, args.p_from_status)
+    const ids: string[] = args.p_movement_ids || []
+    const movements = db.rows('stock_movements').filter(row => ids.includes(row.id))
+    const changes = new Map([...netStockChanges(movements)].map(([id, delta]) => [id, -delta]))
+    const applyStock = adjustStock(db, changes)
+
+    Object.assign(order, args.p_fields || {}, { status: args.p_to_status })
+    db.tables.stock_movements = db.rows('stock_movements').filter(row => !ids.includes(row.id))
+    applyStock()
+  },
+
+  adjust_material_stock(db, args) {
+    adjustStock(db, new Map([[args.p_material_id, Number(args.p_delta) || 0]]))()
+    return db.rows('raw_materials').find(row => row.id === args.p_material_id)!.stock_quantity
+  }
+}
+
+class FakeQuery {
+  private operation: Operation = 'select'
+  private payload: any = null
+  private conflictColumns = ['id']
+  private ignoreDuplicates = false
+  private filters: Array<(row: Row) => boolean> = []
+  private orderBy: { column: string; ascending: boolean }[] = []
+  private limitCount: number | null = null
+  private offset = 0
+  private singleMode: 'single' | 'maybe' | null = null
+  private countMode = false
+  private headOnly = false
+
+  constructor(private db: FakePostgrest, private table: string) {}
+
+  select(_columns?: string, options: { count?: string; head?: boolean } = {}) {
+    if (this.operation === 'select') {
+      this.countMode = !!options.count
+      this.headOnly = !!options.head
+    }
+    return this
+  }
+
+  insert(data: Row | Row[]) {
+    this.operation = 'insert'
+    this.payload = data
+    return this
+  }
+
+  upsert(data: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.operation = 'upsert'
+    this.payload = data
+    this.conflictColumns = (options.onConflict || 'id').split(',').map(column => column.trim())
+    this.ignoreDuplicates = !!options.ignoreDuplicates
+    return this
+  }
+
+  update(data: Row) {
+    this.operation = 'update'
+    this.payload = data
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: any) {
+    this.filters.push(row => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: any[]) {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  gte(column: string, value: any) {
+    this.filters.push(row => row[column] >= value)
+    return this
+  }
+
+  lte(column: string, value: any) {
+    this.filters.push(row => row[column] <= value)
+    return this
+  }
+
+  gt(column: string, value: any) {
+    this.filters.push(row => row[column] > value)
+    return this
+  }
+
+  lt(column: string, value: any) {
+    this.filters.push(row => row[column] < value)
+    return this
+  }
+
+  is(column: string, value: any) {
+    this.filters.push(row => (row[column] ?? null) === value)
+    return this
+  }
+
+  not(column: string, operator: string, value: any) {
+    if (operator === 'is') {
+      this.filters.push(row => (row[column] ?? null) !== value)
+    }
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderBy.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  limit(count: number) {
+    this.limitCount = count
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.offset = from
+    this.limitCount = to - from + 1
+    return this
+  }
+
+  single() {
+    this.singleMode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybe'
+    return this
+  }
+
+  then(resolve: (value: any) => any, reject?: (reason: any) => any) {
+    return Promise.resolve().then(() => this.execute()).then(resolve, reject)
+  }
+
+  private execute(): { data: any; error: any; count?: number } {
+    const failure = this.db.checkFailure(this.table, this.operation)
+    if (failure) {
+      return { data: null, error: { message: failure, code: 'FAKE' } }
+    }
+
+    const table = (this.db.tables[this.table] = this.db.tables[this.table] || [])
+    const matches = (row: Row) => this.filters.every(filter => filter(row))
+    let result: Row[] = []
+
+    // Primary key, as Postgres enforces it
+    if (this.operation === 'insert') {
+      const rows: Row[] = Array.isArray(this.payload) ? this.payload : [this.payload]
+      if (rows.some(row => row.id != null && table.some(existing => existing.id === row.id))) {
+        return { data: null, error: { message: `duplicate key value violates unique constraint "${this.table}_pkey"`, code: '23505' } }
+      }
+    }
+
+    switch (this.operation) {
+      case 'select':
+        result = table.filter(matches)
+        break
+      case 'insert': {
+        const rows = Array.isArray(this.payload) ? this.payload : [this.payload]
+        result = rows.map(row => ({ id: this.db.generateId(), created_at: new Date().toISOString(), ...row }))
+        table.push(...result)
+        break
+      }
+      case 'upsert': {
+        const rows = Array.isArray(this.payload) ? this.payload : [this.payload]
+        result = []
+        for (const row of rows) {
+          const existing = this.conflictColumns.every(column => row[column] != null)
+            ? table.find(r => this.conflictColumns.every(column => r[column] === row[column]))
+            : undefined
+          if (existing) {
+            // Like ON CONFLICT DO NOTHING, skipped rows are not returned
+            if (this.ignoreDuplicates) continue
+            Object.assign(existing, row)
+            result.push(existing)
+            continue
+          }
+          const created = { id: this.db.generateId(), created_at: new Date().toISOString(), ...row }
+          table.push(created)
+          result.push(created)
+        }
+        break
+      }
+      case 'update':
+        result = table.filter(matches)
+        for (const row of result) {
+          for (const [key, value] of Object.entries(this.payload)) {
+            if (value !== undefined) row[key] = value
+          }
+        }
+        break
+      case 'delete':
+        result = table.filter(matches)
+        this.db.tables[this.table] = table.filter(row => !matches(row))
+        break
+    }
+
+    result = result.map(row => ({ ...row }))
+
+    // Later order() calls break ties of the earlier ones
+    if (this.orderBy.length > 0) {
+      result.sort((a, b) => {
+        for (const { column, ascending } of this.orderBy) {
+          const compared = a[column] > b[column] ? 1 : a[column] < b[column] ? -1 : 0
+          if (compared !== 0) return compared * (ascending ? 1 : -1)
+        }
+        return 0
+      })
+    }
+
+    if (this.limitCount !== null) {
+      result = result.slice(this.offset, this.offset + this.limitCount)
+    }
+
+    if (this.countMode) {
+      return { data: this.headOnly ? null : result, error: null, count: result.length }
+    }
+
+    if (this.singleMode) {
+      if (result.length === 0 && this.singleMode === 'maybe') return { data: null, error: null }
+      if (result.length !== 1) return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } }
+      return { data: result[0], error: null }
+    }
+
+    return { data: result, error: null }
+  }
+}
+
+export default FakePostgrest
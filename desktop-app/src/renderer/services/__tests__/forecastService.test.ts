@@ -0,0 +1,146 @@
+/**
+ * Forecast Service Tests
+ * Moving-average and seasonal usage projections against the next delivery
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import {
+  ForecastService,
+  ForecastMovementInput,
+  forecastConsumption,
+  movingAverageDaily,
+  seasonalIndex,
+  weekOfYear
+} from '../forecastService'
+
+const NOW = new Date('2025-03-31T00:00:00.000Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const out = (daysAgo: number, quantity: number, id = 'mat-1'): ForecastMovementInput => ({
+  raw_material_id: id,
+  quantity,
+  created_at: new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString()
+})
+
+// Daily usage of 1 for the last `days` days, `peak` per day in April of last year
+const history = (days: number, peak = 1): ForecastMovementInput[] => {
+  const movements: ForecastMovementInput[] = []
+  for (let daysAgo = 1; daysAgo <= days; daysAgo++) {
+    const date = new Date(NOW.getTime() - daysAgo * DAY_MS)
+    movements.push(out(daysAgo, date.getUTCFullYear() === 2024 && date.getUTCMonth() === 3 ? peak : 1))
+  }
+  return movements
+}
+
+describe('forecast helpers', () => {
+  it('numbers weeks 1-52', () => {
+    expect(weekOfYear(new Date('2025-01-01T00:00:00.000Z'))).toBe(1)
+    expect(weekOfYear(new Date('2025-01-08T00:00:00.000Z'))).toBe(2)
+    expect(weekOfYear(new Date('2024-12-31T00:00:00.000Z'))).toBe(52)
+  })
+
+  it('averages usage over the moving window only', () => {
+    expect(movingAverageDaily([out(1, 30), out(20, 26), out(40, 100)], NOW)).toBe(2)
+  })
+
+  it('counts legacy negative OUT quantities as usage', () => {
+    expect(movingAverageDaily([out(1, -30), out(20, 26)], NOW)).toBe(2)
+    expect(seasonalIndex(history(400).map(m => ({ ...m, quantity: -m.quantity })), NOW))
+      .toEqual(seasonalIndex(history(400), NOW))
+  })
+
+  it('needs a year of history for the seasonal index', () => {
+    expect(seasonalIndex(history(200), NOW)).toBeNull()
+    expect(seasonalIndex(history(400), NOW)).not.toBeNull()
+  })
+})
+
+describe('forecastConsumption', () => {
+  const material = { id: 'mat-1', stock_quantity: 10, lead_time_days: 7 }
+
+  it('projects the stockout from the moving average', () => {
+    const forecast = forecastConsumption(material, history(60), null, NOW)
+
+    expect(forecast.method).toBe('MOVING_AVERAGE')
+    expect(forecast.days_until_stockout).toBe(10)
+    expect(forecast.stockout_date).toBe('2025-04-10')
+    expect(forecast.next_delivery_date).toBe('2025-04-07')
+    expect(forecast.runs_out_before_delivery).toBe(false)
+  })
+
+  it('flags materials that run out before the next delivery', () => {
+    const forecast = forecastConsumption({ ...material, lead_time_days: 14 }, history(60), null, NOW)
+
+    expect(forecast.runs_out_before_delivery).toBe(true)
+  })
+
+  it('uses the expected date of an open purchase order as next delivery', () => {
+    const forecast = forecastConsumption({ ...material, lead_time_days: 30 }, history(60), '2025-04-05', NOW)
+
+    expect(forecast.next_delivery_date).toBe('2025-04-05')
+    expect(forecast.runs_out_before_delivery).toBe(false)
+  })
+
+  it('anticipates a seasonal peak the moving average misses', () => {
+    const forecast = forecastConsumption({ ...material, stock_quantity: 30 }, history(450, 5), null, NOW)
+
+    expect(forecast.method).toBe('SEASONAL')
+    expect(forecast.moving_average_daily).toBe(1)
+    expect(forecast.days_until_stockout!).toBeLessThan(15)
+  })
+
+  it('reports no stockout without consumption', () => {
+    const forecast = forecastConsumption(material, [], null, NOW)
+
+    expect(forecast.days_until_stockout).toBeNull()
+    expect(forecast.runs_out_before_delivery).toBe(false)
+  })
+})
+
+describe('ForecastService', () => {
+  it('reads OUT movements and open purchase orders per material', async () => {
+    const db = new FakePostgrest({
+      raw_materials: [
+        { id: 'mat-1', stock_quantity: 10, lead_time_days: 14 },
+        { id: 'mat-2', stock_quantity: 10, lead_time_days: 14 }
+      ],
+      stock_movements: [
+        { ...out(5, 28), movement_type: 'OUT' },
+        { ...out(5, 500), movement_type: 'IN' },
+        { ...out(5, 28, 'mat-2'), movement_type: 'OUT' }
+      ],
+      supplier_orders: [
+        { id: 'po-1', supplier_id: 'sup-1', status: 'ORDERED', expected_date: '2025-04-03', items_json: [{ material_id: 'mat-2', quantity: 5 }] }
+      ]
+    })
+
+    const forecasts = await new ForecastService(db).getForecasts(undefined, NOW)
+
+    expect(forecasts.map(f => [f.raw_material_id, f.moving_average_daily, f.runs_out_before_delivery])).toEqual([
+      ['mat-1', 1, true],
+      ['mat-2', 1, false]
+    ])
+  })
+
+  it('reads OUT movements beyond the first page', async () => {
+    const movements = Array.from({ length: 2800 }, (_, i) => ({ ...out(1, 0.01), id: `mv-${String(i).padStart(4, '0')}`, movement_type: 'OUT' }))
+    const db = new FakePostgrest({
+      raw_materials: [{ id: 'mat-1', stock_quantity: 100, lead_time_days: 14 }],
+      stock_movements: movements,
+      supplier_orders: []
+    })
+
+    const [forecast] = await new ForecastService(db).getForecasts(undefined, NOW)
+
+    expect(forecast.moving_average_daily).toBeCloseTo(1)
+    expect(db.log.filter(entry => entry.table === 'stock_movements')).toHaveLength(3)
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Import Service Tests
+ * Encoding detection, CSV parsing, column mapping and idempotent dry-run/commit
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: { getClient: vi.fn(() => ({})) },
+}))
+
+import {
+  ImportService,
+  IMPORT_DEFINITIONS,
+  decodeFile,
+  parseCsv,
+  parseImportNumber,
+  parseImportDate,
+  suggestMapping
+} from '../importService'
+
+const materialsCsv = [
+  'Malzeme Adı;Stok;Birim;Fiyat;Tedarikçi',
+  'Keten Kumaş;12,5;m;85,00;Kumaşçı',
+  'Pamuk İplik;3;adet;1.250;',
+  ';4;adet;10;',
+  'Kurdele;2;m;5;Bilinmeyen Firma'
+].join('\r\n')
+
+const seed = () => ({
+  suppliers: [{ id: 's1', name: 'Kumaşçı' }],
+  raw_materials: [{ id: 'm1', name: 'keten kumaş', stock_quantity: 7, stock_unit: 'm', unit_price_try: 80 }],
+  stock_movements: [],
+  material_price_history: []
+})
+
+const materialsImport = () => {
+  const sheet = parseCsv(materialsCsv)
+  return { sheet, mapping: suggestMapping(IMPORT_DEFINITIONS.materials, sheet.headers) }
+}
+
+describe('reading files', () => {
+  it('detects UTF-8, Windows-1254 and UTF-16 files', () => {
+    // "Ad Soyadı" as Turkish Excel saves it: ı is 0xFD in Windows-1254
+    const win1254 = new Uint8Array([0x41, 0x64, 0x20, 0x53, 0x6f, 0x79, 0x61, 0x64, 0xfd])
+    expect(decodeFile(win1254)).toEqual({ text: 'Ad Soyadı', encoding: 'windows-1254' })
+
+    const utf8 = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('Ad Soyadı')])
+    expect(decodeFile(utf8)).toEqual({ text: 'Ad Soyadı', encoding: 'utf-8' })
+
+    const utf16 = new Uint8Array([0xff, 0xfe, 0x41, 0x00, 0x31, 0x01])
+    expect(decodeFile(utf16)).toEqual({ text: 'Aı', encoding: 'utf-16le' })
+  })
+
+  it('parses delimited text with quoted cells and keeps file line numbers', () => {
+    const sheet = parseCsv('Ad,Not\n"Masa, büyük","iki\nsatır"\n\n"""Özel""",x\n')
+
+    expect(sheet.delimiter).toBe(',')
+    expect(sheet.headers).toEqual(['Ad', 'Not'])
+    expect(sheet.rows).toEqual([
+      { line: 2, cells: ['Masa, büyük', 'iki\nsatır'] },
+      { line: 5, cells: ['"Özel"', 'x'] }
+    ])
+    expect(parseCsv('a;b\tc\n1;2\t3').delimiter).toBe(';')
+  })
+
+  it('reads Turkish and plain number and date notations', () => {
+    expect(parseImportNumber('1.234,50 TL')).toBe(1234.5)
+    expect(parseImportNumber('12,5')).toBe(12.5)
+    expect(parseImportNumber('1.500')).toBe(1500)
+    expect(parseImportNumber('0.125')).toBe(0.125)
+    expect(parseImportNumber('1,234.5')).toBe(1234.5)
+    expect(parseImportNumber('₺85')).toBe(85)
+    expect(parseImportNumber('on iki')).toBeNaN()
+
+    expect(parseImportDate('05.03.2024')).toBe('2024-03-05')
+    expect(parseImportDate('2024-03-05T10:00:00Z')).toBe('2024-03-05')
+    expect(parseImportDate('31.02.2024')).toBeNull()
+  })
+
+  it('suggests a mapping from Turkish headers', () => {
+    const { mapping } = materialsImport()
+    expect(mapping).toMatchObject({ name: 0, stock_quantity: 1, stock_unit: 2, unit_price_try: 3, supplier_name: 4, notes: null })
+  })
+})
+
+describe('ImportService', () => {
+  it('reports inserts, updates and errors without writing', async () => {
+    const db = new FakePostgrest(seed())
+    const { sheet, mapping } = materialsImport()
+
+    const report = await new ImportService(db).dryRun('materials', sheet, mapping)
+
+    expect(report).toMatchObject({ inserts: 1, updates: 1, unchanged: 0, errors: 2 })
+    expect(report.rows.map(row => [row.line, row.action])).toEqual([[2, 'update'], [3, 'insert'], [4, 'error'], [5, 'error']])
+    // Stock of an existing material is left to the ledger
+    expect(report.rows[0]).toMatchObject({ id: 'm1', values: { unit_price_try: 85, supplier_id: 's1' }, previous: { unit_price_try: 80 } })
+    expect(report.rows[2].errors).toEqual(['Malzeme Adı is required'])
+    expect(report.rows[3].errors).toEqual(['Tedarikçi not found: Bilinmeyen Firma'])
+    expect(db.log.filter(entry => entry.operation !== 'select')).toEqual([])
+  })
+
+  it('commits valid rows with opening stock and price history, and changes nothing the second time', async () => {
+    const db = new FakePostgrest(seed())
+    const service = new ImportService(db)
+    const { sheet, mapping } = materialsImport()
+
+    const result = await service.commit('materials', sheet, mapping, new Date('2024-03-01T09:00:00Z'))
+
+    expect(result).toEqual({ inserted: 1, updated: 1, unchanged: 0, skipped: 2 })
+    const pamuk = db.rows('raw_materials').find(row => row.name === 'Pamuk İplik')!
+    expect(pamuk).toMatchObject({ stock_quantity: 3, unit_price_try: 1250, price_date: '2024-03-01' })
+    expect(db.rows('raw_materials').find(row => row.id === 'm1')).toMatchObject({ stock_quantity: 7, unit_price_try: 85, supplier_id: 's1' })
+    expect(db.rows('stock_movements')).toMatchObject([{ raw_material_id: pamuk.id, movement_type: 'IN', quantity: 3 }])
+    expect(db.rows('material_price_history').map(row => [row.raw_material_id, row.old_price, row.new_price, row.source])).toEqual([
+      [pamuk.id, null, 1250, 'IMPORT'],
+      ['m1', 80, 85, 'IMPORT']
+    ])
+
+    const again = await service.commit('materials', sheet, mapping)
+    expect(again).toEqual({ inserted: 0, updated: 0, unchanged: 2, skipped: 2 })
+    expect(db.rows('raw_materials')).toHaveLength(2)
+    expect(db.rows('stock_movements')).toHaveLength(1)
+  })
+
+  it('matches products on SKU first, then name, and flags repeated keys', async () => {
+    const db = new FakePostgrest({
+      products: [
+        { id: 'p1', name: 'Masa Örtüsü', sku: 'MO-01', price: 100 },
+        { id: 'p2', name: 'Peçete', sku: null, price: 20 }
+      ]
+    })
+    const sheet = parseCsv('Ürün Adı,SKU,Fiyat\nMasa Örtüsü Büyük,MO-01,120\npeçete,PC-01,20\nAmerikan Servis,AS-01,30\nKopya,AS-01,30')
+    const mapping = suggestMapping(IMPORT_DEFINITIONS.products, sheet.headers)
+
+    const report = await new ImportService(db).dryRun('products', sheet, mapping)
+
+    expect(report.rows.map(row => [row.action, row.id])).toEqual([['update', 'p1'], ['update', 'p2'], ['insert', null], ['error', null]])
+    expect(report.rows[1].values).toEqual({ name: 'peçete', sku: 'PC-01' })
+    expect(report.rows[2].values).toMatchObject({ isActive: true, price: 30 })
+    expect(report.rows[3].errors).toEqual(['Same sku as line 4'])
+  })
+
+  it('puts written rows back when a later step fails', async () => {
+    const db = new FakePostgrest(seed()).failOn('material_price_history', 'insert')
+    const { sheet, mapping } = materialsImport()
+
+    await expect(new ImportService(db).commit('materials', sheet, mapping)).rejects.toThrow('Injected insert failure')
+    expect(db.rows('raw_materials')).toHaveLength(1)
+    expect(db.rows('raw_materials')[0]).toMatchObject({ name: 'keten kumaş', unit_price_try: 80, supplier_id: null })
+    expect(db.rows('stock_movements')).toEqual([])
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Main Process IPC Tests
+ * Payload validation, result wrapping and services running on the main client
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { ipcHandlers, handleIpcRequest, IpcContext } from '../../../main/ipc'
+import { unwrapIpc } from '../mainProcess'
+
+describe('main process IPC handlers', () => {
+  let db: FakePostgrest
+  let context: IpcContext
+
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    db = new FakePostgrest({
+      raw_materials: [{ id: 'mat-1', name: 'Kurdele', stock_quantity: 40 }],
+      stock_movements: [],
+      orders: [{ id: 'order-1', status: 'DELIVERED' }]
+    })
+    context = { client: db, user: 'atolye' }
+  })
+
+  it('rejects malformed payloads before touching the database', async () => {
+    const handler = ipcHandlers['stock:set-quantity']
+
+    expect(await handleIpcRequest('stock:set-quantity', handler, { materialId: 'mat-1', quantity: -5, reason: 'Sayım' }, context))
+      .toEqual({ success: false, error: 'quantity must be at least 0', code: 'IPC_VALIDATION' })
+    expect(await handleIpcRequest('stock:set-quantity', handler, 'mat-1', context))
+      .toMatchObject({ success: false, error: 'request must be an object' })
+    expect(await handleIpcRequest('orders:update-status', ipcHandlers['orders:update-status'], { orderId: 'order-1', status: 'LOST' }, context))
+      .toMatchObject({ success: false, code: 'IPC_VALIDATION' })
+    expect(await handleIpcRequest('import:commit', ipcHandlers['import:commit'], {
+      target: 'materials',
+      sheet: { headers: ['Malzeme Adı'], rows: [{ line: 2, cells: ['Keten'] }], delimiter: ';' },
+      mapping: { name: 3 }
+    }, context)).toEqual({ success: false, error: 'mapping.name must be at most 0', code: 'IPC_VALIDATION' })
+    expect(db.log).toEqual([])
+  })
+
+  it('passes only the validated fields of an order on to the service', () => {
+    const { order } = ipcHandlers['orders:create'].validate({
+      order: {
+        customerName: 'Ayşe',
+        customerEmail: null,
+        order_source: 'INSTAGRAM',
+        shipping_method: 'CARGO',
+        status: 'DELIVERED',
+        totalAmount: 0,
+        items: [{ productId: 'p1', quantity: 2, price: 100, cost: 0 }]
+      }
+    })
+
+    expect(order).not.toHaveProperty('status')
+    expect(order).not.toHaveProperty('totalAmount')
+    expect(order).toMatchObject({ customerName: 'Ayşe', customerEmail: undefined, order_source: 'INSTAGRAM' })
+    expect(order.items).toEqual([{ productId: 'p1', quantity: 2, price: 100, personalization: undefined }])
+  })
+
+  it('runs the service with the main process client and returns its data', async () => {
+    const result = await handleIpcRequest(
+      'stock:set-quantity',
+      ipcHandlers['stock:set-quantity'],
+      { materialId: 'mat-1', quantity: 25, reason: 'Sayım' },
+      context
+    )
+
+    expect(result).toEqual({ success: true, data: undefined })
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(25)
+    expect(db.rows('stock_movements')).toEqual([expect.objectContaining({ raw_material_id: 'mat-1', quantity: -15 })])
+  })
+
+  it('returns service errors as results that unwrapIpc rethrows', async () => {
+    const result = await handleIpcRequest(
+      'orders:update-status',
+      ipcHandlers['orders:update-status'],
+      { orderId: 'order-1', status: 'PENDING' },
+      context
+    )
+
+    expect(result).toEqual({ success: false, error: 'Invalid status transition from DELIVERED to PENDING' })
+    expect(() => unwrapIpc(result)).toThrow('Invalid status transition')
+  })
+
+  it('passes only the validated fields of price proposals and order details on', () => {
+    const { proposals } = ipcHandlers['pricing:apply-proposals'].validate({
+      proposals: [{
+        product_id: 'p1',
+        product_name: 'Kutu',
+        recipe_cost: 40,
+        current_price: 100,
+        suggested_price: 120,
+        rule_id: 'rule-1',
+        rule_name: '%40 kar marjı',
+        price: 1
+      }]
+    })
+
+    expect(proposals).toEqual([
+      { product_id: 'p1', product_name: 'Kutu', recipe_cost: 40, current_price: 100, suggested_price: 120, rule_id: 'rule-1' }
+    ])
+    expect(ipcHandlers['orders:update-details'].validate({
+      orderId: 'order-1',
+      details: { admin_notes: null, status: 'DELIVERED' }
+    })).toEqual({ orderId: 'order-1', details: { admin_notes: null } })
+    expect(() => ipcHandlers['payments:record'].validate({ orderId: 'order-1', payment: { amount: 50, method: 'CHEQUE' } }))
+      .toThrow('payment.method must be one of')
+  })
+
+  it('writes order details with the main process client', async () => {
+    const result = await handleIpcRequest(
+      'orders:update-details',
+      ipcHandlers['orders:update-details'],
+      { orderId: 'order-1', details: { admin_notes: 'Kargoya verildi' } },
+      context
+    )
+
+    expect(result).toEqual({ success: true, data: undefined })
+    expect(db.rows('orders')[0]).toMatchObject({ status: 'DELIVERED', admin_notes: 'Kargoya verildi' })
+  })
+})
+
+describe('renderer Supabase client', () => {
+  it('is created on first use, so the main bundle loads without the anon key', async () => {
+    vi.stubEnv('VITE_SUPABASE_ANON_KEY', '')
+    try {
+      const { supabaseManager } = await vi.importActual<typeof import('../../SupabaseClient')>('../../SupabaseClient')
+
+      expect(() => supabaseManager.getClient()).toThrow('Missing Supabase environment variables')
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+})
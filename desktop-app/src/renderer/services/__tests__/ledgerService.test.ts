@@ -0,0 +1,109 @@
+/**
+ * Ledger Service Tests
+ * Reconciling cached stock with the movement ledger
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { LedgerService, reconcileLedger, movementDelta } from '../ledgerService'
+import { TransactionError } from '../transaction'
+
+const seed = () => ({
+  raw_materials: [
+    { id: 'mat-1', name: 'Kurdele', stock_unit: 'm', stock_quantity: 12 },
+    { id: 'mat-2', name: 'Kutu', stock_unit: 'adet', stock_quantity: 30 },
+    { id: 'mat-3', name: 'Boya', stock_unit: 'lt', stock_quantity: 4 }
+  ],
+  stock_movements: [
+    { id: 'mv-1', raw_material_id: 'mat-1', movement_type: 'IN', quantity: 20 },
+    { id: 'mv-2', raw_material_id: 'mat-1', movement_type: 'OUT', quantity: 5 },
+    { id: 'mv-3', raw_material_id: 'mat-1', movement_type: 'ADJUSTMENT', quantity: -3 },
+    { id: 'mv-4', raw_material_id: 'mat-2', movement_type: 'IN', quantity: 25 },
+    { id: 'mv-5', raw_material_id: 'mat-3', movement_type: 'IN', quantity: 6 },
+    { id: 'mv-6', raw_material_id: 'mat-3', movement_type: 'OUT', quantity: -2 }
+  ]
+})
+
+describe('reconcileLedger', () => {
+  it('reads legacy negative OUT rows by absolute value', () => {
+    expect(movementDelta({ raw_material_id: 'mat-1', movement_type: 'OUT', quantity: -2 })).toBe(-2)
+    expect(movementDelta({ raw_material_id: 'mat-1', movement_type: 'ADJUSTMENT', quantity: -2 })).toBe(-2)
+  })
+
+  it('lists only materials whose cached quantity drifted', () => {
+    const { raw_materials, stock_movements } = seed()
+
+    expect(reconcileLedger(raw_materials, stock_movements)).toEqual([{
+      raw_material_id: 'mat-2',
+      name: 'Kutu',
+      unit: 'adet',
+      cached_quantity: 30,
+      ledger_quantity: 25,
+      difference: 5,
+      movement_count: 1
+    }])
+  })
+
+  it('ignores floating point noise', () => {
+    expect(reconcileLedger(
+      [{ id: 'mat-1', name: 'Kurdele', stock_unit: 'm', stock_quantity: 0.3 }],
+      [
+        { raw_material_id: 'mat-1', movement_type: 'IN', quantity: 0.1 },
+        { raw_material_id: 'mat-1', movement_type: 'IN', quantity: 0.2 }
+      ]
+    )).toEqual([])
+  })
+})
+
+describe('LedgerService', () => {
+  let db: FakePostgrest
+  let service: LedgerService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new LedgerService(db)
+  })
+
+  it('rebuilds the cached quantity from the ledger', async () => {
+    const result = await service.rebuildCache(['mat-2'])
+
+    expect(result.fixed).toEqual(['mat-2'])
+    expect(db.rows('raw_materials')[1].stock_quantity).toBe(25)
+    expect(await service.check()).toEqual([])
+  })
+
+  it('posts a corrective ADJUSTMENT that keeps the cached quantity', async () => {
+    await service.createCorrections(['mat-2'])
+
+    expect(db.rows('stock_movements').at(-1)).toMatchObject({
+      raw_material_id: 'mat-2', movement_type: 'ADJUSTMENT', quantity: 5, reason: 'Ledger correction'
+    })
+    expect(db.rows('raw_materials')[1].stock_quantity).toBe(30)
+    expect(await service.check()).toEqual([])
+  })
+
+  it('writes manual stock changes to raw materials together with a ledger entry', async () => {
+    await service.setQuantity('mat-1', 9, 'Manual update')
+
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(9)
+    expect(db.rows('stock_movements').at(-1)).toMatchObject({ movement_type: 'ADJUSTMENT', quantity: -3 })
+    expect(db.rows('products')).toHaveLength(0)
+    expect(await service.check()).toHaveLength(1)
+  })
+
+  it('restores the stock when the ledger entry cannot be written', async () => {
+    db.failOn('stock_movements', 'insert')
+
+    const error = await service.setQuantity('mat-1', 9, 'Manual update').catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(12)
+  })
+})
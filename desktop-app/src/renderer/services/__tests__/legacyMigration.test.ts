@@ -0,0 +1,135 @@
+/**
+ * Legacy Migration Tests
+ * Sheet row mapping, resume after a failed batch with stable ids, and source/target verification
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: { getClient: vi.fn(() => ({})) },
+}))
+
+import { LegacyMigration, MigrationSource, MigrationState, MigrationCheckpoint, SourceRow, sampleEvenly } from '../../../main/migration'
+import { customersMapper, productsMapper, slugify } from '../../../main/migration/mappers'
+
+class MemorySource implements MigrationSource {
+  constructor(private tables: Record<string, SourceRow[]>) {}
+
+  async read(table: string, options: { afterRowid: number; limit: number }): Promise<SourceRow[]> {
+    return (this.tables[table] || []).filter(row => row._rowid > options.afterRowid).slice(0, options.limit)
+  }
+}
+
+class MemoryState implements MigrationState {
+  checkpoints = new Map<string, MigrationCheckpoint>()
+  ids = new Map<string, Map<string, string>>()
+
+  async getCheckpoint(mapper: string) { return this.checkpoints.get(mapper) || null }
+  async saveCheckpoint(checkpoint: MigrationCheckpoint) { this.checkpoints.set(checkpoint.mapper, checkpoint) }
+  async resetCheckpoint(mapper: string) { this.checkpoints.delete(mapper) }
+  async allIds(mapper: string) { return new Map(this.ids.get(mapper) || []) }
+
+  async getIds(mapper: string, legacyIds: string[]) {
+    const ids = this.ids.get(mapper) || new Map()
+    return new Map(legacyIds.filter(id => ids.has(id)).map(id => [id, ids.get(id)!]))
+  }
+
+  async saveIds(mapper: string, ids: Map<string, string>) {
+    this.ids.set(mapper, new Map([...(this.ids.get(mapper) || []), ...ids]))
+  }
+}
+
+const customerSheet = (): SourceRow[] => [
+  { _rowid: 1, 'Unnamed: 3': 'MÜŞTERİLER' },
+  { _rowid: 2, 'Unnamed: 2': 'No', 'Unnamed: 3': 'Ad Soyadı', 'Unnamed: 4': 'Telefon' },
+  { _rowid: 3, 'Unnamed: 2': 1, 'Unnamed: 3': ' Ayşe Yılmaz ', 'Unnamed: 4': '0532 123 45 67', 'Unnamed: 5': 'Atatürk Cad. 5', 'Unnamed: 6': 'İzmir', 'Unnamed: 7': 'Bornova' },
+  { _rowid: 4, 'Unnamed: 2': 2, 'Unnamed: 3': 'Mehmet Kaya', 'Unnamed: 4': 5551112233 },
+  { _rowid: 6, 'Unnamed: 2': 3, 'Unnamed: 3': 'Zeynep Ak', 'Unnamed: 4': 'yok' },
+  { _rowid: 7, 'Unnamed: 2': 4, 'Unnamed: 3': 'Ali Veli' }
+]
+
+const setup = () => {
+  const source = new MemorySource({ 'V_Müşteriler': customerSheet() })
+  const state = new MemoryState()
+  const db = new FakePostgrest({ customers: [] })
+  return { source, state, db, migration: new LegacyMigration(source, state, db, [customersMapper]) }
+}
+
+describe('mappers', () => {
+  it('skips sheet title and header rows and normalizes contact details', () => {
+    const rows = customerSheet().map(row => customersMapper.map(row, 'id', '2024-03-01T00:00:00.000Z'))
+
+    expect(rows.slice(0, 2)).toEqual([null, null])
+    expect(rows[2]).toMatchObject({ name: 'Ayşe Yılmaz', phone: '05321234567', notes: 'Adres: Atatürk Cad. 5, Bornova, İzmir', tags: [] })
+    expect(rows[3]).toMatchObject({ phone: '05551112233', notes: null })
+    expect(rows[4]!.phone).toBeNull()
+  })
+
+  it('builds unique product slugs and SKUs from the name and rowid', () => {
+    expect(slugify('Masa Örtüsü - Büyük Boy')).toBe('masa-ortusu-buyuk-boy')
+    expect(productsMapper.map({ _rowid: 12, 'Unnamed: 4': 'Keten Peçete' }, 'p1', 'now')).toMatchObject({
+      id: 'p1', name: 'Keten Peçete', slug: 'keten-pecete-12', sku: 'LEGACY-12', price: 0
+    })
+  })
+})
+
+describe('LegacyMigration', () => {
+  it('migrates in batches, records the id map and completes the checkpoint', async () => {
+    const { state, db, migration } = setup()
+
+    const [checkpoint] = await migration.run({ batchSize: 2 })
+
+    expect(checkpoint).toMatchObject({ mapper: 'customers', last_rowid: 7, migrated: 4, skipped: 2, last_error: null })
+    expect(checkpoint.completed_at).not.toBeNull()
+    expect(db.rows('customers').map(row => row.name)).toEqual(['Ayşe Yılmaz', 'Mehmet Kaya', 'Zeynep Ak', 'Ali Veli'])
+    // Header rows get no id
+    expect([...state.ids.get('customers')!.keys()]).toEqual(['3', '4', '6', '7'])
+    expect(db.rows('customers')[0].id).toBe(state.ids.get('customers')!.get('3'))
+
+    // A completed table is not read again
+    await migration.run()
+    expect(db.log.filter(entry => entry.operation === 'upsert')).toHaveLength(2)
+  })
+
+  it('resumes after a failed batch without duplicating rows or changing ids', async () => {
+    const { state, db, migration } = setup()
+    db.failOn('customers', 'upsert')
+
+    await expect(migration.run({ batchSize: 2 })).rejects.toThrow('Migration of customers stopped after source row 2')
+    expect(state.checkpoints.get('customers')).toMatchObject({ last_rowid: 2, migrated: 0, skipped: 2, completed_at: null, last_error: 'Injected upsert failure on customers' })
+    // Ids of the failed batch are already kept, so the retry writes the same rows
+    const firstIds = new Map(state.ids.get('customers'))
+    expect([...firstIds.keys()]).toEqual(['3', '4'])
+
+    const [checkpoint] = await migration.run({ batchSize: 2 })
+
+    expect(checkpoint).toMatchObject({ last_rowid: 7, migrated: 4, last_error: null })
+    expect(db.rows('customers')).toHaveLength(4)
+    expect(state.ids.get('customers')!.get('3')).toBe(firstIds.get('3'))
+  })
+
+  it('verifies counts and sampled values against the target', async () => {
+    const { db, migration } = setup()
+    await migration.run()
+
+    expect(await migration.verify()).toEqual([
+      { mapper: 'customers', source_rows: 4, target_rows: 4, missing: [], sampled: 4, mismatches: [], ok: true }
+    ])
+
+    const ayse = db.tables.customers.find(row => row.name === 'Ayşe Yılmaz')!
+    ayse.phone = '05320000000'
+    db.tables.customers = db.tables.customers.filter(row => row.name !== 'Ali Veli')
+
+    const [result] = await migration.verify()
+    expect(result).toMatchObject({ source_rows: 4, target_rows: 3, missing: ['7'], ok: false })
+    expect(result.mismatches).toEqual([
+      { legacy_id: '3', id: ayse.id, field: 'phone', expected: '05321234567', actual: '05320000000' }
+    ])
+  })
+
+  it('samples evenly across the table and rejects unknown tables', async () => {
+    expect(sampleEvenly([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 3)).toEqual([1, 4, 7])
+    await expect(setup().migration.run({ only: ['stok'] })).rejects.toThrow('Unknown migration table: stok')
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Material Price Service Tests
+ * Recorded price changes and their effect on product costs and margins
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { MaterialPriceService } from '../materialPriceService'
+import { COSTING_CONFIG } from '../../constants'
+
+const NOW = new Date('2025-03-01T10:00:00.000Z')
+const rate = COSTING_CONFIG.LABOR_HOURLY_RATE_TRY
+
+const seed = () => ({
+  products: [
+    { id: 'product-1', name: 'Kutu', price: 100, categoryId: 'cat-1' },
+    { id: 'product-2', name: 'Çanta', price: 1000, categoryId: 'cat-2' },
+    { id: 'product-3', name: 'Kurdele Seti', price: 50, categoryId: 'cat-1' }
+  ],
+  product_recipes: [
+    { id: 'recipe-1', product_id: 'product-1', raw_material_id: 'mat-1', quantity: 2, unit: 'adet', item_type: 'MATERIAL' },
+    { id: 'recipe-2', product_id: 'product-2', raw_material_id: 'mat-1', quantity: 5, unit: 'adet', item_type: 'MATERIAL' },
+    { id: 'recipe-3', product_id: 'product-2', raw_material_id: null, quantity: 1, unit: 'saat', item_type: 'LABOR' },
+    { id: 'recipe-4', product_id: 'product-3', raw_material_id: 'mat-2', quantity: 1, unit: 'adet', item_type: 'MATERIAL' }
+  ],
+  raw_materials: [
+    { id: 'mat-1', name: 'Karton', stock_quantity: 100, stock_unit: 'adet', unit_price_try: 25, price_date: '2025-01-01' },
+    { id: 'mat-2', name: 'Kurdele', stock_quantity: 10, stock_unit: 'adet', unit_price_try: 5, price_date: '2025-01-01' }
+  ],
+  price_rules: [
+    { id: 'rule-general', name: 'Genel', rule_type: 'markup', value: 100, is_active: true, conditions: {}, created_at: '2025-01-01T00:00:00.000Z' }
+  ],
+  material_price_history: [] as any[]
+})
+
+describe('MaterialPriceService', () => {
+  let db: FakePostgrest
+  let service: MaterialPriceService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new MaterialPriceService(db)
+  })
+
+  it('sets the price and records it with the supplier', async () => {
+    const change = await service.changePrice('mat-1', { price: 30, supplier_id: 'sup-1' }, 'merve', NOW)
+
+    expect(db.rows('raw_materials')[0]).toMatchObject({ unit_price_try: 30, price_date: '2025-03-01' })
+    expect(change).toMatchObject({ old_price: 25, new_price: 30, supplier_id: 'sup-1', source: 'MANUAL', changed_by: 'merve' })
+    expect(await service.getHistory('mat-1')).toMatchObject([{ ...change }])
+  })
+
+  it('records nothing when the price is unchanged', async () => {
+    expect(await service.changePrice('mat-1', { price: 25 })).toBeNull()
+    expect(db.rows('material_price_history')).toHaveLength(0)
+    await expect(service.changePrice('mat-1', { price: -1 })).rejects.toThrow('zero or more')
+  })
+
+  it('lists products whose recipe cost rises and flags margins below target', async () => {
+    const report = await service.getImpact('mat-1', 25, 40)
+
+    // Çanta: 5 x 15 more; Kutu: 2 x 15 more; Kurdele Seti does not use the material
+    expect(report.lines.map(line => [line.product_id, line.cost_increase])).toEqual([
+      ['product-2', 75],
+      ['product-1', 30]
+    ])
+
+    const box = report.lines[1]
+    expect(box).toMatchObject({ old_cost: 50, new_cost: 80, old_margin_percent: 50, new_margin_percent: 20, target_margin_percent: 50 })
+    expect(box.below_target).toBe(true)
+
+    // 100% markup aims for a 50% margin; the bag still clears it at its price
+    const bag = report.lines[0]
+    expect(bag.new_cost).toBe(200 + rate)
+    expect(bag.below_target).toBe(false)
+    expect(report.below_target_count).toBe(1)
+  })
+})
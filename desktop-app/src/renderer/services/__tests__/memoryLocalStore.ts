@@ -0,0 +1,105 @@
+/**
+ * Local store stand-in for the SyncService tests
+ *
+ * Same behaviour as src/main/localStore.cjs, kept in memory.
+ */
+
+import type { LocalStoreAPI, OutboxEntry, PullState, SyncConflict } from '../../types/electron'
+
+export class MemoryLocalStore implements LocalStoreAPI {
+  records: Record<string, Record<string, any>[]> = {}
+  entries: OutboxEntry[] = []
+  conflictList: SyncConflict[] = []
+  state: Record<string, PullState> = {}
+  private nextId = 1
+
+  constructor(seed: Record<string, Record<string, any>[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) this.records[table] = rows.map(row => ({ ...row }))
+  }
+
+  private put(table: string, row: Record<string, any>) {
+    const rows = (this.records[table] = (this.records[table] || []).filter(r => r.id !== row.id))
+    rows.push({ ...row })
+  }
+
+  select = async (table: string, filter: Record<string, any> = {}) =>
+    (this.records[table] || []).filter(row => Object.entries(filter).every(([key, value]) => row[key] === value)).map(row => ({ ...row }))
+
+  private pending(table: string) {
+    return new Set(this.entries.filter(e => e.table === table).map(e => e.record_id))
+  }
+
+  replaceTable = async (table: string, rows: Record<string, any>[], cursor: string | null = null) => {
+    const pending = this.pending(table)
+    this.records[table] = (this.records[table] || []).filter(row => pending.has(row.id))
+    rows.filter(row => !pending.has(row.id)).forEach(row => this.put(table, row))
+    const now = new Date().toISOString()
+    this.state[table] = { cursor, pulled_at: now, full_pulled_at: now }
+    return rows.length
+  }
+
+  mergeRows = async (table: string, rows: Record<string, any>[], cursor: string | null) => {
+    const pending = this.pending(table)
+    rows.filter(row => !pending.has(row.id)).forEach(row => this.put(table, row))
+    this.state[table] = { full_pulled_at: null, ...this.state[table], cursor, pulled_at: new Date().toISOString() }
+    return rows.length
+  }
+
+  replaceChildren = async (table: string, column: string, parentIds: string[], rows: Record<string, any>[]) => {
+    const pending = this.pending(table)
+    this.records[table] = (this.records[table] || []).filter(row => pending.has(row.id) || !parentIds.includes(row[column]))
+    rows.filter(row => !pending.has(row.id)).forEach(row => this.put(table, row))
+    this.state[table] = { cursor: null, full_pulled_at: null, ...this.state[table], pulled_at: new Date().toISOString() }
+    return rows.length
+  }
+
+  pullState = async () => JSON.parse(JSON.stringify(this.state))
+
+  enqueue: LocalStoreAPI['enqueue'] = async write => {
+    if (write.operation === 'delete') {
+      this.records[write.table] = (this.records[write.table] || []).filter(row => row.id !== write.record_id)
+    } else {
+      const [current] = await this.select(write.table, { id: write.record_id })
+      this.put(write.table, { ...current, ...write.payload, id: write.record_id })
+    }
+    const id = this.nextId++
+    this.entries.push({ ...write, id, created_at: new Date().toISOString(), attempts: 0, last_error: null })
+    return id
+  }
+
+  outbox = async () => this.entries.map(entry => ({ ...entry }))
+
+  complete: LocalStoreAPI['complete'] = async (entryId, row, version) => {
+    const entry = this.entries.find(e => e.id === entryId)
+    this.entries = this.entries.filter(e => e.id !== entryId)
+    if (entry && row) this.put(entry.table, row)
+    if (entry && version) {
+      this.entries
+        .filter(e => e.table === entry.table && e.record_id === entry.record_id && e.id > entryId)
+        .forEach(e => { e.base_updated_at = version })
+    }
+  }
+
+  fail: LocalStoreAPI['fail'] = async (entryId, message) => {
+    const entry = this.entries.find(e => e.id === entryId)
+    if (entry) Object.assign(entry, { attempts: entry.attempts + 1, last_error: message })
+  }
+
+  conflict: LocalStoreAPI['conflict'] = async (entryId, remote) => {
+    const entry = this.entries.find(e => e.id === entryId)!
+    this.entries = this.entries.filter(e => e.id !== entryId)
+    this.conflictList.push({ ...entry, remote, detected_at: new Date().toISOString() })
+  }
+
+  conflicts = async () => this.conflictList.map(conflict => ({ ...conflict }))
+
+  resolveConflict: LocalStoreAPI['resolveConflict'] = async (conflictId, row) => {
+    const conflict = this.conflictList.find(c => c.id === conflictId)
+    this.conflictList = this.conflictList.filter(c => c.id !== conflictId)
+    if (!conflict) return
+    if (row) this.put(conflict.table, row)
+    else if (row === null) this.records[conflict.table] = this.records[conflict.table].filter(r => r.id !== conflict.record_id)
+  }
+
+  status = async () => ({ pending: this.entries.length, conflicts: this.conflictList.length, last_pulled_at: null })
+}
@@ -0,0 +1,81 @@
+/**
+ * Migration Tests
+ * Every table the services use exists after supabase/migrations run on the web shop schema
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { PGlite } from '@electric-sql/pglite'
+import { TABLE_NAMES } from '../../constants'
+import { createTestDatabase, applyMigrations } from './pglite'
+
+describe('supabase migrations', () => {
+  let db: PGlite
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+  }, 60000)
+
+  it('creates every table the services use', async () => {
+    const { rows } = await db.query<{ table_name: string }>(
+      "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'"
+    )
+    const tables = rows.map(row => row.table_name)
+
+    expect(Object.values(TABLE_NAMES).filter(table => !tables.includes(table))).toEqual([])
+  })
+
+  it('adds the columns the series introduced on existing tables', async () => {
+    const { rows } = await db.query<{ column: string }>(
+      "SELECT table_name || '.' || column_name AS column FROM information_schema.columns WHERE table_schema = 'public'"
+    )
+    const columns = rows.map(row => row.column)
+
+    expect([
+      'orders.customer_id',
+      'orders.cost_snapshot',
+      'orders.cost_frozen_at',
+      'stock_movements.stock_count_session_id',
+      'raw_materials_suppliers.id',
+      'raw_materials_suppliers.is_preferred',
+      'raw_materials_suppliers.min_order_quantity',
+      'supplier_orders.ordered_at',
+      'supplier_orders.received_at',
+      'supplier_orders.receipts_json'
+    ].filter(column => !columns.includes(column))).toEqual([])
+  })
+
+  it('can be applied again without changes', async () => {
+    await expect(applyMigrations(db)).resolves.toBeUndefined()
+  })
+
+  it('moves the change column of replicated rows on every update', async () => {
+    await db.exec(`
+      INSERT INTO suppliers (id, name, updated_at) VALUES ('sup-touch', 'Eski', '2024-01-01');
+      INSERT INTO orders (id, "orderNumber", "updatedAt") VALUES ('order-touch', 'MDH-TOUCH', '2024-01-01');
+      UPDATE suppliers SET name = 'Yeni', updated_at = '2024-01-01' WHERE id = 'sup-touch';
+      UPDATE orders SET admin_notes = 'Not' WHERE id = 'order-touch';
+    `)
+    const { rows } = await db.query<{ supplier: string; order: string }>(
+      `SELECT (SELECT updated_at FROM suppliers WHERE id = 'sup-touch')::text AS supplier,
+              (SELECT "updatedAt" FROM orders WHERE id = 'order-touch')::text AS order`
+    )
+
+    expect(rows[0].supplier.startsWith('2024')).toBe(false)
+    expect(rows[0].order.startsWith('2024')).toBe(false)
+  })
+
+  it('rejects reservations with an unknown status or order', async () => {
+    await db.exec(`
+      INSERT INTO raw_materials (id, name) VALUES ('mat-1', 'Kurdele');
+      INSERT INTO orders (id, "orderNumber") VALUES ('order-1', 'MDH-001');
+    `)
+    const insert = (orderId: string, status: string) => db.query(
+      "INSERT INTO stock_reservations (raw_material_id, order_id, quantity, status, expires_at) VALUES ('mat-1', $1, 2, $2, now())",
+      [orderId, status]
+    )
+
+    await expect(insert('order-1', 'ACTIVE')).resolves.toBeDefined()
+    await expect(insert('order-1', 'HELD')).rejects.toThrow('stock_reservations_status_check')
+    await expect(insert('order-9', 'ACTIVE')).rejects.toThrow('stock_reservations_order_id_fkey')
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * MRP Service Tests
+ * Netting open order demand against stock and lead times
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculateMrp, MrpOrderInput, MrpMaterialInput } from '../mrpService'
+
+const NOW = new Date('2025-03-01T00:00:00.000Z')
+
+const materials: MrpMaterialInput[] = [
+  { id: 'mat-1', name: 'Kurdele', stock_unit: 'm', stock_quantity: 10, lead_time_days: 5, supplier_id: 'sup-1' },
+  { id: 'mat-2', name: 'Karton', stock_unit: 'adet', stock_quantity: 100, lead_time_days: null, supplier_id: null },
+  { id: 'mat-3', name: 'Boya', stock_unit: 'lt', stock_quantity: 3, lead_time_days: 2, supplier_id: 'sup-2' }
+]
+
+const orders: MrpOrderInput[] = [
+  {
+    id: 'order-1', orderNumber: 'MDH-001', status: 'PENDING', deadline_date: '2025-03-20',
+    requirements: [{ raw_material_id: 'mat-1', quantity: 6 }, { raw_material_id: 'mat-2', quantity: 4 }]
+  },
+  {
+    id: 'order-2', orderNumber: 'MDH-002', status: 'PENDING', deadline_date: '2025-03-10',
+    requirements: [{ raw_material_id: 'mat-1', quantity: 3 }, { raw_material_id: 'mat-1', quantity: 2 }]
+  },
+  {
+    id: 'order-3', orderNumber: 'MDH-003', status: 'CONFIRMED', deadline_date: '2025-03-05',
+    requirements: [{ raw_material_id: 'mat-1', quantity: 8 }]
+  },
+  {
+    id: 'order-4', orderNumber: 'MDH-004', status: 'PENDING', deadline_date: null,
+    requirements: [{ raw_material_id: 'mat-3', quantity: 5 }]
+  }
+]
+
+describe('calculateMrp', () => {
+  const lines = calculateMrp(orders, materials, NOW)
+  const line = (id: string) => lines.find(l => l.raw_material_id === id)!
+
+  it('reports gross requirement, issued quantity and shortfall per material', () => {
+    expect(line('mat-1')).toMatchObject({
+      gross_requirement: 19,
+      issued: 8,
+      on_hand: 10,
+      shortfall: 1
+    })
+    expect(line('mat-2').shortfall).toBe(0)
+  })
+
+  it('covers pending orders in deadline order and dates the first uncovered one', () => {
+    const demands = line('mat-1').demands
+
+    expect(demands.map(d => [d.orderNumber, d.covered])).toEqual([
+      ['MDH-002', true],
+      ['MDH-001', false],
+      ['MDH-003', true]
+    ])
+    expect(demands[1].order_by_date).toBe('2025-03-15')
+    expect(line('mat-1').latest_order_date).toBe('2025-03-15')
+  })
+
+  it('falls back to the default lead time and orders now without a deadline', () => {
+    expect(line('mat-2').lead_time_days).toBe(7)
+    expect(line('mat-2').latest_order_date).toBeNull()
+    expect(line('mat-3').latest_order_date).toBe('2025-03-01')
+  })
+
+  it('lists shortfalls first, most urgent on top', () => {
+    expect(lines.map(l => l.raw_material_id)).toEqual(['mat-3', 'mat-1', 'mat-2'])
+  })
+
+  it('skips materials no open order needs', () => {
+    expect(calculateMrp([], materials, NOW)).toEqual([])
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Order Entry Service Integration Tests
+ * Order numbering and the order transaction against Postgres with the migrations applied
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { PGlite } from '@electric-sql/pglite'
+import { createTestDatabase } from './pglite'
+import { PglitePostgrest } from './pglitePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { OrderEntryService, NewOrder } from '../orderEntryService'
+import { TransactionError } from '../transaction'
+
+const NOW = new Date('2025-03-14T12:00:00')
+
+const SEED = `
+  INSERT INTO raw_materials (id, name, stock_quantity, stock_unit) VALUES ('mat-1', 'Kurdele', 50, 'adet');
+  INSERT INTO products (id, name, price) VALUES ('product-1', 'Hediye Kutusu', 100);
+  INSERT INTO product_recipes (id, product_id, raw_material_id, quantity, unit, item_type) VALUES
+    ('recipe-1', 'product-1', 'mat-1', 3, 'adet', 'MATERIAL');
+`
+
+const newOrder = (customerName: string, customerPhone: string): NewOrder => ({
+  customerName,
+  customerPhone,
+  order_source: 'INSTAGRAM',
+  shipping_method: 'CARGO',
+  items: [{ productId: 'product-1', quantity: 2, price: 100 }]
+})
+
+describe('OrderEntryService on Postgres', () => {
+  let db: PGlite
+  let client: PglitePostgrest
+
+  const count = async (table: string) => (await db.query<{ count: number }>(
+    `SELECT count(*)::int AS count FROM ${table}`
+  )).rows[0].count
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    client = new PglitePostgrest(db)
+  }, 60000)
+
+  beforeEach(async () => {
+    await db.exec(`
+      DROP TRIGGER IF EXISTS fail_reservations ON stock_reservations;
+      TRUNCATE stock_reservations, order_items, orders, customers, product_recipes, products, raw_materials CASCADE;
+    `)
+    await db.exec(SEED)
+  })
+
+  it('gives orders entered at the same time different numbers', async () => {
+    const orders = await Promise.all([
+      new OrderEntryService(client).createOrder(newOrder('Ayşe Yılmaz', '05321112233'), NOW),
+      new OrderEntryService(client).createOrder(newOrder('Mehmet Kaya', '05551112233'), NOW),
+      new OrderEntryService(client).createOrder(newOrder('Zeynep Ak', '05441112233'), NOW)
+    ])
+
+    expect(orders.map(order => order.orderNumber).sort()).toEqual(['MDH-250314-001', 'MDH-250314-002', 'MDH-250314-003'])
+    expect(await count('stock_reservations')).toBe(3)
+  })
+
+  it('rolls the customer, order, lines and reservations back together', async () => {
+    await db.exec(`
+      CREATE OR REPLACE FUNCTION fail_reservations() RETURNS trigger LANGUAGE plpgsql AS $$
+      BEGIN RAISE EXCEPTION 'reservations unavailable'; END $$;
+      CREATE TRIGGER fail_reservations BEFORE INSERT ON stock_reservations FOR EACH ROW EXECUTE FUNCTION fail_reservations();
+    `)
+
+    const error = await new OrderEntryService(client).createOrder(newOrder('Ayşe Yılmaz', '05321112233'), NOW).catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.rolledBack).toBe(true)
+    expect([await count('customers'), await count('orders'), await count('order_items')]).toEqual([0, 0, 0])
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Order Entry Service Tests
+ * Desktop orders: numbering, totals, customer link, reservations and stock check
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { OrderEntryService, NewOrder, calculateOrderTotals, formatOrderNumber } from '../orderEntryService'
+import { TransactionError } from '../transaction'
+
+const NOW = new Date('2025-03-14T12:00:00')
+
+const seed = () => ({
+  orders: [
+    { id: 'web-1', orderNumber: 'MDH-250314-002', status: 'PENDING', customerName: 'Web', totalAmount: 1000 }
+  ],
+  order_items: [
+    { id: 'item-web', orderId: 'web-1', productId: 'product-1', quantity: 10, price: 100 }
+  ],
+  product_recipes: [
+    { id: 'recipe-1', product_id: 'product-1', raw_material_id: 'mat-1', quantity: 3 }
+  ],
+  raw_materials: [
+    { id: 'mat-1', name: 'Kurdele', stock_quantity: 40, stock_unit: 'adet' }
+  ],
+  stock_reservations: [
+    { id: 'res-web', order_id: 'web-1', raw_material_id: 'mat-1', quantity: 30, status: 'ACTIVE', expires_at: '2099-01-01T00:00:00.000Z' }
+  ],
+  customers: [] as any[]
+})
+
+const newOrder = (overrides: Partial<NewOrder> = {}): NewOrder => ({
+  customerName: 'Ayşe Yılmaz',
+  customerPhone: '0532 111 22 33',
+  order_source: 'INSTAGRAM',
+  shipping_method: 'CARGO',
+  deadline_date: '2025-03-20',
+  discount_amount: 25,
+  shipping_cost: 40,
+  items: [
+    { productId: 'product-1', quantity: 2, price: 150, personalization: { note: 'Ayşe' } }
+  ],
+  ...overrides
+})
+
+describe('order totals and numbers', () => {
+  it('keeps totalAmount before discount and caps the discount', () => {
+    expect(calculateOrderTotals([{ quantity: 2, price: 150 }, { quantity: 1, price: 49.99 }], 20))
+      .toEqual({ subtotal: 349.99, discount_amount: 20, amount_due: 329.99 })
+    expect(calculateOrderTotals([{ quantity: 1, price: 10 }], 50).amount_due).toBe(0)
+  })
+
+  it('formats daily sequence numbers', () => {
+    expect(formatOrderNumber(NOW, 7)).toBe('MDH-250314-007')
+  })
+})
+
+describe('OrderEntryService', () => {
+  let db: FakePostgrest
+  let service: OrderEntryService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new OrderEntryService(db)
+  })
+
+  it('creates a pending order with the next number, its lines, customer and reservation', async () => {
+    const order = await service.createOrder(newOrder(), NOW)
+
+    expect(order).toMatchObject({
+      orderNumber: 'MDH-250314-003',
+      status: 'PENDING',
+      totalAmount: 300,
+      discount_amount: 25,
+      shipping_cost: 40,
+      order_source: 'INSTAGRAM',
+      deadline_date: '2025-03-20'
+    })
+    expect(db.rows('order_items').filter(item => item.orderId === order.id)).toEqual([
+      expect.objectContaining({ productId: 'product-1', quantity: 2, price: 150, personalization: { note: 'Ayşe' } })
+    ])
+    expect(db.rows('customers')).toEqual([expect.objectContaining({ id: order.customer_id, phone: '05321112233' })])
+    expect(db.rows('stock_reservations').find(r => r.order_id === order.id)).toMatchObject({ quantity: 6, status: 'ACTIVE' })
+  })
+
+  it('removes the new customer, order and lines when reserving fails', async () => {
+    db.failOn('stock_reservations', 'upsert')
+
+    const error = await service.createOrder(newOrder(), NOW).catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.failedStep).toBe('reserve materials of the order')
+    expect(error.rolledBack).toBe(true)
+    expect(db.rows('orders')).toHaveLength(1)
+    expect(db.rows('order_items')).toHaveLength(1)
+    expect(db.rows('customers')).toEqual([])
+    expect(db.rows('stock_reservations')).toHaveLength(1)
+  })
+
+  it('keeps an existing customer when the order is rolled back', async () => {
+    db.tables.customers.push({ id: 'cust-1', name: 'Ayşe Yılmaz', phone: '05321112233', email: null, tags: [] })
+    db.failOn('order_items', 'insert')
+
+    await expect(service.createOrder(newOrder(), NOW)).rejects.toThrow(TransactionError)
+
+    expect(db.rows('customers').map(customer => customer.id)).toEqual(['cust-1'])
+    expect(db.rows('orders')).toHaveLength(1)
+  })
+
+  it('rejects invalid orders before writing anything', async () => {
+    await expect(service.createOrder(newOrder({ items: [] }), NOW)).rejects.toThrow('at least one product')
+    await expect(service.createOrder(newOrder({ discount_amount: 500 }), NOW)).rejects.toThrow('Discount')
+    await expect(service.createOrder(newOrder({ items: [{ productId: 'product-1', quantity: 1.5, price: 10 }] }), NOW))
+      .rejects.toThrow('whole numbers')
+    expect(db.rows('orders')).toHaveLength(1)
+  })
+
+  it('reports shortages against stock left after other reservations', async () => {
+    const shortages = await service.checkStock([{ productId: 'product-1', quantity: 5, price: 0 }])
+
+    expect(shortages).toEqual([expect.objectContaining({ raw_material_id: 'mat-1', required: 15, available: 10, shortfall: 5 })])
+    expect(await service.checkStock([{ productId: 'product-1', quantity: 5, price: 0 }], 'web-1')).toEqual([])
+  })
+
+  it('replaces the lines and reservations of a pending order', async () => {
+    const updated = await service.updateOrder('web-1', newOrder({ items: [{ productId: 'product-1', quantity: 1, price: 120 }] }), NOW)
+
+    expect(updated).toMatchObject({ orderNumber: 'MDH-250314-002', totalAmount: 120 })
+    expect(db.rows('order_items').filter(item => item.orderId === 'web-1')).toEqual([
+      expect.objectContaining({ quantity: 1, price: 120, personalization: null })
+    ])
+    expect(db.rows('stock_reservations').filter(r => r.order_id === 'web-1')).toEqual([
+      expect.objectContaining({ quantity: 3, status: 'ACTIVE' })
+    ])
+  })
+
+  it('refuses to edit orders past PENDING and rolls back failed edits', async () => {
+    db.rows('orders')[0].status = 'CONFIRMED'
+    await expect(service.updateOrder('web-1', newOrder(), NOW)).rejects.toThrow('Only pending orders')
+
+    db.rows('orders')[0].status = 'PENDING'
+    db.failOn('stock_reservations', 'delete')
+    await expect(service.updateOrder('web-1', newOrder(), NOW)).rejects.toThrow()
+
+    expect(db.rows('orders')[0]).toMatchObject({ customerName: 'Web', totalAmount: 1000 })
+    expect(db.rows('order_items').filter(item => item.orderId === 'web-1')).toEqual([
+      expect.objectContaining({ id: 'item-web', quantity: 10 })
+    ])
+    expect(db.rows('stock_reservations')).toEqual([expect.objectContaining({ id: 'res-web', quantity: 30 })])
+  })
+
+  it('refuses the edit when the order leaves PENDING after it was read', async () => {
+    const from = db.from.bind(db)
+    vi.spyOn(db, 'from').mockImplementation(table => {
+      // Confirmed elsewhere between the status check and the update
+      if (table === 'order_items') db.rows('orders')[0].status = 'CONFIRMED'
+      return from(table)
+    })
+
+    await expect(service.updateOrder('web-1', newOrder(), NOW)).rejects.toThrow('no longer pending')
+
+    expect(db.rows('orders')[0]).toMatchObject({ status: 'CONFIRMED', customerName: 'Web', totalAmount: 1000 })
+    expect(db.rows('order_items').filter(item => item.orderId === 'web-1')).toEqual([
+      expect.objectContaining({ id: 'item-web', quantity: 10 })
+    ])
+  })
+})
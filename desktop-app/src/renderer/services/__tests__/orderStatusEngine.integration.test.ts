@@ -0,0 +1,126 @@
+/**
+ * Order Status Engine Integration Tests
+ * Status changes against Postgres with the migrations applied, through a PostgREST stand-in
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { PGlite } from '@electric-sql/pglite'
+import { createTestDatabase } from './pglite'
+import { PglitePostgrest } from './pglitePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { OrderStatusEngine } from '../orderStatusEngine'
+import { TransactionError } from '../transaction'
+
+const SEED = `
+  INSERT INTO raw_materials (id, name, stock_quantity, stock_unit) VALUES
+    ('mat-1', 'Kurdele', 50, 'adet'),
+    ('mat-2', 'Kumaş', 10, 'm');
+  INSERT INTO products (id, name, price) VALUES ('product-1', 'Hediye Kutusu', 100);
+  INSERT INTO product_recipes (id, product_id, raw_material_id, quantity, unit, item_type) VALUES
+    ('recipe-1', 'product-1', 'mat-1', 3, 'adet', 'MATERIAL'),
+    ('recipe-2', 'product-1', 'mat-2', 0.5, 'm', 'MATERIAL');
+  INSERT INTO orders (id, "orderNumber", status, "totalAmount", "updatedAt") VALUES
+    ('order-1', 'MDH-001', 'PENDING', 200, '2025-01-01T00:00:00Z'),
+    ('order-2', 'MDH-002', 'PENDING', 100, '2025-01-01T00:00:00Z');
+  INSERT INTO order_items (id, "orderId", "productId", quantity, price) VALUES
+    ('item-1', 'order-1', 'product-1', 2, 100),
+    ('item-2', 'order-2', 'product-1', 1, 100);
+`
+
+describe('OrderStatusEngine on Postgres', () => {
+  let db: PGlite
+  let client: PglitePostgrest
+
+  const stock = async () => (await db.query<{ id: string; stock_quantity: string }>(
+    'SELECT id, stock_quantity::text FROM raw_materials ORDER BY id'
+  )).rows.map(row => Number(row.stock_quantity))
+  const status = async (orderId: string) => (await db.query<{ status: string }>(
+    'SELECT status FROM orders WHERE id = $1', [orderId]
+  )).rows[0].status
+  const count = async (table: string) => (await db.query<{ count: number }>(
+    `SELECT count(*)::int AS count FROM ${table}`
+  )).rows[0].count
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    client = new PglitePostgrest(db)
+  }, 60000)
+
+  beforeEach(async () => {
+    await db.exec(`
+      DROP TRIGGER IF EXISTS fail_history ON order_status_history;
+      TRUNCATE stock_reservations, order_status_history, stock_movements, order_items, orders,
+        product_recipes, products, raw_materials CASCADE;
+    `)
+    await db.exec(SEED)
+  })
+
+  it('commits the status, movements and stock deduction together', async () => {
+    const result = await new OrderStatusEngine(client).transition('order-1', 'CONFIRMED', 'Ödeme alındı')
+
+    expect(result.movementIds).toHaveLength(2)
+    expect(await status('order-1')).toBe('CONFIRMED')
+    expect(await stock()).toEqual([44, 9])
+    const { rows } = await db.query<{ order_id: string; movement_ids: string[] }>('SELECT order_id, movement_ids FROM order_status_history')
+    expect(rows).toEqual([{ order_id: 'order-1', movement_ids: result.movementIds }])
+  })
+
+  it('keeps every deduction when two orders are confirmed at the same time', async () => {
+    await Promise.all([
+      new OrderStatusEngine(client).transition('order-1', 'CONFIRMED'),
+      new OrderStatusEngine(client).transition('order-2', 'CONFIRMED')
+    ])
+
+    expect(await stock()).toEqual([41, 8.5])
+    expect(await count('stock_movements')).toBe(4)
+  })
+
+  it('applies only one of two concurrent changes of the same order', async () => {
+    const results = await Promise.allSettled([
+      new OrderStatusEngine(client).transition('order-1', 'CONFIRMED'),
+      new OrderStatusEngine(client).transition('order-1', 'CANCELLED')
+    ])
+
+    const applied = results.findIndex(result => result.status === 'fulfilled')
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1)
+    expect(rejected.reason.message).toContain('Order order-1 is no longer PENDING')
+    // Only the change that won touched the stock
+    expect(await status('order-1')).toBe(applied === 0 ? 'CONFIRMED' : 'CANCELLED')
+    expect(await stock()).toEqual(applied === 0 ? [44, 9] : [50, 10])
+    expect(await count('order_status_history')).toBe(1)
+  })
+
+  it('reverts the status, movements and stock when a later step fails', async () => {
+    await db.exec(`
+      CREATE OR REPLACE FUNCTION fail_history() RETURNS trigger LANGUAGE plpgsql AS $$
+      BEGIN RAISE EXCEPTION 'history unavailable'; END; $$;
+      CREATE TRIGGER fail_history BEFORE INSERT ON order_status_history FOR EACH ROW EXECUTE FUNCTION fail_history();
+    `)
+
+    const error = await new OrderStatusEngine(client).transition('order-1', 'CONFIRMED').catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.rolledBack).toBe(true)
+    expect(await status('order-1')).toBe('PENDING')
+    expect(await count('stock_movements')).toBe(0)
+    expect(await stock()).toEqual([50, 10])
+  })
+
+  it('undoes a confirmation with offsetting movements', async () => {
+    const engine = new OrderStatusEngine(client)
+    await engine.transition('order-1', 'CONFIRMED')
+
+    await engine.undoLastTransition('order-1')
+
+    expect(await status('order-1')).toBe('PENDING')
+    expect(await stock()).toEqual([50, 10])
+    expect(await count('stock_movements')).toBe(4)
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Order Status Engine Tests
+ * Transactional status changes with failure injection
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { OrderStatusEngine } from '../orderStatusEngine'
+import { TransactionError } from '../transaction'
+
+const seed = () => ({
+  orders: [
+    { id: 'order-1', orderNumber: 'MDH-001', status: 'PENDING', admin_notes: null, updatedAt: '2025-01-01T00:00:00.000Z' }
+  ],
+  order_items: [
+    { id: 'item-1', orderId: 'order-1', productId: 'product-1', quantity: 2, price: 100 }
+  ],
+  product_recipes: [
+    { id: 'recipe-1', product_id: 'product-1', raw_material_id: 'mat-1', quantity: 3, unit: 'adet', item_type: 'MATERIAL' },
+    { id: 'recipe-2', product_id: 'product-1', raw_material_id: 'mat-2', quantity: 0.5, unit: 'm', item_type: 'MATERIAL' },
+    { id: 'recipe-3', product_id: 'product-1', raw_material_id: null, quantity: 1, unit: 'saat', item_type: 'LABOR' }
+  ],
+  raw_materials: [
+    { id: 'mat-1', name: 'Kurdele', stock_quantity: 50 },
+    { id: 'mat-2', name: 'Kumaş', stock_quantity: 10 }
+  ],
+  stock_movements: [] as any[]
+})
+
+describe('OrderStatusEngine', () => {
+  let db: FakePostgrest
+  let engine: OrderStatusEngine
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    engine = new OrderStatusEngine(db)
+  })
+
+  it('commits the status change, movements and stock deduction together', async () => {
+    const result = await engine.transition('order-1', 'CONFIRMED')
+
+    expect(result.fromStatus).toBe('PENDING')
+    expect(result.movementIds).toHaveLength(2)
+    expect(db.rows('orders')[0].status).toBe('CONFIRMED')
+    expect(db.rows('stock_movements').map(m => [m.raw_material_id, m.movement_type, m.quantity])).toEqual([
+      ['mat-1', 'OUT', 6],
+      ['mat-2', 'OUT', 1]
+    ])
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([44, 9])
+  })
+
+  it('rolls the status, movements and stock back when a later step fails', async () => {
+    db.failOn('order_status_history', 'insert')
+
+    const error = await engine.transition('order-1', 'CONFIRMED').catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.failedStep).toContain('record order status history')
+    expect(error.rolledBack).toBe(true)
+    expect(db.rows('orders')[0]).toMatchObject({ status: 'PENDING', updatedAt: '2025-01-01T00:00:00.000Z' })
+    expect(db.rows('stock_movements')).toHaveLength(0)
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([50, 10])
+  })
+
+  it('writes nothing when a movement cannot be applied', async () => {
+    db.tables.raw_materials = db.rows('raw_materials').filter(m => m.id !== 'mat-2')
+
+    const error = await engine.transition('order-1', 'CONFIRMED').catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.stepIndex).toBe(0)
+    expect(error.message).toContain('Raw material mat-2 not found')
+    expect(db.rows('orders')[0].status).toBe('PENDING')
+    expect(db.rows('stock_movements')).toHaveLength(0)
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(50)
+  })
+
+  it('does not apply a change when another user moved the order on meanwhile', async () => {
+    const stale = new OrderStatusEngine(db)
+    const read = stale.planMovements.bind(stale)
+    // The order is cancelled elsewhere between reading it and writing the change
+    vi.spyOn(stale, 'planMovements').mockImplementation(async (order, status) => {
+      db.rows('orders')[0].status = 'CANCELLED'
+      return read(order, status)
+    })
+
+    await expect(stale.transition('order-1', 'CONFIRMED')).rejects.toThrow('Order order-1 is no longer PENDING')
+    expect(db.rows('orders')[0].status).toBe('CANCELLED')
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([50, 10])
+  })
+
+  it('reports rollback failures instead of hiding them', async () => {
+    db.failOn('order_status_history', 'insert')
+    db.failOn('revert_order_status_change', 'rpc')
+
+    const error = await engine.transition('order-1', 'CONFIRMED').catch(e => e)
+
+    expect(error.rolledBack).toBe(false)
+    expect(error.rollbackFailures[0].step).toContain('update order MDH-001')
+  })
+
+  it('returns stock when a confirmed order is cancelled', async () => {
+    await engine.transition('order-1', 'CONFIRMED')
+    await engine.transition('order-1', 'CANCELLED')
+
+    const returns = db.rows('stock_movements').filter(m => m.movement_type === 'RETURN')
+    expect(returns).toHaveLength(2)
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([50, 10])
+  })
+
+  it('rejects invalid transitions without writing', async () => {
+    await expect(engine.transition('order-1', 'DELIVERED')).rejects.toThrow('Invalid status transition')
+    expect(db.log.some(entry => entry.operation !== 'select')).toBe(false)
+  })
+})
+
+describe('OrderStatusEngine history and undo', () => {
+  let db: FakePostgrest
+  let engine: OrderStatusEngine
+
+  beforeEach(() => {
+    db = new FakePostgrest({
+      ...seed(),
+      stock_reservations: [
+        { id: 'res-1', order_id: 'order-1', raw_material_id: 'mat-1', quantity: 6, status: 'ACTIVE' }
+      ],
+      order_status_history: [] as any[]
+    })
+    engine = new OrderStatusEngine(db)
+  })
+
+  it('records the transition with its movements and reservations', async () => {
+    const result = await engine.transition('order-1', 'CONFIRMED', 'Ödeme alındı', { changedBy: 'ayse' })
+
+    expect(db.rows('order_status_history')).toMatchObject([{
+      id: result.historyId,
+      order_id: 'order-1',
+      from_status: 'PENDING',
+      to_status: 'CONFIRMED',
+      changed_by: 'ayse',
+      note: 'Ödeme alındı',
+      movement_ids: result.movementIds,
+      reservation_ids: ['res-1'],
+      payment_ids: [],
+      undo_of: null,
+      undone_at: null
+    }])
+  })
+
+  it('undoes the change when the reservation sync after it fails', async () => {
+    db.failOn('stock_reservations', 'select')
+
+    const error = await engine.transition('order-1', 'CONFIRMED').catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.failedStep).toBe('sync stock reservations')
+    expect(error.rolledBack).toBe(true)
+    expect(db.rows('orders')[0].status).toBe('PENDING')
+    expect(db.rows('stock_reservations')[0].status).toBe('ACTIVE')
+    expect(db.rows('order_status_history')).toHaveLength(0)
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([50, 10])
+  })
+
+  it('undoes the last change by reversing its movements', async () => {
+    const { historyId } = await engine.transition('order-1', 'CONFIRMED')
+
+    const result = await engine.undoLastTransition('order-1', 'mehmet')
+
+    expect(result.toStatus).toBe('PENDING')
+    expect(db.rows('orders')[0].status).toBe('PENDING')
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([50, 10])
+    expect(db.rows('stock_movements').map(m => [m.movement_type, m.quantity])).toEqual([
+      ['OUT', 6], ['OUT', 1], ['RETURN', 6], ['RETURN', 1]
+    ])
+    expect(db.rows('stock_reservations')[0].status).toBe('ACTIVE')
+
+    const [original, undo] = db.rows('order_status_history')
+    expect(original.undone_at).not.toBeNull()
+    expect(undo).toMatchObject({ undo_of: historyId, from_status: 'CONFIRMED', to_status: 'PENDING', changed_by: 'mehmet' })
+
+    await expect(engine.undoLastTransition('order-1')).rejects.toThrow('no status change to undo')
+  })
+
+  it('undoes changes one by one back through the history', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-02T10:00:00.000Z'))
+    await engine.transition('order-1', 'CONFIRMED')
+    vi.setSystemTime(new Date('2025-01-02T11:00:00.000Z'))
+    await engine.transition('order-1', 'PROCESSING')
+    vi.useRealTimers()
+
+    await engine.undoLastTransition('order-1')
+    expect(db.rows('orders')[0].status).toBe('CONFIRMED')
+    expect(db.rows('stock_movements')).toHaveLength(2)
+
+    await engine.undoLastTransition('order-1')
+    expect(db.rows('orders')[0].status).toBe('PENDING')
+  })
+
+  it('refuses to undo when the order was changed outside the history', async () => {
+    await engine.transition('order-1', 'CONFIRMED')
+    db.rows('orders')[0].status = 'SHIPPED'
+
+    await expect(engine.undoLastTransition('order-1')).rejects.toThrow('is SHIPPED, not CONFIRMED')
+    expect(db.rows('stock_movements')).toHaveLength(2)
+  })
+
+  it('leaves the change in place when the undo fails', async () => {
+    await engine.transition('order-1', 'CONFIRMED')
+    db.failOn('order_status_history', 'insert')
+
+    const error = await engine.undoLastTransition('order-1').catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.rolledBack).toBe(true)
+    expect(db.rows('orders')[0].status).toBe('CONFIRMED')
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([44, 9])
+    expect(db.rows('stock_reservations')[0].status).toBe('CONVERTED')
+    expect(db.rows('order_status_history')[0].undone_at).toBeNull()
+  })
+})
+
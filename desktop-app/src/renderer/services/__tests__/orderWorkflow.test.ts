@@ -0,0 +1,77 @@
+/**
+ * Order Workflow Tests
+ * One transition table for the engine and the order views
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { getAllowedTransitions, getNextStatus, getMissingFields, getWorkflowState, ORDER_STATUSES, ORDER_WORKFLOW_TRANSITIONS } from '../orderWorkflow'
+import { OrderStatusEngine } from '../orderStatusEngine'
+import { ORDER_STATUS } from '../../constants'
+
+describe('order workflow', () => {
+  it('defines every order status and only known states', () => {
+    expect([...ORDER_STATUSES].sort()).toEqual(Object.values(ORDER_STATUS).sort())
+    for (const transition of ORDER_WORKFLOW_TRANSITIONS) {
+      expect(ORDER_STATUSES).toContain(transition.from)
+      expect(ORDER_STATUSES).toContain(transition.to)
+    }
+  })
+
+  it('styles REFUNDED and falls back for unknown statuses', () => {
+    expect(getWorkflowState('REFUNDED')).toMatchObject({ label: 'İade Edildi', icon: '↩️', border: 'border-gray-200' })
+    expect(getWorkflowState('ARCHIVED')).toMatchObject({ label: 'ARCHIVED', icon: '📋' })
+  })
+
+  it('walks the happy path through READY_TO_SHIP', () => {
+    const path = ['PENDING']
+    for (let next = getNextStatus('PENDING'); next; next = getNextStatus(next)) {
+      path.push(next)
+    }
+    expect(path).toEqual(['PENDING', 'CONFIRMED', 'PROCESSING', 'READY_TO_SHIP', 'SHIPPED', 'DELIVERED'])
+  })
+
+  it('offers only defined transitions instead of every later status', () => {
+    expect(getAllowedTransitions('CONFIRMED').map(t => t.to)).toEqual(['PROCESSING', 'CANCELLED'])
+    expect(getAllowedTransitions('DELIVERED')).toEqual([])
+  })
+
+  it('asks for a tracking number before shipping', () => {
+    expect(getMissingFields({ status: 'READY_TO_SHIP' }, 'SHIPPED').map(f => f.field)).toEqual(['trackingNumber'])
+    expect(getMissingFields({ status: 'READY_TO_SHIP' }, 'SHIPPED', { trackingNumber: 'YK123' })).toEqual([])
+    expect(getMissingFields({ status: 'READY_TO_SHIP', trackingNumber: '  ' }, 'SHIPPED')).toHaveLength(1)
+  })
+})
+
+describe('OrderStatusEngine with the workflow', () => {
+  let db: FakePostgrest
+  let engine: OrderStatusEngine
+
+  beforeEach(() => {
+    db = new FakePostgrest({
+      orders: [
+        { id: 'order-1', orderNumber: 'MDH-001', status: 'READY_TO_SHIP', trackingNumber: null, admin_notes: null }
+      ]
+    })
+    engine = new OrderStatusEngine(db)
+  })
+
+  it('refuses to ship without a tracking number', async () => {
+    await expect(engine.transition('order-1', 'SHIPPED')).rejects.toThrow('needs trackingNumber before SHIPPED')
+    expect(db.rows('orders')[0].status).toBe('READY_TO_SHIP')
+  })
+
+  it('writes only the required fields together with the status', async () => {
+    await engine.transition('order-1', 'SHIPPED', undefined, { fields: { trackingNumber: 'YK123', totalAmount: 0 } })
+
+    expect(db.rows('orders')[0]).toMatchObject({ status: 'SHIPPED', trackingNumber: 'YK123' })
+    expect(db.rows('orders')[0].totalAmount).toBeUndefined()
+  })
+})
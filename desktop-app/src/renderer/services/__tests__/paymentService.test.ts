@@ -0,0 +1,162 @@
+/**
+ * Payment Service Tests
+ * Ledger totals, refunds, legacy balances and receivables aging
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { PaymentService, calculateReceivablesAging } from '../paymentService'
+import { OrderStatusEngine } from '../orderStatusEngine'
+
+const seed = () => ({
+  orders: [
+    {
+      id: 'order-1',
+      orderNumber: 'MDH-001',
+      status: 'CONFIRMED',
+      totalAmount: 500,
+      discount_amount: 50,
+      amount_received: null,
+      payment_status: 'PENDING',
+      createdAt: '2025-01-01T00:00:00.000Z'
+    }
+  ],
+  order_payments: [] as any[]
+})
+
+describe('PaymentService', () => {
+  let db: FakePostgrest
+  let service: PaymentService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new PaymentService(db)
+  })
+
+  it('marks the order paid once partial payments cover the discounted total', async () => {
+    const first = await service.recordPayment('order-1', { amount: 200, method: 'CASH', paid_at: '2025-01-02T00:00:00.000Z' })
+    expect(first.status).toBe('PENDING')
+    expect(first.remaining).toBe(250)
+
+    const second = await service.recordPayment('order-1', { amount: 250, method: 'BANK_TRANSFER', paid_at: '2025-01-05T00:00:00.000Z' })
+    expect(second.status).toBe('PAID')
+
+    const order = db.rows('orders')[0]
+    expect(order.amount_received).toBe(450)
+    expect(order.remaining_payment).toBe(0)
+    expect(order.payment_status).toBe('PAID')
+    expect(order.payment_received_date).toBe('2025-01-05T00:00:00.000Z')
+  })
+
+  it('rejects refunds larger than what was received', async () => {
+    await service.recordPayment('order-1', { amount: 100, method: 'CASH' })
+
+    await expect(service.recordRefund('order-1', { amount: 150, method: 'CASH' })).rejects.toThrow('exceeds')
+    expect(db.rows('order_payments')).toHaveLength(1)
+  })
+
+  it('carries a legacy amount_received over as an opening balance', async () => {
+    db.rows('orders')[0].amount_received = 300
+
+    const summary = await service.recordPayment('order-1', { amount: 150, method: 'CASH' })
+
+    expect(db.rows('order_payments').map(p => [p.kind, p.amount, p.notes])).toEqual([
+      ['PAYMENT', 300, 'Opening balance'],
+      ['PAYMENT', 150, null]
+    ])
+    expect(summary.received).toBe(450)
+    expect(summary.status).toBe('PAID')
+  })
+
+  it('recomputes the totals when a payment is deleted', async () => {
+    await service.recordPayment('order-1', { amount: 450, method: 'CASH' })
+    const [payment] = db.rows('order_payments')
+
+    const summary = await service.deletePayment(payment.id)
+
+    expect(summary.status).toBe('PENDING')
+    expect(db.rows('orders')[0].remaining_payment).toBe(450)
+  })
+
+  it('ages every open order, not only the first page', async () => {
+    for (let index = 0; index < 1000; index++) {
+      db.tables.orders.push({
+        id: `order-x${String(index).padStart(4, '0')}`, status: 'DELIVERED', totalAmount: 10, createdAt: '2025-01-01T00:00:00.000Z'
+      })
+      db.tables.order_payments.push({
+        id: `pay-${String(index).padStart(4, '0')}`, order_id: `order-x${String(index).padStart(4, '0')}`,
+        kind: 'PAYMENT', amount: 4, method: 'CASH', paid_at: '2025-01-02T00:00:00.000Z'
+      })
+    }
+
+    const aging = await service.getReceivablesAging(new Date('2025-01-10T00:00:00.000Z'))
+
+    expect(aging.lines).toHaveLength(1001)
+    expect(aging.total).toBe(450 + 1000 * 6)
+  })
+})
+
+describe('calculateReceivablesAging', () => {
+  it('buckets outstanding balances of open orders by age', () => {
+    const now = new Date('2025-04-01T00:00:00.000Z')
+    const orders = [
+      { id: 'a', orderNumber: 'A', status: 'CONFIRMED', totalAmount: 100, createdAt: '2025-03-20T00:00:00.000Z' },
+      { id: 'b', orderNumber: 'B', status: 'SHIPPED', totalAmount: 200, createdAt: '2025-02-10T00:00:00.000Z' },
+      { id: 'c', orderNumber: 'C', status: 'DELIVERED', totalAmount: 300, createdAt: '2024-11-01T00:00:00.000Z' },
+      { id: 'd', orderNumber: 'D', status: 'CANCELLED', totalAmount: 400, createdAt: '2024-11-01T00:00:00.000Z' },
+      { id: 'e', orderNumber: 'E', status: 'DELIVERED', totalAmount: 50, createdAt: '2024-11-01T00:00:00.000Z' }
+    ]
+    const payments = [
+      { order_id: 'b', kind: 'PAYMENT' as const, amount: 50, paid_at: '2025-02-11T00:00:00.000Z' },
+      { order_id: 'e', kind: 'PAYMENT' as const, amount: 50, paid_at: '2024-11-02T00:00:00.000Z' }
+    ]
+
+    const aging = calculateReceivablesAging(orders, payments, now)
+
+    expect(aging.buckets.map(b => [b.key, b.amount, b.count])).toEqual([
+      ['0-30', 100, 1],
+      ['31-60', 150, 1],
+      ['61-90', 0, 0],
+      ['90+', 300, 1]
+    ])
+    expect(aging.lines.map(l => l.orderNumber)).toEqual(['C', 'B', 'A'])
+    expect(aging.total).toBe(550)
+  })
+})
+
+describe('OrderStatusEngine refunds', () => {
+  let db: FakePostgrest
+  let engine: OrderStatusEngine
+
+  beforeEach(() => {
+    const data = seed()
+    data.orders[0].status = 'CANCELLED'
+    db = new FakePostgrest(data)
+    engine = new OrderStatusEngine(db)
+  })
+
+  it('refunds everything received when the order is refunded and removes it on undo', async () => {
+    await new PaymentService(db).recordPayment('order-1', { amount: 200, method: 'CREDIT_CARD' })
+
+    const result = await engine.transition('order-1', 'REFUNDED')
+
+    const refunds = db.rows('order_payments').filter(p => p.kind === 'REFUND')
+    expect(refunds.map(p => [p.amount, p.method])).toEqual([[200, 'CREDIT_CARD']])
+    expect(db.rows('orders')[0].payment_status).toBe('REFUNDED')
+    expect(db.rows('order_status_history')[0].payment_ids).toEqual([refunds[0].id])
+    expect(result.historyId).toBeTruthy()
+
+    await engine.undoLastTransition('order-1')
+
+    expect(db.rows('order_payments').map(p => p.kind)).toEqual(['PAYMENT'])
+    expect(db.rows('orders')[0].status).toBe('CANCELLED')
+    expect(db.rows('orders')[0].amount_received).toBe(200)
+  })
+})
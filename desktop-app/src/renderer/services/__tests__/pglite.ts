@@ -0,0 +1,187 @@
+/**
+ * Postgres (PGlite, in WebAssembly) for tests that need the real database:
+ * stand-ins for the tables the web shop owns, then every migration under
+ * supabase/migrations in file name order.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { PGlite } from '@electric-sql/pglite'
+
+export const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../supabase/migrations')
+
+// Columns the desktop services read and write; ids are text like the web shop's
+const WEB_SHOP_SCHEMA = `
+  CREATE TABLE suppliers (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    name text NOT NULL,
+    contact text,
+    url text,
+    notes text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE raw_materials (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    name text NOT NULL,
+    unit_price_try numeric,
+    stock_quantity numeric,
+    stock_unit text,
+    min_stock_quantity numeric,
+    min_stock_unit text,
+    max_stock_quantity numeric,
+    lead_time_days integer,
+    supplier_id text REFERENCES suppliers (id),
+    contact_or_url text,
+    price_date timestamptz,
+    notes text,
+    is_semi_finished boolean NOT NULL DEFAULT false,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE raw_materials_suppliers (
+    raw_material_id text NOT NULL REFERENCES raw_materials (id),
+    supplier_id text NOT NULL REFERENCES suppliers (id)
+  );
+
+  CREATE TABLE categories (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    name text NOT NULL
+  );
+
+  CREATE TABLE products (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    name text NOT NULL,
+    description text,
+    price numeric NOT NULL DEFAULT 0,
+    "categoryId" text REFERENCES categories (id),
+    sku text,
+    slug text,
+    "isActive" boolean NOT NULL DEFAULT true,
+    "createdAt" timestamptz NOT NULL DEFAULT now(),
+    "updatedAt" timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE product_recipes (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    product_id text NOT NULL REFERENCES products (id),
+    raw_material_id text REFERENCES raw_materials (id),
+    quantity numeric NOT NULL,
+    unit text,
+    item_type text,
+    notes text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE product_raw_material_relations (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    product_id text NOT NULL REFERENCES products (id),
+    raw_material_id text NOT NULL REFERENCES raw_materials (id),
+    quantity numeric
+  );
+
+  CREATE TABLE orders (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "orderNumber" text NOT NULL,
+    "userId" text,
+    status text NOT NULL DEFAULT 'PENDING',
+    "totalAmount" numeric NOT NULL DEFAULT 0,
+    "customerName" text,
+    "customerEmail" text,
+    "customerPhone" text,
+    "shippingAddress" text,
+    "shippingCity" text,
+    "trackingNumber" text,
+    admin_notes text,
+    order_source text,
+    shipping_method text,
+    deadline_date timestamptz,
+    discount_amount numeric,
+    shipping_cost numeric,
+    labor_cost numeric,
+    total_cost numeric,
+    net_profit numeric,
+    profit_margin_percent numeric,
+    profit_margin_percent_2 numeric,
+    amount_received numeric,
+    remaining_payment numeric,
+    payment_received_date timestamptz,
+    payment_status text,
+    "createdAt" timestamptz NOT NULL DEFAULT now(),
+    "updatedAt" timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE order_items (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "orderId" text NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+    "productId" text NOT NULL REFERENCES products (id),
+    quantity integer NOT NULL,
+    price numeric NOT NULL DEFAULT 0,
+    personalization jsonb
+  );
+
+  CREATE TABLE stock_movements (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    raw_material_id text NOT NULL REFERENCES raw_materials (id),
+    movement_type text NOT NULL,
+    quantity numeric NOT NULL,
+    reason text,
+    order_id text,
+    notes text,
+    created_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE supplier_orders (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    supplier_id text REFERENCES suppliers (id),
+    status text NOT NULL DEFAULT 'PENDING',
+    items_json jsonb NOT NULL DEFAULT '[]',
+    total_amount numeric,
+    expected_date timestamptz,
+    notes text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE price_rules (
+    id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    name text,
+    description text,
+    rule_type text,
+    value numeric,
+    is_active boolean NOT NULL DEFAULT true,
+    conditions jsonb,
+    product_id text,
+    target_margin_percent numeric,
+    auto_pricing_enabled boolean,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+`
+
+export function migrationFiles(): string[] {
+  return fs.readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort()
+}
+
+export async function applyMigrations(db: PGlite): Promise<void> {
+  for (const file of migrationFiles()) {
+    try {
+      await db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'))
+    } catch (error) {
+      throw new Error(`Migration ${file} failed: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+}
+
+/**
+ * Fresh database with the web shop tables and all migrations applied
+ */
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite()
+  await db.exec(WEB_SHOP_SCHEMA)
+  await applyMigrations(db)
+  return db
+}
@@ -0,0 +1,252 @@
+/**
+ * PostgREST stand-in backed by a real Postgres (PGlite)
+ *
+ * Translates the supabase-js query builder calls the services make into SQL,
+ * so constraints, functions and concurrent requests behave as they do on
+ * Supabase. Rows come back as JSON like PostgREST returns them (numeric as
+ * numbers, timestamps as strings).
+ */
+
+import { PGlite } from '@electric-sql/pglite'
+
+type Operation = 'select' | 'insert' | 'update' | 'delete' | 'upsert'
+
+type Row = Record<string, any>
+
+interface PostgrestResult {
+  data: any
+  error: { message: string; code?: string } | null
+  count?: number
+}
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`
+
+const columnList = (columns: string) => columns.trim() === '*'
+  ? '*'
+  : columns.split(',').map(column => quote(column.trim())).join(', ')
+
+const toError = (error: any) => ({ message: error?.message || String(error), code: error?.code })
+
+export class PglitePostgrest {
+  constructor(public db: PGlite) {}
+
+  from(table: string) {
+    return new PgliteQuery(this.db, table)
+  }
+
+  /**
+   * Call a database function with named arguments; objects and arrays are
+   * passed as jsonb
+   */
+  rpc(fn: string, args: Record<string, any> = {}): PromiseLike<PostgrestResult> {
+    const names = Object.keys(args)
+    const values = names.map(name => {
+      const value = args[name]
+      return value !== null && typeof value === 'object' ? JSON.stringify(value) : value
+    })
+    const sql = `SELECT to_jsonb(${quote(fn)}(${names.map((name, index) => `${quote(name)} => $${index + 1}`).join(', ')})) AS result`
+
+    return this.db.query<{ result: any }>(sql, values).then(
+      ({ rows }) => ({ data: rows[0]?.result ?? null, error: null }),
+      error => ({ data: null, error: toError(error) })
+    )
+  }
+}
+
+class PgliteQuery {
+  private operation: Operation = 'select'
+  private payload: Row[] = []
+  private columns = '*'
+  private returning: string | null = null
+  private conditions: string[] = []
+  private params: any[] = []
+  private orderBy: string[] = []
+  private limitCount: number | null = null
+  private offset = 0
+  private singleMode: 'single' | 'maybe' | null = null
+  private countMode = false
+  private headOnly = false
+  private conflictColumns = ['id']
+  private ignoreDuplicates = false
+
+  constructor(private db: PGlite, private table: string) {}
+
+  select(columns: string = '*', options: { count?: string; head?: boolean } = {}) {
+    if (this.operation === 'select') {
+      this.columns = columns
+      this.countMode = !!options.count
+      this.headOnly = !!options.head
+    } else {
+      this.returning = columns
+    }
+    return this
+  }
+
+  insert(data: Row | Row[]) {
+    this.operation = 'insert'
+    this.payload = Array.isArray(data) ? data : [data]
+    return this
+  }
+
+  upsert(data: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.operation = 'upsert'
+    this.payload = Array.isArray(data) ? data : [data]
+    this.conflictColumns = (options.onConflict || 'id').split(',').map(column => column.trim())
+    this.ignoreDuplicates = !!options.ignoreDuplicates
+    return this
+  }
+
+  update(data: Row) {
+    this.operation = 'update'
+    this.payload = [data]
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: any) {
+    return this.where(column, '=', value)
+  }
+
+  neq(column: string, value: any) {
+    return this.where(column, '<>', value)
+  }
+
+  gt(column: string, value: any) {
+    return this.where(column, '>', value)
+  }
+
+  gte(column: string, value: any) {
+    return this.where(column, '>=', value)
+  }
+
+  lt(column: string, value: any) {
+    return this.where(column, '<', value)
+  }
+
+  lte(column: string, value: any) {
+    return this.where(column, '<=', value)
+  }
+
+  in(column: string, values: any[]) {
+    this.params.push(values)
+    this.conditions.push(`${quote(column)} = ANY($${this.params.length})`)
+    return this
+  }
+
+  is(column: string, value: null | boolean) {
+    this.conditions.push(`${quote(column)} IS ${value === null ? 'NULL' : String(value).toUpperCase()}`)
+    return this
+  }
+
+  not(column: string, operator: string, value: any) {
+    if (operator !== 'is') throw new Error(`not.${operator} is not supported by PglitePostgrest`)
+    this.conditions.push(`${quote(column)} IS NOT ${value === null ? 'NULL' : String(value).toUpperCase()}`)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderBy.push(`${quote(column)} ${options.ascending === false ? 'DESC' : 'ASC'}`)
+    return this
+  }
+
+  limit(count: number) {
+    this.limitCount = count
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.offset = from
+    this.limitCount = to - from + 1
+    return this
+  }
+
+  single() {
+    this.singleMode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybe'
+    return this
+  }
+
+  then(resolve: (value: PostgrestResult) => any, reject?: (reason: any) => any) {
+    return this.execute().then(resolve, reject)
+  }
+
+  private where(column: string, operator: string, value: any) {
+    this.params.push(value)
+    this.conditions.push(`${quote(column)} ${operator} $${this.params.length}`)
+    return this
+  }
+
+  private async execute(): Promise<PostgrestResult> {
+    try {
+      const rows = await this.run()
+      if (this.countMode) {
+        return { data: this.headOnly ? null : rows, error: null, count: rows.length }
+      }
+      if (this.singleMode) {
+        if (rows.length === 0 && this.singleMode === 'maybe') return { data: null, error: null }
+        if (rows.length !== 1) return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } }
+        return { data: rows[0], error: null }
+      }
+      return { data: rows, error: null }
+    } catch (error) {
+      return { data: null, error: toError(error) }
+    }
+  }
+
+  private async run(): Promise<Row[]> {
+    const table = quote(this.table)
+    const where = this.conditions.length > 0 ? ` WHERE ${this.conditions.join(' AND ')}` : ''
+    const params = [...this.params]
+    let statement: string
+
+    switch (this.operation) {
+      case 'select':
+        statement = `SELECT ${columnList(this.columns)} FROM ${table}${where}` +
+          (this.orderBy.length > 0 ? ` ORDER BY ${this.orderBy.join(', ')}` : '') +
+          (this.limitCount !== null ? ` LIMIT ${this.limitCount} OFFSET ${this.offset}` : '')
+        break
+      case 'insert':
+      case 'upsert': {
+        const keys = [...new Set(this.payload.flatMap(row => Object.keys(row)))]
+        params.push(JSON.stringify(this.payload))
+        const columns = keys.map(quote).join(', ')
+        statement = `INSERT INTO ${table} (${columns}) SELECT ${columns} FROM jsonb_populate_recordset(NULL::${table}, $${params.length})`
+        if (this.operation === 'upsert') {
+          const updates = keys.filter(key => !this.conflictColumns.includes(key)).map(key => `${quote(key)} = EXCLUDED.${quote(key)}`)
+          statement += ` ON CONFLICT (${this.conflictColumns.map(quote).join(', ')}) ` +
+            (updates.length > 0 && !this.ignoreDuplicates ? `DO UPDATE SET ${updates.join(', ')}` : 'DO NOTHING')
+        }
+        statement += ' RETURNING *'
+        break
+      }
+      case 'update': {
+        const keys = Object.keys(this.payload[0]).filter(key => this.payload[0][key] !== undefined)
+        params.push(JSON.stringify(this.payload[0]))
+        const record = `jsonb_populate_record(NULL::${table}, $${params.length})`
+        statement = `UPDATE ${table} SET ${keys.map(key => `${quote(key)} = (${record}).${quote(key)}`).join(', ')}${where} RETURNING *`
+        break
+      }
+      case 'delete':
+        statement = `DELETE FROM ${table}${where} RETURNING *`
+        break
+    }
+
+    // Rows as PostgREST would serialize them
+    const columns = this.operation === 'select' ? '*' : columnList(this.returning || '*')
+    const { rows } = await this.db.query<{ row: Row }>(
+      `WITH result AS (${statement}) SELECT to_jsonb(selected) AS row FROM (SELECT ${columns} FROM result) AS selected`,
+      params
+    )
+    return rows.map(row => row.row)
+  }
+}
+
+export default PglitePostgrest
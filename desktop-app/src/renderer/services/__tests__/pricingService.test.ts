@@ -0,0 +1,134 @@
+/**
+ * Pricing Service Tests
+ * Rule evaluation, proposals and transactional bulk apply
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { PricingService, normalizePriceRule, selectPriceRule, suggestPrice } from '../pricingService'
+import { TransactionError } from '../transaction'
+import { PriceRule } from '../../types'
+
+const rule = (overrides: Partial<PriceRule>): PriceRule => ({
+  id: 'rule',
+  name: 'Kural',
+  rule_type: 'markup',
+  value: 100,
+  is_active: true,
+  conditions: {},
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+const seed = () => ({
+  products: [
+    { id: 'product-1', name: 'Kutu', price: 100, categoryId: 'cat-1' },
+    { id: 'product-2', name: 'Çanta', price: 300, categoryId: 'cat-2' },
+    { id: 'product-3', name: 'Reçetesiz', price: 50, categoryId: 'cat-1' }
+  ],
+  product_recipes: [
+    { id: 'recipe-1', product_id: 'product-1', raw_material_id: 'mat-1', quantity: 2, unit: 'adet', item_type: 'MATERIAL' },
+    { id: 'recipe-2', product_id: 'product-2', raw_material_id: 'mat-1', quantity: 5, unit: 'adet', item_type: 'MATERIAL' },
+    { id: 'recipe-3', product_id: 'product-2', raw_material_id: null, quantity: 1, unit: 'saat', type: 'LABOR' }
+  ],
+  raw_materials: [
+    { id: 'mat-1', name: 'Karton', stock_quantity: 100, stock_unit: 'adet', unit_price_try: 25 }
+  ],
+  price_rules: [
+    { id: 'rule-general', name: 'Genel', rule_type: 'markup', value: 100, is_active: true, conditions: {}, created_at: '2025-01-01T00:00:00.000Z' },
+    { id: 'rule-cat', name: 'Çantalar', rule_type: 'margin', value: 50, is_active: true, conditions: { category_id: 'cat-2' }, created_at: '2025-01-01T00:00:00.000Z' }
+  ],
+  product_price_history: [] as any[]
+})
+
+describe('price rule evaluation', () => {
+  it('turns older per-product rows into margin rules', () => {
+    const normalized = normalizePriceRule({ id: 'old', product_id: 'product-1', target_margin_percent: 40, auto_pricing_enabled: false })
+
+    expect(normalized.rule_type).toBe('margin')
+    expect(normalized.value).toBe(40)
+    expect(normalized.is_active).toBe(false)
+    expect(normalized.conditions).toEqual({ product_id: 'product-1' })
+  })
+
+  it('prefers product over category over general rules', () => {
+    const rules = [
+      rule({ id: 'general' }),
+      rule({ id: 'category', conditions: { category_id: 'cat-1' } }),
+      rule({ id: 'product', conditions: { product_id: 'p' } })
+    ]
+
+    expect(selectPriceRule(rules, { id: 'p', name: 'P', price: 0, categoryId: 'cat-1' }, 10)?.id).toBe('product')
+    expect(selectPriceRule(rules, { id: 'q', name: 'Q', price: 0, categoryId: 'cat-1' }, 10)?.id).toBe('category')
+    expect(selectPriceRule(rules, { id: 'q', name: 'Q', price: 0, categoryId: 'cat-9' }, 10)?.id).toBe('general')
+  })
+
+  it('skips rules whose cost range excludes the product', () => {
+    const rules = [rule({ id: 'cheap', conditions: { max_cost: 20 } })]
+
+    expect(selectPriceRule(rules, { id: 'p', name: 'P', price: 0 }, 25)).toBeNull()
+    expect(selectPriceRule(rules, { id: 'p', name: 'P', price: 0 }, 15)?.id).toBe('cheap')
+  })
+
+  it('prices markup, margin and fixed rules rounded up to whole lira', () => {
+    expect(suggestPrice({ rule_type: 'markup', value: 50 }, 33.3)).toBe(50)
+    expect(suggestPrice({ rule_type: 'margin', value: 40 }, 60)).toBe(100)
+    expect(suggestPrice({ rule_type: 'fixed', value: 15 }, 20.2)).toBe(36)
+  })
+})
+
+describe('PricingService', () => {
+  let db: FakePostgrest
+  let service: PricingService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new PricingService(db)
+  })
+
+  it('proposes prices from recipe cost including labor', async () => {
+    const proposals = await service.getProposals()
+
+    // product-2: 5 x 25 + 1 h labor, priced at 50% margin by its category rule
+    const bag = proposals.find(p => p.product_id === 'product-2')!
+    expect(bag.rule_id).toBe('rule-cat')
+    expect(bag.suggested_price).toBe(suggestPrice({ rule_type: 'margin', value: 50 }, bag.recipe_cost))
+    expect(bag.recipe_cost).toBeGreaterThan(125)
+
+    // product-1 already sits at cost x 2; product-3 has no recipe cost
+    expect(proposals.map(p => p.product_id)).toEqual(['product-2'])
+  })
+
+  it('applies accepted proposals and records the history', async () => {
+    const proposals = await service.getProposals()
+
+    const result = await service.applyProposals(proposals, 'merve')
+
+    expect(result.applied).toBe(1)
+    expect(db.rows('products')[1].price).toBe(proposals[0].suggested_price)
+    expect(db.rows('product_price_history').map(h => [h.product_id, h.old_price, h.new_price, h.changed_by])).toEqual([
+      ['product-2', 300, proposals[0].suggested_price, 'merve']
+    ])
+  })
+
+  it('changes nothing when a price moved after the proposal', async () => {
+    db.rows('price_rules')[0].value = 200
+    const proposals = await service.getProposals()
+    expect(proposals).toHaveLength(2)
+
+    db.rows('products')[1].price = 310
+    const error = await service.applyProposals(proposals).catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(db.rows('products').map(p => p.price)).toEqual([100, 310, 50])
+    expect(db.rows('product_price_history')).toHaveLength(0)
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Purchase Order Service Tests
+ * Lifecycle transitions and transactional goods receipt
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { PurchaseOrderService, calculateOutstanding, normalizeItems } from '../purchaseOrderService'
+import { TransactionError } from '../transaction'
+import { UnitConversionError } from '../unitService'
+
+const NOW = new Date('2025-03-01T10:00:00.000Z')
+
+const seed = () => ({
+  supplier_orders: [] as any[],
+  raw_materials: [
+    { id: 'mat-1', name: 'Kurdele', stock_quantity: 5, unit_price_try: 10, price_date: '2024-12-01' },
+    { id: 'mat-2', name: 'Kumaş', stock_quantity: 0, unit_price_try: 50, price_date: '2024-12-01' },
+    { id: 'mat-3', name: 'Keten', stock_unit: 'm', stock_quantity: 2, unit_price_try: 8, price_date: '2024-12-01' }
+  ],
+  material_unit_conversions: [
+    { id: 'conv-1', raw_material_id: 'mat-3', unit: 'top', factor: 25 }
+  ],
+  stock_movements: [] as any[]
+})
+
+describe('PurchaseOrderService', () => {
+  let db: FakePostgrest
+  let service: PurchaseOrderService
+  let orderId: string
+
+  beforeEach(async () => {
+    db = new FakePostgrest(seed())
+    service = new PurchaseOrderService(db)
+    const order = await service.createOrder({
+      supplier_id: 'sup-1',
+      items: [
+        { material_id: 'mat-1', material_name: 'Kurdele', quantity: 10, unit_price: 10 },
+        { material_id: 'mat-2', material_name: 'Kumaş', quantity: 4 }
+      ]
+    })
+    orderId = order.id
+  })
+
+  it('creates pending orders with typed line items', () => {
+    const [order] = db.rows('supplier_orders')
+
+    expect(order.status).toBe('PENDING')
+    expect(order.items_json[1]).toEqual({
+      material_id: 'mat-2', material_name: 'Kumaş', quantity: 4, unit: null, unit_price: null, received_quantity: 0
+    })
+  })
+
+  it('only allows receiving goods after the order was placed', async () => {
+    await expect(service.receive(orderId, [{ material_id: 'mat-1', quantity: 1 }])).rejects.toThrow('status PENDING')
+    await expect(service.transition(orderId, 'RECEIVED')).rejects.toThrow('receive()')
+
+    await service.transition(orderId, 'ORDERED')
+    await expect(service.transition(orderId, 'PENDING')).rejects.toThrow('Invalid purchase order transition')
+  })
+
+  it('records a partial receipt with IN movements and the received price', async () => {
+    await service.transition(orderId, 'ORDERED')
+
+    const result = await service.receive(orderId, [{ material_id: 'mat-1', quantity: 6, unit_price: 12 }], NOW)
+
+    expect(result.status).toBe('PARTIALLY_RECEIVED')
+    expect(db.rows('stock_movements')).toMatchObject([{ raw_material_id: 'mat-1', movement_type: 'IN', quantity: 6 }])
+    expect(db.rows('raw_materials')[0]).toMatchObject({ stock_quantity: 11, unit_price_try: 12, price_date: '2025-03-01' })
+    expect(db.rows('raw_materials')[1]).toMatchObject({ stock_quantity: 0, unit_price_try: 50 })
+    expect(db.rows('material_price_history')).toMatchObject([
+      { raw_material_id: 'mat-1', supplier_id: 'sup-1', old_price: 10, new_price: 12, source: 'GOODS_RECEIPT', reference_id: orderId }
+    ])
+  })
+
+  it('dates every receipt, also partial ones', async () => {
+    const LATER = new Date('2025-03-04T09:00:00.000Z')
+    await service.transition(orderId, 'ORDERED')
+
+    await service.receive(orderId, [{ material_id: 'mat-1', quantity: 6, unit_price: 12 }], NOW)
+    expect(db.rows('supplier_orders')[0].received_at).toBeUndefined()
+
+    await service.receive(orderId, [{ material_id: 'mat-1', quantity: 4 }, { material_id: 'mat-2', quantity: 4 }], LATER)
+
+    expect(db.rows('supplier_orders')[0].receipts_json).toEqual([
+      { received_at: NOW.toISOString(), lines: [{ material_id: 'mat-1', quantity: 6, unit_price: 12 }] },
+      {
+        received_at: LATER.toISOString(),
+        lines: [{ material_id: 'mat-1', quantity: 4, unit_price: null }, { material_id: 'mat-2', quantity: 4, unit_price: null }]
+      }
+    ])
+    expect(db.rows('supplier_orders')[0].received_at).toBe(LATER.toISOString())
+  })
+
+  it('books received quantities and prices in the stock unit', async () => {
+    const order = await service.createOrder({
+      supplier_id: 'sup-1',
+      items: [{ material_id: 'mat-3', material_name: 'Keten', quantity: 3, unit: 'top', unit_price: 250 }]
+    })
+    await service.transition(order.id, 'ORDERED')
+
+    await service.receive(order.id, [{ material_id: 'mat-3', quantity: 2, unit_price: 250 }], NOW)
+
+    expect(db.rows('stock_movements')).toMatchObject([
+      { raw_material_id: 'mat-3', movement_type: 'IN', quantity: 50, notes: 'Received 2 top, Unit price 250' }
+    ])
+    expect(db.rows('raw_materials')[2]).toMatchObject({ stock_quantity: 52, unit_price_try: 10 })
+    expect(db.rows('material_price_history')).toMatchObject([{ raw_material_id: 'mat-3', old_price: 8, new_price: 10 }])
+    expect(db.rows('supplier_orders')[1].items_json[0]).toMatchObject({ received_quantity: 2, unit_price: 250 })
+  })
+
+  it('refuses a receipt whose unit does not convert to the stock unit', async () => {
+    const order = await service.createOrder({
+      supplier_id: 'sup-1',
+      items: [{ material_id: 'mat-3', material_name: 'Keten', quantity: 3, unit: 'kg' }]
+    })
+    await service.transition(order.id, 'ORDERED')
+
+    await expect(service.receive(order.id, [{ material_id: 'mat-3', quantity: 1 }], NOW)).rejects.toThrow(UnitConversionError)
+    expect(db.rows('stock_movements')).toHaveLength(0)
+    expect(db.rows('supplier_orders')[1].status).toBe('ORDERED')
+  })
+
+  it('completes the order once every line is received', async () => {
+    await service.transition(orderId, 'ORDERED')
+    await service.receive(orderId, [{ material_id: 'mat-1', quantity: 6 }], NOW)
+
+    const result = await service.receive(orderId, [
+      { material_id: 'mat-1', quantity: 4 },
+      { material_id: 'mat-2', quantity: 4 }
+    ], NOW)
+
+    expect(result.status).toBe('RECEIVED')
+    expect(db.rows('supplier_orders')[0].received_at).toBe(NOW.toISOString())
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([15, 4, 2])
+  })
+
+  it('refuses a receipt on an order changed since it was read', async () => {
+    await service.transition(orderId, 'ORDERED')
+
+    const results = await Promise.allSettled([
+      service.receive(orderId, [{ material_id: 'mat-1', quantity: 6 }], NOW),
+      service.receive(orderId, [{ material_id: 'mat-1', quantity: 6 }], NOW)
+    ])
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+    expect(db.rows('supplier_orders')[0].items_json[0].received_quantity).toBe(6)
+    expect(db.rows('stock_movements')).toHaveLength(1)
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(11)
+  })
+
+  it('rejects receiving more than is outstanding', async () => {
+    await service.transition(orderId, 'ORDERED')
+
+    await expect(service.receive(orderId, [{ material_id: 'mat-2', quantity: 5 }])).rejects.toThrow('only 4 is outstanding')
+    expect(db.rows('stock_movements')).toHaveLength(0)
+  })
+
+  it('rolls the whole receipt back when a stock update fails', async () => {
+    await service.transition(orderId, 'ORDERED')
+    db.failOn('adjust_material_stock', 'rpc', { skip: 1 })
+
+    const error = await service.receive(orderId, [
+      { material_id: 'mat-1', quantity: 10, unit_price: 12 },
+      { material_id: 'mat-2', quantity: 4 }
+    ], NOW).catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.failedStep).toBe('add 4 to stock of material mat-2')
+    expect(error.rolledBack).toBe(true)
+    expect(db.rows('supplier_orders')[0].status).toBe('ORDERED')
+    expect(db.rows('supplier_orders')[0].items_json[0].received_quantity).toBe(0)
+    expect(db.rows('supplier_orders')[0].receipts_json).toEqual([])
+    expect(db.rows('stock_movements')).toHaveLength(0)
+    expect(db.rows('raw_materials')[0]).toMatchObject({ stock_quantity: 5, unit_price_try: 10, price_date: '2024-12-01' })
+  })
+
+  it('reports outstanding quantities per supplier and material', async () => {
+    await service.transition(orderId, 'ORDERED')
+    await service.receive(orderId, [{ material_id: 'mat-1', quantity: 6 }], NOW)
+
+    const outstanding = await service.getOutstanding()
+
+    expect(outstanding.map(line => [line.supplier_id, line.material_id, line.outstanding_quantity])).toEqual([
+      ['sup-1', 'mat-1', 4],
+      ['sup-1', 'mat-2', 4]
+    ])
+    expect(outstanding[0].outstanding_value).toBe(40)
+  })
+})
+
+describe('purchase order helpers', () => {
+  it('reads legacy suggestion rows', () => {
+    expect(normalizeItems([{ material_id: 'mat-1', material_name: 'Kurdele', suggested_qty: 7 }])[0].quantity).toBe(7)
+  })
+
+  it('merges the same material across orders of one supplier', () => {
+    const lines = calculateOutstanding([
+      { id: 'po-1', supplier_id: 'sup-1', expected_date: '2025-03-10', items_json: [{ material_id: 'mat-1', quantity: 3 }] },
+      { id: 'po-2', supplier_id: 'sup-1', expected_date: '2025-03-05', items_json: [{ material_id: 'mat-1', quantity: 2 }] }
+    ])
+
+    expect(lines).toHaveLength(1)
+    expect(lines[0]).toMatchObject({ outstanding_quantity: 5, order_ids: ['po-1', 'po-2'], expected_date: '2025-03-05' })
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Reorder Service Tests
+ * Reorder points from consumption history and draft purchase orders
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { ReorderService, calculateReorderSuggestions, groupBySupplier, ReorderMaterialInput } from '../reorderService'
+
+const NOW = new Date('2025-03-31T00:00:00.000Z')
+
+const material = (overrides: Partial<ReorderMaterialInput>): ReorderMaterialInput => ({
+  id: 'mat-1',
+  name: 'Kurdele',
+  stock_unit: 'm',
+  stock_quantity: 0,
+  min_stock_quantity: null,
+  lead_time_days: 10,
+  supplier_id: 'sup-1',
+  unit_price_try: 5,
+  ...overrides
+})
+
+describe('calculateReorderSuggestions', () => {
+  it('orders when stock reaches lead-time demand plus the buffer', () => {
+    // 180 used in 90 days = 2/day; 10 days lead time -> 20 + 20% = 24
+    const [suggestion] = calculateReorderSuggestions(
+      [material({ stock_quantity: 24 })],
+      [{ raw_material_id: 'mat-1', quantity: 100 }, { raw_material_id: 'mat-1', quantity: 80 }]
+    )
+
+    expect(suggestion.daily_usage).toBe(2)
+    expect(suggestion.reorder_point).toBeCloseTo(24)
+    // Cover 30 more days: 24 + 60 - 24
+    expect(suggestion.suggested_qty).toBe(60)
+  })
+
+  it('counts legacy negative OUT quantities as usage', () => {
+    const [suggestion] = calculateReorderSuggestions(
+      [material({ stock_quantity: 24 })],
+      [{ raw_material_id: 'mat-1', quantity: -100 }, { raw_material_id: 'mat-1', quantity: 80 }]
+    )
+
+    expect(suggestion.daily_usage).toBe(2)
+  })
+
+  it('skips materials above the reorder point', () => {
+    expect(calculateReorderSuggestions(
+      [material({ stock_quantity: 25 })],
+      [{ raw_material_id: 'mat-1', quantity: 180 }]
+    )).toEqual([])
+  })
+
+  it('counts quantities already on order', () => {
+    const onOrder = new Map([['mat-1', 10]])
+
+    expect(calculateReorderSuggestions(
+      [material({ stock_quantity: 15 })],
+      [{ raw_material_id: 'mat-1', quantity: 180 }],
+      onOrder
+    )).toEqual([])
+  })
+
+  it('falls back to the buffered minimum without usage history', () => {
+    const [suggestion] = calculateReorderSuggestions([material({ stock_quantity: 4, min_stock_quantity: 10 })], [])
+
+    expect(suggestion.suggested_qty).toBe(8)
+  })
+
+  it('orders from the cheapest supplier delivering before stock runs out, at least its minimum', () => {
+    // 2/day with 8 in stock runs out in 4 days
+    const offers = new Map([['mat-1', [
+      { id: 'rel-1', raw_material_id: 'mat-1', supplier_id: 'sup-1', unit_price_try: 4, lead_time_days: 10, min_order_quantity: null, is_preferred: true },
+      { id: 'rel-2', raw_material_id: 'mat-1', supplier_id: 'sup-2', unit_price_try: 6, lead_time_days: 3, min_order_quantity: 200, is_preferred: false }
+    ]]])
+
+    const [suggestion] = calculateReorderSuggestions(
+      [material({ stock_quantity: 8 })],
+      [{ raw_material_id: 'mat-1', quantity: 180 }],
+      new Map(),
+      new Map(),
+      offers,
+      NOW
+    )
+
+    expect(suggestion).toMatchObject({
+      supplier_id: 'sup-2',
+      unit_price: 6,
+      lead_time_days: 3,
+      suggested_qty: 200,
+      need_date: '2025-04-04',
+      delivers_in_time: true
+    })
+  })
+
+  it('groups proposals by supplier', () => {
+    const groups = groupBySupplier(calculateReorderSuggestions([
+      material({ id: 'mat-1', min_stock_quantity: 10 }),
+      material({ id: 'mat-2', min_stock_quantity: 5 }),
+      material({ id: 'mat-3', min_stock_quantity: 5, supplier_id: null })
+    ], []))
+
+    expect(groups.map(g => [g.supplier_id, g.items.length, g.total_value])).toEqual([
+      ['sup-1', 2, 90],
+      [null, 1, 30]
+    ])
+  })
+})
+
+describe('ReorderService', () => {
+  let db: FakePostgrest
+  let service: ReorderService
+
+  beforeEach(() => {
+    db = new FakePostgrest({
+      raw_materials: [
+        material({ id: 'mat-1', stock_quantity: 2, min_stock_quantity: 10 }),
+        material({ id: 'mat-2', stock_quantity: 0, min_stock_quantity: 5, supplier_id: null })
+      ],
+      stock_movements: [
+        { raw_material_id: 'mat-1', movement_type: 'OUT', quantity: 900, created_at: '2024-06-01T00:00:00.000Z' }
+      ],
+      supplier_orders: []
+    })
+    service = new ReorderService(db)
+  })
+
+  it('persists proposals as draft purchase orders and does not repeat them', async () => {
+    const created = await service.runAutoReorder(true, NOW)
+
+    expect(created).toHaveLength(1)
+    expect(db.rows('supplier_orders')[0]).toMatchObject({ supplier_id: 'sup-1', status: 'PENDING' })
+    expect(db.rows('supplier_orders')[0].items_json[0]).toMatchObject({ material_id: 'mat-1', quantity: 10 })
+    expect(db.rows('backup_logs')).toHaveLength(0)
+
+    expect(await service.runAutoReorder(true, NOW)).toHaveLength(0)
+  })
+
+  it('reads OUT movements beyond the first page', async () => {
+    db.tables.stock_movements = Array.from({ length: 1800 }, (_, i) => ({
+      id: `mv-${String(i).padStart(4, '0')}`,
+      raw_material_id: 'mat-1',
+      movement_type: 'OUT',
+      quantity: 0.1,
+      created_at: '2025-03-01T00:00:00.000Z'
+    }))
+
+    const [group] = await service.getSuggestions(NOW)
+
+    expect(group.items[0].daily_usage).toBeCloseTo(2)
+    expect(db.log.filter(entry => entry.table === 'stock_movements')).toHaveLength(2)
+  })
+
+  it('does nothing while auto reorder is disabled', async () => {
+    expect(await service.runAutoReorder(false, NOW)).toEqual([])
+    expect(db.rows('supplier_orders')).toHaveLength(0)
+  })
+})
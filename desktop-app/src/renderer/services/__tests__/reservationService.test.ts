@@ -0,0 +1,120 @@
+/**
+ * Stock Reservation Service Tests
+ * Reservations follow the order from PENDING to confirmation or cancellation
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { StockReservationService, calculateAvailability } from '../reservationService'
+import { OrderStatusEngine } from '../orderStatusEngine'
+
+const NOW = new Date('2025-03-01T00:00:00.000Z')
+
+const seed = () => ({
+  orders: [
+    { id: 'order-1', orderNumber: 'MDH-001', status: 'PENDING' },
+    { id: 'order-2', orderNumber: 'MDH-002', status: 'DELIVERED' }
+  ],
+  order_items: [
+    { id: 'item-1', orderId: 'order-1', productId: 'product-1', quantity: 2 },
+    { id: 'item-2', orderId: 'order-2', productId: 'product-1', quantity: 1 }
+  ],
+  product_recipes: [
+    { id: 'recipe-1', product_id: 'product-1', raw_material_id: 'mat-1', quantity: 3 }
+  ],
+  raw_materials: [
+    { id: 'mat-1', name: 'Kurdele', stock_quantity: 50, stock_unit: 'adet' }
+  ],
+  stock_movements: [] as any[],
+  stock_reservations: [] as any[]
+})
+
+describe('StockReservationService', () => {
+  let db: FakePostgrest
+  let service: StockReservationService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new StockReservationService(db)
+  })
+
+  it('reserves recipe quantities for pending orders only once', async () => {
+    await service.syncReservations(NOW)
+    await service.syncReservations(NOW)
+
+    const reservations = db.rows('stock_reservations')
+    expect(reservations).toHaveLength(1)
+    expect(reservations[0]).toMatchObject({ order_id: 'order-1', raw_material_id: 'mat-1', quantity: 6, status: 'ACTIVE' })
+  })
+
+  it('converts reservations when the order is confirmed', async () => {
+    await service.syncReservations(NOW)
+    await new OrderStatusEngine(db).transition('order-1', 'CONFIRMED')
+
+    expect(db.rows('stock_reservations')[0].status).toBe('CONVERTED')
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(44)
+  })
+
+  it('releases reservations when a pending order is cancelled', async () => {
+    await service.syncReservations(NOW)
+    await new OrderStatusEngine(db).transition('order-1', 'CANCELLED')
+
+    expect(db.rows('stock_reservations')[0].status).toBe('RELEASED')
+    expect(db.rows('stock_movements')).toHaveLength(0)
+  })
+
+  it('keeps reservations active when the confirmation rolls back', async () => {
+    await service.syncReservations(NOW)
+    db.failOn('order_status_history', 'insert')
+
+    await expect(new OrderStatusEngine(db).transition('order-1', 'CONFIRMED')).rejects.toThrow()
+    expect(db.rows('stock_reservations')[0].status).toBe('ACTIVE')
+  })
+
+  it('expires reservations past their expiry date', async () => {
+    await service.reserveOrder('order-1', NOW)
+
+    const later = new Date(NOW.getTime() + 15 * 24 * 60 * 60 * 1000)
+    expect(await service.expireStaleReservations(later)).toBe(1)
+    expect(db.rows('stock_reservations')[0].status).toBe('EXPIRED')
+  })
+
+  it('reconciles reservations when an order is written, not when stock is read', async () => {
+    // A website order placed while the desktop app was closed
+    db.tables.orders.push({ id: 'order-3', orderNumber: 'WEB-003', status: 'PENDING' })
+    db.tables.order_items.push({ id: 'item-3', orderId: 'order-3', productId: 'product-1', quantity: 1 })
+
+    await service.getActiveReservations(NOW)
+    expect(db.log.filter(entry => entry.operation !== 'select')).toEqual([])
+
+    await new OrderStatusEngine(db).transition('order-1', 'CANCELLED')
+
+    expect(db.rows('stock_reservations')).toEqual([
+      expect.objectContaining({ order_id: 'order-3', quantity: 3, status: 'ACTIVE' })
+    ])
+  })
+
+  it('leaves reservations past their expiry date out of the active ones', async () => {
+    await service.reserveOrder('order-1', NOW)
+
+    const later = new Date(NOW.getTime() + 15 * 24 * 60 * 60 * 1000)
+    expect(await service.getActiveReservations(NOW)).toHaveLength(1)
+    expect(await service.getActiveReservations(later)).toEqual([])
+  })
+
+  it('subtracts active reservations from on-hand stock', () => {
+    const [availability] = calculateAvailability(
+      [{ id: 'mat-1', name: 'Kurdele', stock_quantity: 5, stock_unit: 'adet' }],
+      [{ raw_material_id: 'mat-1', quantity: 6 }]
+    )
+
+    expect(availability).toMatchObject({ on_hand: 5, reserved: 6, available: -1 })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Sourcing Service Tests
+ * Supplier terms per material, preferred supplier and supplier choice
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { SourcingService, pickSupplier } from '../sourcingService'
+import { MaterialSupplier } from '../../types'
+
+const offer = (overrides: Partial<MaterialSupplier>): MaterialSupplier => ({
+  id: 'offer',
+  raw_material_id: 'mat-1',
+  supplier_id: 'sup-1',
+  unit_price_try: 10,
+  lead_time_days: 7,
+  min_order_quantity: null,
+  is_preferred: false,
+  ...overrides
+})
+
+describe('pickSupplier', () => {
+  const offers = [
+    offer({ id: 'cheap-slow', supplier_id: 'sup-1', unit_price_try: 8, lead_time_days: 20 }),
+    offer({ id: 'mid', supplier_id: 'sup-2', unit_price_try: 10, lead_time_days: 5 }),
+    offer({ id: 'fast', supplier_id: 'sup-3', unit_price_try: 15, lead_time_days: 2 })
+  ]
+
+  it('takes the cheapest supplier that delivers before the need date', () => {
+    expect(pickSupplier(offers, 30)?.offer.id).toBe('cheap-slow')
+    expect(pickSupplier(offers, 6)).toMatchObject({ offer: { id: 'mid' }, lead_time_days: 5, delivers_in_time: true })
+  })
+
+  it('falls back to the fastest supplier when none is in time', () => {
+    expect(pickSupplier(offers, 1)).toMatchObject({ offer: { id: 'fast' }, delivers_in_time: false })
+  })
+
+  it('prefers the preferred supplier on equal prices and ignores dates without usage', () => {
+    const tied = [offer({ id: 'a' }), offer({ id: 'b', supplier_id: 'sup-2', is_preferred: true })]
+
+    expect(pickSupplier(tied, null)?.offer.id).toBe('b')
+    expect(pickSupplier([], 10)).toBeNull()
+  })
+})
+
+describe('SourcingService', () => {
+  let db: FakePostgrest
+  let service: SourcingService
+
+  beforeEach(() => {
+    db = new FakePostgrest({
+      raw_materials: [{ id: 'mat-1', name: 'Kurdele', stock_unit: 'm', supplier_id: 'sup-1' }],
+      suppliers: [{ id: 'sup-1', name: 'Tekstil A.Ş.' }, { id: 'sup-2', name: 'Kurdeleci' }],
+      raw_materials_suppliers: [
+        { id: 'rel-1', raw_material_id: 'mat-1', supplier_id: 'sup-1', unit_price_try: 12, lead_time_days: 3, is_preferred: true },
+        { id: 'rel-2', raw_material_id: 'mat-1', supplier_id: 'sup-2' }
+      ]
+    })
+    service = new SourcingService(db)
+  })
+
+  it('updates the existing row of a supplier instead of adding another', async () => {
+    await service.saveOffer({
+      raw_material_id: 'mat-1', supplier_id: 'sup-2', unit_price_try: 9, lead_time_days: 10, min_order_quantity: 50, is_preferred: false
+    })
+
+    expect(db.rows('raw_materials_suppliers')).toHaveLength(2)
+    expect(db.rows('raw_materials_suppliers')[1]).toMatchObject({ unit_price_try: 9, lead_time_days: 10, min_order_quantity: 50 })
+    await expect(service.saveOffer({
+      raw_material_id: 'mat-1', supplier_id: 'sup-2', unit_price_try: -1, lead_time_days: null, min_order_quantity: null, is_preferred: false
+    })).rejects.toThrow('Unit price must be zero or more')
+  })
+
+  it('moves the preferred flag and the material supplier together', async () => {
+    await service.setPreferred('mat-1', 'sup-2')
+
+    expect(db.rows('raw_materials_suppliers').map(row => row.is_preferred)).toEqual([false, true])
+    expect(db.rows('raw_materials')[0].supplier_id).toBe('sup-2')
+  })
+
+  it('compares suppliers side by side, cheapest first', async () => {
+    await service.saveOffer({
+      raw_material_id: 'mat-1', supplier_id: 'sup-2', unit_price_try: 9, lead_time_days: 10, min_order_quantity: null, is_preferred: false
+    })
+
+    const [row] = await service.getComparison()
+
+    expect(row.offers.map(o => [o.supplier_name, o.is_cheapest, o.is_fastest])).toEqual([
+      ['Kurdeleci', true, false],
+      ['Tekstil A.Ş.', false, true]
+    ])
+  })
+})
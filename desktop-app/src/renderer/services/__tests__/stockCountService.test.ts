@@ -0,0 +1,108 @@
+/**
+ * Stock Count Service Tests
+ * Resumable count sessions posted as ADJUSTMENT movements
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { StockCountService, stockCountToCsv } from '../stockCountService'
+import { TransactionError } from '../transaction'
+
+const NOW = new Date('2025-04-01T09:00:00.000Z')
+
+const seed = () => ({
+  raw_materials: [
+    { id: 'mat-1', name: 'Kurdele', stock_unit: 'm', stock_quantity: 20, unit_price_try: 2, supplier_id: 'sup-1', is_semi_finished: false },
+    { id: 'mat-2', name: 'Kutu', stock_unit: 'adet', stock_quantity: 8, unit_price_try: 10, supplier_id: 'sup-2', is_semi_finished: false },
+    { id: 'mat-3', name: 'Hazır Fiyonk', stock_unit: 'adet', stock_quantity: 5, unit_price_try: 4, supplier_id: 'sup-1', is_semi_finished: true }
+  ],
+  stock_count_sessions: [] as any[],
+  stock_movements: [] as any[]
+})
+
+describe('StockCountService', () => {
+  let db: FakePostgrest
+  let service: StockCountService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new StockCountService(db)
+  })
+
+  it('snapshots only the materials matching the filter', async () => {
+    const session = await service.startSession({ name: 'Ay sonu', scope: 'RAW', supplier_id: 'sup-1' })
+
+    expect(session.status).toBe('OPEN')
+    expect(session.lines_json).toEqual([
+      { raw_material_id: 'mat-1', material_name: 'Kurdele', unit: 'm', expected_quantity: 20, counted_quantity: null }
+    ])
+  })
+
+  it('keeps saved counts so the session can be resumed', async () => {
+    const { id } = await service.startSession({ name: 'Ay sonu' })
+
+    await service.saveCounts(id, [{ raw_material_id: 'mat-1', counted_quantity: 18 }])
+    const resumed = await service.getSession(id)
+
+    expect(resumed.lines_json.find(line => line.raw_material_id === 'mat-1')!.counted_quantity).toBe(18)
+    await expect(service.saveCounts(id, [{ raw_material_id: 'mat-1', counted_quantity: -1 }])).rejects.toThrow('zero or more')
+  })
+
+  it('posts variances against the stock at session start with the session reference', async () => {
+    const { id } = await service.startSession({ name: 'Ay sonu' })
+    await service.saveCounts(id, [
+      { raw_material_id: 'mat-1', counted_quantity: 17 },
+      { raw_material_id: 'mat-2', counted_quantity: 8 }
+    ])
+    // Stock moved while counting
+    db.rows('raw_materials')[0].stock_quantity = 19
+
+    const result = await service.postSession(id, NOW)
+
+    expect(result.variances).toMatchObject([{ raw_material_id: 'mat-1', book_quantity: 20, variance: -3, variance_value: -6 }])
+    expect(db.rows('stock_movements')).toMatchObject([
+      { raw_material_id: 'mat-1', movement_type: 'ADJUSTMENT', quantity: -3, stock_count_session_id: id }
+    ])
+    // The movement posted while counting is kept on top of the variance
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([16, 8, 5])
+    expect(db.rows('stock_count_sessions')[0]).toMatchObject({ status: 'POSTED', posted_at: NOW.toISOString() })
+
+    await expect(service.postSession(id, NOW)).rejects.toThrow('is POSTED')
+  })
+
+  it('rolls the whole count back when a stock update fails', async () => {
+    const { id } = await service.startSession({ name: 'Ay sonu' })
+    await service.saveCounts(id, [
+      { raw_material_id: 'mat-1', counted_quantity: 17 },
+      { raw_material_id: 'mat-2', counted_quantity: 9 }
+    ])
+    db.failOn('adjust_material_stock', 'rpc', { skip: 1 })
+
+    const error = await service.postSession(id, NOW).catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.rolledBack).toBe(true)
+    expect(db.rows('stock_movements')).toHaveLength(0)
+    expect(db.rows('raw_materials').map(m => m.stock_quantity)).toEqual([20, 8, 5])
+    expect(db.rows('stock_count_sessions')[0].status).toBe('OPEN')
+  })
+
+  it('exports lines and variances as CSV', async () => {
+    const { id } = await service.startSession({ name: 'Ay sonu', scope: 'SEMI_FINISHED' })
+    const session = await service.saveCounts(id, [{ raw_material_id: 'mat-3', counted_quantity: 4.5 }])
+
+    const csv = stockCountToCsv(session, await service.getVariances(id))
+
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFMalzeme;Birim;Beklenen;Sayılan;Fark;Fark Tutarı (TRY)',
+      '"Hazır Fiyonk";"adet";5;4,5;-0,5;-2'
+    ])
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * Supplier Scorecard Service Tests
+ * On-time and fill rates, lead times and price volatility from purchase orders
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { SupplierScorecardService, priceVolatility, supplierScore } from '../supplierScorecardService'
+
+const NOW = new Date('2025-04-01T00:00:00.000Z')
+
+const item = (overrides: Record<string, any>) => ({
+  material_id: 'mat-1', material_name: 'Kurdele', quantity: 10, unit: 'm', unit_price: 10, received_quantity: 10, ...overrides
+})
+
+const seed = () => ({
+  suppliers: [
+    { id: 'sup-1', name: 'Tekstil A.Ş.' },
+    { id: 'sup-2', name: 'Kurdeleci' },
+    { id: 'sup-3', name: 'Yeni Tedarikçi' }
+  ],
+  supplier_orders: [
+    // sup-1: on time in 5 days, then 2 days late in 9 days
+    { id: 'po-1', supplier_id: 'sup-1', status: 'RECEIVED', items_json: [item({})], ordered_at: '2025-01-01T09:00:00.000Z', expected_date: '2025-01-08', received_at: '2025-01-06T09:00:00.000Z', created_at: '2025-01-01T08:00:00.000Z' },
+    { id: 'po-2', supplier_id: 'sup-1', status: 'RECEIVED', items_json: [item({ unit_price: 14 })], ordered_at: '2025-02-01T09:00:00.000Z', expected_date: '2025-02-08', received_at: '2025-02-10T09:00:00.000Z', created_at: '2025-02-01T08:00:00.000Z' },
+    // sup-2: cancelled with half delivered, and an open order past its date
+    { id: 'po-3', supplier_id: 'sup-2', status: 'CANCELLED', items_json: [item({ received_quantity: 5 })], ordered_at: '2025-02-01T09:00:00.000Z', expected_date: '2025-02-05', created_at: '2025-02-01T08:00:00.000Z' },
+    { id: 'po-4', supplier_id: 'sup-2', status: 'ORDERED', items_json: [item({ received_quantity: 0 })], ordered_at: '2025-03-01T09:00:00.000Z', expected_date: '2025-03-10', created_at: '2025-03-01T08:00:00.000Z' },
+    // Drafts never count
+    { id: 'po-5', supplier_id: 'sup-3', status: 'PENDING', items_json: [item({ received_quantity: 0 })], created_at: '2025-03-01T08:00:00.000Z' },
+    { id: 'po-6', supplier_id: 'sup-3', status: 'CANCELLED', items_json: [item({ received_quantity: 0 })], created_at: '2025-03-01T08:00:00.000Z' }
+  ],
+  raw_materials_suppliers: [
+    { raw_material_id: 'mat-1', supplier_id: 'sup-1', lead_time_days: 7 }
+  ],
+  raw_materials: [
+    { id: 'mat-1', lead_time_days: 3 }
+  ]
+})
+
+describe('SupplierScorecardService', () => {
+  let db: FakePostgrest
+  let service: SupplierScorecardService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new SupplierScorecardService(db)
+  })
+
+  it('measures on-time rate, lead time against the promise and price volatility', async () => {
+    const [first] = await service.getScorecards(NOW)
+
+    expect(first).toMatchObject({
+      supplier_id: 'sup-1',
+      rank: 1,
+      order_count: 2,
+      on_time_rate: 0.5,
+      fill_rate: 1,
+      avg_lead_time_days: 7,
+      promised_lead_time_days: 7
+    })
+    // Prices 10 and 14: mean 12, deviation 2
+    expect(first.price_volatility_percent).toBeCloseTo(16.67, 2)
+    expect(first.orders.map(order => order.on_time)).toEqual([true, false])
+  })
+
+  it('counts short closed orders and overdue open ones, ignoring drafts', async () => {
+    const cards = await service.getScorecards(NOW)
+    const second = cards.find(card => card.supplier_id === 'sup-2')!
+
+    expect(cards.map(card => card.supplier_id)).toEqual(['sup-1', 'sup-2'])
+    expect(second).toMatchObject({ order_count: 2, on_time_rate: 0, fill_rate: 0.5, avg_lead_time_days: null })
+    expect(second.orders.find(order => order.order_id === 'po-3')?.promised_lead_time_days).toBe(3)
+  })
+
+  it('dates partial receipts for on-time rate and lead time', async () => {
+    db.tables.supplier_orders.push({
+      id: 'po-7', supplier_id: 'sup-3', status: 'PARTIALLY_RECEIVED',
+      items_json: [item({ received_quantity: 8 })],
+      receipts_json: [
+        { received_at: '2025-03-03T09:00:00.000Z', lines: [{ material_id: 'mat-1', quantity: 6, unit_price: 10 }] },
+        { received_at: '2025-03-11T09:00:00.000Z', lines: [{ material_id: 'mat-1', quantity: 2, unit_price: 10 }] }
+      ],
+      ordered_at: '2025-03-01T09:00:00.000Z', expected_date: '2025-03-20', created_at: '2025-03-01T08:00:00.000Z'
+    })
+
+    const card = (await service.getScorecards(new Date('2025-03-15T00:00:00.000Z'))).find(c => c.supplier_id === 'sup-3')!
+
+    // Not due yet, but already delivering: (6 × 2 days + 2 × 10 days) / 8
+    expect(card).toMatchObject({ order_count: 1, on_time_rate: null, avg_lead_time_days: 4 })
+    expect(card.orders[0]).toMatchObject({ received_at: '2025-03-11T09:00:00.000Z', on_time: null, fill_rate: null })
+
+    // A receipt after the expected date makes the order late
+    db.tables.supplier_orders[6].expected_date = '2025-03-10'
+    const late = (await service.getScorecards(new Date('2025-03-15T00:00:00.000Z'))).find(c => c.supplier_id === 'sup-3')!
+    expect(late.orders[0].on_time).toBe(false)
+  })
+
+  it('reads every purchase order, not only the first page', async () => {
+    for (let index = 0; index < 1000; index++) {
+      db.tables.supplier_orders.push({
+        id: `po-x${String(index).padStart(4, '0')}`, supplier_id: 'sup-3', status: 'RECEIVED',
+        items_json: [item({})], ordered_at: '2025-01-01T09:00:00.000Z', received_at: '2025-01-04T09:00:00.000Z', created_at: '2025-01-01T08:00:00.000Z'
+      })
+    }
+
+    const cards = await service.getScorecards(NOW)
+
+    expect(cards.find(card => card.supplier_id === 'sup-3')?.order_count).toBe(1000)
+    expect(cards.find(card => card.supplier_id === 'sup-1')?.order_count).toBe(2)
+  })
+})
+
+describe('supplier score', () => {
+  it('leaves out metrics without data', () => {
+    expect(supplierScore({
+      on_time_rate: 1, fill_rate: null, avg_lead_time_days: null, promised_lead_time_days: null, price_volatility_percent: null
+    })).toBe(100)
+    expect(supplierScore({
+      on_time_rate: null, fill_rate: null, avg_lead_time_days: 10, promised_lead_time_days: 5, price_volatility_percent: null
+    })).toBe(50)
+    expect(priceVolatility([{ material_id: 'mat-1', material_name: 'Kurdele', ordered_at: '', unit_price: 10 }])).toBeNull()
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Sync Service Integration Tests
+ * Outbox replay against Postgres, whose triggers stamp the change columns
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { PGlite } from '@electric-sql/pglite'
+import { createTestDatabase } from './pglite'
+import { PglitePostgrest } from './pglitePostgrest'
+import { MemoryLocalStore } from './memoryLocalStore'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+    healthCheck: vi.fn(async () => true)
+  },
+}))
+
+import { SyncService } from '../syncService'
+
+describe('SyncService on Postgres', () => {
+  let db: PGlite
+  let client: PglitePostgrest
+  let store: MemoryLocalStore
+  let service: SyncService
+
+  beforeAll(async () => {
+    db = await createTestDatabase()
+    client = new PglitePostgrest(db)
+  }, 60000)
+
+  beforeEach(async () => {
+    await db.exec(`
+      DELETE FROM orders;
+      INSERT INTO orders (id, "orderNumber", "updatedAt") VALUES ('order-1', 'MDH-001', '2025-03-01T10:00:00Z');
+    `)
+    store = new MemoryLocalStore()
+    service = new SyncService(client, store)
+    await service.pull(['orders'])
+  })
+
+  it('replays consecutive edits of an order on top of each other', async () => {
+    await service.queueWrite('orders', 'update', { admin_notes: 'Kapıda ödeme' }, 'order-1')
+    await service.queueWrite('orders', 'update', { shippingCity: 'İzmir' }, 'order-1')
+
+    expect(await service.push()).toEqual({ pushed: 2, conflicts: 0, failed: 0 })
+    const { rows } = await db.query<{ admin_notes: string; shippingCity: string; stamped: boolean }>(
+      `SELECT admin_notes, "shippingCity", "updatedAt" > '2025-03-01T10:00:00Z' AS stamped FROM orders WHERE id = 'order-1'`
+    )
+    expect(rows[0]).toEqual({ admin_notes: 'Kapıda ödeme', shippingCity: 'İzmir', stamped: true })
+  })
+
+  it('parks an edit when the order changed on the server after it was read', async () => {
+    await service.queueWrite('orders', 'update', { admin_notes: 'Kapıda ödeme' }, 'order-1')
+    await db.exec(`UPDATE orders SET admin_notes = 'Sunucuda' WHERE id = 'order-1'`)
+
+    expect(await service.push()).toEqual({ pushed: 0, conflicts: 1, failed: 0 })
+    const [conflict] = await service.getConflicts()
+    expect(conflict.remote).toMatchObject({ admin_notes: 'Sunucuda' })
+  })
+})
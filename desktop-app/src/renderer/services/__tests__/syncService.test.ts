@@ -0,0 +1,217 @@
+/**
+ * Sync Service Tests
+ * Offline reads and writes, outbox replay, updated_at conflict detection,
+ * paged and incremental pulls and embedded selects answered from the replica
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+import { OFFLINE_SYNC_CONFIG } from '../../constants'
+import { MemoryLocalStore } from './memoryLocalStore'
+
+const healthCheck = vi.fn(async () => true)
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+    healthCheck: () => healthCheck()
+  },
+}))
+
+import { SyncService, OfflineQueryError, changeColumn, applyQueryOptions, parseSelect } from '../syncService'
+
+const MATERIAL = { id: 'mat-1', name: 'Kurdele', stock_quantity: 40, updated_at: '2025-03-01T10:00:00.000Z' }
+
+describe('sync helpers', () => {
+  it('finds the version column of each replicated table', () => {
+    expect(changeColumn('raw_materials')).toBe('updated_at')
+    expect(changeColumn('orders')).toBe('updatedAt')
+    expect(changeColumn('order_items')).toBeNull()
+  })
+
+  it('filters, orders and pages replica rows like DatabaseService.select', () => {
+    const rows = [{ id: 'a', n: 2, t: 'x' }, { id: 'b', n: 1, t: 'x' }, { id: 'c', n: 3, t: 'y' }]
+    expect(applyQueryOptions(rows, { filter: { t: 'x' }, orderBy: 'n', orderDirection: 'asc' }).map(r => r.id)).toEqual(['b', 'a'])
+    expect(applyQueryOptions(rows, { orderBy: 'n', limit: 1, offset: 1 }).map(r => r.id)).toEqual(['a'])
+  })
+
+  it('parses embedded resources, aliases and hints of a select list', () => {
+    expect(parseSelect('id, name, supplier:suppliers!inner (id, name), raw_materials:supplier_id(count)')).toEqual([
+      { column: 'id' },
+      { column: 'name' },
+      { embed: { alias: 'supplier', name: 'suppliers', fields: [{ column: 'id' }, { column: 'name' }] } },
+      { embed: { alias: 'raw_materials', name: 'supplier_id', fields: [{ column: 'count' }] } }
+    ])
+  })
+})
+
+describe('SyncService', () => {
+  let db: FakePostgrest
+  let store: MemoryLocalStore
+  let service: SyncService
+
+  beforeEach(() => {
+    healthCheck.mockResolvedValue(true)
+    db = new FakePostgrest({ raw_materials: [{ ...MATERIAL }], orders: [] })
+    store = new MemoryLocalStore({ raw_materials: [{ ...MATERIAL }] })
+    service = new SyncService(db, store)
+  })
+
+  it('applies offline writes locally and replays them in order when the server is back', async () => {
+    healthCheck.mockResolvedValue(false)
+    const order = await service.queueWrite('orders', 'insert', { customerName: 'Ayşe' })
+    await service.queueWrite('raw_materials', 'update', { stock_quantity: 35 }, 'mat-1')
+
+    expect(await service.sync()).toMatchObject({ online: false, pushed: 0 })
+    expect(await service.read('raw_materials')).toEqual([expect.objectContaining({ stock_quantity: 35 })])
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(40)
+
+    healthCheck.mockResolvedValue(true)
+    expect(await service.sync()).toMatchObject({ online: true, pushed: 2, conflicts: 0, failed: 0 })
+    expect(db.rows('orders')).toEqual([expect.objectContaining({ id: order!.id, customerName: 'Ayşe' })])
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(35)
+    expect(await store.status()).toMatchObject({ pending: 0, conflicts: 0 })
+  })
+
+  it('parks an edit as a conflict when the server row changed since it was read', async () => {
+    await service.queueWrite('raw_materials', 'update', { stock_quantity: 35 }, 'mat-1')
+    Object.assign(db.rows('raw_materials')[0], { stock_quantity: 50, updated_at: '2025-03-05T09:00:00.000Z' })
+
+    expect(await service.sync()).toMatchObject({ pushed: 0, conflicts: 1 })
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(50)
+
+    const [conflict] = await service.getConflicts()
+    expect(conflict).toMatchObject({ record_id: 'mat-1', remote: expect.objectContaining({ stock_quantity: 50 }) })
+
+    await service.keepLocal(conflict)
+    await service.sync()
+    expect(db.rows('raw_materials')[0].stock_quantity).toBe(35)
+    expect(await service.getConflicts()).toEqual([])
+  })
+
+  it('bases order edits on "updatedAt" and leaves the stamp to the server', async () => {
+    db.tables.orders = [{ id: 'o1', status: 'PENDING', updatedAt: '2025-03-01T10:00:00.000Z' }]
+    store.records.orders = [{ id: 'o1', status: 'PENDING', updatedAt: '2025-03-01T10:00:00.000Z' }]
+
+    await service.queueWrite('orders', 'update', { admin_notes: 'Kapıda' }, 'o1')
+    expect(store.entries[0]).toMatchObject({ payload: { id: 'o1', admin_notes: 'Kapıda' }, base_updated_at: '2025-03-01T10:00:00.000Z' })
+    expect(store.entries[0].payload).not.toHaveProperty('updated_at')
+
+    db.rows('orders')[0].updatedAt = '2025-03-02T10:00:00.000Z'
+    expect(await service.push()).toMatchObject({ pushed: 0, conflicts: 1 })
+    expect(db.rows('orders')[0]).not.toHaveProperty('admin_notes')
+  })
+
+  it('parks an insert whose id is already taken on the server', async () => {
+    db.tables.orders = [{ id: 'o1', customerName: 'Sunucu' }]
+    await service.queueWrite('orders', 'insert', { id: 'o1', customerName: 'Yerel' })
+
+    expect(await service.push()).toMatchObject({ pushed: 0, conflicts: 1 })
+    expect(db.rows('orders')).toEqual([{ id: 'o1', customerName: 'Sunucu' }])
+    expect((await service.getConflicts())[0]).toMatchObject({ operation: 'insert', remote: { customerName: 'Sunucu' } })
+  })
+
+  it('takes the server version when the local edit is dropped', async () => {
+    await service.queueWrite('raw_materials', 'delete', null, 'mat-1')
+    db.rows('raw_materials')[0].updated_at = '2025-03-05T09:00:00.000Z'
+    await service.push()
+
+    await service.keepRemote((await service.getConflicts())[0])
+
+    expect(await service.read('raw_materials')).toEqual([expect.objectContaining({ updated_at: '2025-03-05T09:00:00.000Z' })])
+    expect(db.rows('raw_materials')).toHaveLength(1)
+  })
+
+  it('stops at a failing entry so later writes keep their order', async () => {
+    await service.queueWrite('orders', 'insert', { id: 'o1', customerName: 'Ayşe' })
+    await service.queueWrite('order_items', 'insert', { orderId: 'o1', quantity: 1 })
+    db.failOn('orders', 'insert')
+
+    expect(await service.sync()).toMatchObject({ pushed: 0, failed: 2, pulled: 0 })
+    expect(store.entries[0]).toMatchObject({ attempts: 1, last_error: 'Injected insert failure on orders' })
+    expect(db.rows('order_items')).toEqual([])
+
+    expect(await service.sync()).toMatchObject({ pushed: 2, failed: 0 })
+    expect(db.rows('order_items')).toEqual([expect.objectContaining({ orderId: 'o1' })])
+  })
+
+  it('pages through tables larger than a PostgREST response', async () => {
+    db.tables.raw_materials = Array.from({ length: 2001 }, (_, index) => ({
+      id: `mat-${String(index).padStart(4, '0')}`, name: 'Kurdele', updated_at: MATERIAL.updated_at
+    }))
+
+    expect(await service.pull(['raw_materials'])).toBe(2001)
+    expect(store.records.raw_materials).toHaveLength(2001)
+    expect(store.state.raw_materials.cursor).toBe(MATERIAL.updated_at)
+  })
+
+  it('pulls only changed rows between full pulls and keeps the others', async () => {
+    db.tables.raw_materials.push({ id: 'mat-2', name: 'Tül', stock_quantity: 5, updated_at: MATERIAL.updated_at })
+    await service.pull(['raw_materials'])
+
+    // Not returned by the incremental pull, so kept locally until the next full pull
+    db.tables.raw_materials = db.tables.raw_materials.filter(row => row.id !== 'mat-2')
+    Object.assign(db.rows('raw_materials')[0], { stock_quantity: 12, updated_at: '2025-03-01T12:00:00.000Z' })
+    db.log.length = 0
+
+    expect(await service.pull(['raw_materials'])).toBe(1)
+    expect(db.log).toEqual([expect.objectContaining({ table: 'raw_materials', operation: 'select' })])
+    expect((await service.read('raw_materials', { orderBy: 'id', orderDirection: 'asc' })).map(row => [row.id, row.stock_quantity])).toEqual([['mat-1', 12], ['mat-2', 5]])
+    expect(store.state.raw_materials.cursor).toBe('2025-03-01T12:00:00.000Z')
+
+    const later = new Date(Date.now() + OFFLINE_SYNC_CONFIG.FULL_PULL_INTERVAL_MS)
+    await service.pull(['raw_materials'], { now: later })
+    expect((await service.read('raw_materials')).map(row => row.id)).toEqual(['mat-1'])
+  })
+
+  it('refreshes the lines of orders changed since the last pull', async () => {
+    db.tables.orders = [{ id: 'o1', orderNumber: 'MDH-1', updatedAt: '2025-03-01T10:00:00.000Z' }, { id: 'o2', orderNumber: 'MDH-2', updatedAt: '2025-03-01T08:00:00.000Z' }]
+    db.tables.order_items = [{ id: 'i1', orderId: 'o1', quantity: 1 }, { id: 'i2', orderId: 'o1', quantity: 2 }, { id: 'i3', orderId: 'o2', quantity: 1 }]
+    await service.pull(['orders', 'order_items'])
+
+    db.tables.order_items = db.tables.order_items.filter(row => row.id !== 'i2')
+    db.rows('order_items')[0].quantity = 4
+    db.rows('order_items')[1].quantity = 9 // o2 did not change, so its line is not pulled
+    db.rows('orders')[0].updatedAt = '2025-03-01T12:00:00.000Z'
+
+    await service.pull(['orders', 'order_items'])
+
+    expect((await service.read('order_items', { orderBy: 'id', orderDirection: 'asc' })).map(row => [row.id, row.quantity])).toEqual([['i1', 4], ['i3', 1]])
+  })
+
+  it('joins embedded resources from the replica', async () => {
+    store.records = {
+      suppliers: [{ id: 'sup-1', name: 'Tekstil A.Ş.' }, { id: 'sup-2', name: 'Kumaşçı' }],
+      raw_materials: [{ id: 'mat-1', name: 'Kurdele', supplier_id: 'sup-1' }, { id: 'mat-2', name: 'Tül', supplier_id: 'sup-1' }],
+      orders: [{ id: 'o1', orderNumber: 'MDH-1' }],
+      order_items: [{ id: 'i1', orderId: 'o1', productId: 'p1', quantity: 2 }],
+      products: [{ id: 'p1', name: 'Masa Örtüsü', price: 400 }]
+    }
+
+    expect(await service.read('orders', { select: '*, order_items(id, quantity, products(name))' })).toEqual([
+      { id: 'o1', orderNumber: 'MDH-1', order_items: [{ id: 'i1', quantity: 2, products: { name: 'Masa Örtüsü' } }] }
+    ])
+    expect(await service.read('raw_materials', { select: 'name, suppliers(name)', filter: { id: 'mat-1' } })).toEqual([
+      { name: 'Kurdele', suppliers: { name: 'Tekstil A.Ş.' } }
+    ])
+    expect(await service.read('suppliers', { select: 'name, raw_materials:supplier_id(count)', orderBy: 'name', orderDirection: 'asc' })).toEqual([
+      { name: 'Kumaşçı', raw_materials: [{ count: 0 }] },
+      { name: 'Tekstil A.Ş.', raw_materials: [{ count: 2 }] }
+    ])
+  })
+
+  it('refuses embedded selects the replica cannot answer', async () => {
+    await expect(service.read('raw_materials', { select: '*, material_price_history(*)' })).rejects.toThrow(OfflineQueryError)
+    await expect(service.read('orders', { select: '*, order_payments(*)' })).rejects.toThrow('orders cannot embed order_payments offline')
+  })
+
+  it('remembers a failed health check until the next sync reaches the server', async () => {
+    healthCheck.mockResolvedValue(false)
+    await service.sync()
+    expect(service.isOffline()).toBe(true)
+
+    healthCheck.mockResolvedValue(true)
+    await service.sync()
+    expect(service.isOffline()).toBe(false)
+  })
+})
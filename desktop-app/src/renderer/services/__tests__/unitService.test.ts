@@ -0,0 +1,100 @@
+/**
+ * Unit Service Tests
+ * Registry conversions, per-material units and BOM explosion across units
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FakePostgrest } from './fakePostgrest'
+
+vi.mock('../../SupabaseClient', () => ({
+  supabaseManager: {
+    getClient: vi.fn(() => ({})),
+  },
+}))
+
+import { UnitService, UnitConversionError, toStockQuantity, minStockInStockUnit, compatibleUnits } from '../unitService'
+import { BomService } from '../bomService'
+
+const seed = () => ({
+  raw_materials: [
+    { id: 'ribbon', name: 'Kurdele', stock_quantity: 50, stock_unit: 'm', unit_price_try: 2 },
+    { id: 'wax', name: 'Mum', stock_quantity: 3, stock_unit: 'kg', unit_price_try: 400 },
+    { id: 'candle', name: 'Mum Kavanoz', stock_quantity: 0, stock_unit: 'adet', unit_price_try: 0, is_semi_finished: true }
+  ],
+  material_unit_conversions: [
+    { id: 'conv-1', raw_material_id: 'ribbon', unit: 'rulo', factor: 25 }
+  ],
+  product_recipes: [
+    { id: 'recipe-1', product_id: 'product-1', raw_material_id: 'candle', quantity: 2, unit: 'adet' },
+    { id: 'recipe-2', product_id: 'product-1', raw_material_id: 'ribbon', quantity: 40, unit: 'cm' }
+  ],
+  semi_finished_components: [
+    { id: 'comp-1', semi_finished_id: 'candle', raw_material_id: 'wax', quantity: 150, unit: 'gr' }
+  ]
+})
+
+describe('unit conversion', () => {
+  const rulo = [{ unit: 'rulo', factor: 25 }]
+
+  it('converts within a registry dimension and understands aliases', () => {
+    expect(toStockQuantity(250, 'gr', 'kg')).toBe(0.25)
+    expect(toStockQuantity(40, 'cm', 'metre')).toBe(0.4)
+    expect(toStockQuantity(2, 'Düzine', 'adet')).toBe(24)
+  })
+
+  it('uses material-specific factors, also through their dimension', () => {
+    expect(toStockQuantity(2, 'rulo', 'm', rulo)).toBe(50)
+    expect(toStockQuantity(500, 'g', 'adet', [{ unit: 'kg', factor: 20 }])).toBe(10)
+  })
+
+  it('rejects incompatible units', () => {
+    expect(() => toStockQuantity(1, 'kg', 'm', rulo, 'Kurdele')).toThrow(UnitConversionError)
+    expect(() => toStockQuantity(1, 'kg', 'm', rulo, 'Kurdele')).toThrow('Cannot convert kg to m for Kurdele')
+  })
+
+  it('expresses the minimum stock in the stock unit', () => {
+    expect(minStockInStockUnit({ stock_unit: 'm', min_stock_quantity: 2, min_stock_unit: 'rulo' }, rulo)).toBe(50)
+    expect(minStockInStockUnit({ stock_unit: 'm', min_stock_quantity: 2, min_stock_unit: 'kg' }, rulo)).toBeNull()
+    expect(minStockInStockUnit({ stock_unit: 'kg', min_stock_quantity: 5 })).toBe(5)
+  })
+
+  it('offers only units that convert to the stock unit', () => {
+    expect(compatibleUnits('m', rulo)).toEqual(['m', 'mm', 'cm', 'rulo'])
+  })
+})
+
+describe('UnitService', () => {
+  let db: FakePostgrest
+  let service: UnitService
+
+  beforeEach(() => {
+    db = new FakePostgrest(seed())
+    service = new UnitService(db)
+  })
+
+  it('refuses conversions the registry already covers', async () => {
+    await expect(service.saveConversion('ribbon', 'cm', 0.01)).rejects.toThrow('already converts')
+    await expect(service.saveConversion('ribbon', 'paket', 0)).rejects.toThrow('greater than zero')
+  })
+
+  it('replaces an existing factor for the same unit', async () => {
+    await service.saveConversion('ribbon', 'Rulo', 30)
+
+    expect(db.rows('material_unit_conversions')).toMatchObject([{ id: 'conv-1', unit: 'rulo', factor: 30 }])
+    expect(toStockQuantity(1, 'rulo', 'm', await service.getConversions('ribbon'))).toBe(30)
+  })
+
+  it('validates entry units against the material', async () => {
+    await expect(service.assertConvertible('wax', 'gr')).resolves.toBeUndefined()
+    await expect(service.assertConvertible('wax', 'adet')).rejects.toThrow(UnitConversionError)
+  })
+
+  it('converts recipe units during BOM explosion', async () => {
+    const requirements = await new BomService(db).explodeProduct('product-1', 3)
+
+    expect(requirements.map(r => [r.raw_material_id, Number(r.quantity.toFixed(6))])).toEqual([
+      ['wax', 0.9],
+      ['ribbon', 1.2]
+    ])
+  })
+})
@@ -4,7 +4,74 @@
 
 import { dbService } from './database'
 import { ErrorHandler } from '../utils/errorHandler'
-import { TABLE_NAMES, STOCK_STATUS, ORDER_STATUS, MOVEMENT_TYPES } from '../constants'
+import { TABLE_NAMES, STOCK_STATUS, ORDER_STATUS, MRP_CONFIG, IMPORT_CONFIG, SupplierOrderStatus, OrderStatusType, ImportTarget } from '../constants'
+import { getOrderStatusEngine, StatusTransitionResult } from './orderStatusEngine'
+import { getOrderHistoryService } from './orderHistoryService'
+import { getPaymentService, NewPayment } from './paymentService'
+import { getCostingService } from './costingService'
+import { getPricingService, NewPriceRule, PriceApplyResult } from './pricingService'
+import { getMaterialPriceService, NewMaterialPrice } from './materialPriceService'
+import { getReservationService, calculateAvailability } from './reservationService'
+import { RecipeService, MaterialRequirement } from './recipeService'
+import { findShortages, MaterialShortage } from './bomService'
+import { calculateMrp, MrpOrderInput } from './mrpService'
+import { getReorderService, DraftOrderGroup } from './reorderService'
+import { getSourcingService, MaterialSupplierInput } from './sourcingService'
+import { getSupplierScorecardService } from './supplierScorecardService'
+import { getForecastService, ForecastMaterialInput } from './forecastService'
+import { getLedgerService, LedgerFixResult } from './ledgerService'
+import { getOrderEntryService, affectsCosting, NewOrder, NewOrderItem, EnteredOrderItem, OrderDetailsUpdate } from './orderEntryService'
+import { getCustomerService, NewCustomer, CustomerOrderInput, CustomerSyncResult } from './customerService'
+import { getUnitService, minStockInStockUnit } from './unitService'
+import { getImportService, decodeFile, parseCsv, ImportEncoding, ImportSheet, ImportMapping } from './importService'
+import type { AppSettings } from '../stores/appStore'
+import { getMainProcessApi, requireMainProcessApi, unwrapIpc } from './mainProcess'
+import {
+  getStockCountService,
+  NewStockCountSession,
+  StockCountEntry,
+  StockCountPostResult
+} from './stockCountService'
+import {
+  getPurchaseOrderService,
+  normalizeItems,
+  NewSupplierOrder,
+  GoodsReceiptResult
+} from './purchaseOrderService'
+import {
+  MaterialAvailability,
+  MaterialForecast,
+  MrpLine,
+  SupplierOrder,
+  SupplierOrderReceiptLine,
+  OutstandingSupplierLine,
+  ReorderSuggestion,
+  SupplierReorderGroup,
+  StockCountSession,
+  StockCountVariance,
+  LedgerDiscrepancy,
+  OrderStatusHistoryEntry,
+  OrderPayment,
+  PaymentSummary,
+  ReceivablesAging,
+  OrderCostBreakdown,
+  PriceRule,
+  PriceProposal,
+  ProductPriceChange,
+  MaterialPriceChange,
+  PriceImpactReport,
+  MaterialSupplier,
+  MaterialSourcingComparison,
+  SupplierScorecard,
+  Customer,
+  CustomerSummary,
+  CustomerDuplicateGroup,
+  BackupInfo,
+  RestorePreview,
+  RestoreResult,
+  ImportReport,
+  ImportCommitResult
+} from '../types'
 
 export interface RawMaterial {
   id: string
@@ -44,6 +111,7 @@ export interface Order {
   customerPhone: string
   shippingAddress: string
   shippingCity: string
+  deadline_date?: string | null
   order_items?: OrderItem[]
   createdAt: string
   updatedAt: string
@@ -58,7 +126,11 @@ export interface OrderItem {
   createdAt: string
 }
 
-type OrderStatusType = 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED' | 'REFUNDED'
+/**
+ * Name recorded as the author of changes (the OS user running the app)
+ */
+const currentUser = (): string | null =>
+  (typeof window !== 'undefined' && window.mdh?.user) || null
 
 export class StockAPI {
   /**
@@ -121,13 +193,13 @@ export class StockAPI {
         throw new Error('Stock quantity too large')
       }
 
-      // Call safe RPC function
-      // RPC call removed - using simple update
-      await dbService.update('products', materialId, {
-        material_id: materialId,
-        new_quantity: newQuantity,
-        reason: reason
-      })
+      // Cache and ledger are written together so they cannot drift
+      const main = getMainProcessApi()
+      if (main) {
+        unwrapIpc(await main.stock.setQuantity({ materialId, quantity: newQuantity, reason }))
+      } else {
+        await getLedgerService().setQuantity(materialId, newQuantity, reason)
+      }
 
       return true
     } catch (error) {
@@ -142,17 +214,20 @@ export class StockAPI {
   static async getLowStockMaterials(): Promise<RawMaterial[]> {
     try {
       const materials = await this.getRawMaterials()
+      const [forecasts, conversions] = await Promise.all([
+        getForecastService().getForecasts(materials),
+        getUnitService().getAllConversions()
+      ])
+      const runsOut = new Set(forecasts.filter(f => f.runs_out_before_delivery).map(f => f.raw_material_id))
 
+      // Low = projected to run out before the next delivery, or already at the minimum
       return materials.filter(material => {
-        if (!material.stock_quantity || !material.min_stock_quantity) {
-          return false
+        if (runsOut.has(material.id)) {
+          return true
         }
 
-        const currentStock = material.stock_quantity
-        const minStock = material.min_stock_quantity
-        const threshold = minStock * 1.2 // 20% buffer
-
-        return currentStock <= threshold
+        const minStock = minStockInStockUnit(material, conversions.get(material.id))
+        return !!minStock && (material.stock_quantity || 0) <= minStock
       })
     } catch (error) {
       ErrorHandler.handle(error, 'StockAPI.getLowStockMaterials')
@@ -160,6 +235,70 @@ export class StockAPI {
     }
   }
 
+  /**
+   * Get materials whose cached stock disagrees with the movement ledger
+   */
+  static async checkLedger(): Promise<LedgerDiscrepancy[]> {
+    try {
+      return await getLedgerService().check()
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockAPI.checkLedger')
+      throw error
+    }
+  }
+
+  /**
+   * Fix ledger discrepancies, either by rebuilding the cached stock from the
+   * ledger or by posting corrective ADJUSTMENT movements
+   */
+  static async fixLedger(materialIds: string[], mode: 'rebuild' | 'adjust'): Promise<LedgerFixResult> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.stock.fixLedger({ materialIds, mode }))
+      }
+
+      const ledger = getLedgerService()
+      return mode === 'rebuild'
+        ? await ledger.rebuildCache(materialIds)
+        : await ledger.createCorrections(materialIds)
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockAPI.fixLedger')
+      throw error
+    }
+  }
+
+  /**
+   * Get consumption forecasts and days until stockout per raw material
+   */
+  static async getStockForecasts(materials?: ForecastMaterialInput[]): Promise<MaterialForecast[]> {
+    try {
+      return await getForecastService().getForecasts(materials)
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockAPI.getStockForecasts')
+      throw error
+    }
+  }
+
+  /**
+   * Get on-hand, reserved and available quantity per raw material
+   *
+   * Read-only: reservations are reconciled when orders are written.
+   */
+  static async getStockAvailability(materials?: RawMaterial[]): Promise<MaterialAvailability[]> {
+    try {
+      const [allMaterials, reservations] = await Promise.all([
+        materials ? Promise.resolve(materials) : this.getRawMaterials(),
+        getReservationService().getActiveReservations()
+      ])
+
+      return calculateAvailability(allMaterials, reservations)
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockAPI.getStockAvailability')
+      throw error
+    }
+  }
+
   /**
    * Get stock movements for a material
    */
@@ -234,236 +373,998 @@ export class OrderAPI {
 
   /**
    * Update order status with stock management
+   *
+   * Runs as a single transaction; on failure everything is rolled back and the
+   * thrown TransactionError names the step that failed. `fields` carries the
+   * values the workflow requires for the transition (trackingNumber for SHIPPED).
    */
   static async updateOrderStatus(
     orderId: string,
     newStatus: OrderStatusType,
-    adminNotes?: string
+    adminNotes?: string,
+    fields?: Record<string, any>
   ): Promise<boolean> {
     try {
-      // Get order details first
-      const order = await this.getOrderById(orderId)
-      if (!order) {
-        throw new Error('Order not found')
+      const main = getMainProcessApi()
+      if (main) {
+        unwrapIpc(await main.orders.updateStatus({ orderId, status: newStatus, adminNotes, fields }))
+      } else {
+        await getOrderStatusEngine().transition(orderId, newStatus, adminNotes, { changedBy: currentUser(), fields })
       }
+      return true
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.updateOrderStatus')
+      throw error
+    }
+  }
 
-      // Validate status transition
-      if (!this.isValidStatusTransition(order.status, newStatus)) {
-        throw new Error(`Invalid status transition from ${order.status} to ${newStatus}`)
+  /**
+   * Undo the latest status change, reversing its stock movements
+   */
+  static async undoLastStatusChange(orderId: string): Promise<StatusTransitionResult> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.orders.undoStatus({ orderId }))
       }
+      return await getOrderStatusEngine().undoLastTransition(orderId, currentUser())
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.undoLastStatusChange')
+      throw error
+    }
+  }
 
-      // Start transaction-like operation
-      const operations = []
+  /**
+   * Status change timeline of an order, newest first
+   */
+  static async getStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    try {
+      return await getOrderHistoryService().getHistory(orderId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.getStatusHistory')
+      throw error
+    }
+  }
 
-      // Update order status
-      operations.push({
-        type: 'update' as const,
-        options: {
-          table: TABLE_NAMES.ORDERS,
-          data: {
-            status: newStatus,
-            updatedAt: new Date().toISOString(),
-            admin_notes: adminNotes || null
-          },
-          filter: { id: orderId }
-        }
-      })
+  /**
+   * Leaf materials an order cannot be built from with the available stock
+   *
+   * Requirements are exploded through semi-finished items; the order's own
+   * reservations count as available to it.
+   */
+  static async getOrderShortages(orderId: string): Promise<MaterialShortage[]> {
+    try {
+      const [requirements, availability, reservations] = await Promise.all([
+        new RecipeService().getOrderRequirements(orderId),
+        StockAPI.getStockAvailability(),
+        getReservationService().getActiveReservations()
+      ])
 
-      // If confirming order, deduct stock
-      if (newStatus === ORDER_STATUS.CONFIRMED && order.status === ORDER_STATUS.PENDING) {
-        for (const item of order.order_items || []) {
-          // Get product recipe to know which materials to deduct
-          const productRecipes = await this.getProductRecipes(item.productId)
-
-          for (const recipe of productRecipes) {
-            if (recipe.raw_material_id && recipe.quantity) {
-              operations.push({
-                type: 'update' as const,
-                options: {
-                  table: TABLE_NAMES.STOCK_MOVEMENTS,
-                  data: {
-                    raw_material_id: recipe.raw_material_id,
-                    movement_type: MOVEMENT_TYPES.OUT,
-                    quantity: recipe.quantity * item.quantity,
-                    reason: `Order ${order.orderNumber} - ${item.productId}`,
-                    order_id: orderId
-                  },
-                  filter: {}
-                }
-              })
-            }
-          }
-        }
+      const ownReserved = new Map<string, number>()
+      for (const reservation of reservations.filter(r => r.order_id === orderId)) {
+        ownReserved.set(reservation.raw_material_id, (ownReserved.get(reservation.raw_material_id) || 0) + reservation.quantity)
       }
 
-      // If cancelling/refunding, restore stock
-      if (
-        (newStatus === ORDER_STATUS.CANCELLED || newStatus === ORDER_STATUS.REFUNDED) &&
-        order.status === ORDER_STATUS.CONFIRMED
-      ) {
-        for (const item of order.order_items || []) {
-          const productRecipes = await this.getProductRecipes(item.productId)
-
-          for (const recipe of productRecipes) {
-            if (recipe.raw_material_id && recipe.quantity) {
-              operations.push({
-                type: 'update' as const,
-                options: {
-                  table: TABLE_NAMES.STOCK_MOVEMENTS,
-                  data: {
-                    raw_material_id: recipe.raw_material_id,
-                    movement_type: MOVEMENT_TYPES.RETURN,
-                    quantity: recipe.quantity * item.quantity,
-                    reason: `Order ${order.orderNumber} ${newStatus.toLowerCase()} - ${item.productId}`,
-                    order_id: orderId
-                  },
-                  filter: {}
-                }
-              })
-            }
-          }
-        }
+      return findShortages(requirements, availability.map(item => ({
+        ...item,
+        available: item.available + (ownReserved.get(item.raw_material_id) || 0)
+      })))
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.getOrderShortages')
+      throw error
+    }
+  }
+
+  /**
+   * Cost and profit breakdown of an order; also refreshes the order's cost fields
+   *
+   * Confirmed orders are costed from the snapshot taken at confirmation.
+   */
+  static async getOrderCosting(orderId: string): Promise<OrderCostBreakdown> {
+    try {
+      return await getCostingService().updateOrderCosts(orderId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.getOrderCosting')
+      throw error
+    }
+  }
+
+  /**
+   * Create a pending order entered on the desktop and cost it
+   */
+  static async createOrder(order: NewOrder): Promise<Pick<Order, 'id' | 'orderNumber'>> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.orders.create({ order }))
       }
 
-      // Execute all operations - simplified
-      for (const operation of operations) {
-        try {
-          if (operation.type === 'update' && operation.options.table && operation.options.data) {
-            // For stock movements, use insert since we're creating new records
-            if (operation.options.table === TABLE_NAMES.STOCK_MOVEMENTS) {
-              await dbService.insert(operation.options.table, operation.options.data)
-            } else {
-              // For other updates, use update method
-              if (operation.options.filter?.id) {
-                await dbService.update(operation.options.table, operation.options.filter.id, operation.options.data)
-              }
-            }
-          }
-        } catch (error) {
-          console.error('Error executing operation:', error)
-        }
+      const created = await getOrderEntryService().createOrder(order)
+      await getCostingService().updateOrderCosts(created.id)
+      return created
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.createOrder')
+      throw error
+    }
+  }
+
+  /**
+   * Replace the details and lines of a pending order and cost it again
+   */
+  static async updateOrder(orderId: string, order: NewOrder): Promise<Pick<Order, 'id' | 'orderNumber'>> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.orders.update({ orderId, order }))
       }
 
-      return true
+      const updated = await getOrderEntryService().updateOrder(orderId, order)
+      await getCostingService().updateOrderCosts(orderId)
+      return updated
     } catch (error) {
-      ErrorHandler.handle(error, 'OrderAPI.updateOrderStatus')
+      ErrorHandler.handle(error, 'OrderAPI.updateOrder')
       throw error
     }
   }
 
   /**
-   * Validate order status transition
+   * Change notes, discount, shipping cost or the customer link of an order,
+   * costing it again when an amount changed
    */
-  private static isValidStatusTransition(currentStatus: OrderStatusType, newStatus: OrderStatusType): boolean {
-    const validTransitions: Record<OrderStatusType, OrderStatusType[]> = {
-      PENDING: [ORDER_STATUS.CONFIRMED, ORDER_STATUS.CANCELLED],
-      CONFIRMED: [ORDER_STATUS.PROCESSING, ORDER_STATUS.CANCELLED],
-      PROCESSING: [ORDER_STATUS.SHIPPED, ORDER_STATUS.CANCELLED],
-      SHIPPED: [ORDER_STATUS.DELIVERED],
-      DELIVERED: [], // Final state
-      CANCELLED: [ORDER_STATUS.REFUNDED], // Allow refund after cancellation
-      REFUNDED: [] // Final state
+  static async updateOrderDetails(orderId: string, details: OrderDetailsUpdate): Promise<void> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        unwrapIpc(await main.orders.updateDetails({ orderId, details }))
+        return
+      }
+
+      await getOrderEntryService().updateDetails(orderId, details)
+      if (affectsCosting(details)) {
+        await getCostingService().updateOrderCosts(orderId)
+      }
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.updateOrderDetails')
+      throw error
     }
+  }
 
-    return validTransitions[currentStatus]?.includes(newStatus) || false
+  static async getOrderItems(orderId: string): Promise<EnteredOrderItem[]> {
+    try {
+      return await getOrderEntryService().getOrderItems(orderId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.getOrderItems')
+      throw error
+    }
   }
 
   /**
-   * Get product recipes for stock calculation
+   * Materials the order lines would be short of; `orderId` lets an order
+   * being edited count its own reservations as available
    */
-  private static async getProductRecipes(productId: string): Promise<any[]> {
+  static async checkOrderStock(items: NewOrderItem[], orderId?: string): Promise<MaterialShortage[]> {
     try {
-      const data = await dbService.select(TABLE_NAMES.PRODUCT_RECIPES, {
-        filter: { product_id: productId }
-      })
+      return await getOrderEntryService().checkStock(items, orderId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'OrderAPI.checkOrderStock')
+      throw error
+    }
+  }
 
-      return data || []
+  /**
+   * Reprice all pending orders at current material prices
+   */
+  static async recalculatePendingOrderCosts(): Promise<number> {
+    try {
+      return await getCostingService().updatePendingOrderCosts()
     } catch (error) {
-      ErrorHandler.handle(error, 'OrderAPI.getProductRecipes')
-      return []
+      ErrorHandler.handle(error, 'OrderAPI.recalculatePendingOrderCosts')
+      throw error
     }
   }
 }
 
-export class SupplierAPI {
+export class CustomerAPI {
   /**
-   * Get suppliers with material count
+   * Customers with order count and lifetime value
    */
-  static async getSuppliers(): Promise<Supplier[]> {
+  static async getCustomers(): Promise<CustomerSummary[]> {
     try {
-      const data = await dbService.select(TABLE_NAMES.SUPPLIERS, {
-        select: `
-          *,
-          raw_materials:supplier_id(count)
-        `,
-        orderBy: 'name',
-        orderDirection: 'asc'
-      })
+      return await getCustomerService().getCustomers()
+    } catch (error) {
+      ErrorHandler.handle(error, 'CustomerAPI.getCustomers')
+      throw error
+    }
+  }
 
-      return data || []
+  /**
+   * Orders of a customer, newest first
+   */
+  static async getOrderHistory(customerId: string): Promise<CustomerOrderInput[]> {
+    try {
+      return await getCustomerService().getOrderHistory(customerId)
     } catch (error) {
-      ErrorHandler.handle(error, 'SupplierAPI.getSuppliers')
+      ErrorHandler.handle(error, 'CustomerAPI.getOrderHistory')
       throw error
     }
   }
 
   /**
-   * Create supplier order suggestion
+   * Existing customer with the same phone or email, or a new one
    */
-  static async createSupplierOrderSuggestion(supplierId: string, items: any[]): Promise<boolean> {
+  static async findOrCreate(customer: NewCustomer): Promise<{ customer: Customer; created: boolean }> {
     try {
-      await dbService.insert('backup_logs', {
-        table: TABLE_NAMES.SUPPLIER_ORDERS,
-        data: {
-          supplier_id: supplierId,
-          status: 'PENDING',
-          items_json: items,
-          notes: `Auto-generated order suggestion - ${new Date().toISOString()}`
-        }
-      })
+      return await getCustomerService().findOrCreate(customer)
+    } catch (error) {
+      ErrorHandler.handle(error, 'CustomerAPI.findOrCreate')
+      throw error
+    }
+  }
 
-      return true
+  static async updateCustomer(customerId: string, customer: NewCustomer): Promise<Customer> {
+    try {
+      return await getCustomerService().updateCustomer(customerId, customer)
     } catch (error) {
-      ErrorHandler.handle(error, 'SupplierAPI.createSupplierOrderSuggestion')
+      ErrorHandler.handle(error, 'CustomerAPI.updateCustomer')
+      throw error
+    }
+  }
+
+  /**
+   * Link orders without a customer record, creating records as needed
+   */
+  static async syncFromOrders(): Promise<CustomerSyncResult> {
+    try {
+      return await getCustomerService().syncFromOrders()
+    } catch (error) {
+      ErrorHandler.handle(error, 'CustomerAPI.syncFromOrders')
+      throw error
+    }
+  }
+
+  static async findDuplicates(): Promise<CustomerDuplicateGroup[]> {
+    try {
+      return await getCustomerService().findDuplicates()
+    } catch (error) {
+      ErrorHandler.handle(error, 'CustomerAPI.findDuplicates')
+      throw error
+    }
+  }
+
+  /**
+   * Merge customers into the kept one, moving their orders
+   */
+  static async merge(keepId: string, mergeIds: string[]): Promise<Customer> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.customers.merge({ keepId, mergeIds }))
+      }
+      return await getCustomerService().merge(keepId, mergeIds)
+    } catch (error) {
+      ErrorHandler.handle(error, 'CustomerAPI.merge')
       throw error
     }
   }
 }
 
-export class DashboardAPI {
+export class PaymentAPI {
   /**
-   * Get dashboard statistics
+   * Payments and refunds of an order
    */
-  static async getDashboardStats(): Promise<{
-    totalMaterials: number
-    lowStockCount: number
-    criticalStockCount: number
-    totalOrders: number
-    pendingOrders: number
-    confirmedOrders: number
-    totalRevenue: number
-    monthlyRevenue: number
-  }> {
+  static async getPayments(orderId: string): Promise<OrderPayment[]> {
     try {
-      const [
-        materials,
-        orders,
-        monthlyOrders
-      ] = await Promise.all([
-        StockAPI.getRawMaterials(),
-        OrderAPI.getOrders(),
-        OrderAPI.getOrders() // This should be filtered by date
-      ])
+      return await getPaymentService().getPayments(orderId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'PaymentAPI.getPayments')
+      throw error
+    }
+  }
+
+  /**
+   * Record a (partial) payment and recalculate the order's balance
+   */
+  static async recordPayment(orderId: string, payment: NewPayment): Promise<PaymentSummary> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.payments.record({ orderId, payment }))
+      }
+      return await getPaymentService().recordPayment(orderId, payment)
+    } catch (error) {
+      ErrorHandler.handle(error, 'PaymentAPI.recordPayment')
+      throw error
+    }
+  }
+
+  static async recordRefund(orderId: string, refund: NewPayment): Promise<PaymentSummary> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.payments.refund({ orderId, payment: refund }))
+      }
+      return await getPaymentService().recordRefund(orderId, refund)
+    } catch (error) {
+      ErrorHandler.handle(error, 'PaymentAPI.recordRefund')
+      throw error
+    }
+  }
+
+  static async deletePayment(paymentId: string): Promise<PaymentSummary> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.payments.delete({ paymentId }))
+      }
+      return await getPaymentService().deletePayment(paymentId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'PaymentAPI.deletePayment')
+      throw error
+    }
+  }
+
+  /**
+   * Outstanding balances of open orders in 0–30/31–60/61–90/90+ day buckets
+   */
+  static async getReceivablesAging(): Promise<ReceivablesAging> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.reports.receivablesAging())
+      }
+      return await getPaymentService().getReceivablesAging()
+    } catch (error) {
+      ErrorHandler.handle(error, 'PaymentAPI.getReceivablesAging')
+      throw error
+    }
+  }
+}
+
+export class PricingAPI {
+  static async getRules(): Promise<PriceRule[]> {
+    try {
+      return await getPricingService().getRules()
+    } catch (error) {
+      ErrorHandler.handle(error, 'PricingAPI.getRules')
+      throw error
+    }
+  }
+
+  /**
+   * Create a rule, or update it when `ruleId` is given
+   */
+  static async saveRule(rule: NewPriceRule, ruleId?: string): Promise<PriceRule> {
+    try {
+      return await getPricingService().saveRule(rule, ruleId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'PricingAPI.saveRule')
+      throw error
+    }
+  }
 
-      const lowStockMaterials = materials.filter(m =>
-        m.stock_quantity && m.min_stock_quantity &&
-        m.stock_quantity <= m.min_stock_quantity * 1.2
-      )
+  static async deleteRule(ruleId: string): Promise<void> {
+    try {
+      await getPricingService().deleteRule(ruleId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'PricingAPI.deleteRule')
+      throw error
+    }
+  }
 
-      const criticalStockMaterials = materials.filter(m =>
-        m.stock_quantity && m.min_stock_quantity &&
-        m.stock_quantity <= m.min_stock_quantity
-      )
+  /**
+   * Current vs. rule-suggested price of every product a rule applies to
+   */
+  static async getProposals(): Promise<PriceProposal[]> {
+    try {
+      return await getPricingService().getProposals()
+    } catch (error) {
+      ErrorHandler.handle(error, 'PricingAPI.getProposals')
+      throw error
+    }
+  }
+
+  /**
+   * Apply accepted proposals in one transaction, recording each change
+   */
+  static async applyProposals(proposals: PriceProposal[]): Promise<PriceApplyResult> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.pricing.applyProposals({ proposals }))
+      }
+      return await getPricingService().applyProposals(proposals, currentUser())
+    } catch (error) {
+      ErrorHandler.handle(error, 'PricingAPI.applyProposals')
+      throw error
+    }
+  }
+
+  static async getPriceHistory(productId?: string): Promise<ProductPriceChange[]> {
+    try {
+      return await getPricingService().getPriceHistory(productId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'PricingAPI.getPriceHistory')
+      throw error
+    }
+  }
+}
+
+export class MaterialPriceAPI {
+  /**
+   * Recorded prices of a raw material, oldest first
+   */
+  static async getHistory(materialId: string): Promise<MaterialPriceChange[]> {
+    try {
+      return await getMaterialPriceService().getHistory(materialId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'MaterialPriceAPI.getHistory')
+      throw error
+    }
+  }
+
+  /**
+   * Set a raw material's price and record it; null when unchanged
+   */
+  static async changePrice(materialId: string, change: NewMaterialPrice): Promise<MaterialPriceChange | null> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.pricing.changeMaterialPrice({ materialId, change }))
+      }
+      return await getMaterialPriceService().changePrice(materialId, change, currentUser())
+    } catch (error) {
+      ErrorHandler.handle(error, 'MaterialPriceAPI.changePrice')
+      throw error
+    }
+  }
+
+  /**
+   * Products whose recipe cost moves with the price change, flagging those
+   * that fall below their target margin
+   */
+  static async getImpact(materialId: string, oldPrice: number, newPrice: number): Promise<PriceImpactReport> {
+    try {
+      return await getMaterialPriceService().getImpact(materialId, oldPrice, newPrice)
+    } catch (error) {
+      ErrorHandler.handle(error, 'MaterialPriceAPI.getImpact')
+      throw error
+    }
+  }
+}
+
+export class SupplierAPI {
+  /**
+   * Get suppliers with material count
+   */
+  static async getSuppliers(): Promise<Supplier[]> {
+    try {
+      const data = await dbService.select(TABLE_NAMES.SUPPLIERS, {
+        select: `
+          *,
+          raw_materials:supplier_id(count)
+        `,
+        orderBy: 'name',
+        orderDirection: 'asc'
+      })
+
+      return data || []
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.getSuppliers')
+      throw error
+    }
+  }
+
+  /**
+   * Save reorder proposals for one supplier as a draft purchase order
+   */
+  static async createSupplierOrderSuggestion(supplierId: string, items: ReorderSuggestion[]): Promise<SupplierOrder> {
+    try {
+      const [order] = await this.createDraftOrders([{ supplier_id: supplierId, items }])
+
+      if (!order) {
+        throw new Error('Order suggestion has no lines with a positive quantity')
+      }
+
+      return order
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.createSupplierOrderSuggestion')
+      throw error
+    }
+  }
+
+  /**
+   * Suppliers of each material with their price, lead time and minimum order
+   */
+  static async getSourcingComparison(): Promise<MaterialSourcingComparison[]> {
+    try {
+      return await getSourcingService().getComparison()
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.getSourcingComparison')
+      throw error
+    }
+  }
+
+  /**
+   * Create or update a supplier's terms for a material
+   */
+  static async saveMaterialSupplier(offer: MaterialSupplierInput, offerId?: string): Promise<MaterialSupplier> {
+    try {
+      return await getSourcingService().saveOffer(offer, offerId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.saveMaterialSupplier')
+      throw error
+    }
+  }
+
+  static async deleteMaterialSupplier(offerId: string): Promise<void> {
+    try {
+      await getSourcingService().deleteOffer(offerId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.deleteMaterialSupplier')
+      throw error
+    }
+  }
+
+  static async setPreferredSupplier(materialId: string, supplierId: string): Promise<void> {
+    try {
+      await getSourcingService().setPreferred(materialId, supplierId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.setPreferredSupplier')
+      throw error
+    }
+  }
+
+  /**
+   * On-time rate, fill rate, lead time and price volatility per supplier, ranked
+   */
+  static async getSupplierScorecards(): Promise<SupplierScorecard[]> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.reports.supplierScorecards())
+      }
+      return await getSupplierScorecardService().getScorecards()
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.getSupplierScorecards')
+      throw error
+    }
+  }
+
+  /**
+   * Get reorder proposals grouped by supplier
+   */
+  static async getReorderSuggestions(): Promise<SupplierReorderGroup[]> {
+    try {
+      return await getReorderService().getSuggestions()
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.getReorderSuggestions')
+      throw error
+    }
+  }
+
+  /**
+   * Create draft purchase orders automatically when autoReorderEnabled is on
+   */
+  static async runAutoReorder(enabled: boolean): Promise<SupplierOrder[]> {
+    try {
+      if (!enabled) {
+        return []
+      }
+      return await this.createDraftOrders(await getReorderService().getSuggestions())
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.runAutoReorder')
+      throw error
+    }
+  }
+
+  // Draft purchase orders are written by the main process like any purchase order
+  private static async createDraftOrders(groups: DraftOrderGroup[]): Promise<SupplierOrder[]> {
+    const main = getMainProcessApi()
+    if (main) {
+      return unwrapIpc(await main.suppliers.createDraftOrders({ groups }))
+    }
+    return getReorderService().createDraftOrders(groups)
+  }
+
+  /**
+   * Get purchase orders with typed line items
+   */
+  static async getSupplierOrders(): Promise<SupplierOrder[]> {
+    try {
+      const data = await dbService.select(TABLE_NAMES.SUPPLIER_ORDERS, {
+        orderBy: 'created_at',
+        orderDirection: 'desc'
+      })
+
+      return (data || []).map((order: any) => ({ ...order, items_json: normalizeItems(order.items_json) }))
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.getSupplierOrders')
+      throw error
+    }
+  }
+
+  /**
+   * Create a pending purchase order
+   */
+  static async createSupplierOrder(order: NewSupplierOrder): Promise<SupplierOrder> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.suppliers.createOrder({ order }))
+      }
+      return await getPurchaseOrderService().createOrder(order)
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.createSupplierOrder')
+      throw error
+    }
+  }
+
+  /**
+   * Mark a purchase order as ordered or cancel it
+   */
+  static async updateSupplierOrderStatus(orderId: string, newStatus: SupplierOrderStatus): Promise<SupplierOrder> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.suppliers.updateOrderStatus({ orderId, status: newStatus }))
+      }
+      return await getPurchaseOrderService().transition(orderId, newStatus)
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.updateSupplierOrderStatus')
+      throw error
+    }
+  }
+
+  /**
+   * Record received goods against a purchase order
+   *
+   * Runs as a single transaction; stock movements, stock quantities and prices
+   * are rolled back together on failure.
+   */
+  static async receiveSupplierOrder(orderId: string, lines: SupplierOrderReceiptLine[]): Promise<GoodsReceiptResult> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.suppliers.receiveOrder({ orderId, lines }))
+      }
+      return await getPurchaseOrderService().receive(orderId, lines)
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.receiveSupplierOrder')
+      throw error
+    }
+  }
+
+  /**
+   * Get ordered but not yet received quantities per supplier and material
+   */
+  static async getOutstandingQuantities(): Promise<OutstandingSupplierLine[]> {
+    try {
+      return await getPurchaseOrderService().getOutstanding()
+    } catch (error) {
+      ErrorHandler.handle(error, 'SupplierAPI.getOutstandingQuantities')
+      throw error
+    }
+  }
+}
+
+export class BackupAPI {
+  /**
+   * Backups in the user data folder, newest first
+   */
+  static async getBackups(): Promise<BackupInfo[]> {
+    try {
+      return unwrapIpc(await requireMainProcessApi('Backup').backup.list())
+    } catch (error) {
+      ErrorHandler.handle(error, 'BackupAPI.getBackups')
+      throw error
+    }
+  }
+
+  /**
+   * Snapshot the business tables now; older backups beyond the retention are deleted
+   */
+  static async createBackup(): Promise<BackupInfo> {
+    try {
+      return unwrapIpc(await requireMainProcessApi('Backup').backup.create())
+    } catch (error) {
+      ErrorHandler.handle(error, 'BackupAPI.createBackup')
+      throw error
+    }
+  }
+
+  /**
+   * What a restore of the backup would add, overwrite and delete per table
+   */
+  static async previewRestore(file: string): Promise<RestorePreview> {
+    try {
+      return unwrapIpc(await requireMainProcessApi('Backup').backup.preview({ file }))
+    } catch (error) {
+      ErrorHandler.handle(error, 'BackupAPI.previewRestore')
+      throw error
+    }
+  }
+
+  /**
+   * Write the backup back; the current data is backed up first
+   */
+  static async restore(file: string, tables: string[], deleteMissing: boolean): Promise<RestoreResult> {
+    try {
+      return unwrapIpc(await requireMainProcessApi('Backup').backup.restore({ file, tables, deleteMissing }))
+    } catch (error) {
+      ErrorHandler.handle(error, 'BackupAPI.restore')
+      throw error
+    }
+  }
+
+  /**
+   * Hand the automatic backup settings to the main process scheduler
+   */
+  static async configureSchedule(settings: AppSettings['autoBackup']): Promise<string | null> {
+    try {
+      const { enabled, frequency, time, keepLast } = settings
+      const result = unwrapIpc(await requireMainProcessApi('Backup').backup.configure({
+        settings: { enabled, frequency, time, keepLast }
+      }))
+      return result.nextBackupAt
+    } catch (error) {
+      ErrorHandler.handle(error, 'BackupAPI.configureSchedule')
+      throw error
+    }
+  }
+}
+
+export class ImportAPI {
+  /**
+   * Decode and split a CSV file saved from Excel
+   */
+  static async readFile(file: File): Promise<{ sheet: ImportSheet; encoding: ImportEncoding }> {
+    try {
+      if (/\.xlsx?$/i.test(file.name)) {
+        throw new Error('Excel workbooks must be saved as CSV or Unicode Text before importing')
+      }
+      if (file.size > IMPORT_CONFIG.MAX_FILE_SIZE) {
+        throw new Error(`File is larger than ${IMPORT_CONFIG.MAX_FILE_SIZE / 1024 / 1024} MB`)
+      }
+
+      const { text, encoding } = decodeFile(new Uint8Array(await file.arrayBuffer()))
+      return { sheet: parseCsv(text), encoding }
+    } catch (error) {
+      ErrorHandler.handle(error, 'ImportAPI.readFile')
+      throw error
+    }
+  }
+
+  /**
+   * Inserts, updates and errors the import would produce, without writing
+   */
+  static async dryRun(target: ImportTarget, sheet: ImportSheet, mapping: ImportMapping): Promise<ImportReport> {
+    try {
+      return await getImportService().dryRun(target, sheet, mapping)
+    } catch (error) {
+      ErrorHandler.handle(error, 'ImportAPI.dryRun')
+      throw error
+    }
+  }
+
+  /**
+   * Write the valid rows; rows with errors are skipped
+   */
+  static async commit(target: ImportTarget, sheet: ImportSheet, mapping: ImportMapping): Promise<ImportCommitResult> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.import.commit({ target, sheet, mapping }))
+      }
+
+      return await getImportService().commit(target, sheet, mapping)
+    } catch (error) {
+      ErrorHandler.handle(error, 'ImportAPI.commit')
+      throw error
+    }
+  }
+}
+
+export class MrpAPI {
+  /**
+   * Material requirements plan for every open order
+   */
+  static async getPlan(now: Date = new Date()): Promise<MrpLine[]> {
+    try {
+      const [orders, materials] = await Promise.all([
+        OrderAPI.getOrders(),
+        StockAPI.getRawMaterials()
+      ])
+
+      const openStatuses: readonly string[] = MRP_CONFIG.OPEN_ORDER_STATUSES
+      const recipes = new RecipeService()
+      const perUnit = new Map<string, MaterialRequirement[]>()
+      const inputs: MrpOrderInput[] = []
+
+      for (const order of orders.filter(o => openStatuses.includes(o.status))) {
+        const requirements: MrpOrderInput['requirements'] = []
+
+        for (const item of order.order_items || []) {
+          if (!perUnit.has(item.productId)) {
+            perUnit.set(item.productId, await recipes.getProductRequirements(item.productId))
+          }
+          for (const requirement of perUnit.get(item.productId) || []) {
+            requirements.push({
+              raw_material_id: requirement.raw_material_id,
+              quantity: requirement.quantity * item.quantity
+            })
+          }
+        }
+
+        inputs.push({
+          id: order.id,
+          orderNumber: order.orderNumber,
+          status: order.status,
+          deadline_date: order.deadline_date,
+          requirements
+        })
+      }
+
+      return calculateMrp(inputs, materials, now)
+    } catch (error) {
+      ErrorHandler.handle(error, 'MrpAPI.getPlan')
+      throw error
+    }
+  }
+
+  /**
+   * Create a pending supplier order covering a material's shortfall
+   */
+  static async createSupplierOrderForShortfall(line: MrpLine): Promise<SupplierOrder> {
+    try {
+      if (!line.supplier_id) {
+        throw new Error(`Material ${line.name} has no supplier`)
+      }
+      if (line.shortfall <= 0) {
+        throw new Error(`Material ${line.name} has no shortfall`)
+      }
+
+      // Through the main process like any purchase order (SupplierAPI.createSupplierOrder)
+      const expectedDate = new Date(Date.now() + line.lead_time_days * 24 * 60 * 60 * 1000)
+      return await SupplierAPI.createSupplierOrder({
+        supplier_id: line.supplier_id,
+        items: [{
+          material_id: line.raw_material_id,
+          material_name: line.name,
+          quantity: line.shortfall,
+          unit: line.unit
+        }],
+        expected_date: expectedDate.toISOString().slice(0, 10),
+        notes: `MRP eksiği - ${line.demands.filter(d => !d.covered).map(d => d.orderNumber).join(', ')}`
+      })
+    } catch (error) {
+      ErrorHandler.handle(error, 'MrpAPI.createSupplierOrderForShortfall')
+      throw error
+    }
+  }
+}
+
+export class StockCountAPI {
+  /**
+   * Get count sessions, most recent first
+   */
+  static async getSessions(): Promise<StockCountSession[]> {
+    try {
+      return await getStockCountService().getSessions()
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockCountAPI.getSessions')
+      throw error
+    }
+  }
+
+  /**
+   * Start a count session, optionally limited to a scope and supplier
+   */
+  static async startSession(session: NewStockCountSession): Promise<StockCountSession> {
+    try {
+      return await getStockCountService().startSession(session)
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockCountAPI.startSession')
+      throw error
+    }
+  }
+
+  /**
+   * Save counted quantities so the count can be resumed later
+   */
+  static async saveCounts(sessionId: string, entries: StockCountEntry[]): Promise<StockCountSession> {
+    try {
+      return await getStockCountService().saveCounts(sessionId, entries)
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockCountAPI.saveCounts')
+      throw error
+    }
+  }
+
+  /**
+   * Get counted quantities against the stock at session start
+   */
+  static async getVariances(sessionId: string): Promise<StockCountVariance[]> {
+    try {
+      return await getStockCountService().getVariances(sessionId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockCountAPI.getVariances')
+      throw error
+    }
+  }
+
+  /**
+   * Post the variances as ADJUSTMENT movements
+   */
+  static async postSession(sessionId: string): Promise<StockCountPostResult> {
+    try {
+      const main = getMainProcessApi()
+      if (main) {
+        return unwrapIpc(await main.stock.postCount({ sessionId }))
+      }
+      return await getStockCountService().postSession(sessionId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockCountAPI.postSession')
+      throw error
+    }
+  }
+
+  /**
+   * Cancel an open session without adjusting stock
+   */
+  static async cancelSession(sessionId: string): Promise<void> {
+    try {
+      await getStockCountService().cancelSession(sessionId)
+    } catch (error) {
+      ErrorHandler.handle(error, 'StockCountAPI.cancelSession')
+      throw error
+    }
+  }
+}
+
+export class DashboardAPI {
+  /**
+   * Get dashboard statistics
+   */
+  static async getDashboardStats(): Promise<{
+    totalMaterials: number
+    lowStockCount: number
+    criticalStockCount: number
+    totalOrders: number
+    pendingOrders: number
+    confirmedOrders: number
+    totalRevenue: number
+    monthlyRevenue: number
+    reservedMaterialsCount: number
+    overReservedCount: number
+    stockAvailability: MaterialAvailability[]
+  }> {
+    try {
+      const [
+        materials,
+        orders,
+        monthlyOrders,
+        conversions
+      ] = await Promise.all([
+        StockAPI.getRawMaterials(),
+        OrderAPI.getOrders(),
+        OrderAPI.getOrders(), // This should be filtered by date
+        getUnitService().getAllConversions()
+      ])
+
+      // Low/critical levels use available stock: quantities held by pending orders are not free
+      const stockAvailability = await StockAPI.getStockAvailability(materials)
+      const availableById = new Map(stockAvailability.map(a => [a.raw_material_id, a.available]))
+      const minStockById = new Map(materials.map(m => [m.id, minStockInStockUnit(m, conversions.get(m.id))]))
+
+      const lowStockMaterials = materials.filter(m => {
+        const minStock = minStockById.get(m.id)
+        return !!m.stock_quantity && !!minStock && (availableById.get(m.id) ?? m.stock_quantity) <= minStock * 1.2
+      })
+
+      const criticalStockMaterials = materials.filter(m => {
+        const minStock = minStockById.get(m.id)
+        return !!m.stock_quantity && !!minStock && (availableById.get(m.id) ?? m.stock_quantity) <= minStock
+      })
 
       const pendingOrders = orders.filter(o => o.status === ORDER_STATUS.PENDING)
       const confirmedOrders = orders.filter(o => o.status === ORDER_STATUS.CONFIRMED)
@@ -484,7 +1385,10 @@ export class DashboardAPI {
         pendingOrders: pendingOrders.length,
         confirmedOrders: confirmedOrders.length,
         totalRevenue,
-        monthlyRevenue
+        monthlyRevenue,
+        reservedMaterialsCount: stockAvailability.filter(a => a.reserved > 0).length,
+        overReservedCount: stockAvailability.filter(a => a.available < 0).length,
+        stockAvailability
       }
     } catch (error) {
       ErrorHandler.handle(error, 'DashboardAPI.getDashboardStats')
@@ -0,0 +1,249 @@
+/**
+ * Backup Service - Snapshots of the business tables and restoring them
+ *
+ * collect() reads BACKUP_CONFIG.TABLES page by page into a snapshot; the
+ * main process compresses it, adds a checksum and writes it to disk
+ * (src/main/backup.ts). Before a restore, preview() compares a snapshot with
+ * the live tables row by row so the user sees what would change.
+ *
+ * restore() upserts the backup rows table by table in dependency order and,
+ * if asked, deletes rows that are not in the backup (children first). It runs
+ * as one transaction; a failed table puts the earlier ones back as they were.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, unwrap } from './transaction'
+import { APP_CONFIG, BACKUP_CONFIG, BackupFrequency } from '../constants'
+import { BackupManifest, BackupTableDiff, RestoreResult } from '../types'
+
+type Row = Record<string, any>
+
+export interface BackupSnapshot {
+  manifest: BackupManifest
+  tables: Record<string, Row[]>
+}
+
+export interface RestoreOptions {
+  tables?: string[] // Defaults to every table in the backup
+  deleteMissing?: boolean // Delete live rows that are not in the backup
+}
+
+export interface BackupSchedule {
+  enabled: boolean
+  frequency: BackupFrequency
+  time: string // HH:mm, local time
+}
+
+/**
+ * Row comparison independent of key order
+ */
+function canonical(row: Row): string {
+  return JSON.stringify(Object.keys(row).sort().map(key => [key, row[key]]))
+}
+
+/**
+ * Rows to add, overwrite and (optionally) delete to turn `current` into `backup`
+ */
+export function diffTable(table: string, backup: Row[], current: Row[]): BackupTableDiff {
+  const currentById = new Map(current.map(row => [String(row.id), row]))
+  const backupIds = new Set(backup.map(row => String(row.id)))
+  const diff: BackupTableDiff = { table, added_ids: [], changed_ids: [], removed_ids: [], unchanged: 0 }
+
+  for (const row of backup) {
+    const id = String(row.id)
+    const live = currentById.get(id)
+    if (!live) diff.added_ids.push(id)
+    else if (canonical(live) !== canonical(row)) diff.changed_ids.push(id)
+    else diff.unchanged++
+  }
+
+  diff.removed_ids = current.map(row => String(row.id)).filter(id => !backupIds.has(id))
+  return diff
+}
+
+/**
+ * When the next scheduled backup is due: `frequency` days after the last one,
+ * at the configured time of day. Null when scheduling is off; a past date
+ * (the epoch) when there has never been a backup.
+ */
+export function nextBackupAt(schedule: BackupSchedule, lastBackupAt: string | null): Date | null {
+  if (!schedule.enabled) return null
+  if (!lastBackupAt) return new Date(0)
+
+  const [hours, minutes] = schedule.time.split(':').map(part => Number(part) || 0)
+  const next = new Date(lastBackupAt)
+  next.setDate(next.getDate() + BACKUP_CONFIG.PERIOD_DAYS[schedule.frequency])
+  next.setHours(hours, minutes, 0, 0)
+  return next
+}
+
+/**
+ * Backups beyond the newest `keepLast`, oldest first
+ */
+export function selectExpiredBackups<T extends { manifest: Pick<BackupManifest, 'created_at'> }>(backups: T[], keepLast: number): T[] {
+  const newestFirst = [...backups].sort((a, b) => b.manifest.created_at.localeCompare(a.manifest.created_at))
+  return newestFirst.slice(Math.max(1, keepLast)).reverse()
+}
+
+export class BackupService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * Read every backed-up table into a snapshot
+   */
+  public async collect(now: Date = new Date()): Promise<BackupSnapshot> {
+    const tables: Record<string, Row[]> = {}
+
+    for (const table of BACKUP_CONFIG.TABLES) {
+      tables[table] = await this.readTable(table)
+    }
+
+    return {
+      manifest: {
+        format: 'mdh-backup',
+        version: BACKUP_CONFIG.FORMAT_VERSION,
+        created_at: now.toISOString(),
+        app_version: APP_CONFIG.VERSION,
+        tables: Object.fromEntries(Object.entries(tables).map(([table, rows]) => [table, rows.length]))
+      },
+      tables
+    }
+  }
+
+  /**
+   * Per-table differences between the snapshot and the database
+   */
+  public async preview(snapshot: BackupSnapshot): Promise<BackupTableDiff[]> {
+    const diffs: BackupTableDiff[] = []
+
+    for (const table of this.restorableTables(snapshot)) {
+      diffs.push(diffTable(table, snapshot.tables[table], await this.readTable(table)))
+    }
+
+    return diffs
+  }
+
+  /**
+   * Write the snapshot back; see the module comment for ordering and rollback
+   */
+  public async restore(snapshot: BackupSnapshot, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const tables = this.restorableTables(snapshot).filter(table => !options.tables || options.tables.includes(table))
+    if (tables.length === 0) {
+      throw new Error('No tables selected to restore')
+    }
+
+    const current: Record<string, Row[]> = {}
+    const diffs: Record<string, BackupTableDiff> = {}
+    for (const table of tables) {
+      current[table] = await this.readTable(table)
+      diffs[table] = diffTable(table, snapshot.tables[table], current[table])
+    }
+
+    const transaction = new Transaction()
+
+    for (const table of tables) {
+      const diff = diffs[table]
+      const writeIds = new Set([...diff.added_ids, ...diff.changed_ids])
+      const rows = snapshot.tables[table].filter(row => writeIds.has(String(row.id)))
+      const previous = current[table].filter(row => diff.changed_ids.includes(String(row.id)))
+
+      transaction.add({
+        name: `restore ${rows.length} rows of ${table}`,
+        run: async () => {
+          await this.upsertChunked(table, rows)
+        },
+        rollback: async () => {
+          await this.deleteChunked(table, diff.added_ids)
+          await this.upsertChunked(table, previous)
+        }
+      })
+    }
+
+    if (options.deleteMissing) {
+      for (const table of [...tables].reverse()) {
+        const removedIds = new Set(diffs[table].removed_ids)
+        const removed = current[table].filter(row => removedIds.has(String(row.id)))
+
+        transaction.add({
+          name: `delete ${removed.length} rows of ${table} not in the backup`,
+          run: async () => {
+            await this.deleteChunked(table, [...removedIds])
+          },
+          rollback: async () => {
+            await this.upsertChunked(table, removed)
+          }
+        })
+      }
+    }
+
+    await transaction.commit()
+
+    return {
+      tables: tables.map(table => ({
+        table,
+        written: diffs[table].added_ids.length + diffs[table].changed_ids.length,
+        deleted: options.deleteMissing ? diffs[table].removed_ids.length : 0
+      }))
+    }
+  }
+
+  private restorableTables(snapshot: BackupSnapshot): string[] {
+    return BACKUP_CONFIG.TABLES.filter(table => Array.isArray(snapshot.tables[table]))
+  }
+
+  /**
+   * Read a whole table page by page (PostgREST caps a response)
+   */
+  private async readTable(table: string): Promise<Row[]> {
+    const rows: Row[] = []
+
+    for (let from = 0; ; from += BACKUP_CONFIG.PAGE_SIZE) {
+      const page = unwrap<Row[]>(await this.client
+        .from(table)
+        .select('*')
+        .order('id', { ascending: true })
+        .range(from, from + BACKUP_CONFIG.PAGE_SIZE - 1)) || []
+
+      rows.push(...page)
+      if (page.length < BACKUP_CONFIG.PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  private async upsertChunked(table: string, rows: Row[]): Promise<void> {
+    for (let i = 0; i < rows.length; i += BACKUP_CONFIG.WRITE_CHUNK_SIZE) {
+      unwrap(await this.client
+        .from(table)
+        .upsert(rows.slice(i, i + BACKUP_CONFIG.WRITE_CHUNK_SIZE))
+        .select('id'))
+    }
+  }
+
+  private async deleteChunked(table: string, ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += BACKUP_CONFIG.WRITE_CHUNK_SIZE) {
+      unwrap(await this.client
+        .from(table)
+        .delete()
+        .in('id', ids.slice(i, i + BACKUP_CONFIG.WRITE_CHUNK_SIZE)))
+    }
+  }
+}
+
+let defaultService: BackupService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getBackupService(): BackupService {
+  if (!defaultService) {
+    defaultService = new BackupService()
+  }
+  return defaultService
+}
+
+export default BackupService
@@ -0,0 +1,293 @@
+/**
+ * BOM Service - Multi-level bill of materials explosion
+ *
+ * Products consume raw materials and semi-finished items (product_recipes and
+ * product_raw_material_relations). A semi-finished item with components in
+ * semi_finished_components is expanded further; one without components is a
+ * leaf and is consumed from its own stock.
+ *
+ * Component quantities are converted into the stock unit of the material they
+ * consume, so requirements and costs are always in stock units.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { unwrap } from './transaction'
+import { TABLE_NAMES } from '../constants'
+import { UnitService, toStockQuantity } from './unitService'
+import { MaterialAvailability } from '../types'
+
+export interface BomRequirement {
+  raw_material_id: string
+  product_id: string
+  quantity: number
+  /** Semi-finished items passed through on the way to this leaf */
+  via: string[]
+}
+
+export interface BomCostLine {
+  raw_material_id: string
+  name: string
+  unit: string | null
+  quantity: number
+  unit_price: number
+  cost: number
+}
+
+export interface BomCost {
+  product_id: string
+  quantity: number
+  material_cost: number
+  lines: BomCostLine[]
+}
+
+export interface MaterialShortage {
+  raw_material_id: string
+  name: string
+  required: number
+  available: number
+  shortfall: number
+}
+
+interface BomComponent {
+  raw_material_id: string
+  quantity: number
+  unit: string | null
+}
+
+interface BomMaterial {
+  id: string
+  name: string
+  stock_unit: string | null
+  unit_price_try: number | null
+  is_semi_finished?: boolean | null
+}
+
+export class BomCycleError extends Error {
+  public readonly cycle: string[]
+
+  constructor(cycle: string[]) {
+    super(`Bill of materials contains a cycle: ${cycle.join(' -> ')}`)
+    this.name = 'BomCycleError'
+    this.cycle = cycle
+  }
+}
+
+export class BomService {
+  private client: any
+  private materials = new Map<string, BomMaterial | null>()
+  private components = new Map<string, BomComponent[]>()
+  private units: UnitService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.units = new UnitService(this.client)
+  }
+
+  /**
+   * Leaf raw material quantities needed to build `quantity` units of a product
+   */
+  public async explodeProduct(productId: string, quantity: number = 1): Promise<BomRequirement[]> {
+    this.clearCache()
+
+    const requirements: BomRequirement[] = []
+    for (const component of await this.getProductComponents(productId)) {
+      await this.explode(component.raw_material_id, component.quantity * quantity, component.unit, productId, [], requirements)
+    }
+
+    return requirements
+  }
+
+  /**
+   * Material cost of `quantity` units of a product, priced at leaf level
+   */
+  public async getProductCost(productId: string, quantity: number = 1): Promise<BomCost> {
+    const totals = sumByMaterial(await this.explodeProduct(productId, quantity))
+
+    const lines: BomCostLine[] = []
+    for (const [materialId, required] of totals) {
+      const material = await this.getMaterial(materialId)
+      const unitPrice = Number(material?.unit_price_try) || 0
+      lines.push({
+        raw_material_id: materialId,
+        name: material?.name || materialId,
+        unit: material?.stock_unit || null,
+        quantity: required,
+        unit_price: unitPrice,
+        cost: required * unitPrice
+      })
+    }
+
+    return {
+      product_id: productId,
+      quantity,
+      material_cost: lines.reduce((sum, line) => sum + line.cost, 0),
+      lines
+    }
+  }
+
+  /**
+   * Check whether adding `componentId` under a semi-finished item would close a loop
+   */
+  public async wouldCreateCycle(semiFinishedId: string, componentId: string): Promise<boolean> {
+    this.clearCache()
+
+    const visit = async (materialId: string, seen: Set<string>): Promise<boolean> => {
+      if (materialId === semiFinishedId) return true
+      if (seen.has(materialId)) return false
+      seen.add(materialId)
+
+      for (const child of await this.getSemiFinishedComponents(materialId)) {
+        if (await visit(child.raw_material_id, seen)) return true
+      }
+      return false
+    }
+
+    return visit(componentId, new Set())
+  }
+
+  private async explode(
+    materialId: string,
+    quantity: number,
+    unit: string | null,
+    productId: string,
+    path: string[],
+    requirements: BomRequirement[]
+  ): Promise<void> {
+    if (path.includes(materialId)) {
+      throw new BomCycleError([...path.slice(path.indexOf(materialId)), materialId])
+    }
+
+    const material = await this.getMaterial(materialId)
+    const stockQuantity = material
+      ? toStockQuantity(quantity, unit, material.stock_unit, await this.units.getConversions(materialId), material.name)
+      : quantity
+
+    const children = await this.getSemiFinishedComponents(materialId)
+    if (children.length === 0) {
+      requirements.push({ raw_material_id: materialId, product_id: productId, quantity: stockQuantity, via: path })
+      return
+    }
+
+    // Component quantities are per one stock unit of the semi-finished item
+    for (const child of children) {
+      await this.explode(child.raw_material_id, child.quantity * stockQuantity, child.unit, productId, [...path, materialId], requirements)
+    }
+  }
+
+  private async getProductComponents(productId: string): Promise<BomComponent[]> {
+    const [recipes, relations] = await Promise.all([
+      this.client
+        .from(TABLE_NAMES.PRODUCT_RECIPES)
+        .select('*')
+        .eq('product_id', productId),
+      this.client
+        .from(TABLE_NAMES.PRODUCT_RAW_MATERIAL_RELATIONS)
+        .select('*')
+        .eq('product_id', productId)
+    ])
+
+    return [...(unwrap<any[]>(recipes) || []), ...(unwrap<any[]>(relations) || [])]
+      .filter(row => row.raw_material_id && row.quantity)
+      .map(row => ({ raw_material_id: row.raw_material_id, quantity: Number(row.quantity), unit: row.unit || null }))
+  }
+
+  private async getSemiFinishedComponents(materialId: string): Promise<BomComponent[]> {
+    const cached = this.components.get(materialId)
+    if (cached) return cached
+
+    const material = await this.getMaterial(materialId)
+    let components: BomComponent[] = []
+
+    if (material?.is_semi_finished) {
+      const rows = unwrap<any[]>(await this.client
+        .from(TABLE_NAMES.SEMI_FINISHED_COMPONENTS)
+        .select('*')
+        .eq('semi_finished_id', materialId)) || []
+
+      components = rows
+        .filter(row => row.raw_material_id && row.quantity)
+        .map(row => ({ raw_material_id: row.raw_material_id, quantity: Number(row.quantity), unit: row.unit || null }))
+    }
+
+    this.components.set(materialId, components)
+    return components
+  }
+
+  private async getMaterial(materialId: string): Promise<BomMaterial | null> {
+    if (this.materials.has(materialId)) {
+      return this.materials.get(materialId) || null
+    }
+
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select('id, name, stock_unit, unit_price_try, is_semi_finished')
+      .eq('id', materialId)) || []
+
+    const material = rows[0] || null
+    this.materials.set(materialId, material)
+    return material
+  }
+
+  private clearCache(): void {
+    this.materials.clear()
+    this.components.clear()
+    this.units.clearCache()
+  }
+}
+
+/**
+ * Collapse exploded requirements into one total per leaf material
+ */
+export function sumByMaterial(requirements: Array<Pick<BomRequirement, 'raw_material_id' | 'quantity'>>): Map<string, number> {
+  const totals = new Map<string, number>()
+
+  for (const requirement of requirements) {
+    totals.set(
+      requirement.raw_material_id,
+      (totals.get(requirement.raw_material_id) || 0) + requirement.quantity
+    )
+  }
+
+  return totals
+}
+
+/**
+ * Compare leaf requirements with available stock
+ */
+export function findShortages(
+  requirements: Array<Pick<BomRequirement, 'raw_material_id' | 'quantity'>>,
+  availability: MaterialAvailability[]
+): MaterialShortage[] {
+  const byMaterial = new Map(availability.map(item => [item.raw_material_id, item]))
+  const shortages: MaterialShortage[] = []
+
+  for (const [materialId, required] of sumByMaterial(requirements)) {
+    const stock = byMaterial.get(materialId)
+    const available = stock?.available ?? 0
+    if (required > available) {
+      shortages.push({
+        raw_material_id: materialId,
+        name: stock?.name || materialId,
+        required,
+        available,
+        shortfall: required - available
+      })
+    }
+  }
+
+  return shortages
+}
+
+let defaultService: BomService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getBomService(): BomService {
+  if (!defaultService) {
+    defaultService = new BomService()
+  }
+  return defaultService
+}
+
+export default BomService
@@ -0,0 +1,341 @@
+/**
+ * Costing Service - Order cost and profit from product recipes
+ *
+ * Material cost comes from the exploded bill of materials at the current
+ * unit_price_try of each leaf material, labor from LABOR recipe items at the
+ * configured hourly rate. Discount and shipping are read from the order.
+ *
+ * Confirming an order freezes its item costs into cost_snapshot; after that
+ * only the order's own amounts (total, discount, shipping) move its profit.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { TransactionStep, unwrap } from './transaction'
+import { BomService, BomCostLine } from './bomService'
+import { roundMoney } from './paymentService'
+import { normalizeUnit } from './unitService'
+import { TABLE_NAMES, ORDER_STATUS, COSTING_CONFIG, RECIPE_ITEM_TYPES } from '../constants'
+import { OrderCostBreakdown, OrderCostItem } from '../types'
+
+export interface CostingOrderInput {
+  id: string
+  orderNumber?: string
+  totalAmount: number | null
+  discount_amount?: number | null
+  shipping_cost?: number | null
+  cost_snapshot?: OrderCostBreakdown | null
+  cost_frozen_at?: string | null
+}
+
+export interface ProductUnitCost {
+  material_cost: number
+  labor_cost: number
+  total_cost: number
+  materials: BomCostLine[]
+}
+
+// Order columns derived from the breakdown
+export const ORDER_COST_FIELDS = [
+  'total_cost',
+  'labor_cost',
+  'net_profit',
+  'profit_margin_percent',
+  'profit_margin_percent_2'
+] as const
+
+export class CostingService {
+  private client: any
+  private bom: BomService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.bom = new BomService(this.client)
+  }
+
+  /**
+   * Material and labor cost of each order item at current prices
+   */
+  public async calculateItemCosts(orderId: string): Promise<OrderCostItem[]> {
+    const items = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.ORDER_ITEMS)
+      .select('*')
+      .eq('orderId', orderId)) || []
+
+    if (items.length === 0) return []
+
+    const productIds = Array.from(new Set(items.map(item => item.productId as string)))
+    const [names, hoursPerUnit] = await Promise.all([
+      this.getProductNames(productIds),
+      this.getLaborHours(productIds)
+    ])
+
+    const costs: OrderCostItem[] = []
+    for (const item of items) {
+      const quantity = Number(item.quantity) || 0
+      const materials = await this.bom.getProductCost(item.productId, quantity)
+      const hours = (hoursPerUnit.get(item.productId) || 0) * quantity
+
+      costs.push({
+        product_id: item.productId,
+        product_name: names.get(item.productId) || item.productId,
+        quantity,
+        material_cost: roundMoney(materials.material_cost),
+        labor_hours: hours,
+        labor_cost: roundMoney(hours * COSTING_CONFIG.LABOR_HOURLY_RATE_TRY),
+        materials: materials.lines
+      })
+    }
+
+    return costs
+  }
+
+  /**
+   * Material and labor cost of one unit of each product at current prices
+   */
+  public async getProductUnitCosts(productIds: string[]): Promise<Map<string, ProductUnitCost>> {
+    const hoursPerUnit = await this.getLaborHours(productIds)
+    const costs = new Map<string, ProductUnitCost>()
+
+    for (const productId of productIds) {
+      const materials = await this.bom.getProductCost(productId, 1)
+      const laborCost = (hoursPerUnit.get(productId) || 0) * COSTING_CONFIG.LABOR_HOURLY_RATE_TRY
+      costs.set(productId, {
+        material_cost: roundMoney(materials.material_cost),
+        labor_cost: roundMoney(laborCost),
+        total_cost: roundMoney(materials.material_cost + laborCost),
+        materials: materials.lines
+      })
+    }
+
+    return costs
+  }
+
+  /**
+   * Cost breakdown of an order: frozen item costs once confirmed, current
+   * prices before that
+   */
+  public async getOrderCost(orderId: string, now: Date = new Date()): Promise<OrderCostBreakdown> {
+    const order = await this.getOrder(orderId)
+    const snapshot = order.cost_snapshot
+
+    if (snapshot) {
+      return buildCostBreakdown(order, snapshot.items, snapshot.labor_hourly_rate, now, order.cost_frozen_at || snapshot.frozen_at)
+    }
+
+    return buildCostBreakdown(order, await this.calculateItemCosts(orderId), COSTING_CONFIG.LABOR_HOURLY_RATE_TRY, now, null)
+  }
+
+  /**
+   * Recompute the order's cost fields and write them
+   */
+  public async updateOrderCosts(orderId: string, now: Date = new Date()): Promise<OrderCostBreakdown> {
+    const breakdown = await this.getOrderCost(orderId, now)
+
+    unwrap(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .update({ ...costFields(breakdown), updatedAt: now.toISOString() })
+      .eq('id', orderId)
+      .select('id'))
+
+    return breakdown
+  }
+
+  /**
+   * Reprice pending orders (e.g. after material prices changed); confirmed
+   * orders keep their snapshot
+   */
+  public async updatePendingOrderCosts(now: Date = new Date()): Promise<number> {
+    const orders = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .select('id')
+      .eq('status', ORDER_STATUS.PENDING)
+      .is('cost_frozen_at', null)) || []
+
+    for (const order of orders) {
+      await this.updateOrderCosts(order.id, now)
+    }
+
+    return orders.length
+  }
+
+  /**
+   * Step freezing the given item costs into the order's cost_snapshot
+   */
+  public freezeStep(orderId: string, items: OrderCostItem[], now: Date = new Date()): TransactionStep<void> {
+    let previous: Record<string, any> | null = null
+
+    return {
+      name: `freeze costs of order ${orderId}`,
+      run: async () => {
+        const order = await this.getOrder(orderId)
+        previous = snapshotFields(order)
+
+        const frozenAt = now.toISOString()
+        const breakdown = buildCostBreakdown(order, items, COSTING_CONFIG.LABOR_HOURLY_RATE_TRY, now, frozenAt)
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDERS)
+          .update({ ...costFields(breakdown), cost_snapshot: breakdown, cost_frozen_at: frozenAt })
+          .eq('id', orderId)
+          .select('id'))
+      },
+      rollback: async () => {
+        if (!previous) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDERS)
+          .update(previous)
+          .eq('id', orderId)
+          .select('id'))
+      }
+    }
+  }
+
+  /**
+   * Step dropping the snapshot so the order is priced live again (undo of a confirmation)
+   */
+  public unfreezeStep(orderId: string): TransactionStep<void> {
+    let previous: Record<string, any> | null = null
+
+    return {
+      name: `unfreeze costs of order ${orderId}`,
+      run: async () => {
+        previous = snapshotFields(await this.getOrder(orderId))
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDERS)
+          .update({ cost_snapshot: null, cost_frozen_at: null })
+          .eq('id', orderId)
+          .select('id'))
+      },
+      rollback: async () => {
+        if (!previous) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDERS)
+          .update(previous)
+          .eq('id', orderId)
+          .select('id'))
+      }
+    }
+  }
+
+  private async getProductNames(productIds: string[]): Promise<Map<string, string>> {
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.PRODUCTS)
+      .select('id, name')
+      .in('id', productIds)) || []
+
+    return new Map(rows.map(row => [row.id as string, row.name as string]))
+  }
+
+  /**
+   * LABOR hours per unit of each product (older recipe rows keep the kind in `type`)
+   */
+  private async getLaborHours(productIds: string[]): Promise<Map<string, number>> {
+    const recipes = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.PRODUCT_RECIPES)
+      .select('*')
+      .in('product_id', productIds)) || []
+
+    const hours = new Map<string, number>()
+    for (const recipe of recipes) {
+      if ((recipe.item_type ?? recipe.type) !== RECIPE_ITEM_TYPES.LABOR) continue
+      hours.set(recipe.product_id, (hours.get(recipe.product_id) || 0) + laborHours(recipe.quantity, recipe.unit))
+    }
+    return hours
+  }
+
+  private async getOrder(orderId: string): Promise<CostingOrderInput & Record<string, any>> {
+    const order = unwrap(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .select('*')
+      .eq('id', orderId)
+      .maybeSingle())
+
+    if (!order) {
+      throw new Error('Order not found')
+    }
+    return order
+  }
+}
+
+/**
+ * Hours of one LABOR recipe item
+ */
+export function laborHours(quantity: number | null, unit: string | null): number {
+  const hoursPerUnit = COSTING_CONFIG.LABOR_UNIT_HOURS[normalizeUnit(unit)] ?? 1
+  return (Number(quantity) || 0) * hoursPerUnit
+}
+
+/**
+ * Totals, profit and margins of an order from its item costs
+ */
+export function buildCostBreakdown(
+  order: CostingOrderInput,
+  items: OrderCostItem[],
+  laborHourlyRate: number,
+  now: Date,
+  frozenAt: string | null
+): OrderCostBreakdown {
+  const materialCost = roundMoney(items.reduce((sum, item) => sum + item.material_cost, 0))
+  const laborCost = roundMoney(items.reduce((sum, item) => sum + item.labor_cost, 0))
+  const shippingCost = roundMoney(Number(order.shipping_cost) || 0)
+  const totalCost = roundMoney(materialCost + laborCost + shippingCost)
+
+  const grossAmount = roundMoney(Number(order.totalAmount) || 0)
+  const discountAmount = roundMoney(Number(order.discount_amount) || 0)
+  const netRevenue = roundMoney(Math.max(0, grossAmount - discountAmount))
+  const netProfit = roundMoney(netRevenue - totalCost)
+
+  return {
+    items,
+    labor_hourly_rate: laborHourlyRate,
+    material_cost: materialCost,
+    labor_cost: laborCost,
+    shipping_cost: shippingCost,
+    total_cost: totalCost,
+    gross_amount: grossAmount,
+    discount_amount: discountAmount,
+    net_revenue: netRevenue,
+    net_profit: netProfit,
+    profit_margin_percent: netRevenue > 0 ? roundMoney((netProfit / netRevenue) * 100) : 0,
+    profit_margin_percent_2: totalCost > 0 ? roundMoney((netProfit / totalCost) * 100) : 0,
+    calculated_at: now.toISOString(),
+    frozen_at: frozenAt
+  }
+}
+
+/**
+ * Order column values of a breakdown
+ */
+export function costFields(breakdown: OrderCostBreakdown): Record<typeof ORDER_COST_FIELDS[number], number> {
+  return {
+    total_cost: breakdown.total_cost,
+    labor_cost: breakdown.labor_cost,
+    net_profit: breakdown.net_profit,
+    profit_margin_percent: breakdown.profit_margin_percent,
+    profit_margin_percent_2: breakdown.profit_margin_percent_2
+  }
+}
+
+function snapshotFields(order: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {
+    cost_snapshot: order.cost_snapshot ?? null,
+    cost_frozen_at: order.cost_frozen_at ?? null
+  }
+  for (const field of ORDER_COST_FIELDS) {
+    fields[field] = order[field] ?? null
+  }
+  return fields
+}
+
+let defaultService: CostingService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getCostingService(): CostingService {
+  if (!defaultService) {
+    defaultService = new CostingService()
+  }
+  return defaultService
+}
+
+export default CostingService
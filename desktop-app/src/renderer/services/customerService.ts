@@ -0,0 +1,482 @@
+/**
+ * Customer Service - Customer records deduplicated by phone and email
+ *
+ * Orders carry the customer as free text (customerName, customerEmail,
+ * customerPhone). Customer records are matched on the phone number
+ * normalized through ValidationService.validatePhone (0 + 10 digits) or the
+ * lower-cased email; syncFromOrders() links orders to existing records and
+ * creates records for new customers.
+ *
+ * Records that still look alike (e.g. the same name without contact details)
+ * can be merged: their orders move to the kept record and the rest are
+ * deleted, in one transaction.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, TransactionStep, unwrap } from './transaction'
+import { roundMoney } from './paymentService'
+import { validationService } from '../utils/validation'
+import { TABLE_NAMES, ORDER_STATUS } from '../constants'
+import { Customer, CustomerSummary, CustomerDuplicateGroup } from '../types'
+
+export type NewCustomer = Pick<Customer, 'name'> & Partial<Pick<Customer, 'email' | 'phone' | 'notes' | 'tags'>>
+
+export interface CustomerOrderInput {
+  id: string
+  orderNumber?: string | null
+  customer_id?: string | null
+  customerName?: string | null
+  customerEmail?: string | null
+  customerPhone?: string | null
+  totalAmount?: number | null
+  discount_amount?: number | null
+  status?: string | null
+  createdAt?: string | null
+}
+
+export interface CustomerSyncResult {
+  created: number
+  linked: number
+  skipped: number // Orders without a usable phone or email
+}
+
+const EXCLUDED_STATUSES: string[] = [ORDER_STATUS.CANCELLED, ORDER_STATUS.REFUNDED]
+
+const ORDER_FIELDS = 'id, customer_id, customerName, customerEmail, customerPhone, totalAmount, discount_amount, status, createdAt'
+
+export class CustomerService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * All customers with order count and lifetime value, by name
+   */
+  public async getCustomers(): Promise<CustomerSummary[]> {
+    const [customers, orders] = await Promise.all([
+      this.client
+        .from(TABLE_NAMES.CUSTOMERS)
+        .select('*')
+        .order('name'),
+      this.client
+        .from(TABLE_NAMES.ORDERS)
+        .select(ORDER_FIELDS)
+    ])
+
+    return buildCustomerSummaries(
+      (unwrap<any[]>(customers) || []).map(normalizeCustomer),
+      unwrap<CustomerOrderInput[]>(orders) || []
+    )
+  }
+
+  /**
+   * Orders of a customer, newest first
+   */
+  public async getOrderHistory(customerId: string): Promise<CustomerOrderInput[]> {
+    return unwrap<CustomerOrderInput[]>(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .select(`${ORDER_FIELDS}, orderNumber`)
+      .eq('customer_id', customerId)
+      .order('createdAt', { ascending: false })) || []
+  }
+
+  /**
+   * The existing customer with the phone or email, or a new record
+   */
+  public async findOrCreate(input: NewCustomer): Promise<{ customer: Customer; created: boolean }> {
+    const fields = customerFields(input)
+    const existing = await this.findMatch(fields.phone, fields.email)
+    if (existing) {
+      return { customer: existing, created: false }
+    }
+
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.CUSTOMERS)
+      .insert(fields)
+      .select('*')) || []
+    return { customer: normalizeCustomer(rows[0]), created: true }
+  }
+
+  /**
+   * Step running findOrCreate inside the caller's transaction; a customer it
+   * created is removed again on rollback
+   */
+  public findOrCreateStep(input: NewCustomer): TransactionStep<{ customer: Customer; created: boolean }> {
+    return {
+      name: `find or create customer ${input.name.trim()}`,
+      run: async () => this.findOrCreate(input),
+      rollback: async ({ customer, created }) => {
+        if (!created) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.CUSTOMERS)
+          .delete()
+          .eq('id', customer.id))
+      }
+    }
+  }
+
+  /**
+   * Update a customer; the phone and email may not belong to another customer
+   */
+  public async updateCustomer(customerId: string, input: NewCustomer): Promise<Customer> {
+    const fields = customerFields(input)
+    const existing = await this.findMatch(fields.phone, fields.email)
+    if (existing && existing.id !== customerId) {
+      throw new Error(`${existing.name} already uses this phone or email`)
+    }
+
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.CUSTOMERS)
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', customerId)
+      .select('*')) || []
+    if (!rows[0]) {
+      throw new Error(`Customer ${customerId} not found`)
+    }
+    return normalizeCustomer(rows[0])
+  }
+
+  /**
+   * Link orders without a customer to the matching record, creating records
+   * for customers seen for the first time
+   */
+  public async syncFromOrders(): Promise<CustomerSyncResult> {
+    const [customerRows, orderRows] = await Promise.all([
+      this.client.from(TABLE_NAMES.CUSTOMERS).select('*'),
+      this.client.from(TABLE_NAMES.ORDERS).select(ORDER_FIELDS)
+    ])
+    const customers = (unwrap<any[]>(customerRows) || []).map(normalizeCustomer)
+    const unlinked = (unwrap<CustomerOrderInput[]>(orderRows) || []).filter(order => !order.customer_id)
+
+    const result: CustomerSyncResult = { created: 0, linked: 0, skipped: 0 }
+    const ordersByCustomer = new Map<string, string[]>()
+
+    // Oldest orders first, so new records take the earliest name given
+    unlinked.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''))
+
+    for (const order of unlinked) {
+      const phone = normalizePhone(order.customerPhone)
+      const email = normalizeEmail(order.customerEmail)
+      if (!phone && !email) {
+        result.skipped++
+        continue
+      }
+
+      let customer = findCustomer(customers, phone, email)
+      if (!customer) {
+        const rows = unwrap<any[]>(await this.client
+          .from(TABLE_NAMES.CUSTOMERS)
+          .insert({ name: order.customerName?.trim() || email || phone, phone, email, notes: null, tags: [] })
+          .select('*')) || []
+        customer = normalizeCustomer(rows[0])
+        customers.push(customer)
+        result.created++
+      } else {
+        // Fill in contact details the record was missing
+        const missing: Record<string, string> = {}
+        if (!customer.phone && phone && !findCustomer(customers, phone, null)) missing.phone = phone
+        if (!customer.email && email && !findCustomer(customers, null, email)) missing.email = email
+        if (Object.keys(missing).length > 0) {
+          unwrap(await this.client
+            .from(TABLE_NAMES.CUSTOMERS)
+            .update(missing)
+            .eq('id', customer.id)
+            .select('id'))
+          Object.assign(customer, missing)
+        }
+      }
+
+      ordersByCustomer.set(customer.id, [...(ordersByCustomer.get(customer.id) || []), order.id])
+    }
+
+    for (const [customerId, orderIds] of ordersByCustomer) {
+      unwrap(await this.client
+        .from(TABLE_NAMES.ORDERS)
+        .update({ customer_id: customerId })
+        .in('id', orderIds)
+        .select('id'))
+      result.linked += orderIds.length
+    }
+
+    return result
+  }
+
+  /**
+   * Groups of customers sharing a phone, email or name
+   */
+  public async findDuplicates(): Promise<CustomerDuplicateGroup[]> {
+    return findDuplicateCustomers(await this.getCustomers())
+  }
+
+  /**
+   * Merge customers into one: orders move to the kept record, which takes
+   * over missing contact details, tags and notes; the others are deleted
+   */
+  public async merge(keepId: string, mergeIds: string[]): Promise<Customer> {
+    const sourceIds = mergeIds.filter(id => id !== keepId)
+    if (sourceIds.length === 0) {
+      throw new Error('Select at least one other customer to merge')
+    }
+
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.CUSTOMERS)
+      .select('*')
+      .in('id', [keepId, ...sourceIds])) || []
+    const kept = rows.find(row => row.id === keepId)
+    const sources = sourceIds.map(id => rows.find(row => row.id === id))
+    if (!kept || sources.some(source => !source)) {
+      throw new Error('Customer to merge not found')
+    }
+
+    const orders = unwrap<Array<{ id: string; customer_id: string }>>(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .select('id, customer_id')
+      .in('customer_id', sourceIds)) || []
+
+    const keptCustomer = normalizeCustomer(kept)
+    const merged = mergeCustomerFields(keptCustomer, sources.map(normalizeCustomer))
+    const transaction = new Transaction()
+
+    for (const sourceId of sourceIds) {
+      const orderIds = orders.filter(order => order.customer_id === sourceId).map(order => order.id)
+      if (orderIds.length === 0) continue
+
+      transaction.add({
+        name: `move ${orderIds.length} orders of customer ${sourceId} to ${keepId}`,
+        run: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.ORDERS)
+            .update({ customer_id: keepId })
+            .in('id', orderIds)
+            .select('id'))
+        },
+        rollback: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.ORDERS)
+            .update({ customer_id: sourceId })
+            .in('id', orderIds)
+            .select('id'))
+        }
+      })
+    }
+
+    // Delete first so the kept record can take over their phone and email
+    transaction.add({
+      name: `delete ${sourceIds.length} merged customers`,
+      run: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.CUSTOMERS)
+          .delete()
+          .in('id', sourceIds))
+      },
+      rollback: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.CUSTOMERS)
+          .insert(sources)
+          .select('id'))
+      }
+    })
+
+    transaction.add({
+      name: `update merged customer ${keepId}`,
+      run: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.CUSTOMERS)
+          .update({ ...merged, updated_at: new Date().toISOString() })
+          .eq('id', keepId)
+          .select('id'))
+      },
+      rollback: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.CUSTOMERS)
+          .update({ email: kept.email, phone: kept.phone, notes: kept.notes, tags: kept.tags, updated_at: kept.updated_at })
+          .eq('id', keepId)
+          .select('id'))
+      }
+    })
+
+    await transaction.commit()
+    return { ...keptCustomer, ...merged }
+  }
+
+  private async findMatch(phone: string | null, email: string | null): Promise<Customer | null> {
+    if (!phone && !email) return null
+
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.CUSTOMERS)
+      .select('*')) || []
+    return findCustomer(rows.map(normalizeCustomer), phone, email)
+  }
+}
+
+/**
+ * Phone number as 0 followed by ten digits, or null if it is not a valid
+ * Turkish mobile number
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null
+
+  const compact = phone.replace(/[\s\-().]/g, '')
+  if (!compact || !validationService.validatePhone(compact).isValid) return null
+  return `0${compact.replace(/^(\+90|0)/, '')}`
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const trimmed = email?.trim().toLowerCase()
+  if (!trimmed || !validationService.validateEmail(trimmed).isValid) return null
+  return trimmed
+}
+
+export function normalizeName(name: string | null | undefined): string {
+  return (name || '').trim().replace(/\s+/g, ' ').toLocaleLowerCase('tr')
+}
+
+function normalizeCustomer(row: any): Customer {
+  return {
+    ...row,
+    email: row.email ?? null,
+    phone: row.phone ?? null,
+    notes: row.notes ?? null,
+    tags: Array.isArray(row.tags) ? row.tags : []
+  }
+}
+
+/**
+ * Validated, normalized columns of a customer; rejects unusable phone numbers
+ * and emails instead of storing them unmatched
+ */
+export function customerFields(input: NewCustomer): Omit<Customer, 'id' | 'created_at' | 'updated_at'> {
+  const name = input.name?.trim()
+  if (!name) {
+    throw new Error('Customer name is required')
+  }
+
+  const phoneCheck = validationService.validatePhone((input.phone || '').replace(/[\s\-().]/g, ''))
+  if (!phoneCheck.isValid) {
+    throw new Error(phoneCheck.errors[0])
+  }
+  const emailCheck = validationService.validateEmail((input.email || '').trim())
+  if (!emailCheck.isValid) {
+    throw new Error(emailCheck.errors[0])
+  }
+
+  const tags = Array.from(new Set((input.tags || []).map(tag => tag.trim()).filter(Boolean)))
+
+  return {
+    name,
+    phone: normalizePhone(input.phone),
+    email: normalizeEmail(input.email),
+    notes: input.notes?.trim() || null,
+    tags
+  }
+}
+
+function findCustomer(customers: Customer[], phone: string | null, email: string | null): Customer | null {
+  return customers.find(customer =>
+    (phone !== null && customer.phone === phone) ||
+    (email !== null && customer.email === email)) || null
+}
+
+/**
+ * Fields of the kept customer after taking over what the merged ones add
+ */
+export function mergeCustomerFields(kept: Customer, merged: Customer[]): Pick<Customer, 'email' | 'phone' | 'notes' | 'tags'> {
+  const notes = [kept.notes, ...merged.map(customer => customer.notes)].filter(Boolean)
+
+  return {
+    email: kept.email ?? merged.find(customer => customer.email)?.email ?? null,
+    phone: kept.phone ?? merged.find(customer => customer.phone)?.phone ?? null,
+    notes: notes.length > 0 ? notes.join('\n') : null,
+    tags: Array.from(new Set([...kept.tags, ...merged.flatMap(customer => customer.tags)]))
+  }
+}
+
+/**
+ * Order count and lifetime value per customer; cancelled and refunded
+ * orders do not count
+ */
+export function buildCustomerSummaries(customers: Customer[], orders: CustomerOrderInput[]): CustomerSummary[] {
+  return customers.map(customer => {
+    const own = orders
+      .filter(order => order.customer_id === customer.id && !EXCLUDED_STATUSES.includes(order.status || ''))
+      .map(order => ({ value: (Number(order.totalAmount) || 0) - (Number(order.discount_amount) || 0), at: order.createdAt || null }))
+    const dates = own.map(order => order.at).filter((at): at is string => !!at).sort()
+    const lifetimeValue = roundMoney(own.reduce((sum, order) => sum + order.value, 0))
+
+    return {
+      ...customer,
+      order_count: own.length,
+      lifetime_value: lifetimeValue,
+      average_order_value: own.length > 0 ? roundMoney(lifetimeValue / own.length) : 0,
+      first_order_at: dates[0] || null,
+      last_order_at: dates[dates.length - 1] || null
+    }
+  })
+}
+
+/**
+ * Connected groups of customers sharing a phone, email or normalized name
+ */
+export function findDuplicateCustomers(customers: CustomerSummary[]): CustomerDuplicateGroup[] {
+  const parent = new Map(customers.map(customer => [customer.id, customer.id]))
+  const root = (id: string): string => {
+    const up = parent.get(id) as string
+    if (up === id) return id
+    const top = root(up)
+    parent.set(id, top)
+    return top
+  }
+
+  const reasons = new Map<string, Set<'PHONE' | 'EMAIL' | 'NAME'>>()
+  const keys: Array<['PHONE' | 'EMAIL' | 'NAME', (customer: Customer) => string | null]> = [
+    ['PHONE', customer => customer.phone],
+    ['EMAIL', customer => customer.email],
+    ['NAME', customer => normalizeName(customer.name) || null]
+  ]
+
+  for (const [reason, key] of keys) {
+    const firstWithKey = new Map<string, string>()
+    for (const customer of customers) {
+      const value = key(customer)
+      if (!value) continue
+      const first = firstWithKey.get(value)
+      if (!first) {
+        firstWithKey.set(value, customer.id)
+        continue
+      }
+      parent.set(root(customer.id), root(first))
+      reasons.set(customer.id, (reasons.get(customer.id) || new Set()).add(reason))
+    }
+  }
+
+  const groups = new Map<string, CustomerDuplicateGroup>()
+  for (const customer of customers) {
+    const id = root(customer.id)
+    const group = groups.get(id) || { matched_on: [], customers: [] }
+    group.customers.push(customer)
+    for (const reason of reasons.get(customer.id) || []) {
+      if (!group.matched_on.includes(reason)) group.matched_on.push(reason)
+    }
+    groups.set(id, group)
+  }
+
+  return Array.from(groups.values())
+    .filter(group => group.customers.length > 1)
+    .map(group => ({ ...group, customers: group.customers.sort((a, b) => b.order_count - a.order_count) }))
+}
+
+let defaultService: CustomerService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getCustomerService(): CustomerService {
+  if (!defaultService) {
+    defaultService = new CustomerService()
+  }
+  return defaultService
+}
+
+export default CustomerService
@@ -1,10 +1,14 @@
 /**
  * Simple Database Service - No over engineering
+ *
+ * When Supabase cannot be reached, reads come from the local replica and
+ * writes are queued for later (see syncService).
  */
 
 import { supabaseManager } from '../SupabaseClient'
 import { ErrorHandler } from '../utils/errorHandler'
 import { validationService } from '../utils/validation'
+import { getSyncService, isOfflineError, OfflineQueryError } from './syncService'
 
 export interface QueryOptions {
   select?: string
@@ -34,6 +38,12 @@ export class DatabaseService {
    * Select data from table
    */
   public async select(table: string, options: QueryOptions = {}) {
+    // Known to be offline: answer from the replica instead of waiting on the network
+    const syncService = getSyncService()
+    if (syncService.isAvailable() && syncService.isOffline()) {
+      return this.selectLocal(table, options)
+    }
+
     try {
       let query = this.client.from(table)
 
@@ -63,13 +73,15 @@ export class DatabaseService {
 
       if (error) {
         ErrorHandler.handle(error, `DatabaseService.select(${table})`)
-        return []
+        if (isOfflineError(error)) syncService.markOffline()
+        return this.selectLocal(table, options)
       }
 
       return data || []
     } catch (error) {
       ErrorHandler.handle(error, `DatabaseService.select(${table})`)
-      return []
+      if (isOfflineError(error)) syncService.markOffline()
+      return this.selectLocal(table, options)
     }
   }
 
@@ -84,12 +96,14 @@ export class DatabaseService {
         .select(options.returning || '*')
 
       if (error) {
+        if (isOfflineError(error)) return this.queueLocal(table, 'insert', data)
         ErrorHandler.handle(error, `DatabaseService.insert(${table})`)
         return null
       }
 
       return result?.[0] || null
     } catch (error) {
+      if (isOfflineError(error)) return this.queueLocal(table, 'insert', data)
       ErrorHandler.handle(error, `DatabaseService.insert(${table})`)
       return null
     }
@@ -107,12 +121,14 @@ export class DatabaseService {
         .select(options.returning || '*')
 
       if (error) {
+        if (isOfflineError(error)) return this.queueLocal(table, 'update', data, id)
         ErrorHandler.handle(error, `DatabaseService.update(${table})`)
         return null
       }
 
       return result?.[0] || null
     } catch (error) {
+      if (isOfflineError(error)) return this.queueLocal(table, 'update', data, id)
       ErrorHandler.handle(error, `DatabaseService.update(${table})`)
       return null
     }
@@ -129,12 +145,14 @@ export class DatabaseService {
         .eq('id', id)
 
       if (error) {
+        if (isOfflineError(error)) return this.queueLocal(table, 'delete', null, id)
         ErrorHandler.handle(error, `DatabaseService.delete(${table})`)
         return false
       }
 
       return true
     } catch (error) {
+      if (isOfflineError(error)) return this.queueLocal(table, 'delete', null, id)
       ErrorHandler.handle(error, `DatabaseService.delete(${table})`)
       return false
     }
@@ -190,6 +208,45 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Rows from the local replica, or [] outside Electron; a select the replica
+   * cannot answer throws OfflineQueryError rather than returning partial rows
+   */
+  private async selectLocal(table: string, options: QueryOptions) {
+    try {
+      return await getSyncService().read(table, options)
+    } catch (error) {
+      if (error instanceof OfflineQueryError) throw error
+      ErrorHandler.handle(error, `DatabaseService.selectLocal(${table})`)
+      return []
+    }
+  }
+
+  /**
+   * Queue a write while offline; returns the local row (true for deletes)
+   */
+  private async queueLocal(table: string, operation: 'insert' | 'update' | 'delete', data: any, id?: string): Promise<any> {
+    const syncService = getSyncService()
+    if (!syncService.isAvailable()) {
+      return operation === 'delete' ? false : null
+    }
+
+    try {
+      if (operation === 'delete') {
+        await syncService.queueWrite(table, operation, null, id)
+        return true
+      }
+      const rows = []
+      for (const row of Array.isArray(data) ? data : [data]) {
+        rows.push(await syncService.queueWrite(table, operation, row, id))
+      }
+      return rows[0] || null
+    } catch (error) {
+      ErrorHandler.handle(error, `DatabaseService.queueLocal(${table})`)
+      return operation === 'delete' ? false : null
+    }
+  }
+
   /**
    * Validate table name
    */
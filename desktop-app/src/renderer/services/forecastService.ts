@@ -0,0 +1,279 @@
+/**
+ * Forecast Service - Consumption forecasting and days until stockout
+ *
+ * Two methods project daily usage from OUT movements:
+ * - moving average over FORECAST_CONFIG.MOVING_AVERAGE_DAYS
+ * - seasonal: the moving average de-seasonalised and re-scaled by a
+ *   week-of-year index, once a material has a year of history
+ *
+ * The projection is compared with the next expected delivery (open purchase
+ * order, otherwise today plus the lead time) to flag materials that run out
+ * before they can be replenished.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { unwrap } from './transaction'
+import { PurchaseOrderService } from './purchaseOrderService'
+import {
+  TABLE_NAMES,
+  MOVEMENT_TYPES,
+  FORECAST_CONFIG,
+  FORECAST_METHODS,
+  MRP_CONFIG
+} from '../constants'
+import { MaterialForecast } from '../types'
+
+export interface ForecastMaterialInput {
+  id: string
+  stock_quantity: number | null
+  lead_time_days: number | null
+}
+
+export interface ForecastMovementInput {
+  raw_material_id: string
+  quantity: number
+  created_at: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEKS_PER_YEAR = 52
+
+export class ForecastService {
+  private client: any
+  private purchaseOrders: PurchaseOrderService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.purchaseOrders = new PurchaseOrderService(this.client)
+  }
+
+  /**
+   * Forecast every raw material (or the given ones)
+   */
+  public async getForecasts(materials?: ForecastMaterialInput[], now: Date = new Date()): Promise<MaterialForecast[]> {
+    const since = new Date(now.getTime() - FORECAST_CONFIG.HISTORY_DAYS * DAY_MS)
+
+    const [materialRows, movements, outstanding] = await Promise.all([
+      materials ? Promise.resolve(materials) : this.getMaterials(),
+      this.getOutMovements(since),
+      this.purchaseOrders.getOutstanding()
+    ])
+
+    const deliveries = new Map<string, string>()
+    for (const line of outstanding) {
+      const current = deliveries.get(line.material_id)
+      if (line.expected_date && (!current || line.expected_date < current)) {
+        deliveries.set(line.material_id, line.expected_date)
+      }
+    }
+
+    const byMaterial = new Map<string, ForecastMovementInput[]>()
+    for (const movement of movements) {
+      const list = byMaterial.get(movement.raw_material_id) || []
+      list.push(movement)
+      byMaterial.set(movement.raw_material_id, list)
+    }
+
+    return materialRows.map(material => forecastConsumption(
+      material,
+      byMaterial.get(material.id) || [],
+      deliveries.get(material.id) || null,
+      now
+    ))
+  }
+
+  private async getMaterials(): Promise<ForecastMaterialInput[]> {
+    return unwrap<ForecastMaterialInput[]>(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select('id, stock_quantity, lead_time_days')) || []
+  }
+
+  /**
+   * OUT movements since the given date, page by page (PostgREST caps a response)
+   */
+  private async getOutMovements(since: Date): Promise<ForecastMovementInput[]> {
+    const movements: ForecastMovementInput[] = []
+
+    for (let from = 0; ; from += FORECAST_CONFIG.PAGE_SIZE) {
+      const page = unwrap<ForecastMovementInput[]>(await this.client
+        .from(TABLE_NAMES.STOCK_MOVEMENTS)
+        .select('raw_material_id, quantity, created_at')
+        .eq('movement_type', MOVEMENT_TYPES.OUT)
+        .gte('created_at', since.toISOString())
+        .order('id', { ascending: true })
+        .range(from, from + FORECAST_CONFIG.PAGE_SIZE - 1)) || []
+
+      movements.push(...page)
+      if (page.length < FORECAST_CONFIG.PAGE_SIZE) break
+    }
+
+    return movements
+  }
+
+  /**
+   * Forecast for a single material
+   */
+  public async getForecast(material: ForecastMaterialInput, now: Date = new Date()): Promise<MaterialForecast> {
+    const [forecast] = await this.getForecasts([material], now)
+    return forecast
+  }
+}
+
+/**
+ * Week of the year, 1-52 (the last one or two days of a year join week 52)
+ */
+export function weekOfYear(date: Date): number {
+  const dayOfYear = Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS)
+  return Math.min(WEEKS_PER_YEAR, Math.floor(dayOfYear / 7) + 1)
+}
+
+/**
+ * Quantity consumed by an OUT movement (legacy rows store it negative)
+ */
+function usedQuantity(movement: ForecastMovementInput): number {
+  return Math.abs(Number(movement.quantity) || 0)
+}
+
+/**
+ * Average daily usage over the last FORECAST_CONFIG.MOVING_AVERAGE_DAYS
+ */
+export function movingAverageDaily(movements: ForecastMovementInput[], now: Date): number {
+  const windowStart = now.getTime() - FORECAST_CONFIG.MOVING_AVERAGE_DAYS * DAY_MS
+  const total = movements
+    .filter(movement => {
+      const time = new Date(movement.created_at).getTime()
+      return time >= windowStart && time <= now.getTime()
+    })
+    .reduce((sum, movement) => sum + usedQuantity(movement), 0)
+
+  return total / FORECAST_CONFIG.MOVING_AVERAGE_DAYS
+}
+
+/**
+ * Week-of-year usage index (1 = average week), or null with less than
+ * FORECAST_CONFIG.SEASONAL_MIN_HISTORY_DAYS of history
+ */
+export function seasonalIndex(movements: ForecastMovementInput[], now: Date): number[] | null {
+  if (movements.length === 0) return null
+
+  const earliest = Math.min(...movements.map(movement => new Date(movement.created_at).getTime()))
+  const start = Math.max(earliest, now.getTime() - FORECAST_CONFIG.HISTORY_DAYS * DAY_MS)
+  const historyDays = Math.floor((now.getTime() - start) / DAY_MS)
+
+  if (historyDays < FORECAST_CONFIG.SEASONAL_MIN_HISTORY_DAYS) return null
+
+  // Usage per observed day of each week, so partially covered weeks are not skewed
+  const usage = new Array(WEEKS_PER_YEAR + 1).fill(0)
+  const days = new Array(WEEKS_PER_YEAR + 1).fill(0)
+
+  for (let day = 0; day < historyDays; day++) {
+    days[weekOfYear(new Date(start + day * DAY_MS))]++
+  }
+  for (const movement of movements) {
+    const time = new Date(movement.created_at).getTime()
+    if (time >= start && time <= now.getTime()) {
+      usage[weekOfYear(new Date(time))] += usedQuantity(movement)
+    }
+  }
+
+  const totalUsage = usage.reduce((sum, value) => sum + value, 0)
+  if (totalUsage === 0) return null
+
+  const overallDaily = totalUsage / historyDays
+  return usage.map((value, week) => days[week] > 0 ? (value / days[week]) / overallDaily : 1)
+}
+
+/**
+ * Project usage of one material and the day it runs out
+ *
+ * The seasonal method is used whenever an index is available; it scales the
+ * recent level by how busy the coming weeks were in previous years.
+ */
+export function forecastConsumption(
+  material: ForecastMaterialInput,
+  movements: ForecastMovementInput[],
+  nextDeliveryDate: string | null,
+  now: Date = new Date()
+): MaterialForecast {
+  const movingAverage = movingAverageDaily(movements, now)
+  const index = seasonalIndex(movements, now)
+
+  let rateOn: (date: Date) => number = () => movingAverage
+  let seasonalDaily: number | null = null
+
+  if (index) {
+    // Strip the season of the moving-average window to get the underlying level
+    let windowIndex = 0
+    for (let day = 1; day <= FORECAST_CONFIG.MOVING_AVERAGE_DAYS; day++) {
+      windowIndex += index[weekOfYear(new Date(now.getTime() - day * DAY_MS))]
+    }
+    windowIndex /= FORECAST_CONFIG.MOVING_AVERAGE_DAYS
+
+    const level = windowIndex > 0 ? movingAverage / windowIndex : movingAverage
+    rateOn = date => level * index[weekOfYear(date)]
+    seasonalDaily = rateOn(now)
+  }
+
+  const currentStock = Math.max(0, material.stock_quantity || 0)
+  const daysUntilStockout = projectStockout(currentStock, rateOn, now)
+
+  const leadTime = material.lead_time_days ?? MRP_CONFIG.DEFAULT_LEAD_TIME_DAYS
+  const today = toDateString(now)
+  const nextDelivery = nextDeliveryDate
+    ? (nextDeliveryDate.slice(0, 10) < today ? today : nextDeliveryDate.slice(0, 10))
+    : toDateString(new Date(now.getTime() + leadTime * DAY_MS))
+
+  const stockoutDate = daysUntilStockout === null
+    ? null
+    : toDateString(new Date(now.getTime() + daysUntilStockout * DAY_MS))
+
+  return {
+    raw_material_id: material.id,
+    current_stock: currentStock,
+    method: index ? FORECAST_METHODS.SEASONAL : FORECAST_METHODS.MOVING_AVERAGE,
+    moving_average_daily: movingAverage,
+    seasonal_daily: seasonalDaily,
+    projected_daily: seasonalDaily ?? movingAverage,
+    days_until_stockout: daysUntilStockout,
+    stockout_date: stockoutDate,
+    next_delivery_date: nextDelivery,
+    runs_out_before_delivery: stockoutDate !== null && stockoutDate < nextDelivery
+  }
+}
+
+/**
+ * Walk forward day by day until the stock is used up, null if it lasts
+ * beyond FORECAST_CONFIG.HORIZON_DAYS
+ */
+function projectStockout(stock: number, rateOn: (date: Date) => number, now: Date): number | null {
+  if (stock <= 0) return 0
+
+  let remaining = stock
+  for (let day = 0; day < FORECAST_CONFIG.HORIZON_DAYS; day++) {
+    const rate = rateOn(new Date(now.getTime() + day * DAY_MS))
+    if (rate > 0 && remaining <= rate) {
+      return day + remaining / rate
+    }
+    remaining -= rate
+  }
+
+  return null
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+let defaultService: ForecastService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getForecastService(): ForecastService {
+  if (!defaultService) {
+    defaultService = new ForecastService()
+  }
+  return defaultService
+}
+
+export default ForecastService
@@ -0,0 +1,735 @@
+/**
+ * Import Service - CSV files into materials, products, recipes, suppliers and orders
+ *
+ * A file is decoded (UTF-8, Windows-1254 as older Excel versions save it, or
+ * UTF-16 from Excel's "Unicode Text"), split into rows and its columns are
+ * mapped to the fields of an import definition. dryRun() validates every row
+ * with ValidationService, resolves the names of related records (supplier,
+ * category, product, material) to ids and matches rows to existing records on
+ * their key (SKU or name), giving a report of inserts, updates and errors
+ * without writing anything.
+ *
+ * commit() plans again and writes the inserts and updates in one transaction.
+ * Rows equal to their record are left alone, so importing the same file twice
+ * changes nothing the second time. Empty cells never clear existing values.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, TransactionStep, unwrap } from './transaction'
+import { NewMaterialPriceChange } from './materialPriceService'
+import { ORDER_WORKFLOW_STATES } from './orderWorkflow'
+import { validationService } from '../utils/validation'
+import {
+  TABLE_NAMES,
+  IMPORT_TARGETS,
+  IMPORT_CONFIG,
+  ORDER_STATUS,
+  ORDER_SOURCES,
+  MOVEMENT_TYPES,
+  RECIPE_ITEM_TYPES,
+  MATERIAL_PRICE_SOURCES,
+  VALIDATION_RULES,
+  ImportTarget
+} from '../constants'
+import { ImportReport, ImportRowResult, ImportCommitResult } from '../types'
+
+type Row = Record<string, any>
+
+export type ImportEncoding = 'utf-8' | 'windows-1254' | 'utf-16le'
+
+export type ImportFieldType = 'text' | 'longtext' | 'number' | 'integer' | 'boolean' | 'date' | 'email' | 'phone'
+
+export interface ImportField {
+  field: string // Column written; for lookups the name read from the file
+  label: string
+  type: ImportFieldType
+  required?: boolean
+  aliases?: string[] // Header names suggestMapping() recognizes besides the field and label
+  choices?: Record<string, string> // Accepted cell values (normalized) to stored value
+  lookup?: { table: string; into: string } // Name of a related record, stored as its id in `into`
+  insertOnly?: boolean // Ignored for existing records
+}
+
+export interface ImportDefinition {
+  target: ImportTarget
+  table: string
+  label: string
+  keys: string[][] // Columns a row is matched on, in order of preference
+  fields: ImportField[]
+  defaults?: Row // Added to inserted rows
+  timestamps: { created: string; updated: string }
+}
+
+export interface ImportSheet {
+  headers: string[]
+  rows: Array<{ line: number; cells: string[] }>
+  delimiter: string
+}
+
+// Field to column index in the sheet; null leaves the field out
+export type ImportMapping = Record<string, number | null>
+
+export interface ParsedImportRow {
+  line: number
+  values: Row // Converted values of the mapped fields; null for empty cells
+  errors: string[]
+}
+
+/**
+ * Lower-case, without Turkish letters, spaces and punctuation; used to match
+ * headers and choices ("Ürün Adı" -> "urunadi")
+ */
+export function normalizeText(value: string): string {
+  return value
+    .toLocaleLowerCase('tr-TR')
+    .replace(/ı/g, 'i')
+    .replace(/ğ/g, 'g')
+    .replace(/ü/g, 'u')
+    .replace(/ş/g, 's')
+    .replace(/ö/g, 'o')
+    .replace(/ç/g, 'c')
+    .replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Names and SKUs are matched case-insensitively, ignoring extra spaces
+ */
+export function normalizeKey(value: unknown): string {
+  return String(value).trim().replace(/\s+/g, ' ').toLocaleLowerCase('tr-TR')
+}
+
+const choicesOf = (entries: Array<[string, string]>): Record<string, string> =>
+  Object.fromEntries(entries.map(([text, value]) => [normalizeText(text), value]))
+
+const ORDER_STATUS_CHOICES = choicesOf(Object.entries(ORDER_WORKFLOW_STATES).flatMap(([status, state]) => [
+  [status, status] as [string, string],
+  [state.label, status] as [string, string]
+]))
+
+const ORDER_SOURCE_CHOICES = choicesOf([
+  ...Object.values(ORDER_SOURCES).map(source => [source, source] as [string, string]),
+  ['Web Sitesi', ORDER_SOURCES.WEBSITE],
+  ['Telefon', ORDER_SOURCES.PHONE],
+  ['Mağaza', ORDER_SOURCES.IN_STORE]
+])
+
+const SNAKE_TIMESTAMPS = { created: 'created_at', updated: 'updated_at' }
+
+export const IMPORT_DEFINITIONS: Record<ImportTarget, ImportDefinition> = {
+  materials: {
+    target: IMPORT_TARGETS.MATERIALS,
+    table: TABLE_NAMES.RAW_MATERIALS,
+    label: 'Hammaddeler',
+    keys: [['name']],
+    timestamps: SNAKE_TIMESTAMPS,
+    fields: [
+      { field: 'name', label: 'Malzeme Adı', type: 'text', required: true, aliases: ['Malzeme', 'Hammadde', 'Ad', 'Adı', 'İsim'] },
+      // Stock of existing materials only moves through the ledger (stock count, goods receipt)
+      { field: 'stock_quantity', label: 'Stok Miktarı', type: 'number', insertOnly: true, aliases: ['Stok', 'Miktar', 'Mevcut Stok'] },
+      { field: 'stock_unit', label: 'Birim', type: 'text', aliases: ['Stok Birimi', 'Unit'] },
+      { field: 'unit_price_try', label: 'Birim Fiyat (₺)', type: 'number', aliases: ['Fiyat', 'Birim Fiyat', 'Alış Fiyatı', 'Price'] },
+      { field: 'min_stock_quantity', label: 'Minimum Stok', type: 'number', aliases: ['Min Stok', 'Kritik Stok'] },
+      { field: 'lead_time_days', label: 'Tedarik Süresi (gün)', type: 'integer', aliases: ['Tedarik Süresi', 'Teslim Süresi'] },
+      { field: 'supplier_name', label: 'Tedarikçi', type: 'text', lookup: { table: TABLE_NAMES.SUPPLIERS, into: 'supplier_id' }, aliases: ['Tedarikçi Adı', 'Supplier'] },
+      { field: 'contact_or_url', label: 'İletişim / Link', type: 'text', aliases: ['Link', 'URL', 'İletişim'] },
+      { field: 'notes', label: 'Notlar', type: 'longtext', aliases: ['Not', 'Açıklama'] }
+    ]
+  },
+  products: {
+    target: IMPORT_TARGETS.PRODUCTS,
+    table: TABLE_NAMES.PRODUCTS,
+    label: 'Ürünler',
+    keys: [['sku'], ['name']],
+    timestamps: { created: 'createdAt', updated: 'updatedAt' },
+    defaults: { isActive: true },
+    fields: [
+      { field: 'name', label: 'Ürün Adı', type: 'text', required: true, aliases: ['Ürün', 'Ad', 'Adı', 'İsim'] },
+      { field: 'sku', label: 'Stok Kodu', type: 'text', aliases: ['SKU', 'Ürün Kodu', 'Kod'] },
+      { field: 'price', label: 'Satış Fiyatı (₺)', type: 'number', required: true, aliases: ['Fiyat', 'Satış Fiyatı', 'Price'] },
+      { field: 'category_name', label: 'Kategori', type: 'text', lookup: { table: TABLE_NAMES.CATEGORIES, into: 'categoryId' }, aliases: ['Category'] },
+      { field: 'description', label: 'Açıklama', type: 'longtext', aliases: ['Ürün Açıklaması', 'Description'] },
+      { field: 'isActive', label: 'Aktif', type: 'boolean', aliases: ['Durum', 'Satışta'] }
+    ]
+  },
+  recipes: {
+    target: IMPORT_TARGETS.RECIPES,
+    table: TABLE_NAMES.PRODUCT_RECIPES,
+    label: 'Reçeteler',
+    keys: [['product_id', 'raw_material_id']],
+    timestamps: SNAKE_TIMESTAMPS,
+    defaults: { item_type: RECIPE_ITEM_TYPES.MATERIAL },
+    fields: [
+      { field: 'product_name', label: 'Ürün', type: 'text', required: true, lookup: { table: TABLE_NAMES.PRODUCTS, into: 'product_id' }, aliases: ['Ürün Adı'] },
+      { field: 'material_name', label: 'Malzeme', type: 'text', required: true, lookup: { table: TABLE_NAMES.RAW_MATERIALS, into: 'raw_material_id' }, aliases: ['Malzeme Adı', 'Hammadde'] },
+      { field: 'quantity', label: 'Miktar', type: 'number', required: true, aliases: ['Adet', 'Kullanım'] },
+      { field: 'unit', label: 'Birim', type: 'text', required: true, aliases: ['Unit'] },
+      { field: 'notes', label: 'Notlar', type: 'longtext', aliases: ['Not', 'Açıklama'] }
+    ]
+  },
+  suppliers: {
+    target: IMPORT_TARGETS.SUPPLIERS,
+    table: TABLE_NAMES.SUPPLIERS,
+    label: 'Tedarikçiler',
+    keys: [['name']],
+    timestamps: SNAKE_TIMESTAMPS,
+    fields: [
+      { field: 'name', label: 'Tedarikçi Adı', type: 'text', required: true, aliases: ['Tedarikçi', 'Firma', 'Firma Adı', 'Ad'] },
+      { field: 'contact', label: 'İletişim', type: 'text', aliases: ['Telefon', 'Yetkili', 'E-posta'] },
+      { field: 'url', label: 'Web Sitesi', type: 'text', aliases: ['URL', 'Link', 'Site'] },
+      { field: 'notes', label: 'Notlar', type: 'longtext', aliases: ['Not', 'Açıklama'] }
+    ]
+  },
+  orders: {
+    target: IMPORT_TARGETS.ORDERS,
+    table: TABLE_NAMES.ORDERS,
+    label: 'Siparişler',
+    keys: [['orderNumber']],
+    timestamps: { created: 'createdAt', updated: 'updatedAt' },
+    // Imported orders are history: they do not reserve or consume stock
+    defaults: { status: ORDER_STATUS.DELIVERED, customerEmail: '' },
+    fields: [
+      { field: 'orderNumber', label: 'Sipariş No', type: 'text', required: true, aliases: ['Sipariş Numarası', 'No'] },
+      { field: 'customerName', label: 'Müşteri', type: 'text', required: true, aliases: ['Müşteri Adı', 'Ad Soyadı', 'Ad Soyad'] },
+      { field: 'customerPhone', label: 'Telefon', type: 'phone', aliases: ['Tel', 'Cep Telefonu'] },
+      { field: 'customerEmail', label: 'E-posta', type: 'email', aliases: ['Email', 'Mail'] },
+      { field: 'shippingAddress', label: 'Adres', type: 'longtext', aliases: ['Teslimat Adresi'] },
+      { field: 'shippingCity', label: 'Şehir', type: 'text', aliases: ['İl'] },
+      { field: 'totalAmount', label: 'Tutar (₺)', type: 'number', required: true, aliases: ['Tutar', 'Toplam', 'Toplam Tutar'] },
+      { field: 'discount_amount', label: 'İndirim (₺)', type: 'number', aliases: ['İndirim'] },
+      { field: 'shipping_cost', label: 'Kargo Ücreti (₺)', type: 'number', aliases: ['Kargo', 'Kargo Ücreti'] },
+      // Status changes of existing orders go through the workflow (stock, payments)
+      { field: 'status', label: 'Durum', type: 'text', choices: ORDER_STATUS_CHOICES, insertOnly: true, aliases: ['Sipariş Durumu'] },
+      { field: 'order_source', label: 'Kanal', type: 'text', choices: ORDER_SOURCE_CHOICES, aliases: ['Sipariş Kaynağı', 'Kaynak'] },
+      { field: 'createdAt', label: 'Sipariş Tarihi', type: 'date', insertOnly: true, aliases: ['Tarih'] },
+      { field: 'admin_notes', label: 'Notlar', type: 'longtext', aliases: ['Not', 'Açıklama'] }
+    ]
+  }
+}
+
+/**
+ * Encoding of a file: a BOM decides; otherwise text that is not valid UTF-8
+ * is taken as Windows-1254 (Turkish Excel)
+ */
+export function detectEncoding(bytes: Uint8Array): ImportEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return 'utf-8'
+  } catch {
+    return 'windows-1254'
+  }
+}
+
+export function decodeFile(bytes: Uint8Array): { text: string; encoding: ImportEncoding } {
+  const encoding = detectEncoding(bytes)
+  return { text: new TextDecoder(encoding).decode(bytes), encoding }
+}
+
+/**
+ * The delimiter occurring most often (outside quotes) in the header line
+ */
+export function detectDelimiter(text: string): string {
+  const counts = new Map<string, number>(IMPORT_CONFIG.DELIMITERS.map(delimiter => [delimiter, 0]))
+  let quoted = false
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted
+    else if (!quoted && (char === '\n' || char === '\r')) break
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1)
+  }
+
+  let best: string = IMPORT_CONFIG.DELIMITERS[0]
+  for (const [delimiter, count] of counts) {
+    if (count > counts.get(best)!) best = delimiter
+  }
+  return best
+}
+
+/**
+ * Split CSV text into a header and rows. Quoted cells may contain delimiters,
+ * line breaks and doubled quotes; blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): ImportSheet {
+  const records: ImportSheet['rows'] = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      cells.push(cell)
+      records.push({ line: recordLine, cells })
+      cells = []
+      cell = ''
+      recordLine = ++line
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell)
+    records.push({ line: recordLine, cells })
+  }
+
+  const [header, ...rows] = records.filter(record => record.cells.some(value => value.trim() !== ''))
+  return { headers: header ? header.cells.map(value => value.trim()) : [], rows, delimiter }
+}
+
+/**
+ * Number in Turkish ("1.234,5") or plain ("1234.5") notation, optionally with
+ * ₺/TL; NaN when the cell is not a number. A single dot followed by exactly
+ * three digits is a thousands separator ("1.500" = 1500), as Turkish Excel
+ * writes it.
+ */
+export function parseImportNumber(raw: string): number {
+  let text = raw.trim().replace(/^₺|₺$|tl$/gi, '').replace(/\s/g, '')
+  const comma = text.lastIndexOf(',')
+  const dot = text.lastIndexOf('.')
+
+  if (comma >= 0 && dot >= 0) {
+    text = comma > dot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '')
+  } else if (comma >= 0) {
+    text = text.indexOf(',') !== comma ? text.replace(/,/g, '') : text.replace(',', '.')
+  } else if (dot >= 0 && (text.indexOf('.') !== dot || /^-?[1-9]\d{0,2}\.\d{3}$/.test(text))) {
+    text = text.replace(/\./g, '')
+  }
+
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : NaN
+}
+
+/**
+ * DD.MM.YYYY (also with / or -) or ISO date to YYYY-MM-DD; null when invalid
+ */
+export function parseImportDate(raw: string): string | null {
+  const text = raw.trim()
+  const local = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/)
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  const [year, month, day] = local
+    ? [Number(local[3]), Number(local[2]), Number(local[1])]
+    : iso ? [Number(iso[1]), Number(iso[2]), Number(iso[3])] : [NaN, NaN, NaN]
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+const TRUE_VALUES = ['evet', 'e', 'var', 'aktif', 'true', 'yes', '1', 'x']
+const FALSE_VALUES = ['hayir', 'h', 'yok', 'pasif', 'false', 'no', '0']
+
+export function parseImportBoolean(raw: string): boolean | null {
+  const text = normalizeText(raw)
+  if (TRUE_VALUES.includes(text)) return true
+  if (FALSE_VALUES.includes(text)) return false
+  return null
+}
+
+/**
+ * Mapping from header names: each field takes the first unused column whose
+ * header is its field name, label or one of its aliases
+ */
+export function suggestMapping(definition: ImportDefinition, headers: string[]): ImportMapping {
+  const normalized = headers.map(normalizeText)
+  const used = new Set<number>()
+  const mapping: ImportMapping = {}
+
+  for (const field of definition.fields) {
+    const names = [field.field, field.label, ...(field.aliases || [])].map(normalizeText)
+    const index = normalized.findIndex((header, i) => header !== '' && !used.has(i) && names.includes(header))
+    mapping[field.field] = index >= 0 ? index : null
+    if (index >= 0) used.add(index)
+  }
+
+  return mapping
+}
+
+function convertCell(field: ImportField, raw: string): { value: any; errors: string[] } {
+  const text = raw.trim()
+  const labelled = (errors: string[]) => errors.map(error => `${field.label}: ${error}`)
+
+  if (text === '') {
+    return { value: null, errors: field.required ? validationService.validateRequired(text, field.label).errors : [] }
+  }
+
+  switch (field.type) {
+    case 'number':
+    case 'integer': {
+      const value = parseImportNumber(text)
+      if (Number.isNaN(value)) return { value: null, errors: [`${field.label} must be a number`] }
+      if (field.type === 'integer' && !Number.isInteger(value)) return { value: null, errors: [`${field.label} must be a whole number`] }
+      return { value, errors: validationService.validatePositiveNumber(value, field.label).errors }
+    }
+    case 'boolean': {
+      const value = parseImportBoolean(text)
+      return value === null ? { value, errors: [`${field.label} must be yes or no`] } : { value, errors: [] }
+    }
+    case 'date': {
+      const value = parseImportDate(text)
+      return value === null ? { value, errors: [`${field.label} must be a date (DD.MM.YYYY)`] } : { value, errors: [] }
+    }
+    case 'email':
+      return { value: text, errors: labelled(validationService.validateEmail(text).errors) }
+    case 'phone':
+      return { value: text, errors: labelled(validationService.validatePhone(text).errors) }
+    case 'longtext':
+      return { value: text, errors: [] }
+    default: {
+      if (field.choices) {
+        const value = field.choices[normalizeText(text)]
+        return value ? { value, errors: [] } : { value: null, errors: [`${field.label}: unknown value "${text}"`] }
+      }
+      return { value: text, errors: labelled(validationService.validateLength(text, { maxLength: VALIDATION_RULES.TEXT.MAX_LENGTH }).errors) }
+    }
+  }
+}
+
+/**
+ * Convert and validate the mapped cells of every row
+ */
+export function readRows(definition: ImportDefinition, sheet: ImportSheet, mapping: ImportMapping): ParsedImportRow[] {
+  const fields = definition.fields.filter(field => mapping[field.field] !== null && mapping[field.field] !== undefined)
+  const missing = definition.fields.filter(field => field.required && !fields.includes(field))
+  if (missing.length > 0) {
+    throw new Error(`Required fields are not mapped: ${missing.map(field => field.label).join(', ')}`)
+  }
+
+  return sheet.rows.map(({ line, cells }) => {
+    const values: Row = {}
+    const errors: string[] = []
+
+    for (const field of fields) {
+      const converted = convertCell(field, cells[mapping[field.field]!] ?? '')
+      values[field.field] = converted.value
+      errors.push(...converted.errors)
+    }
+
+    return { line, values, errors }
+  })
+}
+
+const keyOf = (columns: string[], row: Row) => columns.map(column => normalizeKey(row[column])).join('\u0000')
+
+const isFilled = (value: unknown) => value !== null && value !== undefined && value !== ''
+
+function sameValue(current: unknown, value: unknown, isDate: boolean): boolean {
+  if (typeof value === 'number') return current !== null && current !== undefined && Math.abs(Number(current) - value) < 1e-9
+  if (typeof value === 'boolean') return current === value
+  if (isDate) return typeof current === 'string' && current.startsWith(String(value))
+  return String(current ?? '') === value
+}
+
+/**
+ * Decide per row whether it inserts, updates, matches or fails. `lookups`
+ * holds normalized name -> id per related table.
+ */
+export function planImport(
+  definition: ImportDefinition,
+  rows: ParsedImportRow[],
+  lookups: Record<string, Map<string, string>>,
+  existing: Row[]
+): ImportReport {
+  const indexes = definition.keys.map(columns => {
+    const index = new Map<string, Row>()
+    for (const row of existing) {
+      const key = keyOf(columns, row)
+      if (columns.every(column => isFilled(row[column])) && !index.has(key)) index.set(key, row)
+    }
+    return index
+  })
+  const insertOnly = new Set(definition.fields.filter(field => field.insertOnly).map(field => field.lookup?.into || field.field))
+  const dates = new Set(definition.fields.filter(field => field.type === 'date').map(field => field.field))
+  const seen = new Map<string, number>()
+
+  const results = rows.map((row): ImportRowResult => {
+    const errors = [...row.errors]
+    const values: Row = {}
+
+    for (const field of definition.fields) {
+      const value = row.values[field.field]
+      if (value === null || value === undefined) continue
+      if (!field.lookup) {
+        values[field.field] = value
+        continue
+      }
+      const id = lookups[field.lookup.table]?.get(normalizeKey(value))
+      if (id) values[field.lookup.into] = id
+      else errors.push(`${field.label} not found: ${value}`)
+    }
+
+    const filledKeys = definition.keys.map((columns, i) => ({ columns, i })).filter(({ columns }) => columns.every(column => isFilled(values[column])))
+    const key = filledKeys.length > 0
+      ? filledKeys[0].columns.map(column => `${column}: ${values[column]}`).join(', ')
+      : ''
+
+    for (const { columns, i } of filledKeys) {
+      const seenKey = `${i}:${keyOf(columns, values)}`
+      const firstLine = seen.get(seenKey)
+      if (firstLine !== undefined) errors.push(`Same ${columns.join(' + ')} as line ${firstLine}`)
+      else seen.set(seenKey, row.line)
+    }
+    if (filledKeys.length === 0 && errors.length === 0) {
+      errors.push(`Missing ${definition.keys.map(columns => columns.join(' + ')).join(' or ')}`)
+    }
+
+    if (errors.length > 0) {
+      return { line: row.line, action: 'error', key, id: null, values, previous: {}, errors }
+    }
+
+    const match = filledKeys
+      .map(({ columns, i }) => indexes[i].get(keyOf(columns, values)))
+      .find(Boolean)
+
+    if (!match) {
+      return { line: row.line, action: 'insert', key, id: null, values: { ...definition.defaults, ...values }, previous: {}, errors }
+    }
+
+    const changed: Row = {}
+    const previous: Row = {}
+    for (const [column, value] of Object.entries(values)) {
+      if (insertOnly.has(column) || sameValue(match[column], value, dates.has(column))) continue
+      changed[column] = value
+      previous[column] = match[column] ?? null
+    }
+
+    const action = Object.keys(changed).length > 0 ? 'update' : 'unchanged'
+    return { line: row.line, action, key, id: String(match.id), values: changed, previous, errors }
+  })
+
+  return {
+    target: definition.target,
+    rows: results,
+    inserts: results.filter(row => row.action === 'insert').length,
+    updates: results.filter(row => row.action === 'update').length,
+    unchanged: results.filter(row => row.action === 'unchanged').length,
+    errors: results.filter(row => row.action === 'error').length
+  }
+}
+
+export class ImportService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * What an import would do, without writing
+   */
+  public async dryRun(target: ImportTarget, sheet: ImportSheet, mapping: ImportMapping): Promise<ImportReport> {
+    const definition = IMPORT_DEFINITIONS[target]
+    const rows = readRows(definition, sheet, mapping)
+
+    const lookups: Record<string, Map<string, string>> = {}
+    for (const field of definition.fields) {
+      if (!field.lookup || mapping[field.field] === null || mapping[field.field] === undefined) continue
+      const records = await this.readTable(field.lookup.table, 'id, name')
+      const byName = new Map<string, string>()
+      for (const record of records) {
+        // The oldest record wins when names repeat
+        if (record.name && !byName.has(normalizeKey(record.name))) byName.set(normalizeKey(record.name), String(record.id))
+      }
+      lookups[field.lookup.table] = byName
+    }
+
+    return planImport(definition, rows, lookups, await this.readTable(definition.table, '*'))
+  }
+
+  /**
+   * Write the valid rows of a fresh dry run in one transaction. New materials
+   * get an opening stock movement and price changes are recorded in the
+   * material price history.
+   */
+  public async commit(target: ImportTarget, sheet: ImportSheet, mapping: ImportMapping, now: Date = new Date()): Promise<ImportCommitResult> {
+    const definition = IMPORT_DEFINITIONS[target]
+    const report = await this.dryRun(target, sheet, mapping)
+    const timestamp = now.toISOString()
+    const { created, updated } = definition.timestamps
+    const isMaterials = target === IMPORT_TARGETS.MATERIALS
+
+    const inserts = report.rows
+      .filter(row => row.action === 'insert')
+      .map(row => ({
+        [created]: timestamp,
+        [updated]: timestamp,
+        ...(isMaterials && row.values.unit_price_try !== undefined ? { price_date: timestamp.slice(0, 10) } : {}),
+        ...row.values
+      }))
+    const updates = report.rows.filter(row => row.action === 'update')
+
+    const transaction = new Transaction()
+    const insertedRows: Row[] = []
+
+    for (let i = 0; i < inserts.length; i += IMPORT_CONFIG.WRITE_CHUNK_SIZE) {
+      const chunk = inserts.slice(i, i + IMPORT_CONFIG.WRITE_CHUNK_SIZE)
+      transaction.add({
+        name: `insert ${chunk.length} rows into ${definition.table}`,
+        run: async () => {
+          const rows = unwrap<Row[]>(await this.client
+            .from(definition.table)
+            .insert(chunk)
+            .select('*')) || []
+          insertedRows.push(...rows)
+          return rows.map(row => row.id as string)
+        },
+        rollback: async (ids: string[]) => {
+          unwrap(await this.client
+            .from(definition.table)
+            .delete()
+            .in('id', ids))
+        }
+      })
+    }
+
+    for (const row of updates) {
+      const values = {
+        ...row.values,
+        ...(isMaterials && row.values.unit_price_try !== undefined ? { price_date: timestamp.slice(0, 10) } : {}),
+        [updated]: timestamp
+      }
+
+      transaction.add({
+        name: `update ${definition.table} ${row.key}`,
+        run: async () => {
+          // The columns as they are right before writing, timestamps included
+          const current = unwrap<Row>(await this.client
+            .from(definition.table)
+            .select('*')
+            .eq('id', row.id)
+            .single())
+          unwrap(await this.client
+            .from(definition.table)
+            .update(values)
+            .eq('id', row.id)
+            .select('id'))
+          return Object.fromEntries(Object.keys(values).map(column => [column, current[column] ?? null]))
+        },
+        rollback: async (before: Row) => {
+          unwrap(await this.client
+            .from(definition.table)
+            .update(before)
+            .eq('id', row.id)
+            .select('id'))
+        }
+      })
+    }
+
+    if (isMaterials) {
+      this.addMaterialSteps(transaction, insertedRows, updates, timestamp)
+    }
+
+    await transaction.commit()
+
+    return { inserted: inserts.length, updated: updates.length, unchanged: report.unchanged, skipped: report.errors }
+  }
+
+  private addMaterialSteps(transaction: Transaction, insertedRows: Row[], updates: ImportRowResult[], timestamp: string): void {
+    transaction.add(this.insertStep('record opening stock of imported materials', TABLE_NAMES.STOCK_MOVEMENTS, () => insertedRows
+      .filter(material => Number(material.stock_quantity) > 0)
+      .map(material => ({
+        raw_material_id: material.id,
+        movement_type: MOVEMENT_TYPES.IN,
+        quantity: Number(material.stock_quantity),
+        reason: 'Import opening stock',
+        created_at: timestamp
+      }))))
+
+    const priceChange = (materialId: string, oldPrice: unknown, newPrice: unknown): NewMaterialPriceChange => ({
+      raw_material_id: materialId,
+      supplier_id: null,
+      old_price: oldPrice === null || oldPrice === undefined ? null : Number(oldPrice),
+      new_price: Number(newPrice),
+      source: MATERIAL_PRICE_SOURCES.IMPORT,
+      reference_id: null,
+      changed_by: null,
+      changed_at: timestamp
+    })
+
+    transaction.add(this.insertStep('record imported material prices', TABLE_NAMES.MATERIAL_PRICE_HISTORY, () => [
+      ...insertedRows
+        .filter(material => material.unit_price_try !== null && material.unit_price_try !== undefined)
+        .map(material => priceChange(material.id, null, material.unit_price_try)),
+      ...updates
+        .filter(row => row.values.unit_price_try !== undefined)
+        .map(row => priceChange(row.id!, row.previous.unit_price_try, row.values.unit_price_try))
+    ]))
+  }
+
+  // Rows are built when the step runs, once earlier steps have created the ids they refer to
+  private insertStep(name: string, table: string, rows: () => Row[]): TransactionStep<string[]> {
+    return {
+      name,
+      run: async () => {
+        const pending = rows()
+        if (pending.length === 0) return []
+        const inserted = unwrap<Row[]>(await this.client
+          .from(table)
+          .insert(pending)
+          .select('id')) || []
+        return inserted.map(row => row.id as string)
+      },
+      rollback: async (ids: string[]) => {
+        if (ids.length === 0) return
+        unwrap(await this.client
+          .from(table)
+          .delete()
+          .in('id', ids))
+      }
+    }
+  }
+
+  /**
+   * Read a whole table page by page (PostgREST caps a response)
+   */
+  private async readTable(table: string, columns: string): Promise<Row[]> {
+    const rows: Row[] = []
+
+    for (let from = 0; ; from += IMPORT_CONFIG.PAGE_SIZE) {
+      const page = unwrap<Row[]>(await this.client
+        .from(table)
+        .select(columns)
+        .order('id', { ascending: true })
+        .range(from, from + IMPORT_CONFIG.PAGE_SIZE - 1)) || []
+
+      rows.push(...page)
+      if (page.length < IMPORT_CONFIG.PAGE_SIZE) break
+    }
+
+    return rows
+  }
+}
+
+let defaultService: ImportService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getImportService(): ImportService {
+  if (!defaultService) {
+    defaultService = new ImportService()
+  }
+  return defaultService
+}
+
+export default ImportService
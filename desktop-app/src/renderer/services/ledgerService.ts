@@ -0,0 +1,275 @@
+/**
+ * Ledger Service - Stock ledger reconciliation
+ *
+ * stock_movements is the ledger; raw_materials.stock_quantity is a cached
+ * balance. The balance of a material is IN + RETURN - OUT plus the signed
+ * ADJUSTMENT quantities. IN/OUT/RETURN rows are read by absolute value since
+ * older manual updates stored OUT quantities as negative numbers.
+ *
+ * A discrepancy is fixed either by rebuilding the cache from the ledger or by
+ * posting a corrective ADJUSTMENT so the ledger matches the cached quantity.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, unwrap } from './transaction'
+import { TABLE_NAMES, MOVEMENT_TYPES, LEDGER_CONFIG } from '../constants'
+import { LedgerDiscrepancy } from '../types'
+
+export interface LedgerMaterialInput {
+  id: string
+  name: string
+  stock_unit: string | null
+  stock_quantity: number | null
+}
+
+export interface LedgerMovementInput {
+  raw_material_id: string
+  movement_type: string
+  quantity: number
+}
+
+export interface LedgerFixResult {
+  fixed: string[]
+  movementIds: string[]
+}
+
+export class LedgerService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * Materials whose cached quantity disagrees with the ledger
+   */
+  public async check(): Promise<LedgerDiscrepancy[]> {
+    const [materials, movements] = await Promise.all([
+      this.client
+        .from(TABLE_NAMES.RAW_MATERIALS)
+        .select('id, name, stock_unit, stock_quantity')
+        .order('name', { ascending: true }),
+      this.getAllMovements()
+    ])
+
+    return reconcileLedger(unwrap<LedgerMaterialInput[]>(materials) || [], movements)
+  }
+
+  /**
+   * Move the cached quantity to the ledger balance
+   *
+   * The difference is applied with adjust_material_stock, so stock changes
+   * written since the check are kept.
+   */
+  public async rebuildCache(materialIds: string[]): Promise<LedgerFixResult> {
+    const discrepancies = await this.selectDiscrepancies(materialIds)
+    const transaction = new Transaction()
+
+    for (const line of discrepancies) {
+      const delta = -line.difference
+      transaction.add({
+        name: `adjust cached stock of material ${line.raw_material_id} by ${delta}`,
+        run: async () => {
+          unwrap(await this.client.rpc('adjust_material_stock', { p_material_id: line.raw_material_id, p_delta: delta }))
+        },
+        rollback: async () => {
+          unwrap(await this.client.rpc('adjust_material_stock', { p_material_id: line.raw_material_id, p_delta: -delta }))
+        }
+      })
+    }
+
+    await transaction.commit()
+    return { fixed: discrepancies.map(line => line.raw_material_id), movementIds: [] }
+  }
+
+  /**
+   * Post corrective ADJUSTMENT movements so the ledger matches the cached quantity
+   */
+  public async createCorrections(materialIds: string[]): Promise<LedgerFixResult> {
+    const discrepancies = await this.selectDiscrepancies(materialIds)
+    const transaction = new Transaction()
+
+    for (const line of discrepancies) {
+      transaction.add({
+        name: `insert corrective ADJUSTMENT for material ${line.raw_material_id}`,
+        run: async () => {
+          const rows = unwrap(await this.client
+            .from(TABLE_NAMES.STOCK_MOVEMENTS)
+            .insert({
+              raw_material_id: line.raw_material_id,
+              movement_type: MOVEMENT_TYPES.ADJUSTMENT,
+              quantity: line.difference,
+              reason: 'Ledger correction',
+              notes: `Cached ${line.cached_quantity}, ledger ${line.ledger_quantity}`
+            })
+            .select('id'))
+          return rows?.[0]?.id as string
+        },
+        rollback: async (movementId: string) => {
+          if (!movementId) return
+          unwrap(await this.client
+            .from(TABLE_NAMES.STOCK_MOVEMENTS)
+            .delete()
+            .eq('id', movementId))
+        }
+      })
+    }
+
+    const results = await transaction.commit()
+    return { fixed: discrepancies.map(line => line.raw_material_id), movementIds: results.filter(Boolean) }
+  }
+
+  /**
+   * Set a material's stock and record the change as a signed ADJUSTMENT,
+   * keeping cache and ledger in step
+   */
+  public async setQuantity(materialId: string, newQuantity: number, reason: string): Promise<void> {
+    const material = unwrap(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select('id, stock_quantity')
+      .eq('id', materialId)
+      .maybeSingle())
+
+    if (!material) {
+      throw new Error(`Raw material ${materialId} not found`)
+    }
+
+    const previous = Number(material.stock_quantity) || 0
+    const delta = newQuantity - previous
+    if (delta === 0) return
+
+    const transaction = new Transaction()
+
+    // Applying the difference keeps stock changes written since the read
+    transaction.add({
+      name: `adjust stock of material ${materialId} by ${delta}`,
+      run: async () => {
+        unwrap(await this.client.rpc('adjust_material_stock', { p_material_id: materialId, p_delta: delta }))
+      },
+      rollback: async () => {
+        unwrap(await this.client.rpc('adjust_material_stock', { p_material_id: materialId, p_delta: -delta }))
+      }
+    })
+
+    transaction.add({
+      name: `insert ADJUSTMENT movement for material ${materialId}`,
+      run: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.STOCK_MOVEMENTS)
+          .insert({
+            raw_material_id: materialId,
+            movement_type: MOVEMENT_TYPES.ADJUSTMENT,
+            quantity: delta,
+            reason
+          })
+          .select('id'))
+      }
+    })
+
+    await transaction.commit()
+  }
+
+  private async selectDiscrepancies(materialIds: string[]): Promise<LedgerDiscrepancy[]> {
+    const wanted = new Set(materialIds)
+    return (await this.check()).filter(line => wanted.has(line.raw_material_id))
+  }
+
+  /**
+   * Read the whole ledger page by page (PostgREST caps a response)
+   */
+  private async getAllMovements(): Promise<LedgerMovementInput[]> {
+    const movements: LedgerMovementInput[] = []
+
+    for (let from = 0; ; from += LEDGER_CONFIG.PAGE_SIZE) {
+      const page = unwrap<LedgerMovementInput[]>(await this.client
+        .from(TABLE_NAMES.STOCK_MOVEMENTS)
+        .select('raw_material_id, movement_type, quantity')
+        .order('id', { ascending: true })
+        .range(from, from + LEDGER_CONFIG.PAGE_SIZE - 1)) || []
+
+      movements.push(...page)
+      if (page.length < LEDGER_CONFIG.PAGE_SIZE) break
+    }
+
+    return movements
+  }
+}
+
+/**
+ * Signed effect of one movement on the balance
+ */
+export function movementDelta(movement: LedgerMovementInput): number {
+  const quantity = Number(movement.quantity) || 0
+
+  switch (movement.movement_type) {
+    case MOVEMENT_TYPES.IN:
+    case MOVEMENT_TYPES.RETURN:
+      return Math.abs(quantity)
+    case MOVEMENT_TYPES.OUT:
+      return -Math.abs(quantity)
+    case MOVEMENT_TYPES.ADJUSTMENT:
+      return quantity
+    default:
+      return 0
+  }
+}
+
+/**
+ * Ledger balance per material
+ */
+export function calculateLedgerBalances(movements: LedgerMovementInput[]): Map<string, { balance: number; count: number }> {
+  const balances = new Map<string, { balance: number; count: number }>()
+
+  for (const movement of movements) {
+    const entry = balances.get(movement.raw_material_id) || { balance: 0, count: 0 }
+    entry.balance += movementDelta(movement)
+    entry.count++
+    balances.set(movement.raw_material_id, entry)
+  }
+
+  return balances
+}
+
+/**
+ * Compare cached quantities with ledger balances
+ */
+export function reconcileLedger(materials: LedgerMaterialInput[], movements: LedgerMovementInput[]): LedgerDiscrepancy[] {
+  const balances = calculateLedgerBalances(movements)
+  const discrepancies: LedgerDiscrepancy[] = []
+
+  for (const material of materials) {
+    const cached = Number(material.stock_quantity) || 0
+    const ledger = balances.get(material.id) || { balance: 0, count: 0 }
+    // Round away floating point noise from summing fractional quantities
+    const ledgerQuantity = Math.round(ledger.balance * 1e6) / 1e6
+    const difference = Math.round((cached - ledgerQuantity) * 1e6) / 1e6
+
+    if (Math.abs(difference) <= LEDGER_CONFIG.TOLERANCE) continue
+
+    discrepancies.push({
+      raw_material_id: material.id,
+      name: material.name,
+      unit: material.stock_unit,
+      cached_quantity: cached,
+      ledger_quantity: ledgerQuantity,
+      difference,
+      movement_count: ledger.count
+    })
+  }
+
+  return discrepancies
+}
+
+let defaultService: LedgerService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getLedgerService(): LedgerService {
+  if (!defaultService) {
+    defaultService = new LedgerService()
+  }
+  return defaultService
+}
+
+export default LedgerService
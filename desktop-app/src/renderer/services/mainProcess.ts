@@ -0,0 +1,39 @@
+/**
+ * Main Process Bridge - Privileged operations over typed IPC
+ *
+ * In the desktop app, writes to orders, payments, customers, stock, prices and
+ * purchase orders, and some reports, run in the Electron main process
+ * (src/main/ipc), which owns the Supabase credentials. Outside Electron
+ * (browser preview) there is no bridge and the API falls back to running the
+ * services in the renderer.
+ */
+
+import type { MainProcessAPI, IpcResult } from '../../main/ipc/contract'
+
+export function getMainProcessApi(): MainProcessAPI | null {
+  if (typeof window === 'undefined' || !window.electronAPI?.orders) return null
+  return window.electronAPI
+}
+
+/**
+ * Return the data of an IPC result or throw its error, like unwrap() does for queries
+ */
+export function unwrapIpc<T>(result: IpcResult<T>): T {
+  if (!result.success) {
+    const error = new Error(result.error || 'Main process request failed')
+    ;(error as any).code = result.code
+    throw error
+  }
+  return result.data
+}
+
+/**
+ * For features that only exist in the desktop app (e.g. backups)
+ */
+export function requireMainProcessApi(feature: string): MainProcessAPI {
+  const main = getMainProcessApi()
+  if (!main) {
+    throw new Error(`${feature} is only available in the desktop app`)
+  }
+  return main
+}
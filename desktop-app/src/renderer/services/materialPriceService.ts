@@ -0,0 +1,231 @@
+/**
+ * Material Price Service - Raw material price history and its effect on products
+ *
+ * Every price change of a raw material, whether entered by hand or taken over
+ * from a goods receipt, is recorded in material_price_history together with
+ * the supplier it came from.
+ *
+ * The impact report reprices each product's recipe with the material at its
+ * old and new price and flags products whose margin at their current selling
+ * price drops below the margin their price rule aims for.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, TransactionStep, unwrap } from './transaction'
+import { CostingService, ProductUnitCost } from './costingService'
+import { PricingService, PricingProductInput, selectPriceRule, marginPercent, targetMarginPercent } from './pricingService'
+import { roundMoney } from './paymentService'
+import { TABLE_NAMES, MATERIAL_PRICE_SOURCES, MaterialPriceSource } from '../constants'
+import { MaterialPriceChange, PriceImpactLine, PriceImpactReport, PriceRule } from '../types'
+
+export interface NewMaterialPrice {
+  price: number
+  supplier_id?: string | null
+  source?: MaterialPriceSource
+  reference_id?: string | null
+}
+
+export type NewMaterialPriceChange = Omit<MaterialPriceChange, 'id'>
+
+export class MaterialPriceService {
+  private client: any
+  private costing: CostingService
+  private pricing: PricingService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.costing = new CostingService(this.client)
+    this.pricing = new PricingService(this.client)
+  }
+
+  /**
+   * Set a material's price and record the change; returns null when the
+   * price is unchanged
+   */
+  public async changePrice(
+    materialId: string,
+    change: NewMaterialPrice,
+    changedBy: string | null = null,
+    now: Date = new Date()
+  ): Promise<MaterialPriceChange | null> {
+    if (!Number.isFinite(change.price) || change.price < 0) {
+      throw new Error('Material price must be zero or more')
+    }
+
+    const material = await this.getMaterial(materialId)
+    const oldPrice = material.unit_price_try ?? null
+    if (oldPrice !== null && Math.abs(Number(oldPrice) - change.price) < 0.005) {
+      return null
+    }
+
+    const timestamp = now.toISOString()
+    const row: NewMaterialPriceChange = {
+      raw_material_id: materialId,
+      supplier_id: change.supplier_id ?? null,
+      old_price: oldPrice === null ? null : Number(oldPrice),
+      new_price: change.price,
+      source: change.source || MATERIAL_PRICE_SOURCES.MANUAL,
+      reference_id: change.reference_id ?? null,
+      changed_by: changedBy,
+      changed_at: timestamp
+    }
+
+    const transaction = new Transaction()
+      .add({
+        name: `set price of material ${materialId} to ${change.price}`,
+        run: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS)
+            .update({ unit_price_try: change.price, price_date: timestamp.slice(0, 10), updated_at: timestamp })
+            .eq('id', materialId)
+            .select('id'))
+        },
+        rollback: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS)
+            .update({ unit_price_try: material.unit_price_try, price_date: material.price_date ?? null })
+            .eq('id', materialId)
+            .select('id'))
+        }
+      })
+      .add(this.recordStep([row]))
+
+    const [, ids] = await transaction.commit()
+    return { id: ids[0], ...row }
+  }
+
+  /**
+   * Recorded prices of a material, oldest first
+   */
+  public async getHistory(materialId: string): Promise<MaterialPriceChange[]> {
+    return unwrap<MaterialPriceChange[]>(await this.client
+      .from(TABLE_NAMES.MATERIAL_PRICE_HISTORY)
+      .select('*')
+      .eq('raw_material_id', materialId)
+      .order('changed_at', { ascending: true })) || []
+  }
+
+  /**
+   * Cost and margin effect on every product using the material when its
+   * price moves from `oldPrice` to `newPrice`, with recipes as they are now
+   */
+  public async getImpact(materialId: string, oldPrice: number, newPrice: number): Promise<PriceImpactReport> {
+    const [products, rules] = await Promise.all([
+      this.client
+        .from(TABLE_NAMES.PRODUCTS)
+        .select('id, name, price, categoryId, isActive'),
+      this.pricing.getRules()
+    ])
+
+    const activeProducts = (unwrap<PricingProductInput[]>(products) || []).filter(p => p.isActive !== false)
+    const costs = await this.costing.getProductUnitCosts(activeProducts.map(p => p.id))
+
+    return buildPriceImpact(materialId, oldPrice, newPrice, activeProducts, costs, rules)
+  }
+
+  /**
+   * Step inserting history rows, for callers that change prices inside their
+   * own transaction
+   */
+  public recordStep(rows: NewMaterialPriceChange[]): TransactionStep<string[]> {
+    return {
+      name: `record ${rows.length} material price changes`,
+      run: async () => {
+        if (rows.length === 0) return []
+        const inserted = unwrap<any[]>(await this.client
+          .from(TABLE_NAMES.MATERIAL_PRICE_HISTORY)
+          .insert(rows)
+          .select('id')) || []
+        return inserted.map(row => row.id as string)
+      },
+      rollback: async (ids: string[]) => {
+        if (ids.length === 0) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.MATERIAL_PRICE_HISTORY)
+          .delete()
+          .in('id', ids))
+      }
+    }
+  }
+
+  private async getMaterial(materialId: string): Promise<Record<string, any>> {
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select('id, unit_price_try, price_date')
+      .eq('id', materialId))
+
+    if (!rows || rows.length === 0) {
+      throw new Error(`Raw material ${materialId} not found`)
+    }
+    return rows[0]
+  }
+}
+
+/**
+ * Impact lines of the products whose exploded recipe contains the material,
+ * largest cost increase first
+ */
+export function buildPriceImpact(
+  materialId: string,
+  oldPrice: number,
+  newPrice: number,
+  products: PricingProductInput[],
+  costs: Map<string, ProductUnitCost>,
+  rules: PriceRule[]
+): PriceImpactReport {
+  const lines: PriceImpactLine[] = []
+
+  for (const product of products) {
+    const cost = costs.get(product.id)
+    const material = cost?.materials.find(line => line.raw_material_id === materialId)
+    if (!cost || !material || material.quantity <= 0) continue
+
+    // Cost without the material at today's price, then with it at either price
+    const otherCost = cost.total_cost - material.cost
+    const oldCost = roundMoney(otherCost + material.quantity * oldPrice)
+    const newCost = roundMoney(otherCost + material.quantity * newPrice)
+    const currentPrice = Number(product.price) || 0
+    const newMargin = marginPercent(currentPrice, newCost)
+
+    const rule = selectPriceRule(rules, product, newCost)
+    const targetMargin = rule ? targetMarginPercent(rule, newCost) : null
+
+    lines.push({
+      product_id: product.id,
+      product_name: product.name,
+      material_quantity: material.quantity,
+      current_price: currentPrice,
+      old_cost: oldCost,
+      new_cost: newCost,
+      cost_increase: roundMoney(newCost - oldCost),
+      old_margin_percent: marginPercent(currentPrice, oldCost),
+      new_margin_percent: newMargin,
+      target_margin_percent: targetMargin,
+      below_target: targetMargin !== null && (newMargin === null || newMargin < targetMargin)
+    })
+  }
+
+  lines.sort((a, b) => b.cost_increase - a.cost_increase || a.product_name.localeCompare(b.product_name, 'tr'))
+
+  return {
+    raw_material_id: materialId,
+    old_price: oldPrice,
+    new_price: newPrice,
+    lines,
+    below_target_count: lines.filter(line => line.below_target).length
+  }
+}
+
+let defaultService: MaterialPriceService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getMaterialPriceService(): MaterialPriceService {
+  if (!defaultService) {
+    defaultService = new MaterialPriceService()
+  }
+  return defaultService
+}
+
+export default MaterialPriceService
@@ -0,0 +1,125 @@
+/**
+ * MRP Service - Material requirements of open orders vs. stock and lead times
+ *
+ * Orders past PENDING already had their materials issued by the status engine,
+ * so only pending demand is netted against on-hand stock. Pending demand is
+ * covered in deadline order; the first uncovered order sets the date by which
+ * the material must be ordered (deadline minus lead time).
+ */
+
+import { MRP_CONFIG, ORDER_STATUS, OrderStatusType } from '../constants'
+import { MrpLine, MrpOrderDemand } from '../types'
+
+export interface MrpOrderInput {
+  id: string
+  orderNumber: string
+  status: OrderStatusType
+  deadline_date?: string | null
+  requirements: Array<{ raw_material_id: string; quantity: number }>
+}
+
+export interface MrpMaterialInput {
+  id: string
+  name: string
+  stock_unit: string | null
+  stock_quantity: number | null
+  lead_time_days: number | null
+  supplier_id: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10)
+
+/**
+ * Build one MRP line per material required by the given open orders
+ */
+export function calculateMrp(
+  orders: MrpOrderInput[],
+  materials: MrpMaterialInput[],
+  now: Date = new Date()
+): MrpLine[] {
+  const demandsByMaterial = new Map<string, MrpOrderDemand[]>()
+
+  for (const order of orders) {
+    const perMaterial = new Map<string, number>()
+    for (const requirement of order.requirements) {
+      perMaterial.set(requirement.raw_material_id, (perMaterial.get(requirement.raw_material_id) || 0) + requirement.quantity)
+    }
+
+    for (const [materialId, quantity] of perMaterial) {
+      const demands = demandsByMaterial.get(materialId) || []
+      demands.push({
+        order_id: order.id,
+        orderNumber: order.orderNumber,
+        status: order.status,
+        deadline_date: order.deadline_date || null,
+        quantity,
+        issued: order.status !== ORDER_STATUS.PENDING,
+        covered: true,
+        order_by_date: null
+      })
+      demandsByMaterial.set(materialId, demands)
+    }
+  }
+
+  const lines: MrpLine[] = []
+
+  for (const material of materials) {
+    const demands = demandsByMaterial.get(material.id)
+    if (!demands) continue
+
+    const leadTime = material.lead_time_days ?? MRP_CONFIG.DEFAULT_LEAD_TIME_DAYS
+    const onHand = material.stock_quantity || 0
+    let remaining = Math.max(onHand, 0)
+    let pending = 0
+    let latestOrderDate: string | null = null
+
+    const open = demands
+      .filter(demand => !demand.issued)
+      .sort((a, b) => {
+        if (!a.deadline_date) return b.deadline_date ? 1 : 0
+        if (!b.deadline_date) return -1
+        return new Date(a.deadline_date).getTime() - new Date(b.deadline_date).getTime()
+      })
+
+    for (const demand of open) {
+      pending += demand.quantity
+      demand.covered = demand.quantity <= remaining
+      remaining = Math.max(remaining - demand.quantity, 0)
+
+      if (demand.deadline_date) {
+        demand.order_by_date = toDateString(new Date(new Date(demand.deadline_date).getTime() - leadTime * DAY_MS))
+      }
+
+      if (!demand.covered) {
+        const orderBy = demand.order_by_date || toDateString(now)
+        if (!latestOrderDate || orderBy < latestOrderDate) {
+          latestOrderDate = orderBy
+        }
+      }
+    }
+
+    const issued = demands.filter(demand => demand.issued).reduce((sum, demand) => sum + demand.quantity, 0)
+
+    lines.push({
+      raw_material_id: material.id,
+      name: material.name,
+      unit: material.stock_unit,
+      supplier_id: material.supplier_id,
+      lead_time_days: leadTime,
+      gross_requirement: pending + issued,
+      issued,
+      on_hand: onHand,
+      shortfall: Math.max(pending - Math.max(onHand, 0), 0),
+      latest_order_date: latestOrderDate,
+      demands: [...open, ...demands.filter(demand => demand.issued)]
+    })
+  }
+
+  // Shortfalls first, most urgent on top
+  return lines.sort((a, b) => {
+    if ((a.shortfall > 0) !== (b.shortfall > 0)) return a.shortfall > 0 ? -1 : 1
+    return (a.latest_order_date || '9999').localeCompare(b.latest_order_date || '9999') || a.name.localeCompare(b.name, 'tr')
+  })
+}
@@ -0,0 +1,482 @@
+/**
+ * Order Entry Service - Orders taken by phone, Instagram, WhatsApp or in store
+ *
+ * Desktop orders are written the way the web shop writes them: totalAmount is
+ * the sum of the lines before discount, the amount due is totalAmount less
+ * discount_amount (see paymentService). A new order is PENDING and reserves
+ * its recipe quantities like any other pending order.
+ *
+ * The customer record, order, lines and reservations are written in one
+ * transaction. Order numbers are unique in the database; a number taken by
+ * another order meanwhile is retried with the next one.
+ *
+ * Only pending orders can be edited; their lines and reservations are
+ * replaced in one transaction.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, unwrap } from './transaction'
+import { roundMoney } from './paymentService'
+import { RecipeService, MaterialRequirement } from './recipeService'
+import { StockReservationService, calculateAvailability } from './reservationService'
+import { CustomerService, normalizePhone, normalizeEmail } from './customerService'
+import { findShortages, MaterialShortage } from './bomService'
+import {
+  TABLE_NAMES,
+  ORDER_STATUS,
+  ORDER_SOURCES,
+  SHIPPING_METHODS,
+  ORDER_ENTRY_CONFIG,
+  OrderSource,
+  ShippingMethod
+} from '../constants'
+import { Order, OrderItem } from '../types'
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+export interface NewOrderItem {
+  productId: string
+  quantity: number
+  price: number // Unit price
+  personalization?: Record<string, any> | null
+}
+
+export type EnteredOrderItem = NewOrderItem & { id: string }
+
+export interface NewOrder {
+  customer_id?: string | null
+  customerName: string
+  customerEmail?: string | null
+  customerPhone?: string | null
+  shippingAddress?: string | null
+  shippingCity?: string | null
+  order_source: OrderSource
+  shipping_method: ShippingMethod
+  deadline_date?: string | null
+  discount_amount?: number
+  shipping_cost?: number
+  admin_notes?: string | null
+  items: NewOrderItem[]
+}
+
+// Order columns editable after entry, in any status
+export interface OrderDetailsUpdate {
+  admin_notes?: string | null
+  discount_amount?: number
+  shipping_cost?: number
+  customer_id?: string | null
+}
+
+export interface OrderTotals {
+  subtotal: number // Stored as totalAmount
+  discount_amount: number
+  amount_due: number
+}
+
+export class OrderEntryService {
+  private client: any
+  private recipes: RecipeService
+  private reservations: StockReservationService
+  private customers: CustomerService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.recipes = new RecipeService(this.client)
+    this.reservations = new StockReservationService(this.client)
+    this.customers = new CustomerService(this.client)
+  }
+
+  /**
+   * Create a PENDING order with its lines and reserve its materials
+   */
+  public async createOrder(order: NewOrder, now: Date = new Date()): Promise<Order> {
+    validateOrder(order)
+
+    const totals = calculateOrderTotals(order.items, order.discount_amount)
+    const timestamp = now.toISOString()
+    const fields: Record<string, any> = {
+      ...orderFields(order, totals),
+      status: ORDER_STATUS.PENDING,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    }
+
+    let orderId = ''
+    const transaction = new Transaction()
+    this.linkCustomer(transaction, order, fields)
+
+    const firstOrderStep = transaction.size
+    transaction
+      .add({
+        name: `create order for ${fields.customerName}`,
+        run: async () => {
+          const row = await this.insertOrder(fields, now)
+          orderId = row.id
+          return row
+        },
+        rollback: async (row: Order) => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.ORDERS)
+            .delete()
+            .eq('id', row.id))
+        }
+      })
+      .add({
+        name: `add ${order.items.length} lines to the order`,
+        run: async () => this.insertItems(orderId, order.items),
+        rollback: async (ids: string[]) => this.deleteItems(ids)
+      })
+      .add(this.reservations.reserveOrderStep(() => orderId, now))
+      .add(this.reservations.reconcileStep(now))
+
+    const results = await transaction.commit()
+    return results[firstOrderStep]
+  }
+
+  /**
+   * Replace a pending order's details and lines, reserving anew
+   */
+  public async updateOrder(orderId: string, order: NewOrder, now: Date = new Date()): Promise<Order> {
+    validateOrder(order)
+
+    const existing = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .select('*')
+      .eq('id', orderId)) || []
+    const previous = existing[0]
+    if (!previous) {
+      throw new Error(`Order ${orderId} not found`)
+    }
+    if (previous.status !== ORDER_STATUS.PENDING) {
+      throw new Error(`Only pending orders can be edited; order ${previous.orderNumber} is ${previous.status}`)
+    }
+
+    const [oldItems, oldReservations] = await Promise.all([
+      this.client.from(TABLE_NAMES.ORDER_ITEMS).select('*').eq('orderId', orderId),
+      this.client.from(TABLE_NAMES.STOCK_RESERVATIONS).select('*').eq('order_id', orderId)
+    ]).then(results => results.map(result => unwrap<any[]>(result) || []))
+
+    const totals = calculateOrderTotals(order.items, order.discount_amount)
+    const fields: Record<string, any> = { ...orderFields(order, totals), updatedAt: now.toISOString() }
+    const restore = Object.fromEntries(Object.keys(fields).map(key => [key, previous[key] ?? null]))
+
+    const transaction = new Transaction()
+    this.linkCustomer(transaction, order, fields)
+
+    const firstOrderStep = transaction.size
+    transaction
+      .add({
+        name: `update order ${previous.orderNumber}`,
+        run: async () => {
+          const rows = unwrap<any[]>(await this.client
+            .from(TABLE_NAMES.ORDERS)
+            .update(fields)
+            .eq('id', orderId)
+            .eq('status', ORDER_STATUS.PENDING)
+            .select('*')) || []
+          if (rows.length === 0) {
+            throw new Error(`Order ${previous.orderNumber} is no longer pending`)
+          }
+          return rows[0] as Order
+        },
+        rollback: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.ORDERS)
+            .update(restore)
+            .eq('id', orderId)
+            .select('id'))
+        }
+      })
+      .add({
+        name: `remove ${oldItems.length} old lines of order ${previous.orderNumber}`,
+        run: async () => this.deleteItems(oldItems.map(item => item.id)),
+        rollback: async () => {
+          if (oldItems.length === 0) return
+          unwrap(await this.client
+            .from(TABLE_NAMES.ORDER_ITEMS)
+            .insert(oldItems)
+            .select('id'))
+        }
+      })
+      .add({
+        name: `add ${order.items.length} lines to order ${previous.orderNumber}`,
+        run: async () => this.insertItems(orderId, order.items),
+        rollback: async (ids: string[]) => this.deleteItems(ids)
+      })
+      .add({
+        name: `drop reservations of order ${previous.orderNumber}`,
+        run: async () => {
+          if (oldReservations.length === 0) return
+          unwrap(await this.client
+            .from(TABLE_NAMES.STOCK_RESERVATIONS)
+            .delete()
+            .eq('order_id', orderId))
+        },
+        rollback: async () => {
+          if (oldReservations.length === 0) return
+          unwrap(await this.client
+            .from(TABLE_NAMES.STOCK_RESERVATIONS)
+            .insert(oldReservations)
+            .select('id'))
+        }
+      })
+      .add(this.reservations.reserveOrderStep(() => orderId, now))
+      .add(this.reservations.reconcileStep(now))
+
+    const results = await transaction.commit()
+    return results[firstOrderStep]
+  }
+
+  /**
+   * Change the notes, discount, shipping cost or customer link of an order
+   */
+  public async updateDetails(orderId: string, details: OrderDetailsUpdate, now: Date = new Date()): Promise<void> {
+    const fields: Record<string, any> = {}
+    if (details.admin_notes !== undefined) fields.admin_notes = details.admin_notes
+    if (details.customer_id !== undefined) fields.customer_id = details.customer_id || null
+
+    for (const field of ['discount_amount', 'shipping_cost'] as const) {
+      const value = details[field]
+      if (value === undefined) continue
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${field} must be zero or more`)
+      }
+      fields[field] = roundMoney(value)
+    }
+
+    if (Object.keys(fields).length === 0) return
+
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .update({ ...fields, updatedAt: now.toISOString() })
+      .eq('id', orderId)
+      .select('id')) || []
+    if (rows.length === 0) {
+      throw new Error(`Order ${orderId} not found`)
+    }
+  }
+
+  /**
+   * Order lines with their personalization, for editing
+   */
+  public async getOrderItems(orderId: string): Promise<EnteredOrderItem[]> {
+    const rows = unwrap<OrderItem[]>(await this.client
+      .from(TABLE_NAMES.ORDER_ITEMS)
+      .select('*')
+      .eq('orderId', orderId)) || []
+
+    return rows.map(row => ({
+      id: row.id,
+      productId: row.productId,
+      quantity: Number(row.quantity) || 0,
+      price: Number(row.price) || 0,
+      personalization: row.personalization ?? null
+    }))
+  }
+
+  /**
+   * Leaf materials the lines cannot be built from with the available stock;
+   * an order being edited may use what it has reserved itself
+   */
+  public async checkStock(items: NewOrderItem[], orderId?: string): Promise<MaterialShortage[]> {
+    const [materials, reservations] = await Promise.all([
+      this.client
+        .from(TABLE_NAMES.RAW_MATERIALS)
+        .select('id, name, stock_quantity, stock_unit'),
+      this.reservations.getActiveReservations()
+    ])
+
+    const requirements: MaterialRequirement[] = []
+    for (const item of items.filter(item => item.productId && item.quantity > 0)) {
+      requirements.push(...await this.recipes.getProductRequirements(item.productId, item.quantity))
+    }
+
+    return findShortages(requirements, calculateAvailability(
+      unwrap<any[]>(materials) || [],
+      reservations.filter(reservation => reservation.order_id !== orderId)
+    ))
+  }
+
+  /**
+   * Next free order number for the day, e.g. MDH-250314-007
+   */
+  public async nextOrderNumber(now: Date = new Date()): Promise<string> {
+    const prefix = orderNumberPrefix(now)
+    const rows = unwrap<Array<{ orderNumber: string }>>(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .select('orderNumber')
+      .gte('orderNumber', prefix)
+      .lt('orderNumber', `${prefix}~`)) || []
+
+    const used = rows
+      .map(row => Number(row.orderNumber.slice(prefix.length)))
+      .filter(sequence => Number.isInteger(sequence))
+
+    return formatOrderNumber(now, used.length > 0 ? Math.max(...used) + 1 : 1)
+  }
+
+  /**
+   * Insert the order under the next free number, taking the one after when
+   * another order claimed it between reading and inserting (the unique index
+   * on "orderNumber" rejects the insert)
+   */
+  private async insertOrder(fields: Record<string, any>, now: Date): Promise<Order> {
+    for (let attempt = 1; ; attempt++) {
+      const orderNumber = await this.nextOrderNumber(now)
+      const response = await this.client
+        .from(TABLE_NAMES.ORDERS)
+        .insert({ ...fields, orderNumber })
+        .select('*')
+
+      if (response.error?.code === UNIQUE_VIOLATION && attempt < ORDER_ENTRY_CONFIG.NUMBER_ATTEMPTS) continue
+      const rows = unwrap<any[]>(response) || []
+      return rows[0] as Order
+    }
+  }
+
+  /**
+   * Link the order to the customer record with the same phone or email,
+   * creating one when there is none, as a step of the order's transaction
+   */
+  private linkCustomer(transaction: Transaction, order: NewOrder, fields: Record<string, any>): void {
+    if (order.customer_id || !(normalizePhone(order.customerPhone) || normalizeEmail(order.customerEmail))) return
+
+    const step = this.customers.findOrCreateStep({
+      name: order.customerName,
+      phone: order.customerPhone,
+      email: order.customerEmail
+    })
+    transaction.add({
+      ...step,
+      run: async () => {
+        const result = await step.run()
+        fields.customer_id = result.customer.id
+        return result
+      }
+    })
+  }
+
+  private async insertItems(orderId: string, items: NewOrderItem[]): Promise<string[]> {
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.ORDER_ITEMS)
+      .insert(items.map(item => ({
+        orderId,
+        productId: item.productId,
+        quantity: item.quantity,
+        price: roundMoney(item.price),
+        personalization: item.personalization && Object.keys(item.personalization).length > 0 ? item.personalization : null
+      })))
+      .select('id')) || []
+    return rows.map(row => row.id as string)
+  }
+
+  private async deleteItems(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    unwrap(await this.client
+      .from(TABLE_NAMES.ORDER_ITEMS)
+      .delete()
+      .in('id', ids))
+  }
+}
+
+/**
+ * Order columns from the form
+ */
+function orderFields(order: NewOrder, totals: OrderTotals): Record<string, any> {
+  return {
+    customer_id: order.customer_id || null,
+    customerName: order.customerName.trim(),
+    customerEmail: order.customerEmail?.trim() || '',
+    customerPhone: order.customerPhone?.trim() || null,
+    shippingAddress: order.shippingAddress?.trim() || null,
+    shippingCity: order.shippingCity?.trim() || null,
+    order_source: order.order_source,
+    shipping_method: order.shipping_method,
+    deadline_date: order.deadline_date || null,
+    totalAmount: totals.subtotal,
+    discount_amount: totals.discount_amount,
+    shipping_cost: roundMoney(order.shipping_cost || 0),
+    admin_notes: order.admin_notes?.trim() || null
+  }
+}
+
+/**
+ * Whether a details update changes the order's cost breakdown
+ */
+export function affectsCosting(details: OrderDetailsUpdate): boolean {
+  return details.discount_amount !== undefined || details.shipping_cost !== undefined
+}
+
+export function calculateOrderTotals(items: Array<Pick<NewOrderItem, 'quantity' | 'price'>>, discount: number = 0): OrderTotals {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + (item.quantity || 0) * (item.price || 0), 0))
+  const discountAmount = roundMoney(Math.min(Math.max(discount || 0, 0), subtotal))
+
+  return {
+    subtotal,
+    discount_amount: discountAmount,
+    amount_due: roundMoney(subtotal - discountAmount)
+  }
+}
+
+export function validateOrder(order: NewOrder): void {
+  if (!order.customerName?.trim()) {
+    throw new Error('Customer name is required')
+  }
+  if (!Object.values(ORDER_SOURCES).includes(order.order_source)) {
+    throw new Error(`Unknown order source ${order.order_source}`)
+  }
+  if (!Object.values(SHIPPING_METHODS).includes(order.shipping_method)) {
+    throw new Error(`Unknown shipping method ${order.shipping_method}`)
+  }
+  if (order.items.length === 0) {
+    throw new Error('Order needs at least one product')
+  }
+
+  for (const item of order.items) {
+    if (!item.productId) {
+      throw new Error('Every order line needs a product')
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new Error('Quantities must be whole numbers above zero')
+    }
+    if (!Number.isFinite(item.price) || item.price < 0) {
+      throw new Error('Prices must be zero or more')
+    }
+  }
+
+  const { subtotal } = calculateOrderTotals(order.items)
+  const discount = order.discount_amount || 0
+  if (discount < 0 || discount > subtotal) {
+    throw new Error('Discount must be between zero and the order total')
+  }
+  if ((order.shipping_cost || 0) < 0) {
+    throw new Error('Shipping cost must be zero or more')
+  }
+  if (order.deadline_date && Number.isNaN(new Date(order.deadline_date).getTime())) {
+    throw new Error(`Invalid deadline ${order.deadline_date}`)
+  }
+}
+
+const orderNumberPrefix = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${ORDER_ENTRY_CONFIG.NUMBER_PREFIX}-${pad(date.getFullYear() % 100)}${pad(date.getMonth() + 1)}${pad(date.getDate())}-`
+}
+
+export function formatOrderNumber(date: Date, sequence: number): string {
+  return `${orderNumberPrefix(date)}${String(sequence).padStart(ORDER_ENTRY_CONFIG.NUMBER_SEQUENCE_DIGITS, '0')}`
+}
+
+let defaultService: OrderEntryService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getOrderEntryService(): OrderEntryService {
+  if (!defaultService) {
+    defaultService = new OrderEntryService()
+  }
+  return defaultService
+}
+
+export default OrderEntryService
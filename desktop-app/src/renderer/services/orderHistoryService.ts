@@ -0,0 +1,117 @@
+/**
+ * Order History Service - Audit trail of order status changes
+ *
+ * Every transition made by the order status engine writes one row to
+ * order_status_history inside the same transaction, together with the stock
+ * movements, reservations and payments it touched, so an undo can reverse
+ * exactly those.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { TransactionStep, unwrap } from './transaction'
+import { TABLE_NAMES } from '../constants'
+import { OrderStatusHistoryEntry } from '../types'
+
+export type NewOrderStatusHistoryEntry = Omit<OrderStatusHistoryEntry, 'id' | 'undone_at'>
+
+export class OrderHistoryService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * Status changes of an order, newest first
+   */
+  public async getHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    return unwrap<OrderStatusHistoryEntry[]>(await this.client
+      .from(TABLE_NAMES.ORDER_STATUS_HISTORY)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('changed_at', { ascending: false })) || []
+  }
+
+  /**
+   * Most recent change that has not been undone and is not itself an undo
+   */
+  public async getLastUndoable(orderId: string): Promise<OrderStatusHistoryEntry | null> {
+    const rows = unwrap<OrderStatusHistoryEntry[]>(await this.client
+      .from(TABLE_NAMES.ORDER_STATUS_HISTORY)
+      .select('*')
+      .eq('order_id', orderId)
+      .is('undone_at', null)
+      .is('undo_of', null)
+      .order('changed_at', { ascending: false })
+      .limit(1)) || []
+
+    return rows[0] || null
+  }
+
+  /**
+   * Step inserting a history entry; `build` runs when the step does, so it can
+   * read ids produced by earlier steps of the same transaction
+   */
+  public recordStep(build: () => NewOrderStatusHistoryEntry): TransactionStep<string> {
+    return {
+      name: 'record order status history',
+      run: async () => {
+        const entry = build()
+        const rows = unwrap(await this.client
+          .from(TABLE_NAMES.ORDER_STATUS_HISTORY)
+          .insert({ ...entry, undone_at: null })
+          .select('id'))
+        return rows?.[0]?.id as string
+      },
+      rollback: async (entryId: string) => {
+        if (!entryId) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDER_STATUS_HISTORY)
+          .delete()
+          .eq('id', entryId))
+      }
+    }
+  }
+
+  /**
+   * Step marking an entry as undone; fails if another undo got there first
+   */
+  public markUndoneStep(entryId: string, undoneAt: string): TransactionStep<void> {
+    return {
+      name: `mark history entry ${entryId} as undone`,
+      run: async () => {
+        const rows = unwrap(await this.client
+          .from(TABLE_NAMES.ORDER_STATUS_HISTORY)
+          .update({ undone_at: undoneAt })
+          .eq('id', entryId)
+          .is('undone_at', null)
+          .select('id')) || []
+
+        if (rows.length === 0) {
+          throw new Error(`History entry ${entryId} has already been undone`)
+        }
+      },
+      rollback: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDER_STATUS_HISTORY)
+          .update({ undone_at: null })
+          .eq('id', entryId)
+          .select('id'))
+      }
+    }
+  }
+}
+
+let defaultService: OrderHistoryService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getOrderHistoryService(): OrderHistoryService {
+  if (!defaultService) {
+    defaultService = new OrderHistoryService()
+  }
+  return defaultService
+}
+
+export default OrderHistoryService
@@ -0,0 +1,420 @@
+/**
+ * Order Status Engine - Atomic status changes with recipe-driven stock movements
+ *
+ * The order update, reservation changes, every stock movement, every cached
+ * stock quantity change and the status history entry run as one transaction:
+ * either all of them are written or all are undone. The reservation sync runs
+ * as its last step, so its failure undoes the change instead of being lost. The status, the movements
+ * and the stock changes are written by one database function
+ * (apply_order_status_change), so they commit together in Postgres, stock is
+ * changed by increments and a status another user changed meanwhile is not
+ * overwritten.
+ *
+ * Which transitions exist, what they require and which stock effects they have
+ * comes from the order workflow definition. Confirmation also freezes the
+ * order's cost snapshot.
+ *
+ * Undo reverses the latest recorded change: the order goes back to the
+ * previous status and the movements of that change are offset by opposite
+ * movements, so the ledger keeps both.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, TransactionError, TransactionStep, unwrap } from './transaction'
+import { RecipeService } from './recipeService'
+import { StockReservationService } from './reservationService'
+import { OrderHistoryService } from './orderHistoryService'
+import { PaymentService, PaymentRow } from './paymentService'
+import { CostingService } from './costingService'
+import { OrderPayment } from '../types'
+import { findTransition, getMissingFields, hasEffect, isValidTransition } from './orderWorkflow'
+import {
+  TABLE_NAMES,
+  MOVEMENT_TYPES,
+  RESERVATION_STATUS,
+  PAYMENT_KINDS,
+  OrderStatusType,
+  MovementType
+} from '../constants'
+
+export interface StockMovementDraft {
+  raw_material_id: string
+  movement_type: MovementType
+  quantity: number
+  reason: string
+  order_id: string
+}
+
+export interface StatusTransitionResult {
+  orderId: string
+  fromStatus: OrderStatusType
+  toStatus: OrderStatusType
+  movementIds: string[]
+  historyId: string
+}
+
+export interface TransitionOptions {
+  changedBy?: string | null
+  // Values for the fields the transition requires (e.g. trackingNumber)
+  fields?: Record<string, any>
+}
+
+interface WrittenIds {
+  movementIds: string[]
+  reservationIds: string[]
+  paymentIds: string[]
+}
+
+interface EngineOrder {
+  id: string
+  orderNumber: string
+  status: OrderStatusType
+  admin_notes?: string | null
+  updatedAt?: string
+  [field: string]: any
+}
+
+export class OrderStatusEngine {
+  private client: any
+  private recipes: RecipeService
+  private reservations: StockReservationService
+  private history: OrderHistoryService
+  private payments: PaymentService
+  private costing: CostingService
+
+  /**
+   * Pass a client to run against another PostgREST endpoint (e.g. a local stand-in)
+   */
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.recipes = new RecipeService(this.client)
+    this.reservations = new StockReservationService(this.client)
+    this.history = new OrderHistoryService(this.client)
+    this.payments = new PaymentService(this.client)
+    this.costing = new CostingService(this.client)
+  }
+
+  /**
+   * Validate order status transition
+   */
+  public static isValidTransition(currentStatus: OrderStatusType, newStatus: OrderStatusType): boolean {
+    return isValidTransition(currentStatus, newStatus)
+  }
+
+  /**
+   * Change order status; throws TransactionError naming the failed step
+   */
+  public async transition(
+    orderId: string,
+    newStatus: OrderStatusType,
+    adminNotes?: string,
+    options: TransitionOptions = {}
+  ): Promise<StatusTransitionResult> {
+    const order = await this.getOrder(orderId)
+    if (!order) {
+      throw new Error('Order not found')
+    }
+
+    if (!OrderStatusEngine.isValidTransition(order.status, newStatus)) {
+      throw new Error(`Invalid status transition from ${order.status} to ${newStatus}`)
+    }
+
+    const missing = getMissingFields(order, newStatus, options.fields)
+    if (missing.length > 0) {
+      throw new Error(`Order ${order.orderNumber} needs ${missing.map(m => m.field).join(', ')} before ${newStatus}`)
+    }
+
+    // Only the fields this transition asks for are written along with the status
+    const fields: Record<string, any> = {}
+    for (const { field } of findTransition(order.status, newStatus)?.requires || []) {
+      if (options.fields?.[field] !== undefined) {
+        fields[field] = options.fields[field]
+      }
+    }
+
+    const movements = await this.planMovements(order, newStatus)
+    const refunds = hasEffect(order.status, newStatus, 'REFUND_PAYMENTS')
+      ? await this.payments.planFullRefund(orderId, `Order ${order.orderNumber} refunded`)
+      : []
+    const itemCosts = hasEffect(order.status, newStatus, 'FREEZE_COSTS')
+      ? await this.costing.calculateItemCosts(orderId)
+      : null
+    const transaction = new Transaction()
+    const written: WrittenIds = { movementIds: [], reservationIds: [], paymentIds: [] }
+
+    transaction.add(this.statusChangeStep(order, newStatus, { ...fields, admin_notes: adminNotes || null }, movements, written))
+
+    // Pending orders hold reservations; confirming converts them, cancelling releases them
+    const reservationStatus = hasEffect(order.status, newStatus, 'CONVERT_RESERVATIONS')
+      ? RESERVATION_STATUS.CONVERTED
+      : hasEffect(order.status, newStatus, 'RELEASE_RESERVATIONS')
+        ? RESERVATION_STATUS.RELEASED
+        : null
+    if (reservationStatus) {
+      const closeStep = this.reservations.closeReservationsStep(orderId, reservationStatus)
+      transaction.add({
+        ...closeStep,
+        run: async () => {
+          written.reservationIds = await closeStep.run()
+          return written.reservationIds
+        }
+      })
+    }
+
+    this.addPaymentSteps(transaction, orderId, refunds, written)
+
+    if (itemCosts) {
+      transaction.add(this.costing.freezeStep(orderId, itemCosts))
+    }
+
+    const historyIndex = transaction.size
+    transaction.add(this.history.recordStep(() => ({
+      order_id: orderId,
+      from_status: order.status,
+      to_status: newStatus,
+      changed_by: options.changedBy ?? null,
+      changed_at: new Date().toISOString(),
+      note: adminNotes || null,
+      movement_ids: written.movementIds,
+      reservation_ids: written.reservationIds,
+      payment_ids: written.paymentIds,
+      undo_of: null
+    })))
+    transaction.add(this.reservations.reconcileStep())
+
+    const results = await transaction.commit()
+
+    return {
+      orderId,
+      fromStatus: order.status,
+      toStatus: newStatus,
+      movementIds: written.movementIds,
+      historyId: results[historyIndex]
+    }
+  }
+
+  /**
+   * Reverse the order's latest status change that has not been undone
+   *
+   * Validated against the stored state: the order must still be in the status
+   * that change produced, otherwise someone else has moved it on.
+   */
+  public async undoLastTransition(orderId: string, changedBy: string | null = null): Promise<StatusTransitionResult> {
+    const order = await this.getOrder(orderId)
+    if (!order) {
+      throw new Error('Order not found')
+    }
+
+    const entry = await this.history.getLastUndoable(orderId)
+    if (!entry) {
+      throw new Error(`Order ${order.orderNumber} has no status change to undo`)
+    }
+    if (order.status !== entry.to_status) {
+      throw new Error(`Order ${order.orderNumber} is ${order.status}, not ${entry.to_status}; the change cannot be undone`)
+    }
+
+    const movements = reverseMovements(await this.getMovements(entry.movement_ids || []), order.orderNumber)
+    // Opening balances only carried existing money into the ledger; they stay
+    const refunds = (await this.getPayments(entry.payment_ids || [])).filter(p => p.kind === PAYMENT_KINDS.REFUND)
+    const now = new Date().toISOString()
+    const transaction = new Transaction()
+    const written: WrittenIds = { movementIds: [], reservationIds: entry.reservation_ids || [], paymentIds: refunds.map(p => p.id) }
+
+    transaction.add(this.history.markUndoneStep(entry.id, now))
+    transaction.add(this.statusChangeStep(order, entry.from_status, {}, movements, written))
+
+    if (written.reservationIds.length > 0) {
+      transaction.add(this.reservations.reopenReservationsStep(written.reservationIds))
+    }
+
+    if (refunds.length > 0) {
+      transaction.add(this.payments.deleteStep(refunds))
+      transaction.add(this.payments.syncStep(orderId))
+    }
+
+    if (hasEffect(entry.from_status, entry.to_status, 'FREEZE_COSTS')) {
+      transaction.add(this.costing.unfreezeStep(orderId))
+    }
+
+    const historyIndex = transaction.size
+    transaction.add(this.history.recordStep(() => ({
+      order_id: orderId,
+      from_status: order.status,
+      to_status: entry.from_status,
+      changed_by: changedBy,
+      changed_at: now,
+      note: `Undo of ${entry.from_status} -> ${entry.to_status}`,
+      movement_ids: written.movementIds,
+      reservation_ids: written.reservationIds,
+      payment_ids: written.paymentIds,
+      undo_of: entry.id
+    })))
+    transaction.add(this.reservations.reconcileStep())
+
+    const results = await transaction.commit()
+
+    return {
+      orderId,
+      fromStatus: order.status,
+      toStatus: entry.from_status,
+      movementIds: written.movementIds,
+      historyId: results[historyIndex]
+    }
+  }
+
+  /**
+   * Build the stock movements a transition requires, without writing anything
+   */
+  public async planMovements(order: EngineOrder, newStatus: OrderStatusType): Promise<StockMovementDraft[]> {
+    let movementType: MovementType | null = null
+    let reasonSuffix = ''
+
+    if (hasEffect(order.status, newStatus, 'DEDUCT_STOCK')) {
+      movementType = MOVEMENT_TYPES.OUT
+    }
+
+    if (hasEffect(order.status, newStatus, 'RETURN_STOCK')) {
+      movementType = MOVEMENT_TYPES.RETURN
+      reasonSuffix = ` ${newStatus.toLowerCase()}`
+    }
+
+    if (!movementType) {
+      return []
+    }
+
+    const requirements = await this.recipes.getOrderRequirements(order.id)
+
+    return requirements.map(requirement => ({
+      raw_material_id: requirement.raw_material_id,
+      movement_type: movementType as MovementType,
+      quantity: requirement.quantity,
+      reason: `Order ${order.orderNumber}${reasonSuffix} - ${requirement.product_id}` +
+        (requirement.via?.length ? ` via ${requirement.via.join(' > ')}` : ''),
+      order_id: order.id
+    }))
+  }
+
+  /**
+   * Status change with its movements and cached stock changes, written by one
+   * database function in one database transaction; the rollback reverts them
+   * the same way. Inserted movement ids are collected into `written`.
+   */
+  private statusChangeStep(
+    order: EngineOrder,
+    newStatus: OrderStatusType,
+    fields: Record<string, any>,
+    movements: StockMovementDraft[],
+    written: WrittenIds
+  ): TransactionStep<string[]> {
+    const previousFields: Record<string, any> = { updatedAt: order.updatedAt ?? null }
+    for (const field of Object.keys(fields)) {
+      previousFields[field] = order[field] ?? null
+    }
+
+    return {
+      name: `update order ${order.orderNumber} status to ${newStatus}` +
+        (movements.length > 0 ? ` with ${movements.length} stock movements` : ''),
+      run: async () => {
+        written.movementIds = unwrap<string[]>(await this.client.rpc('apply_order_status_change', {
+          p_order_id: order.id,
+          p_from_status: order.status,
+          p_to_status: newStatus,
+          p_fields: fields,
+          p_movements: movements
+        })) || []
+        return written.movementIds
+      },
+      rollback: async (movementIds: string[]) => {
+        unwrap(await this.client.rpc('revert_order_status_change', {
+          p_order_id: order.id,
+          p_from_status: newStatus,
+          p_to_status: order.status,
+          p_fields: previousFields,
+          p_movement_ids: movementIds
+        }))
+      }
+    }
+  }
+
+  /**
+   * Queue ledger rows followed by the order's payment totals update
+   */
+  private addPaymentSteps(transaction: Transaction, orderId: string, rows: PaymentRow[], written: WrittenIds): void {
+    if (rows.length === 0) return
+
+    const insertStep = this.payments.insertStep(rows)
+    transaction.add({
+      ...insertStep,
+      run: async () => {
+        written.paymentIds = await insertStep.run()
+        return written.paymentIds
+      }
+    })
+    transaction.add(this.payments.syncStep(orderId))
+  }
+
+  private async getMovements(movementIds: string[]): Promise<StockMovementDraft[]> {
+    if (movementIds.length === 0) return []
+
+    return unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_MOVEMENTS)
+      .select('raw_material_id, movement_type, quantity, reason, order_id')
+      .in('id', movementIds)) || []
+  }
+
+  private async getPayments(paymentIds: string[]): Promise<OrderPayment[]> {
+    if (paymentIds.length === 0) return []
+
+    return unwrap(await this.client
+      .from(TABLE_NAMES.ORDER_PAYMENTS)
+      .select('*')
+      .in('id', paymentIds)) || []
+  }
+
+  private async getOrder(orderId: string): Promise<EngineOrder | null> {
+    const rows = unwrap(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .select('*')
+      .eq('id', orderId))
+
+    return rows?.[0] || null
+  }
+}
+
+/**
+ * Movements offsetting the given ones: OUT comes back as RETURN, IN/RETURN go
+ * out again and ADJUSTMENTs are negated
+ */
+export function reverseMovements(movements: StockMovementDraft[], orderNumber: string): StockMovementDraft[] {
+  return movements.map(movement => {
+    const quantity = Math.abs(Number(movement.quantity) || 0)
+    const movementType: MovementType =
+      movement.movement_type === MOVEMENT_TYPES.OUT ? MOVEMENT_TYPES.RETURN
+        : movement.movement_type === MOVEMENT_TYPES.ADJUSTMENT ? MOVEMENT_TYPES.ADJUSTMENT
+          : MOVEMENT_TYPES.OUT
+
+    return {
+      raw_material_id: movement.raw_material_id,
+      movement_type: movementType,
+      quantity: movementType === MOVEMENT_TYPES.ADJUSTMENT ? -Number(movement.quantity) : quantity,
+      reason: `Order ${orderNumber} undo - ${movement.reason}`,
+      order_id: movement.order_id
+    }
+  })
+}
+
+export { TransactionError }
+
+let defaultEngine: OrderStatusEngine | null = null
+
+/**
+ * Lazily created engine bound to the app's Supabase client
+ */
+export function getOrderStatusEngine(): OrderStatusEngine {
+  if (!defaultEngine) {
+    defaultEngine = new OrderStatusEngine()
+  }
+  return defaultEngine
+}
+
+export default OrderStatusEngine
@@ -0,0 +1,137 @@
+/**
+ * Order Workflow - Single definition of order states and transitions
+ *
+ * The status engine validates and applies transitions from this table, and
+ * the order views read labels, the allowed next states and the fields a
+ * transition needs from it, so they cannot drift apart.
+ */
+
+import { ORDER_STATUS, OrderStatusType } from '../constants'
+
+export type WorkflowEffect =
+  | 'DEDUCT_STOCK'
+  | 'RETURN_STOCK'
+  | 'CONVERT_RESERVATIONS'
+  | 'RELEASE_RESERVATIONS'
+  | 'REFUND_PAYMENTS'
+  | 'FREEZE_COSTS'
+
+export interface WorkflowState {
+  label: string
+  icon: string
+  badge: string
+  accent: string
+  // Gradient stops and border of the order card and table row
+  surface: string
+  border: string
+  // Offered among the quick filters of the order list
+  quickFilter?: boolean
+  final?: boolean
+}
+
+export interface WorkflowRequiredField {
+  field: string
+  label: string
+}
+
+export interface WorkflowTransition {
+  from: OrderStatusType
+  to: OrderStatusType
+  // The step offered as "next" in compact views
+  primary?: boolean
+  requires?: WorkflowRequiredField[]
+  effects?: WorkflowEffect[]
+}
+
+const TRACKING_NUMBER: WorkflowRequiredField = { field: 'trackingNumber', label: 'Kargo takip numarası' }
+
+// Declaration order is the display order
+export const ORDER_WORKFLOW_STATES: Record<OrderStatusType, WorkflowState> = {
+  PENDING: { label: 'Onay Sürecinde', icon: '⏳', badge: 'bg-yellow-100 text-yellow-800', accent: 'text-amber-600', surface: 'from-amber-50 to-orange-50', border: 'border-amber-200', quickFilter: true },
+  CONFIRMED: { label: 'Onaylandı', icon: '✅', badge: 'bg-blue-100 text-blue-800', accent: 'text-blue-600', surface: 'from-blue-50 to-cyan-50', border: 'border-blue-200', quickFilter: true },
+  PROCESSING: { label: 'İşleniyor', icon: '⚙️', badge: 'bg-blue-100 text-blue-800', accent: 'text-indigo-600', surface: 'from-indigo-50 to-purple-50', border: 'border-indigo-200', quickFilter: true },
+  READY_TO_SHIP: { label: 'Kargoya Hazır', icon: '📦', badge: 'bg-indigo-100 text-indigo-800', accent: 'text-emerald-600', surface: 'from-emerald-50 to-teal-50', border: 'border-emerald-200' },
+  SHIPPED: { label: 'Kargoda', icon: '🚚', badge: 'bg-purple-100 text-purple-800', accent: 'text-violet-600', surface: 'from-violet-50 to-purple-50', border: 'border-violet-200' },
+  DELIVERED: { label: 'Teslim Edildi', icon: '🎉', badge: 'bg-green-100 text-green-800', accent: 'text-green-600', surface: 'from-green-50 to-emerald-50', border: 'border-green-200', quickFilter: true, final: true },
+  CANCELLED: { label: 'İptal Edildi', icon: '❌', badge: 'bg-red-100 text-red-800', accent: 'text-red-600', surface: 'from-red-50 to-rose-50', border: 'border-red-200' },
+  REFUNDED: { label: 'İade Edildi', icon: '↩️', badge: 'bg-gray-100 text-gray-800', accent: 'text-gray-600', surface: 'from-gray-50 to-slate-50', border: 'border-gray-200', final: true }
+}
+
+export const ORDER_WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  { from: ORDER_STATUS.PENDING, to: ORDER_STATUS.CONFIRMED, primary: true, effects: ['CONVERT_RESERVATIONS', 'DEDUCT_STOCK', 'FREEZE_COSTS'] },
+  { from: ORDER_STATUS.PENDING, to: ORDER_STATUS.CANCELLED, effects: ['RELEASE_RESERVATIONS'] },
+  { from: ORDER_STATUS.CONFIRMED, to: ORDER_STATUS.PROCESSING, primary: true },
+  { from: ORDER_STATUS.CONFIRMED, to: ORDER_STATUS.CANCELLED, effects: ['RETURN_STOCK'] },
+  { from: ORDER_STATUS.PROCESSING, to: ORDER_STATUS.READY_TO_SHIP, primary: true },
+  { from: ORDER_STATUS.PROCESSING, to: ORDER_STATUS.SHIPPED, requires: [TRACKING_NUMBER] },
+  // Materials are consumed once production starts, so later cancellations return nothing
+  { from: ORDER_STATUS.PROCESSING, to: ORDER_STATUS.CANCELLED },
+  { from: ORDER_STATUS.READY_TO_SHIP, to: ORDER_STATUS.SHIPPED, primary: true, requires: [TRACKING_NUMBER] },
+  { from: ORDER_STATUS.READY_TO_SHIP, to: ORDER_STATUS.CANCELLED },
+  { from: ORDER_STATUS.SHIPPED, to: ORDER_STATUS.DELIVERED, primary: true },
+  { from: ORDER_STATUS.CANCELLED, to: ORDER_STATUS.REFUNDED, effects: ['REFUND_PAYMENTS'] }
+]
+
+export const ORDER_STATUSES = Object.keys(ORDER_WORKFLOW_STATES) as OrderStatusType[]
+
+export function findTransition(from: OrderStatusType, to: OrderStatusType): WorkflowTransition | null {
+  return ORDER_WORKFLOW_TRANSITIONS.find(t => t.from === from && t.to === to) || null
+}
+
+export function isValidTransition(from: OrderStatusType, to: OrderStatusType): boolean {
+  return findTransition(from, to) !== null
+}
+
+/**
+ * Transitions leaving a status, in display order of their target
+ */
+export function getAllowedTransitions(from: string): WorkflowTransition[] {
+  return ORDER_WORKFLOW_TRANSITIONS
+    .filter(t => t.from === from)
+    .sort((a, b) => ORDER_STATUSES.indexOf(a.to) - ORDER_STATUSES.indexOf(b.to))
+}
+
+export function getNextStatus(from: string): OrderStatusType | null {
+  return ORDER_WORKFLOW_TRANSITIONS.find(t => t.from === from && t.primary)?.to || null
+}
+
+/**
+ * Required fields of a transition the order does not have yet
+ */
+export function getMissingFields(
+  order: Record<string, any>,
+  to: OrderStatusType,
+  values: Record<string, any> = {}
+): WorkflowRequiredField[] {
+  const transition = findTransition(order.status, to)
+  return (transition?.requires || []).filter(({ field }) => {
+    const value = values[field] ?? order[field]
+    return value === null || value === undefined || String(value).trim() === ''
+  })
+}
+
+export function hasEffect(from: OrderStatusType, to: OrderStatusType, effect: WorkflowEffect): boolean {
+  return findTransition(from, to)?.effects?.includes(effect) || false
+}
+
+// Shown for statuses the workflow does not know, e.g. rows written by older versions
+const UNKNOWN_STATE: WorkflowState = {
+  label: '',
+  icon: '📋',
+  badge: 'bg-gray-100 text-gray-800',
+  accent: 'text-gray-600',
+  surface: 'from-gray-50 to-slate-50',
+  border: 'border-gray-200'
+}
+
+export function getWorkflowState(status: string): WorkflowState {
+  return ORDER_WORKFLOW_STATES[status as OrderStatusType] || { ...UNKNOWN_STATE, label: status }
+}
+
+export function getStatusLabel(status: string): string {
+  return getWorkflowState(status).label
+}
+
+export function getStatusBadge(status: string): string {
+  return getWorkflowState(status).badge
+}
@@ -0,0 +1,421 @@
+/**
+ * Payment Service - Per-order payments ledger and receivables aging
+ *
+ * order_payments holds every payment and refund of an order. The order's
+ * amount_received, remaining_payment, payment_received_date and payment_status
+ * are derived from it and rewritten in the same transaction as each change.
+ *
+ * The amount due is totalAmount less discount_amount. Orders paid before the
+ * ledger existed only have amount_received; the first ledger change carries it
+ * over as an opening payment so it is not lost.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, TransactionStep, unwrap } from './transaction'
+import {
+  TABLE_NAMES,
+  ORDER_STATUS,
+  PAYMENT_STATUS,
+  PAYMENT_KINDS,
+  PAYMENT_METHODS,
+  PAYMENT_CONFIG,
+  RECEIVABLES_AGING_BUCKETS,
+  PaymentMethod
+} from '../constants'
+import { OrderPayment, PaymentSummary, ReceivablesAging, ReceivableLine } from '../types'
+
+export interface PaymentOrderInput {
+  id: string
+  orderNumber?: string
+  customerName?: string
+  status?: string
+  totalAmount: number | null
+  discount_amount?: number | null
+  amount_received?: number | null
+  payment_received_date?: string | null
+  createdAt?: string
+}
+
+export type PaymentRow = Pick<OrderPayment, 'order_id' | 'kind' | 'amount' | 'method' | 'paid_at'> & { notes?: string | null }
+
+export interface NewPayment {
+  amount: number
+  method: PaymentMethod
+  paid_at?: string
+  notes?: string
+}
+
+// Orders that no longer owe anything
+const CLOSED_STATUSES: string[] = [ORDER_STATUS.CANCELLED, ORDER_STATUS.REFUNDED]
+
+export class PaymentService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * Payments and refunds of an order, oldest first
+   */
+  public async getPayments(orderId: string): Promise<OrderPayment[]> {
+    return unwrap<OrderPayment[]>(await this.client
+      .from(TABLE_NAMES.ORDER_PAYMENTS)
+      .select('*')
+      .eq('order_id', orderId)
+      .order('paid_at', { ascending: true })) || []
+  }
+
+  public async recordPayment(orderId: string, payment: NewPayment, now: Date = new Date()): Promise<PaymentSummary> {
+    return this.record(orderId, PAYMENT_KINDS.PAYMENT, payment, now)
+  }
+
+  /**
+   * Pay money back; cannot exceed what has been received
+   */
+  public async recordRefund(orderId: string, refund: NewPayment, now: Date = new Date()): Promise<PaymentSummary> {
+    return this.record(orderId, PAYMENT_KINDS.REFUND, refund, now)
+  }
+
+  public async deletePayment(paymentId: string): Promise<PaymentSummary> {
+    const payment = unwrap(await this.client
+      .from(TABLE_NAMES.ORDER_PAYMENTS)
+      .select('*')
+      .eq('id', paymentId)
+      .maybeSingle())
+
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`)
+    }
+
+    const transaction = new Transaction()
+      .add(this.deleteStep([payment]))
+      .add(this.syncStep(payment.order_id))
+
+    const results = await transaction.commit()
+    return results[1]
+  }
+
+  /**
+   * Rows refunding everything received, empty when nothing was received
+   * (used when an order moves to REFUNDED)
+   */
+  public async planFullRefund(orderId: string, reason: string, now: Date = new Date()): Promise<PaymentRow[]> {
+    const order = await this.getOrder(orderId)
+    const payments = await this.getPayments(orderId)
+    const summary = summarizePayments(order, payments)
+    const net = roundMoney(summary.received - summary.refunded)
+    if (net <= 0) return []
+
+    return [
+      ...openingRows(order, payments),
+      {
+        order_id: orderId,
+        kind: PAYMENT_KINDS.REFUND,
+        amount: net,
+        method: (payments.at(-1)?.method as PaymentMethod) || PAYMENT_METHODS.OTHER,
+        paid_at: now.toISOString(),
+        notes: reason
+      }
+    ]
+  }
+
+  /**
+   * Step inserting ledger rows; rolled back by deleting them
+   */
+  public insertStep(rows: PaymentRow[]): TransactionStep<string[]> {
+    return {
+      name: `insert ${rows.length} payment rows`,
+      run: async () => {
+        const inserted = unwrap(await this.client
+          .from(TABLE_NAMES.ORDER_PAYMENTS)
+          .insert(rows)
+          .select('id')) || []
+        return inserted.map((row: any) => row.id as string)
+      },
+      rollback: async (ids: string[]) => {
+        if (ids.length === 0) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDER_PAYMENTS)
+          .delete()
+          .in('id', ids))
+      }
+    }
+  }
+
+  /**
+   * Step deleting ledger rows; rolled back by inserting them again
+   */
+  public deleteStep(rows: OrderPayment[]): TransactionStep<void> {
+    return {
+      name: `delete ${rows.length} payment rows`,
+      run: async () => {
+        if (rows.length === 0) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDER_PAYMENTS)
+          .delete()
+          .in('id', rows.map(row => row.id)))
+      },
+      rollback: async () => {
+        if (rows.length === 0) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDER_PAYMENTS)
+          .insert(rows)
+          .select('id'))
+      }
+    }
+  }
+
+  /**
+   * Step rewriting the order's payment fields from the ledger
+   */
+  public syncStep(orderId: string): TransactionStep<PaymentSummary> {
+    let previous: Record<string, any> | null = null
+
+    return {
+      name: `update payment totals of order ${orderId}`,
+      run: async () => {
+        const order = await this.getOrder(orderId)
+        previous = {
+          amount_received: order.amount_received ?? null,
+          remaining_payment: order.remaining_payment ?? null,
+          payment_received_date: order.payment_received_date ?? null,
+          payment_status: order.payment_status ?? null
+        }
+
+        // The ledger is authoritative from here on, even once it is empty again
+        const ledgerOnly = { ...order, amount_received: null, payment_received_date: null }
+        const summary = summarizePayments(ledgerOnly, await this.getPayments(orderId))
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDERS)
+          .update({
+            amount_received: roundMoney(summary.received - summary.refunded),
+            remaining_payment: summary.remaining,
+            payment_received_date: summary.last_paid_at,
+            payment_status: summary.status,
+            updatedAt: new Date().toISOString()
+          })
+          .eq('id', orderId)
+          .select('id'))
+        return summary
+      },
+      rollback: async () => {
+        if (!previous) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.ORDERS)
+          .update(previous)
+          .eq('id', orderId)
+          .select('id'))
+      }
+    }
+  }
+
+  /**
+   * Outstanding balances of open orders grouped by age
+   */
+  public async getReceivablesAging(now: Date = new Date()): Promise<ReceivablesAging> {
+    const [orders, payments] = await Promise.all([
+      this.selectAll<PaymentOrderInput>(
+        TABLE_NAMES.ORDERS,
+        'id, orderNumber, customerName, status, totalAmount, discount_amount, amount_received, createdAt'
+      ),
+      this.selectAll<OrderPayment>(TABLE_NAMES.ORDER_PAYMENTS, '*')
+    ])
+
+    return calculateReceivablesAging(orders, payments, now)
+  }
+
+  /**
+   * Read a whole table page by page (PostgREST caps a response)
+   */
+  private async selectAll<T>(table: string, columns: string): Promise<T[]> {
+    const rows: T[] = []
+
+    for (let from = 0; ; from += PAYMENT_CONFIG.PAGE_SIZE) {
+      const page = unwrap<T[]>(await this.client
+        .from(table)
+        .select(columns)
+        .order('id', { ascending: true })
+        .range(from, from + PAYMENT_CONFIG.PAGE_SIZE - 1)) || []
+
+      rows.push(...page)
+      if (page.length < PAYMENT_CONFIG.PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  private async record(orderId: string, kind: OrderPayment['kind'], payment: NewPayment, now: Date): Promise<PaymentSummary> {
+    const amount = roundMoney(Number(payment.amount))
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Payment amount must be greater than zero')
+    }
+
+    const order = await this.getOrder(orderId)
+    const payments = await this.getPayments(orderId)
+
+    if (kind === PAYMENT_KINDS.REFUND) {
+      const summary = summarizePayments(order, payments)
+      const refundable = roundMoney(summary.received - summary.refunded)
+      if (amount > refundable) {
+        throw new Error(`Refund of ${amount} exceeds the ${refundable} received for order ${order.orderNumber || orderId}`)
+      }
+    }
+
+    const rows: PaymentRow[] = [
+      ...openingRows(order, payments),
+      {
+        order_id: orderId,
+        kind,
+        amount,
+        method: payment.method,
+        paid_at: payment.paid_at || now.toISOString(),
+        notes: payment.notes || null
+      }
+    ]
+
+    const transaction = new Transaction()
+      .add(this.insertStep(rows))
+      .add(this.syncStep(orderId))
+
+    const results = await transaction.commit()
+    return results[1]
+  }
+
+  private async getOrder(orderId: string): Promise<PaymentOrderInput & Record<string, any>> {
+    const order = unwrap(await this.client
+      .from(TABLE_NAMES.ORDERS)
+      .select('*')
+      .eq('id', orderId)
+      .maybeSingle())
+
+    if (!order) {
+      throw new Error('Order not found')
+    }
+    return order
+  }
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Opening payment carrying over an amount_received recorded before the ledger
+ */
+export function openingRows(order: PaymentOrderInput, payments: Array<Pick<OrderPayment, 'id'>>): PaymentRow[] {
+  const legacy = Number(order.amount_received) || 0
+  if (payments.length > 0 || legacy <= 0) return []
+
+  return [{
+    order_id: order.id,
+    kind: PAYMENT_KINDS.PAYMENT,
+    amount: roundMoney(legacy),
+    method: PAYMENT_METHODS.OTHER,
+    paid_at: order.payment_received_date || order.createdAt || new Date().toISOString(),
+    notes: 'Opening balance'
+  }]
+}
+
+/**
+ * Totals and payment status of an order from its ledger rows
+ */
+export function summarizePayments(
+  order: PaymentOrderInput,
+  payments: Array<Pick<OrderPayment, 'kind' | 'amount' | 'paid_at'>>
+): PaymentSummary {
+  const amountDue = roundMoney(Math.max(0, (Number(order.totalAmount) || 0) - (Number(order.discount_amount) || 0)))
+
+  let received = 0
+  let refunded = 0
+  let lastPaidAt: string | null = null
+
+  if (payments.length === 0) {
+    received = Number(order.amount_received) || 0
+    lastPaidAt = order.payment_received_date || null
+  }
+
+  for (const payment of payments) {
+    const amount = Math.abs(Number(payment.amount) || 0)
+    if (payment.kind === PAYMENT_KINDS.REFUND) {
+      refunded += amount
+    } else {
+      received += amount
+      if (!lastPaidAt || payment.paid_at > lastPaidAt) lastPaidAt = payment.paid_at
+    }
+  }
+
+  received = roundMoney(received)
+  refunded = roundMoney(refunded)
+  const net = roundMoney(received - refunded)
+  const remaining = roundMoney(Math.max(0, amountDue - net))
+
+  const status = refunded > 0 && net <= 0
+    ? PAYMENT_STATUS.REFUNDED
+    : net > 0 && remaining === 0
+      ? PAYMENT_STATUS.PAID
+      : PAYMENT_STATUS.PENDING
+
+  return { amount_due: amountDue, received, refunded, remaining, status, last_paid_at: lastPaidAt }
+}
+
+/**
+ * Group the outstanding balance of open orders into aging buckets
+ */
+export function calculateReceivablesAging(
+  orders: PaymentOrderInput[],
+  payments: Array<Pick<OrderPayment, 'order_id' | 'kind' | 'amount' | 'paid_at'>>,
+  now: Date
+): ReceivablesAging {
+  const byOrder = new Map<string, typeof payments>()
+  for (const payment of payments) {
+    byOrder.set(payment.order_id, [...(byOrder.get(payment.order_id) || []), payment])
+  }
+
+  const buckets = RECEIVABLES_AGING_BUCKETS.map(bucket => ({ key: bucket.key, label: bucket.label, amount: 0, count: 0 }))
+  const lines: ReceivableLine[] = []
+
+  for (const order of orders) {
+    if (order.status && CLOSED_STATUSES.includes(order.status)) continue
+
+    const { remaining } = summarizePayments(order, byOrder.get(order.id) || [])
+    if (remaining <= 0) continue
+
+    const placedAt = order.createdAt ? new Date(order.createdAt) : now
+    const days = Math.max(0, Math.floor((now.getTime() - placedAt.getTime()) / (24 * 60 * 60 * 1000)))
+    const index = RECEIVABLES_AGING_BUCKETS.findIndex(bucket => days <= bucket.maxDays)
+
+    buckets[index].amount = roundMoney(buckets[index].amount + remaining)
+    buckets[index].count++
+    lines.push({
+      order_id: order.id,
+      orderNumber: order.orderNumber || order.id,
+      customerName: order.customerName || '',
+      outstanding: remaining,
+      days_outstanding: days,
+      bucket: buckets[index].key
+    })
+  }
+
+  lines.sort((a, b) => b.days_outstanding - a.days_outstanding)
+
+  return {
+    buckets,
+    lines,
+    total: roundMoney(lines.reduce((sum, line) => sum + line.outstanding, 0))
+  }
+}
+
+let defaultService: PaymentService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getPaymentService(): PaymentService {
+  if (!defaultService) {
+    defaultService = new PaymentService()
+  }
+  return defaultService
+}
+
+export default PaymentService
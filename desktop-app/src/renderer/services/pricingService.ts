@@ -0,0 +1,349 @@
+/**
+ * Pricing Service - Product prices suggested by price rules
+ *
+ * Active rules are evaluated against each product's recipe cost (materials at
+ * current prices plus labor). When several rules match a product the most
+ * specific one wins: product, then category, then general rules; among equals
+ * the most recently created.
+ *
+ * Accepted suggestions are applied in one transaction, each price change
+ * recorded in product_price_history.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, TransactionStep, unwrap } from './transaction'
+import { CostingService, ProductUnitCost } from './costingService'
+import { roundMoney } from './paymentService'
+import { TABLE_NAMES, PRICE_RULE_TYPES, PRICING_CONFIG } from '../constants'
+import { PriceProposal, PriceRule, ProductPriceChange } from '../types'
+
+export interface PricingProductInput {
+  id: string
+  name: string
+  price: number | null
+  categoryId?: string | null
+  isActive?: boolean | null
+}
+
+export type NewPriceRule = Omit<PriceRule, 'id' | 'created_at' | 'updated_at'>
+
+// What applying a proposal needs of it
+export type AcceptedPriceProposal = Pick<
+  PriceProposal,
+  'product_id' | 'product_name' | 'recipe_cost' | 'current_price' | 'suggested_price' | 'rule_id'
+>
+
+export interface PriceApplyResult {
+  applied: number
+  historyIds: string[]
+}
+
+export class PricingService {
+  private client: any
+  private costing: CostingService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.costing = new CostingService(this.client)
+  }
+
+  /**
+   * All rules, older per-product rows included, newest first
+   */
+  public async getRules(): Promise<PriceRule[]> {
+    const rows = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.PRICE_RULES)
+      .select('*')
+      .order('created_at', { ascending: false })) || []
+
+    return rows.map(normalizePriceRule)
+  }
+
+  public async saveRule(rule: NewPriceRule, ruleId?: string): Promise<PriceRule> {
+    validatePriceRule(rule)
+
+    const query = ruleId
+      ? this.client.from(TABLE_NAMES.PRICE_RULES).update({ ...rule, updated_at: new Date().toISOString() }).eq('id', ruleId)
+      : this.client.from(TABLE_NAMES.PRICE_RULES).insert(rule)
+
+    const rows = unwrap<any[]>(await query.select('*')) || []
+    if (!rows[0]) {
+      throw new Error(`Price rule ${ruleId} not found`)
+    }
+    return normalizePriceRule(rows[0])
+  }
+
+  public async deleteRule(ruleId: string): Promise<void> {
+    unwrap(await this.client
+      .from(TABLE_NAMES.PRICE_RULES)
+      .delete()
+      .eq('id', ruleId))
+  }
+
+  /**
+   * Suggested prices of every active product a rule applies to, where the
+   * suggestion differs from the current price
+   */
+  public async getProposals(): Promise<PriceProposal[]> {
+    const [products, rules] = await Promise.all([
+      this.client
+        .from(TABLE_NAMES.PRODUCTS)
+        .select('id, name, price, categoryId, isActive'),
+      this.getRules()
+    ])
+
+    const activeProducts = (unwrap<PricingProductInput[]>(products) || []).filter(p => p.isActive !== false)
+    const costs = await this.costing.getProductUnitCosts(activeProducts.map(p => p.id))
+
+    return buildPriceProposals(activeProducts, costs, rules)
+  }
+
+  /**
+   * Apply accepted proposals; fails without changes if a price moved since
+   * the proposal was made
+   */
+  public async applyProposals(proposals: AcceptedPriceProposal[], changedBy: string | null = null): Promise<PriceApplyResult> {
+    if (proposals.length === 0) {
+      return { applied: 0, historyIds: [] }
+    }
+
+    const changedAt = new Date().toISOString()
+    const transaction = new Transaction()
+    for (const proposal of proposals) {
+      transaction.add(this.setPriceStep(proposal))
+    }
+
+    const historyIndex = transaction.size
+    transaction.add(this.recordHistoryStep(proposals.map(proposal => ({
+      product_id: proposal.product_id,
+      old_price: proposal.current_price,
+      new_price: proposal.suggested_price,
+      recipe_cost: proposal.recipe_cost,
+      price_rule_id: proposal.rule_id,
+      changed_by: changedBy,
+      changed_at: changedAt
+    }))))
+
+    const results = await transaction.commit()
+    return { applied: proposals.length, historyIds: results[historyIndex] }
+  }
+
+  /**
+   * Applied price changes, newest first
+   */
+  public async getPriceHistory(productId?: string): Promise<ProductPriceChange[]> {
+    let query = this.client
+      .from(TABLE_NAMES.PRODUCT_PRICE_HISTORY)
+      .select('*')
+
+    if (productId) {
+      query = query.eq('product_id', productId)
+    }
+
+    return unwrap<ProductPriceChange[]>(await query.order('changed_at', { ascending: false })) || []
+  }
+
+  private setPriceStep(proposal: AcceptedPriceProposal): TransactionStep<void> {
+    return {
+      name: `set price of product ${proposal.product_id} to ${proposal.suggested_price}`,
+      run: async () => {
+        const rows = unwrap<any[]>(await this.client
+          .from(TABLE_NAMES.PRODUCTS)
+          .update({ price: proposal.suggested_price, updatedAt: new Date().toISOString() })
+          .eq('id', proposal.product_id)
+          .eq('price', proposal.current_price)
+          .select('id')) || []
+
+        if (rows.length === 0) {
+          throw new Error(`Price of ${proposal.product_name} changed since it was proposed`)
+        }
+      },
+      rollback: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.PRODUCTS)
+          .update({ price: proposal.current_price })
+          .eq('id', proposal.product_id)
+          .select('id'))
+      }
+    }
+  }
+
+  private recordHistoryStep(rows: Array<Omit<ProductPriceChange, 'id'>>): TransactionStep<string[]> {
+    return {
+      name: `record ${rows.length} price changes`,
+      run: async () => {
+        const inserted = unwrap<any[]>(await this.client
+          .from(TABLE_NAMES.PRODUCT_PRICE_HISTORY)
+          .insert(rows)
+          .select('id')) || []
+        return inserted.map(row => row.id as string)
+      },
+      rollback: async (ids: string[]) => {
+        if (ids.length === 0) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.PRODUCT_PRICE_HISTORY)
+          .delete()
+          .in('id', ids))
+      }
+    }
+  }
+}
+
+/**
+ * Read a price_rules row into the rule shape; older rows holding only
+ * product_id and target_margin_percent become product-scoped margin rules
+ */
+export function normalizePriceRule(row: any): PriceRule {
+  const isLegacy = !row.rule_type && row.target_margin_percent !== null && row.target_margin_percent !== undefined
+  const conditions = { ...(row.conditions || {}) }
+  if (row.product_id && !conditions.product_id) {
+    conditions.product_id = row.product_id
+  }
+
+  return {
+    ...row,
+    name: row.name || (isLegacy ? `%${row.target_margin_percent} kar marjı` : 'Fiyat kuralı'),
+    rule_type: row.rule_type || PRICE_RULE_TYPES.MARGIN,
+    value: Number(isLegacy ? row.target_margin_percent : row.value) || 0,
+    is_active: row.is_active ?? row.auto_pricing_enabled ?? true,
+    conditions
+  }
+}
+
+export function validatePriceRule(rule: Pick<PriceRule, 'name' | 'rule_type' | 'value' | 'conditions'>): void {
+  if (!rule.name?.trim()) {
+    throw new Error('Price rule needs a name')
+  }
+  if (!Object.values(PRICE_RULE_TYPES).includes(rule.rule_type)) {
+    throw new Error(`Unknown price rule type ${rule.rule_type}`)
+  }
+  if (!Number.isFinite(rule.value) || rule.value < 0) {
+    throw new Error('Price rule value must be zero or more')
+  }
+  if (rule.rule_type === PRICE_RULE_TYPES.MARGIN && rule.value >= 100) {
+    throw new Error('Margin must be below 100%')
+  }
+
+  const { min_cost, max_cost } = rule.conditions || {}
+  if (min_cost !== undefined && max_cost !== undefined && min_cost > max_cost) {
+    throw new Error('Minimum cost is above maximum cost')
+  }
+}
+
+export function ruleMatches(rule: PriceRule, product: PricingProductInput, cost: number): boolean {
+  const { product_id, category_id, min_cost, max_cost } = rule.conditions || {}
+
+  if (product_id && product_id !== product.id) return false
+  if (category_id && category_id !== product.categoryId) return false
+  if (min_cost !== undefined && min_cost !== null && cost < min_cost) return false
+  if (max_cost !== undefined && max_cost !== null && cost > max_cost) return false
+  return true
+}
+
+function specificity(rule: PriceRule): number {
+  if (rule.conditions?.product_id) return 2
+  if (rule.conditions?.category_id) return 1
+  return 0
+}
+
+/**
+ * Active rule that applies to a product, or null
+ */
+export function selectPriceRule(rules: PriceRule[], product: PricingProductInput, cost: number): PriceRule | null {
+  return rules
+    .filter(rule => rule.is_active && ruleMatches(rule, product, cost))
+    .sort((a, b) => specificity(b) - specificity(a) || (b.created_at || '').localeCompare(a.created_at || ''))[0] || null
+}
+
+/**
+ * Price a rule gives for a unit cost, rounded up to PRICING_CONFIG.ROUND_TO
+ */
+export function suggestPrice(rule: Pick<PriceRule, 'rule_type' | 'value'>, cost: number): number {
+  let price: number
+  switch (rule.rule_type) {
+    case PRICE_RULE_TYPES.MARKUP:
+      price = cost * (1 + rule.value / 100)
+      break
+    case PRICE_RULE_TYPES.MARGIN:
+      price = cost / (1 - rule.value / 100)
+      break
+    default:
+      price = cost + rule.value
+  }
+
+  const step = PRICING_CONFIG.ROUND_TO
+  return roundMoney(Math.ceil(roundMoney(price) / step) * step)
+}
+
+export function marginPercent(price: number, cost: number): number | null {
+  return price > 0 ? roundMoney(((price - cost) / price) * 100) : null
+}
+
+/**
+ * Margin a rule aims for at a unit cost, before rounding the price
+ */
+export function targetMarginPercent(rule: Pick<PriceRule, 'rule_type' | 'value'>, cost: number): number | null {
+  switch (rule.rule_type) {
+    case PRICE_RULE_TYPES.MARKUP:
+      return roundMoney((rule.value / (100 + rule.value)) * 100)
+    case PRICE_RULE_TYPES.MARGIN:
+      return rule.value
+    default:
+      return marginPercent(cost + rule.value, cost)
+  }
+}
+
+/**
+ * Proposals for products with a recipe cost and a matching rule
+ */
+export function buildPriceProposals(
+  products: PricingProductInput[],
+  costs: Map<string, ProductUnitCost>,
+  rules: PriceRule[]
+): PriceProposal[] {
+  const proposals: PriceProposal[] = []
+
+  for (const product of products) {
+    const cost = costs.get(product.id)?.total_cost || 0
+    if (cost <= 0) continue
+
+    const rule = selectPriceRule(rules, product, cost)
+    if (!rule) continue
+
+    const currentPrice = Number(product.price) || 0
+    const suggestedPrice = suggestPrice(rule, cost)
+    const difference = roundMoney(suggestedPrice - currentPrice)
+    if (Math.abs(difference) < PRICING_CONFIG.MIN_CHANGE) continue
+
+    proposals.push({
+      product_id: product.id,
+      product_name: product.name,
+      category_id: product.categoryId || null,
+      recipe_cost: cost,
+      current_price: currentPrice,
+      suggested_price: suggestedPrice,
+      difference,
+      difference_percent: currentPrice > 0 ? roundMoney((difference / currentPrice) * 100) : null,
+      current_margin_percent: marginPercent(currentPrice, cost),
+      suggested_margin_percent: marginPercent(suggestedPrice, cost) || 0,
+      rule_id: rule.id,
+      rule_name: rule.name
+    })
+  }
+
+  return proposals.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference))
+}
+
+let defaultService: PricingService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getPricingService(): PricingService {
+  if (!defaultService) {
+    defaultService = new PricingService()
+  }
+  return defaultService
+}
+
+export default PricingService
@@ -0,0 +1,490 @@
+/**
+ * Purchase Order Service - Supplier order lifecycle and goods receipt
+ *
+ * A goods receipt updates the order's received quantities and status, appends
+ * the dated receipt to the order's history, writes one IN stock movement per
+ * line and moves the received price onto the raw material, recording it in
+ * the material's price history, all as one transaction. Quantities and prices
+ * are received in the order line's unit and booked in the material's stock
+ * unit.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, unwrap } from './transaction'
+import { MaterialPriceService, NewMaterialPriceChange } from './materialPriceService'
+import { UnitService, UnitConversionError, stockUnitFactor } from './unitService'
+import {
+  TABLE_NAMES,
+  MOVEMENT_TYPES,
+  MATERIAL_PRICE_SOURCES,
+  SUPPLIER_ORDER_STATUS,
+  SupplierOrderStatus
+} from '../constants'
+import {
+  SupplierOrder,
+  SupplierOrderItem,
+  SupplierOrderReceipt,
+  SupplierOrderReceiptLine,
+  OutstandingSupplierLine
+} from '../types'
+
+export interface NewSupplierOrder {
+  supplier_id: string
+  items: Array<Pick<SupplierOrderItem, 'material_id' | 'material_name' | 'quantity'> & Partial<SupplierOrderItem>>
+  expected_date?: string | null
+  notes?: string | null
+}
+
+// A received line converted into the material's stock unit
+interface StockReceiptLine {
+  material_id: string
+  quantity: number
+  unit_price: number | null
+  notes: string | null
+}
+
+interface ReceiptMaterial {
+  id: string
+  name: string
+  stock_unit: string | null
+  unit_price_try: number | null
+  price_date: string | null
+}
+
+export interface GoodsReceiptResult {
+  orderId: string
+  status: SupplierOrderStatus
+  movementIds: string[]
+}
+
+const VALID_TRANSITIONS: Record<SupplierOrderStatus, SupplierOrderStatus[]> = {
+  PENDING: [SUPPLIER_ORDER_STATUS.ORDERED, SUPPLIER_ORDER_STATUS.CANCELLED],
+  ORDERED: [SUPPLIER_ORDER_STATUS.PARTIALLY_RECEIVED, SUPPLIER_ORDER_STATUS.RECEIVED, SUPPLIER_ORDER_STATUS.CANCELLED],
+  PARTIALLY_RECEIVED: [SUPPLIER_ORDER_STATUS.RECEIVED, SUPPLIER_ORDER_STATUS.CANCELLED], // Cancelling closes the rest short
+  RECEIVED: [], // Final state
+  CANCELLED: [] // Final state
+}
+
+const RECEIVABLE_STATUSES: SupplierOrderStatus[] = [
+  SUPPLIER_ORDER_STATUS.ORDERED,
+  SUPPLIER_ORDER_STATUS.PARTIALLY_RECEIVED
+]
+
+export class PurchaseOrderService {
+  private client: any
+  private prices: MaterialPriceService
+  private units: UnitService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.prices = new MaterialPriceService(this.client)
+    this.units = new UnitService(this.client)
+  }
+
+  /**
+   * Validate purchase order status transition
+   */
+  public static isValidTransition(currentStatus: SupplierOrderStatus, newStatus: SupplierOrderStatus): boolean {
+    return VALID_TRANSITIONS[currentStatus]?.includes(newStatus) || false
+  }
+
+  /**
+   * Create a PENDING purchase order with typed line items
+   */
+  public async createOrder(order: NewSupplierOrder): Promise<SupplierOrder> {
+    const items = normalizeItems(order.items).filter(item => item.quantity > 0)
+    if (items.length === 0) {
+      throw new Error('Purchase order needs at least one line with a positive quantity')
+    }
+
+    const rows = unwrap(await this.client
+      .from(TABLE_NAMES.SUPPLIER_ORDERS)
+      .insert({
+        supplier_id: order.supplier_id,
+        status: SUPPLIER_ORDER_STATUS.PENDING,
+        items_json: items,
+        total_amount: orderTotal(items),
+        expected_date: order.expected_date || null,
+        notes: order.notes || null
+      })
+      .select('*'))
+
+    return { ...rows[0], items_json: normalizeItems(rows[0].items_json) }
+  }
+
+  /**
+   * Move a purchase order to ORDERED or CANCELLED
+   *
+   * Receipt statuses are set by receive() only.
+   */
+  public async transition(orderId: string, newStatus: SupplierOrderStatus): Promise<SupplierOrder> {
+    const order = await this.getOrder(orderId)
+
+    if (newStatus === SUPPLIER_ORDER_STATUS.PARTIALLY_RECEIVED || newStatus === SUPPLIER_ORDER_STATUS.RECEIVED) {
+      throw new Error('Use receive() to record received goods')
+    }
+
+    if (!PurchaseOrderService.isValidTransition(order.status, newStatus)) {
+      throw new Error(`Invalid purchase order transition from ${order.status} to ${newStatus}`)
+    }
+
+    const now = new Date().toISOString()
+    const rows = unwrap(await this.client
+      .from(TABLE_NAMES.SUPPLIER_ORDERS)
+      .update({
+        status: newStatus,
+        updated_at: now,
+        ...(newStatus === SUPPLIER_ORDER_STATUS.ORDERED ? { ordered_at: now } : {})
+      })
+      .eq('id', orderId)
+      .eq('updated_at', order.updated_at)
+      .select('*'))
+
+    if (!rows?.length) {
+      throw new Error(`Purchase order ${orderId} changed since it was read`)
+    }
+
+    return { ...rows[0], items_json: normalizeItems(rows[0].items_json) }
+  }
+
+  /**
+   * Record a (partial) goods receipt; throws TransactionError naming the failed step
+   */
+  public async receive(
+    orderId: string,
+    lines: SupplierOrderReceiptLine[],
+    now: Date = new Date()
+  ): Promise<GoodsReceiptResult> {
+    const order = await this.getOrder(orderId)
+
+    if (!RECEIVABLE_STATUSES.includes(order.status)) {
+      throw new Error(`Cannot receive goods for a purchase order in status ${order.status}`)
+    }
+
+    const receipts = lines.filter(line => line.quantity > 0)
+    if (receipts.length === 0) {
+      throw new Error('Goods receipt needs at least one line with a positive quantity')
+    }
+
+    const items = order.items_json.map(item => ({ ...item }))
+    for (const line of receipts) {
+      const item = items.find(i => i.material_id === line.material_id)
+      if (!item) {
+        throw new Error(`Material ${line.material_id} is not on purchase order ${orderId}`)
+      }
+      const outstanding = item.quantity - item.received_quantity
+      if (line.quantity > outstanding) {
+        throw new Error(`Received ${line.quantity} of ${item.material_name} but only ${outstanding} is outstanding`)
+      }
+      item.received_quantity += line.quantity
+      if (line.unit_price != null) {
+        item.unit_price = line.unit_price
+      }
+    }
+
+    const fullyReceived = items.every(item => item.received_quantity >= item.quantity)
+    const newStatus = fullyReceived ? SUPPLIER_ORDER_STATUS.RECEIVED : SUPPLIER_ORDER_STATUS.PARTIALLY_RECEIVED
+    const timestamp = now.toISOString()
+    const materials = await this.getMaterials(receipts.map(line => line.material_id))
+    const stockLines = await this.toStockLines(order, receipts, materials)
+    const priceChanges = getPriceChanges(order, stockLines, materials, timestamp)
+    const receiptHistory: SupplierOrderReceipt[] = [
+      ...(order.receipts_json || []),
+      {
+        received_at: timestamp,
+        lines: receipts.map(line => ({ material_id: line.material_id, quantity: line.quantity, unit_price: line.unit_price ?? null }))
+      }
+    ]
+    const transaction = new Transaction()
+
+    // Matching updated_at keeps a concurrent receipt from being overwritten
+    transaction.add({
+      name: `record receipt on purchase order ${orderId}`,
+      run: async () => {
+        const rows = unwrap(await this.client
+          .from(TABLE_NAMES.SUPPLIER_ORDERS)
+          .update({
+            items_json: items,
+            receipts_json: receiptHistory,
+            status: newStatus,
+            total_amount: orderTotal(items),
+            updated_at: timestamp,
+            ...(fullyReceived ? { received_at: timestamp } : {})
+          })
+          .eq('id', orderId)
+          .eq('updated_at', order.updated_at)
+          .select('id'))
+        if (!rows?.length) {
+          throw new Error(`Purchase order ${orderId} changed since it was read`)
+        }
+      },
+      rollback: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.SUPPLIER_ORDERS)
+          .update({
+            items_json: order.items_json,
+            receipts_json: order.receipts_json || [],
+            status: order.status,
+            total_amount: order.total_amount ?? null,
+            updated_at: order.updated_at,
+            received_at: order.received_at ?? null
+          })
+          .eq('id', orderId)
+          .select('id'))
+      }
+    })
+
+    const firstMovementStep = transaction.size
+
+    for (const line of stockLines) {
+      transaction.add({
+        name: `insert IN movement for material ${line.material_id}`,
+        run: async () => {
+          const rows = unwrap(await this.client
+            .from(TABLE_NAMES.STOCK_MOVEMENTS)
+            .insert({
+              raw_material_id: line.material_id,
+              movement_type: MOVEMENT_TYPES.IN,
+              quantity: line.quantity,
+              reason: `Purchase order ${orderId} receipt`,
+              notes: line.notes
+            })
+            .select('id'))
+          return rows?.[0]?.id as string
+        },
+        rollback: async (movementId: string) => {
+          if (!movementId) return
+          unwrap(await this.client
+            .from(TABLE_NAMES.STOCK_MOVEMENTS)
+            .delete()
+            .eq('id', movementId))
+        }
+      })
+    }
+
+    for (const [materialId, received] of receivedByMaterial(stockLines)) {
+      // Added in the database, so receipts and other stock writers cannot overwrite each other
+      transaction.add({
+        name: `add ${received.quantity} to stock of material ${materialId}`,
+        run: async () => {
+          unwrap(await this.client.rpc('adjust_material_stock', { p_material_id: materialId, p_delta: received.quantity }))
+        },
+        rollback: async () => {
+          unwrap(await this.client.rpc('adjust_material_stock', { p_material_id: materialId, p_delta: -received.quantity }))
+        }
+      })
+
+      if (received.unitPrice == null) continue
+      const material = materials.get(materialId)!
+      transaction.add({
+        name: `set price of material ${materialId} to ${received.unitPrice}`,
+        run: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS)
+            .update({ unit_price_try: received.unitPrice, price_date: timestamp.slice(0, 10), updated_at: timestamp })
+            .eq('id', materialId)
+            .select('id'))
+        },
+        rollback: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS)
+            .update({ unit_price_try: material.unit_price_try, price_date: material.price_date, updated_at: timestamp })
+            .eq('id', materialId)
+            .select('id'))
+        }
+      })
+    }
+
+    if (priceChanges.length > 0) {
+      transaction.add(this.prices.recordStep(priceChanges))
+    }
+
+    const results = await transaction.commit()
+
+    return {
+      orderId,
+      status: newStatus,
+      movementIds: results.slice(firstMovementStep, firstMovementStep + stockLines.length).filter(Boolean)
+    }
+  }
+
+  /**
+   * Ordered but not yet received quantities, one line per supplier and material
+   * (drafts included on request, e.g. so reorder runs do not propose them twice)
+   */
+  public async getOutstanding(includeDrafts: boolean = false): Promise<OutstandingSupplierLine[]> {
+    const statuses = includeDrafts ? [SUPPLIER_ORDER_STATUS.PENDING, ...RECEIVABLE_STATUSES] : RECEIVABLE_STATUSES
+    const rows = unwrap(await this.client
+      .from(TABLE_NAMES.SUPPLIER_ORDERS)
+      .select('*')
+      .in('status', statuses)) || []
+
+    return calculateOutstanding(rows)
+  }
+
+  private async getMaterials(materialIds: string[]): Promise<Map<string, ReceiptMaterial>> {
+    const rows = unwrap<ReceiptMaterial[]>(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select('id, name, stock_unit, unit_price_try, price_date')
+      .in('id', [...new Set(materialIds)])) || []
+
+    return new Map(rows.map(row => [row.id, row]))
+  }
+
+  /**
+   * Receipt lines in the material's stock unit, with the price per stock unit;
+   * throws UnitConversionError before anything is written
+   */
+  private async toStockLines(
+    order: SupplierOrder,
+    receipts: SupplierOrderReceiptLine[],
+    materials: Map<string, ReceiptMaterial>
+  ): Promise<StockReceiptLine[]> {
+    const lines: StockReceiptLine[] = []
+
+    for (const line of receipts) {
+      const item = order.items_json.find(i => i.material_id === line.material_id)!
+      const material = materials.get(line.material_id)
+      if (!material) {
+        throw new Error(`Raw material ${line.material_id} not found`)
+      }
+
+      const factor = stockUnitFactor(item.unit, material.stock_unit, await this.units.getConversions(material.id))
+      if (factor === null) {
+        throw new UnitConversionError(item.unit || '', material.stock_unit || '', material.name)
+      }
+
+      const notes = [
+        factor !== 1 ? `Received ${line.quantity} ${item.unit}` : null,
+        line.unit_price != null ? `Unit price ${line.unit_price}` : null
+      ].filter(Boolean).join(', ')
+
+      lines.push({
+        material_id: line.material_id,
+        quantity: line.quantity * factor,
+        unit_price: line.unit_price != null ? line.unit_price / factor : null,
+        notes: notes || null
+      })
+    }
+
+    return lines
+  }
+
+  private async getOrder(orderId: string): Promise<SupplierOrder> {
+    const rows = unwrap(await this.client
+      .from(TABLE_NAMES.SUPPLIER_ORDERS)
+      .select('*')
+      .eq('id', orderId))
+
+    if (!rows || rows.length === 0) {
+      throw new Error('Purchase order not found')
+    }
+
+    return { ...rows[0], items_json: normalizeItems(rows[0].items_json) }
+  }
+}
+
+/**
+ * Coerce stored line items (including older suggestion rows that used
+ * `suggested_qty`) into typed purchase order lines
+ */
+export function normalizeItems(items: any[] | null | undefined): SupplierOrderItem[] {
+  return (items || []).map(item => ({
+    material_id: item.material_id,
+    material_name: item.material_name || '',
+    quantity: Number(item.quantity ?? item.suggested_qty) || 0,
+    unit: item.unit ?? null,
+    unit_price: item.unit_price != null ? Number(item.unit_price) : null,
+    received_quantity: Number(item.received_quantity) || 0
+  }))
+}
+
+/**
+ * Group outstanding quantities of open purchase orders by supplier and material
+ */
+export function calculateOutstanding(orders: Array<Pick<SupplierOrder, 'id' | 'supplier_id' | 'expected_date'> & { items_json: any[] }>): OutstandingSupplierLine[] {
+  const lines = new Map<string, OutstandingSupplierLine>()
+
+  for (const order of orders) {
+    for (const item of normalizeItems(order.items_json)) {
+      const outstanding = item.quantity - item.received_quantity
+      if (outstanding <= 0) continue
+
+      const key = `${order.supplier_id}:${item.material_id}`
+      const line = lines.get(key) || {
+        supplier_id: order.supplier_id,
+        material_id: item.material_id,
+        material_name: item.material_name,
+        unit: item.unit,
+        outstanding_quantity: 0,
+        outstanding_value: 0,
+        order_ids: [],
+        expected_date: null
+      }
+
+      line.outstanding_quantity += outstanding
+      line.outstanding_value += outstanding * (item.unit_price || 0)
+      line.order_ids.push(order.id)
+      if (order.expected_date && (!line.expected_date || order.expected_date < line.expected_date)) {
+        line.expected_date = order.expected_date
+      }
+      lines.set(key, line)
+    }
+  }
+
+  return Array.from(lines.values())
+}
+
+function orderTotal(items: SupplierOrderItem[]): number {
+  return items.reduce((sum, item) => sum + item.quantity * (item.unit_price || 0), 0)
+}
+
+/**
+ * Price history rows for received prices that differ from the material's
+ */
+function getPriceChanges(
+  order: SupplierOrder,
+  lines: StockReceiptLine[],
+  materials: Map<string, ReceiptMaterial>,
+  timestamp: string
+): NewMaterialPriceChange[] {
+  return [...receivedByMaterial(lines)]
+    .filter(([materialId, received]) => received.unitPrice != null && materials.get(materialId)?.unit_price_try !== received.unitPrice)
+    .map(([materialId, received]) => ({
+      raw_material_id: materialId,
+      supplier_id: order.supplier_id,
+      old_price: materials.get(materialId)?.unit_price_try ?? null,
+      new_price: received.unitPrice as number,
+      source: MATERIAL_PRICE_SOURCES.GOODS_RECEIPT,
+      reference_id: order.id,
+      changed_by: null,
+      changed_at: timestamp
+    }))
+}
+
+function receivedByMaterial(lines: StockReceiptLine[]): Map<string, { quantity: number; unitPrice: number | null }> {
+  const totals = new Map<string, { quantity: number; unitPrice: number | null }>()
+
+  for (const line of lines) {
+    const current = totals.get(line.material_id) || { quantity: 0, unitPrice: null }
+    current.quantity += line.quantity
+    if (line.unit_price != null) current.unitPrice = line.unit_price
+    totals.set(line.material_id, current)
+  }
+
+  return totals
+}
+
+let defaultService: PurchaseOrderService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getPurchaseOrderService(): PurchaseOrderService {
+  if (!defaultService) {
+    defaultService = new PurchaseOrderService()
+  }
+  return defaultService
+}
+
+export default PurchaseOrderService
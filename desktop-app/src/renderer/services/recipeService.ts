@@ -0,0 +1,69 @@
+/**
+ * Recipe Service - Material requirements derived from product recipes
+ *
+ * Requirements are exploded through semi-finished items down to leaf materials.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { unwrap } from './transaction'
+import { BomService, sumByMaterial } from './bomService'
+import { TABLE_NAMES } from '../constants'
+
+export interface MaterialRequirement {
+  raw_material_id: string
+  product_id: string
+  quantity: number
+  /** Semi-finished items passed through on the way to this material */
+  via?: string[]
+}
+
+export class RecipeService {
+  private client: any
+  private bom: BomService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.bom = new BomService(this.client)
+  }
+
+  /**
+   * Material quantities needed to build every item of an order
+   */
+  public async getOrderRequirements(orderId: string): Promise<MaterialRequirement[]> {
+    const items = unwrap(await this.client
+      .from(TABLE_NAMES.ORDER_ITEMS)
+      .select('*')
+      .eq('orderId', orderId)) || []
+
+    const requirements: MaterialRequirement[] = []
+
+    for (const item of items) {
+      requirements.push(...await this.getProductRequirements(item.productId, item.quantity))
+    }
+
+    return requirements
+  }
+
+  /**
+   * Leaf material quantities needed to build `quantity` units of a product
+   */
+  public async getProductRequirements(productId: string, quantity: number = 1): Promise<MaterialRequirement[]> {
+    return this.bom.explodeProduct(productId, quantity)
+  }
+
+  /**
+   * Get product recipes for stock calculation
+   */
+  public async getProductRecipes(productId: string): Promise<any[]> {
+    const rows = unwrap(await this.client
+      .from(TABLE_NAMES.PRODUCT_RECIPES)
+      .select('*')
+      .eq('product_id', productId))
+
+    return rows || []
+  }
+}
+
+export { sumByMaterial }
+
+export default RecipeService
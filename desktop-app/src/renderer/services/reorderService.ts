@@ -0,0 +1,264 @@
+/**
+ * Reorder Service - Reorder-point engine producing draft purchase orders
+ *
+ * Average daily usage comes from OUT movements over REORDER_CONFIG.HISTORY_DAYS.
+ * The reorder point is lead-time demand plus STOCK_THRESHOLDS.REORDER_BUFFER
+ * percent safety stock (never below min_stock_quantity, converted to the stock
+ * unit). Stock already on open
+ * or draft purchase orders counts towards the stock position.
+ *
+ * Materials with several suppliers are ordered from the cheapest one that
+ * delivers before stock on hand runs out; the quantity is raised to that
+ * supplier's minimum order quantity.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { unwrap } from './transaction'
+import { PurchaseOrderService } from './purchaseOrderService'
+import { SourcingService, pickSupplier } from './sourcingService'
+import { UnitService, UnitConversionInput, minStockInStockUnit } from './unitService'
+import {
+  TABLE_NAMES,
+  MOVEMENT_TYPES,
+  STOCK_THRESHOLDS,
+  REORDER_CONFIG,
+  MRP_CONFIG
+} from '../constants'
+import { ReorderSuggestion, SupplierReorderGroup, SupplierOrder, MaterialSupplier } from '../types'
+
+export interface ReorderMaterialInput {
+  id: string
+  name: string
+  stock_unit: string | null
+  stock_quantity: number | null
+  min_stock_quantity: number | null
+  min_stock_unit?: string | null
+  lead_time_days: number | null
+  supplier_id: string | null
+  unit_price_try: number | null
+}
+
+// What a draft purchase order needs of each proposal
+export interface DraftOrderGroup {
+  supplier_id: string | null
+  items: Array<Pick<ReorderSuggestion, 'material_id' | 'material_name' | 'unit' | 'unit_price' | 'suggested_qty' | 'lead_time_days'>>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class ReorderService {
+  private client: any
+  private purchaseOrders: PurchaseOrderService
+  private units: UnitService
+  private sourcing: SourcingService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.purchaseOrders = new PurchaseOrderService(this.client)
+    this.units = new UnitService(this.client)
+    this.sourcing = new SourcingService(this.client)
+  }
+
+  /**
+   * Reorder proposals grouped by supplier
+   */
+  public async getSuggestions(now: Date = new Date()): Promise<SupplierReorderGroup[]> {
+    const since = new Date(now.getTime() - REORDER_CONFIG.HISTORY_DAYS * DAY_MS)
+
+    const [materials, movements, outstanding, conversions, offers] = await Promise.all([
+      this.client
+        .from(TABLE_NAMES.RAW_MATERIALS)
+        .select('id, name, stock_unit, stock_quantity, min_stock_quantity, min_stock_unit, lead_time_days, supplier_id, unit_price_try'),
+      this.getOutMovements(since),
+      this.purchaseOrders.getOutstanding(true),
+      this.units.getAllConversions(),
+      this.sourcing.getOffers()
+    ])
+
+    const onOrder = new Map<string, number>()
+    for (const line of outstanding) {
+      onOrder.set(line.material_id, (onOrder.get(line.material_id) || 0) + line.outstanding_quantity)
+    }
+
+    const offersByMaterial = new Map<string, MaterialSupplier[]>()
+    for (const offer of offers) {
+      offersByMaterial.set(offer.raw_material_id, [...(offersByMaterial.get(offer.raw_material_id) || []), offer])
+    }
+
+    return groupBySupplier(calculateReorderSuggestions(
+      unwrap<ReorderMaterialInput[]>(materials) || [],
+      movements,
+      onOrder,
+      conversions,
+      offersByMaterial,
+      now
+    ))
+  }
+
+  /**
+   * OUT movements since the given date, page by page (PostgREST caps a response)
+   */
+  private async getOutMovements(since: Date): Promise<Array<{ raw_material_id: string; quantity: number }>> {
+    const movements: Array<{ raw_material_id: string; quantity: number }> = []
+
+    for (let from = 0; ; from += REORDER_CONFIG.PAGE_SIZE) {
+      const page = unwrap<Array<{ raw_material_id: string; quantity: number }>>(await this.client
+        .from(TABLE_NAMES.STOCK_MOVEMENTS)
+        .select('raw_material_id, quantity')
+        .eq('movement_type', MOVEMENT_TYPES.OUT)
+        .gte('created_at', since.toISOString())
+        .order('id', { ascending: true })
+        .range(from, from + REORDER_CONFIG.PAGE_SIZE - 1)) || []
+
+      movements.push(...page)
+      if (page.length < REORDER_CONFIG.PAGE_SIZE) break
+    }
+
+    return movements
+  }
+
+  /**
+   * Persist each supplier's proposals as a draft (PENDING) purchase order
+   *
+   * Materials without a supplier cannot be ordered and are skipped.
+   */
+  public async createDraftOrders(groups: DraftOrderGroup[], now: Date = new Date()): Promise<SupplierOrder[]> {
+    const created: SupplierOrder[] = []
+
+    for (const group of groups) {
+      if (!group.supplier_id) continue
+
+      const items = group.items.filter(item => item.suggested_qty > 0)
+      if (items.length === 0) continue
+
+      const leadTime = Math.max(...items.map(item => item.lead_time_days))
+      created.push(await this.purchaseOrders.createOrder({
+        supplier_id: group.supplier_id,
+        items: items.map(item => ({
+          material_id: item.material_id,
+          material_name: item.material_name,
+          quantity: item.suggested_qty,
+          unit: item.unit,
+          unit_price: item.unit_price
+        })),
+        expected_date: new Date(now.getTime() + leadTime * DAY_MS).toISOString().slice(0, 10),
+        notes: `Otomatik sipariş önerisi - ${now.toLocaleDateString('tr-TR')}`
+      }))
+    }
+
+    return created
+  }
+
+  /**
+   * Create draft orders for everything at or below its reorder point,
+   * if the autoReorderEnabled preference is on
+   */
+  public async runAutoReorder(enabled: boolean, now: Date = new Date()): Promise<SupplierOrder[]> {
+    if (!enabled) {
+      return []
+    }
+
+    return this.createDraftOrders(await this.getSuggestions(now), now)
+  }
+}
+
+/**
+ * Propose order quantities for materials whose stock position has reached
+ * the reorder point
+ */
+export function calculateReorderSuggestions(
+  materials: ReorderMaterialInput[],
+  outMovements: Array<{ raw_material_id: string; quantity: number }>,
+  onOrder: Map<string, number> = new Map(),
+  conversions: Map<string, UnitConversionInput[]> = new Map(),
+  offers: Map<string, MaterialSupplier[]> = new Map(),
+  now: Date = new Date()
+): ReorderSuggestion[] {
+  // Legacy OUT rows store the quantity negative
+  const consumed = new Map<string, number>()
+  for (const movement of outMovements) {
+    const quantity = Math.abs(Number(movement.quantity) || 0)
+    consumed.set(movement.raw_material_id, (consumed.get(movement.raw_material_id) || 0) + quantity)
+  }
+
+  const buffer = 1 + STOCK_THRESHOLDS.REORDER_BUFFER / 100
+  const suggestions: ReorderSuggestion[] = []
+
+  for (const material of materials) {
+    const dailyUsage = (consumed.get(material.id) || 0) / REORDER_CONFIG.HISTORY_DAYS
+    const leadTime = material.lead_time_days ?? MRP_CONFIG.DEFAULT_LEAD_TIME_DAYS
+    const minStock = minStockInStockUnit(material, conversions.get(material.id)) || 0
+
+    if (dailyUsage === 0 && minStock === 0) continue
+
+    const reorderPoint = Math.max(dailyUsage * leadTime * buffer, minStock)
+    const currentStock = material.stock_quantity || 0
+    const pending = onOrder.get(material.id) || 0
+    const position = currentStock + pending
+
+    if (position > reorderPoint) continue
+
+    // Without usage history fall back to topping up to the buffered minimum
+    const target = dailyUsage > 0
+      ? reorderPoint + dailyUsage * REORDER_CONFIG.COVERAGE_DAYS
+      : minStock * buffer
+    const neededQty = Math.ceil(target - position)
+
+    if (neededQty <= 0) continue
+
+    // Without usage there is no date the stock runs out by
+    const daysUntilNeed = dailyUsage > 0 ? currentStock / dailyUsage : null
+    const choice = pickSupplier(offers.get(material.id) || [], daysUntilNeed, leadTime)
+    const supplierLeadTime = choice ? choice.lead_time_days : leadTime
+    const minOrder = choice?.offer.min_order_quantity ?? null
+
+    suggestions.push({
+      material_id: material.id,
+      material_name: material.name,
+      unit: material.stock_unit,
+      supplier_id: choice ? choice.offer.supplier_id : material.supplier_id,
+      current_stock: currentStock,
+      on_order: pending,
+      daily_usage: dailyUsage,
+      lead_time_days: supplierLeadTime,
+      reorder_point: reorderPoint,
+      suggested_qty: Math.max(neededQty, Math.ceil(minOrder || 0)),
+      unit_price: choice?.offer.unit_price_try ?? material.unit_price_try,
+      min_order_quantity: minOrder,
+      need_date: daysUntilNeed === null ? null : new Date(now.getTime() + daysUntilNeed * DAY_MS).toISOString().slice(0, 10),
+      delivers_in_time: choice ? choice.delivers_in_time : daysUntilNeed === null || leadTime <= daysUntilNeed
+    })
+  }
+
+  return suggestions
+}
+
+/**
+ * Group proposals into one entry per supplier
+ */
+export function groupBySupplier(suggestions: ReorderSuggestion[]): SupplierReorderGroup[] {
+  const groups = new Map<string | null, SupplierReorderGroup>()
+
+  for (const suggestion of suggestions) {
+    const group = groups.get(suggestion.supplier_id) || { supplier_id: suggestion.supplier_id, items: [], total_value: 0 }
+    group.items.push(suggestion)
+    group.total_value += suggestion.suggested_qty * (suggestion.unit_price || 0)
+    groups.set(suggestion.supplier_id, group)
+  }
+
+  return Array.from(groups.values())
+}
+
+let defaultService: ReorderService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getReorderService(): ReorderService {
+  if (!defaultService) {
+    defaultService = new ReorderService()
+  }
+  return defaultService
+}
+
+export default ReorderService
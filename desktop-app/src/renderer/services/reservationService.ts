@@ -0,0 +1,263 @@
+/**
+ * Stock Reservation Service - Pending orders hold recipe quantities
+ *
+ * Reservations are created while an order is PENDING, converted when it is
+ * confirmed (the real OUT movements take over) and released on cancellation.
+ * They are reconciled when an order is written, never when stock is read.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { TransactionStep, unwrap } from './transaction'
+import { RecipeService, sumByMaterial } from './recipeService'
+import {
+  TABLE_NAMES,
+  ORDER_STATUS,
+  RESERVATION_STATUS,
+  RESERVATION_CONFIG,
+  ReservationStatus
+} from '../constants'
+import { MaterialAvailability, StockReservation } from '../types'
+
+export class StockReservationService {
+  private client: any
+  private recipes: RecipeService
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+    this.recipes = new RecipeService(this.client)
+  }
+
+  /**
+   * Reserve recipe quantities for a pending order (no-op if already reserved)
+   */
+  public async reserveOrder(orderId: string, now: Date = new Date()): Promise<StockReservation[]> {
+    const existing = unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_RESERVATIONS)
+      .select('id')
+      .eq('order_id', orderId)) || []
+
+    if (existing.length > 0) {
+      return []
+    }
+
+    const totals = sumByMaterial(await this.recipes.getOrderRequirements(orderId))
+    if (totals.size === 0) {
+      return []
+    }
+
+    const expiresAt = new Date(now.getTime() + RESERVATION_CONFIG.EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+    const rows = Array.from(totals, ([materialId, quantity]) => ({
+      raw_material_id: materialId,
+      order_id: orderId,
+      quantity,
+      status: RESERVATION_STATUS.ACTIVE,
+      expires_at: expiresAt.toISOString()
+    }))
+
+    // A concurrent reconcile may reserve the same order; only rows written here are returned
+    return unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_RESERVATIONS)
+      .upsert(rows, { onConflict: 'order_id,raw_material_id', ignoreDuplicates: true })
+      .select('*')) || []
+  }
+
+  /**
+   * Step running reserveOrder inside the caller's transaction; the order id is
+   * read when the step runs, so it may come from an earlier step
+   */
+  public reserveOrderStep(orderId: () => string, now: Date = new Date()): TransactionStep<string[]> {
+    return {
+      name: 'reserve materials of the order',
+      run: async () => (await this.reserveOrder(orderId(), now)).map(reservation => reservation.id),
+      rollback: async (ids: string[]) => {
+        if (ids.length === 0) return
+        unwrap(await this.client
+          .from(TABLE_NAMES.STOCK_RESERVATIONS)
+          .delete()
+          .in('id', ids))
+      }
+    }
+  }
+
+  /**
+   * Bring reservations in line with current orders:
+   * expire stale ones, release those whose order left PENDING outside the
+   * status engine, and reserve for pending orders that have none yet
+   * (e.g. orders placed on the website).
+   */
+  public async syncReservations(now: Date = new Date()): Promise<void> {
+    await this.expireStaleReservations(now)
+
+    const pendingIds = new Set<string>()
+    for (let from = 0; ; from += RESERVATION_CONFIG.PAGE_SIZE) {
+      const page = unwrap<Array<{ id: string }>>(await this.client
+        .from(TABLE_NAMES.ORDERS)
+        .select('id')
+        .eq('status', ORDER_STATUS.PENDING)
+        .order('id', { ascending: true })
+        .range(from, from + RESERVATION_CONFIG.PAGE_SIZE - 1)) || []
+
+      page.forEach(order => pendingIds.add(order.id))
+      if (page.length < RESERVATION_CONFIG.PAGE_SIZE) break
+    }
+
+    const active = await this.getActiveReservations(now)
+    const orphaned = active.filter(reservation => !pendingIds.has(reservation.order_id))
+    if (orphaned.length > 0) {
+      await this.setStatus(orphaned.map(r => r.id), RESERVATION_STATUS.RELEASED)
+    }
+
+    const reserved = new Set(active.map(reservation => reservation.order_id))
+    for (const orderId of pendingIds) {
+      if (!reserved.has(orderId)) {
+        await this.reserveOrder(orderId, now)
+      }
+    }
+  }
+
+  /**
+   * syncReservations as the last step of an order write, so a failure undoes
+   * the write and reaches the caller. The sync only brings reservations in
+   * line with the orders and can simply run again, so it has no rollback.
+   */
+  public reconcileStep(now: Date = new Date()): TransactionStep<void> {
+    return {
+      name: 'sync stock reservations',
+      run: async () => this.syncReservations(now)
+    }
+  }
+
+  /**
+   * Mark active reservations past their expiry date as EXPIRED
+   */
+  public async expireStaleReservations(now: Date = new Date()): Promise<number> {
+    const stale = unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_RESERVATIONS)
+      .select('id')
+      .eq('status', RESERVATION_STATUS.ACTIVE)
+      .lt('expires_at', now.toISOString())) || []
+
+    if (stale.length > 0) {
+      await this.setStatus(stale.map((row: any) => row.id), RESERVATION_STATUS.EXPIRED)
+    }
+
+    return stale.length
+  }
+
+  /**
+   * Active reservations not yet past their expiry date, read page by page
+   * (PostgREST caps a response)
+   */
+  public async getActiveReservations(now: Date = new Date()): Promise<StockReservation[]> {
+    const reservations: StockReservation[] = []
+
+    for (let from = 0; ; from += RESERVATION_CONFIG.PAGE_SIZE) {
+      const page = unwrap<StockReservation[]>(await this.client
+        .from(TABLE_NAMES.STOCK_RESERVATIONS)
+        .select('*')
+        .eq('status', RESERVATION_STATUS.ACTIVE)
+        .gt('expires_at', now.toISOString())
+        .order('id', { ascending: true })
+        .range(from, from + RESERVATION_CONFIG.PAGE_SIZE - 1)) || []
+
+      reservations.push(...page)
+      if (page.length < RESERVATION_CONFIG.PAGE_SIZE) break
+    }
+
+    return reservations
+  }
+
+  /**
+   * Transaction step that closes an order's active reservations
+   * (CONVERTED on confirmation, RELEASED on cancellation)
+   */
+  public closeReservationsStep(orderId: string, status: ReservationStatus): TransactionStep<string[]> {
+    return {
+      name: `mark reservations of order ${orderId} as ${status}`,
+      run: async () => {
+        const rows = unwrap(await this.client
+          .from(TABLE_NAMES.STOCK_RESERVATIONS)
+          .update({ status, updated_at: new Date().toISOString() })
+          .eq('order_id', orderId)
+          .eq('status', RESERVATION_STATUS.ACTIVE)
+          .select('id')) || []
+        return rows.map((row: any) => row.id as string)
+      },
+      rollback: async (ids: string[]) => {
+        if (ids.length > 0) {
+          await this.setStatus(ids, RESERVATION_STATUS.ACTIVE)
+        }
+      }
+    }
+  }
+
+  /**
+   * Step making closed reservations active again (undo of closeReservationsStep)
+   */
+  public reopenReservationsStep(ids: string[]): TransactionStep<ReservationStatus | null> {
+    return {
+      name: `reopen ${ids.length} reservations`,
+      run: async () => {
+        const rows = unwrap(await this.client
+          .from(TABLE_NAMES.STOCK_RESERVATIONS)
+          .select('id, status')
+          .in('id', ids)) || []
+        await this.setStatus(ids, RESERVATION_STATUS.ACTIVE)
+        return (rows[0]?.status as ReservationStatus) || null
+      },
+      rollback: async (previousStatus: ReservationStatus | null) => {
+        if (previousStatus) {
+          await this.setStatus(ids, previousStatus)
+        }
+      }
+    }
+  }
+
+  private async setStatus(ids: string[], status: ReservationStatus): Promise<void> {
+    unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_RESERVATIONS)
+      .update({ status, updated_at: new Date().toISOString() })
+      .in('id', ids)
+      .select('id'))
+  }
+}
+
+/**
+ * Combine cached stock with active reservations into per-material availability
+ */
+export function calculateAvailability(
+  materials: Array<{ id: string; name: string; stock_quantity: number | null; stock_unit: string | null }>,
+  reservations: Array<Pick<StockReservation, 'raw_material_id' | 'quantity'>>
+): MaterialAvailability[] {
+  const reserved = new Map<string, number>()
+  for (const reservation of reservations) {
+    reserved.set(reservation.raw_material_id, (reserved.get(reservation.raw_material_id) || 0) + reservation.quantity)
+  }
+
+  return materials.map(material => {
+    const onHand = material.stock_quantity || 0
+    const reservedQuantity = reserved.get(material.id) || 0
+    return {
+      raw_material_id: material.id,
+      name: material.name,
+      unit: material.stock_unit,
+      on_hand: onHand,
+      reserved: reservedQuantity,
+      available: onHand - reservedQuantity
+    }
+  })
+}
+
+let defaultService: StockReservationService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getReservationService(): StockReservationService {
+  if (!defaultService) {
+    defaultService = new StockReservationService()
+  }
+  return defaultService
+}
+
+export default StockReservationService
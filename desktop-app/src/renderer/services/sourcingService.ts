@@ -0,0 +1,298 @@
+/**
+ * Sourcing Service - Suppliers of each raw material and the terms they offer
+ *
+ * A material can be bought from several suppliers (raw_materials_suppliers),
+ * each with its own price, lead time and minimum order quantity. One of them
+ * may be preferred; the preferred supplier is mirrored onto
+ * raw_materials.supplier_id so code reading the single supplier keeps working.
+ *
+ * Reorders buy from the cheapest supplier that delivers before the material
+ * is needed, see pickSupplier().
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, unwrap } from './transaction'
+import { TABLE_NAMES, MRP_CONFIG } from '../constants'
+import { MaterialSupplier, MaterialSourcingComparison } from '../types'
+
+export type MaterialSupplierInput = Omit<MaterialSupplier, 'id' | 'created_at' | 'updated_at'>
+
+export interface SupplierChoice {
+  offer: MaterialSupplier
+  lead_time_days: number
+  delivers_in_time: boolean
+}
+
+export class SourcingService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * Supplier terms, of the given materials or all of them
+   */
+  public async getOffers(materialIds?: string[]): Promise<MaterialSupplier[]> {
+    let query = this.client
+      .from(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS)
+      .select('*')
+
+    if (materialIds) {
+      if (materialIds.length === 0) return []
+      query = query.in('raw_material_id', materialIds)
+    }
+
+    const rows = unwrap<any[]>(await query) || []
+    return rows.map(normalizeOffer)
+  }
+
+  /**
+   * Save a supplier's terms for a material; an existing row for the same
+   * material and supplier is updated instead of duplicated
+   */
+  public async saveOffer(offer: MaterialSupplierInput, offerId?: string): Promise<MaterialSupplier> {
+    validateOffer(offer)
+
+    const existingId = offerId || (await this.getOffers([offer.raw_material_id]))
+      .find(row => row.supplier_id === offer.supplier_id)?.id
+    const fields = {
+      raw_material_id: offer.raw_material_id,
+      supplier_id: offer.supplier_id,
+      unit_price_try: offer.unit_price_try,
+      lead_time_days: offer.lead_time_days,
+      min_order_quantity: offer.min_order_quantity
+    }
+
+    const query = existingId
+      ? this.client.from(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS)
+        .update({ ...fields, ...(offer.is_preferred ? {} : { is_preferred: false }), updated_at: new Date().toISOString() })
+        .eq('id', existingId)
+      : this.client.from(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS).insert({ ...fields, is_preferred: false })
+
+    const rows = unwrap<any[]>(await query.select('*')) || []
+    if (!rows[0]) {
+      throw new Error(`Material supplier ${existingId} not found`)
+    }
+
+    if (offer.is_preferred && !rows[0].is_preferred) {
+      await this.setPreferred(offer.raw_material_id, offer.supplier_id)
+      return { ...normalizeOffer(rows[0]), is_preferred: true }
+    }
+    return normalizeOffer(rows[0])
+  }
+
+  public async deleteOffer(offerId: string): Promise<void> {
+    unwrap(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS)
+      .delete()
+      .eq('id', offerId))
+  }
+
+  /**
+   * Make one supplier the material's preferred supplier, clearing the flag on
+   * the others and updating raw_materials.supplier_id
+   */
+  public async setPreferred(materialId: string, supplierId: string): Promise<void> {
+    const offers = await this.getOffers([materialId])
+    const chosen = offers.find(offer => offer.supplier_id === supplierId)
+    if (!chosen) {
+      throw new Error(`Supplier ${supplierId} has no terms for material ${materialId}`)
+    }
+
+    const materials = unwrap<any[]>(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select('id, supplier_id')
+      .eq('id', materialId)) || []
+    if (!materials[0]) {
+      throw new Error(`Raw material ${materialId} not found`)
+    }
+    const previousSupplierId = materials[0].supplier_id ?? null
+    const previouslyPreferred = offers.filter(offer => offer.is_preferred && offer.id !== chosen.id).map(offer => offer.id)
+
+    await new Transaction()
+      .add({
+        name: `clear preferred supplier of material ${materialId}`,
+        run: async () => {
+          if (previouslyPreferred.length === 0) return
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS)
+            .update({ is_preferred: false })
+            .in('id', previouslyPreferred)
+            .select('id'))
+        },
+        rollback: async () => {
+          if (previouslyPreferred.length === 0) return
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS)
+            .update({ is_preferred: true })
+            .in('id', previouslyPreferred)
+            .select('id'))
+        }
+      })
+      .add({
+        name: `prefer supplier ${supplierId} for material ${materialId}`,
+        run: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS)
+            .update({ is_preferred: true })
+            .eq('id', chosen.id)
+            .select('id'))
+        },
+        rollback: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS)
+            .update({ is_preferred: chosen.is_preferred })
+            .eq('id', chosen.id)
+            .select('id'))
+        }
+      })
+      .add({
+        name: `set supplier of material ${materialId}`,
+        run: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS)
+            .update({ supplier_id: supplierId })
+            .eq('id', materialId)
+            .select('id'))
+        },
+        rollback: async () => {
+          unwrap(await this.client
+            .from(TABLE_NAMES.RAW_MATERIALS)
+            .update({ supplier_id: previousSupplierId })
+            .eq('id', materialId)
+            .select('id'))
+        }
+      })
+      .commit()
+  }
+
+  /**
+   * Every material with supplier terms, its suppliers side by side
+   */
+  public async getComparison(): Promise<MaterialSourcingComparison[]> {
+    const [materials, suppliers, offers] = await Promise.all([
+      this.client
+        .from(TABLE_NAMES.RAW_MATERIALS)
+        .select('id, name, stock_unit')
+        .order('name'),
+      this.client
+        .from(TABLE_NAMES.SUPPLIERS)
+        .select('id, name'),
+      this.getOffers()
+    ])
+
+    return buildSourcingComparison(
+      unwrap<Array<{ id: string; name: string; stock_unit: string | null }>>(materials) || [],
+      unwrap<Array<{ id: string; name: string }>>(suppliers) || [],
+      offers
+    )
+  }
+}
+
+function normalizeOffer(row: any): MaterialSupplier {
+  const optionalNumber = (value: any) => (value === null || value === undefined ? null : Number(value))
+
+  return {
+    ...row,
+    unit_price_try: optionalNumber(row.unit_price_try),
+    lead_time_days: optionalNumber(row.lead_time_days),
+    min_order_quantity: optionalNumber(row.min_order_quantity),
+    is_preferred: !!row.is_preferred
+  }
+}
+
+export function validateOffer(offer: MaterialSupplierInput): void {
+  if (!offer.raw_material_id || !offer.supplier_id) {
+    throw new Error('Supplier terms need a material and a supplier')
+  }
+
+  const fields: Array<[string, number | null]> = [
+    ['Unit price', offer.unit_price_try],
+    ['Lead time', offer.lead_time_days],
+    ['Minimum order quantity', offer.min_order_quantity]
+  ]
+  for (const [label, value] of fields) {
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      throw new Error(`${label} must be zero or more`)
+    }
+  }
+}
+
+/**
+ * Cheapest supplier whose lead time fits in the days until the material is
+ * needed (preferred, then faster suppliers first on equal prices). When none
+ * fits, the fastest one, marked as late. `daysUntilNeed` null means any lead
+ * time will do.
+ */
+export function pickSupplier(
+  offers: MaterialSupplier[],
+  daysUntilNeed: number | null,
+  defaultLeadTime: number = MRP_CONFIG.DEFAULT_LEAD_TIME_DAYS
+): SupplierChoice | null {
+  if (offers.length === 0) return null
+
+  const leadTime = (offer: MaterialSupplier) => offer.lead_time_days ?? defaultLeadTime
+  const price = (offer: MaterialSupplier) => offer.unit_price_try ?? Infinity
+  const inTime = offers.filter(offer => daysUntilNeed === null || leadTime(offer) <= daysUntilNeed)
+
+  if (inTime.length > 0) {
+    const [offer] = [...inTime].sort((a, b) =>
+      price(a) - price(b) ||
+      Number(b.is_preferred) - Number(a.is_preferred) ||
+      leadTime(a) - leadTime(b))
+    return { offer, lead_time_days: leadTime(offer), delivers_in_time: true }
+  }
+
+  const [offer] = [...offers].sort((a, b) => leadTime(a) - leadTime(b) || price(a) - price(b))
+  return { offer, lead_time_days: leadTime(offer), delivers_in_time: false }
+}
+
+export function buildSourcingComparison(
+  materials: Array<{ id: string; name: string; stock_unit: string | null }>,
+  suppliers: Array<{ id: string; name: string }>,
+  offers: MaterialSupplier[]
+): MaterialSourcingComparison[] {
+  const supplierNames = new Map(suppliers.map(supplier => [supplier.id, supplier.name]))
+  const comparison: MaterialSourcingComparison[] = []
+
+  for (const material of materials) {
+    const materialOffers = offers.filter(offer => offer.raw_material_id === material.id)
+    if (materialOffers.length === 0) continue
+
+    const prices = materialOffers.map(offer => offer.unit_price_try).filter((p): p is number => p !== null)
+    const leadTimes = materialOffers.map(offer => offer.lead_time_days).filter((d): d is number => d !== null)
+    const cheapest = prices.length > 0 ? Math.min(...prices) : null
+    const fastest = leadTimes.length > 0 ? Math.min(...leadTimes) : null
+
+    comparison.push({
+      raw_material_id: material.id,
+      material_name: material.name,
+      unit: material.stock_unit,
+      offers: materialOffers
+        .map(offer => ({
+          ...offer,
+          supplier_name: supplierNames.get(offer.supplier_id) || 'Bilinmeyen tedarikçi',
+          is_cheapest: cheapest !== null && offer.unit_price_try === cheapest,
+          is_fastest: fastest !== null && offer.lead_time_days === fastest
+        }))
+        .sort((a, b) => (a.unit_price_try ?? Infinity) - (b.unit_price_try ?? Infinity))
+    })
+  }
+
+  return comparison
+}
+
+let defaultService: SourcingService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getSourcingService(): SourcingService {
+  if (!defaultService) {
+    defaultService = new SourcingService()
+  }
+  return defaultService
+}
+
+export default SourcingService
@@ -0,0 +1,383 @@
+/**
+ * Stock Count Service - Physical inventory sessions
+ *
+ * A session snapshots the materials in scope when it starts. Counted
+ * quantities are saved on the session as they are entered, so a count can be
+ * resumed later. Posting writes one ADJUSTMENT movement per variance, tagged
+ * with the session id, and adjusts stock_quantity by the variance.
+ *
+ * Variances are measured against the book stock snapshotted when the session
+ * started, so movements posted while counting stay in the stock.
+ *
+ * ADJUSTMENT movements carry the signed variance (negative = shrinkage),
+ * unlike IN/OUT whose direction comes from the movement type.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { Transaction, unwrap } from './transaction'
+import {
+  TABLE_NAMES,
+  MOVEMENT_TYPES,
+  STOCK_COUNT_STATUS,
+  STOCK_COUNT_SCOPES,
+  StockCountScope
+} from '../constants'
+import { StockCountSession, StockCountLine, StockCountVariance } from '../types'
+
+export interface NewStockCountSession {
+  name: string
+  scope?: StockCountScope
+  supplier_id?: string | null
+  notes?: string | null
+}
+
+export interface StockCountMaterialInput {
+  id: string
+  name: string
+  stock_unit: string | null
+  stock_quantity: number | null
+  unit_price_try?: number | null
+  supplier_id: string | null
+  is_semi_finished?: boolean | null
+}
+
+export interface StockCountEntry {
+  raw_material_id: string
+  counted_quantity: number | null
+}
+
+export interface StockCountPostResult {
+  sessionId: string
+  variances: StockCountVariance[]
+  movementIds: string[]
+}
+
+const MATERIAL_COLUMNS = 'id, name, stock_unit, stock_quantity, unit_price_try, supplier_id, is_semi_finished'
+
+export class StockCountService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * Open a count session for the materials matching the scope and supplier
+   */
+  public async startSession(session: NewStockCountSession): Promise<StockCountSession> {
+    const name = session.name.trim()
+    if (!name) {
+      throw new Error('Stock count session needs a name')
+    }
+
+    const scope = session.scope || STOCK_COUNT_SCOPES.ALL
+    const materials = unwrap<StockCountMaterialInput[]>(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select(MATERIAL_COLUMNS)
+      .order('name', { ascending: true })) || []
+
+    const lines = buildCountLines(selectCountMaterials(materials, scope, session.supplier_id || null))
+    if (lines.length === 0) {
+      throw new Error('No raw materials match the stock count filter')
+    }
+
+    const rows = unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_COUNT_SESSIONS)
+      .insert({
+        name,
+        status: STOCK_COUNT_STATUS.OPEN,
+        scope,
+        supplier_id: session.supplier_id || null,
+        lines_json: lines,
+        notes: session.notes || null
+      })
+      .select('*'))
+
+    return rows[0]
+  }
+
+  /**
+   * Count sessions, most recent first
+   */
+  public async getSessions(): Promise<StockCountSession[]> {
+    return unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_COUNT_SESSIONS)
+      .select('*')
+      .order('created_at', { ascending: false })) || []
+  }
+
+  public async getSession(sessionId: string): Promise<StockCountSession> {
+    const session = unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_COUNT_SESSIONS)
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle())
+
+    if (!session) {
+      throw new Error(`Stock count session ${sessionId} not found`)
+    }
+    return session
+  }
+
+  /**
+   * Save counted quantities on an open session
+   */
+  public async saveCounts(sessionId: string, entries: StockCountEntry[]): Promise<StockCountSession> {
+    const session = await this.getOpenSession(sessionId)
+    const lines = applyCounts(session.lines_json, entries)
+
+    const rows = unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_COUNT_SESSIONS)
+      .update({ lines_json: lines, updated_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .select('*'))
+
+    return rows[0]
+  }
+
+  /**
+   * Counted quantities against the book stock at session start
+   */
+  public async getVariances(sessionId: string): Promise<StockCountVariance[]> {
+    const session = await this.getSession(sessionId)
+    return calculateVariances(session.lines_json, await this.getMaterials(session.lines_json))
+  }
+
+  /**
+   * Post the variances as ADJUSTMENT movements and close the session;
+   * throws TransactionError naming the failed step
+   */
+  public async postSession(sessionId: string, now: Date = new Date()): Promise<StockCountPostResult> {
+    const session = await this.getOpenSession(sessionId)
+    const variances = calculateVariances(session.lines_json, await this.getMaterials(session.lines_json))
+      .filter(line => line.variance !== 0)
+    const timestamp = now.toISOString()
+    const transaction = new Transaction()
+
+    // Closing the session first keeps a second post from adjusting twice
+    transaction.add({
+      name: `close stock count session ${sessionId}`,
+      run: async () => {
+        const rows = unwrap(await this.client
+          .from(TABLE_NAMES.STOCK_COUNT_SESSIONS)
+          .update({ status: STOCK_COUNT_STATUS.POSTED, posted_at: timestamp, updated_at: timestamp })
+          .eq('id', sessionId)
+          .eq('status', STOCK_COUNT_STATUS.OPEN)
+          .select('id'))
+        if (!rows?.length) {
+          throw new Error(`Stock count session ${sessionId} is no longer open`)
+        }
+      },
+      rollback: async () => {
+        unwrap(await this.client
+          .from(TABLE_NAMES.STOCK_COUNT_SESSIONS)
+          .update({ status: STOCK_COUNT_STATUS.OPEN, posted_at: null, updated_at: session.updated_at })
+          .eq('id', sessionId)
+          .select('id'))
+      }
+    })
+
+    const firstMovementStep = transaction.size
+
+    for (const line of variances) {
+      transaction.add({
+        name: `insert ADJUSTMENT movement for material ${line.raw_material_id}`,
+        run: async () => {
+          const rows = unwrap(await this.client
+            .from(TABLE_NAMES.STOCK_MOVEMENTS)
+            .insert({
+              raw_material_id: line.raw_material_id,
+              movement_type: MOVEMENT_TYPES.ADJUSTMENT,
+              quantity: line.variance,
+              reason: `Stock count ${session.name}`,
+              stock_count_session_id: sessionId,
+              notes: `Book ${line.book_quantity}, counted ${line.counted_quantity}`
+            })
+            .select('id'))
+          return rows?.[0]?.id as string
+        },
+        rollback: async (movementId: string) => {
+          if (!movementId) return
+          unwrap(await this.client
+            .from(TABLE_NAMES.STOCK_MOVEMENTS)
+            .delete()
+            .eq('id', movementId))
+        }
+      })
+    }
+
+    for (const line of variances) {
+      transaction.add({
+        name: `adjust stock of material ${line.raw_material_id} by ${line.variance}`,
+        run: async () => {
+          unwrap(await this.client.rpc('adjust_material_stock', { p_material_id: line.raw_material_id, p_delta: line.variance }))
+        },
+        rollback: async () => {
+          unwrap(await this.client.rpc('adjust_material_stock', { p_material_id: line.raw_material_id, p_delta: -line.variance }))
+        }
+      })
+    }
+
+    const results = await transaction.commit()
+
+    return {
+      sessionId,
+      variances,
+      movementIds: results.slice(firstMovementStep, firstMovementStep + variances.length).filter(Boolean)
+    }
+  }
+
+  /**
+   * Abandon an open session without touching stock
+   */
+  public async cancelSession(sessionId: string): Promise<void> {
+    await this.getOpenSession(sessionId)
+
+    unwrap(await this.client
+      .from(TABLE_NAMES.STOCK_COUNT_SESSIONS)
+      .update({ status: STOCK_COUNT_STATUS.CANCELLED, updated_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .select('id'))
+  }
+
+  private async getOpenSession(sessionId: string): Promise<StockCountSession> {
+    const session = await this.getSession(sessionId)
+    if (session.status !== STOCK_COUNT_STATUS.OPEN) {
+      throw new Error(`Stock count session ${sessionId} is ${session.status}`)
+    }
+    return session
+  }
+
+  private async getMaterials(lines: StockCountLine[]): Promise<StockCountMaterialInput[]> {
+    if (lines.length === 0) return []
+
+    return unwrap(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select(MATERIAL_COLUMNS)
+      .in('id', lines.map(line => line.raw_material_id))) || []
+  }
+}
+
+/**
+ * Materials a session covers
+ */
+export function selectCountMaterials(
+  materials: StockCountMaterialInput[],
+  scope: StockCountScope,
+  supplierId: string | null
+): StockCountMaterialInput[] {
+  return materials.filter(material => {
+    if (supplierId && material.supplier_id !== supplierId) return false
+    if (scope === STOCK_COUNT_SCOPES.RAW) return !material.is_semi_finished
+    if (scope === STOCK_COUNT_SCOPES.SEMI_FINISHED) return !!material.is_semi_finished
+    return true
+  })
+}
+
+/**
+ * Uncounted lines with the book stock at session start
+ */
+export function buildCountLines(materials: StockCountMaterialInput[]): StockCountLine[] {
+  return materials.map(material => ({
+    raw_material_id: material.id,
+    material_name: material.name,
+    unit: material.stock_unit,
+    expected_quantity: Number(material.stock_quantity) || 0,
+    counted_quantity: null
+  }))
+}
+
+/**
+ * Merge counted quantities into the session lines
+ */
+export function applyCounts(lines: StockCountLine[], entries: StockCountEntry[]): StockCountLine[] {
+  const next = lines.map(line => ({ ...line }))
+
+  for (const entry of entries) {
+    const line = next.find(l => l.raw_material_id === entry.raw_material_id)
+    if (!line) {
+      throw new Error(`Material ${entry.raw_material_id} is not part of this stock count`)
+    }
+    if (entry.counted_quantity !== null && (!Number.isFinite(entry.counted_quantity) || entry.counted_quantity < 0)) {
+      throw new Error(`Counted quantity of ${line.material_name} must be zero or more`)
+    }
+    line.counted_quantity = entry.counted_quantity
+  }
+
+  return next
+}
+
+/**
+ * Variance per counted line against the stock snapshotted at session start
+ *
+ * Uncounted lines and materials deleted since the count started are skipped.
+ */
+export function calculateVariances(
+  lines: StockCountLine[],
+  materials: StockCountMaterialInput[]
+): StockCountVariance[] {
+  const byId = new Map(materials.map(material => [material.id, material]))
+  const variances: StockCountVariance[] = []
+
+  for (const line of lines) {
+    const material = byId.get(line.raw_material_id)
+    if (line.counted_quantity === null || !material) continue
+
+    const bookQuantity = Number(line.expected_quantity) || 0
+    const variance = line.counted_quantity - bookQuantity
+
+    variances.push({
+      raw_material_id: line.raw_material_id,
+      material_name: line.material_name,
+      unit: line.unit,
+      book_quantity: bookQuantity,
+      counted_quantity: line.counted_quantity,
+      variance,
+      variance_value: variance * (material.unit_price_try || 0)
+    })
+  }
+
+  return variances
+}
+
+/**
+ * Semicolon separated export of a session (Excel in Turkish locale reads
+ * decimal commas); variances are included when given
+ */
+export function stockCountToCsv(session: StockCountSession, variances: StockCountVariance[] = []): string {
+  const byId = new Map(variances.map(line => [line.raw_material_id, line]))
+  const number = (value: number | null | undefined) =>
+    value === null || value === undefined ? '' : String(Number(value.toFixed(3))).replace('.', ',')
+  const text = (value: string | null) => `"${(value || '').replace(/"/g, '""')}"`
+
+  const rows = [
+    ['Malzeme', 'Birim', 'Beklenen', 'Sayılan', 'Fark', 'Fark Tutarı (TRY)'].join(';'),
+    ...session.lines_json.map(line => {
+      const variance = byId.get(line.raw_material_id)
+      return [
+        text(line.material_name),
+        text(line.unit),
+        number(line.expected_quantity),
+        number(line.counted_quantity),
+        number(variance?.variance),
+        number(variance?.variance_value)
+      ].join(';')
+    })
+  ]
+
+  return '\uFEFF' + rows.join('\r\n')
+}
+
+let defaultService: StockCountService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getStockCountService(): StockCountService {
+  if (!defaultService) {
+    defaultService = new StockCountService()
+  }
+  return defaultService
+}
+
+export default StockCountService
@@ -0,0 +1,288 @@
+/**
+ * Supplier Scorecard Service - Supplier performance from purchase order history
+ *
+ * Only orders that were actually placed count; drafts and drafts cancelled
+ * before ordering are ignored. Per supplier:
+ * - on-time rate: every receipt by the expected date, open orders past it count as late
+ * - fill rate: received share of the ordered quantity on closed orders
+ * - lead time: ordering to each receipt, partial ones included, against the
+ *   promised lead time of the slowest line (supplier terms, else the
+ *   material's lead_time_days)
+ * - price volatility: coefficient of variation of the prices paid per material
+ *
+ * The score weighs these by SUPPLIER_SCORE_CONFIG.WEIGHTS.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { unwrap } from './transaction'
+import { roundMoney } from './paymentService'
+import { normalizeItems } from './purchaseOrderService'
+import { TABLE_NAMES, SUPPLIER_ORDER_STATUS, SUPPLIER_SCORE_CONFIG } from '../constants'
+import { SupplierOrder, SupplierOrderReceipt, SupplierScorecard, SupplierScorecardOrder, SupplierPricePoint } from '../types'
+
+export interface ScorecardLeadTimeInput {
+  raw_material_id: string
+  supplier_id: string | null
+  lead_time_days: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class SupplierScorecardService {
+  private client: any
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * Scorecards of all suppliers with placed orders, best first
+   */
+  public async getScorecards(now: Date = new Date()): Promise<SupplierScorecard[]> {
+    const [suppliers, orders, terms, materials] = await Promise.all([
+      this.selectAll<{ id: string; name: string }>(TABLE_NAMES.SUPPLIERS, 'id, name'),
+      this.selectAll<SupplierOrder>(TABLE_NAMES.SUPPLIER_ORDERS, '*'),
+      this.selectAll<ScorecardLeadTimeInput>(TABLE_NAMES.RAW_MATERIALS_SUPPLIERS, 'raw_material_id, supplier_id, lead_time_days'),
+      this.selectAll<{ id: string; lead_time_days: number | null }>(TABLE_NAMES.RAW_MATERIALS, 'id, lead_time_days')
+    ])
+
+    const promised: ScorecardLeadTimeInput[] = [
+      ...terms,
+      ...materials.map(material => ({ raw_material_id: material.id, supplier_id: null, lead_time_days: material.lead_time_days }))
+    ]
+
+    return buildSupplierScorecards(
+      suppliers,
+      orders.map(order => ({ ...order, items_json: normalizeItems(order.items_json) })),
+      promised,
+      now
+    )
+  }
+
+  /**
+   * Read a whole table page by page (PostgREST caps a response)
+   */
+  private async selectAll<T>(table: string, columns: string): Promise<T[]> {
+    const rows: T[] = []
+
+    for (let from = 0; ; from += SUPPLIER_SCORE_CONFIG.PAGE_SIZE) {
+      const page = unwrap<T[]>(await this.client
+        .from(table)
+        .select(columns)
+        .order('id', { ascending: true })
+        .range(from, from + SUPPLIER_SCORE_CONFIG.PAGE_SIZE - 1)) || []
+
+      rows.push(...page)
+      if (page.length < SUPPLIER_SCORE_CONFIG.PAGE_SIZE) break
+    }
+
+    return rows
+  }
+}
+
+const daysBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null)
+const optionalRound = (value: number | null) => (value === null ? null : roundMoney(value))
+
+/**
+ * Promised lead time of a supplier for a material: its own terms first,
+ * otherwise the material's default (supplier_id null)
+ */
+function promisedLeadTime(promised: ScorecardLeadTimeInput[], supplierId: string, materialId: string): number | null {
+  const own = promised.find(row => row.raw_material_id === materialId && row.supplier_id === supplierId && row.lead_time_days !== null)
+  const fallback = promised.find(row => row.raw_material_id === materialId && row.supplier_id === null && row.lead_time_days !== null)
+  return own?.lead_time_days ?? fallback?.lead_time_days ?? null
+}
+
+/**
+ * Dated receipts of an order; orders received before receipts were recorded
+ * count as one receipt of everything received on received_at
+ */
+export function orderReceipts(order: SupplierOrder): SupplierOrderReceipt[] {
+  if (order.receipts_json && order.receipts_json.length > 0) return order.receipts_json
+  if (!order.received_at) return []
+
+  return [{
+    received_at: order.received_at,
+    lines: order.items_json.map(item => ({ material_id: item.material_id, quantity: item.received_quantity, unit_price: item.unit_price }))
+  }]
+}
+
+/**
+ * How one placed order counts towards the scorecard
+ *
+ * Every receipt counts, so partial deliveries are dated too: an order is late
+ * once a receipt came after the expected date or goods are still outstanding
+ * past it, and its lead time is the quantity-weighted time to each receipt.
+ */
+export function scoreOrder(order: SupplierOrder, promised: ScorecardLeadTimeInput[], now: Date): SupplierScorecardOrder {
+  const orderedAt = order.ordered_at || order.created_at
+  const expected = order.expected_date ? order.expected_date.slice(0, 10) : null
+  const receipts = orderReceipts(order).filter(receipt => receipt.received_at)
+  const lastReceived = receipts.reduce<string | null>((last, receipt) =>
+    (!last || receipt.received_at > last ? receipt.received_at : last), null)
+  const closed = order.status === SUPPLIER_ORDER_STATUS.RECEIVED || order.status === SUPPLIER_ORDER_STATUS.CANCELLED
+
+  let onTime: boolean | null = null
+  if (expected) {
+    if (receipts.some(receipt => receipt.received_at.slice(0, 10) > expected)) {
+      onTime = false
+    } else if (!closed && now.toISOString().slice(0, 10) > expected) {
+      onTime = false
+    } else if (closed && receipts.length > 0) {
+      onTime = true
+    }
+  }
+
+  const ordered = order.items_json.reduce((sum, item) => sum + item.quantity, 0)
+  const delivered = order.items_json.reduce((sum, item) => sum + Math.min(item.received_quantity, item.quantity), 0)
+  const leadTimes = order.items_json
+    .map(item => promisedLeadTime(promised, order.supplier_id, item.material_id))
+    .filter((days): days is number => days !== null)
+
+  return {
+    order_id: order.id,
+    status: order.status,
+    ordered_at: orderedAt,
+    expected_date: expected,
+    received_at: lastReceived,
+    on_time: onTime,
+    fill_rate: closed && ordered > 0 ? delivered / ordered : null,
+    lead_time_days: optionalRound(receiptLeadTime(orderedAt, receipts)),
+    promised_lead_time_days: leadTimes.length > 0 ? Math.max(...leadTimes) : null
+  }
+}
+
+/**
+ * Days from ordering to receipt, weighted by the quantity of each receipt
+ */
+function receiptLeadTime(orderedAt: string, receipts: SupplierOrderReceipt[]): number | null {
+  const weighted = receipts.map(receipt => ({
+    days: daysBetween(orderedAt, receipt.received_at),
+    quantity: receipt.lines.reduce((sum, line) => sum + (Number(line.quantity) || 0), 0)
+  }))
+  const total = weighted.reduce((sum, receipt) => sum + receipt.quantity, 0)
+
+  if (total <= 0) return average(weighted.map(receipt => receipt.days))
+  return weighted.reduce((sum, receipt) => sum + receipt.days * receipt.quantity, 0) / total
+}
+
+/**
+ * Mean coefficient of variation (%) of the prices paid per material, over
+ * materials bought at least twice
+ */
+export function priceVolatility(prices: SupplierPricePoint[]): number | null {
+  const byMaterial = new Map<string, number[]>()
+  for (const point of prices) {
+    byMaterial.set(point.material_id, [...(byMaterial.get(point.material_id) || []), point.unit_price])
+  }
+
+  const variations: number[] = []
+  for (const values of byMaterial.values()) {
+    if (values.length < 2) continue
+    const mean = average(values) as number
+    if (mean <= 0) continue
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+    variations.push((Math.sqrt(variance) / mean) * 100)
+  }
+
+  return optionalRound(average(variations))
+}
+
+/**
+ * Weighted 0-100 score; metrics without data do not count
+ */
+export function supplierScore(card: Pick<SupplierScorecard,
+  'on_time_rate' | 'fill_rate' | 'avg_lead_time_days' | 'promised_lead_time_days' | 'price_volatility_percent'>
+): number | null {
+  const { WEIGHTS, PRICE_VOLATILITY_CAP } = SUPPLIER_SCORE_CONFIG
+  const parts: Array<[number, number]> = []
+
+  if (card.on_time_rate !== null) parts.push([WEIGHTS.ON_TIME, card.on_time_rate])
+  if (card.fill_rate !== null) parts.push([WEIGHTS.FILL_RATE, card.fill_rate])
+  if (card.avg_lead_time_days !== null && card.promised_lead_time_days !== null) {
+    const ratio = card.avg_lead_time_days <= card.promised_lead_time_days ? 1 : card.promised_lead_time_days / card.avg_lead_time_days
+    parts.push([WEIGHTS.LEAD_TIME, ratio])
+  }
+  if (card.price_volatility_percent !== null) {
+    parts.push([WEIGHTS.PRICE_STABILITY, Math.max(0, 1 - card.price_volatility_percent / PRICE_VOLATILITY_CAP)])
+  }
+
+  const weight = parts.reduce((sum, [w]) => sum + w, 0)
+  if (weight === 0) return null
+  return roundMoney((parts.reduce((sum, [w, value]) => sum + w * value, 0) / weight) * 100)
+}
+
+/**
+ * Scorecards ranked by score (suppliers without a score last)
+ */
+export function buildSupplierScorecards(
+  suppliers: Array<{ id: string; name: string }>,
+  orders: SupplierOrder[],
+  promised: ScorecardLeadTimeInput[],
+  now: Date = new Date()
+): SupplierScorecard[] {
+  const placed = orders.filter(order =>
+    order.status !== SUPPLIER_ORDER_STATUS.PENDING &&
+    !(order.status === SUPPLIER_ORDER_STATUS.CANCELLED && !order.ordered_at))
+
+  const cards = suppliers
+    .map(supplier => {
+      const supplierOrders = placed
+        .filter(order => order.supplier_id === supplier.id)
+        .sort((a, b) => (a.ordered_at || a.created_at).localeCompare(b.ordered_at || b.created_at))
+      const scored = supplierOrders.map(order => scoreOrder(order, promised, now))
+
+      const prices: SupplierPricePoint[] = supplierOrders.flatMap(order => order.items_json
+        .filter(item => item.unit_price !== null && item.unit_price !== undefined)
+        .map(item => ({
+          material_id: item.material_id,
+          material_name: item.material_name,
+          ordered_at: order.ordered_at || order.created_at,
+          unit_price: Number(item.unit_price)
+        })))
+
+      const due = scored.filter(order => order.on_time !== null)
+      const fillRates = scored.map(order => order.fill_rate).filter((rate): rate is number => rate !== null)
+      const received = scored.filter(order => order.lead_time_days !== null)
+
+      const metrics = {
+        on_time_rate: due.length > 0 ? due.filter(order => order.on_time).length / due.length : null,
+        fill_rate: average(fillRates),
+        avg_lead_time_days: optionalRound(average(received.map(order => order.lead_time_days as number))),
+        promised_lead_time_days: optionalRound(average(received
+          .map(order => order.promised_lead_time_days)
+          .filter((days): days is number => days !== null))),
+        price_volatility_percent: priceVolatility(prices)
+      }
+
+      return {
+        supplier_id: supplier.id,
+        supplier_name: supplier.name,
+        rank: 0,
+        score: supplierScore(metrics),
+        order_count: scored.length,
+        ...metrics,
+        orders: scored,
+        prices
+      }
+    })
+    .filter(card => card.order_count > 0)
+    .sort((a, b) => (b.score ?? -1) - (a.score ?? -1) || a.supplier_name.localeCompare(b.supplier_name, 'tr'))
+
+  return cards.map((card, index) => ({ ...card, rank: index + 1 }))
+}
+
+let defaultService: SupplierScorecardService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getSupplierScorecardService(): SupplierScorecardService {
+  if (!defaultService) {
+    defaultService = new SupplierScorecardService()
+  }
+  return defaultService
+}
+
+export default SupplierScorecardService
@@ -0,0 +1,534 @@
+/**
+ * Sync Service - Local replica and outbox replay for offline use
+ *
+ * The Electron main process keeps a SQLite copy of the core tables
+ * (OFFLINE_SYNC_CONFIG.TABLES). While Supabase is unreachable, reads are
+ * served from that copy and writes are applied to it and queued in an outbox.
+ *
+ * sync() replays the outbox in order once SupabaseManager.healthCheck()
+ * succeeds, then pulls the rows changed since the last pull (see
+ * OFFLINE_SYNC_CONFIG.CHANGES); each table is refreshed in full now and then
+ * to drop rows deleted on the server. An update or delete only applies while
+ * the server row's change column (updated_at, "updatedAt" on the web shop
+ * tables) still holds the version the edit was based on, and an insert only
+ * if the id is free; otherwise the entry is parked as a conflict for the user
+ * to resolve. The server's triggers stamp the change column.
+ *
+ * Embedded selects (`*, order_items(*)`) are answered from the replica along
+ * OFFLINE_SYNC_CONFIG.RELATIONS; others fail with OfflineQueryError.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { unwrap } from './transaction'
+import { OFFLINE_SYNC_CONFIG } from '../constants'
+import type { QueryOptions } from './database'
+import type { LocalStoreAPI, LocalStoreStatus, OutboxEntry, OutboxOperation, SyncConflict } from '../types/electron'
+
+export interface SyncResult {
+  online: boolean
+  pushed: number
+  conflicts: number
+  failed: number // Entries left in the outbox after an error
+  pulled: number // Rows copied from the server
+}
+
+type Row = Record<string, any>
+
+type ChangeTracking = { column: string } | { parent: string; key: string }
+
+interface SelectField {
+  column?: string
+  embed?: { alias: string; name: string; fields: SelectField[] }
+}
+
+const CHANGES: Record<string, ChangeTracking | undefined> = OFFLINE_SYNC_CONFIG.CHANGES
+
+export class OfflineQueryError extends Error {
+  constructor(message: string) {
+    super(`${message}; this query needs a connection to Supabase`)
+    this.name = 'OfflineQueryError'
+  }
+}
+
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Column holding a row's version (see OFFLINE_SYNC_CONFIG.CHANGES), or null
+ * for tables without one
+ */
+export function changeColumn(table: string): string | null {
+  const tracking = CHANGES[table]
+  return tracking && 'column' in tracking ? tracking.column : null
+}
+
+/**
+ * Errors that mean Supabase could not be reached, as opposed to rejected queries
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true
+  const message = error instanceof Error ? error.message : (error as { message?: string } | null)?.message || ''
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message)
+}
+
+/**
+ * Applies DatabaseService query options to rows read from the replica
+ */
+export function applyQueryOptions(rows: Row[], options: QueryOptions = {}): Row[] {
+  let result = rows.filter(row =>
+    Object.entries(options.filter || {}).every(([key, value]) => row[key] === value)
+  )
+
+  if (options.orderBy) {
+    const column = options.orderBy
+    const direction = options.orderDirection === 'asc' ? 1 : -1
+    result = [...result].sort((a, b) => (a[column] > b[column] ? 1 : a[column] < b[column] ? -1 : 0) * direction)
+  }
+
+  const offset = options.offset || 0
+  if (options.limit || offset) {
+    result = result.slice(offset, options.limit ? offset + options.limit : undefined)
+  }
+
+  return result
+}
+
+/**
+ * Parses a PostgREST select list (`*, suppliers:supplier_id (id, name)`)
+ */
+export function parseSelect(select: string): SelectField[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of select) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+
+  return parts.map(part => part.trim()).filter(Boolean).map(part => {
+    const open = part.indexOf('(')
+    if (open === -1) return { column: part }
+
+    const head = part.slice(0, open).trim()
+    const [alias, hint] = head.includes(':') ? head.split(':').map(value => value.trim()) : [head, head]
+    return {
+      embed: {
+        alias: alias.split('!')[0],
+        name: hint.split('!')[0],
+        fields: parseSelect(part.slice(open + 1, part.lastIndexOf(')')))
+      }
+    }
+  })
+}
+
+/**
+ * How an embedded resource joins the table, following OFFLINE_SYNC_CONFIG.RELATIONS
+ */
+function resolveEmbed(table: string, embed: { alias: string; name: string }): { target: string; column: string; many: boolean } {
+  const relations = OFFLINE_SYNC_CONFIG.RELATIONS
+  // suppliers:supplier_id, or the referenced table by name
+  const parent = relations.find(r => r.table === table && (r.column === embed.name || r.references === embed.name))
+  if (parent) return { target: parent.references, column: parent.column, many: false }
+  // order_items, or raw_materials:supplier_id seen from suppliers
+  const child = relations.find(r => r.references === table &&
+    (r.table === embed.name || (r.table === embed.alias && r.column === embed.name)))
+  if (child) return { target: child.table, column: child.column, many: true }
+
+  throw new OfflineQueryError(`${table} cannot embed ${embed.alias} offline`)
+}
+
+function latest(rows: Row[], column: string): string | null {
+  let result: string | null = null
+  for (const row of rows) {
+    const value = row[column]
+    if (value && (!result || new Date(value).getTime() > new Date(result).getTime())) result = value
+  }
+  return result
+}
+
+function newRecordId(): string {
+  return globalThis.crypto.randomUUID()
+}
+
+export class SyncService {
+  private client: any
+  private store: LocalStoreAPI | null
+  private running: Promise<SyncResult | null> | null = null
+  private offline = false
+
+  constructor(client?: any, store?: LocalStoreAPI | null) {
+    this.client = client || supabaseManager.getClient()
+    this.store = store !== undefined ? store : (typeof window !== 'undefined' && window.electronAPI?.localStore) || null
+  }
+
+  /**
+   * False outside Electron (browser preview, tests without a store)
+   */
+  isAvailable(): boolean {
+    return this.store !== null
+  }
+
+  /**
+   * True from a failed health check or request until the next sync reaches
+   * Supabase; reads then go to the replica without trying the network first
+   */
+  isOffline(): boolean {
+    return this.offline
+  }
+
+  markOffline(): void {
+    this.offline = true
+  }
+
+  /**
+   * Rows from the replica, with embedded resources joined locally;
+   * throws OfflineQueryError for embeds the replica cannot answer
+   */
+  async read(table: string, options: QueryOptions = {}): Promise<Row[]> {
+    if (!this.store) return []
+    const rows = applyQueryOptions(await this.store.select(table, options.filter), options)
+    return options.select ? this.project(table, rows, parseSelect(options.select), new Map()) : rows
+  }
+
+  /**
+   * Applies a write to the replica and queues it for the server.
+   * Returns the row as it now looks locally (null for deletes).
+   */
+  async queueWrite(table: string, operation: OutboxOperation, data: Row | null, recordId?: string): Promise<Row | null> {
+    if (!this.store) {
+      throw new Error('Offline store is not available')
+    }
+    if (operation !== 'insert' && !recordId) {
+      throw new Error(`Record id is required to queue an ${operation}`)
+    }
+
+    const id = recordId || data?.id || newRecordId()
+    const column = changeColumn(table)
+    const [current] = operation === 'insert' ? [] : await this.store.select(table, { id })
+    const payload = operation === 'delete' ? null : { ...data, id }
+
+    await this.store.enqueue({
+      table,
+      operation,
+      record_id: id,
+      payload,
+      base_updated_at: (column && current?.[column]) || null
+    })
+
+    return payload && { ...current, ...payload }
+  }
+
+  /**
+   * Replays the outbox in order. Stops at the first failing entry so that
+   * dependent writes (an order before its items) keep their order, unless it
+   * has already failed OFFLINE_SYNC_CONFIG.MAX_ATTEMPTS times.
+   */
+  async push(): Promise<Pick<SyncResult, 'pushed' | 'conflicts' | 'failed'>> {
+    const store = this.requireStore()
+    const entries = await store.outbox()
+    const result = { pushed: 0, conflicts: 0, failed: 0 }
+    // Versions written by this push, by record; later entries were made on top of them
+    const versions = new Map<string, string>()
+
+    for (const [index, entry] of entries.entries()) {
+      try {
+        const outcome = await this.replay(entry, versions)
+        if (outcome === 'conflict') result.conflicts++
+        else result.pushed++
+      } catch (error) {
+        await store.fail(entry.id, error instanceof Error ? error.message : String(error))
+        if (entry.attempts + 1 < OFFLINE_SYNC_CONFIG.MAX_ATTEMPTS) {
+          result.failed += entries.length - index
+          break
+        }
+        result.failed++
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Brings the replica up to date with the server. A table is pulled in full
+   * the first time, every OFFLINE_SYNC_CONFIG.FULL_PULL_INTERVAL_MS and when
+   * `full` is set; otherwise only rows changed since the last pull are fetched.
+   */
+  async pull(
+    tables: readonly string[] = OFFLINE_SYNC_CONFIG.TABLES,
+    options: { full?: boolean; now?: Date } = {}
+  ): Promise<number> {
+    const store = this.requireStore()
+    const state = await store.pullState()
+    const now = options.now || new Date()
+    // Ids of the rows pulled per table, null when the table was pulled in full
+    const changed = new Map<string, string[] | null>()
+    let pulled = 0
+
+    for (const table of tables) {
+      const tracking = CHANGES[table]
+      const previous = state[table]
+      const fullDue = !previous?.full_pulled_at ||
+        now.getTime() - new Date(previous.full_pulled_at).getTime() >= OFFLINE_SYNC_CONFIG.FULL_PULL_INTERVAL_MS
+      const parentIds = tracking && 'parent' in tracking ? changed.get(tracking.parent) : undefined
+
+      if (options.full || fullDue || !tracking || ('column' in tracking ? !previous?.cursor : !parentIds)) {
+        const rows = await this.fetchAll(table)
+        pulled += await store.replaceTable(table, rows, tracking && 'column' in tracking ? latest(rows, tracking.column) : null)
+        changed.set(table, null)
+      } else if ('column' in tracking) {
+        const rows = await this.fetchChanged(table, tracking.column, previous.cursor as string)
+        pulled += await store.mergeRows(table, rows, latest(rows, tracking.column) || previous.cursor)
+        changed.set(table, rows.map(row => String(row.id)))
+      } else {
+        for (let index = 0; index < parentIds!.length; index += OFFLINE_SYNC_CONFIG.ID_BATCH_SIZE) {
+          const batch = parentIds!.slice(index, index + OFFLINE_SYNC_CONFIG.ID_BATCH_SIZE)
+          pulled += await store.replaceChildren(table, tracking.key, batch, await this.fetchChildren(table, tracking.key, batch))
+        }
+        changed.set(table, [])
+      }
+    }
+
+    return pulled
+  }
+
+  /**
+   * Health check, outbox replay and refresh. Concurrent calls share one run;
+   * returns null when there is no local store.
+   */
+  sync(): Promise<SyncResult | null> {
+    if (!this.store) return Promise.resolve(null)
+    if (!this.running) {
+      this.running = this.runSync().finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  async status(): Promise<LocalStoreStatus | null> {
+    return this.store ? this.store.status() : null
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    return this.store ? this.store.conflicts() : []
+  }
+
+  /**
+   * Re-queues the local edit on top of the server version
+   */
+  async keepLocal(conflict: SyncConflict): Promise<void> {
+    const store = this.requireStore()
+    await store.resolveConflict(conflict.id)
+
+    const operation = conflict.remote ? conflict.operation : conflict.operation === 'delete' ? null : 'insert'
+    if (!operation) return
+
+    await store.enqueue({
+      table: conflict.table,
+      operation,
+      record_id: conflict.record_id,
+      payload: operation === 'delete' ? null : conflict.payload,
+      base_updated_at: conflict.remote?.[changeColumn(conflict.table) || ''] || null
+    })
+  }
+
+  /**
+   * Drops the local edit and takes the server version into the replica
+   */
+  async keepRemote(conflict: SyncConflict): Promise<void> {
+    await this.requireStore().resolveConflict(conflict.id, conflict.remote)
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const online = await supabaseManager.healthCheck()
+    this.offline = !online
+    if (!online) {
+      return { online: false, pushed: 0, conflicts: 0, failed: 0, pulled: 0 }
+    }
+
+    const pushed = await this.push()
+    const pulled = pushed.failed === 0 ? await this.pull() : 0
+    return { online: true, ...pushed, pulled }
+  }
+
+  /**
+   * Whole table in id order; keyset paging, so rows deleted meanwhile cannot
+   * shift others past a page boundary (they would be dropped locally)
+   */
+  private async fetchAll(table: string): Promise<Row[]> {
+    const rows: Row[] = []
+    let last: string | null = null
+
+    for (;;) {
+      let query = this.client.from(table).select('*')
+      if (last !== null) query = query.gt('id', last)
+      const page: Row[] = unwrap<Row[]>(await query
+        .order('id', { ascending: true })
+        .limit(OFFLINE_SYNC_CONFIG.PAGE_SIZE)) || []
+
+      rows.push(...page)
+      if (page.length < OFFLINE_SYNC_CONFIG.PAGE_SIZE) break
+      last = String(page[page.length - 1].id)
+    }
+
+    return rows
+  }
+
+  /**
+   * Rows whose change column is at or after the cursor, less an overlap for
+   * rows committed after a later change was already pulled
+   */
+  private async fetchChanged(table: string, column: string, cursor: string): Promise<Row[]> {
+    const since = new Date(new Date(cursor).getTime() - OFFLINE_SYNC_CONFIG.CURSOR_OVERLAP_MS).toISOString()
+    const rows: Row[] = []
+
+    for (let from = 0; ; from += OFFLINE_SYNC_CONFIG.PAGE_SIZE) {
+      const page = unwrap<Row[]>(await this.client
+        .from(table)
+        .select('*')
+        .gte(column, since)
+        .order(column, { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + OFFLINE_SYNC_CONFIG.PAGE_SIZE - 1)) || []
+
+      rows.push(...page)
+      if (page.length < OFFLINE_SYNC_CONFIG.PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  private async fetchChildren(table: string, key: string, parentIds: string[]): Promise<Row[]> {
+    const rows: Row[] = []
+
+    for (let from = 0; ; from += OFFLINE_SYNC_CONFIG.PAGE_SIZE) {
+      const page = unwrap<Row[]>(await this.client
+        .from(table)
+        .select('*')
+        .in(key, parentIds)
+        .order('id', { ascending: true })
+        .range(from, from + OFFLINE_SYNC_CONFIG.PAGE_SIZE - 1)) || []
+
+      rows.push(...page)
+      if (page.length < OFFLINE_SYNC_CONFIG.PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  /**
+   * Select list applied to replica rows: listed columns and embedded
+   * resources joined from the replica's other tables
+   */
+  private async project(table: string, rows: Row[], fields: SelectField[], cache: Map<string, Row[]>): Promise<Row[]> {
+    const columns = fields.filter(field => field.column).map(field => field.column as string)
+    const embeds = fields.filter(field => field.embed).map(field => field.embed!)
+    const result = rows.map(row => (columns.length === 0 || columns.includes('*')
+      ? { ...row }
+      : Object.fromEntries(columns.map(column => [column, row[column] ?? null]))))
+
+    for (const embed of embeds) {
+      const { target, column, many } = resolveEmbed(table, embed)
+      if (!(OFFLINE_SYNC_CONFIG.TABLES as readonly string[]).includes(target)) {
+        throw new OfflineQueryError(`${target} is not kept offline`)
+      }
+      if (!cache.has(target)) cache.set(target, await this.requireStore().select(target))
+      const targetRows = cache.get(target)!
+
+      for (const [index, row] of result.entries()) {
+        if (many) {
+          const children = targetRows.filter(child => child[column] === rows[index].id)
+          const isCount = embed.fields.length === 1 && embed.fields[0].column === 'count'
+          row[embed.alias] = isCount ? [{ count: children.length }] : await this.project(target, children, embed.fields, cache)
+        } else {
+          const parent = targetRows.find(candidate => candidate.id === rows[index][column])
+          row[embed.alias] = parent ? (await this.project(target, [parent], embed.fields, cache))[0] : null
+        }
+      }
+    }
+
+    return result
+  }
+
+  private async replay(queued: OutboxEntry, versions: Map<string, string>): Promise<'pushed' | 'conflict'> {
+    const store = this.requireStore()
+    const column = changeColumn(queued.table)
+    const key = `${queued.table}:${queued.record_id}`
+    const entry = { ...queued, base_updated_at: versions.get(key) ?? queued.base_updated_at }
+    const complete = async (row?: Row) => {
+      const version = column && row?.[column]
+      if (version) versions.set(key, version)
+      await store.complete(entry.id, row, version || undefined)
+    }
+
+    if (entry.operation === 'insert') {
+      const { data, error } = await this.client.from(entry.table).insert(entry.payload).select('*')
+      if (error?.code === UNIQUE_VIOLATION) {
+        // Also when an earlier attempt reached the server; the user sees both versions
+        return this.parkConflict(entry)
+      }
+      const rows = unwrap<Row[]>({ data, error })
+      await complete(rows?.[0] || entry.payload)
+      return 'pushed'
+    }
+
+    // Only while the server row is still the version the edit was based on
+    let query = entry.operation === 'delete'
+      ? this.client.from(entry.table).delete()
+      : this.client.from(entry.table).update(entry.payload)
+    query = query.eq('id', entry.record_id)
+    if (column && entry.base_updated_at) query = query.eq(column, entry.base_updated_at)
+    const rows = unwrap<Row[]>(await query.select('*')) || []
+
+    if (rows.length === 0) {
+      return this.parkConflict(entry)
+    }
+    await complete(entry.operation === 'delete' ? undefined : rows[0])
+    return 'pushed'
+  }
+
+  /**
+   * Parks an entry the server did not take, with the server row as it is now;
+   * a delete of a row that is already gone is done
+   */
+  private async parkConflict(entry: OutboxEntry): Promise<'pushed' | 'conflict'> {
+    const store = this.requireStore()
+    const remote = unwrap<Row | null>(
+      await this.client.from(entry.table).select('*').eq('id', entry.record_id).maybeSingle()
+    )
+
+    if (!remote && entry.operation === 'delete') {
+      await store.complete(entry.id)
+      return 'pushed'
+    }
+    await store.conflict(entry.id, remote)
+    return 'conflict'
+  }
+
+  private requireStore(): LocalStoreAPI {
+    if (!this.store) {
+      throw new Error('Offline store is not available')
+    }
+    return this.store
+  }
+}
+
+let defaultService: SyncService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client and local store
+ */
+export function getSyncService(): SyncService {
+  if (!defaultService) {
+    defaultService = new SyncService()
+  }
+  return defaultService
+}
+
+export default SyncService
@@ -0,0 +1,126 @@
+/**
+ * Transaction Runner - Ordered steps with compensating rollback
+ *
+ * PostgREST has no multi-request transactions, so every step carries its own
+ * undo. If a step fails, the steps that already ran are undone in reverse order.
+ */
+
+export interface TransactionStep<T = any> {
+  name: string
+  run: () => Promise<T>
+  rollback?: (result: T) => Promise<void>
+}
+
+export interface StepFailure {
+  step: string
+  message: string
+}
+
+export class TransactionError extends Error {
+  public readonly failedStep: string
+  public readonly stepIndex: number
+  public readonly completedSteps: string[]
+  public readonly rollbackFailures: StepFailure[]
+  public readonly cause: unknown
+
+  constructor(
+    failedStep: string,
+    stepIndex: number,
+    cause: unknown,
+    completedSteps: string[],
+    rollbackFailures: StepFailure[]
+  ) {
+    const reason = cause instanceof Error ? cause.message : (cause as any)?.message || String(cause)
+    super(`Transaction failed at step ${stepIndex + 1} (${failedStep}): ${reason}`)
+    this.name = 'TransactionError'
+    this.failedStep = failedStep
+    this.stepIndex = stepIndex
+    this.cause = cause
+    this.completedSteps = completedSteps
+    this.rollbackFailures = rollbackFailures
+  }
+
+  /**
+   * True when every completed step was undone successfully
+   */
+  get rolledBack(): boolean {
+    return this.rollbackFailures.length === 0
+  }
+}
+
+export class Transaction {
+  private steps: TransactionStep[] = []
+
+  /**
+   * Queue a step; steps run in the order they were added
+   */
+  public add<T>(step: TransactionStep<T>): this {
+    this.steps.push(step)
+    return this
+  }
+
+  public get size(): number {
+    return this.steps.length
+  }
+
+  /**
+   * Run all steps, rolling back completed ones if any step fails
+   */
+  public async commit(): Promise<any[]> {
+    const completed: Array<{ step: TransactionStep; result: any }> = []
+
+    for (let index = 0; index < this.steps.length; index++) {
+      const step = this.steps[index]
+      try {
+        const result = await step.run()
+        completed.push({ step, result })
+      } catch (error) {
+        const rollbackFailures = await this.rollback(completed)
+        throw new TransactionError(
+          step.name,
+          index,
+          error,
+          completed.map(entry => entry.step.name),
+          rollbackFailures
+        )
+      }
+    }
+
+    return completed.map(entry => entry.result)
+  }
+
+  /**
+   * Undo completed steps in reverse order, collecting (not throwing) failures
+   */
+  private async rollback(completed: Array<{ step: TransactionStep; result: any }>): Promise<StepFailure[]> {
+    const failures: StepFailure[] = []
+
+    for (const { step, result } of [...completed].reverse()) {
+      if (!step.rollback) continue
+      try {
+        await step.rollback(result)
+      } catch (error) {
+        failures.push({
+          step: step.name,
+          message: error instanceof Error ? error.message : (error as any)?.message || String(error)
+        })
+      }
+    }
+
+    return failures
+  }
+}
+
+/**
+ * Unwrap a Supabase/PostgREST response, throwing on error so the step fails
+ */
+export function unwrap<T = any>(response: { data: T; error: any }): T {
+  if (response.error) {
+    const error = new Error(response.error.message || 'Database request failed')
+    ;(error as any).code = response.error.code
+    throw error
+  }
+  return response.data
+}
+
+export default Transaction
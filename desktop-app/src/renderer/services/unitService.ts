@@ -0,0 +1,249 @@
+/**
+ * Unit Service - Unit-of-measure registry and conversions
+ *
+ * Units in UNIT_DEFINITIONS convert within their dimension (g <-> kg,
+ * cm <-> m). Anything else - a roll of ribbon, a gram of a material stocked in
+ * pieces - needs a per-material factor in material_unit_conversions giving the
+ * number of stock units in one such unit.
+ *
+ * Quantities without a unit, or materials without a stock unit, are taken to
+ * be in the stock unit already; there is nothing to convert against.
+ */
+
+import { supabaseManager } from '../SupabaseClient'
+import { unwrap } from './transaction'
+import { TABLE_NAMES, UNIT_DEFINITIONS, UNIT_ALIASES } from '../constants'
+import { MaterialUnitConversion } from '../types'
+
+export type UnitConversionInput = Pick<MaterialUnitConversion, 'unit' | 'factor'>
+
+export class UnitConversionError extends Error {
+  public readonly fromUnit: string
+  public readonly toUnit: string
+
+  constructor(fromUnit: string, toUnit: string, materialName?: string) {
+    super(`Cannot convert ${fromUnit} to ${toUnit}${materialName ? ` for ${materialName}` : ''}; add a unit conversion for the material`)
+    this.name = 'UnitConversionError'
+    this.fromUnit = fromUnit
+    this.toUnit = toUnit
+  }
+}
+
+export class UnitService {
+  private client: any
+  private cache = new Map<string, MaterialUnitConversion[]>()
+
+  constructor(client?: any) {
+    this.client = client || supabaseManager.getClient()
+  }
+
+  /**
+   * Conversions of one material (cached until clearCache)
+   */
+  public async getConversions(materialId: string): Promise<MaterialUnitConversion[]> {
+    const cached = this.cache.get(materialId)
+    if (cached) return cached
+
+    const rows = await this.fetchConversions(materialId)
+    this.cache.set(materialId, rows)
+    return rows
+  }
+
+  /**
+   * Conversions of all materials, keyed by material id
+   */
+  public async getAllConversions(): Promise<Map<string, MaterialUnitConversion[]>> {
+    const rows = unwrap<MaterialUnitConversion[]>(await this.client
+      .from(TABLE_NAMES.MATERIAL_UNIT_CONVERSIONS)
+      .select('*')) || []
+
+    return groupConversions(rows)
+  }
+
+  /**
+   * Add or replace a material-specific unit
+   */
+  public async saveConversion(materialId: string, unit: string, factor: number): Promise<MaterialUnitConversion> {
+    const normalized = normalizeUnit(unit)
+    if (!normalized) {
+      throw new Error('Unit conversion needs a unit')
+    }
+    if (!Number.isFinite(factor) || factor <= 0) {
+      throw new Error('Unit conversion factor must be greater than zero')
+    }
+
+    const material = await this.getMaterial(materialId)
+    const stockUnit = normalizeUnit(material.stock_unit)
+    if (stockUnit && registryFactor(normalized, stockUnit) !== null) {
+      throw new Error(`${unit} already converts to ${material.stock_unit}`)
+    }
+
+    const existing = (await this.fetchConversions(materialId)).find(row => normalizeUnit(row.unit) === normalized)
+    this.cache.delete(materialId)
+
+    const query = existing
+      ? this.client.from(TABLE_NAMES.MATERIAL_UNIT_CONVERSIONS).update({ factor }).eq('id', existing.id)
+      : this.client.from(TABLE_NAMES.MATERIAL_UNIT_CONVERSIONS).insert({ raw_material_id: materialId, unit: normalized, factor })
+
+    const rows = unwrap(await query.select('*'))
+    return rows[0]
+  }
+
+  public async deleteConversion(conversionId: string): Promise<void> {
+    unwrap(await this.client
+      .from(TABLE_NAMES.MATERIAL_UNIT_CONVERSIONS)
+      .delete()
+      .eq('id', conversionId))
+    this.cache.clear()
+  }
+
+  /**
+   * Throw UnitConversionError if `unit` cannot be converted to the material's stock unit
+   */
+  public async assertConvertible(materialId: string, unit: string | null): Promise<void> {
+    const material = await this.getMaterial(materialId)
+    toStockQuantity(1, unit, material.stock_unit, await this.getConversions(materialId), material.name)
+  }
+
+  public clearCache(): void {
+    this.cache.clear()
+  }
+
+  private async fetchConversions(materialId: string): Promise<MaterialUnitConversion[]> {
+    return unwrap<MaterialUnitConversion[]>(await this.client
+      .from(TABLE_NAMES.MATERIAL_UNIT_CONVERSIONS)
+      .select('*')
+      .eq('raw_material_id', materialId)) || []
+  }
+
+  private async getMaterial(materialId: string): Promise<{ id: string; name: string; stock_unit: string | null }> {
+    const material = unwrap(await this.client
+      .from(TABLE_NAMES.RAW_MATERIALS)
+      .select('id, name, stock_unit')
+      .eq('id', materialId)
+      .maybeSingle())
+
+    if (!material) {
+      throw new Error(`Raw material ${materialId} not found`)
+    }
+    return material
+  }
+}
+
+/**
+ * Canonical spelling of a unit ('' when empty)
+ */
+export function normalizeUnit(unit: string | null | undefined): string {
+  const key = (unit || '').trim().toLocaleLowerCase('tr-TR')
+  return UNIT_ALIASES[key] || key
+}
+
+/**
+ * Multiplier from one registry unit to another of the same dimension
+ */
+function registryFactor(from: string, to: string): number | null {
+  if (from === to) return 1
+
+  const source = UNIT_DEFINITIONS[from]
+  const target = UNIT_DEFINITIONS[to]
+  if (!source || !target || source.dimension !== target.dimension) return null
+
+  return source.factor / target.factor
+}
+
+/**
+ * Stock units in one `unit` of a material, or null if not convertible
+ */
+export function stockUnitFactor(
+  unit: string | null | undefined,
+  stockUnit: string | null | undefined,
+  conversions: UnitConversionInput[] = []
+): number | null {
+  const from = normalizeUnit(unit)
+  const to = normalizeUnit(stockUnit)
+  if (!from || !to) return 1
+
+  const direct = registryFactor(from, to)
+  if (direct !== null) return direct
+
+  // Material-specific units, also reached through their registry dimension (g via a kg factor)
+  for (const conversion of conversions) {
+    const via = registryFactor(from, normalizeUnit(conversion.unit))
+    if (via !== null) return via * Number(conversion.factor)
+  }
+
+  return null
+}
+
+/**
+ * Convert a quantity into the material's stock unit; throws UnitConversionError
+ */
+export function toStockQuantity(
+  quantity: number,
+  unit: string | null | undefined,
+  stockUnit: string | null | undefined,
+  conversions: UnitConversionInput[] = [],
+  materialName?: string
+): number {
+  const factor = stockUnitFactor(unit, stockUnit, conversions)
+  if (factor === null) {
+    throw new UnitConversionError(unit || '', stockUnit || '', materialName)
+  }
+  return quantity * factor
+}
+
+/**
+ * Minimum stock expressed in the stock unit, or null when the minimum's unit
+ * cannot be converted
+ */
+export function minStockInStockUnit(
+  material: { stock_unit: string | null; min_stock_quantity: number | null; min_stock_unit?: string | null },
+  conversions: UnitConversionInput[] = []
+): number | null {
+  if (!material.min_stock_quantity) return material.min_stock_quantity
+
+  const factor = stockUnitFactor(material.min_stock_unit, material.stock_unit, conversions)
+  return factor === null ? null : material.min_stock_quantity * factor
+}
+
+/**
+ * Units a quantity of this material may be entered in
+ */
+export function compatibleUnits(stockUnit: string | null | undefined, conversions: UnitConversionInput[] = []): string[] {
+  const stock = normalizeUnit(stockUnit)
+  if (!stock) return Object.keys(UNIT_DEFINITIONS)
+
+  const units = new Set<string>([stock])
+  for (const unit of Object.keys(UNIT_DEFINITIONS)) {
+    if (stockUnitFactor(unit, stock, conversions) !== null) {
+      units.add(unit)
+    }
+  }
+  for (const conversion of conversions) {
+    units.add(normalizeUnit(conversion.unit))
+  }
+
+  return Array.from(units)
+}
+
+export function groupConversions(rows: MaterialUnitConversion[]): Map<string, MaterialUnitConversion[]> {
+  const byMaterial = new Map<string, MaterialUnitConversion[]>()
+  for (const row of rows) {
+    byMaterial.set(row.raw_material_id, [...(byMaterial.get(row.raw_material_id) || []), row])
+  }
+  return byMaterial
+}
+
+let defaultService: UnitService | null = null
+
+/**
+ * Lazily created service bound to the app's Supabase client
+ */
+export function getUnitService(): UnitService {
+  if (!defaultService) {
+    defaultService = new UnitService()
+  }
+  return defaultService
+}
+
+export default UnitService
@@ -1,7 +1,9 @@
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
 import { ErrorHandler } from '../utils/errorHandler'
-import { APP_CONFIG, THEMES, UI_CONFIG } from '../constants'
+import { APP_CONFIG, THEMES, UI_CONFIG, BACKUP_CONFIG } from '../constants'
+import { supabaseManager } from '../SupabaseClient'
+import { getSyncService } from '../services/syncService'
 
 // App Settings Interface
 export interface AppSettings {
@@ -16,6 +18,7 @@ export interface AppSettings {
     enabled: boolean
     frequency: 'daily' | 'weekly' | 'monthly'
     time: string
+    keepLast: number // Retention: newest backups kept
     lastBackup: string | null
   }
   connection: {
@@ -65,6 +68,7 @@ export interface AppState {
   // Connection State
   isOnline: boolean
   connectionStatus: 'connected' | 'connecting' | 'disconnected' | 'error'
+  syncStatus: SyncStatus
 
   // App Lifecycle
   isInitialized: boolean
@@ -83,10 +87,18 @@ export interface AppState {
   clearAlerts: () => void
   setConnectionStatus: (status: AppState['connectionStatus']) => void
   setOnlineStatus: (isOnline: boolean) => void
+  syncNow: () => Promise<void>
   initializeApp: () => Promise<void>
   resetApp: () => void
 }
 
+// Offline replica state shown next to the connection status
+export interface SyncStatus {
+  pending: number // Writes waiting in the outbox
+  conflicts: number
+  lastSyncedAt: string | null
+}
+
 // Alert Interface
 export interface AppAlert {
   id: string
@@ -115,6 +127,7 @@ const defaultSettings: AppSettings = {
     enabled: false,
     frequency: 'weekly',
     time: '02:00',
+    keepLast: BACKUP_CONFIG.DEFAULT_KEEP_LAST,
     lastBackup: null
   },
   connection: {
@@ -162,6 +175,7 @@ export const useAppStore = create<AppState>()(
       alerts: [],
       isOnline: navigator.onLine,
       connectionStatus: 'connected',
+      syncStatus: { pending: 0, conflicts: 0, lastSyncedAt: null },
       isInitialized: false,
       version: APP_CONFIG.VERSION,
 
@@ -292,6 +306,32 @@ export const useAppStore = create<AppState>()(
         })
       },
 
+      // Health check, outbox replay and replica refresh
+      syncNow: async () => {
+        const syncService = getSyncService()
+        if (get().connectionStatus !== 'connected') {
+          set({ connectionStatus: 'connecting' })
+        }
+
+        try {
+          const result = await syncService.sync()
+          const online = result ? result.online : await supabaseManager.healthCheck()
+          const status = await syncService.status()
+
+          set({
+            connectionStatus: online ? 'connected' : 'disconnected',
+            syncStatus: {
+              pending: status?.pending ?? 0,
+              conflicts: status?.conflicts ?? 0,
+              lastSyncedAt: online ? new Date().toISOString() : get().syncStatus.lastSyncedAt
+            }
+          })
+        } catch (error) {
+          ErrorHandler.handle(error, 'useAppStore.syncNow')
+          set({ connectionStatus: 'error' })
+        }
+      },
+
       // Lifecycle Actions
       initializeApp: async () => {
         try {
@@ -308,13 +348,6 @@ export const useAppStore = create<AppState>()(
           // Check initial connection
           get().setOnlineStatus(navigator.onLine)
 
-          // Set up periodic health check
-          setInterval(() => {
-            // This would check API health
-            // For now, just check online status
-            get().setOnlineStatus(navigator.onLine)
-          }, 30000)
-
           set({ isInitialized: true })
 
           get().addAlert({
@@ -344,6 +377,7 @@ export const useAppStore = create<AppState>()(
           alerts: [],
           isOnline: navigator.onLine,
           connectionStatus: 'connected',
+          syncStatus: { pending: 0, conflicts: 0, lastSyncedAt: null },
           isInitialized: false
         })
 
@@ -375,8 +409,10 @@ export const useConnectionStatus = () => {
   const isOnline = useAppStore((state) => state.isOnline)
   const connectionStatus = useAppStore((state) => state.connectionStatus)
   const setConnectionStatus = useAppStore((state) => state.setConnectionStatus)
+  const syncStatus = useAppStore((state) => state.syncStatus)
+  const syncNow = useAppStore((state) => state.syncNow)
 
-  return { isOnline, connectionStatus, setConnectionStatus }
+  return { isOnline, connectionStatus, setConnectionStatus, syncStatus, syncNow }
 }
 
 export const useAlerts = () => {
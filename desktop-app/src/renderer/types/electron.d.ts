@@ -1,16 +1,75 @@
 // Electron API types
+
+import type { MainProcessAPI } from '../../main/ipc/contract'
+
+export type OutboxOperation = 'insert' | 'update' | 'delete'
+
+export interface LocalWrite {
+  table: string
+  operation: OutboxOperation
+  record_id: string
+  payload: Record<string, any> | null
+  base_updated_at: string | null // Change column (updated_at or updatedAt) of the local copy the edit was based on
+}
+
+export interface OutboxEntry extends LocalWrite {
+  id: number
+  created_at: string
+  attempts: number
+  last_error: string | null
+}
+
+export interface SyncConflict extends LocalWrite {
+  id: number
+  remote: Record<string, any> | null // null when the record was deleted on the server
+  detected_at: string
+}
+
+// Where the last pull of a table stopped
+export interface PullState {
+  cursor: string | null // Highest change timestamp pulled, see OFFLINE_SYNC_CONFIG.CHANGES
+  pulled_at: string
+  full_pulled_at: string | null
+}
+
+export interface LocalStoreStatus {
+  pending: number
+  conflicts: number
+  last_pulled_at: string | null
+}
+
+// SQLite replica kept by the main process (src/main/localStore.cjs)
+export interface LocalStoreAPI {
+  select: (table: string, filter?: Record<string, any>) => Promise<Record<string, any>[]>
+  replaceTable: (table: string, rows: Record<string, any>[], cursor?: string | null) => Promise<number>
+  mergeRows: (table: string, rows: Record<string, any>[], cursor: string | null) => Promise<number>
+  replaceChildren: (table: string, column: string, parentIds: string[], rows: Record<string, any>[]) => Promise<number>
+  pullState: () => Promise<Record<string, PullState>>
+  enqueue: (write: LocalWrite) => Promise<number>
+  outbox: () => Promise<OutboxEntry[]>
+  // version: the row's change column after the write, the base of later entries for the same record
+  complete: (entryId: number, row?: Record<string, any> | null, version?: string | null) => Promise<void>
+  fail: (entryId: number, message: string) => Promise<void>
+  conflict: (entryId: number, remote: Record<string, any> | null) => Promise<void>
+  conflicts: () => Promise<SyncConflict[]>
+  resolveConflict: (conflictId: number, row?: Record<string, any> | null) => Promise<void>
+  status: () => Promise<LocalStoreStatus>
+}
+
 declare global {
   interface Window {
-    electronAPI: {
+    electronAPI: MainProcessAPI & {
       showNotification: (options: {
         title: string
         body: string
         icon?: string
         urgency?: 'low' | 'normal' | 'critical'
       }) => Promise<{ success: boolean; error?: string }>
+      localStore: LocalStoreAPI
     }
     mdh: {
       ping: () => string
+      user?: string
       env: {
         VITE_SUPABASE_URL: string
         VITE_SUPABASE_ANON_KEY: string
@@ -19,5 +78,3 @@ declare global {
     }
   }
 }
-
-export {}
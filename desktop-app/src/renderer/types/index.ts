@@ -3,7 +3,7 @@
  * Ensures type safety across the application
  */
 
-import { OrderStatusType, MovementType, RecipeItemType } from '../constants'
+import { OrderStatusType, MovementType, RecipeItemType, ReservationStatus, SupplierOrderStatus, ForecastMethod, StockCountStatus, StockCountScope, PaymentKind, PaymentMethod, PaymentStatus, PriceRuleType, MaterialPriceSource, OrderSource, ShippingMethod, ImportTarget } from '../constants'
 
 // Base entity interface
 export interface BaseEntity {
@@ -37,6 +37,13 @@ export interface RawMaterial extends BaseEntity {
   stock_movements?: StockMovement[]
 }
 
+// Material-specific unit, e.g. 1 rulo = 25 m of a ribbon stocked in metres
+export interface MaterialUnitConversion extends BaseEntity {
+  raw_material_id: string
+  unit: string
+  factor: number // Stock units per one `unit`
+}
+
 // Suppliers
 export interface Supplier extends BaseEntity {
   name: string
@@ -84,16 +91,130 @@ export interface Order extends BaseEntity {
   customerPhone: string
   shippingAddress: string
   shippingCity: string
+  customer_id?: string | null
+  order_source?: OrderSource | string | null
+  shipping_method?: ShippingMethod | string | null
+  deadline_date?: string | null
+  discount_amount?: number | null
+  shipping_cost?: number | null
   admin_notes?: string
   order_items?: OrderItem[]
 }
 
+// Customer record; phone and email are stored normalized so orders can be
+// matched to it
+export interface Customer extends BaseEntity {
+  name: string
+  email: string | null
+  phone: string | null
+  notes: string | null
+  tags: string[]
+}
+
+// Customer with figures from its (non-cancelled) orders
+export interface CustomerSummary extends Customer {
+  order_count: number
+  lifetime_value: number // Order totals less discounts
+  average_order_value: number
+  first_order_at: string | null
+  last_order_at: string | null
+}
+
+// Customers that look like the same person
+export interface CustomerDuplicateGroup {
+  matched_on: Array<'PHONE' | 'EMAIL' | 'NAME'>
+  customers: CustomerSummary[]
+}
+
+// One recorded status change; an undo is recorded as a new entry pointing at
+// the entry it reversed (undo_of), and the reversed entry gets undone_at
+export interface OrderStatusHistoryEntry {
+  id: string
+  order_id: string
+  from_status: OrderStatusType
+  to_status: OrderStatusType
+  changed_by: string | null
+  changed_at: string
+  note: string | null
+  movement_ids: string[]
+  reservation_ids: string[]
+  payment_ids: string[]
+  undo_of: string | null
+  undone_at: string | null
+}
+
+// One payment or refund of an order; the order's amount_received,
+// remaining_payment and payment_status are derived from these rows
+export interface OrderPayment extends BaseEntity {
+  order_id: string
+  kind: PaymentKind
+  amount: number
+  method: PaymentMethod
+  paid_at: string
+  notes?: string | null
+}
+
+export interface PaymentSummary {
+  amount_due: number
+  received: number
+  refunded: number
+  remaining: number
+  status: PaymentStatus
+  last_paid_at: string | null
+}
+
+export interface ReceivableLine {
+  order_id: string
+  orderNumber: string
+  customerName: string
+  outstanding: number
+  days_outstanding: number
+  bucket: string
+}
+
+export interface ReceivablesAging {
+  buckets: Array<{ key: string; label: string; amount: number; count: number }>
+  lines: ReceivableLine[]
+  total: number
+}
+
+// Costed order line; material lines are priced at leaf level in stock units
+export interface OrderCostItem {
+  product_id: string
+  product_name: string
+  quantity: number
+  material_cost: number
+  labor_hours: number
+  labor_cost: number
+  materials: Array<{ raw_material_id: string; name: string; unit: string | null; quantity: number; unit_price: number; cost: number }>
+}
+
+// Cost and profit of an order; stored as cost_snapshot when the order is
+// confirmed so later price changes leave it alone
+export interface OrderCostBreakdown {
+  items: OrderCostItem[]
+  labor_hourly_rate: number
+  material_cost: number
+  labor_cost: number
+  shipping_cost: number
+  total_cost: number
+  gross_amount: number
+  discount_amount: number
+  net_revenue: number
+  net_profit: number
+  profit_margin_percent: number // Profit over net revenue
+  profit_margin_percent_2: number // Profit over total cost (markup)
+  calculated_at: string
+  frozen_at: string | null
+}
+
 // Order Items
 export interface OrderItem extends BaseEntity {
   orderId: string
   productId: string
   quantity: number
   price: number
+  personalization?: Record<string, any> | null
   order?: Order
   product?: Product
 }
@@ -105,30 +226,397 @@ export interface StockMovement extends BaseEntity {
   quantity: number
   reason: string
   order_id?: string
+  stock_count_session_id?: string | null
   notes?: string
   raw_material?: RawMaterial
   order?: Order
 }
 
-// Supplier Orders
+// Physical inventory count; lines are snapshotted when the session starts
+export interface StockCountSession extends BaseEntity {
+  name: string
+  status: StockCountStatus
+  scope: StockCountScope
+  supplier_id: string | null
+  lines_json: StockCountLine[]
+  posted_at?: string | null
+  notes?: string | null
+}
+
+// Counted quantity of one material (null = not counted yet)
+export interface StockCountLine {
+  raw_material_id: string
+  material_name: string
+  unit: string | null
+  expected_quantity: number
+  counted_quantity: number | null
+}
+
+// Difference between a counted quantity and the book stock
+export interface StockCountVariance {
+  raw_material_id: string
+  material_name: string
+  unit: string | null
+  book_quantity: number
+  counted_quantity: number
+  variance: number
+  variance_value: number
+}
+
+// Stock Reservations (stock held by pending orders)
+export interface StockReservation extends BaseEntity {
+  raw_material_id: string
+  order_id: string
+  quantity: number
+  status: ReservationStatus
+  expires_at: string
+  raw_material?: RawMaterial
+  order?: Order
+}
+
+// On-hand vs. reserved vs. available per raw material
+export interface MaterialAvailability {
+  raw_material_id: string
+  name: string
+  unit: string | null
+  on_hand: number
+  reserved: number
+  available: number
+}
+
+// MRP: one open order's demand for a material
+export interface MrpOrderDemand {
+  order_id: string
+  orderNumber: string
+  status: OrderStatusType
+  deadline_date: string | null
+  quantity: number
+  issued: boolean
+  covered: boolean
+  order_by_date: string | null
+}
+
+// MRP: requirement vs. stock per leaf material
+export interface MrpLine {
+  raw_material_id: string
+  name: string
+  unit: string | null
+  supplier_id: string | null
+  lead_time_days: number
+  gross_requirement: number
+  issued: number
+  on_hand: number
+  shortfall: number
+  latest_order_date: string | null
+  demands: MrpOrderDemand[]
+}
+
+// Supplier Orders (purchase orders)
 export interface SupplierOrder extends BaseEntity {
   supplier_id: string
-  status: 'PENDING' | 'ORDERED' | 'RECEIVED' | 'CANCELLED'
-  items_json: any[]
+  status: SupplierOrderStatus
+  items_json: SupplierOrderItem[]
+  receipts_json?: SupplierOrderReceipt[] // Every goods receipt, oldest first
   total_amount?: number
   expected_date?: string
+  ordered_at?: string | null
+  received_at?: string | null // When the last outstanding line arrived
   notes?: string
   supplier?: Supplier
 }
 
+// Purchase order line item
+export interface SupplierOrderItem {
+  material_id: string
+  material_name: string
+  quantity: number
+  unit: string | null
+  unit_price: number | null
+  received_quantity: number
+}
+
+// One line of a goods receipt
+export interface SupplierOrderReceiptLine {
+  material_id: string
+  quantity: number
+  unit_price?: number | null
+}
+
+// One dated goods receipt of a purchase order, quantities in the order's units
+export interface SupplierOrderReceipt {
+  received_at: string
+  lines: Array<Required<SupplierOrderReceiptLine>>
+}
+
+// Reorder engine proposal for one material
+export interface ReorderSuggestion {
+  material_id: string
+  material_name: string
+  unit: string | null
+  supplier_id: string | null
+  current_stock: number
+  on_order: number
+  daily_usage: number
+  lead_time_days: number
+  reorder_point: number
+  suggested_qty: number
+  unit_price: number | null
+  min_order_quantity: number | null
+  need_date: string | null // When stock on hand runs out at the average usage
+  delivers_in_time: boolean
+}
+
+// Terms one supplier offers for one raw material (raw_materials_suppliers row)
+export interface MaterialSupplier {
+  id: string
+  raw_material_id: string
+  supplier_id: string
+  unit_price_try: number | null
+  lead_time_days: number | null
+  min_order_quantity: number | null
+  is_preferred: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+// Suppliers of one material side by side
+export interface MaterialSourcingComparison {
+  raw_material_id: string
+  material_name: string
+  unit: string | null
+  offers: Array<MaterialSupplier & {
+    supplier_name: string
+    is_cheapest: boolean
+    is_fastest: boolean
+  }>
+}
+
+// One placed purchase order as it counts towards the supplier's scorecard
+export interface SupplierScorecardOrder {
+  order_id: string
+  status: SupplierOrderStatus
+  ordered_at: string
+  expected_date: string | null
+  received_at: string | null // Last receipt so far, partial ones included
+  on_time: boolean | null // null while not due yet or without an expected date
+  fill_rate: number | null // Received share of the ordered quantity once closed
+  lead_time_days: number | null
+  promised_lead_time_days: number | null
+}
+
+// Unit price paid to a supplier for a material on one order
+export interface SupplierPricePoint {
+  material_id: string
+  material_name: string
+  ordered_at: string
+  unit_price: number
+}
+
+export interface SupplierScorecard {
+  supplier_id: string
+  supplier_name: string
+  rank: number
+  score: number | null
+  order_count: number
+  on_time_rate: number | null
+  fill_rate: number | null
+  avg_lead_time_days: number | null
+  promised_lead_time_days: number | null
+  price_volatility_percent: number | null // Mean coefficient of variation of prices per material
+  orders: SupplierScorecardOrder[]
+  prices: SupplierPricePoint[]
+}
+
+// Reorder proposals of one supplier (null = material has no supplier)
+export interface SupplierReorderGroup {
+  supplier_id: string | null
+  items: ReorderSuggestion[]
+  total_value: number
+}
+
+// Consumption forecast of one raw material
+export interface MaterialForecast {
+  raw_material_id: string
+  current_stock: number
+  method: ForecastMethod
+  moving_average_daily: number
+  seasonal_daily: number | null
+  projected_daily: number
+  days_until_stockout: number | null
+  stockout_date: string | null
+  next_delivery_date: string
+  runs_out_before_delivery: boolean
+}
+
+// Cached stock that disagrees with the movement ledger
+export interface LedgerDiscrepancy {
+  raw_material_id: string
+  name: string
+  unit: string | null
+  cached_quantity: number
+  ledger_quantity: number
+  difference: number
+  movement_count: number
+}
+
+// Ordered but not yet received quantity of a material from a supplier
+export interface OutstandingSupplierLine {
+  supplier_id: string
+  material_id: string
+  material_name: string
+  unit: string | null
+  outstanding_quantity: number
+  outstanding_value: number
+  order_ids: string[]
+  expected_date: string | null
+}
+
 // Price Rules for automatic pricing
 export interface PriceRule extends BaseEntity {
   name: string
   description?: string
-  rule_type: 'markup' | 'margin' | 'fixed'
+  rule_type: PriceRuleType
   value: number
   is_active: boolean
-  conditions?: Record<string, any>
+  conditions?: PriceRuleConditions
+  // Older per-product rows only carry a target margin for one product
+  product_id?: string | null
+  target_margin_percent?: number | null
+  auto_pricing_enabled?: boolean | null
+}
+
+// All given conditions must hold for a rule to apply to a product
+export interface PriceRuleConditions {
+  product_id?: string
+  category_id?: string
+  min_cost?: number
+  max_cost?: number
+}
+
+// Suggested price of one product from the rule that applies to it
+export interface PriceProposal {
+  product_id: string
+  product_name: string
+  category_id: string | null
+  recipe_cost: number
+  current_price: number
+  suggested_price: number
+  difference: number
+  difference_percent: number | null
+  current_margin_percent: number | null
+  suggested_margin_percent: number
+  rule_id: string
+  rule_name: string
+}
+
+// One applied price change
+export interface ProductPriceChange {
+  id: string
+  product_id: string
+  old_price: number
+  new_price: number
+  recipe_cost: number | null
+  price_rule_id: string | null
+  changed_by: string | null
+  changed_at: string
+}
+
+// One recorded raw material price, with the supplier it came from
+export interface MaterialPriceChange {
+  id: string
+  raw_material_id: string
+  supplier_id: string | null
+  old_price: number | null
+  new_price: number
+  source: MaterialPriceSource
+  reference_id: string | null // Supplier order of a goods receipt
+  changed_by: string | null
+  changed_at: string
+}
+
+// How one product's unit cost moves with a material price change
+export interface PriceImpactLine {
+  product_id: string
+  product_name: string
+  material_quantity: number // Per product unit, in the material's stock unit
+  current_price: number
+  old_cost: number
+  new_cost: number
+  cost_increase: number
+  old_margin_percent: number | null
+  new_margin_percent: number | null
+  target_margin_percent: number | null // From the price rule that applies, if any
+  below_target: boolean
+}
+
+export interface PriceImpactReport {
+  raw_material_id: string
+  old_price: number
+  new_price: number
+  lines: PriceImpactLine[]
+  below_target_count: number
+}
+
+// Backup file header; table row counts at snapshot time
+export interface BackupManifest {
+  format: 'mdh-backup'
+  version: number
+  created_at: string
+  app_version: string
+  tables: Record<string, number>
+  checksum?: string // sha256 of the serialized tables, set when the file is written
+}
+
+export interface BackupInfo {
+  file: string
+  size: number // Bytes on disk, compressed
+  manifest: BackupManifest
+}
+
+// Difference between a backup table and the live table, by row id
+export interface BackupTableDiff {
+  table: string
+  added_ids: string[] // In the backup, missing from the database
+  changed_ids: string[]
+  removed_ids: string[] // In the database, not in the backup
+  unchanged: number
+}
+
+export interface RestorePreview {
+  file: string
+  manifest: BackupManifest
+  tables: BackupTableDiff[]
+}
+
+export interface RestoreResult {
+  tables: Array<{ table: string; written: number; deleted: number }>
+}
+
+// Dry-run outcome of one row of an import file
+export interface ImportRowResult {
+  line: number // Line in the file; the header is line 1
+  action: 'insert' | 'update' | 'unchanged' | 'error'
+  key: string // What the row was matched on, e.g. "sku: KT-01"
+  id: string | null // Matched record for updates
+  values: Record<string, any> // Columns to write; only the changed ones for updates
+  previous: Record<string, any> // Current values of the changed columns
+  errors: string[]
+}
+
+export interface ImportReport {
+  target: ImportTarget
+  rows: ImportRowResult[]
+  inserts: number
+  updates: number
+  unchanged: number
+  errors: number
+}
+
+export interface ImportCommitResult {
+  inserted: number
+  updated: number
+  unchanged: number
+  skipped: number // Rows with errors
 }
 
 // Dashboard Statistics
@@ -141,6 +629,9 @@ export interface DashboardStats {
   confirmedOrders: number
   totalRevenue: number
   monthlyRevenue: number
+  reservedMaterialsCount: number
+  overReservedCount: number
+  stockAvailability: MaterialAvailability[]
 }
 
 // API Response types
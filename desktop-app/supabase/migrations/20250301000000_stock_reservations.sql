@@ -0,0 +1,15 @@
+-- Stock held by pending orders (see reservationService)
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  raw_material_id text NOT NULL REFERENCES raw_materials (id) ON DELETE CASCADE,
+  order_id text NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+  quantity numeric NOT NULL CHECK (quantity >= 0),
+  status text NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'CONVERTED', 'RELEASED', 'EXPIRED')),
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_reservations_order_id_idx ON stock_reservations (order_id);
+CREATE INDEX IF NOT EXISTS stock_reservations_active_idx ON stock_reservations (raw_material_id) WHERE status = 'ACTIVE';
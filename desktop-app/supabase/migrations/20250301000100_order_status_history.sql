@@ -0,0 +1,18 @@
+-- Status changes of orders with the rows each change wrote, so the latest
+-- change can be undone (see orderHistoryService)
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  order_id text NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  changed_by text,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  note text,
+  movement_ids text[] NOT NULL DEFAULT '{}',
+  reservation_ids text[] NOT NULL DEFAULT '{}',
+  undo_of text REFERENCES order_status_history (id) ON DELETE SET NULL,
+  undone_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS order_status_history_order_id_idx ON order_status_history (order_id, changed_at DESC);
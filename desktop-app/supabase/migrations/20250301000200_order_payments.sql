@@ -0,0 +1,19 @@
+-- Payments and refunds of orders; orders.amount_received, remaining_payment
+-- and payment_status are derived from these rows (see paymentService)
+
+CREATE TABLE IF NOT EXISTS order_payments (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  order_id text NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('PAYMENT', 'REFUND')),
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('CASH', 'BANK_TRANSFER', 'CREDIT_CARD', 'OTHER')),
+  paid_at timestamptz NOT NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_payments_order_id_idx ON order_payments (order_id);
+
+-- Refunds written by a status change, so undoing it can delete them
+ALTER TABLE order_status_history ADD COLUMN IF NOT EXISTS payment_ids text[] NOT NULL DEFAULT '{}';
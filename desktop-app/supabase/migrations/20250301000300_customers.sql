@@ -0,0 +1,20 @@
+-- Customer records; phone and email are stored normalized so orders can be
+-- matched to them (see customerService)
+
+CREATE TABLE IF NOT EXISTS customers (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name text NOT NULL,
+  email text,
+  phone text,
+  notes text,
+  tags text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS customers_phone_idx ON customers (phone);
+CREATE INDEX IF NOT EXISTS customers_email_idx ON customers (email);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS customer_id text REFERENCES customers (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS orders_customer_id_idx ON orders (customer_id);
@@ -0,0 +1,17 @@
+-- Physical inventory counts; posting one writes ADJUSTMENT movements that
+-- point back at the session (see stockCountService)
+
+CREATE TABLE IF NOT EXISTS stock_count_sessions (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name text NOT NULL,
+  status text NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'POSTED', 'CANCELLED')),
+  scope text NOT NULL DEFAULT 'ALL' CHECK (scope IN ('ALL', 'RAW', 'SEMI_FINISHED')),
+  supplier_id text REFERENCES suppliers (id) ON DELETE SET NULL,
+  lines_json jsonb NOT NULL DEFAULT '[]',
+  posted_at timestamptz,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS stock_count_session_id text REFERENCES stock_count_sessions (id) ON DELETE SET NULL;
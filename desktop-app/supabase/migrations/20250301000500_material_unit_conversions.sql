@@ -0,0 +1,12 @@
+-- Material-specific units, e.g. 1 rulo = 25 m of a ribbon stocked in metres
+-- (see unitService)
+
+CREATE TABLE IF NOT EXISTS material_unit_conversions (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  raw_material_id text NOT NULL REFERENCES raw_materials (id) ON DELETE CASCADE,
+  unit text NOT NULL,
+  factor numeric NOT NULL CHECK (factor > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (raw_material_id, unit)
+);
@@ -0,0 +1,14 @@
+-- Applied product price changes (see pricingService)
+
+CREATE TABLE IF NOT EXISTS product_price_history (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  product_id text NOT NULL REFERENCES products (id) ON DELETE CASCADE,
+  old_price numeric(12, 2) NOT NULL,
+  new_price numeric(12, 2) NOT NULL,
+  recipe_cost numeric(12, 2),
+  price_rule_id text REFERENCES price_rules (id) ON DELETE SET NULL,
+  changed_by text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_price_history_product_id_idx ON product_price_history (product_id, changed_at DESC);
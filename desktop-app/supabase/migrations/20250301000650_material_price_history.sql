@@ -0,0 +1,16 @@
+-- Recorded raw material prices with their supplier (see materialPriceService)
+
+CREATE TABLE IF NOT EXISTS material_price_history (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  raw_material_id text NOT NULL REFERENCES raw_materials (id) ON DELETE CASCADE,
+  supplier_id text REFERENCES suppliers (id) ON DELETE SET NULL,
+  old_price numeric(12, 4),
+  new_price numeric(12, 4) NOT NULL,
+  source text NOT NULL CHECK (source IN ('MANUAL', 'GOODS_RECEIPT', 'IMPORT')),
+  reference_id text,
+  changed_by text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS material_price_history_material_id_idx ON material_price_history (raw_material_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS material_price_history_supplier_id_idx ON material_price_history (supplier_id);
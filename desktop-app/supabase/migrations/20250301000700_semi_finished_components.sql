@@ -0,0 +1,17 @@
+-- Components of semi-finished materials; the BOM expands them down to leaf
+-- materials (see bomService). The foreign key name is used in embedded selects.
+
+CREATE TABLE IF NOT EXISTS semi_finished_components (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  semi_finished_id text NOT NULL REFERENCES raw_materials (id) ON DELETE CASCADE,
+  raw_material_id text NOT NULL,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  unit text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT semi_finished_components_raw_material_id_fkey
+    FOREIGN KEY (raw_material_id) REFERENCES raw_materials (id) ON DELETE CASCADE,
+  CHECK (semi_finished_id <> raw_material_id)
+);
+
+CREATE INDEX IF NOT EXISTS semi_finished_components_semi_finished_id_idx ON semi_finished_components (semi_finished_id);
@@ -0,0 +1,4 @@
+-- Item costs frozen when an order is confirmed (see costingService)
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cost_snapshot jsonb;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cost_frozen_at timestamptz;
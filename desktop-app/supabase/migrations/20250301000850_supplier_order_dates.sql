@@ -0,0 +1,4 @@
+-- When a purchase order was placed and fully received (see purchaseOrderService)
+
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS ordered_at timestamptz;
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS received_at timestamptz;
@@ -0,0 +1,13 @@
+-- Supplier terms per material (see sourcingService)
+
+ALTER TABLE raw_materials_suppliers ADD COLUMN IF NOT EXISTS id text DEFAULT gen_random_uuid()::text;
+UPDATE raw_materials_suppliers SET id = gen_random_uuid()::text WHERE id IS NULL;
+ALTER TABLE raw_materials_suppliers ADD COLUMN IF NOT EXISTS unit_price_try numeric(12, 4);
+ALTER TABLE raw_materials_suppliers ADD COLUMN IF NOT EXISTS lead_time_days integer;
+ALTER TABLE raw_materials_suppliers ADD COLUMN IF NOT EXISTS min_order_quantity numeric;
+ALTER TABLE raw_materials_suppliers ADD COLUMN IF NOT EXISTS is_preferred boolean NOT NULL DEFAULT false;
+ALTER TABLE raw_materials_suppliers ADD COLUMN IF NOT EXISTS created_at timestamptz NOT NULL DEFAULT now();
+ALTER TABLE raw_materials_suppliers ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS raw_materials_suppliers_id_key ON raw_materials_suppliers (id);
+CREATE INDEX IF NOT EXISTS raw_materials_suppliers_material_id_idx ON raw_materials_suppliers (raw_material_id);
@@ -0,0 +1,158 @@
+-- Order status changes with their stock effects (see orderStatusEngine)
+--
+-- apply_order_status_change writes the new status, the stock movements and
+-- the cached stock changes in one database transaction. The status is only
+-- changed away from the status the caller read, so two concurrent changes of
+-- the same order cannot both apply, and stock is changed by increments
+-- rather than by writing back a value read earlier.
+--
+-- revert_order_status_change undoes one such change (when a later step of the
+-- engine's transaction fails): it restores the previous status and columns,
+-- deletes the movements and takes their effect off the cached stock again.
+
+-- Signed effect of a movement on the cached stock; IN, OUT and RETURN are read
+-- by absolute value like the ledger does (see ledgerService)
+CREATE OR REPLACE FUNCTION movement_stock_delta(p_movement_type text, p_quantity numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_movement_type
+    WHEN 'OUT' THEN -abs(p_quantity)
+    WHEN 'ADJUSTMENT' THEN p_quantity
+    ELSE abs(p_quantity)
+  END
+$$;
+
+-- Add a delta to the cached stock of a material; returns the new quantity
+CREATE OR REPLACE FUNCTION adjust_material_stock(p_material_id text, p_delta numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_quantity numeric;
+BEGIN
+  UPDATE raw_materials
+  SET stock_quantity = coalesce(stock_quantity, 0) + p_delta, updated_at = now()
+  WHERE id = p_material_id
+  RETURNING stock_quantity INTO v_quantity;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Raw material % not found', p_material_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_quantity;
+END;
+$$;
+
+-- Write order columns from a jsonb object, cast to the column types
+CREATE OR REPLACE FUNCTION set_order_fields(p_order_id text, p_fields jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_column text;
+BEGIN
+  FOR v_column IN SELECT jsonb_object_keys(coalesce(p_fields, '{}')) LOOP
+    EXECUTE format('UPDATE orders SET %1$I = (jsonb_populate_record(NULL::orders, $1)).%1$I WHERE id = $2', v_column)
+    USING p_fields, p_order_id;
+  END LOOP;
+END;
+$$;
+
+-- p_fields: other order columns written with the status (admin_notes,
+-- trackingNumber, ...). p_movements: [{raw_material_id, movement_type,
+-- quantity, reason, order_id}]. Returns the ids of the inserted movements.
+CREATE OR REPLACE FUNCTION apply_order_status_change(
+  p_order_id text,
+  p_from_status text,
+  p_to_status text,
+  p_fields jsonb DEFAULT '{}',
+  p_movements jsonb DEFAULT '[]'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_movement jsonb;
+  v_id text;
+  v_ids text[] := '{}';
+  v_change record;
+BEGIN
+  UPDATE orders SET status = p_to_status, "updatedAt" = now()
+  WHERE id = p_order_id AND status = p_from_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % is no longer %', p_order_id, p_from_status USING ERRCODE = '40001';
+  END IF;
+
+  PERFORM set_order_fields(p_order_id, p_fields);
+
+  FOR v_movement IN SELECT value FROM jsonb_array_elements(coalesce(p_movements, '[]')) LOOP
+    INSERT INTO stock_movements (raw_material_id, movement_type, quantity, reason, order_id)
+    VALUES (
+      v_movement->>'raw_material_id',
+      v_movement->>'movement_type',
+      (v_movement->>'quantity')::numeric,
+      v_movement->>'reason',
+      coalesce(v_movement->>'order_id', p_order_id)
+    )
+    RETURNING id INTO v_id;
+    v_ids := v_ids || v_id;
+  END LOOP;
+
+  -- One increment per material, in id order so concurrent changes lock the
+  -- material rows in the same order
+  FOR v_change IN
+    SELECT movement->>'raw_material_id' AS material_id,
+      sum(movement_stock_delta(movement->>'movement_type', (movement->>'quantity')::numeric)) AS delta
+    FROM jsonb_array_elements(coalesce(p_movements, '[]')) AS movement
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    PERFORM adjust_material_stock(v_change.material_id, v_change.delta);
+  END LOOP;
+
+  RETURN to_jsonb(v_ids);
+END;
+$$;
+
+-- p_from_status is the status the change wrote, p_to_status the one to go back
+-- to; p_fields holds the previous values of the columns it wrote (including
+-- updatedAt) and p_movement_ids the movements it inserted.
+CREATE OR REPLACE FUNCTION revert_order_status_change(
+  p_order_id text,
+  p_from_status text,
+  p_to_status text,
+  p_fields jsonb DEFAULT '{}',
+  p_movement_ids jsonb DEFAULT '[]'
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_change record;
+BEGIN
+  UPDATE orders SET status = p_to_status
+  WHERE id = p_order_id AND status = p_from_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % is no longer %', p_order_id, p_from_status USING ERRCODE = '40001';
+  END IF;
+
+  PERFORM set_order_fields(p_order_id, p_fields);
+
+  FOR v_change IN
+    SELECT raw_material_id AS material_id, sum(movement_stock_delta(movement_type, quantity)) AS delta
+    FROM stock_movements
+    WHERE id IN (SELECT jsonb_array_elements_text(coalesce(p_movement_ids, '[]')))
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    PERFORM adjust_material_stock(v_change.material_id, -v_change.delta);
+  END LOOP;
+
+  DELETE FROM stock_movements
+  WHERE id IN (SELECT jsonb_array_elements_text(coalesce(p_movement_ids, '[]')));
+END;
+$$;
@@ -0,0 +1,21 @@
+-- Dated goods receipts of purchase orders, oldest first (see
+-- purchaseOrderService, supplierScorecardService):
+-- [{ "received_at": ..., "lines": [{ "material_id", "quantity", "unit_price" }] }]
+-- received_at stays the date the last outstanding line arrived.
+
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS receipts_json jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Orders received before the history existed count as one receipt on received_at
+UPDATE supplier_orders
+SET receipts_json = jsonb_build_array(jsonb_build_object(
+  'received_at', received_at,
+  'lines', (
+    SELECT coalesce(jsonb_agg(jsonb_build_object(
+      'material_id', item->>'material_id',
+      'quantity', coalesce((item->>'received_quantity')::numeric, 0),
+      'unit_price', item->'unit_price'
+    )), '[]'::jsonb)
+    FROM jsonb_array_elements(coalesce(items_json, '[]'::jsonb)) AS item
+  )
+))
+WHERE received_at IS NOT NULL AND receipts_json = '[]'::jsonb;
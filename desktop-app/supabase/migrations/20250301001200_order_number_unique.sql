@@ -0,0 +1,5 @@
+-- One order per order number; desktop order entry retries with the next
+-- number when another order took it meanwhile (see orderEntryService).
+-- Creating the index fails while duplicate numbers exist: renumber those first.
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_order_number_key ON orders ("orderNumber");
@@ -0,0 +1,12 @@
+-- One reservation per order and material, so an order reserved while it is
+-- being entered and by a concurrent reconcile is not counted twice (see
+-- reservationService). Duplicates written before are the same reservation
+-- twice; the older row is kept.
+
+DELETE FROM stock_reservations AS duplicate
+USING stock_reservations AS kept
+WHERE duplicate.order_id = kept.order_id
+  AND duplicate.raw_material_id = kept.raw_material_id
+  AND (duplicate.created_at, duplicate.id) > (kept.created_at, kept.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_reservations_order_material_key ON stock_reservations (order_id, raw_material_id);
@@ -0,0 +1,62 @@
+-- The desktop replica pulls the rows changed since its last pull (see
+-- OFFLINE_SYNC_CONFIG.CHANGES in the desktop app). Every update moves the
+-- change column forward, whichever client wrote the row, and the columns are
+-- indexed for the range reads.
+
+CREATE OR REPLACE FUNCTION touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- The web shop tables name the column "updatedAt"
+CREATE OR REPLACE FUNCTION touch_updated_at_camel()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW."updatedAt" := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS customers_touch_updated_at ON customers;
+CREATE TRIGGER customers_touch_updated_at BEFORE UPDATE ON customers
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS product_recipes_touch_updated_at ON product_recipes;
+CREATE TRIGGER product_recipes_touch_updated_at BEFORE UPDATE ON product_recipes
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS raw_materials_touch_updated_at ON raw_materials;
+CREATE TRIGGER raw_materials_touch_updated_at BEFORE UPDATE ON raw_materials
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS suppliers_touch_updated_at ON suppliers;
+CREATE TRIGGER suppliers_touch_updated_at BEFORE UPDATE ON suppliers
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS stock_reservations_touch_updated_at ON stock_reservations;
+CREATE TRIGGER stock_reservations_touch_updated_at BEFORE UPDATE ON stock_reservations
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+DROP TRIGGER IF EXISTS products_touch_updated_at ON products;
+CREATE TRIGGER products_touch_updated_at BEFORE UPDATE ON products
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at_camel();
+
+DROP TRIGGER IF EXISTS orders_touch_updated_at ON orders;
+CREATE TRIGGER orders_touch_updated_at BEFORE UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at_camel();
+
+CREATE INDEX IF NOT EXISTS customers_updated_at_idx ON customers (updated_at);
+CREATE INDEX IF NOT EXISTS product_recipes_updated_at_idx ON product_recipes (updated_at);
+CREATE INDEX IF NOT EXISTS raw_materials_updated_at_idx ON raw_materials (updated_at);
+CREATE INDEX IF NOT EXISTS suppliers_updated_at_idx ON suppliers (updated_at);
+CREATE INDEX IF NOT EXISTS stock_reservations_updated_at_idx ON stock_reservations (updated_at);
+CREATE INDEX IF NOT EXISTS stock_movements_created_at_idx ON stock_movements (created_at);
+CREATE INDEX IF NOT EXISTS products_updated_at_idx ON products ("updatedAt");
+CREATE INDEX IF NOT EXISTS orders_updated_at_idx ON orders ("updatedAt");